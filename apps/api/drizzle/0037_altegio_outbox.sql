@@ -0,0 +1,52 @@
+CREATE TABLE "altegio_outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"payload" jsonb NOT NULL,
+	"progress" jsonb,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 8 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"transfer_id" uuid,
+	"warehouse_id" uuid,
+	"reference" text,
+	"created_by_user_id" text,
+	"dismissed_by_user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "altegio_outbox"
+	ADD CONSTRAINT "altegio_outbox_transfer_id_warehouse_transfer_id_fk"
+	FOREIGN KEY ("transfer_id")
+	REFERENCES "public"."warehouse_transfer"("id")
+	ON DELETE set null
+	ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "altegio_outbox"
+	ADD CONSTRAINT "altegio_outbox_warehouse_id_warehouse_id_fk"
+	FOREIGN KEY ("warehouse_id")
+	REFERENCES "public"."warehouse"("id")
+	ON DELETE set null
+	ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "altegio_outbox"
+	ADD CONSTRAINT "altegio_outbox_created_by_user_id_user_id_fk"
+	FOREIGN KEY ("created_by_user_id")
+	REFERENCES "public"."user"("id")
+	ON DELETE set null
+	ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "altegio_outbox"
+	ADD CONSTRAINT "altegio_outbox_dismissed_by_user_id_user_id_fk"
+	FOREIGN KEY ("dismissed_by_user_id")
+	REFERENCES "public"."user"("id")
+	ON DELETE set null
+	ON UPDATE cascade;
+--> statement-breakpoint
+CREATE INDEX "idx_altegio_outbox_status_next_attempt" ON "altegio_outbox" USING btree ("status","next_attempt_at");
+--> statement-breakpoint
+CREATE INDEX "idx_altegio_outbox_transfer_id" ON "altegio_outbox" USING btree ("transfer_id");
@@ -0,0 +1,33 @@
+CREATE TABLE "inventory_sync_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trigger" text DEFAULT 'manual' NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"dry_run" boolean DEFAULT false NOT NULL,
+	"reconcile" boolean DEFAULT false NOT NULL,
+	"warehouse_id" uuid,
+	"triggered_by_user_id" text,
+	"warehouses" jsonb,
+	"totals" jsonb,
+	"meta" jsonb,
+	"error_message" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_sync_run"
+	ADD CONSTRAINT "inventory_sync_run_warehouse_id_warehouse_id_fk"
+	FOREIGN KEY ("warehouse_id")
+	REFERENCES "public"."warehouse"("id")
+	ON DELETE set null
+	ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "inventory_sync_run"
+	ADD CONSTRAINT "inventory_sync_run_triggered_by_user_id_user_id_fk"
+	FOREIGN KEY ("triggered_by_user_id")
+	REFERENCES "public"."user"("id")
+	ON DELETE set null
+	ON UPDATE cascade;
+--> statement-breakpoint
+CREATE INDEX "idx_inventory_sync_run_started_at" ON "inventory_sync_run" USING btree ("started_at");
+--> statement-breakpoint
+CREATE INDEX "idx_inventory_sync_run_warehouse_started_at" ON "inventory_sync_run" USING btree ("warehouse_id","started_at");
@@ -0,0 +1,20 @@
+CREATE TABLE "product" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"barcode" bigint NOT NULL,
+	"title" text NOT NULL,
+	"category" text,
+	"category_id" integer,
+	"unit" text,
+	"cost" numeric(12, 2),
+	"altegio_goods" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"altegio_snapshot" jsonb,
+	"is_archived" boolean DEFAULT false NOT NULL,
+	"last_synced_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "product_barcode_unique" UNIQUE("barcode")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_product_title" ON "product" USING btree ("title");
+--> statement-breakpoint
+CREATE INDEX "idx_product_archived_title" ON "product" USING btree ("is_archived","title");
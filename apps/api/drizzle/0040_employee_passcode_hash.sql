@@ -0,0 +1,27 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+--> statement-breakpoint
+ALTER TABLE "employee" ADD COLUMN "passcode_hash" text;
+--> statement-breakpoint
+ALTER TABLE "employee" ADD COLUMN "passcode_updated_at" timestamp with time zone;
+--> statement-breakpoint
+UPDATE "employee"
+	SET "passcode_hash" = crypt("passcode"::text, gen_salt('bf', 10)),
+		"passcode_updated_at" = now()
+	WHERE "passcode" IS NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "employee" DROP COLUMN "passcode";
+--> statement-breakpoint
+CREATE TABLE "employee_passcode_lockout" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp with time zone,
+	"last_failed_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "employee_passcode_lockout"
+	ADD CONSTRAINT "employee_passcode_lockout_user_id_user_id_fk"
+	FOREIGN KEY ("user_id")
+	REFERENCES "public"."user"("id")
+	ON DELETE cascade
+	ON UPDATE cascade;
@@ -0,0 +1,3 @@
+ALTER TABLE "withdraw_order" ADD COLUMN "client_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "withdraw_order" ADD CONSTRAINT "withdraw_order_client_id_unique" UNIQUE("client_id");
@@ -0,0 +1,19 @@
+CREATE TABLE "idempotency_key" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" text NOT NULL,
+	"user_id" text NOT NULL,
+	"method" text NOT NULL,
+	"path" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"status" text DEFAULT 'in_progress' NOT NULL,
+	"response_status" integer,
+	"response_body" text,
+	"response_content_type" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idempotency_key_user_key_key" ON "idempotency_key" USING btree ("user_id","key");
+--> statement-breakpoint
+CREATE INDEX "idx_idempotency_key_expires_at" ON "idempotency_key" USING btree ("expires_at");
@@ -0,0 +1,71 @@
+CREATE TABLE "cycle_count" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"warehouse_id" uuid NOT NULL,
+	"cabinet_id" uuid,
+	"status" text DEFAULT 'open' NOT NULL,
+	"notes" text,
+	"summary" jsonb,
+	"opened_by_user_id" text,
+	"closed_by_user_id" text,
+	"opened_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"closed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "cycle_count_item" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cycle_count_id" uuid NOT NULL,
+	"product_stock_id" uuid,
+	"barcode" bigint NOT NULL,
+	"description" text,
+	"is_expected" boolean DEFAULT true NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"counted_quantity" integer DEFAULT 0 NOT NULL,
+	"resolution" text,
+	"counted_by_user_id" text,
+	"counted_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "cycle_count_scan" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cycle_count_id" uuid NOT NULL,
+	"barcode" bigint NOT NULL,
+	"product_stock_id" uuid,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"result" text NOT NULL,
+	"scanned_by_user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_shrinkage_event" ADD COLUMN "cycle_count_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "cycle_count" ADD CONSTRAINT "cycle_count_warehouse_id_warehouse_id_fk" FOREIGN KEY ("warehouse_id") REFERENCES "public"."warehouse"("id") ON DELETE restrict ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count" ADD CONSTRAINT "cycle_count_cabinet_id_cabinet_warehouse_id_fk" FOREIGN KEY ("cabinet_id") REFERENCES "public"."cabinet_warehouse"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count" ADD CONSTRAINT "cycle_count_opened_by_user_id_user_id_fk" FOREIGN KEY ("opened_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count" ADD CONSTRAINT "cycle_count_closed_by_user_id_user_id_fk" FOREIGN KEY ("closed_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count_item" ADD CONSTRAINT "cycle_count_item_cycle_count_id_cycle_count_id_fk" FOREIGN KEY ("cycle_count_id") REFERENCES "public"."cycle_count"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count_item" ADD CONSTRAINT "cycle_count_item_product_stock_id_product_stock_id_fk" FOREIGN KEY ("product_stock_id") REFERENCES "public"."product_stock"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count_item" ADD CONSTRAINT "cycle_count_item_counted_by_user_id_user_id_fk" FOREIGN KEY ("counted_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count_scan" ADD CONSTRAINT "cycle_count_scan_cycle_count_id_cycle_count_id_fk" FOREIGN KEY ("cycle_count_id") REFERENCES "public"."cycle_count"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "cycle_count_scan" ADD CONSTRAINT "cycle_count_scan_scanned_by_user_id_user_id_fk" FOREIGN KEY ("scanned_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "inventory_shrinkage_event" ADD CONSTRAINT "inventory_shrinkage_event_cycle_count_id_cycle_count_id_fk" FOREIGN KEY ("cycle_count_id") REFERENCES "public"."cycle_count"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE INDEX "idx_cycle_count_warehouse_status" ON "cycle_count" USING btree ("warehouse_id","status");
+--> statement-breakpoint
+CREATE INDEX "idx_cycle_count_opened_at" ON "cycle_count" USING btree ("opened_at");
+--> statement-breakpoint
+CREATE INDEX "idx_cycle_count_item_cycle_count" ON "cycle_count_item" USING btree ("cycle_count_id");
+--> statement-breakpoint
+CREATE INDEX "idx_cycle_count_item_cycle_count_barcode" ON "cycle_count_item" USING btree ("cycle_count_id","barcode");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "cycle_count_item_cycle_count_product_stock_key" ON "cycle_count_item" USING btree ("cycle_count_id","product_stock_id");
+--> statement-breakpoint
+CREATE INDEX "idx_cycle_count_scan_cycle_count_created_at" ON "cycle_count_scan" USING btree ("cycle_count_id","created_at");
@@ -0,0 +1,20 @@
+CREATE TABLE "audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_user_id" text,
+	"actor_role" text,
+	"entity_type" text NOT NULL,
+	"entity_id" text NOT NULL,
+	"action" text NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"metadata" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_actor_user_id_user_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE INDEX "idx_audit_log_entity" ON "audit_log" USING btree ("entity_type","entity_id","created_at");
+--> statement-breakpoint
+CREATE INDEX "idx_audit_log_created_at" ON "audit_log" USING btree ("created_at");
+--> statement-breakpoint
+CREATE INDEX "idx_audit_log_actor" ON "audit_log" USING btree ("actor_user_id");
@@ -0,0 +1,97 @@
+CREATE TABLE "role_permission" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"role" text NOT NULL,
+	"permission" text NOT NULL,
+	"granted_by_user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "role_permission" ADD CONSTRAINT "role_permission_granted_by_user_id_user_id_fk" FOREIGN KEY ("granted_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "role_permission_role_permission_key" ON "role_permission" USING btree ("role","permission");
+--> statement-breakpoint
+-- Default matrix: mirrors the previous role checks and the Ajustes screens each role could use (admin is implicit)
+INSERT INTO "role_permission" ("role", "permission") VALUES
+	('encargado', 'inventory.view'),
+	('encargado', 'stock_limits.view'),
+	('encargado', 'transfers.view'),
+	('encargado', 'kits.view'),
+	('encargado', 'withdraw_orders.view'),
+	('encargado', 'employees.view'),
+	('encargado', 'warehouses.view'),
+	('encargado', 'users.view'),
+	('encargado', 'cycle_counts.view'),
+	('encargado', 'replenishment.view'),
+	('encargado', 'inventory.manage'),
+	('encargado', 'inventory.sync'),
+	('encargado', 'products.create'),
+	('encargado', 'transfers.create'),
+	('encargado', 'transfers.complete'),
+	('encargado', 'transfers.receive'),
+	('encargado', 'kits.manage'),
+	('encargado', 'withdraw_orders.manage'),
+	('encargado', 'employees.manage'),
+	('encargado', 'cycle_counts.count'),
+	('encargado', 'replenishment.manage'),
+	('encargado', 'inventory.delete'),
+	('encargado', 'products.sync'),
+	('encargado', 'stock_limits.manage'),
+	('encargado', 'warehouses.manage'),
+	('encargado', 'users.manage'),
+	('encargado', 'merma.view'),
+	('encargado', 'merma.writeoff'),
+	('encargado', 'cycle_counts.close'),
+	('encargado', 'altegio.outbox'),
+	('encargado', 'audit.view'),
+	('manager', 'inventory.view'),
+	('manager', 'stock_limits.view'),
+	('manager', 'transfers.view'),
+	('manager', 'kits.view'),
+	('manager', 'withdraw_orders.view'),
+	('manager', 'employees.view'),
+	('manager', 'warehouses.view'),
+	('manager', 'users.view'),
+	('manager', 'cycle_counts.view'),
+	('manager', 'replenishment.view'),
+	('manager', 'inventory.manage'),
+	('manager', 'inventory.sync'),
+	('manager', 'products.create'),
+	('manager', 'transfers.create'),
+	('manager', 'transfers.complete'),
+	('manager', 'transfers.receive'),
+	('manager', 'kits.manage'),
+	('manager', 'withdraw_orders.manage'),
+	('manager', 'employees.manage'),
+	('manager', 'cycle_counts.count'),
+	('manager', 'replenishment.manage'),
+	('employee', 'inventory.view'),
+	('employee', 'stock_limits.view'),
+	('employee', 'transfers.view'),
+	('employee', 'kits.view'),
+	('employee', 'withdraw_orders.view'),
+	('employee', 'employees.view'),
+	('employee', 'warehouses.view'),
+	('employee', 'users.view'),
+	('employee', 'cycle_counts.view'),
+	('employee', 'replenishment.view'),
+	('employee', 'inventory.manage'),
+	('employee', 'inventory.sync'),
+	('employee', 'products.create'),
+	('employee', 'transfers.create'),
+	('employee', 'transfers.complete'),
+	('employee', 'transfers.receive'),
+	('employee', 'kits.manage'),
+	('employee', 'withdraw_orders.manage'),
+	('employee', 'employees.manage'),
+	('employee', 'cycle_counts.count'),
+	('employee', 'replenishment.manage'),
+	('viewer', 'inventory.view'),
+	('viewer', 'stock_limits.view'),
+	('viewer', 'transfers.view'),
+	('viewer', 'kits.view'),
+	('viewer', 'withdraw_orders.view'),
+	('viewer', 'employees.view'),
+	('viewer', 'warehouses.view'),
+	('viewer', 'users.view'),
+	('viewer', 'cycle_counts.view'),
+	('viewer', 'replenishment.view');
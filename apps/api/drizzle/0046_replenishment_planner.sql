@@ -0,0 +1,16 @@
+ALTER TABLE "replenishment_order" ADD COLUMN "origin" text DEFAULT 'manual' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "is_draft" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "reviewed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "reviewed_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD CONSTRAINT "replenishment_order_reviewed_by_user_id_user_id_fk" FOREIGN KEY ("reviewed_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE INDEX "replenishment_order_source_draft_idx" ON "replenishment_order" USING btree ("source_warehouse_id","is_draft");
+--> statement-breakpoint
+-- Reviewing planner drafts is an encargado task by default (admin is implicit)
+INSERT INTO "role_permission" ("role", "permission") VALUES
+	('encargado', 'replenishment.approve')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,49 @@
+CREATE TABLE "notification_rule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"warehouse_id" uuid,
+	"role" text NOT NULL,
+	"threshold" integer,
+	"send_email" boolean DEFAULT false NOT NULL,
+	"delivery_mode" text DEFAULT 'immediate' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by_user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notification" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"rule_id" uuid,
+	"type" text NOT NULL,
+	"warehouse_id" uuid,
+	"title" text NOT NULL,
+	"body" text NOT NULL,
+	"link" text,
+	"dedupe_key" text NOT NULL,
+	"email_status" text DEFAULT 'none' NOT NULL,
+	"emailed_at" timestamp with time zone,
+	"read_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_rule" ADD CONSTRAINT "notification_rule_warehouse_id_warehouse_id_fk" FOREIGN KEY ("warehouse_id") REFERENCES "public"."warehouse"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "notification_rule" ADD CONSTRAINT "notification_rule_created_by_user_id_user_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "notification" ADD CONSTRAINT "notification_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "notification" ADD CONSTRAINT "notification_rule_id_notification_rule_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."notification_rule"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "notification" ADD CONSTRAINT "notification_warehouse_id_warehouse_id_fk" FOREIGN KEY ("warehouse_id") REFERENCES "public"."warehouse"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE INDEX "idx_notification_rule_active_type" ON "notification_rule" USING btree ("is_active","type");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "notification_user_dedupe_key_key" ON "notification" USING btree ("user_id","dedupe_key");
+--> statement-breakpoint
+CREATE INDEX "idx_notification_user_created_at" ON "notification" USING btree ("user_id","created_at");
+--> statement-breakpoint
+CREATE INDEX "idx_notification_email_status" ON "notification" USING btree ("email_status");
+--> statement-breakpoint
+INSERT INTO "role_permission" ("role", "permission") VALUES ('encargado', 'notifications.manage') ON CONFLICT DO NOTHING;
@@ -0,0 +1,121 @@
+CREATE TABLE "supplier" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"contact_name" text,
+	"email" text,
+	"phone" text,
+	"notes" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "supplier_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "supplier_product" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_id" uuid NOT NULL,
+	"barcode" bigint NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_order" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_number" text NOT NULL,
+	"supplier_id" uuid NOT NULL,
+	"cedis_warehouse_id" uuid NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"notes" text,
+	"sent_at" timestamp with time zone,
+	"sent_by_user_id" text,
+	"closed_at" timestamp with time zone,
+	"closed_by_user_id" text,
+	"created_by_user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "purchase_order_order_number_unique" UNIQUE("order_number")
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_order_item" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"purchase_order_id" uuid NOT NULL,
+	"barcode" bigint NOT NULL,
+	"description" text,
+	"quantity" integer NOT NULL,
+	"received_quantity" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_order_item_source" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"purchase_order_item_id" uuid NOT NULL,
+	"replenishment_order_detail_id" uuid,
+	"quantity" integer NOT NULL,
+	"received_quantity" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_order_receipt" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"purchase_order_id" uuid NOT NULL,
+	"purchase_order_item_id" uuid NOT NULL,
+	"product_stock_id" uuid,
+	"replenishment_order_detail_id" uuid,
+	"received_by_user_id" text,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "supplier_product" ADD CONSTRAINT "supplier_product_supplier_id_supplier_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."supplier"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_supplier_id_supplier_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."supplier"("id") ON DELETE restrict ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_cedis_warehouse_id_warehouse_id_fk" FOREIGN KEY ("cedis_warehouse_id") REFERENCES "public"."warehouse"("id") ON DELETE restrict ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_sent_by_user_id_user_id_fk" FOREIGN KEY ("sent_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_closed_by_user_id_user_id_fk" FOREIGN KEY ("closed_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order" ADD CONSTRAINT "purchase_order_created_by_user_id_user_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_item" ADD CONSTRAINT "purchase_order_item_purchase_order_id_purchase_order_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_order"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_item_source" ADD CONSTRAINT "purchase_order_item_source_purchase_order_item_id_purchase_order_item_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "public"."purchase_order_item"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_item_source" ADD CONSTRAINT "purchase_order_item_source_replenishment_order_detail_id_replenishment_order_details_id_fk" FOREIGN KEY ("replenishment_order_detail_id") REFERENCES "public"."replenishment_order_details"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_receipt" ADD CONSTRAINT "purchase_order_receipt_purchase_order_id_purchase_order_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_order"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_receipt" ADD CONSTRAINT "purchase_order_receipt_purchase_order_item_id_purchase_order_item_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "public"."purchase_order_item"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_receipt" ADD CONSTRAINT "purchase_order_receipt_product_stock_id_product_stock_id_fk" FOREIGN KEY ("product_stock_id") REFERENCES "public"."product_stock"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_receipt" ADD CONSTRAINT "purchase_order_receipt_replenishment_order_detail_id_replenishment_order_details_id_fk" FOREIGN KEY ("replenishment_order_detail_id") REFERENCES "public"."replenishment_order_details"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "purchase_order_receipt" ADD CONSTRAINT "purchase_order_receipt_received_by_user_id_user_id_fk" FOREIGN KEY ("received_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "supplier_product_barcode_key" ON "supplier_product" USING btree ("barcode");
+--> statement-breakpoint
+CREATE INDEX "idx_supplier_product_supplier" ON "supplier_product" USING btree ("supplier_id");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_status" ON "purchase_order" USING btree ("status");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_supplier" ON "purchase_order" USING btree ("supplier_id");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_cedis" ON "purchase_order" USING btree ("cedis_warehouse_id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "purchase_order_item_order_barcode_key" ON "purchase_order_item" USING btree ("purchase_order_id","barcode");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "purchase_order_item_source_detail_key" ON "purchase_order_item_source" USING btree ("replenishment_order_detail_id");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_item_source_item" ON "purchase_order_item_source" USING btree ("purchase_order_item_id");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_receipt_order" ON "purchase_order_receipt" USING btree ("purchase_order_id");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_receipt_product_stock" ON "purchase_order_receipt" USING btree ("product_stock_id");
+--> statement-breakpoint
+CREATE INDEX "idx_purchase_order_receipt_detail" ON "purchase_order_receipt" USING btree ("replenishment_order_detail_id");
+--> statement-breakpoint
+-- Purchasing is run from the CEDIS by encargados by default (admin is implicit)
+INSERT INTO "role_permission" ("role", "permission") VALUES
+	('encargado', 'purchase_orders.view'),
+	('encargado', 'purchase_orders.manage'),
+	('encargado', 'purchase_orders.receive')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,7 @@
+ALTER TABLE "product_stock" ADD COLUMN "lot_number" text;
+--> statement-breakpoint
+ALTER TABLE "product_stock" ADD COLUMN "expires_at" date;
+--> statement-breakpoint
+CREATE INDEX "idx_product_stock_warehouse_expires_at" ON "product_stock" USING btree ("current_warehouse","expires_at") WHERE "expires_at" IS NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "product" ADD COLUMN "shelf_life_days" integer;
@@ -0,0 +1,7 @@
+ALTER TABLE "product_stock" ADD COLUMN "unit_cost" numeric(12, 2);
+--> statement-breakpoint
+ALTER TABLE "inventory_shrinkage_event" ADD COLUMN "unit_cost" numeric(12, 2);
+--> statement-breakpoint
+UPDATE "product_stock" SET "unit_cost" = "product"."cost" FROM "product" WHERE "product"."barcode" = "product_stock"."barcode" AND "product"."cost" IS NOT NULL;
+--> statement-breakpoint
+UPDATE "inventory_shrinkage_event" SET "unit_cost" = "product"."cost" FROM "product" WHERE "product"."barcode" = "inventory_shrinkage_event"."product_barcode" AND "product"."cost" IS NOT NULL;
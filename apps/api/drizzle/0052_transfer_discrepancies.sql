@@ -0,0 +1,27 @@
+CREATE TABLE "warehouse_transfer_discrepancy" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transfer_id" uuid NOT NULL,
+	"transfer_detail_id" uuid NOT NULL,
+	"product_stock_id" uuid,
+	"kind" text NOT NULL,
+	"outcome" text NOT NULL,
+	"notes" text,
+	"shrinkage_event_id" uuid,
+	"resolved_by_user_id" text,
+	"resolved_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer_discrepancy" ADD CONSTRAINT "warehouse_transfer_discrepancy_transfer_id_warehouse_transfer_id_fk" FOREIGN KEY ("transfer_id") REFERENCES "public"."warehouse_transfer"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer_discrepancy" ADD CONSTRAINT "warehouse_transfer_discrepancy_transfer_detail_id_warehouse_transfer_details_id_fk" FOREIGN KEY ("transfer_detail_id") REFERENCES "public"."warehouse_transfer_details"("id") ON DELETE cascade ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer_discrepancy" ADD CONSTRAINT "warehouse_transfer_discrepancy_product_stock_id_product_stock_id_fk" FOREIGN KEY ("product_stock_id") REFERENCES "public"."product_stock"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer_discrepancy" ADD CONSTRAINT "warehouse_transfer_discrepancy_shrinkage_event_id_inventory_shrinkage_event_id_fk" FOREIGN KEY ("shrinkage_event_id") REFERENCES "public"."inventory_shrinkage_event"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer_discrepancy" ADD CONSTRAINT "warehouse_transfer_discrepancy_resolved_by_user_id_user_id_fk" FOREIGN KEY ("resolved_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "warehouse_transfer_discrepancy_detail_key" ON "warehouse_transfer_discrepancy" USING btree ("transfer_detail_id");
+--> statement-breakpoint
+CREATE INDEX "idx_warehouse_transfer_discrepancy_transfer" ON "warehouse_transfer_discrepancy" USING btree ("transfer_id");
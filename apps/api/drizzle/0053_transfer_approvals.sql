@@ -0,0 +1,24 @@
+ALTER TABLE "warehouse_transfer" ADD COLUMN "approval_status" text DEFAULT 'not_required' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "approval_comment" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "approval_decided_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "approval_decided_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_approval_decided_by_user_id_user_id_fk" FOREIGN KEY ("approval_decided_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "approval_status" text DEFAULT 'not_required' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "approval_comment" text;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "approval_decided_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD COLUMN "approval_decided_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "replenishment_order" ADD CONSTRAINT "replenishment_order_approval_decided_by_user_id_user_id_fk" FOREIGN KEY ("approval_decided_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+-- Approving transfers and orders is an encargado task by default (admin is implicit)
+INSERT INTO "role_permission" ("role", "permission") VALUES
+	('encargado', 'approvals.decide')
+ON CONFLICT DO NOTHING;
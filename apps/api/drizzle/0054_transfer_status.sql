@@ -0,0 +1,78 @@
+ALTER TABLE "warehouse_transfer" ADD COLUMN "status" text DEFAULT 'draft' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "picked_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "picked_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_picked_by_user_id_user_id_fk" FOREIGN KEY ("picked_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "dispatched_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "dispatched_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_dispatched_by_user_id_user_id_fk" FOREIGN KEY ("dispatched_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "in_transit_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "in_transit_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_in_transit_by_user_id_user_id_fk" FOREIGN KEY ("in_transit_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "received_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "received_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_received_by_user_id_user_id_fk" FOREIGN KEY ("received_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "closed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "closed_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_closed_by_user_id_user_id_fk" FOREIGN KEY ("closed_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "cancelled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD COLUMN "cancelled_by_user_id" text;
+--> statement-breakpoint
+ALTER TABLE "warehouse_transfer" ADD CONSTRAINT "warehouse_transfer_cancelled_by_user_id_user_id_fk" FOREIGN KEY ("cancelled_by_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE cascade;
+--> statement-breakpoint
+ALTER TABLE "product_stock" ADD COLUMN "is_in_transit" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+-- Existing transfers: cancelled and completed ones keep their outcome, internal ones never
+-- travel, and open external transfers were already on their way when they were created
+UPDATE "warehouse_transfer"
+SET "status" = 'cancelled', "cancelled_at" = "updated_at"
+WHERE "is_cancelled" = true;
+--> statement-breakpoint
+UPDATE "warehouse_transfer"
+SET "status" = 'closed', "closed_at" = coalesce("completed_date", "created_at")
+WHERE "is_cancelled" = false AND "transfer_type" = 'internal';
+--> statement-breakpoint
+UPDATE "warehouse_transfer"
+SET "status" = 'received',
+	"received_at" = coalesce("completed_date", "updated_at"),
+	"received_by_user_id" = "completed_by"
+WHERE "is_cancelled" = false AND "transfer_type" = 'external' AND "is_completed" = true;
+--> statement-breakpoint
+UPDATE "warehouse_transfer"
+SET "status" = 'in_transit', "in_transit_at" = "transfer_date"
+WHERE "is_cancelled" = false AND "transfer_type" = 'external' AND "is_completed" = false;
+--> statement-breakpoint
+-- Units still travelling: unreceived items of open transfers and items left in transit
+UPDATE "product_stock"
+SET "is_in_transit" = true
+WHERE "id" IN (
+	SELECT "details"."product_stock_id"
+	FROM "warehouse_transfer_details" AS "details"
+	INNER JOIN "warehouse_transfer" AS "transfer" ON "transfer"."id" = "details"."transfer_id"
+	LEFT JOIN "warehouse_transfer_discrepancy" AS "discrepancy"
+		ON "discrepancy"."transfer_detail_id" = "details"."id"
+	WHERE ("transfer"."status" = 'in_transit' AND "details"."is_received" = false
+			AND "discrepancy"."id" IS NULL)
+		OR "discrepancy"."outcome" = 'in_transit'
+);
+--> statement-breakpoint
+-- Picking and dispatching is done by whoever could create transfers
+INSERT INTO "role_permission" ("role", "permission")
+SELECT "role", 'transfers.dispatch' FROM "role_permission" WHERE "permission" = 'transfers.create'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,6 @@
+-- Resetting a numpad passcode was part of employees.manage, which the employee role has.
+-- It is now a separate key for managers only (admin is implicit)
+INSERT INTO "role_permission" ("role", "permission") VALUES
+	('encargado', 'employees.reset_passcode'),
+	('manager', 'employees.reset_passcode')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,236 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { altegioOutbox, employee, user, warehouse, warehouseTransfer } from './db/schema';
+import { computeNextAttemptAt, enqueueAltegioOutboxJob } from './lib/altegio-outbox';
+import { auth } from './lib/auth';
+
+let sourceWarehouseId: string;
+let destinationWarehouseId: string;
+let transferId: string;
+let testUserId: string;
+let employeeId: string;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+let originalGetSession: typeof auth.api.getSession;
+let originalAuthHeader: string | undefined;
+
+const TEST_EMAIL_DOMAIN = 'altegio-outbox-suite.dev';
+
+async function cleanupJobs() {
+	await db.delete(altegioOutbox).where(eq(altegioOutbox.transferId, transferId));
+}
+
+async function enqueueTransferJob() {
+	return await enqueueAltegioOutboxJob(db, {
+		kind: 'warehouse_transfer',
+		payload: {
+			transferId,
+			transferNumber: `TEST-AO-${transferId.slice(0, 8)}`,
+			sourceWarehouseId,
+			destinationWarehouseId,
+			altegioTotals: [{ goodId: 123_456, totalQuantity: 2, totalCost: 100 }],
+		},
+		createdByUserId: testUserId,
+	});
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalAuthHeader = process.env.AUTH_HEADER;
+	// Without credentials every transfer attempt fails before reaching Altegio
+	delete process.env.AUTH_HEADER;
+
+	testUserId = randomUUID();
+	const email = `outbox.${Date.now()}@${TEST_EMAIL_DOMAIN}`;
+	const now = new Date();
+
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Outbox Test User',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	sourceWarehouseId = randomUUID();
+	destinationWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: sourceWarehouseId,
+			name: 'Outbox Source Warehouse',
+			code: `AOS-${sourceWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: destinationWarehouseId,
+			name: 'Outbox Destination Warehouse',
+			code: `AOD-${destinationWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	employeeId = randomUUID();
+	await db.insert(employee).values({
+		id: employeeId,
+		name: 'Outbox Initiator',
+		surname: 'Test',
+		warehouseId: sourceWarehouseId,
+	});
+
+	transferId = randomUUID();
+	await db.insert(warehouseTransfer).values({
+		id: transferId,
+		transferNumber: `TEST-AO-${transferId.slice(0, 8)}`,
+		transferType: 'external',
+		sourceWarehouseId,
+		destinationWarehouseId,
+		initiatedBy: employeeId,
+	});
+
+	mockSessionUser = {
+		id: testUserId,
+		name: 'Outbox Test User',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: destinationWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+beforeEach(async () => {
+	mockSessionUser.role = 'admin';
+	await cleanupJobs();
+});
+
+afterEach(async () => {
+	await cleanupJobs();
+});
+
+afterAll(async () => {
+	await cleanupJobs();
+	await db.delete(warehouseTransfer).where(eq(warehouseTransfer.id, transferId));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db
+		.delete(warehouse)
+		.where(inArray(warehouse.id, [sourceWarehouseId, destinationWarehouseId]));
+	await db.delete(user).where(eq(user.id, testUserId));
+
+	auth.api.getSession = originalGetSession;
+	if (originalAuthHeader !== undefined) {
+		process.env.AUTH_HEADER = originalAuthHeader;
+	}
+});
+
+describe('Altegio outbox API', () => {
+	it('doubles the retry delay per attempt up to the cap', () => {
+		const now = new Date('2026-01-01T00:00:00.000Z');
+		expect(computeNextAttemptAt(1, now).getTime() - now.getTime()).toBe(30_000);
+		expect(computeNextAttemptAt(3, now).getTime() - now.getTime()).toBe(120_000);
+		expect(computeNextAttemptAt(30, now).getTime() - now.getTime()).toBe(6 * 60 * 60 * 1000);
+	});
+
+	it('keeps a failed attempt pending with the error and a backoff schedule', async () => {
+		const job = await enqueueTransferJob();
+
+		const response = await app.fetch(
+			new Request(`http://localhost/api/auth/altegio/outbox/${job.id}/retry`, {
+				method: 'POST',
+			}),
+		);
+		expect(response.status).toBe(200);
+		const json = await response.json();
+		expect(json.data.status).toBe('pending');
+		expect(json.data.attempts).toBe(1);
+		expect(json.data.lastError).toBe('Missing required authentication configuration');
+		expect(new Date(json.data.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+
+		const listResponse = await app.fetch(
+			new Request('http://localhost/api/auth/altegio/outbox?status=pending'),
+		);
+		expect(listResponse.status).toBe(200);
+		const listJson = await listResponse.json();
+		const listedIds = (listJson.data as Array<{ id: string }>).map((item) => item.id);
+		expect(listedIds).toContain(job.id);
+	});
+
+	it('marks the job as failed once attempts are exhausted', async () => {
+		const job = await enqueueTransferJob();
+		await db.update(altegioOutbox).set({ maxAttempts: 1 }).where(eq(altegioOutbox.id, job.id));
+
+		const response = await app.fetch(
+			new Request(`http://localhost/api/auth/altegio/outbox/${job.id}/retry`, {
+				method: 'POST',
+			}),
+		);
+		expect(response.status).toBe(200);
+		const json = await response.json();
+		expect(json.data.status).toBe('failed');
+	});
+
+	it('dismisses a job and refuses to retry it afterwards', async () => {
+		const job = await enqueueTransferJob();
+
+		const dismissResponse = await app.fetch(
+			new Request(`http://localhost/api/auth/altegio/outbox/${job.id}/dismiss`, {
+				method: 'POST',
+			}),
+		);
+		expect(dismissResponse.status).toBe(200);
+		const dismissJson = await dismissResponse.json();
+		expect(dismissJson.data.status).toBe('dismissed');
+		expect(dismissJson.data.dismissedByUserId).toBe(testUserId);
+
+		const retryResponse = await app.fetch(
+			new Request(`http://localhost/api/auth/altegio/outbox/${job.id}/retry`, {
+				method: 'POST',
+			}),
+		);
+		expect(retryResponse.status).toBe(409);
+	});
+
+	it('rejects users without admin or encargado role', async () => {
+		mockSessionUser.role = 'employee';
+
+		const response = await app.fetch(new Request('http://localhost/api/auth/altegio/outbox'));
+		expect(response.status).toBe(403);
+	});
+});
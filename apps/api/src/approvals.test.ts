@@ -0,0 +1,305 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	productStock,
+	productStockUsageHistory,
+	replenishmentOrder,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { getRolePermissions } from './lib/permissions';
+
+const BARCODE = 8_930_001;
+
+let cedisWarehouseId: string;
+let approvalWarehouseId: string;
+let openWarehouseId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+const transferPrefix = `APR-${randomUUID().slice(0, 8)}`;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	// HTTPExceptions thrown by the lib respond with plain text
+	const isJson = response.headers.get('content-type')?.includes('application/json');
+	return { status: response.status, json: isJson ? await response.json() : null };
+}
+
+async function createTransfer(destinationWarehouseId: string, suffix: string) {
+	const [unit] = await db
+		.insert(productStock)
+		.values({ barcode: BARCODE, currentWarehouse: cedisWarehouseId })
+		.returning({ id: productStock.id });
+	const created = await send('/warehouse-transfers/create', 'POST', {
+		transferNumber: `${transferPrefix}-${suffix}`,
+		transferType: 'external',
+		sourceWarehouseId: cedisWarehouseId,
+		destinationWarehouseId,
+		initiatedBy: testUserId,
+		transferDetails: [
+			{ productStockId: unit.id, quantityTransferred: 1, goodId: BARCODE, costPerUnit: 0 },
+		],
+	});
+	expect(created.status).toBe(201);
+	return created.json.data as {
+		transfer: { id: string; approvalStatus: string };
+		details: { id: string }[];
+	};
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	cedisWarehouseId = randomUUID();
+	approvalWarehouseId = randomUUID();
+	openWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: cedisWarehouseId,
+			name: 'Approval CEDIS',
+			code: `APR-C-${cedisWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: approvalWarehouseId,
+			name: 'Approval Store',
+			code: `APR-A-${approvalWarehouseId.slice(0, 8)}`,
+			requiresApproval: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: openWarehouseId,
+			name: 'Open Store',
+			code: `APR-O-${openWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	testUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Approval Admin',
+		email: `admin.${Date.now()}@approvals-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: approvalWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values(mockSessionUser);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [cedisWarehouseId, approvalWarehouseId, openWarehouseId];
+	const transfers = await db
+		.select({ id: warehouseTransfer.id })
+		.from(warehouseTransfer)
+		.where(inArray(warehouseTransfer.destinationWarehouseId, warehouseIds));
+	const transferIds = transfers.map((transfer) => transfer.id);
+	await db
+		.delete(productStockUsageHistory)
+		.where(inArray(productStockUsageHistory.warehouseId, warehouseIds));
+	if (transferIds.length > 0) {
+		await db
+			.delete(warehouseTransferDetails)
+			.where(inArray(warehouseTransferDetails.transferId, transferIds));
+		await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	}
+	await db
+		.delete(replenishmentOrder)
+		.where(inArray(replenishmentOrder.sourceWarehouseId, warehouseIds));
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Approval workflow', () => {
+	it('grants approvals to encargado by default', async () => {
+		expect((await getRolePermissions('encargado')).has('approvals.decide')).toBe(true);
+		expect((await getRolePermissions('employee')).has('approvals.decide')).toBe(false);
+	});
+
+	it('holds transfers into approval warehouses until they are approved', async () => {
+		const open = await createTransfer(openWarehouseId, 'OPEN');
+		expect(open.transfer.approvalStatus).toBe('not_required');
+
+		const { transfer, details } = await createTransfer(approvalWarehouseId, 'HOLD');
+		expect(transfer.approvalStatus).toBe('awaiting_approval');
+
+		const queue = await send('/warehouse-transfers/all?status=awaiting_approval', 'GET');
+		expect(queue.status).toBe(200);
+		const queuedIds = queue.json.data.map((row: { id: string }) => row.id);
+		expect(queuedIds).toContain(transfer.id);
+		expect(queuedIds).not.toContain(open.transfer.id);
+
+		await db
+			.update(warehouseTransferDetails)
+			.set({ isReceived: true, receivedDate: new Date(), receivedBy: testUserId })
+			.where(eq(warehouseTransferDetails.id, details[0].id));
+		const blocked = await send('/warehouse-transfers/update-status', 'POST', {
+			transferId: transfer.id,
+			isCompleted: true,
+			replicateToAltegio: false,
+		});
+		expect(blocked.status).toBe(409);
+		expect(blocked.json.message).toBe('Transfer must be approved before it is completed');
+
+		const approved = await send('/warehouse-transfers/approval', 'POST', {
+			transferId: transfer.id,
+			decision: 'approve',
+			comment: 'Autorizado',
+		});
+		expect(approved.status).toBe(200);
+		expect(approved.json.data).toEqual(
+			expect.objectContaining({
+				approvalStatus: 'approved',
+				approvalComment: 'Autorizado',
+				approvalDecidedByUserId: testUserId,
+				isCancelled: false,
+			}),
+		);
+
+		const again = await send('/warehouse-transfers/approval', 'POST', {
+			transferId: transfer.id,
+			decision: 'reject',
+			comment: 'Tarde',
+		});
+		expect(again.status).toBe(409);
+
+		for (const status of ['picked', 'dispatched', 'in_transit']) {
+			// biome-ignore lint: Transitions must be applied in order
+			const moved = await send('/warehouse-transfers/transition', 'POST', {
+				transferId: transfer.id,
+				status,
+			});
+			expect(moved.status).toBe(200);
+		}
+		const completed = await send('/warehouse-transfers/update-status', 'POST', {
+			transferId: transfer.id,
+			isCompleted: true,
+			replicateToAltegio: false,
+		});
+		expect(completed.status).toBe(200);
+		expect(completed.json.data.isCompleted).toBe(true);
+	});
+
+	it('cancels rejected transfers and requires a comment to reject', async () => {
+		const { transfer } = await createTransfer(approvalWarehouseId, 'REJ');
+
+		const withoutComment = await send('/warehouse-transfers/approval', 'POST', {
+			transferId: transfer.id,
+			decision: 'reject',
+		});
+		expect(withoutComment.status).toBe(400);
+
+		const rejected = await send('/warehouse-transfers/approval', 'POST', {
+			transferId: transfer.id,
+			decision: 'reject',
+			comment: 'No hay espacio en el almacén',
+		});
+		expect(rejected.status).toBe(200);
+		expect(rejected.json.data).toEqual(
+			expect.objectContaining({
+				approvalStatus: 'rejected',
+				isCancelled: true,
+				isPending: false,
+			}),
+		);
+
+		const completed = await send('/warehouse-transfers/update-status', 'POST', {
+			transferId: transfer.id,
+			isCompleted: true,
+			replicateToAltegio: false,
+		});
+		expect(completed.status).toBe(409);
+	});
+
+	it('holds replenishment orders from approval warehouses until they are approved', async () => {
+		const created = await send('/replenishment-orders', 'POST', {
+			sourceWarehouseId: approvalWarehouseId,
+			cedisWarehouseId,
+			items: [{ barcode: BARCODE, quantity: 4 }],
+		});
+		expect(created.status).toBe(201);
+		const orderId = created.json.data.id;
+		expect(created.json.data.approvalStatus).toBe('awaiting_approval');
+
+		const queue = await send('/replenishment-orders?status=awaiting_approval', 'GET');
+		expect(queue.json.data.map((row: { id: string }) => row.id)).toContain(orderId);
+
+		const blocked = await send(`/replenishment-orders/${orderId}`, 'PUT', { isSent: true });
+		expect(blocked.status).toBe(409);
+
+		const approved = await send(`/replenishment-orders/${orderId}/approval`, 'POST', {
+			decision: 'approve',
+		});
+		expect(approved.status).toBe(200);
+		expect(approved.json.data.approvalStatus).toBe('approved');
+
+		const sent = await send(`/replenishment-orders/${orderId}`, 'PUT', { isSent: true });
+		expect(sent.status).toBe(200);
+		expect(sent.json.data.isSent).toBe(true);
+
+		const openOrder = await send('/replenishment-orders', 'POST', {
+			sourceWarehouseId: openWarehouseId,
+			cedisWarehouseId,
+			items: [{ barcode: BARCODE, quantity: 1 }],
+		});
+		expect(openOrder.json.data.approvalStatus).toBe('not_required');
+		const notAwaiting = await send(
+			`/replenishment-orders/${openOrder.json.data.id}/approval`,
+			'POST',
+			{ decision: 'approve' },
+		);
+		expect(notAwaiting.status).toBe(409);
+	});
+});
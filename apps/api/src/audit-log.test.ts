@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { auditLog, user, warehouse } from './db/schema';
+import { auth } from './lib/auth';
+
+let warehouseId: string;
+let actorUserId: string;
+let managedUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+
+async function request(path: string, init?: { method: string; body: unknown }) {
+	return await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method: init?.method ?? 'GET',
+			headers: { 'Content-Type': 'application/json' },
+			...(init && { body: JSON.stringify(init.body) }),
+		}),
+	);
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	actorUserId = randomUUID();
+	managedUserId = randomUUID();
+	const email = `auditor.${Date.now()}@audit-log-suite.dev`;
+	await db.insert(user).values([
+		{
+			id: actorUserId,
+			name: 'Auditor',
+			email,
+			emailVerified: false,
+			image: null,
+			role: 'encargado',
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: managedUserId,
+			name: 'Managed User',
+			email: `managed.${Date.now()}@audit-log-suite.dev`,
+			emailVerified: false,
+			image: null,
+			role: 'employee',
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	warehouseId = randomUUID();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Audited Warehouse',
+		code: `AUD-${warehouseId.slice(0, 8)}`,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: actorUserId,
+		name: 'Auditor',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: actorUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db.delete(auditLog).where(inArray(auditLog.entityId, [warehouseId, managedUserId]));
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+	await db.delete(user).where(inArray(user.id, [actorUserId, managedUserId]));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Audit log', () => {
+	it('records before/after snapshots when a warehouse Altegio config changes', async () => {
+		const response = await request(`/warehouse/${warehouseId}/update-altegio-config`, {
+			method: 'PATCH',
+			body: { altegioId: 4242, isCedis: true },
+		});
+		expect(response.status).toBe(200);
+
+		const entries = await db.select().from(auditLog).where(eq(auditLog.entityId, warehouseId));
+		expect(entries).toHaveLength(1);
+		expect(entries[0]).toMatchObject({
+			entityType: 'warehouse',
+			action: 'update',
+			actorUserId,
+			actorRole: 'encargado',
+		});
+		expect(entries[0].before).toMatchObject({ altegioId: 0, isCedis: false });
+		expect(entries[0].after).toMatchObject({ altegioId: 4242, isCedis: true });
+	});
+
+	it('records role changes made through users/update', async () => {
+		const response = await request('/users/update', {
+			method: 'POST',
+			body: { userId: managedUserId, role: 'encargado' },
+		});
+		expect(response.status).toBe(200);
+
+		const [entry] = await db.select().from(auditLog).where(eq(auditLog.entityId, managedUserId));
+		expect(entry.entityType).toBe('user');
+		expect(entry.before).toMatchObject({ role: 'employee' });
+		expect(entry.after).toMatchObject({ role: 'encargado' });
+	});
+
+	it('lists entries with filters and changed fields', async () => {
+		const response = await request(`/audit?entityType=warehouse&entityId=${warehouseId}`);
+		expect(response.status).toBe(200);
+		const json = await response.json();
+		expect(json.data.items).toHaveLength(1);
+		expect(json.data.items[0].actorName).toBe('Auditor');
+		expect(json.data.items[0].changedFields).toEqual(
+			expect.arrayContaining(['altegioId', 'isCedis']),
+		);
+		expect(json.data.items[0].changedFields).not.toContain('updatedAt');
+		expect(json.data.nextCursor).toBeNull();
+
+		const invalidCursor = await request('/audit?cursor=not-a-cursor');
+		expect(invalidCursor.status).toBe(400);
+	});
+
+	it('rejects employees reading the audit log', async () => {
+		mockSessionUser = { ...mockSessionUser, role: 'employee' };
+		const response = await request('/audit');
+		expect(response.status).toBe(403);
+		mockSessionUser = { ...mockSessionUser, role: 'encargado' };
+	});
+});
@@ -27,8 +27,6 @@ export const authAllowedOrigins = Array.from(
 	),
 );
 
-export const MAIN_ACCOUNT_EMAIL = 'felixddhs@outlook.com';
-
 export const productStockData = [
 	// Barcode 12345 - Multiple units
 	{
@@ -1,4 +1,6 @@
 import type { auth } from './lib/auth';
+import type { EmployeeTokenClaims } from './lib/employee-passcodes';
+import type { WarehouseScope } from './lib/warehouse-scope';
 
 /**
  * Custom type definitions for Hono context variables
@@ -10,6 +12,10 @@ export type Variables = {
 	user: typeof auth.$Infer.Session.user | null;
 	/** Current session data or null if no active session */
 	session: typeof auth.$Infer.Session.session | null;
+	/** Warehouses the user may read, set by the `warehouseScope()` middleware */
+	warehouseScope: WarehouseScope;
+	/** Verified employee token claims, set by the `requireEmployeeToken()` middleware */
+	employeeToken: EmployeeTokenClaims;
 };
 
 export type ApiEnv = {
@@ -0,0 +1,364 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	cycleCount,
+	inventoryShrinkageEvent,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+	withdrawOrderDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+
+const COUNTED_BARCODE = 7_800_000;
+const SURPLUS_BARCODE = 7_800_099;
+const OFF_SHELF_BARCODE = 7_800_050;
+
+let warehouseId: string;
+let otherWarehouseId: string;
+let testUserId: string;
+let expectedIds: string[];
+let strayId: string;
+/** Units from elsewhere that are in use, in transit or in an open withdraw order */
+let busyIds: string[];
+let originalGetSession: typeof auth.api.getSession;
+
+async function request(path: string, body?: unknown) {
+	return await send(`/cycle-counts${path}`, body);
+}
+
+async function send(path: string, body?: unknown) {
+	return await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method: body === undefined ? 'GET' : 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	testUserId = randomUUID();
+	const email = `counter.${Date.now()}@cycle-counts-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Cycle Counter',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	warehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Counted Warehouse',
+			code: `CNT-${warehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Other Warehouse',
+			code: `OTH-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	expectedIds = [randomUUID(), randomUUID(), randomUUID()];
+	strayId = randomUUID();
+	busyIds = [randomUUID(), randomUUID(), randomUUID()];
+	await db.insert(productStock).values([
+		...expectedIds.map((id) => ({
+			id,
+			barcode: COUNTED_BARCODE,
+			description: 'Tinte 7.1',
+			currentWarehouse: warehouseId,
+		})),
+		{
+			id: strayId,
+			barcode: COUNTED_BARCODE,
+			description: 'Tinte 7.1',
+			currentWarehouse: otherWarehouseId,
+		},
+		...busyIds.map((id, index) => ({
+			id,
+			barcode: COUNTED_BARCODE,
+			description: 'Tinte 7.1',
+			currentWarehouse: otherWarehouseId,
+			isBeingUsed: index === 0,
+			isInTransit: index === 1,
+		})),
+	]);
+	await db.insert(withdrawOrderDetails).values({ productId: busyIds[2] });
+
+	const mockSessionUser: typeof auth.$Infer.Session.user = {
+		id: testUserId,
+		name: 'Cycle Counter',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [warehouseId, otherWarehouseId];
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(inArray(inventoryShrinkageEvent.warehouseId, warehouseIds));
+	await db.delete(cycleCount).where(inArray(cycleCount.warehouseId, warehouseIds));
+	const transfers = await db
+		.select({ id: warehouseTransfer.id })
+		.from(warehouseTransfer)
+		.where(inArray(warehouseTransfer.sourceWarehouseId, warehouseIds));
+	if (transfers.length > 0) {
+		const transferIds = transfers.map((transfer) => transfer.id);
+		await db
+			.delete(warehouseTransferDetails)
+			.where(inArray(warehouseTransferDetails.transferId, transferIds));
+		await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	}
+	await db
+		.delete(productStockUsageHistory)
+		.where(inArray(productStockUsageHistory.warehouseId, warehouseIds));
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+	await db.delete(user).where(eq(user.id, testUserId));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Cycle counts', () => {
+	let cycleCountId: string;
+
+	it('snapshots the units on the shelf when a count is opened', async () => {
+		const response = await request('/open', { warehouseId });
+		expect(response.status).toBe(201);
+		const json = await response.json();
+		cycleCountId = json.data.id;
+		expect(json.data.status).toBe('open');
+		expect(json.data.variance.expectedUnits).toBe(3);
+
+		const duplicate = await request('/open', { warehouseId });
+		expect(duplicate.status).toBe(409);
+	});
+
+	it('tracks counted, duplicate and unexpected scans in the live variance', async () => {
+		const counted = await request(`/${cycleCountId}/scan`, {
+			barcode: COUNTED_BARCODE,
+			uuid: expectedIds[0],
+		});
+		expect(counted.status).toBe(200);
+		expect((await counted.json()).data.result).toBe('counted');
+
+		const duplicate = await request(`/${cycleCountId}/scan`, {
+			barcode: COUNTED_BARCODE,
+			uuid: expectedIds[0],
+		});
+		expect((await duplicate.json()).data.result).toBe('duplicate');
+
+		const byBarcode = await request(`/${cycleCountId}/scan`, {
+			barcode: COUNTED_BARCODE,
+			quantity: 1,
+		});
+		expect((await byBarcode.json()).data.countedUnits).toBe(1);
+
+		const stray = await request(`/${cycleCountId}/scan`, {
+			barcode: COUNTED_BARCODE,
+			uuid: strayId,
+		});
+		expect((await stray.json()).data.result).toBe('unexpected');
+
+		const surplus = await request(`/${cycleCountId}/scan`, {
+			barcode: SURPLUS_BARCODE,
+			quantity: 2,
+		});
+		const surplusJson = await surplus.json();
+		expect(surplusJson.data.result).toBe('unexpected');
+		expect(surplusJson.data.variance).toMatchObject({
+			expectedUnits: 3,
+			countedUnits: 5,
+			missingUnits: 1,
+			unexpectedUnits: 3,
+		});
+	});
+
+	it('posts missing units as cycle_count shrinkage and relocates found units on close', async () => {
+		for (const busyId of busyIds) {
+			// biome-ignore lint: Scans are recorded one at a time
+			const busy = await request(`/${cycleCountId}/scan`, {
+				barcode: COUNTED_BARCODE,
+				uuid: busyId,
+			});
+			expect((await busy.json()).data.result).toBe('unexpected');
+		}
+
+		const response = await request(`/${cycleCountId}/close`, { reason: 'dañado' });
+		expect(response.status).toBe(200);
+		const json = await response.json();
+		expect(json.data.status).toBe('closed');
+		expect(json.data.summary).toMatchObject({
+			writtenOffUnits: 1,
+			foundUnits: 1,
+			conflictUnits: 3,
+			createdUnits: 2,
+		});
+		const conflicts = json.data.items.filter(
+			(item: { resolution: string }) => item.resolution === 'conflict',
+		);
+		expect(conflicts.map((item: { productStockId: string }) => item.productStockId).sort()).toEqual(
+			[...busyIds].sort(),
+		);
+
+		const events = await db
+			.select()
+			.from(inventoryShrinkageEvent)
+			.where(eq(inventoryShrinkageEvent.cycleCountId, cycleCountId));
+		expect(events).toHaveLength(1);
+		expect(events[0].source).toBe('cycle_count');
+		expect(events[0].reason).toBe('dañado');
+
+		const [missingUnit] = await db
+			.select()
+			.from(productStock)
+			.where(eq(productStock.id, events[0].productStockId as string));
+		expect(missingUnit.isDeleted).toBe(true);
+
+		const [strayUnit] = await db.select().from(productStock).where(eq(productStock.id, strayId));
+		expect(strayUnit.currentWarehouse).toBe(warehouseId);
+		const busyUnits = await db
+			.select()
+			.from(productStock)
+			.where(inArray(productStock.id, busyIds));
+		expect(busyUnits.every((unit) => unit.currentWarehouse === otherWarehouseId)).toBe(true);
+
+		const createdUnits = await db
+			.select()
+			.from(productStock)
+			.where(eq(productStock.barcode, SURPLUS_BARCODE));
+		expect(createdUnits.filter((unit) => unit.currentWarehouse === warehouseId)).toHaveLength(2);
+
+		const closedAgain = await request(`/${cycleCountId}/close`, { reason: 'dañado' });
+		expect(closedAgain.status).toBe(409);
+	});
+
+	it('neither expects nor writes off units dispatched or withdrawn around a count', async () => {
+		const [onShelf, dispatched, withdrawnBefore, withdrawnDuring] = await db
+			.insert(productStock)
+			.values(
+				Array.from({ length: 4 }, () => ({
+					barcode: OFF_SHELF_BARCODE,
+					description: 'Peine',
+					currentWarehouse: warehouseId,
+				})),
+			)
+			.returning({ id: productStock.id });
+		await db.insert(withdrawOrderDetails).values({ productId: withdrawnBefore.id });
+
+		const opened = await request('/open', { warehouseId });
+		expect(opened.status).toBe(201);
+		const openedJson = await opened.json();
+		const snapshotIds = openedJson.data.items.map(
+			(item: { productStockId: string }) => item.productStockId,
+		);
+		expect(snapshotIds).toContain(onShelf.id);
+		expect(snapshotIds).toContain(dispatched.id);
+		expect(snapshotIds).not.toContain(withdrawnBefore.id);
+
+		const [transfer] = await db
+			.insert(warehouseTransfer)
+			.values({
+				transferNumber: `CNT-${randomUUID().slice(0, 8)}`,
+				sourceWarehouseId: warehouseId,
+				destinationWarehouseId: otherWarehouseId,
+				initiatedBy: testUserId,
+				status: 'picked',
+			})
+			.returning({ id: warehouseTransfer.id });
+		await db
+			.insert(warehouseTransferDetails)
+			.values({ transferId: transfer.id, productStockId: dispatched.id });
+		const dispatch = await send('/warehouse-transfers/transition', {
+			transferId: transfer.id,
+			status: 'dispatched',
+		});
+		expect(dispatch.status).toBe(200);
+		await db.insert(withdrawOrderDetails).values({ productId: withdrawnDuring.id });
+
+		const closed = await request(`/${openedJson.data.id}/close`, { reason: 'consumido' });
+		expect(closed.status).toBe(200);
+		const closedJson = await closed.json();
+		const resolutionOf = (unitId: string) =>
+			closedJson.data.items.find(
+				(item: { productStockId: string }) => item.productStockId === unitId,
+			)?.resolution;
+		expect(resolutionOf(onShelf.id)).toBe('missing');
+		expect(resolutionOf(dispatched.id)).toBe('skipped');
+		expect(resolutionOf(withdrawnDuring.id)).toBe('skipped');
+
+		const units = await db
+			.select()
+			.from(productStock)
+			.where(inArray(productStock.id, [onShelf.id, dispatched.id, withdrawnDuring.id]));
+		const unitById = new Map(units.map((unit) => [unit.id, unit]));
+		expect(unitById.get(onShelf.id)?.isEmpty).toBe(true);
+		for (const unitId of [dispatched.id, withdrawnDuring.id]) {
+			expect(unitById.get(unitId)).toMatchObject({ isEmpty: false, isDeleted: false });
+		}
+	});
+
+	it('exports the variance report as CSV', async () => {
+		const response = await request(`/${cycleCountId}/report?format=csv`);
+		expect(response.status).toBe(200);
+		const lines = (await response.text()).split('\n');
+		expect(lines[0]).toContain('resolution');
+		expect(lines).toHaveLength(1 + 8);
+	});
+});
@@ -6,6 +6,8 @@ import {
 	date,
 	index,
 	integer,
+	jsonb,
+	numeric,
 	pgTable,
 	text,
 	timestamp,
@@ -107,27 +109,42 @@ export const healthCheck = pgTable('health_check', {
 	message: text('message'),
 });
 
-export const productStock = pgTable('product_stock', {
-	id: uuid('id').defaultRandom().primaryKey().notNull(),
-	barcode: bigint('barcode', { mode: 'number' }).default(0).notNull(),
-	description: text('description'),
-	lastUsed: date('last_used'),
-	lastUsedBy: uuid('last_used_by').references(() => employee.id),
-	numberOfUses: integer('number_of_uses').default(0).notNull(),
-	isDeleted: boolean('is_deleted').default(false).notNull(),
-	isEmpty: boolean('is_empty').default(false).notNull(),
-	currentWarehouse: uuid('current_warehouse')
-		.notNull()
-		.references(() => warehouse.id, {
-			onUpdate: 'cascade',
-			onDelete: 'restrict',
-		}),
-	// Optional current cabinet location for internal moves
-	currentCabinet: uuid('current_cabinet').references(() => cabinetWarehouse.id),
-	isBeingUsed: boolean('is_being_used').default(false).notNull(),
-	isKit: boolean('is_kit').default(false).notNull(),
-	firstUsed: date('first_used'),
-});
+export const productStock = pgTable(
+	'product_stock',
+	{
+		id: uuid('id').defaultRandom().primaryKey().notNull(),
+		barcode: bigint('barcode', { mode: 'number' }).default(0).notNull(),
+		description: text('description'),
+		lastUsed: date('last_used'),
+		lastUsedBy: uuid('last_used_by').references(() => employee.id),
+		numberOfUses: integer('number_of_uses').default(0).notNull(),
+		isDeleted: boolean('is_deleted').default(false).notNull(),
+		isEmpty: boolean('is_empty').default(false).notNull(),
+		currentWarehouse: uuid('current_warehouse')
+			.notNull()
+			.references(() => warehouse.id, {
+				onUpdate: 'cascade',
+				onDelete: 'restrict',
+			}),
+		// Optional current cabinet location for internal moves
+		currentCabinet: uuid('current_cabinet').references(() => cabinetWarehouse.id),
+		isBeingUsed: boolean('is_being_used').default(false).notNull(),
+		isKit: boolean('is_kit').default(false).notNull(),
+		firstUsed: date('first_used'),
+		// Supplier lot and expiration date; units without expiry are picked last (FEFO)
+		lotNumber: text('lot_number'),
+		expiresAt: date('expires_at'),
+		// Cost of the unit in pesos, from the Altegio goods cost or the receipt that created it
+		unitCost: numeric('unit_cost', { precision: 12, scale: 2, mode: 'number' }),
+		// Set while the unit travels on a dispatched transfer, so it cannot be withdrawn
+		isInTransit: boolean('is_in_transit').default(false).notNull(),
+	},
+	(table) => ({
+		warehouseExpiresAtIdx: index('idx_product_stock_warehouse_expires_at')
+			.on(table.currentWarehouse, table.expiresAt)
+			.where(sql`${table.expiresAt} IS NOT NULL`),
+	}),
+);
 
 /**
  * Stock limit table for tracking minimum and maximum thresholds for products
@@ -175,6 +192,8 @@ export const withdrawOrder = pgTable('withdraw_order', {
 	userId: uuid('user_id').references(() => employee.id),
 	numItems: integer('num_items').default(1).notNull(),
 	isComplete: boolean('is_complete').default(false),
+	/** Client-generated ID of the offline operation that created the order */
+	clientId: uuid('client_id').unique(),
 });
 
 export const withdrawOrderDetails = pgTable('withdraw_order_details', {
@@ -252,16 +271,60 @@ export const employee = pgTable('employee', {
 			onUpdate: 'cascade',
 			onDelete: 'restrict',
 		}),
-	passcode: integer('passcode').default(1111).notNull(),
+	// bcrypt hash of the 4-digit numpad passcode; null until a passcode is assigned
+	passcodeHash: text('passcode_hash'),
+	passcodeUpdatedAt: timestamp('passcode_updated_at', { withTimezone: true }),
 	userId: text('user_id').references(() => user.id),
 	permissions: uuid('permissions').references(() => permissions.id),
 });
 
+/**
+ * Failed numpad passcode attempts per signed-in account (tablet session).
+ * A wrong passcode does not identify an employee, so lockout is tracked per account.
+ */
+export const employeePasscodeLockout = pgTable('employee_passcode_lockout', {
+	userId: text('user_id')
+		.primaryKey()
+		.references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'cascade',
+		}),
+	failedAttempts: integer('failed_attempts').default(0).notNull(),
+	lockedUntil: timestamp('locked_until', { withTimezone: true }),
+	lastFailedAt: timestamp('last_failed_at', { withTimezone: true }),
+	updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 export const permissions = pgTable('permissions', {
 	id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
 	permission: text('permission').notNull(),
 });
 
+/**
+ * Role → permission matrix for session users (one row per granted permission).
+ * Permission keys come from the catalog in `lib/permissions.ts`; the admin role is
+ * implicitly granted every permission and has no rows here.
+ */
+export const rolePermission = pgTable(
+	'role_permission',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		role: text('role').notNull(),
+		permission: text('permission').notNull(),
+		grantedByUserId: text('granted_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		rolePermissionUnique: uniqueIndex('role_permission_role_permission_key').on(
+			table.role,
+			table.permission,
+		),
+	}),
+);
+
 /**
  * Warehouse transfer table for tracking all stock movements
  * Handles both external (Distribution Center → Almacen) and internal (Almacen → Counter) transfers
@@ -297,6 +360,40 @@ export const warehouseTransfer = pgTable('warehouse_transfer', {
 	isPending: boolean('is_pending').default(true).notNull(),
 	isCancelled: boolean('is_cancelled').default(false).notNull(),
 
+	// State machine: draft | picked | dispatched | in_transit | received | closed | cancelled.
+	// The flags above are kept in sync for older readers; draft uses createdAt and initiatedBy
+	status: text('status').default('draft').notNull(),
+	pickedAt: timestamp('picked_at'),
+	pickedByUserId: text('picked_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+	dispatchedAt: timestamp('dispatched_at'),
+	dispatchedByUserId: text('dispatched_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+	inTransitAt: timestamp('in_transit_at'),
+	inTransitByUserId: text('in_transit_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+	receivedAt: timestamp('received_at'),
+	receivedByUserId: text('received_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+	closedAt: timestamp('closed_at'),
+	closedByUserId: text('closed_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+	cancelledAt: timestamp('cancelled_at'),
+	cancelledByUserId: text('cancelled_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+
 	// User tracking
 	initiatedBy: text('initiated_by').notNull(),
 	completedBy: text('completed_by').references(() => user.id, {
@@ -310,6 +407,15 @@ export const warehouseTransfer = pgTable('warehouse_transfer', {
 	notes: text('notes'), // Additional comments
 	priority: text('priority').default('normal').notNull(), // normal, high, urgent
 
+	// Approval for destinations with requires_approval: not_required | awaiting_approval | approved | rejected
+	approvalStatus: text('approval_status').default('not_required').notNull(),
+	approvalComment: text('approval_comment'),
+	approvalDecidedAt: timestamp('approval_decided_at'),
+	approvalDecidedByUserId: text('approval_decided_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+
 	// Audit fields
 	createdAt: timestamp('created_at')
 		.$defaultFn(() => /* @__PURE__ */ new Date())
@@ -363,45 +469,71 @@ export const warehouseTransferDetails = pgTable('warehouse_transfer_details', {
 		.notNull(),
 });
 
-export const replenishmentOrder = pgTable('replenishment_order', {
-	id: uuid('id').defaultRandom().primaryKey().notNull(),
-	orderNumber: text('order_number').notNull().unique(),
-	sourceWarehouseId: uuid('source_warehouse_id')
-		.notNull()
-		.references(() => warehouse.id, {
+export const replenishmentOrder = pgTable(
+	'replenishment_order',
+	{
+		id: uuid('id').defaultRandom().primaryKey().notNull(),
+		orderNumber: text('order_number').notNull().unique(),
+		sourceWarehouseId: uuid('source_warehouse_id')
+			.notNull()
+			.references(() => warehouse.id, {
+				onUpdate: 'cascade',
+				onDelete: 'restrict',
+			}),
+		cedisWarehouseId: uuid('cedis_warehouse_id')
+			.notNull()
+			.references(() => warehouse.id, {
+				onUpdate: 'cascade',
+				onDelete: 'restrict',
+			}),
+		isSent: boolean('is_sent').default(false).notNull(),
+		sentAt: timestamp('sent_at'),
+		sentByUserId: text('sent_by_user_id').references(() => user.id, {
 			onUpdate: 'cascade',
-			onDelete: 'restrict',
+			onDelete: 'set null',
 		}),
-	cedisWarehouseId: uuid('cedis_warehouse_id')
-		.notNull()
-		.references(() => warehouse.id, {
+		isReceived: boolean('is_received').default(false).notNull(),
+		receivedAt: timestamp('received_at'),
+		receivedByUserId: text('received_by_user_id').references(() => user.id, {
 			onUpdate: 'cascade',
-			onDelete: 'restrict',
+			onDelete: 'set null',
 		}),
-	isSent: boolean('is_sent').default(false).notNull(),
-	sentAt: timestamp('sent_at'),
-	sentByUserId: text('sent_by_user_id').references(() => user.id, {
-		onUpdate: 'cascade',
-		onDelete: 'set null',
-	}),
-	isReceived: boolean('is_received').default(false).notNull(),
-	receivedAt: timestamp('received_at'),
-	receivedByUserId: text('received_by_user_id').references(() => user.id, {
-		onUpdate: 'cascade',
-		onDelete: 'set null',
-	}),
-	warehouseTransferId: uuid('warehouse_transfer_id').references(() => warehouseTransfer.id, {
-		onUpdate: 'cascade',
-		onDelete: 'set null',
+		warehouseTransferId: uuid('warehouse_transfer_id').references(() => warehouseTransfer.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		notes: text('notes'),
+		// 'manual' orders are created by a warehouse; 'planner' drafts come from the stock limit planner
+		origin: text('origin').default('manual').notNull(),
+		// Planner drafts wait for an encargado review before they can be sent
+		isDraft: boolean('is_draft').default(false).notNull(),
+		reviewedAt: timestamp('reviewed_at'),
+		reviewedByUserId: text('reviewed_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		// Same approval flow as warehouse_transfer, for orders from warehouses with requires_approval
+		approvalStatus: text('approval_status').default('not_required').notNull(),
+		approvalComment: text('approval_comment'),
+		approvalDecidedAt: timestamp('approval_decided_at'),
+		approvalDecidedByUserId: text('approval_decided_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at')
+			.$defaultFn(() => /* @__PURE__ */ new Date())
+			.notNull(),
+		updatedAt: timestamp('updated_at')
+			.$defaultFn(() => /* @__PURE__ */ new Date())
+			.notNull(),
+	},
+	(table) => ({
+		sourceDraftIdx: index('replenishment_order_source_draft_idx').on(
+			table.sourceWarehouseId,
+			table.isDraft,
+		),
 	}),
-	notes: text('notes'),
-	createdAt: timestamp('created_at')
-		.$defaultFn(() => /* @__PURE__ */ new Date())
-		.notNull(),
-	updatedAt: timestamp('updated_at')
-		.$defaultFn(() => /* @__PURE__ */ new Date())
-		.notNull(),
-});
+);
 
 export const replenishmentOrderDetails = pgTable(
 	'replenishment_order_details',
@@ -576,8 +708,8 @@ export const inventoryShrinkageEvent = pgTable(
 	{
 		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
 		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-		source: text('source').notNull(), // manual | transfer_missing
-		reason: text('reason').notNull(), // consumido | dañado | otro
+		source: text('source').notNull(), // manual | transfer_missing | sync_adjustment | cycle_count | usage_limit | transfer_discrepancy
+		reason: text('reason').notNull(), // consumido | dañado | caducado | otro
 		quantity: integer('quantity').default(1).notNull(),
 		notes: text('notes'),
 		warehouseId: uuid('warehouse_id')
@@ -597,6 +729,11 @@ export const inventoryShrinkageEvent = pgTable(
 			onDelete: 'set null',
 		}),
 		transferNumber: text('transfer_number'),
+		// Cycle count that reported the unit missing (source = cycle_count)
+		cycleCountId: uuid('cycle_count_id').references(() => cycleCount.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
 		sourceWarehouseId: uuid('source_warehouse_id').references(() => warehouse.id, {
 			onUpdate: 'cascade',
 			onDelete: 'set null',
@@ -609,6 +746,8 @@ export const inventoryShrinkageEvent = pgTable(
 			onUpdate: 'cascade',
 			onDelete: 'set null',
 		}),
+		// Unit cost when the event was recorded, so later cost changes do not revalue merma
+		unitCost: numeric('unit_cost', { precision: 12, scale: 2, mode: 'number' }),
 	},
 	(table) => ({
 		createdAtIdx: index('idx_shrinkage_created_at').on(table.createdAt),
@@ -633,6 +772,691 @@ export const inventoryShrinkageEvent = pgTable(
 	}),
 );
 
+/**
+ * Local product catalog mirrored from Altegio goods, keyed by barcode.
+ * Refreshed by the catalog sync job so catalog reads do not depend on Altegio availability.
+ */
+export const product = pgTable(
+	'product',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		barcode: bigint('barcode', { mode: 'number' }).notNull().unique(),
+		title: text('title').notNull(),
+		category: text('category'),
+		categoryId: integer('category_id'),
+		unit: text('unit'), // Altegio unit short title
+		cost: numeric('cost', { precision: 12, scale: 2, mode: 'number' }),
+		// Local setting: days until a unit expires, used to date units created by the inventory sync
+		shelfLifeDays: integer('shelf_life_days'),
+		// Altegio good_id per location: [{ locationId, goodId }]
+		altegioGoods: jsonb('altegio_goods').default(sql`'[]'::jsonb`).notNull(),
+		// Raw Altegio good from the last sync, used to keep the legacy catalog response shape
+		altegioSnapshot: jsonb('altegio_snapshot'),
+		isArchived: boolean('is_archived').default(false).notNull(),
+		lastSyncedAt: timestamp('last_synced_at', { withTimezone: true }),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		titleIdx: index('idx_product_title').on(table.title),
+		archivedTitleIdx: index('idx_product_archived_title').on(table.isArchived, table.title),
+	}),
+);
+
+/**
+ * Persisted inventory sync runs (manual or scheduled).
+ * Stores the per-warehouse summaries returned by the sync so runs can be compared later.
+ */
+export const inventorySyncRun = pgTable(
+	'inventory_sync_run',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		trigger: text('trigger').default('manual').notNull(), // manual | scheduled
+		status: text('status').default('running').notNull(), // running | succeeded | failed
+		dryRun: boolean('dry_run').default(false).notNull(),
+		reconcile: boolean('reconcile').default(false).notNull(),
+		// Requested warehouse scope; null means every configured warehouse
+		warehouseId: uuid('warehouse_id').references(() => warehouse.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		triggeredByUserId: text('triggered_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		// SyncWarehouseSummary[] including cappedProducts and per-barcode diff
+		warehouses: jsonb('warehouses'),
+		totals: jsonb('totals'),
+		meta: jsonb('meta'),
+		errorMessage: text('error_message'),
+		startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(),
+		finishedAt: timestamp('finished_at', { withTimezone: true }),
+	},
+	(table) => ({
+		startedAtIdx: index('idx_inventory_sync_run_started_at').on(table.startedAt),
+		warehouseStartedAtIdx: index('idx_inventory_sync_run_warehouse_started_at').on(
+			table.warehouseId,
+			table.startedAt,
+		),
+	}),
+);
+
+/**
+ * Durable outbox for Altegio replication jobs.
+ * Each row stores the payload needed to replay a stock movement in Altegio,
+ * so failed replications are retried by the background worker instead of being lost.
+ */
+export const altegioOutbox = pgTable(
+	'altegio_outbox',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		kind: text('kind').notNull(), // warehouse_transfer | stock_creation
+		status: text('status').default('pending').notNull(), // pending | processing | succeeded | failed | dismissed
+		payload: jsonb('payload').notNull(),
+		// Progress checkpoints (e.g. Altegio document IDs already created) to avoid duplicates on retry
+		progress: jsonb('progress'),
+		attempts: integer('attempts').default(0).notNull(),
+		maxAttempts: integer('max_attempts').default(8).notNull(),
+		lastError: text('last_error'),
+		nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
+		lockedAt: timestamp('locked_at', { withTimezone: true }),
+		completedAt: timestamp('completed_at', { withTimezone: true }),
+		transferId: uuid('transfer_id').references(() => warehouseTransfer.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		warehouseId: uuid('warehouse_id').references(() => warehouse.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		reference: text('reference'), // Human-readable reference (transfer number, barcode)
+		createdByUserId: text('created_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		dismissedByUserId: text('dismissed_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		statusNextAttemptIdx: index('idx_altegio_outbox_status_next_attempt').on(
+			table.status,
+			table.nextAttemptAt,
+		),
+		transferIdIdx: index('idx_altegio_outbox_transfer_id').on(table.transferId),
+	}),
+);
+
+/**
+ * Stored responses for requests sent with an `Idempotency-Key` header.
+ * A repeated key from the same user replays the stored response until `expires_at`.
+ */
+export const idempotencyKey = pgTable(
+	'idempotency_key',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		key: text('key').notNull(),
+		// Session user that sent the request; keys are scoped per user
+		userId: text('user_id').notNull(),
+		method: text('method').notNull(),
+		path: text('path').notNull(),
+		// SHA-256 of method, path and raw body; a reused key with another request is rejected
+		requestHash: text('request_hash').notNull(),
+		status: text('status').default('in_progress').notNull(), // in_progress | completed
+		responseStatus: integer('response_status'),
+		responseBody: text('response_body'),
+		responseContentType: text('response_content_type'),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		completedAt: timestamp('completed_at', { withTimezone: true }),
+		expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+	},
+	(table) => ({
+		userKeyUnique: uniqueIndex('idempotency_key_user_key_key').on(table.userId, table.key),
+		expiresAtIdx: index('idx_idempotency_key_expires_at').on(table.expiresAt),
+	}),
+);
+
+/**
+ * Physical cycle count (conteo cíclico) of a warehouse or one of its cabinets.
+ * Expected units are snapshotted when the count opens; closing it posts the adjustments.
+ */
+export const cycleCount = pgTable(
+	'cycle_count',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		warehouseId: uuid('warehouse_id')
+			.notNull()
+			.references(() => warehouse.id, {
+				onUpdate: 'cascade',
+				onDelete: 'restrict',
+			}),
+		// Optional cabinet scope; null counts the whole warehouse
+		cabinetId: uuid('cabinet_id').references(() => cabinetWarehouse.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		status: text('status').default('open').notNull(), // open | closed | cancelled
+		notes: text('notes'),
+		// Variance totals frozen when the count closes
+		summary: jsonb('summary'),
+		openedByUserId: text('opened_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		closedByUserId: text('closed_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		openedAt: timestamp('opened_at', { withTimezone: true }).defaultNow().notNull(),
+		closedAt: timestamp('closed_at', { withTimezone: true }),
+	},
+	(table) => ({
+		warehouseStatusIdx: index('idx_cycle_count_warehouse_status').on(
+			table.warehouseId,
+			table.status,
+		),
+		openedAtIdx: index('idx_cycle_count_opened_at').on(table.openedAt),
+	}),
+);
+
+/**
+ * Units of a cycle count: one row per expected unit plus one row per unexpected scan.
+ * `resolution` is set when the count closes (counted | missing | skipped | found | conflict | unexpected).
+ */
+export const cycleCountItem = pgTable(
+	'cycle_count_item',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		cycleCountId: uuid('cycle_count_id')
+			.notNull()
+			.references(() => cycleCount.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		// Null for barcode-only units that do not match any product_stock row
+		productStockId: uuid('product_stock_id').references(() => productStock.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		barcode: bigint('barcode', { mode: 'number' }).notNull(),
+		description: text('description'),
+		isExpected: boolean('is_expected').default(true).notNull(),
+		// Units represented by the row (greater than 1 only for barcode-only unexpected scans)
+		quantity: integer('quantity').default(1).notNull(),
+		countedQuantity: integer('counted_quantity').default(0).notNull(),
+		resolution: text('resolution'),
+		countedByUserId: text('counted_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		countedAt: timestamp('counted_at', { withTimezone: true }),
+	},
+	(table) => ({
+		cycleCountIdx: index('idx_cycle_count_item_cycle_count').on(table.cycleCountId),
+		cycleCountBarcodeIdx: index('idx_cycle_count_item_cycle_count_barcode').on(
+			table.cycleCountId,
+			table.barcode,
+		),
+		cycleCountUnitUnique: uniqueIndex('cycle_count_item_cycle_count_product_stock_key').on(
+			table.cycleCountId,
+			table.productStockId,
+		),
+	}),
+);
+
+/**
+ * Audit log of every scan recorded during a cycle count.
+ */
+export const cycleCountScan = pgTable(
+	'cycle_count_scan',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		cycleCountId: uuid('cycle_count_id')
+			.notNull()
+			.references(() => cycleCount.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		barcode: bigint('barcode', { mode: 'number' }).notNull(),
+		productStockId: uuid('product_stock_id'),
+		quantity: integer('quantity').default(1).notNull(),
+		result: text('result').notNull(), // counted | duplicate | unexpected
+		scannedByUserId: text('scanned_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		cycleCountCreatedAtIdx: index('idx_cycle_count_scan_cycle_count_created_at').on(
+			table.cycleCountId,
+			table.createdAt,
+		),
+	}),
+);
+
+/**
+ * Generic audit trail of writes to warehouses, stock limits, users, kits and transfers.
+ * `before` / `after` hold JSON snapshots of the entity row; either is null for creations
+ * and deletions respectively.
+ */
+export const auditLog = pgTable(
+	'audit_log',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		actorUserId: text('actor_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		actorRole: text('actor_role'),
+		entityType: text('entity_type').notNull(), // warehouse | stock_limit | user | kit | kit_item | warehouse_transfer | warehouse_transfer_detail | role_permissions
+		entityId: text('entity_id').notNull(),
+		action: text('action').notNull(), // create | update | delete | status_change
+		before: jsonb('before'),
+		after: jsonb('after'),
+		metadata: jsonb('metadata'),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		entityIdx: index('idx_audit_log_entity').on(
+			table.entityType,
+			table.entityId,
+			table.createdAt,
+		),
+		createdAtIdx: index('idx_audit_log_created_at').on(table.createdAt),
+		actorIdx: index('idx_audit_log_actor').on(table.actorUserId),
+	}),
+);
+
+/**
+ * Notification rule: which condition to watch, in which warehouse (null = every warehouse) and
+ * which role receives it. `threshold` meaning depends on the type (hours or units).
+ */
+export const notificationRule = pgTable(
+	'notification_rule',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		type: text('type').notNull(), // low_stock | transfer_pending | withdraw_overdue | shrinkage_spike
+		warehouseId: uuid('warehouse_id').references(() => warehouse.id, {
+			onUpdate: 'cascade',
+			onDelete: 'cascade',
+		}),
+		role: text('role').notNull(),
+		threshold: integer('threshold'),
+		sendEmail: boolean('send_email').default(false).notNull(),
+		deliveryMode: text('delivery_mode').default('immediate').notNull(), // immediate | digest
+		isActive: boolean('is_active').default(true).notNull(),
+		createdByUserId: text('created_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		activeTypeIdx: index('idx_notification_rule_active_type').on(table.isActive, table.type),
+	}),
+);
+
+/**
+ * In-app inbox entry of one user. `dedupeKey` identifies the condition that raised it, so a
+ * condition that stays true does not notify the same user twice.
+ */
+export const notification = pgTable(
+	'notification',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		ruleId: uuid('rule_id').references(() => notificationRule.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		type: text('type').notNull(),
+		warehouseId: uuid('warehouse_id').references(() => warehouse.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		title: text('title').notNull(),
+		body: text('body').notNull(),
+		// Dashboard path to open from the inbox
+		link: text('link'),
+		dedupeKey: text('dedupe_key').notNull(),
+		emailStatus: text('email_status').default('none').notNull(), // none | pending | digest | sent | failed
+		emailedAt: timestamp('emailed_at', { withTimezone: true }),
+		readAt: timestamp('read_at', { withTimezone: true }),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		userDedupeKeyUnique: uniqueIndex('notification_user_dedupe_key_key').on(
+			table.userId,
+			table.dedupeKey,
+		),
+		userCreatedAtIdx: index('idx_notification_user_created_at').on(
+			table.userId,
+			table.createdAt,
+		),
+		emailStatusIdx: index('idx_notification_email_status').on(table.emailStatus),
+	}),
+);
+
+/**
+ * Outbound webhook subscription. Events of the selected `eventTypes` are POSTed to `url`
+ * and signed with `secret` (HMAC-SHA256).
+ */
+export const webhookSubscription = pgTable('webhook_subscription', {
+	id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+	name: text('name').notNull(),
+	url: text('url').notNull(),
+	// transfer.completed | shrinkage.recorded | replenishment_order.sent
+	eventTypes: jsonb('event_types').$type<string[]>().default(sql`'[]'::jsonb`).notNull(),
+	secret: text('secret').notNull(),
+	isActive: boolean('is_active').default(true).notNull(),
+	createdByUserId: text('created_by_user_id').references(() => user.id, {
+		onUpdate: 'cascade',
+		onDelete: 'set null',
+	}),
+	createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * One event queued for one subscription, and the log of its delivery attempts.
+ * A replay copies the event into a new delivery that points to the original one.
+ */
+export const webhookDelivery = pgTable(
+	'webhook_delivery',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		subscriptionId: uuid('subscription_id')
+			.notNull()
+			.references(() => webhookSubscription.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		// Shared by every delivery (and replay) of the same event so receivers can deduplicate
+		eventId: uuid('event_id').notNull(),
+		eventType: text('event_type').notNull(),
+		payload: jsonb('payload').notNull(),
+		status: text('status').default('pending').notNull(), // pending | processing | succeeded | failed
+		attempts: integer('attempts').default(0).notNull(),
+		maxAttempts: integer('max_attempts').default(8).notNull(),
+		nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
+		lockedAt: timestamp('locked_at', { withTimezone: true }),
+		lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+		lastStatusCode: integer('last_status_code'),
+		lastError: text('last_error'),
+		// First characters of the receiver's last response body
+		lastResponseBody: text('last_response_body'),
+		completedAt: timestamp('completed_at', { withTimezone: true }),
+		replayOfDeliveryId: uuid('replay_of_delivery_id').references(
+			(): AnyPgColumn => webhookDelivery.id,
+			{
+				onUpdate: 'cascade',
+				onDelete: 'set null',
+			},
+		),
+		createdByUserId: text('created_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		statusNextAttemptIdx: index('idx_webhook_delivery_status_next_attempt').on(
+			table.status,
+			table.nextAttemptAt,
+		),
+		subscriptionCreatedAtIdx: index('idx_webhook_delivery_subscription_created_at').on(
+			table.subscriptionId,
+			table.createdAt,
+		),
+	}),
+);
+
+/**
+ * Supplier the CEDIS buys from. Purchase orders are grouped per supplier.
+ */
+export const supplier = pgTable('supplier', {
+	id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+	name: text('name').notNull().unique(),
+	contactName: text('contact_name'),
+	email: text('email'),
+	phone: text('phone'),
+	notes: text('notes'),
+	isActive: boolean('is_active').default(true).notNull(),
+	createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * Default supplier of a barcode, used to group unfulfilled replenishment items into
+ * purchase orders. A barcode has at most one default supplier.
+ */
+export const supplierProduct = pgTable(
+	'supplier_product',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		supplierId: uuid('supplier_id')
+			.notNull()
+			.references(() => supplier.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		barcode: bigint('barcode', { mode: 'number' }).notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		barcodeUnique: uniqueIndex('supplier_product_barcode_key').on(table.barcode),
+		supplierIdx: index('idx_supplier_product_supplier').on(table.supplierId),
+	}),
+);
+
+/**
+ * Purchase order from the CEDIS to a supplier.
+ * Status: draft -> sent -> partially_received -> closed (a sent order can also be closed short).
+ */
+export const purchaseOrder = pgTable(
+	'purchase_order',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		orderNumber: text('order_number').notNull().unique(),
+		supplierId: uuid('supplier_id')
+			.notNull()
+			.references(() => supplier.id, {
+				onUpdate: 'cascade',
+				onDelete: 'restrict',
+			}),
+		cedisWarehouseId: uuid('cedis_warehouse_id')
+			.notNull()
+			.references(() => warehouse.id, {
+				onUpdate: 'cascade',
+				onDelete: 'restrict',
+			}),
+		status: text('status').default('draft').notNull(), // draft | sent | partially_received | closed
+		notes: text('notes'),
+		sentAt: timestamp('sent_at', { withTimezone: true }),
+		sentByUserId: text('sent_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		closedAt: timestamp('closed_at', { withTimezone: true }),
+		closedByUserId: text('closed_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdByUserId: text('created_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		statusIdx: index('idx_purchase_order_status').on(table.status),
+		supplierIdx: index('idx_purchase_order_supplier').on(table.supplierId),
+		cedisIdx: index('idx_purchase_order_cedis').on(table.cedisWarehouseId),
+	}),
+);
+
+/**
+ * One barcode of a purchase order with the ordered and received quantities.
+ */
+export const purchaseOrderItem = pgTable(
+	'purchase_order_item',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		purchaseOrderId: uuid('purchase_order_id')
+			.notNull()
+			.references(() => purchaseOrder.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		barcode: bigint('barcode', { mode: 'number' }).notNull(),
+		description: text('description'),
+		quantity: integer('quantity').notNull(),
+		receivedQuantity: integer('received_quantity').default(0).notNull(),
+	},
+	(table) => ({
+		orderBarcodeUnique: uniqueIndex('purchase_order_item_order_barcode_key').on(
+			table.purchaseOrderId,
+			table.barcode,
+		),
+	}),
+);
+
+/**
+ * Replenishment detail a purchase order item was generated from, with the unfulfilled
+ * quantity it covers. A replenishment detail feeds at most one purchase order.
+ */
+export const purchaseOrderItemSource = pgTable(
+	'purchase_order_item_source',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		purchaseOrderItemId: uuid('purchase_order_item_id')
+			.notNull()
+			.references(() => purchaseOrderItem.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		replenishmentOrderDetailId: uuid('replenishment_order_detail_id').references(
+			() => replenishmentOrderDetails.id,
+			{
+				onUpdate: 'cascade',
+				onDelete: 'set null',
+			},
+		),
+		quantity: integer('quantity').notNull(),
+		receivedQuantity: integer('received_quantity').default(0).notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		detailUnique: uniqueIndex('purchase_order_item_source_detail_key').on(
+			table.replenishmentOrderDetailId,
+		),
+		itemIdx: index('idx_purchase_order_item_source_item').on(table.purchaseOrderItemId),
+	}),
+);
+
+/**
+ * One product stock unit created in the CEDIS when receiving a purchase order, linked to the
+ * purchase order item and to the replenishment detail it fulfills (if any).
+ */
+export const purchaseOrderReceipt = pgTable(
+	'purchase_order_receipt',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		purchaseOrderId: uuid('purchase_order_id')
+			.notNull()
+			.references(() => purchaseOrder.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		purchaseOrderItemId: uuid('purchase_order_item_id')
+			.notNull()
+			.references(() => purchaseOrderItem.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		productStockId: uuid('product_stock_id').references(() => productStock.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		replenishmentOrderDetailId: uuid('replenishment_order_detail_id').references(
+			() => replenishmentOrderDetails.id,
+			{
+				onUpdate: 'cascade',
+				onDelete: 'set null',
+			},
+		),
+		receivedByUserId: text('received_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		receivedAt: timestamp('received_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		orderIdx: index('idx_purchase_order_receipt_order').on(table.purchaseOrderId),
+		productStockIdx: index('idx_purchase_order_receipt_product_stock').on(table.productStockId),
+		detailIdx: index('idx_purchase_order_receipt_detail').on(table.replenishmentOrderDetailId),
+	}),
+);
+
+/**
+ * Outcome picked by the receiver for a transfer item that arrived missing or damaged.
+ * One row per transfer detail; only `in_transit` can later change to another outcome.
+ */
+export const warehouseTransferDiscrepancy = pgTable(
+	'warehouse_transfer_discrepancy',
+	{
+		id: uuid('id').default(sql`gen_random_uuid()`).notNull().primaryKey(),
+		transferId: uuid('transfer_id')
+			.notNull()
+			.references(() => warehouseTransfer.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		transferDetailId: uuid('transfer_detail_id')
+			.notNull()
+			.references(() => warehouseTransferDetails.id, {
+				onUpdate: 'cascade',
+				onDelete: 'cascade',
+			}),
+		productStockId: uuid('product_stock_id').references(() => productStock.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		kind: text('kind').notNull(), // missing | damaged
+		outcome: text('outcome').notNull(), // return_to_source | damaged | in_transit | found
+		notes: text('notes'),
+		// Write-off recorded for the `damaged` outcome
+		shrinkageEventId: uuid('shrinkage_event_id').references(() => inventoryShrinkageEvent.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		resolvedByUserId: text('resolved_by_user_id').references(() => user.id, {
+			onUpdate: 'cascade',
+			onDelete: 'set null',
+		}),
+		resolvedAt: timestamp('resolved_at', { withTimezone: true }).defaultNow().notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => ({
+		detailUnique: uniqueIndex('warehouse_transfer_discrepancy_detail_key').on(
+			table.transferDetailId,
+		),
+		transferIdx: index('idx_warehouse_transfer_discrepancy_transfer').on(table.transferId),
+	}),
+);
+
 // Relations
 export const withdrawOrderRelations = relations(withdrawOrder, ({ many }) => ({
 	details: many(withdrawOrderDetails),
@@ -1024,3 +1848,4 @@ export const inventoryShrinkageEventRelations = relations(
 		}),
 	}),
 );
+
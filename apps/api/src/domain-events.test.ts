@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { inventoryShrinkageEvent, productStock, user, warehouse } from './db/schema';
+import { auth } from './lib/auth';
+import { publishStockChanged } from './lib/domain-events';
+
+let ownWarehouseId: string;
+let otherWarehouseId: string;
+let ownProductId: string;
+let otherProductId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+
+type SseFrame = { event: string; data: string };
+
+/**
+ * Opens the events stream and returns a reader that yields parsed SSE frames.
+ */
+async function openStream(query = '') {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth/events/stream${query}`),
+	);
+	if (!response.body) {
+		return { response, nextFrame: null, close: async () => {} };
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	async function nextFrame(): Promise<SseFrame> {
+		while (true) {
+			const boundary = buffer.indexOf('\n\n');
+			if (boundary !== -1) {
+				const block = buffer.slice(0, boundary);
+				buffer = buffer.slice(boundary + 2);
+				const frame: SseFrame = { event: 'message', data: '' };
+				for (const line of block.split('\n')) {
+					if (line.startsWith('event: ')) {
+						frame.event = line.slice('event: '.length);
+					} else if (line.startsWith('data: ')) {
+						frame.data += line.slice('data: '.length);
+					}
+				}
+				if (frame.data) {
+					return frame;
+				}
+				continue;
+			}
+			const { value, done } = await reader.read();
+			if (done) {
+				throw new Error('Stream ended');
+			}
+			buffer += decoder.decode(value, { stream: true });
+		}
+	}
+
+	return { response, nextFrame, close: () => reader.cancel() };
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	ownWarehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: ownWarehouseId,
+			name: 'Events Own Warehouse',
+			code: `EVT-O-${ownWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Events Other Warehouse',
+			code: `EVT-X-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	ownProductId = randomUUID();
+	otherProductId = randomUUID();
+	await db.insert(productStock).values([
+		{ id: ownProductId, barcode: 7_950_001, currentWarehouse: ownWarehouseId },
+		{ id: otherProductId, barcode: 7_950_002, currentWarehouse: otherWarehouseId },
+	]);
+
+	testUserId = randomUUID();
+	const email = `events.${Date.now()}@domain-events-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Events Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId: ownWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Events Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId: ownWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(inArray(inventoryShrinkageEvent.warehouseId, [ownWarehouseId, otherWarehouseId]));
+	await db.delete(productStock).where(inArray(productStock.id, [ownProductId, otherProductId]));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, [ownWarehouseId, otherWarehouseId]));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Domain events stream', () => {
+	it('streams stock changes of the user warehouse only', async () => {
+		const stream = await openStream();
+		expect(stream.response.status).toBe(200);
+		expect(stream.response.headers.get('Content-Type')).toContain('text/event-stream');
+		if (!stream.nextFrame) {
+			throw new Error('Missing stream body');
+		}
+
+		try {
+			const ready = await stream.nextFrame();
+			expect(ready.event).toBe('ready');
+
+			// Outside the scope: must not reach this stream
+			publishStockChanged(
+				[{ id: otherProductId, currentWarehouse: otherWarehouseId }],
+				'update',
+			);
+
+			const response = await app.fetch(
+				new Request('http://localhost/api/auth/product-stock/update-is-empty', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ productIds: [ownProductId] }),
+				}),
+			);
+			expect(response.status).toBe(200);
+
+			const frame = await stream.nextFrame();
+			expect(frame.event).toBe('stock.changed');
+			const event = JSON.parse(frame.data);
+			expect(event.warehouseIds).toEqual([ownWarehouseId]);
+			expect(event.data).toEqual({ productStockIds: [ownProductId], reason: 'update' });
+		} finally {
+			await stream.close();
+		}
+	});
+
+	it('rejects streams narrowed to a warehouse outside the scope', async () => {
+		const stream = await openStream(`?warehouseId=${otherWarehouseId}`);
+		expect(stream.response.status).toBe(403);
+		await stream.close();
+	});
+});
@@ -0,0 +1,246 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { employee, employeePasscodeLockout, user, warehouse } from './db/schema';
+import { auth } from './lib/auth';
+import {
+	issueEmployeeToken,
+	MAX_PASSCODE_ATTEMPTS,
+	verifyEmployeeToken,
+} from './lib/employee-passcodes';
+
+let warehouseId: string;
+let testUserId: string;
+let employeeId: string;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+let originalGetSession: typeof auth.api.getSession;
+let originalTokenSecret: string | undefined;
+
+async function postJson(path: string, body: unknown) {
+	return await app.fetch(
+		new Request(`http://localhost/api/auth/employee${path}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		}),
+	);
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalTokenSecret = process.env.EMPLOYEE_TOKEN_SECRET;
+	process.env.EMPLOYEE_TOKEN_SECRET = 'employee-passcode-suite-secret';
+
+	const now = new Date();
+	testUserId = randomUUID();
+	const email = `passcode.${Date.now()}@employee-passcode-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Passcode Tablet',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	warehouseId = randomUUID();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Passcode Warehouse',
+		code: `PWD-${warehouseId.slice(0, 8)}`,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: testUserId,
+		name: 'Passcode Tablet',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+
+	const createResponse = await postJson('/create', {
+		name: 'Numpad',
+		surname: 'Tester',
+		warehouseId,
+		passcode: 4821,
+		userId: testUserId,
+	});
+	const created = await createResponse.json();
+	employeeId = created.data.employee.id;
+});
+
+beforeEach(async () => {
+	mockSessionUser.role = 'employee';
+	await db
+		.delete(employeePasscodeLockout)
+		.where(eq(employeePasscodeLockout.userId, testUserId));
+});
+
+afterAll(async () => {
+	await db.delete(employeePasscodeLockout).where(eq(employeePasscodeLockout.userId, testUserId));
+	await db.delete(employee).where(eq(employee.warehouseId, warehouseId));
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+	await db.delete(user).where(eq(user.id, testUserId));
+
+	auth.api.getSession = originalGetSession;
+	if (originalTokenSecret === undefined) {
+		delete process.env.EMPLOYEE_TOKEN_SECRET;
+	} else {
+		process.env.EMPLOYEE_TOKEN_SECRET = originalTokenSecret;
+	}
+});
+
+describe('Employee passcodes', () => {
+	it('stores passcodes hashed and never returns them', async () => {
+		const [row] = await db.select().from(employee).where(eq(employee.id, employeeId));
+		expect(row?.passcodeHash).toBeTruthy();
+		expect(row?.passcodeHash).not.toContain('4821');
+
+		const response = await app.fetch(
+			new Request(`http://localhost/api/auth/employee/by-user-id?userId=${testUserId}`),
+		);
+		const json = await response.json();
+		expect(json.data[0].employee.hasPasscode).toBe(true);
+		expect(json.data[0].employee.passcodeHash).toBeUndefined();
+		expect(json.data[0].employee.passcode).toBeUndefined();
+	});
+
+	it('verifies the passcode and returns a short-lived employee token', async () => {
+		const response = await postJson('/verify-passcode', { passcode: '4821' });
+		expect(response.status).toBe(200);
+		const json = await response.json();
+
+		expect(json.data.employee.id).toBe(employeeId);
+		expect(json.data.employee.passcodeHash).toBeUndefined();
+		const claims = verifyEmployeeToken(json.data.token);
+		expect(claims?.employeeId).toBe(employeeId);
+		expect(claims?.warehouseId).toBe(warehouseId);
+	});
+
+	it('rejects expired or tampered tokens', () => {
+		const issuedAt = new Date('2026-01-01T00:00:00.000Z');
+		const { token, expiresAt } = issueEmployeeToken(
+			{ id: employeeId, userId: testUserId, warehouseId },
+			issuedAt,
+		);
+
+		expect(verifyEmployeeToken(token, issuedAt)?.employeeId).toBe(employeeId);
+		expect(verifyEmployeeToken(token, expiresAt)).toBeNull();
+		expect(verifyEmployeeToken(`${token}x`, issuedAt)).toBeNull();
+	});
+
+	it('locks the numpad after repeated failures', async () => {
+		for (let attempt = 1; attempt < MAX_PASSCODE_ATTEMPTS; attempt += 1) {
+			// biome-ignore lint: Attempts must be sequential
+			const response = await postJson('/verify-passcode', { passcode: '0000' });
+			expect(response.status).toBe(401);
+		}
+
+		const lockingResponse = await postJson('/verify-passcode', { passcode: '0000' });
+		expect(lockingResponse.status).toBe(423);
+
+		// The right passcode is refused while locked
+		const lockedResponse = await postJson('/verify-passcode', { passcode: '4821' });
+		expect(lockedResponse.status).toBe(423);
+	});
+
+	it('counts every concurrent failure towards the lockout', async () => {
+		const responses = await Promise.all(
+			Array.from({ length: MAX_PASSCODE_ATTEMPTS + 1 }, () =>
+				postJson('/verify-passcode', { passcode: '0000' }),
+			),
+		);
+		const statuses = responses.map((response) => response.status);
+		expect(statuses.filter((status) => status === 401).length).toBeLessThan(
+			MAX_PASSCODE_ATTEMPTS,
+		);
+		expect(statuses).toContain(423);
+
+		const [lockout] = await db
+			.select()
+			.from(employeePasscodeLockout)
+			.where(eq(employeePasscodeLockout.userId, testUserId));
+		expect(lockout?.failedAttempts).toBeGreaterThanOrEqual(MAX_PASSCODE_ATTEMPTS);
+		expect(lockout?.lockedUntil?.getTime()).toBeGreaterThan(Date.now());
+	});
+
+	it('resets the passcode, clears the lockout and refuses duplicates', async () => {
+		await db.insert(employeePasscodeLockout).values({
+			userId: testUserId,
+			failedAttempts: MAX_PASSCODE_ATTEMPTS,
+			lockedUntil: new Date(Date.now() + 60_000),
+		});
+		mockSessionUser.role = 'encargado';
+
+		const resetResponse = await postJson(`/${employeeId}/reset-passcode`, {});
+		expect(resetResponse.status).toBe(200);
+		const resetJson = await resetResponse.json();
+		const newPasscode = resetJson.data.passcode as string;
+		expect(newPasscode).toMatch(/^\d{4}$/);
+
+		const verifyResponse = await postJson('/verify-passcode', { passcode: newPasscode });
+		expect(verifyResponse.status).toBe(200);
+
+		const duplicateResponse = await postJson('/create', {
+			name: 'Duplicate',
+			surname: 'Code',
+			warehouseId,
+			passcode: Number(newPasscode),
+			userId: testUserId,
+		});
+		expect(duplicateResponse.status).toBe(409);
+	});
+
+	it('only lets managers reset passcodes', async () => {
+		const response = await postJson(`/${employeeId}/reset-passcode`, { passcode: '1357' });
+		expect(response.status).toBe(403);
+		expect(await response.text()).toContain('employees.reset_passcode');
+	});
+
+	it('refuses resets outside the user warehouse', async () => {
+		mockSessionUser.role = 'manager';
+		mockSessionUser.warehouseId = randomUUID();
+		const response = await postJson(`/${employeeId}/reset-passcode`, { passcode: '1357' });
+		mockSessionUser.warehouseId = warehouseId;
+		expect(response.status).toBe(403);
+	});
+});
@@ -0,0 +1,240 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	employee,
+	idempotencyKey,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+	withdrawOrder,
+	withdrawOrderDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { issueEmployeeToken } from './lib/employee-passcodes';
+import { IDEMPOTENT_REPLAY_HEADER, purgeExpiredIdempotencyKeys } from './lib/idempotency';
+
+let warehouseId: string;
+let testUserId: string;
+let employeeId: string;
+let productIds: string[];
+let originalGetSession: typeof auth.api.getSession;
+let originalTokenSecret: string | undefined;
+
+async function postWithKey(key: string, body: unknown) {
+	return await app.fetch(
+		new Request('http://localhost/api/auth/withdraw-orders/create', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'Idempotency-Key': key,
+				'X-Employee-Token': issueEmployeeToken({
+					id: employeeId,
+					userId: testUserId,
+					warehouseId,
+				}).token,
+			},
+			body: JSON.stringify(body),
+		}),
+	);
+}
+
+async function countOrders() {
+	const orders = await db
+		.select({ id: withdrawOrder.id })
+		.from(withdrawOrder)
+		.where(eq(withdrawOrder.userId, employeeId));
+	return orders.length;
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalTokenSecret = process.env.EMPLOYEE_TOKEN_SECRET;
+	process.env.EMPLOYEE_TOKEN_SECRET = 'idempotency-suite-secret';
+
+	const now = new Date();
+	testUserId = randomUUID();
+	const email = `idempotency.${Date.now()}@idempotency-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Idempotency Tablet',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	warehouseId = randomUUID();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Idempotency Warehouse',
+		code: `IDEM-${warehouseId.slice(0, 8)}`,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	employeeId = randomUUID();
+	await db.insert(employee).values({
+		id: employeeId,
+		name: 'Double',
+		surname: 'Tap',
+		warehouseId,
+	});
+
+	productIds = [randomUUID(), randomUUID(), randomUUID()];
+	await db.insert(productStock).values(
+		productIds.map((id, index) => ({
+			id,
+			barcode: 7_800_000 + index,
+			currentWarehouse: warehouseId,
+		})),
+	);
+
+	const mockSessionUser: typeof auth.$Infer.Session.user = {
+		id: testUserId,
+		name: 'Idempotency Tablet',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const orders = await db
+		.select({ id: withdrawOrder.id })
+		.from(withdrawOrder)
+		.where(eq(withdrawOrder.userId, employeeId));
+	const orderIds = orders.map((order) => order.id);
+	if (orderIds.length > 0) {
+		await db
+			.delete(withdrawOrderDetails)
+			.where(inArray(withdrawOrderDetails.withdrawOrderId, orderIds));
+		await db.delete(withdrawOrder).where(inArray(withdrawOrder.id, orderIds));
+	}
+	await db
+		.delete(productStockUsageHistory)
+		.where(eq(productStockUsageHistory.warehouseId, warehouseId));
+	await db.delete(productStock).where(eq(productStock.currentWarehouse, warehouseId));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+	await db.delete(idempotencyKey).where(eq(idempotencyKey.userId, testUserId));
+	await db.delete(user).where(eq(user.id, testUserId));
+
+	auth.api.getSession = originalGetSession;
+	if (originalTokenSecret === undefined) {
+		delete process.env.EMPLOYEE_TOKEN_SECRET;
+	} else {
+		process.env.EMPLOYEE_TOKEN_SECRET = originalTokenSecret;
+	}
+});
+
+describe('Idempotency-Key middleware', () => {
+	it('replays the stored response for a repeated key', async () => {
+		const key = randomUUID();
+		const payload = {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 1,
+			products: [productIds[0]],
+		};
+
+		const first = await postWithKey(key, payload);
+		expect(first.status).toBe(201);
+		const firstJson = await first.json();
+
+		const repeated = await postWithKey(key, payload);
+		expect(repeated.status).toBe(201);
+		expect(repeated.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+		const repeatedJson = await repeated.json();
+		expect(repeatedJson.data.withdrawOrder.id).toBe(firstJson.data.withdrawOrder.id);
+		expect(await countOrders()).toBe(1);
+	});
+
+	it('rejects a key reused for a different request', async () => {
+		const key = randomUUID();
+		const payload = {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 1,
+			products: [productIds[1]],
+		};
+
+		expect((await postWithKey(key, payload)).status).toBe(201);
+		const reused = await postWithKey(key, { ...payload, dateWithdraw: '2026-03-11' });
+		expect(reused.status).toBe(422);
+	});
+
+	it('releases the key when the request fails', async () => {
+		const key = randomUUID();
+		const missingProduct = await postWithKey(key, {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 1,
+			products: [randomUUID()],
+		});
+		expect(missingProduct.status).toBe(400);
+
+		const retried = await postWithKey(key, {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 1,
+			products: [productIds[2]],
+		});
+		expect(retried.status).toBe(201);
+		expect(retried.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull();
+	});
+
+	it('purges expired keys', async () => {
+		const storedBefore = await db
+			.select({ id: idempotencyKey.id })
+			.from(idempotencyKey)
+			.where(eq(idempotencyKey.userId, testUserId));
+		expect(storedBefore.length).toBeGreaterThan(0);
+
+		await purgeExpiredIdempotencyKeys(new Date(Date.now() + 48 * 60 * 60 * 1000));
+
+		const storedAfter = await db
+			.select({ id: idempotencyKey.id })
+			.from(idempotencyKey)
+			.where(eq(idempotencyKey.userId, testUserId));
+		expect(storedAfter).toHaveLength(0);
+	});
+});
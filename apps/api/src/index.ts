@@ -19,6 +19,18 @@ import { cors } from 'hono/cors';
 import { HTTPException } from 'hono/http-exception';
 import { authAllowedOrigins } from './constants';
 import type { ApiEnv } from './context';
+import { startAltegioOutboxWorker } from './lib/altegio-outbox';
+import { EMPLOYEE_TOKEN_HEADER } from './lib/employee-passcodes';
+import {
+	IDEMPOTENCY_KEY_HEADER,
+	IDEMPOTENT_REPLAY_HEADER,
+	startIdempotencyKeyCleanup,
+} from './lib/idempotency';
+import { startInventorySyncScheduler } from './lib/inventory-sync-runs';
+import { startNotificationScheduler } from './lib/notifications';
+import { startProductCatalogScheduler } from './lib/product-catalog';
+import { startReplenishmentPlannerScheduler } from './lib/replenishment-planner';
+import { startWebhookDeliveryWorker } from './lib/webhooks';
 import { auth } from './lib/auth';
 import type { ApiResponse } from './lib/api-response';
 import { handleDatabaseError, logErrorDetails } from './lib/api-response';
@@ -275,9 +287,14 @@ app.use(
 
 			return null;
 		},
-		allowHeaders: ['Content-Type', 'Authorization'],
+		allowHeaders: [
+			'Content-Type',
+			'Authorization',
+			IDEMPOTENCY_KEY_HEADER,
+			EMPLOYEE_TOKEN_HEADER,
+		],
 		allowMethods: ['POST', 'GET', 'OPTIONS'],
-		exposeHeaders: ['Content-Length'],
+		exposeHeaders: ['Content-Length', IDEMPOTENT_REPLAY_HEADER],
 		maxAge: 600, // Cache preflight for 10 minutes
 		credentials: true, // Required for cookie-based authentication
 	}),
@@ -455,6 +472,22 @@ export type AppType = typeof route;
  */
 const port = Number(process.env.PORT ?? 3000);
 
+/**
+ * Background jobs: Altegio replication retries, nightly inventory syncs, catalog refreshes,
+ * replenishment planning, notification rules and digests, outbound webhook deliveries, and
+ * the cleanup of expired idempotency keys.
+ * Disabled under tests so suites control job processing explicitly.
+ */
+if (process.env.NODE_ENV !== 'test') {
+	startAltegioOutboxWorker();
+	startInventorySyncScheduler();
+	startProductCatalogScheduler();
+	startReplenishmentPlannerScheduler();
+	startNotificationScheduler();
+	startWebhookDeliveryWorker();
+	startIdempotencyKeyCleanup();
+}
+
 export default {
 	/** Server port - defaults to 3000 for development */
 	port,
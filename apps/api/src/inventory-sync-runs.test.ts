@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from './db/index';
+import { inventorySyncRun, warehouse } from './db/schema';
+import { cronMatches, getZonedDateParts, parseCronExpression } from './lib/cron';
+import { InventorySyncError } from './lib/inventory-sync';
+import { getInventorySyncRun, runRecordedInventorySync } from './lib/inventory-sync-runs';
+
+let warehouseId: string;
+let originalAuthHeader: string | undefined;
+const globalRunIds: string[] = [];
+
+beforeAll(async () => {
+	originalAuthHeader = process.env.AUTH_HEADER;
+	delete process.env.AUTH_HEADER;
+
+	warehouseId = randomUUID();
+	const now = new Date();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Sync Run Warehouse',
+		code: `SYNC-${warehouseId.slice(0, 8)}`,
+		createdAt: now,
+		updatedAt: now,
+	});
+});
+
+afterAll(async () => {
+	await db.delete(inventorySyncRun).where(eq(inventorySyncRun.warehouseId, warehouseId));
+	if (globalRunIds.length > 0) {
+		await db.delete(inventorySyncRun).where(inArray(inventorySyncRun.id, globalRunIds));
+	}
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+	if (originalAuthHeader !== undefined) {
+		process.env.AUTH_HEADER = originalAuthHeader;
+	}
+});
+
+describe('Cron schedules', () => {
+	it('matches the nightly schedule in the warehouse time zone', () => {
+		const schedule = parseCronExpression('0 3 * * *');
+		// 09:00 UTC is 03:00 in Mexico City (UTC-6)
+		const date = new Date('2026-03-10T09:00:00.000Z');
+
+		expect(cronMatches(schedule, getZonedDateParts(date, 'America/Mexico_City'))).toBe(true);
+		expect(cronMatches(schedule, getZonedDateParts(date, 'UTC'))).toBe(false);
+	});
+
+	it('supports steps, ranges and Sunday as 7', () => {
+		const schedule = parseCronExpression('*/15 8-10 * * 7');
+		const sunday = new Date('2026-03-08T09:30:00.000Z');
+		const monday = new Date('2026-03-09T09:30:00.000Z');
+
+		expect(cronMatches(schedule, getZonedDateParts(sunday, 'UTC'))).toBe(true);
+		expect(cronMatches(schedule, getZonedDateParts(monday, 'UTC'))).toBe(false);
+	});
+
+	it('rejects malformed expressions', () => {
+		expect(() => parseCronExpression('0 3 * *')).toThrow();
+		expect(() => parseCronExpression('61 3 * * *')).toThrow();
+	});
+});
+
+describe('Recorded inventory sync runs', () => {
+	it('persists failed runs with the error message', async () => {
+		let thrown: unknown;
+		try {
+			await runRecordedInventorySync({
+				options: { warehouseId, dryRun: true },
+				trigger: 'manual',
+			});
+		} catch (error) {
+			thrown = error;
+		}
+		expect(thrown).toBeInstanceOf(InventorySyncError);
+
+		const [run] = await db
+			.select()
+			.from(inventorySyncRun)
+			.where(eq(inventorySyncRun.warehouseId, warehouseId));
+
+		expect(run?.status).toBe('failed');
+		expect(run?.dryRun).toBe(true);
+		expect(run?.errorMessage).toBe('Missing Altegio authentication headers');
+		expect(run?.finishedAt).not.toBeNull();
+
+		const detail = await getInventorySyncRun(run?.id ?? '');
+		expect(detail.run.id).toBe(run?.id ?? '');
+		expect(detail.previousRun).toBeNull();
+	});
+
+	it('compares a run with the previous applied run of the same scope', async () => {
+		// Fixed dates before any real run so rows from other suites cannot interfere
+		const at = (hour: number) => new Date(Date.UTC(2001, 0, 1, hour));
+		const runs = await db
+			.insert(inventorySyncRun)
+			.values([
+				{ status: 'succeeded', startedAt: at(1) },
+				{ status: 'succeeded', warehouseId, startedAt: at(2) },
+				{ status: 'succeeded', dryRun: true, startedAt: at(3) },
+				{ status: 'failed', startedAt: at(4) },
+				{ status: 'succeeded', startedAt: at(5) },
+				{ status: 'succeeded', warehouseId, dryRun: true, startedAt: at(6) },
+				{ status: 'succeeded', warehouseId, startedAt: at(7) },
+			])
+			.returning({ id: inventorySyncRun.id, warehouseId: inventorySyncRun.warehouseId });
+		globalRunIds.push(...runs.filter((run) => run.warehouseId === null).map((run) => run.id));
+		const [globalBaseline, warehouseBaseline, , , globalRun, , warehouseRun] = runs;
+
+		const globalDetail = await getInventorySyncRun(globalRun.id);
+		expect(globalDetail.previousRun?.id).toBe(globalBaseline.id);
+
+		const warehouseDetail = await getInventorySyncRun(warehouseRun.id);
+		expect(warehouseDetail.previousRun?.id).toBe(warehouseBaseline.id);
+	});
+
+	it('refuses a run while another run on the same warehouse is running', async () => {
+		const [running] = await db
+			.insert(inventorySyncRun)
+			.values({ status: 'running', warehouseId })
+			.returning({ id: inventorySyncRun.id });
+
+		let thrown: unknown;
+		try {
+			await runRecordedInventorySync({
+				options: { warehouseId, dryRun: false },
+				trigger: 'scheduled',
+			});
+		} catch (error) {
+			thrown = error;
+		}
+		expect(thrown).toBeInstanceOf(InventorySyncError);
+		expect((thrown as InventorySyncError).status).toBe(409);
+		expect((thrown as InventorySyncError).details).toEqual({ runningRunId: running.id });
+
+		const runningRows = await db
+			.select({ id: inventorySyncRun.id })
+			.from(inventorySyncRun)
+			.where(
+				and(
+					eq(inventorySyncRun.warehouseId, warehouseId),
+					eq(inventorySyncRun.status, 'running'),
+				),
+			);
+		expect(runningRows).toEqual([running]);
+
+		// A running row left behind by a crashed process stops blocking after a while
+		await db
+			.update(inventorySyncRun)
+			.set({ startedAt: new Date(Date.UTC(2001, 0, 2)) })
+			.where(eq(inventorySyncRun.id, running.id));
+		await expect(
+			runRecordedInventorySync({ options: { warehouseId, dryRun: true }, trigger: 'manual' }),
+		).rejects.toThrow('Missing Altegio authentication headers');
+	});
+});
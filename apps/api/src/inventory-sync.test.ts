@@ -0,0 +1,270 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from './db/index';
+import {
+	employee,
+	inventoryShrinkageEvent,
+	kits,
+	kitsDetails,
+	productStock,
+	warehouse,
+	withdrawOrder,
+	withdrawOrderDetails,
+} from './db/schema';
+import { syncInventory } from './lib/inventory-sync';
+import type { AltegioGood, SyncResult } from './types';
+
+const ALTEGIO_ID = 96_001;
+const CONSUMABLES_ID = 96_002;
+/** Surplus of two among three free units, to check the retirement order */
+const ORDER_BARCODE = 8_960_001;
+/** One free unit and one unit for each exclusion */
+const BLOCKED_BARCODE = 8_960_002;
+/** Only exists locally; Altegio does not return it */
+const LOCAL_ONLY_BARCODE = 8_960_003;
+/** Only exists in Altegio */
+const MISSING_BARCODE = 8_960_004;
+
+let warehouseId: string;
+let employeeId: string;
+let originalFetch: typeof fetch;
+let originalAuthHeader: string | undefined;
+let originalAcceptHeader: string | undefined;
+const unitIds: Record<string, string> = {};
+
+function buildGood(barcode: number, amount: number, title: string): AltegioGood {
+	return {
+		title,
+		value: title,
+		label: title,
+		article: '',
+		category: 'Consumibles',
+		category_id: 1,
+		salon_id: ALTEGIO_ID,
+		good_id: barcode,
+		cost: 10,
+		unit_id: 1,
+		unit_short_title: 'pz',
+		service_unit_id: 1,
+		service_unit_short_title: 'pz',
+		actual_cost: 10,
+		unit_actual_cost: 10,
+		unit_actual_cost_format: '10 MXN',
+		unit_equals: 1,
+		barcode: String(barcode),
+		is_chain: false,
+		comment: '',
+		loyalty_abonement_type_id: 0,
+		loyalty_certificate_type_id: 0,
+		loyalty_allow_empty_code: 0,
+		loyalty_serial_number_limited: 0,
+		critical_amount: 0,
+		desired_amount: 0,
+		actual_amounts: [{ storage_id: CONSUMABLES_ID, amount }],
+		last_change_date: '2026-10-01T00:00:00.000Z',
+		is_goods_mark_enabled: false,
+		loyalty_expiration_type_id: null,
+	};
+}
+
+const altegioGoods = [
+	buildGood(ORDER_BARCODE, 1, 'Guantes'),
+	buildGood(BLOCKED_BARCODE, 0, 'Gasas'),
+	buildGood(MISSING_BARCODE, 2, 'Jeringas'),
+];
+
+async function insertUnit(name: string, values: Partial<typeof productStock.$inferInsert>) {
+	const [unit] = await db
+		.insert(productStock)
+		.values({ barcode: ORDER_BARCODE, currentWarehouse: warehouseId, ...values })
+		.returning({ id: productStock.id });
+	unitIds[name] = unit.id;
+}
+
+async function loadDeletedIds() {
+	const rows = await db
+		.select({ id: productStock.id })
+		.from(productStock)
+		.where(and(eq(productStock.currentWarehouse, warehouseId), eq(productStock.isDeleted, true)));
+	return rows.map((row) => row.id).sort();
+}
+
+function findDiff(result: SyncResult, barcode: number) {
+	return result.warehouses[0]?.diff.find((entry) => entry.barcode === barcode);
+}
+
+beforeAll(async () => {
+	originalFetch = globalThis.fetch;
+	originalAuthHeader = process.env.AUTH_HEADER;
+	originalAcceptHeader = process.env.ACCEPT_HEADER;
+	process.env.AUTH_HEADER = 'Bearer test';
+	process.env.ACCEPT_HEADER = 'application/json';
+	globalThis.fetch = (async () =>
+		Response.json({ success: true, data: altegioGoods, meta: [] })) as unknown as typeof fetch;
+
+	warehouseId = randomUUID();
+	const now = new Date();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Reconcile Warehouse',
+		code: `REC-${warehouseId.slice(0, 8)}`,
+		altegioId: ALTEGIO_ID,
+		consumablesId: CONSUMABLES_ID,
+		createdAt: now,
+		updatedAt: now,
+	});
+	const [createdEmployee] = await db
+		.insert(employee)
+		.values({ name: 'Reconcile', warehouseId })
+		.returning({ id: employee.id });
+	employeeId = createdEmployee.id;
+
+	await insertUnit('unused', {});
+	await insertUnit('usedRecently', { numberOfUses: 5, firstUsed: '2026-01-01' });
+	await insertUnit('usedLongAgo', { numberOfUses: 5, firstUsed: '2025-06-01', unitCost: 42.5 });
+
+	await insertUnit('free', { barcode: BLOCKED_BARCODE });
+	await insertUnit('inUse', { barcode: BLOCKED_BARCODE, isBeingUsed: true });
+	await insertUnit('inTransit', { barcode: BLOCKED_BARCODE, isInTransit: true });
+	await insertUnit('kitFlag', { barcode: BLOCKED_BARCODE, isKit: true });
+	await insertUnit('inKit', { barcode: BLOCKED_BARCODE });
+	await insertUnit('inWithdraw', { barcode: BLOCKED_BARCODE });
+
+	await insertUnit('localOnlyA', { barcode: LOCAL_ONLY_BARCODE, description: 'Algodón' });
+	await insertUnit('localOnlyB', { barcode: LOCAL_ONLY_BARCODE, description: 'Algodón' });
+
+	const [kit] = await db
+		.insert(kits)
+		.values({ assignedEmployee: employeeId, numProducts: 1 })
+		.returning({ id: kits.id });
+	await db.insert(kitsDetails).values({ kitId: kit.id, productId: unitIds.inKit });
+	const [order] = await db
+		.insert(withdrawOrder)
+		.values({ userId: employeeId })
+		.returning({ id: withdrawOrder.id });
+	await db
+		.insert(withdrawOrderDetails)
+		.values({ withdrawOrderId: order.id, productId: unitIds.inWithdraw });
+});
+
+afterAll(async () => {
+	globalThis.fetch = originalFetch;
+	process.env.AUTH_HEADER = originalAuthHeader;
+	process.env.ACCEPT_HEADER = originalAcceptHeader;
+	if (originalAuthHeader === undefined) {
+		delete process.env.AUTH_HEADER;
+	}
+	if (originalAcceptHeader === undefined) {
+		delete process.env.ACCEPT_HEADER;
+	}
+
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(eq(inventoryShrinkageEvent.warehouseId, warehouseId));
+	const orders = await db
+		.select({ id: withdrawOrder.id })
+		.from(withdrawOrder)
+		.where(eq(withdrawOrder.userId, employeeId));
+	const orderIds = orders.map((order) => order.id);
+	if (orderIds.length > 0) {
+		await db
+			.delete(withdrawOrderDetails)
+			.where(inArray(withdrawOrderDetails.withdrawOrderId, orderIds));
+		await db.delete(withdrawOrder).where(inArray(withdrawOrder.id, orderIds));
+	}
+	await db.delete(kits).where(eq(kits.assignedEmployee, employeeId));
+	await db.delete(productStock).where(eq(productStock.currentWarehouse, warehouseId));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+});
+
+describe('Inventory sync reconciliation', () => {
+	it('plans retirements on a dry run without changing stock', async () => {
+		const result = await syncInventory({ warehouseId, dryRun: true, reconcile: true });
+
+		expect(findDiff(result, ORDER_BARCODE)).toMatchObject({
+			target: 1,
+			existing: 3,
+			toRetire: 2,
+			retired: 0,
+			blocked: 0,
+		});
+		expect(findDiff(result, BLOCKED_BARCODE)).toMatchObject({
+			target: 0,
+			existing: 6,
+			toRetire: 1,
+			retired: 0,
+			blocked: 5,
+		});
+		expect(findDiff(result, LOCAL_ONLY_BARCODE)).toMatchObject({
+			description: 'Algodón',
+			target: 0,
+			existing: 2,
+			toRetire: 2,
+			retired: 0,
+			blocked: 0,
+		});
+		expect(findDiff(result, MISSING_BARCODE)).toMatchObject({ toInsert: 2, inserted: 0 });
+		expect(result.totals).toMatchObject({ toRetire: 5, retired: 0, blockedSurplus: 5, inserted: 0 });
+
+		expect(await loadDeletedIds()).toEqual([]);
+		const events = await db
+			.select({ id: inventoryShrinkageEvent.id })
+			.from(inventoryShrinkageEvent)
+			.where(eq(inventoryShrinkageEvent.warehouseId, warehouseId));
+		expect(events).toHaveLength(0);
+	});
+
+	it('retires the emptiest and oldest units and skips in-use, kit, withdraw and in-transit units', async () => {
+		const dryRun = await syncInventory({ warehouseId, dryRun: true, reconcile: true });
+		const applied = await syncInventory({ warehouseId, reconcile: true });
+
+		expect(applied.totals).toMatchObject({ toRetire: 5, retired: 5, blockedSurplus: 5, inserted: 2 });
+		for (const barcode of [ORDER_BARCODE, BLOCKED_BARCODE, LOCAL_ONLY_BARCODE]) {
+			const planned = findDiff(dryRun, barcode);
+			expect(findDiff(applied, barcode)).toEqual({
+				...(planned as NonNullable<typeof planned>),
+				retired: planned?.toRetire ?? 0,
+			});
+		}
+
+		expect(await loadDeletedIds()).toEqual(
+			[
+				unitIds.usedLongAgo,
+				unitIds.usedRecently,
+				unitIds.free,
+				unitIds.localOnlyA,
+				unitIds.localOnlyB,
+			].sort(),
+		);
+
+		const events = await db
+			.select({
+				productStockId: inventoryShrinkageEvent.productStockId,
+				source: inventoryShrinkageEvent.source,
+				unitCost: inventoryShrinkageEvent.unitCost,
+			})
+			.from(inventoryShrinkageEvent)
+			.where(eq(inventoryShrinkageEvent.warehouseId, warehouseId));
+		expect(events).toHaveLength(5);
+		expect(events.every((event) => event.source === 'sync_adjustment')).toBe(true);
+		expect(
+			events.find((event) => event.productStockId === unitIds.usedLongAgo)?.unitCost,
+		).toBe(42.5);
+
+		const second = await syncInventory({ warehouseId, dryRun: true, reconcile: true });
+		expect(findDiff(second, ORDER_BARCODE)).toBeUndefined();
+		expect(findDiff(second, LOCAL_ONLY_BARCODE)).toBeUndefined();
+		expect(findDiff(second, BLOCKED_BARCODE)).toMatchObject({ toRetire: 0, blocked: 5 });
+	});
+
+	it('leaves local-only barcodes alone without reconcile', async () => {
+		await insertUnit('lateLocalOnly', { barcode: LOCAL_ONLY_BARCODE });
+
+		const result = await syncInventory({ warehouseId, dryRun: true });
+
+		expect(findDiff(result, LOCAL_ONLY_BARCODE)).toBeUndefined();
+		expect(findDiff(result, BLOCKED_BARCODE)).toMatchObject({ toRetire: 0, blocked: 0 });
+	});
+});
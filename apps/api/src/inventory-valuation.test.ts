@@ -0,0 +1,315 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	inventoryShrinkageEvent,
+	product,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { resolveArrivalUnitCost } from './lib/inventory-valuation';
+
+const BARCODE = 8_910_001;
+const BARCODE_WITHOUT_CATALOG_COST = 8_910_002;
+const BARCODE_UNCOSTED = 8_910_003;
+
+let warehouseId: string;
+let otherWarehouseId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+const transferNumber = `VAL-${randomUUID().slice(0, 8)}`;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	const contentType = response.headers.get('content-type') ?? '';
+	if (contentType.includes('application/json')) {
+		return { status: response.status, json: await response.json(), text: null };
+	}
+	return { status: response.status, json: null, text: await response.text() };
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Valuation Warehouse',
+			code: `VAL-${warehouseId.slice(0, 8)}`,
+			timeZone: 'America/Mexico_City',
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Valuation Other Warehouse',
+			code: `VAL-O-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+	await db.insert(product).values([
+		{ barcode: BARCODE, title: 'Tinte valuado', cost: 80 },
+		{ barcode: BARCODE_WITHOUT_CATALOG_COST, title: 'Shampoo sin costo' },
+		{ barcode: BARCODE_UNCOSTED, title: 'Peine sin costo' },
+	]);
+
+	testUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Valuation Admin',
+		email: `admin.${Date.now()}@inventory-valuation-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values(mockSessionUser);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [warehouseId, otherWarehouseId];
+	const transfers = await db
+		.select({ id: warehouseTransfer.id })
+		.from(warehouseTransfer)
+		.where(eq(warehouseTransfer.transferNumber, transferNumber));
+	const transferIds = transfers.map((transfer) => transfer.id);
+	await db
+		.delete(productStockUsageHistory)
+		.where(inArray(productStockUsageHistory.warehouseId, warehouseIds));
+	if (transferIds.length > 0) {
+		await db
+			.delete(warehouseTransferDetails)
+			.where(inArray(warehouseTransferDetails.transferId, transferIds));
+		await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	}
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(inArray(inventoryShrinkageEvent.warehouseId, warehouseIds));
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db
+		.delete(product)
+		.where(
+			inArray(product.barcode, [BARCODE, BARCODE_WITHOUT_CATALOG_COST, BARCODE_UNCOSTED]),
+		);
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Unit costs and inventory valuation', () => {
+	let catalogCostedUnitId: string;
+	let uncostedUnitId: string;
+
+	it('stores the unit cost of created units', async () => {
+		expect(resolveArrivalUnitCost({ amount: 2, unitCost: 12.345 })).toBe(12.35);
+		expect(resolveArrivalUnitCost({ amount: 4, totalCost: 100 })).toBe(25);
+		expect(resolveArrivalUnitCost({ amount: 1 })).toBeNull();
+		expect(resolveArrivalUnitCost()).toBeNull();
+
+		// Without an Altegio arrival the catalog cost is used
+		const created = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: warehouseId,
+		});
+		expect(created.status).toBe(201);
+		expect(created.json.data[0].unitCost).toBe(80);
+		catalogCostedUnitId = created.json.data[0].id;
+
+		const uncosted = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE_WITHOUT_CATALOG_COST,
+			currentWarehouse: warehouseId,
+		});
+		expect(uncosted.json.data[0].unitCost).toBeNull();
+		uncostedUnitId = uncosted.json.data[0].id;
+	});
+
+	it('keeps the transfer cost per unit on units without a cost', async () => {
+		const created = await send('/warehouse-transfers/create', 'POST', {
+			transferNumber,
+			transferType: 'external',
+			sourceWarehouseId: warehouseId,
+			destinationWarehouseId: otherWarehouseId,
+			initiatedBy: testUserId,
+			transferDetails: [
+				{ productStockId: uncostedUnitId, quantityTransferred: 1, goodId: 1, costPerUnit: 10 },
+				{
+					productStockId: catalogCostedUnitId,
+					quantityTransferred: 1,
+					goodId: 2,
+					costPerUnit: 999,
+				},
+			],
+		});
+		expect(created.status).toBe(201);
+
+		const units = await db
+			.select({ id: productStock.id, unitCost: productStock.unitCost })
+			.from(productStock)
+			.where(inArray(productStock.id, [uncostedUnitId, catalogCostedUnitId]));
+		expect(Object.fromEntries(units.map((unit) => [unit.id, unit.unitCost]))).toEqual({
+			[uncostedUnitId]: 10,
+			[catalogCostedUnitId]: 80,
+		});
+	});
+
+	it('values the units on hand with the weighted-average cost per warehouse', async () => {
+		await db.insert(productStock).values([
+			{ barcode: BARCODE, currentWarehouse: warehouseId, unitCost: 100 },
+			{ barcode: BARCODE, currentWarehouse: warehouseId, unitCost: 60 },
+			{ barcode: BARCODE, currentWarehouse: warehouseId, unitCost: 500, isDeleted: true },
+			{ barcode: BARCODE_WITHOUT_CATALOG_COST, currentWarehouse: warehouseId, unitCost: 20 },
+			{ barcode: BARCODE_WITHOUT_CATALOG_COST, currentWarehouse: warehouseId },
+			{ barcode: BARCODE_UNCOSTED, currentWarehouse: warehouseId },
+		]);
+
+		const valuation = await send(`/product-stock/valuation?warehouseId=${warehouseId}`, 'GET');
+		expect(valuation.status).toBe(200);
+		expect(valuation.json.data).toHaveLength(1);
+
+		const [warehouseValuation] = valuation.json.data;
+		expect(warehouseValuation).toEqual(
+			expect.objectContaining({
+				warehouseName: 'Valuation Warehouse',
+				units: 7,
+				uncostedUnits: 1,
+				totalValue: 285,
+			}),
+		);
+		expect(warehouseValuation.items).toEqual([
+			expect.objectContaining({
+				barcode: BARCODE,
+				units: 3,
+				costedUnits: 3,
+				averageUnitCost: 80,
+				totalValue: 240,
+			}),
+			// The uncosted unit is valued at the average of its barcode
+			expect.objectContaining({
+				barcode: BARCODE_WITHOUT_CATALOG_COST,
+				units: 3,
+				costedUnits: 2,
+				averageUnitCost: 15,
+				totalValue: 45,
+			}),
+			expect.objectContaining({
+				barcode: BARCODE_UNCOSTED,
+				units: 1,
+				costedUnits: 0,
+				averageUnitCost: null,
+				totalValue: 0,
+			}),
+		]);
+	});
+
+	it('values merma with the unit cost at write-off time', async () => {
+		const [unit] = await db
+			.insert(productStock)
+			.values({ barcode: BARCODE, currentWarehouse: warehouseId, unitCost: 120 })
+			.returning({ id: productStock.id });
+		const writeoff = await send('/merma/writeoffs', 'POST', {
+			productIds: [unit.id, catalogCostedUnitId],
+			reason: 'dañado',
+		});
+		expect(writeoff.status).toBe(201);
+
+		// A later cost change does not revalue the event
+		await db.update(productStock).set({ unitCost: 1 }).where(eq(productStock.id, unit.id));
+
+		const start = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+		const end = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+		const summary = await send(
+			`/merma/writeoffs/summary?start=${start}&end=${end}&scope=warehouse&warehouseId=${warehouseId}`,
+			'GET',
+		);
+		expect(summary.status).toBe(200);
+		expect(summary.json.data.totalValue).toBe(200);
+		expect(summary.json.data.reasonSummary).toContainEqual(
+			expect.objectContaining({ reason: 'dañado', total: 2, value: 200 }),
+		);
+
+		const global = await send(
+			`/merma/writeoffs/summary?start=${start}&end=${end}&scope=global`,
+			'GET',
+		);
+		expect(global.json.data.rows).toContainEqual(
+			expect.objectContaining({ warehouseId, total: 2, totalValue: 200 }),
+		);
+
+		const monthly = await send(
+			`/merma/writeoffs/monthly?start=${start}&end=${end}&scope=warehouse&warehouseId=${warehouseId}`,
+			'GET',
+		);
+		expect(monthly.status).toBe(200);
+		expect(monthly.json.data.rows).toEqual([
+			expect.objectContaining({
+				warehouseId,
+				quantity: 2,
+				value: 200,
+				uncostedQuantity: 0,
+			}),
+		]);
+		expect(monthly.json.data.rows[0].month).toMatch(/^\d{4}-\d{2}$/);
+		expect(monthly.json.data.totals).toEqual({ quantity: 2, value: 200 });
+
+		const exported = await send(
+			`/merma/export?start=${start}&end=${end}&scope=warehouse&warehouseId=${warehouseId}`,
+			'GET',
+		);
+		expect(exported.status).toBe(200);
+		const [header, ...lines] = (exported.text ?? '').split('\n');
+		expect(header.split(',').slice(3, 6)).toEqual(['quantity', 'unitCost', 'totalCost']);
+		expect(lines.map((line) => line.split(',').slice(3, 6)).sort()).toEqual([
+			['1', '120', '120'],
+			['1', '80', '80'],
+		]);
+	});
+});
@@ -0,0 +1,476 @@
+/** biome-ignore-all lint/complexity/noExcessiveCognitiveComplexity: Job dispatch needs to handle every outcome explicitly */
+import { and, desc, eq, inArray, lt, lte, or, type SQL, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import {
+	type AltegioStockArrivalPayload,
+	type AltegioTransferTotal,
+	replicateStockCreationToAltegio,
+	replicateWarehouseTransferToAltegio,
+} from './altegio-service';
+import type { SessionUser } from './replenishment-orders';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+export const altegioOutboxKinds = ['warehouse_transfer', 'stock_creation'] as const;
+export const altegioOutboxStatuses = [
+	'pending',
+	'processing',
+	'succeeded',
+	'failed',
+	'dismissed',
+] as const;
+
+export type AltegioOutboxKind = (typeof altegioOutboxKinds)[number];
+export type AltegioOutboxStatus = (typeof altegioOutboxStatuses)[number];
+export type AltegioOutboxJob = typeof schemas.altegioOutbox.$inferSelect;
+
+export type WarehouseTransferOutboxPayload = {
+	transferId: string;
+	transferNumber: string;
+	sourceWarehouseId: string;
+	destinationWarehouseId: string;
+	altegioTotals: AltegioTransferTotal[];
+};
+
+export type StockCreationOutboxPayload = {
+	barcode: number;
+	warehouseId: string;
+	arrivalDetails?: Omit<AltegioStockArrivalPayload, 'masterId'> & { masterId?: number };
+};
+
+type WarehouseTransferOutboxProgress = {
+	arrivalDocumentId?: number;
+	departureDocumentId?: number;
+};
+
+export type EnqueueAltegioOutboxInput =
+	| {
+			kind: 'warehouse_transfer';
+			payload: WarehouseTransferOutboxPayload;
+			createdByUserId?: string | null;
+	  }
+	| {
+			kind: 'stock_creation';
+			payload: StockCreationOutboxPayload;
+			createdByUserId?: string | null;
+	  };
+
+/** First retry waits this long; each following attempt doubles it. */
+const BASE_RETRY_DELAY_MS = 30_000;
+/** Upper bound for the exponential backoff between attempts. */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+/** Jobs stuck in processing longer than this are considered abandoned (e.g. server restart). */
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const DEFAULT_WORKER_INTERVAL_MS = 60_000;
+const DEFAULT_BATCH_SIZE = 20;
+
+/**
+ * Computes when the next attempt should run after a failed one.
+ *
+ * @param attempts - Number of attempts already made (including the failed one)
+ * @param now - Reference time
+ * @returns Date of the next attempt
+ */
+export function computeNextAttemptAt(attempts: number, now: Date = new Date()): Date {
+	const exponent = Math.max(attempts - 1, 0);
+	const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+	return new Date(now.getTime() + delay);
+}
+
+/**
+ * Persists a replication job. Call it inside the same transaction that commits the
+ * local stock movement so a job exists for every movement that needs replicating.
+ */
+export async function enqueueAltegioOutboxJob(
+	executor: Executor,
+	input: EnqueueAltegioOutboxInput,
+): Promise<AltegioOutboxJob> {
+	const isTransfer = input.kind === 'warehouse_transfer';
+	const [job] = await executor
+		.insert(schemas.altegioOutbox)
+		.values({
+			kind: input.kind,
+			payload: input.payload,
+			transferId: isTransfer ? input.payload.transferId : null,
+			warehouseId: isTransfer
+				? input.payload.destinationWarehouseId
+				: input.payload.warehouseId,
+			reference: isTransfer
+				? input.payload.transferNumber
+				: String(input.payload.barcode),
+			createdByUserId: input.createdByUserId ?? null,
+		})
+		.returning();
+
+	return job;
+}
+
+/**
+ * Atomically moves a due job to processing so concurrent workers never run it twice.
+ * Stale processing locks are reclaimed.
+ */
+async function claimJob(id: string, { force }: { force: boolean }): Promise<AltegioOutboxJob | null> {
+	const now = new Date();
+	const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+	const claimable = or(
+		force
+			? inArray(schemas.altegioOutbox.status, ['pending', 'failed'])
+			: and(
+					eq(schemas.altegioOutbox.status, 'pending'),
+					lte(schemas.altegioOutbox.nextAttemptAt, now),
+				),
+		and(
+			eq(schemas.altegioOutbox.status, 'processing'),
+			lt(schemas.altegioOutbox.lockedAt, staleBefore),
+		),
+	);
+
+	const [claimed] = await db
+		.update(schemas.altegioOutbox)
+		.set({
+			status: 'processing',
+			lockedAt: now,
+			attempts: sql`${schemas.altegioOutbox.attempts} + 1`,
+			updatedAt: now,
+		})
+		.where(and(eq(schemas.altegioOutbox.id, id), claimable))
+		.returning();
+
+	return claimed ?? null;
+}
+
+type JobExecutionResult = {
+	success: boolean;
+	message: string;
+	progress?: WarehouseTransferOutboxProgress | null;
+};
+
+async function executeJob(job: AltegioOutboxJob): Promise<JobExecutionResult> {
+	if (job.kind === 'stock_creation') {
+		const payload = job.payload as StockCreationOutboxPayload;
+		const result = await replicateStockCreationToAltegio(
+			payload.barcode,
+			payload.warehouseId,
+			payload.arrivalDetails,
+		);
+		return { success: result.success, message: result.message };
+	}
+
+	if (job.kind === 'warehouse_transfer') {
+		const authHeader = process.env.AUTH_HEADER;
+		const acceptHeader = process.env.ACCEPT_HEADER;
+		if (!(authHeader && acceptHeader)) {
+			return { success: false, message: 'Missing required authentication configuration' };
+		}
+
+		const payload = job.payload as WarehouseTransferOutboxPayload;
+		const previousProgress = (job.progress ?? {}) as WarehouseTransferOutboxProgress;
+		const result = await replicateWarehouseTransferToAltegio({
+			transferId: payload.transferId,
+			transferNumber: payload.transferNumber,
+			sourceWarehouseId: payload.sourceWarehouseId,
+			destinationWarehouseId: payload.destinationWarehouseId,
+			altegioTotals: payload.altegioTotals,
+			headers: { authHeader, acceptHeader },
+			completedDocuments: previousProgress,
+		});
+
+		const arrivalDocumentId =
+			result.data?.arrivalDocumentId ?? previousProgress.arrivalDocumentId;
+		const departureDocumentId =
+			result.data?.departureDocumentId ?? previousProgress.departureDocumentId;
+		const hasProgress = arrivalDocumentId !== undefined || departureDocumentId !== undefined;
+
+		return {
+			success: result.success,
+			message: result.message,
+			progress: hasProgress
+				? {
+						...(arrivalDocumentId !== undefined ? { arrivalDocumentId } : {}),
+						...(departureDocumentId !== undefined ? { departureDocumentId } : {}),
+					}
+				: null,
+		};
+	}
+
+	return { success: false, message: `Unsupported outbox job kind: ${job.kind}` };
+}
+
+/**
+ * Runs a single outbox job and records the outcome.
+ * Failed attempts are rescheduled with exponential backoff until maxAttempts is reached,
+ * after which the job is marked as failed and only a manual retry runs it again.
+ *
+ * @param id - Outbox job ID
+ * @param options.force - Run immediately even if the job is not due yet or already failed
+ * @returns The updated job, or null when it could not be claimed
+ */
+export async function processAltegioOutboxJob(
+	id: string,
+	{ force = false }: { force?: boolean } = {},
+): Promise<AltegioOutboxJob | null> {
+	const job = await claimJob(id, { force });
+	if (!job) {
+		return null;
+	}
+
+	let execution: JobExecutionResult;
+	try {
+		execution = await executeJob(job);
+	} catch (error) {
+		execution = {
+			success: false,
+			message: error instanceof Error ? error.message : 'Unknown error during Altegio replication',
+		};
+	}
+
+	const now = new Date();
+	const progressUpdate =
+		execution.progress !== undefined ? { progress: execution.progress } : {};
+
+	if (execution.success) {
+		const [updated] = await db
+			.update(schemas.altegioOutbox)
+			.set({
+				status: 'succeeded',
+				lastError: null,
+				lockedAt: null,
+				completedAt: now,
+				updatedAt: now,
+				...progressUpdate,
+			})
+			.where(eq(schemas.altegioOutbox.id, job.id))
+			.returning();
+		return updated ?? null;
+	}
+
+	const exhausted = job.attempts >= job.maxAttempts;
+	// biome-ignore lint/suspicious/noConsole: Logging provides replication visibility
+	console.error('Altegio outbox job attempt failed', {
+		jobId: job.id,
+		kind: job.kind,
+		reference: job.reference,
+		attempts: job.attempts,
+		exhausted,
+		error: execution.message,
+	});
+
+	const [updated] = await db
+		.update(schemas.altegioOutbox)
+		.set({
+			status: exhausted ? 'failed' : 'pending',
+			lastError: execution.message,
+			lockedAt: null,
+			nextAttemptAt: computeNextAttemptAt(job.attempts, now),
+			updatedAt: now,
+			...progressUpdate,
+		})
+		.where(eq(schemas.altegioOutbox.id, job.id))
+		.returning();
+	return updated ?? null;
+}
+
+/**
+ * Processes the jobs that are due, oldest first.
+ *
+ * @returns Number of jobs that were processed
+ */
+export async function processDueAltegioOutboxJobs({
+	limit = DEFAULT_BATCH_SIZE,
+}: {
+	limit?: number;
+} = {}): Promise<number> {
+	const now = new Date();
+	const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+	const dueJobs = await db
+		.select({ id: schemas.altegioOutbox.id })
+		.from(schemas.altegioOutbox)
+		.where(
+			or(
+				and(
+					eq(schemas.altegioOutbox.status, 'pending'),
+					lte(schemas.altegioOutbox.nextAttemptAt, now),
+				),
+				and(
+					eq(schemas.altegioOutbox.status, 'processing'),
+					lt(schemas.altegioOutbox.lockedAt, staleBefore),
+				),
+			),
+		)
+		.orderBy(schemas.altegioOutbox.nextAttemptAt)
+		.limit(limit);
+
+	let processed = 0;
+	for (const { id } of dueJobs) {
+		const result = await processAltegioOutboxJob(id);
+		if (result) {
+			processed += 1;
+		}
+	}
+	return processed;
+}
+
+/**
+ * Starts the background worker that drains the outbox on a fixed interval.
+ * Ticks never overlap; the timer does not keep the process alive.
+ *
+ * @returns Function that stops the worker
+ */
+export function startAltegioOutboxWorker({
+	intervalMs = Number(process.env.ALTEGIO_OUTBOX_INTERVAL_MS ?? DEFAULT_WORKER_INTERVAL_MS),
+}: {
+	intervalMs?: number;
+} = {}): () => void {
+	let running = false;
+	const tick = async () => {
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			await processDueAltegioOutboxJobs();
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Worker failures must be visible in logs
+			console.error('Altegio outbox worker tick failed', error);
+		} finally {
+			running = false;
+		}
+	};
+
+	const timer = setInterval(tick, intervalMs);
+	timer.unref?.();
+	return () => clearInterval(timer);
+}
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+async function getJobOrThrow(id: string): Promise<AltegioOutboxJob> {
+	const [job] = await db
+		.select()
+		.from(schemas.altegioOutbox)
+		.where(eq(schemas.altegioOutbox.id, id))
+		.limit(1);
+
+	if (!job) {
+		throw new HTTPException(404, { message: 'Altegio outbox job not found' });
+	}
+	return job;
+}
+
+/**
+ * Lists outbox jobs, newest first. Non-admin users only see jobs for their warehouse.
+ */
+export async function listAltegioOutboxJobs({
+	status,
+	kind,
+	limit = 50,
+	user,
+}: {
+	status?: AltegioOutboxStatus | undefined;
+	kind?: AltegioOutboxKind | undefined;
+	limit?: number | undefined;
+	user: SessionUser | null | undefined;
+}): Promise<AltegioOutboxJob[]> {
+	assertAuthenticated(user);
+
+	const filters: SQL[] = [];
+	if (status) {
+		filters.push(eq(schemas.altegioOutbox.status, status));
+	}
+	if (kind) {
+		filters.push(eq(schemas.altegioOutbox.kind, kind));
+	}
+	if (user.role !== 'admin' && user.warehouseId) {
+		filters.push(eq(schemas.altegioOutbox.warehouseId, user.warehouseId));
+	}
+
+	return await db
+		.select()
+		.from(schemas.altegioOutbox)
+		.where(filters.length > 0 ? and(...filters) : undefined)
+		.orderBy(desc(schemas.altegioOutbox.createdAt), desc(schemas.altegioOutbox.id))
+		.limit(limit);
+}
+
+/**
+ * Runs a pending or failed job right away, regardless of its backoff schedule.
+ */
+export async function retryAltegioOutboxJob({
+	id,
+	user,
+}: {
+	id: string;
+	user: SessionUser | null | undefined;
+}): Promise<AltegioOutboxJob> {
+	assertAuthenticated(user);
+	const job = await getJobOrThrow(id);
+
+	if (job.status !== 'pending' && job.status !== 'failed') {
+		throw new HTTPException(409, {
+			message: `Cannot retry a job with status ${job.status}`,
+		});
+	}
+
+	if (job.status === 'failed') {
+		// A manual retry grants one extra attempt beyond the exhausted budget
+		await db
+			.update(schemas.altegioOutbox)
+			.set({ maxAttempts: job.attempts + 1, updatedAt: new Date() })
+			.where(eq(schemas.altegioOutbox.id, id));
+	}
+
+	const processed = await processAltegioOutboxJob(id, { force: true });
+	if (!processed) {
+		throw new HTTPException(409, { message: 'Job is already being processed' });
+	}
+	return processed;
+}
+
+/**
+ * Marks a pending or failed job as dismissed so the worker stops retrying it.
+ * Used when the movement was fixed manually in Altegio.
+ */
+export async function dismissAltegioOutboxJob({
+	id,
+	user,
+}: {
+	id: string;
+	user: SessionUser | null | undefined;
+}): Promise<AltegioOutboxJob> {
+	assertAuthenticated(user);
+
+	const now = new Date();
+	const [dismissed] = await db
+		.update(schemas.altegioOutbox)
+		.set({
+			status: 'dismissed',
+			dismissedByUserId: user.id,
+			lockedAt: null,
+			completedAt: now,
+			updatedAt: now,
+		})
+		.where(
+			and(
+				eq(schemas.altegioOutbox.id, id),
+				inArray(schemas.altegioOutbox.status, ['pending', 'failed']),
+			),
+		)
+		.returning();
+
+	if (!dismissed) {
+		const job = await getJobOrThrow(id);
+		throw new HTTPException(409, {
+			message: `Cannot dismiss a job with status ${job.status}`,
+		});
+	}
+	return dismissed;
+}
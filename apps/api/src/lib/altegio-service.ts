@@ -773,6 +773,14 @@ export type ReplicateWarehouseTransferParams = {
 	destinationWarehouseId: string;
 	altegioTotals: AltegioTransferTotal[];
 	headers: AltegioAuthHeaders;
+	/**
+	 * Documents already created by a previous attempt. When present, the matching
+	 * document is not created again so retries never duplicate stock movements.
+	 */
+	completedDocuments?: {
+		arrivalDocumentId?: number;
+		departureDocumentId?: number;
+	};
 };
 
 const altegioTransferTotalsSchema = z
@@ -1093,6 +1101,7 @@ export const replicateWarehouseTransferToAltegio = async ({
 	destinationWarehouseId,
 	altegioTotals,
 	headers,
+	completedDocuments,
 }: ReplicateWarehouseTransferParams): Promise<ReplicateWarehouseTransferResult> => {
 	const logFailure = (message: string, error?: unknown): void => {
 		// biome-ignore lint/suspicious/noConsole: External API diagnostics are required for supportability
@@ -1144,10 +1153,13 @@ export const replicateWarehouseTransferToAltegio = async ({
 		const { totals } = totalsResolution;
 		const { masterId } = masterResolution;
 
+		const previousArrivalDocumentId = completedDocuments?.arrivalDocumentId;
+		const previousDepartureDocumentId = completedDocuments?.departureDocumentId;
+
 		const arrivalResult = await createTransferDocument({
 			warehouse: destinationWarehouse,
 			...(destinationStorage ? { storage: destinationStorage } : {}),
-			shouldCreate: destinationHasConfig,
+			shouldCreate: destinationHasConfig && previousArrivalDocumentId === undefined,
 			typeId: ALTEGIO_DOCUMENT_TYPE_ARRIVAL,
 			documentComment: `Arrival document for transfer ${transferNumber}`,
 			transactionComment: `Arrival for transfer ${transferNumber}`,
@@ -1161,13 +1173,13 @@ export const replicateWarehouseTransferToAltegio = async ({
 			return arrivalResult.result;
 		}
 
-		const arrivalDocumentId = arrivalResult.documentId;
+		const arrivalDocumentId = arrivalResult.documentId ?? previousArrivalDocumentId;
 		const arrivalTransactionCount = arrivalResult.transactionCount;
 
 		const departureResult = await createTransferDocument({
 			warehouse: sourceWarehouse,
 			...(sourceStorage ? { storage: sourceStorage } : {}),
-			shouldCreate: sourceHasConfig,
+			shouldCreate: sourceHasConfig && previousDepartureDocumentId === undefined,
 			typeId: ALTEGIO_DOCUMENT_TYPE_DEPARTURE,
 			documentComment: `Departure document for transfer ${transferNumber}`,
 			transactionComment: `Departure for transfer ${transferNumber}`,
@@ -1178,10 +1190,17 @@ export const replicateWarehouseTransferToAltegio = async ({
 
 		if (departureResult.kind === 'result') {
 			logFailure(departureResult.result.message);
-			return departureResult.result;
+			// Report the arrival document so callers can resume from the departure step
+			return {
+				...departureResult.result,
+				data: {
+					...(arrivalDocumentId !== undefined ? { arrivalDocumentId } : {}),
+					transactionCount: arrivalTransactionCount,
+				},
+			};
 		}
 
-		const departureDocumentId = departureResult.documentId;
+		const departureDocumentId = departureResult.documentId ?? previousDepartureDocumentId;
 		const departureTransactionCount = departureResult.transactionCount;
 		const transactionCount = arrivalTransactionCount + departureTransactionCount;
 
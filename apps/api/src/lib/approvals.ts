@@ -0,0 +1,125 @@
+import { eq } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { ApprovalDecision, ApprovalStatus } from '../types';
+import { recordAuditLog } from './audit-log';
+import type { SessionUser } from './replenishment-orders';
+import { transferStatusValues } from './transfer-status';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	type WarehouseScope,
+} from './warehouse-scope';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type TransferRow = typeof schemas.warehouseTransfer.$inferSelect;
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+/**
+ * Approval status a new transfer or order starts with: `awaiting_approval` when the warehouse
+ * receiving the goods has `requiresApproval`, `not_required` otherwise.
+ */
+export async function initialApprovalStatus(
+	executor: Executor,
+	receivingWarehouseId: string,
+): Promise<ApprovalStatus> {
+	const [row] = await executor
+		.select({ requiresApproval: schemas.warehouse.requiresApproval })
+		.from(schemas.warehouse)
+		.where(eq(schemas.warehouse.id, receivingWarehouseId))
+		.limit(1);
+	return row?.requiresApproval ? 'awaiting_approval' : 'not_required';
+}
+
+/**
+ * Whether a transfer or order may move on (be completed or sent).
+ */
+export function isApprovalCleared(status: string): boolean {
+	return status === 'not_required' || status === 'approved';
+}
+
+/**
+ * Columns written when an approver decides.
+ */
+export function approvalDecisionValues(input: ApprovalDecision, user: SessionUser, now: Date) {
+	return {
+		approvalStatus: (input.decision === 'approve' ? 'approved' : 'rejected') as ApprovalStatus,
+		approvalComment: input.comment ?? null,
+		approvalDecidedAt: now,
+		approvalDecidedByUserId: user.id,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Approves or rejects a transfer awaiting approval. A rejected transfer is cancelled, so it
+ * leaves the pending lists and can never be completed.
+ *
+ * @throws 403 when the destination warehouse is outside the approver's scope
+ * @throws 409 when the transfer is not awaiting approval or was cancelled
+ */
+export async function decideTransferApproval({
+	transferId,
+	input,
+	user,
+	scope,
+}: {
+	transferId: string;
+	input: ApprovalDecision;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<TransferRow> {
+	assertAuthenticated(user);
+
+	return await db.transaction(async (tx) => {
+		const [transfer] = await tx
+			.select()
+			.from(schemas.warehouseTransfer)
+			.where(eq(schemas.warehouseTransfer.id, transferId))
+			.limit(1)
+			.for('update');
+		if (!transfer) {
+			throw new HTTPException(404, { message: 'Warehouse transfer not found' });
+		}
+		if (!canAccessWarehouse(scope, transfer.destinationWarehouseId)) {
+			throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+		}
+		if (transfer.isCancelled) {
+			throw new HTTPException(409, { message: 'Cancelled transfers cannot be approved' });
+		}
+		if (transfer.approvalStatus !== 'awaiting_approval') {
+			throw new HTTPException(409, { message: 'Transfer is not awaiting approval' });
+		}
+
+		const now = new Date();
+		const [updated] = await tx
+			.update(schemas.warehouseTransfer)
+			.set({
+				...approvalDecisionValues(input, user, now),
+				...(input.decision === 'reject' && transferStatusValues('cancelled', user.id, now)),
+			})
+			.where(eq(schemas.warehouseTransfer.id, transferId))
+			.returning();
+
+		await recordAuditLog(tx, {
+			actor: user,
+			entityType: 'warehouse_transfer',
+			entityId: transferId,
+			action: 'status_change',
+			before: transfer,
+			after: updated,
+			metadata: { approval: input.decision },
+		});
+		return updated;
+	});
+}
@@ -0,0 +1,202 @@
+import { and, desc, eq, gte, lt, lte, or, type SQL } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { AuditAction, AuditEntityType, AuditLogQuery } from '../types';
+import type { SessionUser } from './replenishment-orders';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type AuditLogRow = typeof schemas.auditLog.$inferSelect;
+
+export type AuditSnapshot = Record<string, unknown>;
+
+export type AuditLogEntry = {
+	actor: SessionUser | null | undefined;
+	entityType: AuditEntityType;
+	entityId: string;
+	action: AuditAction;
+	before?: unknown;
+	after?: unknown;
+	metadata?: Record<string, unknown> | undefined;
+};
+
+export type AuditLogListItem = AuditLogRow & {
+	actorName: string | null;
+	actorEmail: string | null;
+	// Top-level keys whose value differs between `before` and `after`
+	changedFields: string[];
+};
+
+/**
+ * Normalizes a row into plain JSON (dates become ISO strings) so snapshots compare cleanly.
+ */
+function toSnapshot(value: unknown): AuditSnapshot | null {
+	if (value === undefined || value === null) {
+		return null;
+	}
+	return JSON.parse(JSON.stringify(value)) as AuditSnapshot;
+}
+
+/**
+ * Lists the top-level fields that changed between two snapshots.
+ * `updatedAt` is ignored because every write bumps it.
+ */
+export function getChangedFields(
+	before: AuditSnapshot | null,
+	after: AuditSnapshot | null,
+): string[] {
+	const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+	keys.delete('updatedAt');
+	return [...keys].filter(
+		(key) => JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after?.[key] ?? null),
+	);
+}
+
+/**
+ * Appends one entry to the audit log.
+ * Pass the transaction of the write being audited so both commit or roll back together.
+ */
+export async function recordAuditLog(executor: Executor, entry: AuditLogEntry): Promise<void> {
+	await executor.insert(schemas.auditLog).values({
+		actorUserId: entry.actor?.id ?? null,
+		actorRole: entry.actor?.role ?? null,
+		entityType: entry.entityType,
+		entityId: entry.entityId,
+		action: entry.action,
+		before: toSnapshot(entry.before),
+		after: toSnapshot(entry.after),
+		metadata: entry.metadata ?? null,
+	});
+}
+
+function encodeCursor(payload: { createdAt: Date; id: string }): string {
+	return Buffer.from(
+		JSON.stringify({
+			createdAt: payload.createdAt.toISOString(),
+			id: payload.id,
+		}),
+	).toString('base64');
+}
+
+function decodeCursor(cursor?: string): { createdAt: Date; id: string } | null {
+	if (!cursor) {
+		return null;
+	}
+	try {
+		const decoded = Buffer.from(cursor, 'base64').toString('utf8');
+		const parsed = JSON.parse(decoded) as { createdAt?: string; id?: string };
+		if (!(parsed.createdAt && parsed.id)) {
+			return null;
+		}
+		const createdAt = new Date(parsed.createdAt);
+		if (Number.isNaN(createdAt.getTime())) {
+			return null;
+		}
+		return { createdAt, id: parsed.id };
+	} catch {
+		return null;
+	}
+}
+
+function parseOptionalDate(value: string | undefined, field: string): Date | null {
+	if (!value) {
+		return null;
+	}
+	const parsed = new Date(value);
+	if (Number.isNaN(parsed.getTime())) {
+		throw new HTTPException(400, { message: `Invalid ${field} date` });
+	}
+	return parsed;
+}
+
+/**
+ * Lists audit entries newest first with cursor pagination.
+ * Access is gated by the `audit.view` permission on the route.
+ */
+export async function listAuditLogs({
+	query,
+	user,
+}: {
+	query: AuditLogQuery;
+	user: SessionUser | null | undefined;
+}): Promise<{ items: AuditLogListItem[]; nextCursor: string | null }> {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+
+	const decodedCursor = decodeCursor(query.cursor);
+	if (query.cursor && !decodedCursor) {
+		throw new HTTPException(400, { message: 'Invalid cursor' });
+	}
+	const start = parseOptionalDate(query.start, 'start');
+	const end = parseOptionalDate(query.end, 'end');
+
+	const conditions: SQL[] = [];
+	if (query.entityType) {
+		conditions.push(eq(schemas.auditLog.entityType, query.entityType));
+	}
+	if (query.entityId) {
+		conditions.push(eq(schemas.auditLog.entityId, query.entityId));
+	}
+	if (query.actorUserId) {
+		conditions.push(eq(schemas.auditLog.actorUserId, query.actorUserId));
+	}
+	if (query.action) {
+		conditions.push(eq(schemas.auditLog.action, query.action));
+	}
+	if (start) {
+		conditions.push(gte(schemas.auditLog.createdAt, start));
+	}
+	if (end) {
+		conditions.push(lte(schemas.auditLog.createdAt, end));
+	}
+	if (decodedCursor) {
+		const cursorCondition = or(
+			lt(schemas.auditLog.createdAt, decodedCursor.createdAt),
+			and(
+				eq(schemas.auditLog.createdAt, decodedCursor.createdAt),
+				lt(schemas.auditLog.id, decodedCursor.id),
+			),
+		);
+		if (cursorCondition) {
+			conditions.push(cursorCondition);
+		}
+	}
+
+	const rows = await db
+		.select({
+			entry: schemas.auditLog,
+			actorName: schemas.user.name,
+			actorEmail: schemas.user.email,
+		})
+		.from(schemas.auditLog)
+		.leftJoin(schemas.user, eq(schemas.user.id, schemas.auditLog.actorUserId))
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(desc(schemas.auditLog.createdAt), desc(schemas.auditLog.id))
+		.limit(query.limit + 1);
+
+	const hasMore = rows.length > query.limit;
+	const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+	const items = pageRows.map(({ entry, actorName, actorEmail }) => ({
+		...entry,
+		actorName,
+		actorEmail,
+		changedFields: getChangedFields(
+			entry.before as AuditSnapshot | null,
+			entry.after as AuditSnapshot | null,
+		),
+	}));
+
+	const lastRow = pageRows.at(-1)?.entry;
+	return {
+		items,
+		nextCursor:
+			hasMore && lastRow
+				? encodeCursor({ createdAt: lastRow.createdAt, id: lastRow.id })
+				: null,
+	};
+}
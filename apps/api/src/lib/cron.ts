@@ -0,0 +1,206 @@
+/**
+ * Minimal five-field cron support (minute hour day-of-month month day-of-week) for
+ * in-process schedulers. Supports `*`, single values, lists (`1,15`), ranges (`1-5`)
+ * and steps (`*\/15`, `0-30/10`). Day-of-week accepts 0-7 where 0 and 7 are Sunday.
+ */
+
+type CronField = Set<number>;
+
+export type CronSchedule = {
+	expression: string;
+	minutes: CronField;
+	hours: CronField;
+	daysOfMonth: CronField;
+	months: CronField;
+	daysOfWeek: CronField;
+	/** True when day-of-month is restricted (affects the OR rule with day-of-week) */
+	restrictsDayOfMonth: boolean;
+	/** True when day-of-week is restricted (affects the OR rule with day-of-month) */
+	restrictsDayOfWeek: boolean;
+};
+
+export type ZonedDateParts = {
+	minute: number;
+	hour: number;
+	dayOfMonth: number;
+	month: number;
+	dayOfWeek: number;
+	/** Stable key for the minute in the given time zone (yyyy-MM-dd HH:mm) */
+	minuteKey: string;
+};
+
+const WEEKDAY_INDEX: Record<string, number> = {
+	Sun: 0,
+	Mon: 1,
+	Tue: 2,
+	Wed: 3,
+	Thu: 4,
+	Fri: 5,
+	Sat: 6,
+};
+
+function parseField(source: string, min: number, max: number, label: string): CronField {
+	const values: CronField = new Set();
+
+	for (const part of source.split(',')) {
+		const [rangePart, stepPart] = part.split('/');
+		const step = stepPart === undefined ? 1 : Number.parseInt(stepPart, 10);
+		if (!Number.isInteger(step) || step <= 0) {
+			throw new Error(`Invalid step "${part}" in cron ${label} field`);
+		}
+
+		let start = min;
+		let end = max;
+		if (rangePart !== '*') {
+			const [startText, endText] = (rangePart ?? '').split('-');
+			start = Number.parseInt(startText ?? '', 10);
+			end = endText === undefined ? (stepPart === undefined ? start : max) : Number.parseInt(endText, 10);
+		}
+
+		if (!(Number.isInteger(start) && Number.isInteger(end)) || start < min || end > max || start > end) {
+			throw new Error(`Invalid value "${part}" in cron ${label} field`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parses a five-field cron expression.
+ *
+ * @throws Error when the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Cron expression "${expression}" must have 5 fields`);
+	}
+
+	const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+		string,
+		string,
+		string,
+		string,
+		string,
+	];
+
+	const daysOfWeek = parseField(dayOfWeek, 0, 7, 'day-of-week');
+	if (daysOfWeek.has(7)) {
+		daysOfWeek.delete(7);
+		daysOfWeek.add(0);
+	}
+
+	return {
+		expression,
+		minutes: parseField(minute, 0, 59, 'minute'),
+		hours: parseField(hour, 0, 23, 'hour'),
+		daysOfMonth: parseField(dayOfMonth, 1, 31, 'day-of-month'),
+		months: parseField(month, 1, 12, 'month'),
+		daysOfWeek,
+		restrictsDayOfMonth: dayOfMonth !== '*',
+		restrictsDayOfWeek: dayOfWeek !== '*',
+	};
+}
+
+/**
+ * Resolves the calendar parts of a date in a given IANA time zone.
+ * Falls back to UTC when the time zone is unknown.
+ */
+export function getZonedDateParts(date: Date, timeZone?: string | null): ZonedDateParts {
+	let formatter: Intl.DateTimeFormat;
+	try {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timeZone || 'UTC',
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			weekday: 'short',
+		});
+	} catch {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: 'UTC',
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			weekday: 'short',
+		});
+	}
+
+	const parts = Object.fromEntries(
+		formatter.formatToParts(date).map((part) => [part.type, part.value]),
+	) as Record<string, string>;
+
+	return {
+		minute: Number(parts.minute),
+		hour: Number(parts.hour),
+		dayOfMonth: Number(parts.day),
+		month: Number(parts.month),
+		dayOfWeek: WEEKDAY_INDEX[parts.weekday ?? 'Sun'] ?? 0,
+		minuteKey: `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`,
+	};
+}
+
+/**
+ * Checks whether a schedule fires at the given calendar minute.
+ * Follows the classic cron rule: when both day fields are restricted, either may match.
+ */
+export function cronMatches(schedule: CronSchedule, parts: ZonedDateParts): boolean {
+	if (!(schedule.minutes.has(parts.minute) && schedule.hours.has(parts.hour))) {
+		return false;
+	}
+	if (!schedule.months.has(parts.month)) {
+		return false;
+	}
+
+	const dayOfMonthMatches = schedule.daysOfMonth.has(parts.dayOfMonth);
+	const dayOfWeekMatches = schedule.daysOfWeek.has(parts.dayOfWeek);
+
+	if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+		return dayOfMonthMatches || dayOfWeekMatches;
+	}
+	return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Calls `onMinute` once per wall-clock minute. Ticks never overlap and the
+ * timer does not keep the process alive.
+ *
+ * @returns Function that stops the ticker
+ */
+export function startMinuteTicker(onMinute: (now: Date) => Promise<void>): () => void {
+	let lastMinute = -1;
+	let running = false;
+
+	const tick = async () => {
+		const now = new Date();
+		const currentMinute = Math.floor(now.getTime() / 60_000);
+		if (running || currentMinute === lastMinute) {
+			return;
+		}
+		lastMinute = currentMinute;
+		running = true;
+		try {
+			await onMinute(now);
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Scheduler failures must be visible in logs
+			console.error('Scheduled task failed', error);
+		} finally {
+			running = false;
+		}
+	};
+
+	// Poll twice per minute so no minute is skipped because of timer drift
+	const timer = setInterval(tick, 30_000);
+	timer.unref?.();
+	return () => clearInterval(timer);
+}
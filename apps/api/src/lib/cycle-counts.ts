@@ -0,0 +1,904 @@
+/** biome-ignore-all lint/complexity/noExcessiveCognitiveComplexity: Needed for the code to be readable */
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	getTableColumns,
+	inArray,
+	isNull,
+	lt,
+	not,
+	type SQL,
+	sql,
+} from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type {
+	CycleCountClose,
+	CycleCountOpen,
+	CycleCountScan,
+	CycleCountStatus,
+} from '../types';
+import { shrinkageUnitCost } from './inventory-valuation';
+import type { SessionUser } from './replenishment-orders';
+import { escapeCsvValue } from './shrinkage';
+import { enqueueShrinkageRecordedWebhook } from './webhooks';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type CycleCountRow = typeof schemas.cycleCount.$inferSelect;
+type CycleCountItemRow = typeof schemas.cycleCountItem.$inferSelect;
+
+export type CycleCountScanResult = 'counted' | 'duplicate' | 'unexpected';
+
+/**
+ * Resolution stored on each item when the count closes:
+ * - counted: expected unit that was scanned
+ * - missing: expected unit not scanned, written off as shrinkage
+ * - skipped: expected unit not scanned that moved, was used or was written off during the count
+ * - found: scanned unit that belongs elsewhere (or was deleted), relocated to the counted warehouse
+ * - conflict: scanned unit that belongs elsewhere but is in use, in an open kit or withdraw order,
+ *   or in transit; it is left where it is
+ * - unexpected: barcode-only surplus, created as new product_stock units
+ */
+export type CycleCountResolution =
+	| 'counted'
+	| 'missing'
+	| 'skipped'
+	| 'found'
+	| 'conflict'
+	| 'unexpected';
+
+export type CycleCountVarianceLine = {
+	barcode: number;
+	description: string | null;
+	expected: number;
+	counted: number;
+	missing: number;
+	unexpected: number;
+};
+
+export type CycleCountVariance = {
+	expectedUnits: number;
+	countedUnits: number;
+	missingUnits: number;
+	unexpectedUnits: number;
+	lines: CycleCountVarianceLine[];
+};
+
+export type CycleCountSummary = Omit<CycleCountVariance, 'lines'> & {
+	writtenOffUnits: number;
+	skippedUnits: number;
+	foundUnits: number;
+	conflictUnits: number;
+	createdUnits: number;
+};
+
+export type CycleCountDetail = CycleCountRow & {
+	items: CycleCountItemRow[];
+	variance: CycleCountVariance;
+};
+
+export type CycleCountListItem = CycleCountRow & {
+	warehouseName: string | null;
+	cabinetName: string | null;
+};
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+function normalizeNotes(notes?: string | null): string | null {
+	const trimmed = notes?.trim();
+	return trimmed ? trimmed : null;
+}
+
+/**
+ * Loads a cycle count row, locking it for the rest of the transaction when requested
+ * so scans and the close of the same session are serialized.
+ */
+async function fetchCycleCount(
+	executor: Executor,
+	id: string,
+	{ lock = false }: { lock?: boolean } = {},
+): Promise<CycleCountRow> {
+	const query = executor
+		.select()
+		.from(schemas.cycleCount)
+		.where(eq(schemas.cycleCount.id, id))
+		.limit(1);
+	const rows = lock ? await query.for('update') : await query;
+
+	if (rows.length === 0) {
+		throw new HTTPException(404, { message: 'Cycle count not found' });
+	}
+	return rows[0];
+}
+
+function assertOpen(count: CycleCountRow): void {
+	if (count.status !== 'open') {
+		throw new HTTPException(409, {
+			message: `Cycle count is ${count.status} and can no longer be modified`,
+		});
+	}
+}
+
+/**
+ * True for units that are off the shelf while still belonging to their warehouse: in use, in
+ * transit, or in an open kit or withdraw order. A count neither expects nor relocates them.
+ */
+function isBusyUnit(executor: Executor): SQL<boolean> {
+	const inOpenKit = executor
+		.select({ id: schemas.kitsDetails.id })
+		.from(schemas.kitsDetails)
+		.where(
+			and(
+				eq(schemas.kitsDetails.productId, schemas.productStock.id),
+				eq(schemas.kitsDetails.isReturned, false),
+			),
+		);
+	const inOpenWithdrawOrder = executor
+		.select({ id: schemas.withdrawOrderDetails.id })
+		.from(schemas.withdrawOrderDetails)
+		.where(
+			and(
+				eq(schemas.withdrawOrderDetails.productId, schemas.productStock.id),
+				isNull(schemas.withdrawOrderDetails.dateReturn),
+			),
+		);
+	return sql<boolean>`(${schemas.productStock.isBeingUsed}
+		OR ${schemas.productStock.isInTransit}
+		OR EXISTS (${inOpenKit})
+		OR EXISTS (${inOpenWithdrawOrder}))`;
+}
+
+async function fetchItems(executor: Executor, cycleCountId: string): Promise<CycleCountItemRow[]> {
+	return await executor
+		.select()
+		.from(schemas.cycleCountItem)
+		.where(eq(schemas.cycleCountItem.cycleCountId, cycleCountId))
+		.orderBy(asc(schemas.cycleCountItem.barcode), asc(schemas.cycleCountItem.id));
+}
+
+/**
+ * Computes the variance of a count from its items, grouped by barcode.
+ */
+export function buildCycleCountVariance(items: CycleCountItemRow[]): CycleCountVariance {
+	const lines = new Map<number, CycleCountVarianceLine>();
+	let expectedUnits = 0;
+	let countedUnits = 0;
+	let missingUnits = 0;
+	let unexpectedUnits = 0;
+
+	for (const item of items) {
+		const line = lines.get(item.barcode) ?? {
+			barcode: item.barcode,
+			description: item.description,
+			expected: 0,
+			counted: 0,
+			missing: 0,
+			unexpected: 0,
+		};
+		line.description ??= item.description;
+		line.counted += item.countedQuantity;
+		countedUnits += item.countedQuantity;
+
+		if (item.isExpected) {
+			const missing = Math.max(item.quantity - item.countedQuantity, 0);
+			line.expected += item.quantity;
+			line.missing += missing;
+			expectedUnits += item.quantity;
+			missingUnits += missing;
+		} else {
+			line.unexpected += item.countedQuantity;
+			unexpectedUnits += item.countedQuantity;
+		}
+		lines.set(item.barcode, line);
+	}
+
+	return {
+		expectedUnits,
+		countedUnits,
+		missingUnits,
+		unexpectedUnits,
+		lines: Array.from(lines.values()),
+	};
+}
+
+async function fetchCycleCountDetail(executor: Executor, id: string): Promise<CycleCountDetail> {
+	const count = await fetchCycleCount(executor, id);
+	const items = await fetchItems(executor, id);
+	return { ...count, items, variance: buildCycleCountVariance(items) };
+}
+
+/**
+ * Lists cycle counts, newest first. Non-admin users only see counts of their own warehouse.
+ */
+export async function listCycleCounts({
+	warehouseId,
+	status,
+	user,
+}: {
+	warehouseId?: string | undefined;
+	status?: CycleCountStatus | undefined;
+	user: SessionUser | null;
+}): Promise<CycleCountListItem[]> {
+	assertAuthenticated(user);
+
+	const conditions: SQL[] = [];
+	const scopedWarehouseId =
+		user.role === 'admin' ? warehouseId : (user.warehouseId ?? undefined);
+	if (user.role !== 'admin' && !scopedWarehouseId) {
+		throw new HTTPException(403, { message: 'User is not assigned to a warehouse' });
+	}
+	if (scopedWarehouseId) {
+		conditions.push(eq(schemas.cycleCount.warehouseId, scopedWarehouseId));
+	}
+	if (status) {
+		conditions.push(eq(schemas.cycleCount.status, status));
+	}
+
+	const rows = await db
+		.select({
+			count: schemas.cycleCount,
+			warehouseName: schemas.warehouse.name,
+			cabinetName: schemas.cabinetWarehouse.name,
+		})
+		.from(schemas.cycleCount)
+		.leftJoin(schemas.warehouse, eq(schemas.cycleCount.warehouseId, schemas.warehouse.id))
+		.leftJoin(
+			schemas.cabinetWarehouse,
+			eq(schemas.cycleCount.cabinetId, schemas.cabinetWarehouse.id),
+		)
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(desc(schemas.cycleCount.openedAt));
+
+	return rows.map((row) => ({
+		...row.count,
+		warehouseName: row.warehouseName,
+		cabinetName: row.cabinetName,
+	}));
+}
+
+/**
+ * Opens a cycle count and snapshots the units expected on the shelf: every unit in the
+ * warehouse (or cabinet) that is not deleted, empty, in use, in transit, or in an open kit or
+ * withdraw order.
+ */
+export async function openCycleCount({
+	input,
+	user,
+}: {
+	input: CycleCountOpen;
+	user: SessionUser | null;
+}): Promise<CycleCountDetail> {
+	assertAuthenticated(user);
+	const cabinetId = input.cabinetId ?? null;
+
+	return await db.transaction(async (tx) => {
+		const warehouseRows = await tx
+			.select({ id: schemas.warehouse.id })
+			.from(schemas.warehouse)
+			.where(eq(schemas.warehouse.id, input.warehouseId))
+			.limit(1);
+		if (warehouseRows.length === 0) {
+			throw new HTTPException(404, { message: 'Warehouse not found' });
+		}
+
+		if (cabinetId) {
+			const cabinetRows = await tx
+				.select({ warehouseId: schemas.cabinetWarehouse.warehouseId })
+				.from(schemas.cabinetWarehouse)
+				.where(eq(schemas.cabinetWarehouse.id, cabinetId))
+				.limit(1);
+			if (cabinetRows.length === 0) {
+				throw new HTTPException(404, { message: 'Cabinet not found' });
+			}
+			if (cabinetRows[0].warehouseId !== input.warehouseId) {
+				throw new HTTPException(400, {
+					message: 'Cabinet does not belong to the selected warehouse',
+				});
+			}
+		}
+
+		const openCounts = await tx
+			.select({ id: schemas.cycleCount.id })
+			.from(schemas.cycleCount)
+			.where(
+				and(
+					eq(schemas.cycleCount.warehouseId, input.warehouseId),
+					eq(schemas.cycleCount.status, 'open'),
+					cabinetId
+						? eq(schemas.cycleCount.cabinetId, cabinetId)
+						: isNull(schemas.cycleCount.cabinetId),
+				),
+			)
+			.limit(1);
+		if (openCounts.length > 0) {
+			throw new HTTPException(409, {
+				message: 'There is already an open cycle count for this location',
+			});
+		}
+
+		const [created] = await tx
+			.insert(schemas.cycleCount)
+			.values({
+				warehouseId: input.warehouseId,
+				cabinetId,
+				notes: normalizeNotes(input.notes),
+				openedByUserId: user.id,
+			})
+			.returning();
+
+		const expectedUnits = await tx
+			.select({
+				id: schemas.productStock.id,
+				barcode: schemas.productStock.barcode,
+				description: schemas.productStock.description,
+			})
+			.from(schemas.productStock)
+			.where(
+				and(
+					eq(schemas.productStock.currentWarehouse, input.warehouseId),
+					cabinetId ? eq(schemas.productStock.currentCabinet, cabinetId) : undefined,
+					eq(schemas.productStock.isDeleted, false),
+					eq(schemas.productStock.isEmpty, false),
+					not(isBusyUnit(tx)),
+				),
+			);
+
+		if (expectedUnits.length > 0) {
+			await tx.insert(schemas.cycleCountItem).values(
+				expectedUnits.map((unit) => ({
+					cycleCountId: created.id,
+					productStockId: unit.id,
+					barcode: unit.barcode,
+					description: unit.description,
+				})),
+			);
+		}
+
+		return await fetchCycleCountDetail(tx, created.id);
+	});
+}
+
+/**
+ * Returns a cycle count with its items and live variance.
+ */
+export async function getCycleCount({ id }: { id: string }): Promise<CycleCountDetail> {
+	return await fetchCycleCountDetail(db, id);
+}
+
+async function findBarcodeDescription(executor: Executor, barcode: number): Promise<string | null> {
+	const catalogRows = await executor
+		.select({ title: schemas.product.title })
+		.from(schemas.product)
+		.where(eq(schemas.product.barcode, barcode))
+		.limit(1);
+	if (catalogRows[0]) {
+		return catalogRows[0].title;
+	}
+
+	const stockRows = await executor
+		.select({ description: schemas.productStock.description })
+		.from(schemas.productStock)
+		.where(eq(schemas.productStock.barcode, barcode))
+		.limit(1);
+	return stockRows[0]?.description ?? null;
+}
+
+/**
+ * Records one scan in an open cycle count.
+ *
+ * - A unit QR (`uuid`) marks that unit as counted, or as unexpected when it was not part of the snapshot.
+ * - A barcode-only scan marks up to `quantity` uncounted units of the barcode; the rest is surplus.
+ *
+ * Every scan is logged in cycle_count_scan for the session audit trail.
+ */
+export async function recordCycleCountScan({
+	id,
+	input,
+	user,
+}: {
+	id: string;
+	input: CycleCountScan;
+	user: SessionUser | null;
+}): Promise<{
+	result: CycleCountScanResult;
+	countedUnits: number;
+	unexpectedUnits: number;
+	productStockId: string | null;
+	variance: CycleCountVariance;
+}> {
+	assertAuthenticated(user);
+	const now = new Date();
+
+	return await db.transaction(async (tx) => {
+		const count = await fetchCycleCount(tx, id, { lock: true });
+		assertOpen(count);
+
+		let result: CycleCountScanResult;
+		let countedUnits = 0;
+		let unexpectedUnits = 0;
+
+		if (input.uuid) {
+			const [item] = await tx
+				.select()
+				.from(schemas.cycleCountItem)
+				.where(
+					and(
+						eq(schemas.cycleCountItem.cycleCountId, id),
+						eq(schemas.cycleCountItem.productStockId, input.uuid),
+					),
+				)
+				.limit(1);
+
+			if (item && item.barcode !== input.barcode) {
+				throw new HTTPException(400, {
+					message: 'Scanned barcode does not match the unit',
+				});
+			}
+
+			if (item && item.countedQuantity >= item.quantity) {
+				result = 'duplicate';
+			} else if (item) {
+				await tx
+					.update(schemas.cycleCountItem)
+					.set({ countedQuantity: item.quantity, countedByUserId: user.id, countedAt: now })
+					.where(eq(schemas.cycleCountItem.id, item.id));
+				result = 'counted';
+				countedUnits = item.quantity;
+			} else {
+				const [unit] = await tx
+					.select({
+						id: schemas.productStock.id,
+						barcode: schemas.productStock.barcode,
+						description: schemas.productStock.description,
+					})
+					.from(schemas.productStock)
+					.where(eq(schemas.productStock.id, input.uuid))
+					.limit(1);
+				if (!unit) {
+					throw new HTTPException(404, { message: 'Product stock unit not found' });
+				}
+				if (unit.barcode !== input.barcode) {
+					throw new HTTPException(400, {
+						message: 'Scanned barcode does not match the unit',
+					});
+				}
+
+				await tx.insert(schemas.cycleCountItem).values({
+					cycleCountId: id,
+					productStockId: unit.id,
+					barcode: unit.barcode,
+					description: unit.description,
+					isExpected: false,
+					countedQuantity: 1,
+					countedByUserId: user.id,
+					countedAt: now,
+				});
+				result = 'unexpected';
+				unexpectedUnits = 1;
+			}
+		} else {
+			const pending = await tx
+				.select({ id: schemas.cycleCountItem.id })
+				.from(schemas.cycleCountItem)
+				.where(
+					and(
+						eq(schemas.cycleCountItem.cycleCountId, id),
+						eq(schemas.cycleCountItem.barcode, input.barcode),
+						eq(schemas.cycleCountItem.isExpected, true),
+						lt(schemas.cycleCountItem.countedQuantity, schemas.cycleCountItem.quantity),
+					),
+				)
+				.orderBy(asc(schemas.cycleCountItem.id))
+				.limit(input.quantity);
+
+			if (pending.length > 0) {
+				await tx
+					.update(schemas.cycleCountItem)
+					.set({
+						countedQuantity: schemas.cycleCountItem.quantity,
+						countedByUserId: user.id,
+						countedAt: now,
+					})
+					.where(
+						inArray(
+							schemas.cycleCountItem.id,
+							pending.map((item) => item.id),
+						),
+					);
+			}
+			countedUnits = pending.length;
+			unexpectedUnits = input.quantity - pending.length;
+
+			if (unexpectedUnits > 0) {
+				const [surplus] = await tx
+					.select()
+					.from(schemas.cycleCountItem)
+					.where(
+						and(
+							eq(schemas.cycleCountItem.cycleCountId, id),
+							eq(schemas.cycleCountItem.barcode, input.barcode),
+							eq(schemas.cycleCountItem.isExpected, false),
+							isNull(schemas.cycleCountItem.productStockId),
+						),
+					)
+					.limit(1);
+
+				if (surplus) {
+					await tx
+						.update(schemas.cycleCountItem)
+						.set({
+							quantity: surplus.quantity + unexpectedUnits,
+							countedQuantity: surplus.countedQuantity + unexpectedUnits,
+							countedByUserId: user.id,
+							countedAt: now,
+						})
+						.where(eq(schemas.cycleCountItem.id, surplus.id));
+				} else {
+					await tx.insert(schemas.cycleCountItem).values({
+						cycleCountId: id,
+						barcode: input.barcode,
+						description: await findBarcodeDescription(tx, input.barcode),
+						isExpected: false,
+						quantity: unexpectedUnits,
+						countedQuantity: unexpectedUnits,
+						countedByUserId: user.id,
+						countedAt: now,
+					});
+				}
+			}
+			result = countedUnits > 0 ? 'counted' : 'unexpected';
+		}
+
+		await tx.insert(schemas.cycleCountScan).values({
+			cycleCountId: id,
+			barcode: input.barcode,
+			productStockId: input.uuid ?? null,
+			quantity: input.quantity,
+			result,
+			scannedByUserId: user.id,
+			createdAt: now,
+		});
+
+		const items = await fetchItems(tx, id);
+		return {
+			result,
+			countedUnits,
+			unexpectedUnits,
+			productStockId: input.uuid ?? null,
+			variance: buildCycleCountVariance(items),
+		};
+	});
+}
+
+/**
+ * Closes a cycle count and posts its adjustments in one transaction:
+ * missing units are written off as `cycle_count` shrinkage, units found from elsewhere are
+ * relocated to the counted location and barcode-only surplus becomes new product_stock units.
+ * Found units that are in use, in an open kit or withdraw order, or in transit are not moved;
+ * they are reported as `conflict`.
+ */
+export async function closeCycleCount({
+	id,
+	input,
+	user,
+}: {
+	id: string;
+	input: CycleCountClose;
+	user: SessionUser | null;
+}): Promise<CycleCountDetail> {
+	assertAuthenticated(user);
+	const notes = normalizeNotes(input.notes);
+	const now = new Date();
+
+	const employeeRows = await db
+		.select({ id: schemas.employee.id })
+		.from(schemas.employee)
+		.where(eq(schemas.employee.userId, user.id))
+		.limit(1);
+	const employeeId = employeeRows[0]?.id ?? null;
+
+	return await db.transaction(async (tx) => {
+		const count = await fetchCycleCount(tx, id, { lock: true });
+		assertOpen(count);
+
+		const items = await fetchItems(tx, id);
+		const variance = buildCycleCountVariance(items);
+		const resolutions = new Map<CycleCountResolution, string[]>();
+		const resolve = (item: CycleCountItemRow, resolution: CycleCountResolution) => {
+			resolutions.set(resolution, [...(resolutions.get(resolution) ?? []), item.id]);
+		};
+
+		const missingItems = items.filter(
+			(item) => item.isExpected && item.countedQuantity < item.quantity,
+		);
+		const missingUnitIds = missingItems
+			.map((item) => item.productStockId)
+			.filter((unitId): unitId is string => unitId !== null);
+		const missingUnits =
+			missingUnitIds.length > 0
+				? await tx
+						.select({ ...getTableColumns(schemas.productStock), isBusy: isBusyUnit(tx) })
+						.from(schemas.productStock)
+						.where(inArray(schemas.productStock.id, missingUnitIds))
+						.for('update')
+				: [];
+		const missingUnitsById = new Map(missingUnits.map((unit) => [unit.id, unit]));
+
+		const writeOffs: (typeof schemas.productStock.$inferSelect)[] = [];
+		for (const item of missingItems) {
+			const unit = item.productStockId ? missingUnitsById.get(item.productStockId) : undefined;
+			// Units that moved, were withdrawn, dispatched or put in a kit, or were written off while
+			// counting are left alone
+			const stillInPlace =
+				unit !== undefined &&
+				unit.currentWarehouse === count.warehouseId &&
+				(count.cabinetId === null || unit.currentCabinet === count.cabinetId) &&
+				!(unit.isDeleted || unit.isEmpty || unit.isBusy);
+			if (stillInPlace) {
+				writeOffs.push(unit);
+				resolve(item, 'missing');
+			} else {
+				resolve(item, 'skipped');
+			}
+		}
+
+		let writtenOffUnits = 0;
+		if (writeOffs.length > 0) {
+			const insertedEvents = await tx
+				.insert(schemas.inventoryShrinkageEvent)
+				.values(
+					writeOffs.map((unit) => ({
+						source: 'cycle_count',
+						reason: input.reason,
+						quantity: 1,
+						notes,
+						warehouseId: count.warehouseId,
+						productStockId: unit.id,
+						productBarcode: unit.barcode,
+						productDescription: unit.description,
+						unitCost: shrinkageUnitCost(unit.id, unit.barcode),
+						cycleCountId: count.id,
+						createdByUserId: user.id,
+					})),
+				)
+				.onConflictDoNothing()
+				.returning();
+			writtenOffUnits = insertedEvents.length;
+			await enqueueShrinkageRecordedWebhook(tx, insertedEvents);
+
+			const writeOffIds = writeOffs.map((unit) => unit.id);
+			await tx
+				.update(schemas.productStock)
+				.set(input.reason === 'consumido' ? { isEmpty: true } : { isDeleted: true })
+				.where(inArray(schemas.productStock.id, writeOffIds));
+
+			await tx.insert(schemas.productStockUsageHistory).values(
+				writeOffs.map((unit) => ({
+					productStockId: unit.id,
+					employeeId,
+					userId: user.id,
+					warehouseId: count.warehouseId,
+					movementType: 'other',
+					action: 'checkout',
+					notes: notes
+						? `Faltante en conteo cíclico (${input.reason}): ${notes}`
+						: `Faltante en conteo cíclico (${input.reason})`,
+					usageDate: now,
+					previousWarehouseId: count.warehouseId,
+				})),
+			);
+		}
+
+		const foundItems = items.filter((item) => !item.isExpected && item.productStockId !== null);
+		if (foundItems.length > 0) {
+			const foundUnitIds = foundItems.map((item) => item.productStockId as string);
+			const scannedUnits = await tx
+				.select({
+					id: schemas.productStock.id,
+					currentWarehouse: schemas.productStock.currentWarehouse,
+					// Relocating these would pull a unit out of someone's hands or off a truck
+					isBusy: isBusyUnit(tx),
+				})
+				.from(schemas.productStock)
+				.where(inArray(schemas.productStock.id, foundUnitIds))
+				.for('update');
+			const busyUnitIds = new Set(
+				scannedUnits.filter((unit) => unit.isBusy).map((unit) => unit.id),
+			);
+			const foundUnits = scannedUnits.filter((unit) => !unit.isBusy);
+
+			// Units already in the warehouse keep their cabinet unless the count was cabinet-scoped;
+			// units coming from another warehouse lose a cabinet that no longer applies
+			const sameWarehouseIds = foundUnits
+				.filter((unit) => unit.currentWarehouse === count.warehouseId)
+				.map((unit) => unit.id);
+			const otherWarehouseIds = foundUnits
+				.filter((unit) => unit.currentWarehouse !== count.warehouseId)
+				.map((unit) => unit.id);
+			if (sameWarehouseIds.length > 0) {
+				await tx
+					.update(schemas.productStock)
+					.set({
+						isDeleted: false,
+						...(count.cabinetId && { currentCabinet: count.cabinetId }),
+					})
+					.where(inArray(schemas.productStock.id, sameWarehouseIds));
+			}
+			if (otherWarehouseIds.length > 0) {
+				await tx
+					.update(schemas.productStock)
+					.set({
+						currentWarehouse: count.warehouseId,
+						currentCabinet: count.cabinetId,
+						isDeleted: false,
+					})
+					.where(inArray(schemas.productStock.id, otherWarehouseIds));
+			}
+
+			if (foundUnits.length > 0) {
+				await tx.insert(schemas.productStockUsageHistory).values(
+					foundUnits.map((unit) => ({
+						productStockId: unit.id,
+						employeeId,
+						userId: user.id,
+						warehouseId: count.warehouseId,
+						movementType: 'other',
+						action: 'checkin',
+						notes: 'Encontrado en conteo cíclico',
+						usageDate: now,
+						previousWarehouseId: unit.currentWarehouse,
+						newWarehouseId: count.warehouseId,
+					})),
+				);
+			}
+			for (const item of foundItems) {
+				resolve(item, busyUnitIds.has(item.productStockId as string) ? 'conflict' : 'found');
+			}
+		}
+
+		const surplusItems = items.filter((item) => !item.isExpected && item.productStockId === null);
+		let createdUnits = 0;
+		if (surplusItems.length > 0) {
+			const createdUnitRows = await tx
+				.insert(schemas.productStock)
+				.values(
+					surplusItems.flatMap((item) =>
+						Array.from({ length: item.countedQuantity }, () => ({
+							barcode: item.barcode,
+							description: item.description,
+							currentWarehouse: count.warehouseId,
+							currentCabinet: count.cabinetId,
+						})),
+					),
+				)
+				.returning({ id: schemas.productStock.id });
+			createdUnits = createdUnitRows.length;
+			for (const item of surplusItems) {
+				resolve(item, 'unexpected');
+			}
+		}
+
+		for (const item of items) {
+			if (item.isExpected && item.countedQuantity >= item.quantity) {
+				resolve(item, 'counted');
+			}
+		}
+
+		for (const [resolution, itemIds] of resolutions) {
+			// biome-ignore lint/nursery/noAwaitInLoop: One update per resolution kind
+			await tx
+				.update(schemas.cycleCountItem)
+				.set({ resolution })
+				.where(inArray(schemas.cycleCountItem.id, itemIds));
+		}
+
+		const summary: CycleCountSummary = {
+			expectedUnits: variance.expectedUnits,
+			countedUnits: variance.countedUnits,
+			missingUnits: variance.missingUnits,
+			unexpectedUnits: variance.unexpectedUnits,
+			writtenOffUnits,
+			skippedUnits: resolutions.get('skipped')?.length ?? 0,
+			foundUnits: resolutions.get('found')?.length ?? 0,
+			conflictUnits: resolutions.get('conflict')?.length ?? 0,
+			createdUnits,
+		};
+
+		await tx
+			.update(schemas.cycleCount)
+			.set({
+				status: 'closed',
+				summary,
+				closedByUserId: user.id,
+				closedAt: now,
+			})
+			.where(eq(schemas.cycleCount.id, id));
+
+		return await fetchCycleCountDetail(tx, id);
+	});
+}
+
+/**
+ * Cancels an open cycle count without posting any adjustment.
+ */
+export async function cancelCycleCount({
+	id,
+	user,
+}: {
+	id: string;
+	user: SessionUser | null;
+}): Promise<CycleCountDetail> {
+	assertAuthenticated(user);
+
+	return await db.transaction(async (tx) => {
+		const count = await fetchCycleCount(tx, id, { lock: true });
+		assertOpen(count);
+
+		await tx
+			.update(schemas.cycleCount)
+			.set({ status: 'cancelled', closedByUserId: user.id, closedAt: new Date() })
+			.where(eq(schemas.cycleCount.id, id));
+
+		return await fetchCycleCountDetail(tx, id);
+	});
+}
+
+/**
+ * Builds the variance report of a count: one row per item with its resolution,
+ * plus the scan log so every adjustment can be traced back to the scans behind it.
+ */
+export async function getCycleCountReport({ id }: { id: string }): Promise<{
+	cycleCount: CycleCountDetail;
+	scans: (typeof schemas.cycleCountScan.$inferSelect)[];
+}> {
+	const cycleCount = await fetchCycleCountDetail(db, id);
+	const scans = await db
+		.select()
+		.from(schemas.cycleCountScan)
+		.where(eq(schemas.cycleCountScan.cycleCountId, id))
+		.orderBy(asc(schemas.cycleCountScan.createdAt));
+
+	return { cycleCount, scans };
+}
+
+/**
+ * Serializes the item rows of a variance report as CSV.
+ */
+export function buildCycleCountReportCsv(cycleCount: CycleCountDetail): string {
+	const headers = [
+		'barcode',
+		'description',
+		'productStockId',
+		'expected',
+		'quantity',
+		'countedQuantity',
+		'resolution',
+		'countedAt',
+		'countedByUserId',
+	];
+	const bodyRows = cycleCount.items.map((item) =>
+		[
+			escapeCsvValue(item.barcode),
+			escapeCsvValue(item.description),
+			escapeCsvValue(item.productStockId),
+			escapeCsvValue(item.isExpected ? 'yes' : 'no'),
+			escapeCsvValue(item.quantity),
+			escapeCsvValue(item.countedQuantity),
+			escapeCsvValue(item.resolution ?? (cycleCount.status === 'open' ? 'pending' : '')),
+			escapeCsvValue(item.countedAt ? new Date(item.countedAt).toISOString() : null),
+			escapeCsvValue(item.countedByUserId),
+		].join(','),
+	);
+	return [headers.join(','), ...bodyRows].join('\n');
+}
@@ -0,0 +1,137 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { TransferStatus } from '../types';
+import type { WarehouseScope } from './warehouse-scope';
+
+/**
+ * What changed a set of product stock units.
+ */
+export type StockChangeReason =
+	| 'create'
+	| 'update'
+	| 'delete'
+	| 'purge'
+	| 'withdraw'
+	| 'return'
+	| 'transfer'
+	| 'kit'
+	| 'writeoff'
+	| 'adjustment';
+
+/**
+ * Domain events emitted after a write commits. `warehouseIds` lists the warehouses whose
+ * screens are affected; the events stream only delivers an event to users scoped to one of them.
+ */
+export type DomainEventInput =
+	| {
+			type: 'stock.changed';
+			warehouseIds: string[];
+			data: { productStockIds: string[]; reason: StockChangeReason };
+	  }
+	| {
+			type: 'transfer.created';
+			warehouseIds: string[];
+			data: { transferId: string };
+	  }
+	| {
+			type: 'transfer.status_changed';
+			warehouseIds: string[];
+			data: {
+				transferId: string;
+				status: 'pending' | 'completed' | 'cancelled';
+				transferStatus: TransferStatus;
+			};
+	  }
+	| {
+			type: 'transfer.items_updated';
+			warehouseIds: string[];
+			data: { transferId: string; transferDetailIds: string[] };
+	  }
+	| {
+			type: 'kit.updated';
+			warehouseIds: string[];
+			data: { kitId: string; employeeId: string };
+	  };
+
+export type DomainEvent = DomainEventInput & { id: string; occurredAt: string };
+
+export type DomainEventType = DomainEvent['type'];
+
+const DOMAIN_EVENT = 'domain-event';
+
+// In-process bus: every API instance only streams the events of its own writes
+const domainEventBus = new EventEmitter();
+domainEventBus.setMaxListeners(0);
+
+/**
+ * Publishes a domain event to the connected streams. Call it after the write commits,
+ * never inside the transaction, so listeners only hear about persisted changes.
+ * Events without warehouses are dropped.
+ */
+export function publishDomainEvent(input: DomainEventInput): void {
+	const warehouseIds = [...new Set(input.warehouseIds.filter(Boolean))];
+	if (warehouseIds.length === 0) {
+		return;
+	}
+
+	const event = {
+		...input,
+		warehouseIds,
+		id: randomUUID(),
+		occurredAt: new Date().toISOString(),
+	} as DomainEvent;
+
+	try {
+		domainEventBus.emit(DOMAIN_EVENT, event);
+	} catch (error) {
+		// A failing listener must never fail the request that published the event
+		// biome-ignore lint/suspicious/noConsole: Event delivery failures need to be visible
+		console.error('Error publishing domain event:', error);
+	}
+}
+
+/**
+ * Publishes `stock.changed` for product stock rows, scoped to their current warehouses plus
+ * any warehouse the units left (e.g. the source of a transfer).
+ */
+export function publishStockChanged(
+	rows: { id: string; currentWarehouse: string }[],
+	reason: StockChangeReason,
+	previousWarehouseIds: string[] = [],
+): void {
+	if (rows.length === 0) {
+		return;
+	}
+	publishDomainEvent({
+		type: 'stock.changed',
+		warehouseIds: [...rows.map((row) => row.currentWarehouse), ...previousWarehouseIds],
+		data: { productStockIds: rows.map((row) => row.id), reason },
+	});
+}
+
+/**
+ * Registers a listener for every published domain event.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToDomainEvents(listener: (event: DomainEvent) => void): () => void {
+	domainEventBus.on(DOMAIN_EVENT, listener);
+	return () => {
+		domainEventBus.off(DOMAIN_EVENT, listener);
+	};
+}
+
+/**
+ * Checks whether an event concerns a warehouse visible in the scope, optionally narrowed to
+ * one warehouse.
+ */
+export function isDomainEventVisible(
+	event: DomainEvent,
+	scope: WarehouseScope,
+	warehouseId?: string,
+): boolean {
+	if (warehouseId && !event.warehouseIds.includes(warehouseId)) {
+		return false;
+	}
+	return scope.global || event.warehouseIds.includes(scope.warehouseId);
+}
@@ -0,0 +1,277 @@
+import { randomUUID } from 'node:crypto';
+import { connect as connectTcp, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { connect as connectTls } from 'node:tls';
+
+export type EmailMessage = {
+	to: string[];
+	subject: string;
+	text: string;
+};
+
+/**
+ * Pluggable email delivery. Notifications only depend on this interface, so tests and other
+ * providers can replace the SMTP adapter with `setEmailTransport`.
+ */
+export type EmailTransport = {
+	name: string;
+	send(message: EmailMessage): Promise<void>;
+};
+
+export type SmtpConfig = {
+	host: string;
+	port: number;
+	// Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+	secure: boolean;
+	user?: string | undefined;
+	password?: string | undefined;
+	from: string;
+	timeoutMs?: number | undefined;
+};
+
+const DEFAULT_SMTP_TIMEOUT_MS = 10_000;
+
+type SmtpReply = { code: number; lines: string[] };
+
+/**
+ * Line-based reader over an SMTP socket. Replies are collected until the final line of a
+ * (possibly multiline) response, which has a space after the status code.
+ */
+class SmtpConnection {
+	private buffer = '';
+	private pendingLines: string[] = [];
+	private waiting: ((reply: SmtpReply) => void) | null = null;
+	private failure: Error | null = null;
+	private rejectWaiting: ((error: Error) => void) | null = null;
+
+	constructor(private socket: Socket) {
+		this.attach(socket);
+	}
+
+	private attach(socket: Socket) {
+		socket.setEncoding('utf8');
+		socket.on('data', (chunk: string) => this.onData(chunk));
+		socket.on('error', (error) => this.fail(error));
+		socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+	}
+
+	private fail(error: Error) {
+		this.failure ??= error;
+		this.rejectWaiting?.(this.failure);
+		this.waiting = null;
+		this.rejectWaiting = null;
+	}
+
+	private onData(chunk: string) {
+		this.buffer += chunk;
+		let newlineIndex = this.buffer.indexOf('\n');
+		while (newlineIndex >= 0) {
+			const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, '');
+			this.buffer = this.buffer.slice(newlineIndex + 1);
+			this.pendingLines.push(line);
+			if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) {
+				const reply = {
+					code: Number(line.slice(0, 3)),
+					lines: this.pendingLines.map((pending) => pending.slice(4)),
+				};
+				this.pendingLines = [];
+				const resolve = this.waiting;
+				this.waiting = null;
+				this.rejectWaiting = null;
+				resolve?.(reply);
+			}
+			newlineIndex = this.buffer.indexOf('\n');
+		}
+	}
+
+	read(): Promise<SmtpReply> {
+		if (this.failure) {
+			return Promise.reject(this.failure);
+		}
+		return new Promise((resolve, reject) => {
+			this.waiting = resolve;
+			this.rejectWaiting = reject;
+		});
+	}
+
+	async command(line: string | null, expectedCodes: number[]): Promise<SmtpReply> {
+		const replyPromise = this.read();
+		if (line !== null) {
+			this.socket.write(`${line}\r\n`);
+		}
+		const reply = await replyPromise;
+		if (!expectedCodes.includes(reply.code)) {
+			const command = line?.split(' ')[0] ?? 'greeting';
+			throw new Error(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`);
+		}
+		return reply;
+	}
+
+	/**
+	 * Upgrades the connection to TLS after a successful STARTTLS.
+	 */
+	async upgrade(host: string): Promise<void> {
+		this.socket.removeAllListeners('data');
+		this.socket.removeAllListeners('error');
+		this.socket.removeAllListeners('close');
+		const secureSocket = connectTls({ socket: this.socket, servername: host });
+		await new Promise<void>((resolve, reject) => {
+			secureSocket.once('secureConnect', resolve);
+			secureSocket.once('error', reject);
+		});
+		this.socket = secureSocket;
+		this.attach(secureSocket);
+	}
+
+	close() {
+		this.socket.end();
+	}
+}
+
+/**
+ * Encodes a header value as RFC 2047 UTF-8 when it has non-ASCII characters.
+ */
+function encodeHeader(value: string): string {
+	if (/^[\x20-\x7e]*$/.test(value)) {
+		return value;
+	}
+	return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Builds the RFC 5322 message. The body is base64 so accents and lines starting with a dot
+ * survive the DATA phase unchanged.
+ */
+export function buildMimeMessage(from: string, message: EmailMessage): string {
+	const domain = from.split('@')[1]?.replace(/>$/, '') ?? 'localhost';
+	const body = Buffer.from(message.text, 'utf8')
+		.toString('base64')
+		.replace(/.{1,76}/g, '$&\r\n');
+	return [
+		`From: ${from}`,
+		`To: ${message.to.join(', ')}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${randomUUID()}@${domain}>`,
+		'MIME-Version: 1.0',
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		body,
+	].join('\r\n');
+}
+
+function extractAddress(value: string): string {
+	const match = value.match(/<([^>]+)>/);
+	return (match?.[1] ?? value).trim();
+}
+
+/**
+ * SMTP adapter built on plain sockets. Works against a local catcher (Mailpit, MailHog) in
+ * development and against a relay with STARTTLS or implicit TLS plus AUTH PLAIN in production.
+ */
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+	return {
+		name: 'smtp',
+		async send(message) {
+			if (message.to.length === 0) {
+				return;
+			}
+
+			const socket = config.secure
+				? connectTls({ host: config.host, port: config.port, servername: config.host })
+				: connectTcp({ host: config.host, port: config.port });
+			socket.setTimeout(config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS, () => {
+				socket.destroy(new Error('SMTP connection timed out'));
+			});
+
+			const connection = new SmtpConnection(socket);
+			try {
+				await connection.command(null, [220]);
+				const ehloName = hostname() || 'localhost';
+				let ehlo = await connection.command(`EHLO ${ehloName}`, [250]);
+
+				const offersStartTls = ehlo.lines.some((line) => line.toUpperCase() === 'STARTTLS');
+				if (!config.secure && offersStartTls) {
+					await connection.command('STARTTLS', [220]);
+					await connection.upgrade(config.host);
+					ehlo = await connection.command(`EHLO ${ehloName}`, [250]);
+				}
+
+				if (config.user) {
+					const credentials = Buffer.from(
+						`\u0000${config.user}\u0000${config.password ?? ''}`,
+						'utf8',
+					).toString('base64');
+					await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+				}
+
+				await connection.command(`MAIL FROM:<${extractAddress(config.from)}>`, [250]);
+				for (const recipient of message.to) {
+					// biome-ignore lint: Recipients must be sent one command at a time
+					await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+				}
+				await connection.command('DATA', [354]);
+				const payload = buildMimeMessage(config.from, message)
+					.split('\r\n')
+					.map((line) => (line.startsWith('.') ? `.${line}` : line))
+					.join('\r\n');
+				await connection.command(`${payload}\r\n.`, [250]);
+				await connection.command('QUIT', [221]).catch(() => undefined);
+			} finally {
+				connection.close();
+			}
+		},
+	};
+}
+
+/**
+ * Reads the SMTP adapter configuration from the environment.
+ *
+ * Env:
+ * - SMTP_HOST: server host; email delivery is disabled when unset
+ * - SMTP_PORT: server port (default 587, or 465 when SMTP_SECURE=true)
+ * - SMTP_SECURE: `true` for implicit TLS
+ * - SMTP_USER / SMTP_PASSWORD: optional AUTH PLAIN credentials
+ * - SMTP_FROM: sender address (default `ALR Inventario <no-reply@localhost>`)
+ *
+ * @returns The configuration, or null when SMTP_HOST is not set
+ */
+export function readSmtpConfig(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+	const host = env.SMTP_HOST?.trim();
+	if (!host) {
+		return null;
+	}
+	const secure = env.SMTP_SECURE === 'true';
+	const port = Number(env.SMTP_PORT);
+	return {
+		host,
+		port: Number.isInteger(port) && port > 0 ? port : secure ? 465 : 587,
+		secure,
+		user: env.SMTP_USER,
+		password: env.SMTP_PASSWORD,
+		from: env.SMTP_FROM ?? 'ALR Inventario <no-reply@localhost>',
+	};
+}
+
+let activeTransport: EmailTransport | null | undefined;
+
+/**
+ * Returns the transport used for notification emails: the one set with `setEmailTransport`,
+ * otherwise the SMTP adapter when SMTP_HOST is configured, otherwise null (email disabled).
+ */
+export function getEmailTransport(): EmailTransport | null {
+	if (activeTransport === undefined) {
+		const config = readSmtpConfig();
+		activeTransport = config ? createSmtpTransport(config) : null;
+	}
+	return activeTransport;
+}
+
+/**
+ * Replaces the email transport (another provider, or a fake in tests). Pass undefined to go
+ * back to the environment configuration.
+ */
+export function setEmailTransport(transport: EmailTransport | null | undefined): void {
+	activeTransport = transport;
+}
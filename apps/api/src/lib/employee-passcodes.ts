@@ -0,0 +1,468 @@
+import { createHmac, randomInt, timingSafeEqual } from 'node:crypto';
+import { and, eq, isNotNull, ne, sql } from 'drizzle-orm';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import type { ApiEnv } from '../context';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { ApiResponse } from './api-response';
+import type { SessionUser } from './replenishment-orders';
+
+/** Failed attempts allowed before the account is locked */
+export const MAX_PASSCODE_ATTEMPTS = 5;
+/** How long the numpad stays locked after too many failed attempts */
+export const PASSCODE_LOCKOUT_MS = 15 * 60 * 1000;
+/** Lifetime of the employee token returned by a successful verification */
+export const EMPLOYEE_TOKEN_TTL_MS = 30 * 60 * 1000;
+export const EMPLOYEE_TOKEN_HEADER = 'X-Employee-Token';
+export const EMPLOYEE_TOKEN_MISMATCH_MESSAGE = 'Forbidden - employee token does not match';
+
+const PASSCODE_PATTERN = /^\d{4}$/;
+const BCRYPT_COST = 10;
+
+/**
+ * Employee columns that are safe to return to clients (everything except the passcode hash).
+ * Use it in every select that returns employee rows.
+ */
+export const publicEmployeeColumns = {
+	id: schemas.employee.id,
+	name: schemas.employee.name,
+	surname: schemas.employee.surname,
+	warehouseId: schemas.employee.warehouseId,
+	passcodeUpdatedAt: schemas.employee.passcodeUpdatedAt,
+	userId: schemas.employee.userId,
+	permissions: schemas.employee.permissions,
+};
+
+export type PublicEmployee = Omit<typeof schemas.employee.$inferSelect, 'passcodeHash'> & {
+	hasPasscode: boolean;
+};
+
+export type EmployeeTokenClaims = {
+	employeeId: string;
+	userId: string;
+	warehouseId: string;
+	/** Expiry as epoch milliseconds */
+	exp: number;
+};
+
+export type VerifiedEmployee = {
+	employee: PublicEmployee;
+	permissions: typeof schemas.permissions.$inferSelect | null;
+	token: string;
+	expiresAt: string;
+};
+
+/**
+ * Selection for employee + permissions rows without the passcode hash.
+ * `hasPasscode` tells clients whether the employee can sign in on the numpad.
+ */
+export const employeeWithPermissionsSelection = {
+	employee: {
+		...publicEmployeeColumns,
+		hasPasscode: sql<boolean>`${schemas.employee.passcodeHash} IS NOT NULL`,
+	},
+	permissions: schemas.permissions,
+};
+
+function getTokenSecret(): string {
+	const secret = process.env.EMPLOYEE_TOKEN_SECRET ?? process.env.BETTER_AUTH_SECRET;
+	if (!secret) {
+		throw new HTTPException(500, { message: 'Employee token secret is not configured' });
+	}
+	return secret;
+}
+
+function sign(value: string): string {
+	return createHmac('sha256', getTokenSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Validates the 4-digit numpad passcode format.
+ *
+ * @throws HTTPException 400 when the passcode is not exactly four digits
+ */
+export function assertPasscodeFormat(passcode: string): void {
+	if (!PASSCODE_PATTERN.test(passcode)) {
+		throw new HTTPException(400, { message: 'Passcode must be exactly 4 digits' });
+	}
+}
+
+/**
+ * Hashes a numpad passcode with bcrypt.
+ */
+export async function hashPasscode(passcode: string): Promise<string> {
+	return await Bun.password.hash(passcode, { algorithm: 'bcrypt', cost: BCRYPT_COST });
+}
+
+/**
+ * Generates a random 4-digit passcode (1000-9999).
+ */
+export function generatePasscode(): string {
+	return String(randomInt(1000, 10_000));
+}
+
+/**
+ * Issues a short-lived, HMAC-signed token scoped to one employee.
+ * Format: `<base64url claims>.<base64url signature>`.
+ */
+export function issueEmployeeToken(
+	employee: { id: string; userId: string; warehouseId: string },
+	now = new Date(),
+): { token: string; expiresAt: Date } {
+	const expiresAt = new Date(now.getTime() + EMPLOYEE_TOKEN_TTL_MS);
+	const claims: EmployeeTokenClaims = {
+		employeeId: employee.id,
+		userId: employee.userId,
+		warehouseId: employee.warehouseId,
+		exp: expiresAt.getTime(),
+	};
+	const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+	return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+/**
+ * Verifies an employee token and returns its claims.
+ * Returns null when the token is malformed, tampered with or expired.
+ */
+export function verifyEmployeeToken(token: string, now = new Date()): EmployeeTokenClaims | null {
+	const [payload, signature] = token.split('.');
+	if (!(payload && signature)) {
+		return null;
+	}
+
+	const expected = Buffer.from(sign(payload));
+	const received = Buffer.from(signature);
+	if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+		return null;
+	}
+
+	try {
+		const claims = JSON.parse(
+			Buffer.from(payload, 'base64url').toString('utf8'),
+		) as Partial<EmployeeTokenClaims>;
+		if (
+			typeof claims.employeeId !== 'string' ||
+			typeof claims.userId !== 'string' ||
+			typeof claims.warehouseId !== 'string' ||
+			typeof claims.exp !== 'number' ||
+			claims.exp <= now.getTime()
+		) {
+			return null;
+		}
+		return claims as EmployeeTokenClaims;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Hono middleware that requires the employee token from passcode verification in the
+ * `X-Employee-Token` header and exposes its claims as `c.get('employeeToken')`.
+ * Handlers still have to check that `employeeId` matches the employee the request acts for.
+ *
+ * - A missing, tampered or expired token returns 401.
+ * - A token issued to another account returns 403.
+ */
+export const requireEmployeeToken = () =>
+	createMiddleware<ApiEnv>(async (c, next) => {
+		const token = c.req.header(EMPLOYEE_TOKEN_HEADER)?.trim();
+		const claims = token ? verifyEmployeeToken(token) : null;
+		if (!claims) {
+			return c.json(
+				{
+					success: false,
+					message: token
+						? 'Employee token is invalid or expired'
+						: `${EMPLOYEE_TOKEN_HEADER} header is required`,
+				} satisfies ApiResponse,
+				401,
+			);
+		}
+
+		if (claims.userId !== c.get('user')?.id) {
+			return c.json(
+				{
+					success: false,
+					message: EMPLOYEE_TOKEN_MISMATCH_MESSAGE,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		c.set('employeeToken', claims);
+		await next();
+	});
+
+/**
+ * Ensures no other employee linked to the same account already uses the passcode,
+ * since the numpad identifies the employee by passcode alone.
+ *
+ * @throws HTTPException 409 when the passcode is already taken
+ */
+async function assertPasscodeAvailable({
+	passcode,
+	userId,
+	excludeEmployeeId,
+}: {
+	passcode: string;
+	userId: string | null;
+	excludeEmployeeId?: string | undefined;
+}): Promise<void> {
+	if (!userId) {
+		return;
+	}
+
+	const siblings = await db
+		.select({ passcodeHash: schemas.employee.passcodeHash })
+		.from(schemas.employee)
+		.where(
+			and(
+				eq(schemas.employee.userId, userId),
+				isNotNull(schemas.employee.passcodeHash),
+				excludeEmployeeId ? ne(schemas.employee.id, excludeEmployeeId) : undefined,
+			),
+		);
+
+	for (const sibling of siblings) {
+		// biome-ignore lint: Hash comparisons are sequential to keep CPU usage bounded
+		if (sibling.passcodeHash && (await Bun.password.verify(passcode, sibling.passcodeHash))) {
+			throw new HTTPException(409, {
+				message: 'Another employee of this account already uses that passcode',
+			});
+		}
+	}
+}
+
+/**
+ * Hashes the passcode for a new employee after checking it is unique for the linked account.
+ *
+ * @returns The hash to store in `employee.passcode_hash`
+ */
+export async function prepareEmployeePasscode({
+	passcode,
+	userId,
+}: {
+	passcode: string;
+	userId: string | null;
+}): Promise<string> {
+	assertPasscodeFormat(passcode);
+	await assertPasscodeAvailable({ passcode, userId });
+	return await hashPasscode(passcode);
+}
+
+/**
+ * Counts a failed attempt with a single upsert, so concurrent attempts cannot overwrite
+ * each other's count. The lock decision is taken from the row the database returns.
+ */
+async function recordFailedAttempt(
+	userId: string,
+	now: Date,
+): Promise<{ failedAttempts: number; lockedUntil: Date | null }> {
+	const lockout = schemas.employeePasscodeLockout;
+	const lockUntil = new Date(now.getTime() + PASSCODE_LOCKOUT_MS);
+	// A lock that already expired starts a fresh series of attempts
+	const nextAttempts = sql`CASE WHEN ${lockout.lockedUntil} <= ${now} THEN 1 ELSE ${lockout.failedAttempts} + 1 END`;
+
+	const [row] = await db
+		.insert(lockout)
+		.values({
+			userId,
+			failedAttempts: 1,
+			lockedUntil: MAX_PASSCODE_ATTEMPTS <= 1 ? lockUntil : null,
+			lastFailedAt: now,
+			updatedAt: now,
+		})
+		.onConflictDoUpdate({
+			target: lockout.userId,
+			set: {
+				failedAttempts: nextAttempts,
+				// An active lock set by a concurrent attempt is kept as is
+				lockedUntil: sql`CASE
+					WHEN ${lockout.lockedUntil} > ${now} THEN ${lockout.lockedUntil}
+					WHEN ${nextAttempts} >= ${MAX_PASSCODE_ATTEMPTS} THEN ${lockUntil}::timestamptz
+					ELSE NULL
+				END`,
+				lastFailedAt: now,
+				updatedAt: now,
+			},
+		})
+		.returning({ failedAttempts: lockout.failedAttempts, lockedUntil: lockout.lockedUntil });
+
+	return {
+		failedAttempts: row?.failedAttempts ?? 1,
+		lockedUntil: row?.lockedUntil ?? null,
+	};
+}
+
+/**
+ * Verifies a numpad passcode against the employees linked to the signed-in account.
+ * Hashes never leave the server; on success the employee and a short-lived token are returned.
+ * After MAX_PASSCODE_ATTEMPTS consecutive failures the account is locked for PASSCODE_LOCKOUT_MS.
+ *
+ * @throws HTTPException 401 on a wrong passcode, 423 while the account is locked
+ */
+export async function verifyEmployeePasscode({
+	passcode,
+	user,
+	now = new Date(),
+}: {
+	passcode: string;
+	user: SessionUser | null | undefined;
+	now?: Date | undefined;
+}): Promise<VerifiedEmployee> {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+	assertPasscodeFormat(passcode);
+
+	const [lockout] = await db
+		.select()
+		.from(schemas.employeePasscodeLockout)
+		.where(eq(schemas.employeePasscodeLockout.userId, user.id))
+		.limit(1);
+
+	if (lockout?.lockedUntil && lockout.lockedUntil > now) {
+		throw new HTTPException(423, {
+			message: `Too many failed attempts. Try again after ${lockout.lockedUntil.toISOString()}`,
+		});
+	}
+
+	const candidates = await db
+		.select({
+			employee: schemas.employee,
+			permissions: schemas.permissions,
+		})
+		.from(schemas.employee)
+		.leftJoin(schemas.permissions, eq(schemas.employee.permissions, schemas.permissions.id))
+		.where(and(eq(schemas.employee.userId, user.id), isNotNull(schemas.employee.passcodeHash)));
+
+	for (const candidate of candidates) {
+		const hash = candidate.employee.passcodeHash;
+		// biome-ignore lint: Hash comparisons are sequential to keep CPU usage bounded
+		if (!(hash && (await Bun.password.verify(passcode, hash)))) {
+			continue;
+		}
+
+		if (lockout) {
+			await db
+				.delete(schemas.employeePasscodeLockout)
+				.where(eq(schemas.employeePasscodeLockout.userId, user.id));
+		}
+
+		const { passcodeHash, ...employee } = candidate.employee;
+		const { token, expiresAt } = issueEmployeeToken(
+			{ id: employee.id, userId: user.id, warehouseId: employee.warehouseId },
+			now,
+		);
+
+		return {
+			employee: { ...employee, hasPasscode: passcodeHash !== null },
+			permissions: candidate.permissions,
+			token,
+			expiresAt: expiresAt.toISOString(),
+		};
+	}
+
+	const { failedAttempts, lockedUntil } = await recordFailedAttempt(user.id, now);
+	if (lockedUntil && lockedUntil > now) {
+		throw new HTTPException(423, {
+			message: `Too many failed attempts. Try again after ${lockedUntil.toISOString()}`,
+		});
+	}
+	throw new HTTPException(401, {
+		message: `Invalid passcode. ${MAX_PASSCODE_ATTEMPTS - failedAttempts} attempt(s) left`,
+	});
+}
+
+/**
+ * Sets a new passcode for an employee and clears the lockout of the linked account.
+ * Admins and encargados can reset any employee; other users only employees of their warehouse.
+ * When no passcode is given a random one is generated.
+ *
+ * @returns The new plain passcode, to be shown once to the person doing the reset
+ */
+export async function resetEmployeePasscode({
+	employeeId,
+	passcode,
+	user,
+}: {
+	employeeId: string;
+	passcode?: string | undefined;
+	user: SessionUser | null | undefined;
+}): Promise<{ employee: PublicEmployee; passcode: string }> {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+
+	const [target] = await db
+		.select()
+		.from(schemas.employee)
+		.where(eq(schemas.employee.id, employeeId))
+		.limit(1);
+
+	if (!target) {
+		throw new HTTPException(404, { message: 'Employee not found' });
+	}
+
+	const isManager = user.role === 'admin' || user.role === 'encargado';
+	if (!isManager && target.warehouseId !== user.warehouseId) {
+		throw new HTTPException(403, {
+			message: 'You can only reset passcodes of employees in your warehouse',
+		});
+	}
+
+	let nextPasscode = passcode;
+	if (nextPasscode) {
+		assertPasscodeFormat(nextPasscode);
+		await assertPasscodeAvailable({
+			passcode: nextPasscode,
+			userId: target.userId,
+			excludeEmployeeId: target.id,
+		});
+	} else {
+		// Retry a few random codes in case one collides with a sibling employee
+		for (let attempt = 0; attempt < 5 && !nextPasscode; attempt += 1) {
+			const candidate = generatePasscode();
+			try {
+				// biome-ignore lint: Candidates are checked one at a time
+				await assertPasscodeAvailable({
+					passcode: candidate,
+					userId: target.userId,
+					excludeEmployeeId: target.id,
+				});
+				nextPasscode = candidate;
+			} catch (error) {
+				if (!(error instanceof HTTPException && error.status === 409)) {
+					throw error;
+				}
+			}
+		}
+		if (!nextPasscode) {
+			throw new HTTPException(409, { message: 'Could not generate a unique passcode' });
+		}
+	}
+
+	const now = new Date();
+	const [updated] = await db
+		.update(schemas.employee)
+		.set({ passcodeHash: await hashPasscode(nextPasscode), passcodeUpdatedAt: now })
+		.where(eq(schemas.employee.id, target.id))
+		.returning(publicEmployeeColumns);
+
+	if (target.userId) {
+		await db
+			.delete(schemas.employeePasscodeLockout)
+			.where(eq(schemas.employeePasscodeLockout.userId, target.userId));
+	}
+
+	if (!updated) {
+		throw new HTTPException(404, { message: 'Employee not found' });
+	}
+
+	return {
+		employee: { ...updated, hasPasscode: true },
+		passcode: nextPasscode,
+	};
+}
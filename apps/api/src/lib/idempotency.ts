@@ -0,0 +1,194 @@
+import { createHash } from 'node:crypto';
+import { and, eq, lt, or } from 'drizzle-orm';
+import { createMiddleware } from 'hono/factory';
+import type { ApiEnv } from '../context';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { ApiResponse } from './api-response';
+import { startMinuteTicker } from './cron';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const DEFAULT_TTL_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+// A request still "in progress" after this long was interrupted (e.g. the process restarted)
+const STALE_IN_PROGRESS_MS = 2 * 60 * 1000;
+// Hourly cleanup, on the minute the catalog sync does not use
+const CLEANUP_MINUTE = 45;
+
+function getTtlMs(): number {
+	const hours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+	return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function hashRequest(method: string, path: string, body: string): string {
+	return createHash('sha256').update(`${method}\n${path}\n${body}`).digest('hex');
+}
+
+/**
+ * Hono middleware that makes a mutating endpoint safe to retry.
+ *
+ * When the request carries an `Idempotency-Key` header, the first request with that key
+ * (per session user) runs normally and its response is stored; repeats within the TTL
+ * (`IDEMPOTENCY_KEY_TTL_HOURS`, default 24) get the stored response back with an
+ * `Idempotent-Replayed: true` header instead of running the handler again.
+ *
+ * - A repeat while the first request is still running returns 409.
+ * - Reusing a key with a different body or endpoint returns 422.
+ * - Only 2xx/3xx responses are stored; failed requests release the key so the client can retry.
+ * - Requests without the header are not affected.
+ */
+export const idempotency = () =>
+	createMiddleware<ApiEnv>(async (c, next) => {
+		const key = c.req.header(IDEMPOTENCY_KEY_HEADER)?.trim();
+		if (!key) {
+			await next();
+			return;
+		}
+
+		if (key.length > MAX_KEY_LENGTH) {
+			return c.json(
+				{
+					success: false,
+					message: `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+				} satisfies ApiResponse,
+				400,
+			);
+		}
+
+		const userId = c.get('user')?.id ?? 'anonymous';
+		const method = c.req.method;
+		const path = c.req.path;
+		// HonoRequest caches the body, so validators can still read it as JSON afterwards
+		const requestHash = hashRequest(method, path, await c.req.text());
+		const now = new Date();
+
+		// Expired keys and interrupted requests may be reused
+		await db
+			.delete(schemas.idempotencyKey)
+			.where(
+				and(
+					eq(schemas.idempotencyKey.userId, userId),
+					eq(schemas.idempotencyKey.key, key),
+					or(
+						lt(schemas.idempotencyKey.expiresAt, now),
+						and(
+							eq(schemas.idempotencyKey.status, 'in_progress'),
+							lt(
+								schemas.idempotencyKey.createdAt,
+								new Date(now.getTime() - STALE_IN_PROGRESS_MS),
+							),
+						),
+					),
+				),
+			);
+
+		const [claimed] = await db
+			.insert(schemas.idempotencyKey)
+			.values({
+				key,
+				userId,
+				method,
+				path,
+				requestHash,
+				expiresAt: new Date(now.getTime() + getTtlMs()),
+			})
+			.onConflictDoNothing()
+			.returning({ id: schemas.idempotencyKey.id });
+
+		if (!claimed) {
+			const [existing] = await db
+				.select()
+				.from(schemas.idempotencyKey)
+				.where(
+					and(
+						eq(schemas.idempotencyKey.userId, userId),
+						eq(schemas.idempotencyKey.key, key),
+					),
+				)
+				.limit(1);
+
+			if (!existing || existing.requestHash !== requestHash) {
+				return c.json(
+					{
+						success: false,
+						message: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+					} satisfies ApiResponse,
+					422,
+				);
+			}
+
+			if (existing.status !== 'completed' || existing.responseStatus === null) {
+				return c.json(
+					{
+						success: false,
+						message: 'A request with this Idempotency-Key is still being processed',
+					} satisfies ApiResponse,
+					409,
+				);
+			}
+
+			const headers = new Headers({ [IDEMPOTENT_REPLAY_HEADER]: 'true' });
+			if (existing.responseContentType) {
+				headers.set('Content-Type', existing.responseContentType);
+			}
+			return new Response(existing.responseBody, {
+				status: existing.responseStatus,
+				headers,
+			});
+		}
+
+		const releaseKey = () =>
+			db.delete(schemas.idempotencyKey).where(eq(schemas.idempotencyKey.id, claimed.id));
+
+		try {
+			await next();
+		} catch (error) {
+			await releaseKey();
+			throw error;
+		}
+
+		if (c.res.status >= 400) {
+			await releaseKey();
+			return;
+		}
+
+		await db
+			.update(schemas.idempotencyKey)
+			.set({
+				status: 'completed',
+				responseStatus: c.res.status,
+				responseBody: await c.res.clone().text(),
+				responseContentType: c.res.headers.get('Content-Type'),
+				completedAt: new Date(),
+			})
+			.where(eq(schemas.idempotencyKey.id, claimed.id));
+	});
+
+/**
+ * Deletes stored responses whose TTL has passed
+ *
+ * @returns Number of deleted keys
+ */
+export async function purgeExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+	const deleted = await db
+		.delete(schemas.idempotencyKey)
+		.where(lt(schemas.idempotencyKey.expiresAt, now))
+		.returning({ id: schemas.idempotencyKey.id });
+	return deleted.length;
+}
+
+/**
+ * Starts the hourly cleanup of expired idempotency keys
+ *
+ * @returns Function that stops the job
+ */
+export function startIdempotencyKeyCleanup(): () => void {
+	return startMinuteTicker(async (now) => {
+		if (now.getUTCMinutes() === CLEANUP_MINUTE) {
+			await purgeExpiredIdempotencyKeys(now);
+		}
+	});
+}
@@ -0,0 +1,332 @@
+import { and, desc, eq, gte, isNull, lt, or, type SQL, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { SyncOptions, SyncResult, SyncWarehouseSummary } from '../types';
+import { cronMatches, getZonedDateParts, parseCronExpression, startMinuteTicker } from './cron';
+import { InventorySyncError, syncInventory } from './inventory-sync';
+
+export type InventorySyncRunTrigger = 'manual' | 'scheduled';
+export type InventorySyncRunStatus = 'running' | 'succeeded' | 'failed';
+
+type SyncRunRow = typeof schemas.inventorySyncRun.$inferSelect;
+
+export type InventorySyncRun = Omit<SyncRunRow, 'warehouses' | 'totals' | 'meta'> & {
+	warehouses: SyncWarehouseSummary[] | null;
+	totals: SyncResult['totals'] | null;
+	meta: SyncResult['meta'] | null;
+};
+
+export type InventorySyncRunListItem = Omit<InventorySyncRun, 'warehouses'> & {
+	warehouseCount: number;
+};
+
+const DEFAULT_SYNC_CRON = '0 3 * * *';
+/** A `running` row older than this is left over from a crashed process and no longer blocks */
+const RUNNING_RUN_STALE_MS = 6 * 60 * 60 * 1000;
+
+function toSyncRun(row: SyncRunRow): InventorySyncRun {
+	return {
+		...row,
+		warehouses: (row.warehouses as SyncWarehouseSummary[] | null) ?? null,
+		totals: (row.totals as SyncResult['totals'] | null) ?? null,
+		meta: (row.meta as SyncResult['meta'] | null) ?? null,
+	};
+}
+
+function encodeCursor(payload: { startedAt: Date; id: string }): string {
+	return Buffer.from(
+		JSON.stringify({
+			startedAt: payload.startedAt.toISOString(),
+			id: payload.id,
+		}),
+	).toString('base64');
+}
+
+function decodeCursor(cursor?: string): { startedAt: Date; id: string } | null {
+	if (!cursor) {
+		return null;
+	}
+	try {
+		const decoded = Buffer.from(cursor, 'base64').toString('utf8');
+		const parsed = JSON.parse(decoded) as { startedAt?: string; id?: string };
+		if (!(parsed.startedAt && parsed.id)) {
+			return null;
+		}
+		const startedAt = new Date(parsed.startedAt);
+		if (Number.isNaN(startedAt.getTime())) {
+			return null;
+		}
+		return { startedAt, id: parsed.id };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Creates the `running` row of a sync run, unless another run on an overlapping scope is
+ * still running: a run on one warehouse overlaps runs on that warehouse and runs on all
+ * warehouses, and a run on all warehouses overlaps every run. The check and the insert hold
+ * an advisory lock so two runs started at the same time cannot both pass.
+ *
+ * @throws InventorySyncError 409 with `runningRunId` when an overlapping run is in progress
+ */
+async function startSyncRun(
+	options: SyncOptions,
+	trigger: InventorySyncRunTrigger,
+): Promise<SyncRunRow> {
+	return await db.transaction(async (tx) => {
+		await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('inventory_sync_run'))`);
+
+		const scopeCondition = options.warehouseId
+			? or(
+					eq(schemas.inventorySyncRun.warehouseId, options.warehouseId),
+					isNull(schemas.inventorySyncRun.warehouseId),
+				)
+			: undefined;
+		const [running] = await tx
+			.select({ id: schemas.inventorySyncRun.id })
+			.from(schemas.inventorySyncRun)
+			.where(
+				and(
+					eq(schemas.inventorySyncRun.status, 'running'),
+					gte(
+						schemas.inventorySyncRun.startedAt,
+						new Date(Date.now() - RUNNING_RUN_STALE_MS),
+					),
+					scopeCondition,
+				),
+			)
+			.limit(1);
+
+		if (running) {
+			throw new InventorySyncError('An inventory sync is already running', 409, {
+				runningRunId: running.id,
+			});
+		}
+
+		const [created] = await tx
+			.insert(schemas.inventorySyncRun)
+			.values({
+				trigger,
+				status: 'running',
+				dryRun: options.dryRun ?? false,
+				reconcile: options.reconcile ?? false,
+				warehouseId: options.warehouseId ?? null,
+				triggeredByUserId: options.userId ?? null,
+			})
+			.returning();
+		return created;
+	});
+}
+
+/**
+ * Runs an inventory sync and persists it as a sync run.
+ * The run row is created before the sync starts so failed or interrupted runs stay visible.
+ *
+ * @throws InventorySyncError 409 when a run on the same warehouse is still running
+ * @throws Re-throws the sync error after recording the failure on the run
+ */
+export async function runRecordedInventorySync({
+	options,
+	trigger,
+}: {
+	options: SyncOptions;
+	trigger: InventorySyncRunTrigger;
+}): Promise<{ run: InventorySyncRun; result: SyncResult }> {
+	const created = await startSyncRun(options, trigger);
+
+	try {
+		const result = await syncInventory(options);
+
+		const [finished] = await db
+			.update(schemas.inventorySyncRun)
+			.set({
+				status: 'succeeded',
+				warehouses: result.warehouses,
+				totals: result.totals,
+				meta: result.meta,
+				finishedAt: new Date(),
+			})
+			.where(eq(schemas.inventorySyncRun.id, created.id))
+			.returning();
+
+		return { run: toSyncRun(finished ?? created), result };
+	} catch (error) {
+		await db
+			.update(schemas.inventorySyncRun)
+			.set({
+				status: 'failed',
+				errorMessage: error instanceof Error ? error.message : 'Unknown sync error',
+				finishedAt: new Date(),
+			})
+			.where(eq(schemas.inventorySyncRun.id, created.id));
+		throw error;
+	}
+}
+
+/**
+ * Lists sync runs newest first with cursor pagination.
+ * Per-warehouse summaries are omitted; use the detail endpoint for them.
+ */
+export async function listInventorySyncRuns({
+	warehouseId,
+	limit,
+	cursor,
+}: {
+	warehouseId?: string | undefined;
+	limit: number;
+	cursor?: string | undefined;
+}): Promise<{ items: InventorySyncRunListItem[]; nextCursor: string | null }> {
+	const decodedCursor = decodeCursor(cursor);
+	if (cursor && !decodedCursor) {
+		throw new HTTPException(400, { message: 'Invalid cursor' });
+	}
+
+	const conditions: SQL[] = [];
+	if (warehouseId) {
+		conditions.push(eq(schemas.inventorySyncRun.warehouseId, warehouseId));
+	}
+	if (decodedCursor) {
+		const cursorCondition = or(
+			lt(schemas.inventorySyncRun.startedAt, decodedCursor.startedAt),
+			and(
+				eq(schemas.inventorySyncRun.startedAt, decodedCursor.startedAt),
+				lt(schemas.inventorySyncRun.id, decodedCursor.id),
+			),
+		);
+		if (cursorCondition) {
+			conditions.push(cursorCondition);
+		}
+	}
+
+	const rows = await db
+		.select()
+		.from(schemas.inventorySyncRun)
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(desc(schemas.inventorySyncRun.startedAt), desc(schemas.inventorySyncRun.id))
+		.limit(limit + 1);
+
+	const hasMore = rows.length > limit;
+	const pageRows = hasMore ? rows.slice(0, limit) : rows;
+	const items = pageRows.map((row) => {
+		const { warehouses, ...run } = toSyncRun(row);
+		return {
+			...run,
+			warehouseCount: warehouses?.length ?? 0,
+		};
+	});
+
+	const lastRow = pageRows.at(-1);
+	return {
+		items,
+		nextCursor:
+			hasMore && lastRow
+				? encodeCursor({ startedAt: lastRow.startedAt, id: lastRow.id })
+				: null,
+	};
+}
+
+/**
+ * Loads a sync run with its per-warehouse summaries and the previous successful, applied run
+ * for the same scope, so clients can show what changed between both runs.
+ */
+export async function getInventorySyncRun(id: string): Promise<{
+	run: InventorySyncRun;
+	previousRun: InventorySyncRun | null;
+}> {
+	const [row] = await db
+		.select()
+		.from(schemas.inventorySyncRun)
+		.where(eq(schemas.inventorySyncRun.id, id))
+		.limit(1);
+
+	if (!row) {
+		throw new HTTPException(404, { message: 'Inventory sync run not found' });
+	}
+
+	const [previous] = await db
+		.select()
+		.from(schemas.inventorySyncRun)
+		.where(
+			and(
+				row.warehouseId
+					? eq(schemas.inventorySyncRun.warehouseId, row.warehouseId)
+					: isNull(schemas.inventorySyncRun.warehouseId),
+				eq(schemas.inventorySyncRun.status, 'succeeded'),
+				// A dry run changed nothing, so it is not a baseline to compare against
+				eq(schemas.inventorySyncRun.dryRun, false),
+				lt(schemas.inventorySyncRun.startedAt, row.startedAt),
+			),
+		)
+		.orderBy(desc(schemas.inventorySyncRun.startedAt))
+		.limit(1);
+
+	return {
+		run: toSyncRun(row),
+		previousRun: previous ? toSyncRun(previous) : null,
+	};
+}
+
+/**
+ * Starts the nightly inventory sync scheduler.
+ * Each active warehouse with Altegio configuration gets its own run when the cron
+ * expression matches in the warehouse time zone.
+ *
+ * Env:
+ * - INVENTORY_SYNC_CRON: five-field cron expression (default `0 3 * * *`); `off` disables it
+ * - INVENTORY_SYNC_RECONCILE: `true` to retire surplus units on scheduled runs
+ *
+ * @returns Function that stops the scheduler, or null when disabled
+ */
+export function startInventorySyncScheduler(): (() => void) | null {
+	const expression = process.env.INVENTORY_SYNC_CRON ?? DEFAULT_SYNC_CRON;
+	if (expression.trim().toLowerCase() === 'off') {
+		return null;
+	}
+
+	const schedule = parseCronExpression(expression);
+	const reconcile = process.env.INVENTORY_SYNC_RECONCILE === 'true';
+
+	return startMinuteTicker(async (now) => {
+		const warehouses = await db
+			.select({
+				id: schemas.warehouse.id,
+				name: schemas.warehouse.name,
+				timeZone: schemas.warehouse.timeZone,
+				altegioId: schemas.warehouse.altegioId,
+				consumablesId: schemas.warehouse.consumablesId,
+			})
+			.from(schemas.warehouse)
+			.where(eq(schemas.warehouse.isActive, true));
+
+		for (const warehouse of warehouses) {
+			if (!(warehouse.altegioId && warehouse.consumablesId)) {
+				continue;
+			}
+			if (!cronMatches(schedule, getZonedDateParts(now, warehouse.timeZone))) {
+				continue;
+			}
+
+			try {
+				// biome-ignore lint: Warehouses are synced sequentially to limit API/DB pressure
+				await runRecordedInventorySync({
+					options: {
+						warehouseId: warehouse.id,
+						dryRun: false,
+						reconcile,
+					},
+					trigger: 'scheduled',
+				});
+			} catch (error) {
+				// biome-ignore lint/suspicious/noConsole: Scheduled sync failures must be visible in logs
+				console.error('Scheduled inventory sync failed', {
+					warehouseId: warehouse.id,
+					warehouseName: warehouse.name,
+					error: error instanceof Error ? error.message : error,
+				});
+			}
+		}
+	});
+}
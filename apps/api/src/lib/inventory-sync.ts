@@ -1,14 +1,17 @@
-import { and, eq, inArray, sql } from 'drizzle-orm';
+import { and, asc, desc, eq, inArray, isNull, not, type SQL, sql } from 'drizzle-orm';
 import { db } from '../db/index';
 // biome-ignore lint/performance/noNamespaceImport: Required for schema imports
 import * as schema from '../db/schema';
 import {
 	type AltegioGood,
 	apiResponseSchema,
+	type SyncBarcodeDiff,
 	type SyncOptions,
 	type SyncResult,
 	type SyncWarehouseSummary,
 } from '../types';
+import { loadCatalogUnitCosts, roundMoney, shrinkageUnitCost } from './inventory-valuation';
+import { loadSyncExpiryDates } from './product-expiry';
 
 const PAGE_SIZE = 100;
 const INSERT_CHUNK_SIZE = 500;
@@ -54,6 +57,18 @@ type ExistingCountRow = {
 	count: number;
 };
 
+type LocalOnlyRow = {
+	barcode: number;
+	description: string | null;
+	count: number;
+};
+
+type RetirementCandidate = {
+	id: string;
+	barcode: number;
+	description: string | null;
+};
+
 type PerProductCapResult = {
 	allowedInsert: number;
 	skipped: number;
@@ -75,7 +90,7 @@ function chunkArray<T>(values: T[], chunkSize: number): T[][] {
  * Fetches all Altegio goods for a specific salon/storage with pagination.
  */
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Preserve current behavior; refactor later if needed
-async function fetchGoods(altegioId: number, headers: HeadersInit): Promise<AltegioGood[]> {
+export async function fetchGoods(altegioId: number, headers: HeadersInit): Promise<AltegioGood[]> {
 	const goods: AltegioGood[] = [];
 	let page = 1;
 
@@ -155,7 +170,7 @@ async function fetchGoods(altegioId: number, headers: HeadersInit): Promise<Alte
 /**
  * Normalises an Altegio goods barcode to a safe integer if possible.
  */
-function resolveBarcode(good: AltegioGood): number | null {
+export function resolveBarcode(good: AltegioGood): number | null {
 	if (typeof good.barcode === 'string' && good.barcode.trim().length > 0) {
 		const parsed = Number.parseInt(good.barcode.trim(), 10);
 		if (Number.isInteger(parsed) && parsed >= 0 && parsed <= MAX_SAFE_INTEGER) {
@@ -195,12 +210,16 @@ function extractTargetCount(good: AltegioGood, consumablesId: number): number {
 
 /**
  * Builds batch insert payloads for missing product stock rows.
+ * `expiresAt` comes from the product shelf life; Altegio stock has no lot numbers.
+ * `unitCost` is the Altegio goods cost of the barcode.
  */
 function buildInsertPayload(
 	barcode: number,
 	description: string,
 	warehouseId: string,
 	count: number,
+	expiresAt: string | null,
+	unitCost: number | null,
 ): ProductStockInsert[] {
 	const inserts: ProductStockInsert[] = [];
 
@@ -216,6 +235,8 @@ function buildInsertPayload(
 			lastUsed: null,
 			lastUsedBy: null,
 			firstUsed: null,
+			expiresAt,
+			unitCost,
 		});
 	}
 
@@ -282,6 +303,176 @@ async function loadExistingCounts(
 	return new Map(rows.map((row) => [row.barcode, Number(row.count)]));
 }
 
+/**
+ * Counts the units of barcodes that exist in the warehouse but that Altegio did not return.
+ * Their Altegio count is zero, so reconciliation retires them like any other surplus.
+ */
+async function loadLocalOnlyCounts(
+	warehouseId: string,
+	altegioBarcodes: number[],
+): Promise<LocalOnlyRow[]> {
+	const conditions = [
+		eq(schema.productStock.currentWarehouse, warehouseId),
+		eq(schema.productStock.isDeleted, false),
+		eq(schema.productStock.isEmpty, false),
+	];
+	if (altegioBarcodes.length > 0) {
+		conditions.push(not(inArray(schema.productStock.barcode, altegioBarcodes)));
+	}
+
+	const rows = (await db
+		.select({
+			barcode: schema.productStock.barcode,
+			description: sql<string | null>`MAX(${schema.productStock.description})`,
+			count: sql<number>`COUNT(*)`,
+		})
+		.from(schema.productStock)
+		.where(and(...conditions))
+		.groupBy(schema.productStock.barcode)
+		.orderBy(asc(schema.productStock.barcode))) as LocalOnlyRow[];
+
+	return rows.map((row) => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * Conditions of a unit reconciliation may retire: still on the shelf of the warehouse, not in
+ * use, in transit, flagged as kit, assigned to an unreturned kit or part of an open withdraw
+ * order.
+ */
+function retirableUnitConditions(warehouseId: string): SQL[] {
+	const inOpenKit = db
+		.select({ id: schema.kitsDetails.id })
+		.from(schema.kitsDetails)
+		.where(
+			and(
+				eq(schema.kitsDetails.productId, schema.productStock.id),
+				eq(schema.kitsDetails.isReturned, false),
+			),
+		);
+
+	const inOpenWithdrawOrder = db
+		.select({ id: schema.withdrawOrderDetails.id })
+		.from(schema.withdrawOrderDetails)
+		.where(
+			and(
+				eq(schema.withdrawOrderDetails.productId, schema.productStock.id),
+				isNull(schema.withdrawOrderDetails.dateReturn),
+			),
+		);
+
+	return [
+		eq(schema.productStock.currentWarehouse, warehouseId),
+		eq(schema.productStock.isDeleted, false),
+		eq(schema.productStock.isEmpty, false),
+		eq(schema.productStock.isBeingUsed, false),
+		eq(schema.productStock.isInTransit, false),
+		eq(schema.productStock.isKit, false),
+		not(sql`EXISTS (${inOpenKit})`),
+		not(sql`EXISTS (${inOpenWithdrawOrder})`),
+	];
+}
+
+/**
+ * Loads units that reconciliation is allowed to retire for a barcode, best candidates first.
+ * Emptiest units (most uses) go first, then the oldest by first use. Only units matching
+ * `retirableUnitConditions()` are returned.
+ */
+async function loadRetirementCandidates(
+	warehouseId: string,
+	barcode: number,
+	limit: number,
+): Promise<RetirementCandidate[]> {
+	if (limit <= 0) {
+		return [];
+	}
+
+	return await db
+		.select({
+			id: schema.productStock.id,
+			barcode: schema.productStock.barcode,
+			description: schema.productStock.description,
+		})
+		.from(schema.productStock)
+		.where(
+			and(
+				eq(schema.productStock.barcode, barcode),
+				...retirableUnitConditions(warehouseId),
+			),
+		)
+		.orderBy(
+			desc(schema.productStock.numberOfUses),
+			sql`${schema.productStock.firstUsed} ASC NULLS LAST`,
+			asc(schema.productStock.id),
+		)
+		.limit(limit);
+}
+
+/**
+ * Soft-deletes surplus units and records a `sync_adjustment` shrinkage event for each one.
+ * The candidates are locked and re-checked inside the transaction, so a unit withdrawn,
+ * dispatched or added to a kit since the candidates were loaded is left alone.
+ *
+ * @returns Number of units actually retired
+ */
+async function retireSurplusUnits(
+	warehouseId: string,
+	candidates: RetirementCandidate[],
+	userId: string | undefined,
+): Promise<number> {
+	if (candidates.length === 0) {
+		return 0;
+	}
+
+	const candidateIds = candidates.map((candidate) => candidate.id);
+
+	return await db.transaction(async (tx) => {
+		await tx
+			.select({ id: schema.productStock.id })
+			.from(schema.productStock)
+			.where(inArray(schema.productStock.id, candidateIds))
+			.for('update');
+
+		const retired = await tx
+			.update(schema.productStock)
+			.set({ isDeleted: true })
+			.where(
+				and(
+					inArray(schema.productStock.id, candidateIds),
+					...retirableUnitConditions(warehouseId),
+				),
+			)
+			.returning({
+				id: schema.productStock.id,
+				barcode: schema.productStock.barcode,
+				description: schema.productStock.description,
+			});
+
+		if (retired.length === 0) {
+			return 0;
+		}
+
+		await tx
+			.insert(schema.inventoryShrinkageEvent)
+			.values(
+				retired.map((unit) => ({
+					source: 'sync_adjustment',
+					reason: 'otro',
+					quantity: 1,
+					notes: 'Excedente retirado por sincronización con Altegio',
+					warehouseId,
+					productStockId: unit.id,
+					productBarcode: unit.barcode,
+					productDescription: unit.description,
+					unitCost: shrinkageUnitCost(unit.id, unit.barcode),
+					createdByUserId: userId ?? null,
+				})),
+			)
+			.onConflictDoNothing();
+
+		return retired.length;
+	});
+}
+
 function mapWarehouse(record: WarehousesQueryResult): WarehouseRecord | null {
 	if (
 		!(record.altegioId && record.consumablesId) ||
@@ -303,7 +494,15 @@ function mapWarehouse(record: WarehousesQueryResult): WarehouseRecord | null {
 async function syncWarehouse(
 	warehouse: WarehouseRecord,
 	headers: HeadersInit,
-	dryRun: boolean,
+	{
+		dryRun,
+		reconcile,
+		userId,
+	}: {
+		dryRun: boolean;
+		reconcile: boolean;
+		userId: string | undefined;
+	},
 ): Promise<SyncWarehouseSummary> {
 	const goods = await fetchGoods(warehouse.altegioId, headers);
 
@@ -312,7 +511,7 @@ async function syncWarehouse(
 	let skippedInvalidUnits = 0;
 	const targetByBarcode = new Map<
 		number,
-		{ description: string; targetCount: number; products: number }
+		{ description: string; targetCount: number; products: number; unitCost: number | null }
 	>();
 
 	for (const good of goods) {
@@ -336,24 +535,62 @@ async function syncWarehouse(
 				description: good.title,
 				targetCount,
 				products: 1,
+				// Average purchase cost per unit in Altegio; zero means it was never set
+				unitCost:
+					Number.isFinite(good.unit_actual_cost) && good.unit_actual_cost > 0
+						? roundMoney(good.unit_actual_cost)
+						: null,
 			});
 		}
 	}
 
 	const barcodes = Array.from(targetByBarcode.keys());
 	const existingCounts = await loadExistingCounts(warehouse.id, barcodes);
+	const expiryByBarcode = dryRun ? new Map<number, string>() : await loadSyncExpiryDates(barcodes);
+	const catalogCostByBarcode = dryRun
+		? new Map<number, number>()
+		: await loadCatalogUnitCosts(barcodes);
+
+	// An empty goods list is more likely a misconfigured storage than an empty catalog,
+	// so local-only barcodes are only reconciled when Altegio returned something
+	if (reconcile && goods.length > 0) {
+		for (const row of await loadLocalOnlyCounts(warehouse.id, barcodes)) {
+			targetByBarcode.set(row.barcode, {
+				description: row.description ?? '',
+				targetCount: 0,
+				products: 0,
+				unitCost: null,
+			});
+			existingCounts.set(row.barcode, row.count);
+		}
+	}
 
 	let existingUnits = 0;
 	let plannedInserts = 0;
 	let insertedUnits = 0;
 	let overTargetExisting = 0;
+	let plannedRetirements = 0;
+	let retiredUnits = 0;
+	let blockedSurplus = 0;
 	const cappedProducts: SyncWarehouseSummary['cappedProducts'] = [];
+	const diff: SyncBarcodeDiff[] = [];
 
 	for (const [barcode, value] of targetByBarcode.entries()) {
 		const existing = existingCounts.get(barcode) ?? 0;
 		existingUnits += existing;
 
 		const difference = value.targetCount - existing;
+		const barcodeDiff: SyncBarcodeDiff = {
+			barcode,
+			description: value.description,
+			target: value.targetCount,
+			existing,
+			toInsert: 0,
+			inserted: 0,
+			toRetire: 0,
+			retired: 0,
+			blocked: 0,
+		};
 
 		if (difference > 0) {
 			const { allowedInsert, skipped, capped } = applyPerProductCap(
@@ -363,6 +600,7 @@ async function syncWarehouse(
 				difference,
 			);
 			plannedInserts += allowedInsert;
+			barcodeDiff.toInsert = allowedInsert;
 
 			if (capped && skipped > 0) {
 				skippedInvalidUnits += skipped;
@@ -379,6 +617,8 @@ async function syncWarehouse(
 					value.description,
 					warehouse.id,
 					allowedInsert,
+					expiryByBarcode.get(barcode) ?? null,
+					value.unitCost ?? catalogCostByBarcode.get(barcode) ?? null,
 				);
 
 				for (const chunk of chunkArray(payload, INSERT_CHUNK_SIZE)) {
@@ -388,10 +628,29 @@ async function syncWarehouse(
 						.values(chunk)
 						.returning({ id: schema.productStock.id });
 					insertedUnits += inserted.length;
+					barcodeDiff.inserted += inserted.length;
 				}
 			}
 		} else if (difference < 0) {
-			overTargetExisting += Math.abs(difference);
+			const surplus = Math.abs(difference);
+			overTargetExisting += surplus;
+
+			if (reconcile) {
+				const candidates = await loadRetirementCandidates(warehouse.id, barcode, surplus);
+				barcodeDiff.toRetire = candidates.length;
+				barcodeDiff.blocked = surplus - candidates.length;
+				plannedRetirements += candidates.length;
+				blockedSurplus += barcodeDiff.blocked;
+
+				if (!dryRun) {
+					barcodeDiff.retired = await retireSurplusUnits(warehouse.id, candidates, userId);
+					retiredUnits += barcodeDiff.retired;
+				}
+			}
+		}
+
+		if (difference !== 0) {
+			diff.push(barcodeDiff);
 		}
 	}
 
@@ -407,7 +666,11 @@ async function syncWarehouse(
 		inserted: dryRun ? 0 : insertedUnits,
 		skippedInvalid: skippedInvalidUnits,
 		overTargetExisting,
+		toRetire: plannedRetirements,
+		retired: dryRun ? 0 : retiredUnits,
+		blockedSurplus,
 		cappedProducts,
+		diff,
 	};
 }
 
@@ -421,6 +684,9 @@ function buildTotals(summaries: SyncWarehouseSummary[]) {
 			accumulator.inserted += summary.inserted;
 			accumulator.skippedInvalid += summary.skippedInvalid;
 			accumulator.overTargetExisting += summary.overTargetExisting;
+			accumulator.toRetire += summary.toRetire;
+			accumulator.retired += summary.retired;
+			accumulator.blockedSurplus += summary.blockedSurplus;
 			return accumulator;
 		},
 		{
@@ -432,6 +698,9 @@ function buildTotals(summaries: SyncWarehouseSummary[]) {
 			inserted: 0,
 			skippedInvalid: 0,
 			overTargetExisting: 0,
+			toRetire: 0,
+			retired: 0,
+			blockedSurplus: 0,
 		},
 	);
 }
@@ -442,7 +711,7 @@ function buildWarehouseWhereClause(warehouseId: string | undefined) {
 }
 
 export async function syncInventory(options: SyncOptions): Promise<SyncResult> {
-	const { warehouseId, dryRun = false } = options;
+	const { warehouseId, dryRun = false, reconcile = false, userId } = options;
 
 	const authHeader = process.env.AUTH_HEADER;
 	const acceptHeader = process.env.ACCEPT_HEADER;
@@ -489,7 +758,7 @@ export async function syncInventory(options: SyncOptions): Promise<SyncResult> {
 
 	for (const warehouse of warehouses) {
 		// biome-ignore lint: Warehouses are processed sequentially to limit API/DB pressure
-		const summary = await syncWarehouse(warehouse, headers, dryRun);
+		const summary = await syncWarehouse(warehouse, headers, { dryRun, reconcile, userId });
 		summaries.push(summary);
 	}
 
@@ -500,6 +769,7 @@ export async function syncInventory(options: SyncOptions): Promise<SyncResult> {
 		totals,
 		meta: {
 			dryRun,
+			reconcile,
 			fetchedAt: new Date().toISOString(),
 			pageSize: PAGE_SIZE,
 			insertChunkSize: INSERT_CHUNK_SIZE,
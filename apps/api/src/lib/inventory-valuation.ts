@@ -0,0 +1,171 @@
+import { and, eq, inArray, isNotNull, type SQL, sql } from 'drizzle-orm';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+
+/**
+ * Value of one product in a warehouse. Units are worth one each, so the average of their
+ * unit costs is the quantity-weighted average cost.
+ */
+export type ValuationItem = {
+	barcode: number;
+	description: string | null;
+	units: number;
+	costedUnits: number;
+	averageUnitCost: number | null;
+	totalValue: number;
+};
+
+export type WarehouseValuation = {
+	warehouseId: string;
+	warehouseName: string;
+	units: number;
+	uncostedUnits: number;
+	totalValue: number;
+	items: ValuationItem[];
+};
+
+/**
+ * Cost used for a unit: its own cost, or the catalog cost when the unit predates unit costs.
+ */
+const effectiveUnitCost = sql<
+	string | null
+>`COALESCE(${schemas.productStock.unitCost}, ${schemas.product.cost})`;
+
+/**
+ * Peso value of shrinkage events, for use in aggregates over `inventory_shrinkage_event`.
+ */
+export const shrinkageValueSql = sql<number>`COALESCE(SUM(${schemas.inventoryShrinkageEvent.quantity} * ${schemas.inventoryShrinkageEvent.unitCost}), 0)`;
+
+/**
+ * Rounds a peso amount to cents.
+ */
+export function roundMoney(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Unit cost snapshot for a shrinkage event insert: the unit's cost, else the catalog cost of
+ * the barcode. Evaluated by the insert so the event keeps the cost of the moment it happened.
+ */
+export function shrinkageUnitCost(productStockId: string | null | undefined, barcode: number): SQL {
+	const catalogCost = sql`(SELECT ${schemas.product.cost} FROM ${schemas.product} WHERE ${schemas.product.barcode} = ${barcode})`;
+	if (!productStockId) {
+		return catalogCost;
+	}
+	return sql`COALESCE((SELECT ${schemas.productStock.unitCost} FROM ${schemas.productStock} WHERE ${schemas.productStock.id} = ${productStockId}), ${catalogCost})`;
+}
+
+/**
+ * Unit cost of an Altegio arrival: the explicit unit cost, else the total spread over the
+ * amount. Returns null when the arrival carries no cost.
+ */
+export function resolveArrivalUnitCost(arrival?: {
+	amount: number;
+	totalCost?: number | undefined;
+	unitCost?: number | undefined;
+}): number | null {
+	if (!arrival) {
+		return null;
+	}
+	if (arrival.unitCost !== undefined) {
+		return roundMoney(arrival.unitCost);
+	}
+	if (arrival.totalCost !== undefined && arrival.amount > 0) {
+		return roundMoney(arrival.totalCost / arrival.amount);
+	}
+	return null;
+}
+
+/**
+ * Catalog cost (Altegio goods cost) per barcode, used when units are created without a
+ * cost of their own. Barcodes without cost are left out.
+ */
+export async function loadCatalogUnitCosts(barcodes: number[]): Promise<Map<number, number>> {
+	const costByBarcode = new Map<number, number>();
+	if (barcodes.length === 0) {
+		return costByBarcode;
+	}
+
+	const products = await db
+		.select({ barcode: schemas.product.barcode, cost: schemas.product.cost })
+		.from(schemas.product)
+		.where(and(inArray(schemas.product.barcode, barcodes), isNotNull(schemas.product.cost)));
+	for (const product of products) {
+		if (product.cost !== null) {
+			costByBarcode.set(product.barcode, product.cost);
+		}
+	}
+	return costByBarcode;
+}
+
+/**
+ * Values the units on hand (not deleted, not empty) per warehouse with the weighted-average
+ * cost of each barcode. Units without any cost are valued at the average of their barcode
+ * in the warehouse; barcodes with no cost at all count as zero and appear in `uncostedUnits`.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to value every warehouse
+ */
+export async function getInventoryValuation({
+	warehouseId,
+}: {
+	warehouseId?: string | undefined;
+}): Promise<WarehouseValuation[]> {
+	const rows = await db
+		.select({
+			warehouseId: schemas.productStock.currentWarehouse,
+			warehouseName: schemas.warehouse.name,
+			barcode: schemas.productStock.barcode,
+			description: sql<
+				string | null
+			>`COALESCE(MAX(${schemas.product.title}), MAX(${schemas.productStock.description}))`,
+			units: sql<number>`COUNT(*)::int`,
+			costedUnits: sql<number>`COUNT(${effectiveUnitCost})::int`,
+			averageUnitCost: sql<string | null>`AVG(${effectiveUnitCost})`,
+		})
+		.from(schemas.productStock)
+		.innerJoin(schemas.warehouse, eq(schemas.warehouse.id, schemas.productStock.currentWarehouse))
+		.leftJoin(schemas.product, eq(schemas.product.barcode, schemas.productStock.barcode))
+		.where(
+			and(
+				warehouseId ? eq(schemas.productStock.currentWarehouse, warehouseId) : undefined,
+				eq(schemas.productStock.isDeleted, false),
+				eq(schemas.productStock.isEmpty, false),
+			),
+		)
+		.groupBy(
+			schemas.productStock.currentWarehouse,
+			schemas.warehouse.name,
+			schemas.productStock.barcode,
+		)
+		.orderBy(schemas.warehouse.name, schemas.productStock.barcode);
+
+	const byWarehouse = new Map<string, WarehouseValuation>();
+	for (const row of rows) {
+		const averageUnitCost =
+			row.averageUnitCost === null ? null : roundMoney(Number(row.averageUnitCost));
+		const item: ValuationItem = {
+			barcode: row.barcode,
+			description: row.description,
+			units: Number(row.units),
+			costedUnits: Number(row.costedUnits),
+			averageUnitCost,
+			totalValue: roundMoney((averageUnitCost ?? 0) * Number(row.units)),
+		};
+
+		const valuation = byWarehouse.get(row.warehouseId) ?? {
+			warehouseId: row.warehouseId,
+			warehouseName: row.warehouseName,
+			units: 0,
+			uncostedUnits: 0,
+			totalValue: 0,
+			items: [],
+		};
+		valuation.units += item.units;
+		valuation.uncostedUnits += averageUnitCost === null ? item.units : 0;
+		valuation.totalValue = roundMoney(valuation.totalValue + item.totalValue);
+		valuation.items.push(item);
+		byWarehouse.set(row.warehouseId, valuation);
+	}
+	return Array.from(byWarehouse.values());
+}
@@ -0,0 +1,137 @@
+import { asc, desc, eq, type SQL, sql } from 'drizzle-orm';
+import type { PgColumn, PgSelect, PgTable } from 'drizzle-orm/pg-core';
+import { z } from 'zod';
+
+/**
+ * Largest page accepted by the cursor-paginated list endpoints.
+ */
+export const LIST_PAGE_MAX_LIMIT = 500;
+
+const listDateSchema = z
+	.string()
+	.refine((value) => !Number.isNaN(new Date(value).getTime()), 'Invalid date');
+
+/**
+ * Query params shared by the cursor-paginated list endpoints (`/product-stock/all`,
+ * `/product-stock/by-warehouse`, `/warehouse-transfers/all`, `/kits/all`).
+ *
+ * `limit` is optional: without it the endpoints keep returning every match, so clients that
+ * load the whole list are unaffected. `start` / `end` are inclusive ISO dates.
+ */
+export const listPaginationQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(LIST_PAGE_MAX_LIMIT).optional(),
+	cursor: z.string().optional(),
+	start: listDateSchema.optional(),
+	end: listDateSchema.optional(),
+});
+
+export type ListSortDirection = 'asc' | 'desc';
+
+/**
+ * Splits a `sort` query value into field and direction. A leading `-` means descending,
+ * e.g. `-createdAt`.
+ */
+export function parseListSort<T extends string>(
+	sort: T | `-${T}`,
+): { field: T; direction: ListSortDirection } {
+	if (sort.startsWith('-')) {
+		return { field: sort.slice(1) as T, direction: 'desc' };
+	}
+	return { field: sort as T, direction: 'asc' };
+}
+
+/**
+ * Encodes the cursor of a page: the id of its last row plus the sort it was read with.
+ */
+function encodeListCursor(payload: { id: string; sort: string }): string {
+	return Buffer.from(JSON.stringify(payload)).toString('base64');
+}
+
+/**
+ * Decodes a list cursor. Returns null when it is malformed or was issued for another sort.
+ */
+export function decodeListCursor(cursor: string, sort: string): string | null {
+	try {
+		const decoded = Buffer.from(cursor, 'base64').toString('utf8');
+		const parsed = JSON.parse(decoded) as { id?: string; sort?: string };
+		if (!parsed.id || parsed.sort !== sort) {
+			return null;
+		}
+		return parsed.id;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Parses the `start` / `end` params validated by `listPaginationQuerySchema`.
+ *
+ * @returns The range, or null when `start` is after `end`
+ */
+export function parseListDateRange(query: {
+	start?: string | undefined;
+	end?: string | undefined;
+}): { start: Date | undefined; end: Date | undefined } | null {
+	const start = query.start ? new Date(query.start) : undefined;
+	const end = query.end ? new Date(query.end) : undefined;
+	if (start && end && start.getTime() > end.getTime()) {
+		return null;
+	}
+	return { start, end };
+}
+
+/**
+ * Builds the keyset condition for the page after `cursorId`, ordered by the sort column and
+ * then by id. The sort values of the cursor row are read from the table itself, so timestamps
+ * keep their full precision and the cursor stays opaque.
+ */
+export function listCursorCondition(args: {
+	table: PgTable;
+	idColumn: PgColumn;
+	sortColumn: PgColumn;
+	direction: ListSortDirection;
+	cursorId: string;
+}): SQL {
+	const { table, idColumn, sortColumn, direction, cursorId } = args;
+	const operator = direction === 'asc' ? sql.raw('>') : sql.raw('<');
+	return sql`(${sortColumn}, ${idColumn}) ${operator} (select ${sortColumn}, ${idColumn} from ${table} where ${eq(idColumn, cursorId)})`;
+}
+
+/**
+ * Order by clause matching `listCursorCondition`.
+ */
+export function listOrderBy(
+	sortColumn: PgColumn,
+	idColumn: PgColumn,
+	direction: ListSortDirection,
+): SQL[] {
+	const order = direction === 'asc' ? asc : desc;
+	return [order(sortColumn), order(idColumn)];
+}
+
+/**
+ * Applies the page limit to a dynamic select, fetching one extra row to detect the next page.
+ * Without a limit the query is left untouched.
+ */
+export function withListLimit<T extends PgSelect>(query: T, limit: number | undefined): T {
+	return limit === undefined ? query : query.limit(limit + 1);
+}
+
+/**
+ * Trims the extra row fetched by `withListLimit` and builds the cursor of the next page.
+ */
+export function toListPage<T>(
+	rows: T[],
+	args: { limit: number | undefined; sort: string; getId: (row: T) => string },
+): { items: T[]; nextCursor: string | null } {
+	const { limit, sort, getId } = args;
+	if (limit === undefined || rows.length <= limit) {
+		return { items: rows, nextCursor: null };
+	}
+	const items = rows.slice(0, limit);
+	const lastRow = items.at(-1);
+	return {
+		items,
+		nextCursor: lastRow ? encodeListCursor({ id: getId(lastRow), sort }) : null,
+	};
+}
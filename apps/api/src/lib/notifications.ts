@@ -0,0 +1,842 @@
+import { and, count, desc, eq, gte, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type {
+	NotificationListQuery,
+	NotificationRuleCreate,
+	NotificationRuleType,
+	NotificationRuleUpdate,
+} from '../types';
+import { cronMatches, getZonedDateParts, parseCronExpression, startMinuteTicker } from './cron';
+import { type EmailMessage, getEmailTransport } from './email-transport';
+import type { SessionUser } from './replenishment-orders';
+import { resolveWarehouseScope, type WarehouseScope } from './warehouse-scope';
+
+type NotificationRuleRow = typeof schemas.notificationRule.$inferSelect;
+type NotificationRow = typeof schemas.notification.$inferSelect;
+
+export type NotificationInbox = {
+	items: NotificationRow[];
+	unreadCount: number;
+};
+
+export type NotificationEvaluationSummary = {
+	rulesEvaluated: number;
+	notificationsCreated: number;
+	emailsSent: number;
+	emailsFailed: number;
+};
+
+export type NotificationDigestSummary = {
+	digestsSent: number;
+	digestsFailed: number;
+	notificationsIncluded: number;
+};
+
+/**
+ * A condition that currently holds in one warehouse. `dedupeKey` is unique per condition
+ * occurrence, so it is stored once per recipient no matter how often the rules run.
+ */
+type NotificationCondition = {
+	warehouseId: string;
+	dedupeKey: string;
+	title: string;
+	body: string;
+	link: string | null;
+};
+
+type Recipient = {
+	id: string;
+	email: string;
+	role: string;
+	warehouseId: string | null;
+	scope: WarehouseScope | null;
+};
+
+// Defaults used when a rule has no threshold
+const DEFAULT_PENDING_HOURS = 24;
+const DEFAULT_SHRINKAGE_SPIKE_UNITS = 10;
+const SHRINKAGE_SPIKE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_NOTIFICATIONS_CRON = '*/15 * * * *';
+const DEFAULT_DIGEST_CRON = '0 8 * * *';
+const MAX_LISTED_BARCODES = 10;
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+/**
+ * Calendar day (yyyy-MM-dd) of `now` in the warehouse time zone. Daily conditions use it in
+ * their dedupe key so they are raised again the next day while they still hold.
+ */
+function zonedDayKey(now: Date, timeZone: string | null): string {
+	return getZonedDateParts(now, timeZone).minuteKey.slice(0, 10);
+}
+
+function hoursAgo(now: Date, hours: number): Date {
+	return new Date(now.getTime() - hours * 60 * 60 * 1000);
+}
+
+export async function listNotificationRules(): Promise<NotificationRuleRow[]> {
+	return await db
+		.select()
+		.from(schemas.notificationRule)
+		.orderBy(desc(schemas.notificationRule.createdAt));
+}
+
+async function assertWarehouseExists(warehouseId: string | null | undefined) {
+	if (!warehouseId) {
+		return;
+	}
+	const rows = await db
+		.select({ id: schemas.warehouse.id })
+		.from(schemas.warehouse)
+		.where(eq(schemas.warehouse.id, warehouseId))
+		.limit(1);
+	if (rows.length === 0) {
+		throw new HTTPException(404, { message: 'Warehouse not found' });
+	}
+}
+
+export async function createNotificationRule(
+	input: NotificationRuleCreate,
+	user: SessionUser | null | undefined,
+): Promise<NotificationRuleRow> {
+	assertAuthenticated(user);
+	await assertWarehouseExists(input.warehouseId);
+
+	const [rule] = await db
+		.insert(schemas.notificationRule)
+		.values({
+			type: input.type,
+			warehouseId: input.warehouseId,
+			role: input.role,
+			threshold: input.threshold ?? null,
+			sendEmail: input.sendEmail,
+			deliveryMode: input.deliveryMode,
+			isActive: input.isActive,
+			createdByUserId: user.id,
+		})
+		.returning();
+	return rule;
+}
+
+export async function updateNotificationRule(
+	id: string,
+	input: NotificationRuleUpdate,
+): Promise<NotificationRuleRow> {
+	await assertWarehouseExists(input.warehouseId);
+
+	const [rule] = await db
+		.update(schemas.notificationRule)
+		.set({
+			...(input.warehouseId !== undefined && { warehouseId: input.warehouseId }),
+			...(input.role !== undefined && { role: input.role }),
+			...(input.threshold !== undefined && { threshold: input.threshold }),
+			...(input.sendEmail !== undefined && { sendEmail: input.sendEmail }),
+			...(input.deliveryMode !== undefined && { deliveryMode: input.deliveryMode }),
+			...(input.isActive !== undefined && { isActive: input.isActive }),
+			updatedAt: new Date(),
+		})
+		.where(eq(schemas.notificationRule.id, id))
+		.returning();
+	if (!rule) {
+		throw new HTTPException(404, { message: 'Notification rule not found' });
+	}
+	return rule;
+}
+
+export async function deleteNotificationRule(id: string): Promise<void> {
+	const deleted = await db
+		.delete(schemas.notificationRule)
+		.where(eq(schemas.notificationRule.id, id))
+		.returning({ id: schemas.notificationRule.id });
+	if (deleted.length === 0) {
+		throw new HTTPException(404, { message: 'Notification rule not found' });
+	}
+}
+
+/**
+ * Lists the inbox of the session user, newest first, with the number of unread entries.
+ */
+export async function listNotifications(
+	user: SessionUser | null | undefined,
+	query: NotificationListQuery,
+): Promise<NotificationInbox> {
+	assertAuthenticated(user);
+
+	const ownNotification = eq(schemas.notification.userId, user.id);
+	const items = await db
+		.select()
+		.from(schemas.notification)
+		.where(
+			and(ownNotification, query.unreadOnly ? isNull(schemas.notification.readAt) : undefined),
+		)
+		.orderBy(desc(schemas.notification.createdAt), desc(schemas.notification.id))
+		.limit(query.limit);
+
+	const [unread] = await db
+		.select({ total: count() })
+		.from(schemas.notification)
+		.where(and(ownNotification, isNull(schemas.notification.readAt)));
+
+	return { items, unreadCount: Number(unread?.total ?? 0) };
+}
+
+/**
+ * Marks one notification of the session user as read. Reading it again keeps the first read time.
+ */
+export async function markNotificationRead(
+	id: string,
+	user: SessionUser | null | undefined,
+): Promise<NotificationRow> {
+	assertAuthenticated(user);
+
+	const [existing] = await db
+		.select()
+		.from(schemas.notification)
+		.where(and(eq(schemas.notification.id, id), eq(schemas.notification.userId, user.id)))
+		.limit(1);
+	if (!existing) {
+		throw new HTTPException(404, { message: 'Notification not found' });
+	}
+	if (existing.readAt) {
+		return existing;
+	}
+
+	const [updated] = await db
+		.update(schemas.notification)
+		.set({ readAt: new Date() })
+		.where(eq(schemas.notification.id, id))
+		.returning();
+	return updated;
+}
+
+/**
+ * Marks every unread notification of the session user as read.
+ *
+ * @returns Number of notifications marked
+ */
+export async function markAllNotificationsRead(
+	user: SessionUser | null | undefined,
+): Promise<number> {
+	assertAuthenticated(user);
+
+	const updated = await db
+		.update(schemas.notification)
+		.set({ readAt: new Date() })
+		.where(and(eq(schemas.notification.userId, user.id), isNull(schemas.notification.readAt)))
+		.returning({ id: schemas.notification.id });
+	return updated.length;
+}
+
+/**
+ * Barcodes whose units on hand (outside cabinets, not deleted, not empty) are below the
+ * `minQuantity` of their quantity limit. One notification per warehouse and day lists them.
+ */
+async function collectLowStock(
+	warehouseIds: string[] | null,
+	now: Date,
+): Promise<NotificationCondition[]> {
+	const onHand = sql<number>`(
+		select count(*)::int from ${schemas.productStock}
+		where ${schemas.productStock.currentWarehouse} = ${schemas.stockLimit.warehouseId}
+			and ${schemas.productStock.barcode} = ${schemas.stockLimit.barcode}
+			and ${schemas.productStock.isDeleted} = false
+			and ${schemas.productStock.isEmpty} = false
+			and ${schemas.productStock.currentCabinet} is null
+	)`;
+
+	const rows = await db
+		.select({
+			warehouseId: schemas.stockLimit.warehouseId,
+			warehouseName: schemas.warehouse.name,
+			timeZone: schemas.warehouse.timeZone,
+			barcode: schemas.stockLimit.barcode,
+			minQuantity: schemas.stockLimit.minQuantity,
+			onHand,
+		})
+		.from(schemas.stockLimit)
+		.innerJoin(schemas.warehouse, eq(schemas.warehouse.id, schemas.stockLimit.warehouseId))
+		.where(
+			and(
+				eq(schemas.stockLimit.limitType, 'quantity'),
+				eq(schemas.warehouse.isActive, true),
+				warehouseIds ? inArray(schemas.stockLimit.warehouseId, warehouseIds) : undefined,
+				sql`${onHand} < ${schemas.stockLimit.minQuantity}`,
+			),
+		)
+		.orderBy(schemas.stockLimit.warehouseId, schemas.stockLimit.barcode);
+
+	const byWarehouse = new Map<string, typeof rows>();
+	for (const row of rows) {
+		const group = byWarehouse.get(row.warehouseId) ?? [];
+		group.push(row);
+		byWarehouse.set(row.warehouseId, group);
+	}
+
+	return [...byWarehouse.entries()].map(([warehouseId, group]) => {
+		const [first] = group;
+		const listed = group
+			.slice(0, MAX_LISTED_BARCODES)
+			.map((row) => `${row.barcode} (${Number(row.onHand)}/${row.minQuantity})`);
+		const remaining = group.length - listed.length;
+		return {
+			warehouseId,
+			dedupeKey: `low_stock:${warehouseId}:${zonedDayKey(now, first.timeZone)}`,
+			title: `Stock bajo en ${first.warehouseName}`,
+			body: `${group.length} producto(s) por debajo del mínimo: ${listed.join(', ')}${
+				remaining > 0 ? ` y ${remaining} más` : ''
+			}`,
+			link: '/dashboard',
+		};
+	});
+}
+
+/**
+ * Transfers that are neither completed nor cancelled `threshold` hours after their transfer
+ * date. They are reported to the destination warehouse, once per transfer.
+ */
+async function collectPendingTransfers(
+	warehouseIds: string[] | null,
+	thresholdHours: number,
+	now: Date,
+): Promise<NotificationCondition[]> {
+	const rows = await db
+		.select({
+			id: schemas.warehouseTransfer.id,
+			transferNumber: schemas.warehouseTransfer.transferNumber,
+			transferDate: schemas.warehouseTransfer.transferDate,
+			destinationWarehouseId: schemas.warehouseTransfer.destinationWarehouseId,
+			totalItems: schemas.warehouseTransfer.totalItems,
+		})
+		.from(schemas.warehouseTransfer)
+		.where(
+			and(
+				eq(schemas.warehouseTransfer.isCompleted, false),
+				eq(schemas.warehouseTransfer.isCancelled, false),
+				lt(schemas.warehouseTransfer.transferDate, hoursAgo(now, thresholdHours)),
+				warehouseIds
+					? inArray(schemas.warehouseTransfer.destinationWarehouseId, warehouseIds)
+					: undefined,
+			),
+		)
+		.orderBy(schemas.warehouseTransfer.transferDate);
+
+	return rows.map((row) => ({
+		warehouseId: row.destinationWarehouseId,
+		dedupeKey: `transfer_pending:${row.id}`,
+		title: `Traspaso ${row.transferNumber} pendiente`,
+		body: `El traspaso de ${row.totalItems} artículo(s) lleva más de ${thresholdHours} h sin completarse (enviado ${row.transferDate.toISOString().slice(0, 10)}).`,
+		link: `/recepciones/${row.id}`,
+	}));
+}
+
+/**
+ * Withdraw orders still open `threshold` hours after their withdraw date, reported to the
+ * warehouse of the employee who has the units, once per order.
+ */
+async function collectOverdueWithdrawOrders(
+	warehouseIds: string[] | null,
+	thresholdHours: number,
+	now: Date,
+): Promise<NotificationCondition[]> {
+	const rows = await db
+		.select({
+			id: schemas.withdrawOrder.id,
+			dateWithdraw: schemas.withdrawOrder.dateWithdraw,
+			numItems: schemas.withdrawOrder.numItems,
+			warehouseId: schemas.employee.warehouseId,
+			employeeName: schemas.employee.name,
+			employeeSurname: schemas.employee.surname,
+		})
+		.from(schemas.withdrawOrder)
+		.innerJoin(schemas.employee, eq(schemas.employee.id, schemas.withdrawOrder.userId))
+		.where(
+			and(
+				or(
+					eq(schemas.withdrawOrder.isComplete, false),
+					isNull(schemas.withdrawOrder.isComplete),
+				),
+				lt(
+					schemas.withdrawOrder.dateWithdraw,
+					hoursAgo(now, thresholdHours).toISOString().slice(0, 10),
+				),
+				warehouseIds ? inArray(schemas.employee.warehouseId, warehouseIds) : undefined,
+			),
+		)
+		.orderBy(schemas.withdrawOrder.dateWithdraw);
+
+	return rows.map((row) => ({
+		warehouseId: row.warehouseId,
+		dedupeKey: `withdraw_overdue:${row.id}`,
+		title: `Retiro vencido de ${row.employeeName} ${row.employeeSurname}`,
+		body: `${row.numItems} artículo(s) retirados el ${row.dateWithdraw} siguen sin devolverse después de ${thresholdHours} h.`,
+		link: '/dashboard',
+	}));
+}
+
+/**
+ * Warehouses whose written-off units in the last 24 hours reach `threshold`, once per
+ * warehouse and day.
+ */
+async function collectShrinkageSpikes(
+	warehouseIds: string[] | null,
+	thresholdUnits: number,
+	now: Date,
+): Promise<NotificationCondition[]> {
+	const total = sql<number>`coalesce(sum(${schemas.inventoryShrinkageEvent.quantity}), 0)::int`;
+	const rows = await db
+		.select({
+			warehouseId: schemas.inventoryShrinkageEvent.warehouseId,
+			warehouseName: schemas.warehouse.name,
+			timeZone: schemas.warehouse.timeZone,
+			total,
+		})
+		.from(schemas.inventoryShrinkageEvent)
+		.innerJoin(
+			schemas.warehouse,
+			eq(schemas.warehouse.id, schemas.inventoryShrinkageEvent.warehouseId),
+		)
+		.where(
+			and(
+				gte(
+					schemas.inventoryShrinkageEvent.createdAt,
+					new Date(now.getTime() - SHRINKAGE_SPIKE_WINDOW_MS),
+				),
+				warehouseIds
+					? inArray(schemas.inventoryShrinkageEvent.warehouseId, warehouseIds)
+					: undefined,
+			),
+		)
+		.groupBy(
+			schemas.inventoryShrinkageEvent.warehouseId,
+			schemas.warehouse.name,
+			schemas.warehouse.timeZone,
+		)
+		.having(gte(total, thresholdUnits));
+
+	return rows.map((row) => ({
+		warehouseId: row.warehouseId,
+		dedupeKey: `shrinkage_spike:${row.warehouseId}:${zonedDayKey(now, row.timeZone)}`,
+		title: `Pico de merma en ${row.warehouseName}`,
+		body: `${Number(row.total)} unidad(es) dadas de baja en las últimas 24 h (umbral ${thresholdUnits}).`,
+		link: '/estadisticas',
+	}));
+}
+
+async function collectConditions(
+	type: NotificationRuleType,
+	warehouseIds: string[] | null,
+	threshold: number | null,
+	now: Date,
+): Promise<NotificationCondition[]> {
+	switch (type) {
+		case 'low_stock':
+			return await collectLowStock(warehouseIds, now);
+		case 'transfer_pending':
+			return await collectPendingTransfers(
+				warehouseIds,
+				threshold ?? DEFAULT_PENDING_HOURS,
+				now,
+			);
+		case 'withdraw_overdue':
+			return await collectOverdueWithdrawOrders(
+				warehouseIds,
+				threshold ?? DEFAULT_PENDING_HOURS,
+				now,
+			);
+		case 'shrinkage_spike':
+			return await collectShrinkageSpikes(
+				warehouseIds,
+				threshold ?? DEFAULT_SHRINKAGE_SPIKE_UNITS,
+				now,
+			);
+		default:
+			return [];
+	}
+}
+
+function coversWarehouse(scope: WarehouseScope | null, warehouseId: string): boolean {
+	if (!scope) {
+		return false;
+	}
+	return scope.global || scope.warehouseId === warehouseId;
+}
+
+/**
+ * Loads the users of the given roles with their warehouse scope, resolved once per run.
+ */
+async function loadRecipients(roles: string[]): Promise<Map<string, Recipient[]>> {
+	const byRole = new Map<string, Recipient[]>();
+	if (roles.length === 0) {
+		return byRole;
+	}
+
+	const users = await db
+		.select({
+			id: schemas.user.id,
+			email: schemas.user.email,
+			role: schemas.user.role,
+			warehouseId: schemas.user.warehouseId,
+		})
+		.from(schemas.user)
+		.where(inArray(schemas.user.role, roles));
+
+	for (const candidate of users) {
+		// biome-ignore lint: Scopes are resolved one user at a time
+		const scope = await resolveWarehouseScope(candidate);
+		const group = byRole.get(candidate.role) ?? [];
+		group.push({ ...candidate, scope });
+		byRole.set(candidate.role, group);
+	}
+	return byRole;
+}
+
+function formatEmailLines(notifications: Pick<NotificationRow, 'title' | 'body'>[]): string {
+	return notifications.map((item) => `- ${item.title}\n  ${item.body}`).join('\n\n');
+}
+
+/**
+ * Sends one email per user with their new immediate notifications and records the outcome
+ * on each notification (`sent` or `failed`).
+ */
+async function deliverImmediateEmails(
+	created: NotificationRow[],
+	emailByUser: Map<string, string>,
+): Promise<{ sent: number; failed: number }> {
+	const transport = getEmailTransport();
+	const pending = created.filter((item) => item.emailStatus === 'pending');
+	const result = { sent: 0, failed: 0 };
+	if (!transport || pending.length === 0) {
+		return result;
+	}
+
+	const byUser = new Map<string, NotificationRow[]>();
+	for (const item of pending) {
+		const group = byUser.get(item.userId) ?? [];
+		group.push(item);
+		byUser.set(item.userId, group);
+	}
+
+	for (const [userId, items] of byUser) {
+		const email = emailByUser.get(userId);
+		const message: EmailMessage = {
+			to: email ? [email] : [],
+			subject:
+				items.length === 1 ? items[0].title : `${items.length} nuevas alertas de inventario`,
+			text: formatEmailLines(items),
+		};
+
+		let status: 'sent' | 'failed' = 'sent';
+		try {
+			// biome-ignore lint: Emails are sent one user at a time
+			await transport.send(message);
+			result.sent += 1;
+		} catch (error) {
+			status = 'failed';
+			result.failed += 1;
+			// biome-ignore lint/suspicious/noConsole: Email delivery failures must be visible in logs
+			console.error('Notification email failed', {
+				userId,
+				error: error instanceof Error ? error.message : error,
+			});
+		}
+
+		await db
+			.update(schemas.notification)
+			.set({ emailStatus: status, ...(status === 'sent' && { emailedAt: new Date() }) })
+			.where(
+				inArray(
+					schemas.notification.id,
+					items.map((item) => item.id),
+				),
+			);
+	}
+	return result;
+}
+
+/**
+ * Writes a one-off notification, not tied to a rule, to the users assigned to a warehouse and
+ * emails it right away when email is enabled. Users who already have `dedupeKey` are skipped.
+ *
+ * @returns Number of notifications created
+ */
+export async function notifyWarehouseUsers(
+	warehouseId: string,
+	message: Pick<NotificationCondition, 'dedupeKey' | 'title' | 'body' | 'link'> & {
+		type: string;
+	},
+	now: Date = new Date(),
+): Promise<number> {
+	const users = await db
+		.select({ id: schemas.user.id, email: schemas.user.email })
+		.from(schemas.user)
+		.where(eq(schemas.user.warehouseId, warehouseId));
+	if (users.length === 0) {
+		return 0;
+	}
+
+	const emailStatus = getEmailTransport() === null ? 'none' : 'pending';
+	const created = await db
+		.insert(schemas.notification)
+		.values(
+			users.map((recipient) => ({
+				userId: recipient.id,
+				type: message.type,
+				warehouseId,
+				title: message.title,
+				body: message.body,
+				link: message.link,
+				dedupeKey: message.dedupeKey,
+				emailStatus,
+				createdAt: now,
+			})),
+		)
+		.onConflictDoNothing({
+			target: [schemas.notification.userId, schemas.notification.dedupeKey],
+		})
+		.returning();
+	await deliverImmediateEmails(
+		created,
+		new Map(users.map((recipient) => [recipient.id, recipient.email])),
+	);
+	return created.length;
+}
+
+/**
+ * Evaluates every active notification rule (or the given rules) and writes one inbox entry
+ * per recipient and condition. Recipients are the users with the rule's role whose warehouse
+ * scope covers the warehouse of the condition. Conditions already notified to a user are
+ * skipped through the (user, dedupe key) unique index, so the evaluation can run as often
+ * as needed. Immediate rules with email send it right away; digest rules leave it for
+ * `sendNotificationDigests`.
+ */
+export async function evaluateNotificationRules(
+	now: Date = new Date(),
+	ruleIds?: string[],
+): Promise<NotificationEvaluationSummary> {
+	const rules = await db
+		.select()
+		.from(schemas.notificationRule)
+		.where(
+			and(
+				eq(schemas.notificationRule.isActive, true),
+				ruleIds ? inArray(schemas.notificationRule.id, ruleIds) : undefined,
+			),
+		)
+		.orderBy(schemas.notificationRule.createdAt);
+
+	const summary: NotificationEvaluationSummary = {
+		rulesEvaluated: rules.length,
+		notificationsCreated: 0,
+		emailsSent: 0,
+		emailsFailed: 0,
+	};
+	if (rules.length === 0) {
+		return summary;
+	}
+
+	const recipientsByRole = await loadRecipients([...new Set(rules.map((rule) => rule.role))]);
+	const emailEnabled = getEmailTransport() !== null;
+	const created: NotificationRow[] = [];
+
+	for (const rule of rules) {
+		// biome-ignore lint: Rules are evaluated sequentially to limit DB pressure
+		const conditions = await collectConditions(
+			rule.type as NotificationRuleType,
+			rule.warehouseId ? [rule.warehouseId] : null,
+			rule.threshold,
+			now,
+		);
+		const recipients = recipientsByRole.get(rule.role) ?? [];
+
+		let emailStatus = 'none';
+		if (rule.sendEmail && emailEnabled) {
+			emailStatus = rule.deliveryMode === 'digest' ? 'digest' : 'pending';
+		}
+
+		const values = conditions.flatMap((condition) =>
+			recipients
+				.filter((recipient) => coversWarehouse(recipient.scope, condition.warehouseId))
+				.map((recipient) => ({
+					userId: recipient.id,
+					ruleId: rule.id,
+					type: rule.type,
+					warehouseId: condition.warehouseId,
+					title: condition.title,
+					body: condition.body,
+					link: condition.link,
+					dedupeKey: condition.dedupeKey,
+					emailStatus,
+					createdAt: now,
+				})),
+		);
+		if (values.length === 0) {
+			continue;
+		}
+
+		const inserted = await db
+			.insert(schemas.notification)
+			.values(values)
+			.onConflictDoNothing({
+				target: [schemas.notification.userId, schemas.notification.dedupeKey],
+			})
+			.returning();
+		created.push(...inserted);
+	}
+
+	summary.notificationsCreated = created.length;
+	const emailByUser = new Map(
+		[...recipientsByRole.values()].flat().map((recipient) => [recipient.id, recipient.email]),
+	);
+	const delivered = await deliverImmediateEmails(created, emailByUser);
+	summary.emailsSent = delivered.sent;
+	summary.emailsFailed = delivered.failed;
+	return summary;
+}
+
+/**
+ * Sends each user one summary email with their notifications waiting for the digest
+ * (`emailStatus = 'digest'`), then marks them `sent` (or `failed`).
+ *
+ * @param userIds Limits the digest to these users; all users with pending digests otherwise
+ */
+export async function sendNotificationDigests(
+	userIds?: string[],
+): Promise<NotificationDigestSummary> {
+	const summary: NotificationDigestSummary = {
+		digestsSent: 0,
+		digestsFailed: 0,
+		notificationsIncluded: 0,
+	};
+	const transport = getEmailTransport();
+	if (!transport || userIds?.length === 0) {
+		return summary;
+	}
+
+	const pending = await db
+		.select({
+			id: schemas.notification.id,
+			userId: schemas.notification.userId,
+			title: schemas.notification.title,
+			body: schemas.notification.body,
+			email: schemas.user.email,
+		})
+		.from(schemas.notification)
+		.innerJoin(schemas.user, eq(schemas.user.id, schemas.notification.userId))
+		.where(
+			and(
+				eq(schemas.notification.emailStatus, 'digest'),
+				userIds ? inArray(schemas.notification.userId, userIds) : undefined,
+			),
+		)
+		.orderBy(schemas.notification.createdAt);
+
+	const byUser = new Map<string, typeof pending>();
+	for (const item of pending) {
+		const group = byUser.get(item.userId) ?? [];
+		group.push(item);
+		byUser.set(item.userId, group);
+	}
+
+	for (const [userId, items] of byUser) {
+		let status: 'sent' | 'failed' = 'sent';
+		try {
+			// biome-ignore lint: Digests are sent one user at a time
+			await transport.send({
+				to: [items[0].email],
+				subject: `Resumen diario de inventario (${items.length} alerta(s))`,
+				text: `Alertas desde el último resumen:\n\n${formatEmailLines(items)}`,
+			});
+			summary.digestsSent += 1;
+			summary.notificationsIncluded += items.length;
+		} catch (error) {
+			status = 'failed';
+			summary.digestsFailed += 1;
+			// biome-ignore lint/suspicious/noConsole: Digest delivery failures must be visible in logs
+			console.error('Notification digest failed', {
+				userId,
+				error: error instanceof Error ? error.message : error,
+			});
+		}
+
+		await db
+			.update(schemas.notification)
+			.set({ emailStatus: status, ...(status === 'sent' && { emailedAt: new Date() }) })
+			.where(
+				and(
+					inArray(
+						schemas.notification.id,
+						items.map((item) => item.id),
+					),
+					eq(schemas.notification.emailStatus, 'digest'),
+				),
+			);
+	}
+	return summary;
+}
+
+/**
+ * Starts the notification schedulers:
+ * - rule evaluation whenever NOTIFICATIONS_CRON matches (UTC)
+ * - digests whenever NOTIFICATION_DIGEST_CRON matches in the time zone of each user's
+ *   warehouse (UTC for users without a warehouse)
+ *
+ * Env:
+ * - NOTIFICATIONS_CRON: five-field cron expression (default `*\/15 * * * *`); `off` disables it
+ * - NOTIFICATION_DIGEST_CRON: five-field cron expression (default `0 8 * * *`); `off` disables it
+ *
+ * @returns Function that stops the schedulers, or null when both are disabled
+ */
+export function startNotificationScheduler(): (() => void) | null {
+	const evaluationExpression = process.env.NOTIFICATIONS_CRON ?? DEFAULT_NOTIFICATIONS_CRON;
+	const digestExpression = process.env.NOTIFICATION_DIGEST_CRON ?? DEFAULT_DIGEST_CRON;
+	const isOff = (expression: string) => expression.trim().toLowerCase() === 'off';
+	if (isOff(evaluationExpression) && isOff(digestExpression)) {
+		return null;
+	}
+
+	const evaluationSchedule = isOff(evaluationExpression)
+		? null
+		: parseCronExpression(evaluationExpression);
+	const digestSchedule = isOff(digestExpression) ? null : parseCronExpression(digestExpression);
+
+	return startMinuteTicker(async (now) => {
+		if (evaluationSchedule && cronMatches(evaluationSchedule, getZonedDateParts(now))) {
+			try {
+				await evaluateNotificationRules(now);
+			} catch (error) {
+				// biome-ignore lint/suspicious/noConsole: Scheduled evaluation failures must be visible in logs
+				console.error('Scheduled notification evaluation failed', {
+					error: error instanceof Error ? error.message : error,
+				});
+			}
+		}
+
+		if (!digestSchedule) {
+			return;
+		}
+
+		const digestUsers = await db
+			.selectDistinct({
+				userId: schemas.notification.userId,
+				timeZone: schemas.warehouse.timeZone,
+			})
+			.from(schemas.notification)
+			.innerJoin(schemas.user, eq(schemas.user.id, schemas.notification.userId))
+			.leftJoin(schemas.warehouse, eq(schemas.warehouse.id, schemas.user.warehouseId))
+			.where(eq(schemas.notification.emailStatus, 'digest'));
+
+		const dueUserIds = digestUsers
+			.filter((row) => cronMatches(digestSchedule, getZonedDateParts(now, row.timeZone)))
+			.map((row) => row.userId);
+		if (dueUserIds.length > 0) {
+			await sendNotificationDigests(dueUserIds);
+		}
+	});
+}
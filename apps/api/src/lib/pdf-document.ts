@@ -0,0 +1,231 @@
+import type { QrCode } from './qr-code';
+
+/** RGB color with components from 0 to 1 */
+export type PdfColor = readonly [number, number, number];
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfTextOptions = {
+	size?: number;
+	font?: PdfFont;
+	color?: PdfColor;
+};
+
+/** A4 in points */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+const BLACK: PdfColor = [0, 0, 0];
+
+// Standard 14 fonts need no embedding; WinAnsi covers the Spanish accents
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+	regular: { name: 'F1', baseFont: 'Helvetica' },
+	bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Average Helvetica glyph width as a fraction of the font size, used to truncate text
+const AVERAGE_GLYPH_WIDTH: Record<PdfFont, number> = { regular: 0.56, bold: 0.6 };
+
+function formatNumber(value: number): string {
+	return Number(value.toFixed(2)).toString();
+}
+
+function formatColor(color: PdfColor): string {
+	return color.map(formatNumber).join(' ');
+}
+
+// WinAnsi glyphs outside Latin-1 that show up in the documents
+const WIN_ANSI_EXTRAS: Record<string, string> = {
+	'€': '\x80',
+	'…': '\x85',
+	'‘': '\x91',
+	'’': '\x92',
+	'“': '\x93',
+	'”': '\x94',
+	'•': '\x95',
+	'–': '\x96',
+	'—': '\x97',
+};
+
+/**
+ * Escapes a string for a PDF literal in WinAnsi. Characters without a WinAnsi glyph become
+ * `?`.
+ */
+function encodeText(value: string): string {
+	let result = '';
+	for (const character of value) {
+		const code = character.codePointAt(0) ?? 63;
+		if (WIN_ANSI_EXTRAS[character]) {
+			result += WIN_ANSI_EXTRAS[character];
+		} else if (code < 32 || (code > 126 && code < 160) || code > 255) {
+			result += code < 32 ? ' ' : '?';
+		} else if (character === '\\' || character === '(' || character === ')') {
+			result += `\\${character}`;
+		} else {
+			result += character;
+		}
+	}
+	return result;
+}
+
+/**
+ * Minimal PDF 1.4 writer for the printable documents: A4 pages with text in the standard
+ * Helvetica fonts, lines, rectangles and QR codes. Coordinates are in points from the
+ * top-left corner of the page.
+ */
+export class PdfDocument {
+	readonly width = PAGE_WIDTH;
+	readonly height = PAGE_HEIGHT;
+	private readonly pages: string[][] = [];
+	private current: string[] = [];
+
+	constructor(private readonly title: string) {
+		this.addPage();
+	}
+
+	get pageCount(): number {
+		return this.pages.length;
+	}
+
+	addPage(): void {
+		this.current = [];
+		this.pages.push(this.current);
+	}
+
+	/**
+	 * Makes an earlier page the target of the next drawing calls (for example to add the
+	 * page numbers once the total is known).
+	 */
+	goToPage(index: number): void {
+		this.current = this.pages[index];
+	}
+
+	/**
+	 * Approximate width of `value` in points; good enough to truncate table cells.
+	 */
+	textWidth(value: string, size: number, font: PdfFont = 'regular'): number {
+		return value.length * size * AVERAGE_GLYPH_WIDTH[font];
+	}
+
+	/**
+	 * Cuts `value` with an ellipsis so it fits in `maxWidth`.
+	 */
+	fitText(value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+		if (this.textWidth(value, size, font) <= maxWidth) {
+			return value;
+		}
+		const maxLength = Math.max(
+			0,
+			Math.floor(maxWidth / (size * AVERAGE_GLYPH_WIDTH[font])) - 3,
+		);
+		return `${value.slice(0, maxLength)}...`;
+	}
+
+	/**
+	 * Draws `value` with its baseline at `y`.
+	 */
+	text(value: string, x: number, y: number, options: PdfTextOptions = {}): void {
+		const { size = 10, font = 'regular', color = BLACK } = options;
+		this.current.push(
+			`BT /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(this.height - y)} Td (${encodeText(value)}) Tj ET`,
+		);
+	}
+
+	line(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		{ color = BLACK, width = 0.5 }: { color?: PdfColor; width?: number } = {},
+	): void {
+		this.current.push(
+			`${formatNumber(width)} w ${formatColor(color)} RG ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`,
+		);
+	}
+
+	rect(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		{ fill, stroke, lineWidth = 0.5 }: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number },
+	): void {
+		const box = `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+		if (fill && stroke) {
+			this.current.push(
+				`${formatColor(fill)} rg ${formatColor(stroke)} RG ${formatNumber(lineWidth)} w ${box} B`,
+			);
+		} else if (fill) {
+			this.current.push(`${formatColor(fill)} rg ${box} f`);
+		} else if (stroke) {
+			this.current.push(`${formatColor(stroke)} RG ${formatNumber(lineWidth)} w ${box} S`);
+		}
+	}
+
+	/**
+	 * Draws a QR code as a `size` point square, quiet zone included.
+	 */
+	qrCode(qr: QrCode, x: number, y: number, size: number): void {
+		const quietZone = 4;
+		const moduleSize = size / (qr.size + quietZone * 2);
+		const squares: string[] = [];
+		for (let row = 0; row < qr.size; row++) {
+			for (let column = 0; column < qr.size; column++) {
+				if (qr.modules[row][column]) {
+					const left = x + (column + quietZone) * moduleSize;
+					const bottom = this.height - (y + (row + quietZone + 1) * moduleSize);
+					squares.push(
+						`${formatNumber(left)} ${formatNumber(bottom)} ${formatNumber(moduleSize)} ${formatNumber(moduleSize)} re`,
+					);
+				}
+			}
+		}
+		this.current.push(`0 0 0 rg ${squares.join(' ')} f`);
+	}
+
+	/**
+	 * Serializes the document: catalog, page tree, fonts, one content stream per page and
+	 * the cross-reference table.
+	 */
+	toBuffer(): Buffer {
+		const objects: string[] = [];
+		const fontIds = { regular: 3, bold: 4 };
+		const firstPageId = 5;
+		const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+		const infoId = firstPageId + this.pages.length * 2;
+
+		objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+		objects.push(
+			`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+		);
+		for (const font of ['regular', 'bold'] as const) {
+			objects.push(
+				`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`,
+			);
+		}
+		for (const [index, operations] of this.pages.entries()) {
+			const content = operations.join('\n');
+			objects.push(
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] /Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+			);
+			objects.push(
+				`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+			);
+		}
+		objects.push(`<< /Title (${encodeText(this.title)}) /Producer (ALR Inventory) >>`);
+
+		let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+		const offsets: number[] = [];
+		for (const [index, body] of objects.entries()) {
+			offsets.push(Buffer.byteLength(output, 'latin1'));
+			output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+		}
+		const xrefOffset = Buffer.byteLength(output, 'latin1');
+		output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+		for (const offset of offsets) {
+			output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+		}
+		output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+		return Buffer.from(output, 'latin1');
+	}
+}
@@ -0,0 +1,259 @@
+import { eq } from 'drizzle-orm';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import type { ApiEnv } from '../context';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { ApiResponse } from './api-response';
+import { recordAuditLog } from './audit-log';
+import type { SessionUser } from './replenishment-orders';
+
+/**
+ * Catalog of permissions checked by the API, with the label shown in the Ajustes matrix.
+ * Adding a key here makes it available to the matrix; grants live in `role_permission`.
+ */
+export const permissionCatalog = {
+	'inventory.view': 'Ver inventario, gabinetes y catálogo',
+	'inventory.manage': 'Registrar y actualizar unidades de inventario',
+	'inventory.delete': 'Eliminar unidades de inventario',
+	'inventory.sync': 'Sincronizar inventario con Altegio',
+	'inventory.purge': 'Purgar stock no-CEDIS',
+	'products.create': 'Crear productos en Altegio',
+	'products.sync': 'Sincronizar el catálogo de productos',
+	'stock_limits.view': 'Ver límites de stock',
+	'stock_limits.manage': 'Crear y editar límites de stock',
+	'transfers.view': 'Ver transferencias',
+	'transfers.create': 'Crear transferencias',
+	'transfers.dispatch': 'Surtir y despachar transferencias',
+	'transfers.complete': 'Completar, cancelar y anotar transferencias',
+	'transfers.receive': 'Recibir artículos de transferencias',
+	'transfers.receive_any': 'Recibir y completar transferencias externas de cualquier almacén',
+	'kits.view': 'Ver kits',
+	'kits.manage': 'Crear y editar kits',
+	'withdraw_orders.view': 'Ver órdenes de retiro',
+	'withdraw_orders.manage': 'Crear y actualizar órdenes de retiro',
+	'employees.view': 'Ver empleadas y validar passcodes',
+	'employees.manage': 'Crear empleadas',
+	'employees.reset_passcode': 'Restablecer passcodes de empleadas',
+	'warehouses.view': 'Ver almacenes',
+	'warehouses.manage': 'Crear almacenes y editar su configuración de Altegio',
+	'warehouses.view_all': 'Ver inventario, transferencias, kits y retiros de todos los almacenes',
+	'users.view': 'Ver usuarios',
+	'users.manage': 'Cambiar rol y almacén de usuarios',
+	'merma.view': 'Ver merma',
+	'merma.view_all': 'Ver merma de cualquier almacén',
+	'merma.writeoff': 'Registrar merma',
+	'merma.export': 'Exportar merma a CSV',
+	'cycle_counts.view': 'Ver conteos cíclicos',
+	'cycle_counts.count': 'Abrir conteos cíclicos y escanear unidades',
+	'cycle_counts.close': 'Cerrar o cancelar conteos cíclicos y aplicar ajustes',
+	'replenishment.view': 'Ver pedidos de reabastecimiento',
+	'replenishment.manage': 'Crear y actualizar pedidos de reabastecimiento',
+	'replenishment.approve': 'Revisar y enviar los borradores del planificador de reabastecimiento',
+	'approvals.decide': 'Aprobar o rechazar traspasos y pedidos hacia almacenes que requieren aprobación',
+	'purchase_orders.view': 'Ver proveedores y órdenes de compra',
+	'purchase_orders.manage': 'Administrar proveedores y generar y enviar órdenes de compra',
+	'purchase_orders.receive': 'Recibir órdenes de compra en el CEDIS',
+	'altegio.outbox': 'Administrar la cola de replicación a Altegio',
+	'audit.view': 'Ver el historial de auditoría',
+	'permissions.manage': 'Editar la matriz de permisos',
+	'notifications.manage': 'Configurar reglas de notificación y correo',
+	'webhooks.manage': 'Administrar webhooks salientes y su registro de entregas',
+} as const;
+
+export type PermissionKey = keyof typeof permissionCatalog;
+
+export const permissionKeys = Object.keys(permissionCatalog) as PermissionKey[];
+
+/** Role that is implicitly granted every permission and cannot be edited */
+export const ADMIN_ROLE = 'admin';
+
+/** Roles whose permissions are configured through the matrix */
+export const configurableRoles = ['encargado', 'manager', 'employee', 'viewer'] as const;
+
+export type ConfigurableRole = (typeof configurableRoles)[number];
+
+export type PermissionMatrix = {
+	catalog: { key: PermissionKey; description: string }[];
+	roles: ConfigurableRole[];
+	grants: Record<ConfigurableRole, PermissionKey[]>;
+};
+
+// Grants are cached per role; the TTL bounds staleness when several API instances run
+const CACHE_TTL_MS = 30_000;
+const rolePermissionCache = new Map<string, { permissions: Set<PermissionKey>; expiresAt: number }>();
+
+function isPermissionKey(value: string): value is PermissionKey {
+	return value in permissionCatalog;
+}
+
+/**
+ * Clears the cached grants, e.g. after the matrix is edited.
+ */
+export function invalidatePermissionCache(): void {
+	rolePermissionCache.clear();
+}
+
+/**
+ * Resolves the permissions granted to a role. Admin gets the whole catalog; unknown roles get none.
+ */
+export async function getRolePermissions(
+	role: string | null | undefined,
+): Promise<Set<PermissionKey>> {
+	if (role === ADMIN_ROLE) {
+		return new Set(permissionKeys);
+	}
+	if (!role) {
+		return new Set();
+	}
+
+	const cached = rolePermissionCache.get(role);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.permissions;
+	}
+
+	const rows = await db
+		.select({ permission: schemas.rolePermission.permission })
+		.from(schemas.rolePermission)
+		.where(eq(schemas.rolePermission.role, role));
+
+	const permissions = new Set(
+		rows.map((row) => row.permission).filter((permission) => isPermissionKey(permission)),
+	);
+	rolePermissionCache.set(role, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+	return permissions;
+}
+
+/**
+ * Checks whether the session user's role grants a permission.
+ */
+export async function hasPermission(
+	user: { id: string; role?: string | null | undefined } | null | undefined,
+	permission: PermissionKey,
+): Promise<boolean> {
+	if (!user?.id) {
+		return false;
+	}
+	const permissions = await getRolePermissions(user.role);
+	return permissions.has(permission);
+}
+
+/**
+ * Hono middleware that rejects the request unless the session user's role grants `permission`.
+ * Responds 401 without a session and 403 when the permission is missing.
+ */
+export const requirePermission = (permission: PermissionKey) =>
+	createMiddleware<ApiEnv>(async (c, next) => {
+		const user = c.get('user') as SessionUser | null;
+		if (!user) {
+			return c.json(
+				{
+					success: false,
+					message: 'Authentication required',
+				} satisfies ApiResponse,
+				401,
+			);
+		}
+
+		if (!(await hasPermission(user, permission))) {
+			return c.json(
+				{
+					success: false,
+					message: `Forbidden - missing permission '${permission}'`,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		await next();
+	});
+
+/**
+ * Loads the full matrix: catalog, configurable roles and the permissions granted to each.
+ */
+export async function getPermissionMatrix(): Promise<PermissionMatrix> {
+	const rows = await db
+		.select({
+			role: schemas.rolePermission.role,
+			permission: schemas.rolePermission.permission,
+		})
+		.from(schemas.rolePermission);
+
+	const grants = Object.fromEntries(
+		configurableRoles.map((role) => [role, [] as PermissionKey[]]),
+	) as Record<ConfigurableRole, PermissionKey[]>;
+	for (const row of rows) {
+		const role = row.role as ConfigurableRole;
+		if (grants[role] && isPermissionKey(row.permission)) {
+			grants[role].push(row.permission);
+		}
+	}
+	for (const role of configurableRoles) {
+		grants[role].sort((a, b) => permissionKeys.indexOf(a) - permissionKeys.indexOf(b));
+	}
+
+	return {
+		catalog: permissionKeys.map((key) => ({ key, description: permissionCatalog[key] })),
+		roles: [...configurableRoles],
+		grants,
+	};
+}
+
+/**
+ * Replaces the permissions granted to a role and records the change in the audit log.
+ * A user cannot remove `permissions.manage` from their own role, so the matrix stays editable.
+ *
+ * @returns The permissions now granted to the role
+ */
+export async function updateRolePermissions({
+	role,
+	permissions,
+	user,
+}: {
+	role: ConfigurableRole;
+	permissions: PermissionKey[];
+	user: SessionUser | null | undefined;
+}): Promise<PermissionKey[]> {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+
+	const nextPermissions = permissionKeys.filter((key) => permissions.includes(key));
+	if (user.role === role && !nextPermissions.includes('permissions.manage')) {
+		throw new HTTPException(409, {
+			message: "You cannot remove 'permissions.manage' from your own role",
+		});
+	}
+
+	await db.transaction(async (tx) => {
+		const currentRows = await tx
+			.select({ permission: schemas.rolePermission.permission })
+			.from(schemas.rolePermission)
+			.where(eq(schemas.rolePermission.role, role))
+			.for('update');
+
+		await tx.delete(schemas.rolePermission).where(eq(schemas.rolePermission.role, role));
+		if (nextPermissions.length > 0) {
+			await tx.insert(schemas.rolePermission).values(
+				nextPermissions.map((permission) => ({
+					role,
+					permission,
+					grantedByUserId: user.id,
+				})),
+			);
+		}
+
+		await recordAuditLog(tx, {
+			actor: user,
+			entityType: 'role_permissions',
+			entityId: role,
+			action: 'update',
+			before: { permissions: currentRows.map((row) => row.permission).sort() },
+			after: { permissions: [...nextPermissions].sort() },
+		});
+	});
+
+	invalidatePermissionCache();
+	return nextPermissions;
+}
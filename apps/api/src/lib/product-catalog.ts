@@ -0,0 +1,390 @@
+import { and, asc, eq, gt, ilike, lt, or, type SQL, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { AltegioGood, DataItemArticulosType } from '../types';
+import { cronMatches, getZonedDateParts, parseCronExpression, startMinuteTicker } from './cron';
+import { fetchGoods, InventorySyncError, resolveBarcode } from './inventory-sync';
+
+const UPSERT_CHUNK_SIZE = 500;
+const DEFAULT_CATALOG_CRON = '15 * * * *';
+
+type ProductRow = typeof schemas.product.$inferSelect;
+
+export type ProductAltegioGood = {
+	locationId: number;
+	goodId: number;
+};
+
+/**
+ * Catalog item served by `GET /products/all`.
+ * Keeps the Altegio goods fields clients already consume and adds catalog metadata.
+ */
+export type CatalogProduct = Omit<DataItemArticulosType, 'good_id'> & {
+	/** Single good_id, or comma-separated good_ids when the product exists in several locations */
+	good_id: number | string;
+	productId: string;
+	goodIds: number[];
+	altegioGoods: ProductAltegioGood[];
+	isArchived: boolean;
+	/** Days a unit lasts; units created by the inventory sync expire after them */
+	shelfLifeDays: number | null;
+};
+
+export type ProductCatalogSyncSummary = {
+	locations: number;
+	fetchedGoods: number;
+	skippedInvalid: number;
+	upserted: number;
+	archived: number;
+	syncedAt: string;
+};
+
+type CatalogEntry = {
+	barcode: number;
+	title: string;
+	category: string | null;
+	categoryId: number | null;
+	unit: string | null;
+	cost: number | null;
+	snapshot: AltegioGood;
+	altegioGoods: ProductAltegioGood[];
+};
+
+function chunkArray<T>(values: T[], chunkSize: number): T[][] {
+	const chunks: T[][] = [];
+	for (let index = 0; index < values.length; index += chunkSize) {
+		chunks.push(values.slice(index, index + chunkSize));
+	}
+	return chunks;
+}
+
+function encodeCursor(payload: { title: string; barcode: number }): string {
+	return Buffer.from(JSON.stringify(payload)).toString('base64');
+}
+
+function decodeCursor(cursor?: string): { title: string; barcode: number } | null {
+	if (!cursor) {
+		return null;
+	}
+	try {
+		const decoded = Buffer.from(cursor, 'base64').toString('utf8');
+		const parsed = JSON.parse(decoded) as { title?: unknown; barcode?: unknown };
+		if (typeof parsed.title !== 'string' || typeof parsed.barcode !== 'number') {
+			return null;
+		}
+		return { title: parsed.title, barcode: parsed.barcode };
+	} catch {
+		return null;
+	}
+}
+
+function toCatalogProduct(row: ProductRow): CatalogProduct {
+	const altegioGoods = (row.altegioGoods as ProductAltegioGood[] | null) ?? [];
+	const goodIds = Array.from(new Set(altegioGoods.map((good) => good.goodId)));
+	const snapshot = (row.altegioSnapshot ?? {}) as Partial<DataItemArticulosType>;
+
+	return {
+		...(snapshot as DataItemArticulosType),
+		title: row.title,
+		label: snapshot.label ?? row.title,
+		category: row.category ?? snapshot.category ?? '',
+		unit_short_title: row.unit ?? snapshot.unit_short_title ?? '',
+		cost: row.cost ?? snapshot.cost ?? 0,
+		barcode: snapshot.barcode || String(row.barcode),
+		good_id: goodIds.length > 1 ? goodIds.join(',') : (goodIds[0] ?? snapshot.good_id ?? row.barcode),
+		productId: row.id,
+		goodIds,
+		altegioGoods,
+		isArchived: row.isArchived,
+		shelfLifeDays: row.shelfLifeDays,
+	};
+}
+
+/**
+ * Lists catalog products ordered by title.
+ * Without `limit` every matching product is returned (legacy behaviour of `/products/all`);
+ * with `limit` results are paginated with a keyset cursor.
+ */
+export async function listCatalogProducts({
+	q,
+	category,
+	includeArchived = false,
+	limit,
+	cursor,
+}: {
+	q?: string | undefined;
+	category?: string | undefined;
+	includeArchived?: boolean | undefined;
+	limit?: number | undefined;
+	cursor?: string | undefined;
+}): Promise<{ items: CatalogProduct[]; nextCursor: string | null }> {
+	const decodedCursor = decodeCursor(cursor);
+	if (cursor && !decodedCursor) {
+		throw new HTTPException(400, { message: 'Invalid cursor' });
+	}
+
+	const conditions: SQL[] = [];
+	if (!includeArchived) {
+		conditions.push(eq(schemas.product.isArchived, false));
+	}
+	if (category) {
+		conditions.push(eq(schemas.product.category, category));
+	}
+	const search = q?.trim();
+	if (search) {
+		const pattern = `%${search}%`;
+		const searchCondition = or(
+			ilike(schemas.product.title, pattern),
+			ilike(schemas.product.category, pattern),
+			sql`${schemas.product.barcode}::text ILIKE ${pattern}`,
+		);
+		if (searchCondition) {
+			conditions.push(searchCondition);
+		}
+	}
+	if (decodedCursor) {
+		const cursorCondition = or(
+			gt(schemas.product.title, decodedCursor.title),
+			and(
+				eq(schemas.product.title, decodedCursor.title),
+				gt(schemas.product.barcode, decodedCursor.barcode),
+			),
+		);
+		if (cursorCondition) {
+			conditions.push(cursorCondition);
+		}
+	}
+
+	const baseQuery = db
+		.select()
+		.from(schemas.product)
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(asc(schemas.product.title), asc(schemas.product.barcode));
+
+	const rows = limit === undefined ? await baseQuery : await baseQuery.limit(limit + 1);
+
+	const hasMore = limit !== undefined && rows.length > limit;
+	const pageRows = hasMore ? rows.slice(0, limit) : rows;
+	const lastRow = pageRows.at(-1);
+
+	return {
+		items: pageRows.map(toCatalogProduct),
+		nextCursor:
+			hasMore && lastRow
+				? encodeCursor({ title: lastRow.title, barcode: lastRow.barcode })
+				: null,
+	};
+}
+
+/**
+ * Sets the shelf life of a catalog product. It is a local setting kept across catalog syncs;
+ * `null` stops dating the units the inventory sync creates for the barcode.
+ *
+ * @throws HTTPException 404 when the barcode is not in the catalog
+ */
+export async function setProductShelfLife(
+	barcode: number,
+	shelfLifeDays: number | null,
+): Promise<CatalogProduct> {
+	const [updated] = await db
+		.update(schemas.product)
+		.set({ shelfLifeDays, updatedAt: new Date() })
+		.where(eq(schemas.product.barcode, barcode))
+		.returning();
+	if (!updated) {
+		throw new HTTPException(404, { message: `Product ${barcode} not found in the catalog` });
+	}
+	return toCatalogProduct(updated);
+}
+
+/**
+ * Mirrors Altegio goods from every active location into the local `product` table.
+ * Products are keyed by barcode (falling back to good_id, like the inventory sync);
+ * products no longer returned by Altegio are archived, and restored when they reappear.
+ */
+export async function syncProductCatalog(): Promise<ProductCatalogSyncSummary> {
+	const authHeader = process.env.AUTH_HEADER;
+	const acceptHeader = process.env.ACCEPT_HEADER;
+
+	if (!(authHeader && acceptHeader)) {
+		throw new InventorySyncError('Missing Altegio authentication headers', 400);
+	}
+
+	const headers: HeadersInit = {
+		Authorization: authHeader,
+		Accept: acceptHeader,
+		'Content-Type': 'application/json',
+	};
+
+	const warehouses = await db
+		.select({ altegioId: schemas.warehouse.altegioId })
+		.from(schemas.warehouse)
+		.where(eq(schemas.warehouse.isActive, true));
+
+	const altegioIds = Array.from(
+		new Set(
+			warehouses
+				.map((warehouse) => warehouse.altegioId)
+				.filter((id): id is number => Number.isInteger(id) && id > 0),
+		),
+	);
+
+	if (altegioIds.length === 0) {
+		throw new InventorySyncError(
+			'No active warehouses are configured with valid Altegio IDs',
+			400,
+		);
+	}
+
+	const syncStartedAt = new Date();
+	const entries = new Map<number, CatalogEntry>();
+	let fetchedGoods = 0;
+	let skippedInvalid = 0;
+
+	for (const altegioId of altegioIds) {
+		// biome-ignore lint: Locations are fetched sequentially to limit Altegio API pressure
+		const goods = await fetchGoods(altegioId, headers);
+		fetchedGoods += goods.length;
+
+		for (const good of goods) {
+			const barcode = resolveBarcode(good);
+			if (barcode === null) {
+				skippedInvalid += 1;
+				continue;
+			}
+
+			const locationGood = { locationId: good.salon_id || altegioId, goodId: good.good_id };
+			const existing = entries.get(barcode);
+			if (existing) {
+				if (
+					!existing.altegioGoods.some(
+						(item) =>
+							item.locationId === locationGood.locationId &&
+							item.goodId === locationGood.goodId,
+					)
+				) {
+					existing.altegioGoods.push(locationGood);
+				}
+				continue;
+			}
+
+			entries.set(barcode, {
+				barcode,
+				title: good.title.trim(),
+				category: good.category || null,
+				categoryId: good.category_id || null,
+				unit: good.unit_short_title || null,
+				cost: Number.isFinite(good.cost) ? good.cost : null,
+				snapshot: good,
+				altegioGoods: [locationGood],
+			});
+		}
+	}
+
+	let upserted = 0;
+	for (const chunk of chunkArray(Array.from(entries.values()), UPSERT_CHUNK_SIZE)) {
+		// biome-ignore lint: Batched upserts must be sequential to control load
+		const rows = await db
+			.insert(schemas.product)
+			.values(
+				chunk.map((entry) => ({
+					barcode: entry.barcode,
+					title: entry.title,
+					category: entry.category,
+					categoryId: entry.categoryId,
+					unit: entry.unit,
+					cost: entry.cost,
+					altegioGoods: entry.altegioGoods,
+					altegioSnapshot: entry.snapshot,
+					isArchived: false,
+					lastSyncedAt: syncStartedAt,
+					updatedAt: syncStartedAt,
+				})),
+			)
+			.onConflictDoUpdate({
+				target: schemas.product.barcode,
+				set: {
+					title: sql`excluded.title`,
+					category: sql`excluded.category`,
+					categoryId: sql`excluded.category_id`,
+					unit: sql`excluded.unit`,
+					cost: sql`excluded.cost`,
+					altegioGoods: sql`excluded.altegio_goods`,
+					altegioSnapshot: sql`excluded.altegio_snapshot`,
+					isArchived: false,
+					lastSyncedAt: syncStartedAt,
+					updatedAt: syncStartedAt,
+				},
+			})
+			.returning({ id: schemas.product.id });
+		upserted += rows.length;
+	}
+
+	const archivedRows = await db
+		.update(schemas.product)
+		.set({ isArchived: true, updatedAt: new Date() })
+		.where(
+			and(
+				eq(schemas.product.isArchived, false),
+				or(
+					sql`${schemas.product.lastSyncedAt} IS NULL`,
+					lt(schemas.product.lastSyncedAt, syncStartedAt),
+				),
+			),
+		)
+		.returning({ id: schemas.product.id });
+
+	return {
+		locations: altegioIds.length,
+		fetchedGoods,
+		skippedInvalid,
+		upserted,
+		archived: archivedRows.length,
+		syncedAt: syncStartedAt.toISOString(),
+	};
+}
+
+async function runCatalogSyncSafely(): Promise<void> {
+	try {
+		const summary = await syncProductCatalog();
+		// biome-ignore lint/suspicious/noConsole: Sync visibility in logs
+		console.log('Product catalog sync completed', summary);
+	} catch (error) {
+		// biome-ignore lint/suspicious/noConsole: Scheduled sync failures must be visible in logs
+		console.error('Product catalog sync failed', error instanceof Error ? error.message : error);
+	}
+}
+
+/**
+ * Starts the catalog refresh job. Runs once on startup when the catalog is empty,
+ * then whenever `PRODUCT_CATALOG_SYNC_CRON` (UTC, default hourly at minute 15) matches.
+ * Set `PRODUCT_CATALOG_SYNC_CRON=off` to disable it.
+ *
+ * @returns Function that stops the job, or null when disabled
+ */
+export function startProductCatalogScheduler(): (() => void) | null {
+	const expression = process.env.PRODUCT_CATALOG_SYNC_CRON ?? DEFAULT_CATALOG_CRON;
+	if (expression.trim().toLowerCase() === 'off') {
+		return null;
+	}
+
+	const schedule = parseCronExpression(expression);
+
+	void db
+		.select({ id: schemas.product.id })
+		.from(schemas.product)
+		.limit(1)
+		.then((rows) => (rows.length === 0 ? runCatalogSyncSafely() : undefined))
+		.catch((error: unknown) => {
+			// biome-ignore lint/suspicious/noConsole: Startup failures must be visible in logs
+			console.error('Product catalog bootstrap check failed', error);
+		});
+
+	return startMinuteTicker(async (now) => {
+		if (cronMatches(schedule, getZonedDateParts(now, 'UTC'))) {
+			await runCatalogSyncSafely();
+		}
+	});
+}
@@ -0,0 +1,136 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { and, asc, eq, inArray, isNotNull, lte, sql } from 'drizzle-orm';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+
+/** Days ahead the "por caducar" list looks by default */
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 30;
+
+/**
+ * A unit in the expiring lists. `daysUntilExpiry` is negative for expired units.
+ */
+export type ExpiringUnit = {
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	lotNumber: string | null;
+	expiresAt: string;
+	daysUntilExpiry: number;
+	warehouseId: string;
+	warehouseName: string;
+	isBeingUsed: boolean;
+};
+
+export type ExpiringUnits = {
+	expired: ExpiringUnit[];
+	expiringSoon: ExpiringUnit[];
+};
+
+/**
+ * First-expired-first-out order: earliest `expires_at` first, units without expiry last and
+ * the unit id as tiebreaker so suggestions are stable.
+ */
+export const fefoOrder = () => [
+	sql`${schemas.productStock.expiresAt} asc nulls last`,
+	asc(schemas.productStock.id),
+];
+
+/**
+ * Formats a date as the `YYYY-MM-DD` string stored in `date` columns.
+ */
+export function toDateOnly(value: Date): string {
+	return format(value, 'yyyy-MM-dd');
+}
+
+/**
+ * Lists the units on the shelf or checked out that expired or expire within `days`, soonest
+ * first. Empty and deleted units are left out since they no longer need a write-off.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to list every warehouse
+ * @param today - Reference date, defaults to the current day
+ */
+export async function listExpiringUnits({
+	warehouseId,
+	days = DEFAULT_EXPIRY_WINDOW_DAYS,
+	today = new Date(),
+}: {
+	warehouseId?: string | undefined;
+	days?: number;
+	today?: Date;
+}): Promise<ExpiringUnits> {
+	const todayDate = toDateOnly(today);
+	const rows = await db
+		.select({
+			productStockId: schemas.productStock.id,
+			barcode: schemas.productStock.barcode,
+			description: schemas.productStock.description,
+			lotNumber: schemas.productStock.lotNumber,
+			expiresAt: schemas.productStock.expiresAt,
+			warehouseId: schemas.productStock.currentWarehouse,
+			warehouseName: schemas.warehouse.name,
+			isBeingUsed: schemas.productStock.isBeingUsed,
+		})
+		.from(schemas.productStock)
+		.innerJoin(schemas.warehouse, eq(schemas.warehouse.id, schemas.productStock.currentWarehouse))
+		.where(
+			and(
+				warehouseId ? eq(schemas.productStock.currentWarehouse, warehouseId) : undefined,
+				eq(schemas.productStock.isDeleted, false),
+				eq(schemas.productStock.isEmpty, false),
+				isNotNull(schemas.productStock.expiresAt),
+				lte(schemas.productStock.expiresAt, toDateOnly(addDays(today, days))),
+			),
+		)
+		.orderBy(...fefoOrder());
+
+	const result: ExpiringUnits = { expired: [], expiringSoon: [] };
+	for (const row of rows) {
+		const expiresAt = row.expiresAt ?? todayDate;
+		const unit = {
+			...row,
+			expiresAt,
+			daysUntilExpiry: differenceInCalendarDays(parseISO(expiresAt), parseISO(todayDate)),
+		};
+		if (unit.daysUntilExpiry < 0) {
+			result.expired.push(unit);
+		} else {
+			result.expiringSoon.push(unit);
+		}
+	}
+	return result;
+}
+
+/**
+ * Expiration dates for units the inventory sync creates today, from the shelf life configured
+ * in the catalog. Altegio stock carries no lots, so barcodes without shelf life are left out
+ * and their units get no expiry.
+ */
+export async function loadSyncExpiryDates(
+	barcodes: number[],
+	today: Date = new Date(),
+): Promise<Map<number, string>> {
+	const expiryByBarcode = new Map<number, string>();
+	if (barcodes.length === 0) {
+		return expiryByBarcode;
+	}
+
+	const products = await db
+		.select({
+			barcode: schemas.product.barcode,
+			shelfLifeDays: schemas.product.shelfLifeDays,
+		})
+		.from(schemas.product)
+		.where(
+			and(
+				inArray(schemas.product.barcode, barcodes),
+				isNotNull(schemas.product.shelfLifeDays),
+			),
+		);
+	for (const product of products) {
+		if (product.shelfLifeDays !== null) {
+			expiryByBarcode.set(product.barcode, toDateOnly(addDays(today, product.shelfLifeDays)));
+		}
+	}
+	return expiryByBarcode;
+}
@@ -0,0 +1,998 @@
+/** biome-ignore-all lint/complexity/noExcessiveCognitiveComplexity: Receiving allocates units across sources step by step */
+import { format } from 'date-fns';
+import { and, asc, desc, eq, inArray, type SQL, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type {
+	PurchaseOrderCreate,
+	PurchaseOrderGenerate,
+	PurchaseOrderListQuery,
+	PurchaseOrderReceive,
+	PurchaseOrderStatus,
+	SupplierCreate,
+	SupplierUpdate,
+} from '../types';
+import { loadCatalogUnitCosts, roundMoney } from './inventory-valuation';
+import type { SessionUser } from './replenishment-orders';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	type WarehouseScope,
+	warehouseScopeCondition,
+} from './warehouse-scope';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type SupplierRow = typeof schemas.supplier.$inferSelect;
+type PurchaseOrderRow = typeof schemas.purchaseOrder.$inferSelect;
+type PurchaseOrderItemRow = typeof schemas.purchaseOrderItem.$inferSelect;
+type ProductStockRow = typeof schemas.productStock.$inferSelect;
+
+export type SupplierWithProducts = SupplierRow & { barcodes: number[] };
+
+/**
+ * Replenishment detail a purchase order item covers, with the replenishment order it belongs to.
+ */
+export type PurchaseOrderItemSource = {
+	id: string;
+	replenishmentOrderDetailId: string | null;
+	replenishmentOrderId: string | null;
+	replenishmentOrderNumber: string | null;
+	sourceWarehouseId: string | null;
+	quantity: number;
+	receivedQuantity: number;
+};
+
+export type PurchaseOrderItem = PurchaseOrderItemRow & { sources: PurchaseOrderItemSource[] };
+
+export type PurchaseOrderFull = PurchaseOrderRow & {
+	supplierName: string;
+	items: PurchaseOrderItem[];
+};
+
+export type PurchaseOrderSummary = PurchaseOrderRow & {
+	supplierName: string;
+	itemsCount: number;
+	totalQuantity: number;
+	totalReceived: number;
+};
+
+/**
+ * Unfulfilled replenishment detail left out of the generated purchase orders because its
+ * barcode has no active default supplier.
+ */
+export type UnassignedPurchaseItem = {
+	detailId: string;
+	barcode: number;
+	quantity: number;
+	replenishmentOrderNumber: string;
+};
+
+export type PurchaseOrderReceipt = {
+	purchaseOrder: PurchaseOrderFull;
+	productStock: ProductStockRow[];
+};
+
+type UnfulfilledDetail = {
+	id: string;
+	barcode: number;
+	quantity: number;
+	sentQuantity: number;
+	orderNumber: string;
+};
+
+const ORDER_PREFIX = 'OC';
+
+/** Statuses a purchase order can be received or closed from */
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['sent', 'partially_received'];
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+function normalizeText(value?: string | null): string | null {
+	const trimmed = value?.trim();
+	return trimmed ? trimmed : null;
+}
+
+function assertScope(scope: WarehouseScope, warehouseId: string): void {
+	if (!canAccessWarehouse(scope, warehouseId)) {
+		throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+	}
+}
+
+async function assertCedisWarehouse(executor: Executor, id: string): Promise<void> {
+	const [warehouse] = await executor
+		.select({ isCedis: schemas.warehouse.isCedis })
+		.from(schemas.warehouse)
+		.where(eq(schemas.warehouse.id, id))
+		.limit(1);
+
+	if (!warehouse) {
+		throw new HTTPException(404, { message: 'CEDIS warehouse not found' });
+	}
+	if (!warehouse.isCedis) {
+		throw new HTTPException(400, { message: 'Purchase orders must belong to a CEDIS warehouse' });
+	}
+}
+
+/**
+ * Generates a purchase order number such as OC-20250101-0001.
+ */
+async function generatePurchaseOrderNumber(tx: Transaction): Promise<string> {
+	const prefix = `${ORDER_PREFIX}-${format(new Date(), 'yyyyMMdd')}`;
+	const [{ total }] = await tx
+		.select({ total: sql<number>`count(*)::int` })
+		.from(schemas.purchaseOrder)
+		.where(sql`${schemas.purchaseOrder.orderNumber} like ${`${prefix}-%`}`);
+
+	return `${prefix}-${`${(total ?? 0) + 1}`.padStart(4, '0')}`;
+}
+
+// Suppliers
+
+async function fetchSupplierBarcodes(supplierIds: string[]): Promise<Map<string, number[]>> {
+	const barcodes = new Map<string, number[]>();
+	if (supplierIds.length === 0) {
+		return barcodes;
+	}
+
+	const rows = await db
+		.select({
+			supplierId: schemas.supplierProduct.supplierId,
+			barcode: schemas.supplierProduct.barcode,
+		})
+		.from(schemas.supplierProduct)
+		.where(inArray(schemas.supplierProduct.supplierId, supplierIds))
+		.orderBy(schemas.supplierProduct.barcode);
+	for (const row of rows) {
+		barcodes.set(row.supplierId, [...(barcodes.get(row.supplierId) ?? []), row.barcode]);
+	}
+	return barcodes;
+}
+
+async function fetchSupplier(id: string): Promise<SupplierWithProducts> {
+	const [row] = await db
+		.select()
+		.from(schemas.supplier)
+		.where(eq(schemas.supplier.id, id))
+		.limit(1);
+	if (!row) {
+		throw new HTTPException(404, { message: 'Supplier not found' });
+	}
+	const barcodes = await fetchSupplierBarcodes([id]);
+	return { ...row, barcodes: barcodes.get(id) ?? [] };
+}
+
+/**
+ * Lists suppliers by name with the barcodes they supply by default.
+ */
+export async function listSuppliers(): Promise<SupplierWithProducts[]> {
+	const rows = await db.select().from(schemas.supplier).orderBy(asc(schemas.supplier.name));
+	const barcodes = await fetchSupplierBarcodes(rows.map((row) => row.id));
+	return rows.map((row) => ({ ...row, barcodes: barcodes.get(row.id) ?? [] }));
+}
+
+async function assertUniqueSupplierName(name: string, exceptId?: string): Promise<void> {
+	const [existing] = await db
+		.select({ id: schemas.supplier.id })
+		.from(schemas.supplier)
+		.where(sql`lower(${schemas.supplier.name}) = lower(${name})`)
+		.limit(1);
+	if (existing && existing.id !== exceptId) {
+		throw new HTTPException(409, { message: `A supplier named ${name} already exists` });
+	}
+}
+
+export async function createSupplier(input: SupplierCreate): Promise<SupplierWithProducts> {
+	await assertUniqueSupplierName(input.name);
+
+	const [row] = await db
+		.insert(schemas.supplier)
+		.values({
+			name: input.name,
+			contactName: normalizeText(input.contactName),
+			email: normalizeText(input.email),
+			phone: normalizeText(input.phone),
+			notes: normalizeText(input.notes),
+			isActive: input.isActive,
+		})
+		.returning();
+	return { ...row, barcodes: [] };
+}
+
+/**
+ * Updates the fields that are sent; `null` clears an optional field.
+ */
+export async function updateSupplier(
+	id: string,
+	input: SupplierUpdate,
+): Promise<SupplierWithProducts> {
+	if (input.name !== undefined) {
+		await assertUniqueSupplierName(input.name, id);
+	}
+
+	const updated = await db
+		.update(schemas.supplier)
+		.set({
+			...(input.name !== undefined && { name: input.name }),
+			...(input.contactName !== undefined && { contactName: normalizeText(input.contactName) }),
+			...(input.email !== undefined && { email: normalizeText(input.email) }),
+			...(input.phone !== undefined && { phone: normalizeText(input.phone) }),
+			...(input.notes !== undefined && { notes: normalizeText(input.notes) }),
+			...(input.isActive !== undefined && { isActive: input.isActive }),
+			updatedAt: new Date(),
+		})
+		.where(eq(schemas.supplier.id, id))
+		.returning({ id: schemas.supplier.id });
+	if (updated.length === 0) {
+		throw new HTTPException(404, { message: 'Supplier not found' });
+	}
+	return await fetchSupplier(id);
+}
+
+/**
+ * Replaces the barcodes a supplier provides by default. A barcode assigned to another
+ * supplier moves to this one.
+ */
+export async function setSupplierProducts(
+	id: string,
+	barcodes: number[],
+): Promise<SupplierWithProducts> {
+	await fetchSupplier(id);
+	const uniqueBarcodes = [...new Set(barcodes)];
+
+	await db.transaction(async (tx) => {
+		await tx.delete(schemas.supplierProduct).where(eq(schemas.supplierProduct.supplierId, id));
+		if (uniqueBarcodes.length === 0) {
+			return;
+		}
+		await tx
+			.insert(schemas.supplierProduct)
+			.values(uniqueBarcodes.map((barcode) => ({ supplierId: id, barcode })))
+			.onConflictDoUpdate({
+				target: schemas.supplierProduct.barcode,
+				set: { supplierId: id },
+			});
+	});
+
+	return await fetchSupplier(id);
+}
+
+/**
+ * Deletes a supplier without purchase orders. Suppliers with orders can only be deactivated.
+ */
+export async function deleteSupplier(id: string): Promise<void> {
+	const [{ total }] = await db
+		.select({ total: sql<number>`count(*)::int` })
+		.from(schemas.purchaseOrder)
+		.where(eq(schemas.purchaseOrder.supplierId, id));
+	if (total > 0) {
+		throw new HTTPException(409, {
+			message: 'Supplier has purchase orders; deactivate it instead',
+		});
+	}
+
+	const deleted = await db
+		.delete(schemas.supplier)
+		.where(eq(schemas.supplier.id, id))
+		.returning({ id: schemas.supplier.id });
+	if (deleted.length === 0) {
+		throw new HTTPException(404, { message: 'Supplier not found' });
+	}
+}
+
+// Purchase orders
+
+/**
+ * Loads a purchase order with its items and the replenishment details each item covers.
+ */
+export async function fetchPurchaseOrder(
+	executor: Executor,
+	id: string,
+): Promise<PurchaseOrderFull> {
+	const [order] = await executor
+		.select({
+			order: schemas.purchaseOrder,
+			supplierName: schemas.supplier.name,
+		})
+		.from(schemas.purchaseOrder)
+		.innerJoin(schemas.supplier, eq(schemas.purchaseOrder.supplierId, schemas.supplier.id))
+		.where(eq(schemas.purchaseOrder.id, id))
+		.limit(1);
+	if (!order) {
+		throw new HTTPException(404, { message: 'Purchase order not found' });
+	}
+
+	const items = await executor
+		.select()
+		.from(schemas.purchaseOrderItem)
+		.where(eq(schemas.purchaseOrderItem.purchaseOrderId, id))
+		.orderBy(schemas.purchaseOrderItem.barcode);
+
+	const sources =
+		items.length === 0
+			? []
+			: await executor
+					.select({
+						id: schemas.purchaseOrderItemSource.id,
+						purchaseOrderItemId: schemas.purchaseOrderItemSource.purchaseOrderItemId,
+						replenishmentOrderDetailId:
+							schemas.purchaseOrderItemSource.replenishmentOrderDetailId,
+						replenishmentOrderId: schemas.replenishmentOrder.id,
+						replenishmentOrderNumber: schemas.replenishmentOrder.orderNumber,
+						sourceWarehouseId: schemas.replenishmentOrder.sourceWarehouseId,
+						quantity: schemas.purchaseOrderItemSource.quantity,
+						receivedQuantity: schemas.purchaseOrderItemSource.receivedQuantity,
+					})
+					.from(schemas.purchaseOrderItemSource)
+					.leftJoin(
+						schemas.replenishmentOrderDetails,
+						eq(
+							schemas.purchaseOrderItemSource.replenishmentOrderDetailId,
+							schemas.replenishmentOrderDetails.id,
+						),
+					)
+					.leftJoin(
+						schemas.replenishmentOrder,
+						eq(
+							schemas.replenishmentOrderDetails.replenishmentOrderId,
+							schemas.replenishmentOrder.id,
+						),
+					)
+					.where(
+						inArray(
+							schemas.purchaseOrderItemSource.purchaseOrderItemId,
+							items.map((item) => item.id),
+						),
+					)
+					.orderBy(
+						sql`${schemas.replenishmentOrder.createdAt} asc nulls last`,
+						asc(schemas.purchaseOrderItemSource.id),
+					);
+
+	return {
+		...order.order,
+		supplierName: order.supplierName,
+		items: items.map((item) => ({
+			...item,
+			sources: sources
+				.filter((source) => source.purchaseOrderItemId === item.id)
+				.map((source) => ({
+					id: source.id,
+					replenishmentOrderDetailId: source.replenishmentOrderDetailId,
+					replenishmentOrderId: source.replenishmentOrderId,
+					replenishmentOrderNumber: source.replenishmentOrderNumber,
+					sourceWarehouseId: source.sourceWarehouseId,
+					quantity: source.quantity,
+					receivedQuantity: source.receivedQuantity,
+				})),
+		})),
+	};
+}
+
+/**
+ * Lists purchase orders in the scope, newest first, with their item totals.
+ */
+export async function listPurchaseOrders(
+	query: PurchaseOrderListQuery,
+	scope: WarehouseScope,
+): Promise<PurchaseOrderSummary[]> {
+	const conditions: (SQL | undefined)[] = [
+		warehouseScopeCondition(scope, schemas.purchaseOrder.cedisWarehouseId),
+	];
+	if (query.status) {
+		conditions.push(eq(schemas.purchaseOrder.status, query.status));
+	}
+	if (query.supplierId) {
+		conditions.push(eq(schemas.purchaseOrder.supplierId, query.supplierId));
+	}
+	if (query.cedisWarehouseId) {
+		conditions.push(eq(schemas.purchaseOrder.cedisWarehouseId, query.cedisWarehouseId));
+	}
+
+	const rows = await db
+		.select({
+			order: schemas.purchaseOrder,
+			supplierName: schemas.supplier.name,
+			itemsCount: sql<number>`count(${schemas.purchaseOrderItem.id})::int`,
+			totalQuantity: sql<number>`coalesce(sum(${schemas.purchaseOrderItem.quantity}), 0)::int`,
+			totalReceived: sql<number>`coalesce(sum(${schemas.purchaseOrderItem.receivedQuantity}), 0)::int`,
+		})
+		.from(schemas.purchaseOrder)
+		.innerJoin(schemas.supplier, eq(schemas.purchaseOrder.supplierId, schemas.supplier.id))
+		.leftJoin(
+			schemas.purchaseOrderItem,
+			eq(schemas.purchaseOrderItem.purchaseOrderId, schemas.purchaseOrder.id),
+		)
+		.where(and(...conditions))
+		.groupBy(schemas.purchaseOrder.id, schemas.supplier.name)
+		.orderBy(desc(schemas.purchaseOrder.createdAt));
+
+	return rows.map((row) => ({
+		...row.order,
+		supplierName: row.supplierName,
+		itemsCount: row.itemsCount,
+		totalQuantity: row.totalQuantity,
+		totalReceived: row.totalReceived,
+	}));
+}
+
+export async function getPurchaseOrder(
+	id: string,
+	scope: WarehouseScope,
+): Promise<PurchaseOrderFull> {
+	const order = await fetchPurchaseOrder(db, id);
+	assertScope(scope, order.cedisWarehouseId);
+	return order;
+}
+
+/**
+ * Locks the unfulfilled replenishment details of a CEDIS that have no purchase order yet:
+ * sent orders whose sent quantity is below the requested quantity (same rule as
+ * `getUnfulfilledProducts`).
+ */
+async function lockUnfulfilledDetails(
+	tx: Transaction,
+	{ cedisWarehouseId, detailIds }: { cedisWarehouseId: string; detailIds?: string[] | undefined },
+): Promise<UnfulfilledDetail[]> {
+	return await tx
+		.select({
+			id: schemas.replenishmentOrderDetails.id,
+			barcode: schemas.replenishmentOrderDetails.barcode,
+			quantity: schemas.replenishmentOrderDetails.quantity,
+			sentQuantity: schemas.replenishmentOrderDetails.sentQuantity,
+			orderNumber: schemas.replenishmentOrder.orderNumber,
+		})
+		.from(schemas.replenishmentOrderDetails)
+		.innerJoin(
+			schemas.replenishmentOrder,
+			eq(schemas.replenishmentOrderDetails.replenishmentOrderId, schemas.replenishmentOrder.id),
+		)
+		.where(
+			and(
+				eq(schemas.replenishmentOrder.cedisWarehouseId, cedisWarehouseId),
+				eq(schemas.replenishmentOrder.isSent, true),
+				eq(schemas.replenishmentOrderDetails.buyOrderGenerated, false),
+				sql`${schemas.replenishmentOrderDetails.sentQuantity} < ${schemas.replenishmentOrderDetails.quantity}`,
+				detailIds ? inArray(schemas.replenishmentOrderDetails.id, detailIds) : undefined,
+			),
+		)
+		.orderBy(schemas.replenishmentOrderDetails.barcode, schemas.replenishmentOrder.createdAt)
+		.for('update', { of: schemas.replenishmentOrderDetails });
+}
+
+/**
+ * Inserts a draft purchase order with one item per barcode of the given details, links each
+ * item to its details and flags the details as having a buy order.
+ *
+ * @returns ID of the new purchase order
+ */
+async function insertPurchaseOrder(
+	tx: Transaction,
+	{
+		supplierId,
+		cedisWarehouseId,
+		details,
+		notes,
+		user,
+	}: {
+		supplierId: string;
+		cedisWarehouseId: string;
+		details: UnfulfilledDetail[];
+		notes?: string | undefined;
+		user: SessionUser;
+	},
+): Promise<string> {
+	const [order] = await tx
+		.insert(schemas.purchaseOrder)
+		.values({
+			orderNumber: await generatePurchaseOrderNumber(tx),
+			supplierId,
+			cedisWarehouseId,
+			notes: normalizeText(notes),
+			createdByUserId: user.id,
+		})
+		.returning({ id: schemas.purchaseOrder.id });
+
+	const quantities = new Map<number, number>();
+	for (const detail of details) {
+		quantities.set(
+			detail.barcode,
+			(quantities.get(detail.barcode) ?? 0) + detail.quantity - detail.sentQuantity,
+		);
+	}
+
+	const barcodes = [...quantities.keys()];
+	const products = await tx
+		.select({ barcode: schemas.product.barcode, title: schemas.product.title })
+		.from(schemas.product)
+		.where(inArray(schemas.product.barcode, barcodes));
+	const titles = new Map(products.map((product) => [product.barcode, product.title]));
+
+	const items = await tx
+		.insert(schemas.purchaseOrderItem)
+		.values(
+			barcodes.map((barcode) => ({
+				purchaseOrderId: order.id,
+				barcode,
+				description: titles.get(barcode) ?? null,
+				quantity: quantities.get(barcode) ?? 0,
+			})),
+		)
+		.returning({ id: schemas.purchaseOrderItem.id, barcode: schemas.purchaseOrderItem.barcode });
+	const itemIds = new Map(items.map((item) => [item.barcode, item.id]));
+
+	await tx.insert(schemas.purchaseOrderItemSource).values(
+		details.map((detail) => ({
+			purchaseOrderItemId: itemIds.get(detail.barcode) as string,
+			replenishmentOrderDetailId: detail.id,
+			quantity: detail.quantity - detail.sentQuantity,
+		})),
+	);
+
+	await tx
+		.update(schemas.replenishmentOrderDetails)
+		.set({ buyOrderGenerated: true })
+		.where(
+			inArray(
+				schemas.replenishmentOrderDetails.id,
+				details.map((detail) => detail.id),
+			),
+		);
+
+	return order.id;
+}
+
+/**
+ * Groups the unfulfilled replenishment details of a CEDIS into one draft purchase order per
+ * default supplier of their barcodes. Details whose barcode has no active supplier are
+ * returned as unassigned and keep waiting.
+ */
+export async function generatePurchaseOrders({
+	input,
+	user,
+	scope,
+}: {
+	input: PurchaseOrderGenerate;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<{ purchaseOrders: PurchaseOrderFull[]; unassigned: UnassignedPurchaseItem[] }> {
+	assertAuthenticated(user);
+	assertScope(scope, input.cedisWarehouseId);
+
+	return await db.transaction(async (tx) => {
+		await assertCedisWarehouse(tx, input.cedisWarehouseId);
+		const details = await lockUnfulfilledDetails(tx, input);
+
+		const assignments =
+			details.length === 0
+				? []
+				: await tx
+						.select({
+							barcode: schemas.supplierProduct.barcode,
+							supplierId: schemas.supplierProduct.supplierId,
+						})
+						.from(schemas.supplierProduct)
+						.innerJoin(
+							schemas.supplier,
+							eq(schemas.supplierProduct.supplierId, schemas.supplier.id),
+						)
+						.where(
+							and(
+								eq(schemas.supplier.isActive, true),
+								inArray(
+									schemas.supplierProduct.barcode,
+									details.map((detail) => detail.barcode),
+								),
+							),
+						);
+		const supplierByBarcode = new Map(
+			assignments.map((assignment) => [assignment.barcode, assignment.supplierId]),
+		);
+
+		const detailsBySupplier = new Map<string, UnfulfilledDetail[]>();
+		const unassigned: UnassignedPurchaseItem[] = [];
+		for (const detail of details) {
+			const supplierId = supplierByBarcode.get(detail.barcode);
+			if (!supplierId) {
+				unassigned.push({
+					detailId: detail.id,
+					barcode: detail.barcode,
+					quantity: detail.quantity - detail.sentQuantity,
+					replenishmentOrderNumber: detail.orderNumber,
+				});
+				continue;
+			}
+			detailsBySupplier.set(supplierId, [...(detailsBySupplier.get(supplierId) ?? []), detail]);
+		}
+
+		const purchaseOrders: PurchaseOrderFull[] = [];
+		for (const [supplierId, supplierDetails] of detailsBySupplier) {
+			// biome-ignore lint: Order numbers are generated sequentially
+			const id = await insertPurchaseOrder(tx, {
+				supplierId,
+				cedisWarehouseId: input.cedisWarehouseId,
+				details: supplierDetails,
+				user,
+			});
+			// biome-ignore lint: Order numbers are generated sequentially
+			purchaseOrders.push(await fetchPurchaseOrder(tx, id));
+		}
+
+		return { purchaseOrders, unassigned };
+	});
+}
+
+/**
+ * Creates a draft purchase order to a chosen supplier from specific unfulfilled details,
+ * e.g. the ones left unassigned by `generatePurchaseOrders`.
+ */
+export async function createPurchaseOrder({
+	input,
+	user,
+	scope,
+}: {
+	input: PurchaseOrderCreate;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<PurchaseOrderFull> {
+	assertAuthenticated(user);
+	assertScope(scope, input.cedisWarehouseId);
+	const detailIds = [...new Set(input.detailIds)];
+
+	return await db.transaction(async (tx) => {
+		await assertCedisWarehouse(tx, input.cedisWarehouseId);
+		const [supplier] = await tx
+			.select({ isActive: schemas.supplier.isActive })
+			.from(schemas.supplier)
+			.where(eq(schemas.supplier.id, input.supplierId))
+			.limit(1);
+		if (!supplier) {
+			throw new HTTPException(404, { message: 'Supplier not found' });
+		}
+		if (!supplier.isActive) {
+			throw new HTTPException(400, { message: 'Supplier is inactive' });
+		}
+
+		const details = await lockUnfulfilledDetails(tx, {
+			cedisWarehouseId: input.cedisWarehouseId,
+			detailIds,
+		});
+		if (details.length !== detailIds.length) {
+			throw new HTTPException(409, {
+				message:
+					'Some details are fulfilled, already have a purchase order or belong to another CEDIS',
+			});
+		}
+
+		const id = await insertPurchaseOrder(tx, {
+			supplierId: input.supplierId,
+			cedisWarehouseId: input.cedisWarehouseId,
+			details,
+			notes: input.notes,
+			user,
+		});
+		return await fetchPurchaseOrder(tx, id);
+	});
+}
+
+async function lockPurchaseOrder(tx: Transaction, id: string): Promise<PurchaseOrderRow> {
+	const [order] = await tx
+		.select()
+		.from(schemas.purchaseOrder)
+		.where(eq(schemas.purchaseOrder.id, id))
+		.limit(1)
+		.for('update');
+	if (!order) {
+		throw new HTTPException(404, { message: 'Purchase order not found' });
+	}
+	return order;
+}
+
+/**
+ * Marks a draft purchase order as sent to its supplier.
+ */
+export async function sendPurchaseOrder({
+	id,
+	user,
+	scope,
+}: {
+	id: string;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<PurchaseOrderFull> {
+	assertAuthenticated(user);
+
+	return await db.transaction(async (tx) => {
+		const order = await lockPurchaseOrder(tx, id);
+		assertScope(scope, order.cedisWarehouseId);
+		if (order.status !== 'draft') {
+			throw new HTTPException(409, {
+				message: `Only draft purchase orders can be sent (status: ${order.status})`,
+			});
+		}
+
+		const now = new Date();
+		await tx
+			.update(schemas.purchaseOrder)
+			.set({ status: 'sent', sentAt: now, sentByUserId: user.id, updatedAt: now })
+			.where(eq(schemas.purchaseOrder.id, id));
+		return await fetchPurchaseOrder(tx, id);
+	});
+}
+
+/**
+ * Receives units of a sent purchase order: creates the product stock units in the CEDIS,
+ * records one receipt per unit linked to the replenishment detail it fulfills (oldest first)
+ * and moves the order to partially received, or closed once every item is complete.
+ */
+export async function receivePurchaseOrder({
+	id,
+	input,
+	user,
+	scope,
+}: {
+	id: string;
+	input: PurchaseOrderReceive;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<PurchaseOrderReceipt> {
+	assertAuthenticated(user);
+
+	// A barcode may repeat once per lot, e.g. units of the same product with different expiry
+	const seen = new Set<string>();
+	for (const item of input.items) {
+		const key = `${item.barcode}:${item.lotNumber ?? ''}:${item.expiresAt ?? ''}`;
+		if (seen.has(key)) {
+			throw new HTTPException(400, { message: `Duplicate barcode ${item.barcode} detected` });
+		}
+		seen.add(key);
+	}
+	const catalogCostByBarcode = await loadCatalogUnitCosts(
+		input.items.map((item) => item.barcode),
+	);
+
+	return await db.transaction(async (tx) => {
+		const order = await lockPurchaseOrder(tx, id);
+		assertScope(scope, order.cedisWarehouseId);
+		if (!OPEN_STATUSES.includes(order.status as PurchaseOrderStatus)) {
+			throw new HTTPException(409, {
+				message: `Purchase order cannot be received (status: ${order.status})`,
+			});
+		}
+
+		const items = await tx
+			.select()
+			.from(schemas.purchaseOrderItem)
+			.where(eq(schemas.purchaseOrderItem.purchaseOrderId, id));
+		const itemsByBarcode = new Map(items.map((item) => [item.barcode, item]));
+
+		const receivedByItem = new Map<string, number>();
+		const receivedItems = input.items.map((received) => {
+			const item = itemsByBarcode.get(received.barcode);
+			if (!item) {
+				throw new HTTPException(400, {
+					message: `Barcode ${received.barcode} is not part of this purchase order`,
+				});
+			}
+			const alreadyReceived = receivedByItem.get(item.id) ?? 0;
+			const pending = item.quantity - item.receivedQuantity - alreadyReceived;
+			if (received.quantity > pending) {
+				throw new HTTPException(400, {
+					message: `Cannot receive ${received.quantity} of barcode ${received.barcode}; ${pending} pending`,
+				});
+			}
+			receivedByItem.set(item.id, alreadyReceived + received.quantity);
+			return {
+				item,
+				quantity: received.quantity,
+				lotNumber: received.lotNumber ?? null,
+				expiresAt: received.expiresAt ?? null,
+				unitCost:
+					received.unitCost === undefined
+						? (catalogCostByBarcode.get(received.barcode) ?? null)
+						: roundMoney(received.unitCost),
+			};
+		});
+
+		// Oldest replenishment order first, so each unit fulfills the longest waiting store
+		const sourceRows = await tx
+			.select({ source: schemas.purchaseOrderItemSource })
+			.from(schemas.purchaseOrderItemSource)
+			.leftJoin(
+				schemas.replenishmentOrderDetails,
+				eq(
+					schemas.purchaseOrderItemSource.replenishmentOrderDetailId,
+					schemas.replenishmentOrderDetails.id,
+				),
+			)
+			.leftJoin(
+				schemas.replenishmentOrder,
+				eq(schemas.replenishmentOrderDetails.replenishmentOrderId, schemas.replenishmentOrder.id),
+			)
+			.where(
+				inArray(
+					schemas.purchaseOrderItemSource.purchaseOrderItemId,
+					receivedItems.map(({ item }) => item.id),
+				),
+			)
+			.orderBy(
+				sql`${schemas.replenishmentOrder.createdAt} asc nulls last`,
+				asc(schemas.purchaseOrderItemSource.id),
+			);
+		const sources = sourceRows.map((row) => row.source);
+
+		const createdUnits = await tx
+			.insert(schemas.productStock)
+			.values(
+				receivedItems.flatMap(({ item, quantity, lotNumber, expiresAt, unitCost }) =>
+					Array.from({ length: quantity }, () => ({
+						barcode: item.barcode,
+						description: item.description,
+						currentWarehouse: order.cedisWarehouseId,
+						lotNumber,
+						expiresAt,
+						unitCost,
+					})),
+				),
+			)
+			.returning();
+
+		// Each unit fulfills the first replenishment detail of its item that still misses units
+		const now = new Date();
+		const sourceIncrements = new Map<string, number>();
+		const receipts: (typeof schemas.purchaseOrderReceipt.$inferInsert)[] = [];
+		let unitIndex = 0;
+		for (const { item, quantity } of receivedItems) {
+			const itemSources = sources.filter((source) => source.purchaseOrderItemId === item.id);
+			for (let count = 0; count < quantity; count += 1) {
+				const unit = createdUnits[unitIndex];
+				unitIndex += 1;
+				const source = itemSources.find(
+					(candidate) =>
+						candidate.receivedQuantity + (sourceIncrements.get(candidate.id) ?? 0) <
+						candidate.quantity,
+				);
+				if (source) {
+					sourceIncrements.set(source.id, (sourceIncrements.get(source.id) ?? 0) + 1);
+				}
+				receipts.push({
+					purchaseOrderId: id,
+					purchaseOrderItemId: item.id,
+					productStockId: unit.id,
+					replenishmentOrderDetailId: source?.replenishmentOrderDetailId ?? null,
+					receivedByUserId: user.id,
+					receivedAt: now,
+				});
+			}
+		}
+		await tx.insert(schemas.purchaseOrderReceipt).values(receipts);
+
+		await tx.insert(schemas.productStockUsageHistory).values(
+			createdUnits.map((unit) => ({
+				productStockId: unit.id,
+				userId: user.id,
+				warehouseId: order.cedisWarehouseId,
+				movementType: 'other',
+				action: 'checkin',
+				notes: `Recibido de la orden de compra ${order.orderNumber}`,
+				usageDate: now,
+				newWarehouseId: order.cedisWarehouseId,
+			})),
+		);
+
+		for (const [sourceId, increment] of sourceIncrements) {
+			// biome-ignore lint: Each source gets its own increment
+			await tx
+				.update(schemas.purchaseOrderItemSource)
+				.set({
+					receivedQuantity: sql`${schemas.purchaseOrderItemSource.receivedQuantity} + ${increment}`,
+				})
+				.where(eq(schemas.purchaseOrderItemSource.id, sourceId));
+		}
+		for (const [itemId, quantity] of receivedByItem) {
+			// biome-ignore lint: Each item gets its own increment
+			await tx
+				.update(schemas.purchaseOrderItem)
+				.set({
+					receivedQuantity: sql`${schemas.purchaseOrderItem.receivedQuantity} + ${quantity}`,
+				})
+				.where(eq(schemas.purchaseOrderItem.id, itemId));
+		}
+
+		const isComplete = items.every(
+			(item) => item.receivedQuantity + (receivedByItem.get(item.id) ?? 0) >= item.quantity,
+		);
+		await tx
+			.update(schemas.purchaseOrder)
+			.set({
+				status: isComplete ? 'closed' : 'partially_received',
+				...(isComplete && { closedAt: now, closedByUserId: user.id }),
+				updatedAt: now,
+			})
+			.where(eq(schemas.purchaseOrder.id, id));
+
+		return {
+			purchaseOrder: await fetchPurchaseOrder(tx, id),
+			productStock: createdUnits,
+		};
+	});
+}
+
+/**
+ * Closes a sent or partially received purchase order without waiting for the pending units.
+ */
+export async function closePurchaseOrder({
+	id,
+	user,
+	scope,
+}: {
+	id: string;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<PurchaseOrderFull> {
+	assertAuthenticated(user);
+
+	return await db.transaction(async (tx) => {
+		const order = await lockPurchaseOrder(tx, id);
+		assertScope(scope, order.cedisWarehouseId);
+		if (!OPEN_STATUSES.includes(order.status as PurchaseOrderStatus)) {
+			throw new HTTPException(409, {
+				message: `Purchase order cannot be closed (status: ${order.status})`,
+			});
+		}
+
+		const now = new Date();
+		await tx
+			.update(schemas.purchaseOrder)
+			.set({ status: 'closed', closedAt: now, closedByUserId: user.id, updatedAt: now })
+			.where(eq(schemas.purchaseOrder.id, id));
+		return await fetchPurchaseOrder(tx, id);
+	});
+}
+
+/**
+ * Deletes a draft purchase order. Its replenishment details become unfulfilled again.
+ */
+export async function deletePurchaseOrder({
+	id,
+	scope,
+}: {
+	id: string;
+	scope: WarehouseScope;
+}): Promise<void> {
+	await db.transaction(async (tx) => {
+		const order = await lockPurchaseOrder(tx, id);
+		assertScope(scope, order.cedisWarehouseId);
+		if (order.status !== 'draft') {
+			throw new HTTPException(409, { message: 'Only draft purchase orders can be deleted' });
+		}
+
+		const sources = await tx
+			.select({ detailId: schemas.purchaseOrderItemSource.replenishmentOrderDetailId })
+			.from(schemas.purchaseOrderItemSource)
+			.innerJoin(
+				schemas.purchaseOrderItem,
+				eq(schemas.purchaseOrderItemSource.purchaseOrderItemId, schemas.purchaseOrderItem.id),
+			)
+			.where(eq(schemas.purchaseOrderItem.purchaseOrderId, id));
+		const detailIds = sources
+			.map((source) => source.detailId)
+			.filter((detailId): detailId is string => detailId !== null);
+
+		await tx.delete(schemas.purchaseOrder).where(eq(schemas.purchaseOrder.id, id));
+		if (detailIds.length > 0) {
+			await tx
+				.update(schemas.replenishmentOrderDetails)
+				.set({ buyOrderGenerated: false })
+				.where(inArray(schemas.replenishmentOrderDetails.id, detailIds));
+		}
+	});
+}
@@ -0,0 +1,23 @@
+import { create } from 'qrcode';
+
+/**
+ * Square module matrix of a QR code, indexed `[row][column]`; `true` is a dark module.
+ */
+export type QrCode = {
+	size: number;
+	modules: boolean[][];
+};
+
+/**
+ * Encodes `text` as a QR code with error correction level M, in the smallest version that
+ * fits and the mask with the lowest penalty.
+ */
+export function encodeQrCode(text: string): QrCode {
+	const { modules } = create(text, { errorCorrectionLevel: 'M' });
+	return {
+		size: modules.size,
+		modules: Array.from({ length: modules.size }, (_, row) =>
+			Array.from({ length: modules.size }, (_, column) => modules.get(row, column) !== 0),
+		),
+	};
+}
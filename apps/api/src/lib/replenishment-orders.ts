@@ -6,12 +6,22 @@ import { db } from '../db/index';
 // biome-ignore lint/performance/noNamespaceImport: Drizzle schema
 import * as schemas from '../db/schema';
 import type {
+	ApprovalDecision,
 	ReplenishmentOrderCreate,
 	ReplenishmentOrderItem,
 	ReplenishmentOrderLinkTransfer,
+	ReplenishmentOrderReview,
 	ReplenishmentOrderStatusFilter,
 	ReplenishmentOrderUpdate,
 } from '../types';
+import { approvalDecisionValues, initialApprovalStatus, isApprovalCleared } from './approvals';
+import { recordAuditLog } from './audit-log';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	type WarehouseScope,
+} from './warehouse-scope';
+import { enqueueWebhookEvent } from './webhooks';
 
 type Database = typeof db;
 type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
@@ -103,7 +113,10 @@ async function assertWarehouse(
 	}
 }
 
-async function generateOrderNumber(tx: Transaction): Promise<string> {
+/**
+ * Next `PED-yyyyMMdd-NNNN` order number for today.
+ */
+export async function generateOrderNumber(tx: Transaction): Promise<string> {
 	const prefix = `${ORDER_PREFIX}-${format(new Date(), 'yyyyMMdd')}`;
 	const [{ total }] = await tx
 		.select({
@@ -117,7 +130,10 @@ async function generateOrderNumber(tx: Transaction): Promise<string> {
 	return `${prefix}-${suffix}`;
 }
 
-async function fetchOrderWithDetails(
+/**
+ * Loads an order with its detail rows, or throws 404.
+ */
+export async function fetchOrderWithDetails(
 	executor: Executor,
 	id: string,
 ): Promise<ReplenishmentOrderFull> {
@@ -185,6 +201,7 @@ export async function createReplenishmentOrder({
 				notes: normalizeNotes(input.notes),
 				isSent: false,
 				isReceived: false,
+				approvalStatus: await initialApprovalStatus(tx, input.sourceWarehouseId),
 				createdAt: now,
 				updatedAt: now,
 			})
@@ -214,6 +231,28 @@ export async function createReplenishmentOrder({
 /**
  * Updates replenishment order header and optionally replaces detail items.
  */
+/**
+ * Queues `replenishment_order.sent` with the order as it was sent to CEDIS.
+ */
+async function enqueueOrderSentWebhook(tx: Transaction, order: ReplenishmentOrderFull) {
+	await enqueueWebhookEvent(tx, {
+		type: 'replenishment_order.sent',
+		data: {
+			orderId: order.id,
+			orderNumber: order.orderNumber,
+			sourceWarehouseId: order.sourceWarehouseId,
+			cedisWarehouseId: order.cedisWarehouseId,
+			sentAt: order.sentAt?.toISOString() ?? null,
+			sentByUserId: order.sentByUserId,
+			items: order.details.map((detail) => ({
+				barcode: detail.barcode,
+				quantity: detail.quantity,
+				notes: detail.notes,
+			})),
+		},
+	});
+}
+
 export async function updateReplenishmentOrder({
 	id,
 	input,
@@ -250,6 +289,22 @@ export async function updateReplenishmentOrder({
 			updates.notes = normalizeNotes(input.notes);
 		}
 
+		if (input.isSent === true && current.isDraft) {
+			throw new HTTPException(400, {
+				message: 'Draft orders must be reviewed before they are sent',
+			});
+		}
+
+		if (
+			input.isSent === true &&
+			!current.isSent &&
+			!isApprovalCleared(current.approvalStatus)
+		) {
+			throw new HTTPException(409, {
+				message: 'Replenishment order must be approved before it is sent',
+			});
+		}
+
 		const willBeSent = input.isSent ?? current.isSent;
 		if (input.isReceived === true && !willBeSent) {
 			throw new HTTPException(400, {
@@ -328,6 +383,170 @@ export async function updateReplenishmentOrder({
 			await Promise.all(updatePromises);
 		}
 
+		const order = await fetchOrderWithDetails(tx, id);
+		if (updates.isSent === true) {
+			await enqueueOrderSentWebhook(tx, order);
+		}
+		return order;
+	});
+}
+
+/**
+ * Loads a planner draft for update, or throws 404 / 400 when the order is not a draft.
+ */
+async function lockDraftOrder(tx: Transaction, id: string): Promise<OrderRow> {
+	const existing = await tx
+		.select()
+		.from(schemas.replenishmentOrder)
+		.where(eq(schemas.replenishmentOrder.id, id))
+		.limit(1)
+		.for('update');
+
+	if (existing.length === 0) {
+		throw new HTTPException(404, { message: 'Replenishment order not found' });
+	}
+	if (!existing[0].isDraft) {
+		throw new HTTPException(400, { message: 'Replenishment order is not a draft' });
+	}
+	return existing[0];
+}
+
+/**
+ * Reviews a planner draft and sends it to the CEDIS.
+ * Reviewed quantities replace the planned ones; a quantity of 0 drops the barcode.
+ */
+export async function reviewReplenishmentOrder({
+	id,
+	input,
+	user,
+}: {
+	id: string;
+	input: ReplenishmentOrderReview;
+	user: SessionUser | null | undefined;
+}): Promise<ReplenishmentOrderFull> {
+	assertAuthenticated(user);
+
+	return await db.transaction(async (tx) => {
+		await lockDraftOrder(tx, id);
+
+		for (const item of input.items ?? []) {
+			const detailCondition = and(
+				eq(schemas.replenishmentOrderDetails.replenishmentOrderId, id),
+				eq(schemas.replenishmentOrderDetails.barcode, item.barcode),
+			);
+			if (item.quantity === 0) {
+				// biome-ignore lint: Review edits are applied in order
+				await tx.delete(schemas.replenishmentOrderDetails).where(detailCondition);
+			} else {
+				// biome-ignore lint: Review edits are applied in order
+				await tx
+					.update(schemas.replenishmentOrderDetails)
+					.set({ quantity: item.quantity })
+					.where(detailCondition);
+			}
+		}
+
+		const [{ total }] = await tx
+			.select({ total: sql<number>`count(*)::int` })
+			.from(schemas.replenishmentOrderDetails)
+			.where(eq(schemas.replenishmentOrderDetails.replenishmentOrderId, id));
+		if (total === 0) {
+			throw new HTTPException(400, {
+				message: 'A reviewed order needs at least one item; discard the draft instead',
+			});
+		}
+
+		const now = new Date();
+		await tx
+			.update(schemas.replenishmentOrder)
+			.set({
+				isDraft: false,
+				reviewedAt: now,
+				reviewedByUserId: user.id,
+				isSent: true,
+				sentAt: now,
+				sentByUserId: user.id,
+				updatedAt: now,
+				...(input.notes !== undefined && { notes: normalizeNotes(input.notes) }),
+			})
+			.where(eq(schemas.replenishmentOrder.id, id));
+
+		const order = await fetchOrderWithDetails(tx, id);
+		await enqueueOrderSentWebhook(tx, order);
+		return order;
+	});
+}
+
+/**
+ * Deletes a planner draft that should not be sent. Its details cascade.
+ */
+export async function discardReplenishmentDraft({
+	id,
+	user,
+}: {
+	id: string;
+	user: SessionUser | null | undefined;
+}): Promise<void> {
+	assertAuthenticated(user);
+
+	await db.transaction(async (tx) => {
+		await lockDraftOrder(tx, id);
+		await tx.delete(schemas.replenishmentOrder).where(eq(schemas.replenishmentOrder.id, id));
+	});
+}
+
+/**
+ * Approves or rejects a replenishment order awaiting approval. A rejected order stays in the
+ * list as rejected; it cannot be sent and no longer counts as on order for the planner.
+ *
+ * @throws 403 when the ordering warehouse is outside the approver's scope
+ * @throws 409 when the order is not awaiting approval
+ */
+export async function decideReplenishmentOrderApproval({
+	id,
+	input,
+	user,
+	scope,
+}: {
+	id: string;
+	input: ApprovalDecision;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<ReplenishmentOrderFull> {
+	assertAuthenticated(user);
+
+	return await db.transaction(async (tx) => {
+		const [order] = await tx
+			.select()
+			.from(schemas.replenishmentOrder)
+			.where(eq(schemas.replenishmentOrder.id, id))
+			.limit(1)
+			.for('update');
+		if (!order) {
+			throw new HTTPException(404, { message: 'Replenishment order not found' });
+		}
+		if (!canAccessWarehouse(scope, order.sourceWarehouseId)) {
+			throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+		}
+		if (order.approvalStatus !== 'awaiting_approval') {
+			throw new HTTPException(409, { message: 'Replenishment order is not awaiting approval' });
+		}
+
+		const [updated] = await tx
+			.update(schemas.replenishmentOrder)
+			.set(approvalDecisionValues(input, user, new Date()))
+			.where(eq(schemas.replenishmentOrder.id, id))
+			.returning();
+
+		await recordAuditLog(tx, {
+			actor: user,
+			entityType: 'replenishment_order',
+			entityId: id,
+			action: 'status_change',
+			before: order,
+			after: updated,
+			metadata: { approval: input.decision },
+		});
 		return fetchOrderWithDetails(tx, id);
 	});
 }
@@ -352,6 +571,11 @@ export async function listReplenishmentOrders({
 		filters.push(eq(schemas.replenishmentOrder.isReceived, true));
 	} else if (status === 'open') {
 		filters.push(eq(schemas.replenishmentOrder.isSent, false));
+		filters.push(eq(schemas.replenishmentOrder.isDraft, false));
+	} else if (status === 'draft') {
+		filters.push(eq(schemas.replenishmentOrder.isDraft, true));
+	} else if (status === 'awaiting_approval') {
+		filters.push(eq(schemas.replenishmentOrder.approvalStatus, 'awaiting_approval'));
 	}
 
 	const baseQuery = db
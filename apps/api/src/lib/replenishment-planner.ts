@@ -0,0 +1,410 @@
+import { and, asc, eq, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { ReplenishmentPlanInput } from '../types';
+import { cronMatches, getZonedDateParts, parseCronExpression, startMinuteTicker } from './cron';
+import {
+	fetchOrderWithDetails,
+	generateOrderNumber,
+	type ReplenishmentOrderFull,
+} from './replenishment-orders';
+
+/**
+ * One barcode below its minimum. `quantity` brings the projected stock back to `maxQuantity`.
+ */
+export type ReplenishmentPlanLine = {
+	barcode: number;
+	minQuantity: number;
+	maxQuantity: number;
+	onHand: number;
+	inTransit: number;
+	onOrder: number;
+	quantity: number;
+};
+
+export type ReplenishmentWarehousePlan = {
+	warehouseId: string;
+	warehouseName: string;
+	cedisWarehouseId: string;
+	lines: ReplenishmentPlanLine[];
+	// Draft written for the plan; null on dry runs or when nothing is below its minimum
+	draft: ReplenishmentOrderFull | null;
+	// True when an existing planner draft was removed because nothing needs replenishment anymore
+	draftRemoved: boolean;
+};
+
+const PLANNER_ORIGIN = 'planner';
+const DEFAULT_PLANNER_CRON = '0 6 * * *';
+
+type Counts = Map<string, number>;
+
+const countKey = (warehouseId: string, barcode: number) => `${warehouseId}::${barcode}`;
+
+function toCounts(rows: { warehouseId: string; barcode: number; total: number }[]): Counts {
+	return new Map(rows.map((row) => [countKey(row.warehouseId, row.barcode), Number(row.total)]));
+}
+
+/**
+ * Resolves the CEDIS that fulfills the drafts: the requested one, or the first active CEDIS.
+ */
+async function resolveCedisWarehouseId(cedisWarehouseId?: string): Promise<string> {
+	const rows = await db
+		.select({ id: schemas.warehouse.id })
+		.from(schemas.warehouse)
+		.where(
+			and(
+				eq(schemas.warehouse.isCedis, true),
+				eq(schemas.warehouse.isActive, true),
+				cedisWarehouseId ? eq(schemas.warehouse.id, cedisWarehouseId) : undefined,
+			),
+		)
+		.orderBy(asc(schemas.warehouse.createdAt))
+		.limit(1);
+
+	if (rows.length === 0) {
+		throw new HTTPException(cedisWarehouseId ? 400 : 404, {
+			message: cedisWarehouseId
+				? 'Destination warehouse must be an active CEDIS'
+				: 'No active CEDIS warehouse found',
+		});
+	}
+	return rows[0].id;
+}
+
+/**
+ * Compares live unit counts with the quantity limits of every non-CEDIS warehouse
+ * (or one warehouse) and returns the barcodes below their minimum.
+ *
+ * The projected stock of a barcode is:
+ * - units on hand: in the warehouse, outside cabinets, not deleted and not empty
+ *   (the same count as the dashboard's StockLimitsCard)
+ * - plus units in transit: unreceived items of open transfers coming from another warehouse
+ * - plus units on order: open replenishment orders not yet linked to a transfer, excluding
+ *   the planner draft that the plan replaces
+ */
+async function computePlanLines(
+	warehouseId?: string,
+): Promise<{ warehouseId: string; warehouseName: string; lines: ReplenishmentPlanLine[] }[]> {
+	const limits = await db
+		.select({
+			warehouseId: schemas.stockLimit.warehouseId,
+			warehouseName: schemas.warehouse.name,
+			barcode: schemas.stockLimit.barcode,
+			minQuantity: schemas.stockLimit.minQuantity,
+			maxQuantity: schemas.stockLimit.maxQuantity,
+		})
+		.from(schemas.stockLimit)
+		.innerJoin(schemas.warehouse, eq(schemas.stockLimit.warehouseId, schemas.warehouse.id))
+		.where(
+			and(
+				eq(schemas.stockLimit.limitType, 'quantity'),
+				eq(schemas.warehouse.isActive, true),
+				eq(schemas.warehouse.isCedis, false),
+				warehouseId ? eq(schemas.stockLimit.warehouseId, warehouseId) : undefined,
+			),
+		)
+		.orderBy(asc(schemas.warehouse.name), asc(schemas.stockLimit.barcode));
+
+	if (limits.length === 0) {
+		return [];
+	}
+
+	const warehouseIds = [...new Set(limits.map((limit) => limit.warehouseId))];
+	const barcodes = [...new Set(limits.map((limit) => limit.barcode))];
+
+	const onHandRows = await db
+		.select({
+			warehouseId: schemas.productStock.currentWarehouse,
+			barcode: schemas.productStock.barcode,
+			total: sql<number>`count(*)::int`,
+		})
+		.from(schemas.productStock)
+		.where(
+			and(
+				inArray(schemas.productStock.currentWarehouse, warehouseIds),
+				inArray(schemas.productStock.barcode, barcodes),
+				eq(schemas.productStock.isDeleted, false),
+				eq(schemas.productStock.isEmpty, false),
+				isNull(schemas.productStock.currentCabinet),
+			),
+		)
+		.groupBy(schemas.productStock.currentWarehouse, schemas.productStock.barcode);
+
+	const inTransitRows = await db
+		.select({
+			warehouseId: schemas.warehouseTransfer.destinationWarehouseId,
+			barcode: schemas.productStock.barcode,
+			total: sql<number>`count(*)::int`,
+		})
+		.from(schemas.warehouseTransferDetails)
+		.innerJoin(
+			schemas.warehouseTransfer,
+			eq(schemas.warehouseTransferDetails.transferId, schemas.warehouseTransfer.id),
+		)
+		.innerJoin(
+			schemas.productStock,
+			eq(schemas.warehouseTransferDetails.productStockId, schemas.productStock.id),
+		)
+		.where(
+			and(
+				inArray(schemas.warehouseTransfer.destinationWarehouseId, warehouseIds),
+				inArray(schemas.productStock.barcode, barcodes),
+				ne(
+					schemas.warehouseTransfer.sourceWarehouseId,
+					schemas.warehouseTransfer.destinationWarehouseId,
+				),
+				eq(schemas.warehouseTransfer.isCompleted, false),
+				eq(schemas.warehouseTransfer.isCancelled, false),
+				eq(schemas.warehouseTransferDetails.isReceived, false),
+			),
+		)
+		.groupBy(schemas.warehouseTransfer.destinationWarehouseId, schemas.productStock.barcode);
+
+	const onOrderRows = await db
+		.select({
+			warehouseId: schemas.replenishmentOrder.sourceWarehouseId,
+			barcode: schemas.replenishmentOrderDetails.barcode,
+			total: sql<number>`coalesce(sum(${schemas.replenishmentOrderDetails.quantity}), 0)::int`,
+		})
+		.from(schemas.replenishmentOrderDetails)
+		.innerJoin(
+			schemas.replenishmentOrder,
+			eq(
+				schemas.replenishmentOrderDetails.replenishmentOrderId,
+				schemas.replenishmentOrder.id,
+			),
+		)
+		.where(
+			and(
+				inArray(schemas.replenishmentOrder.sourceWarehouseId, warehouseIds),
+				inArray(schemas.replenishmentOrderDetails.barcode, barcodes),
+				eq(schemas.replenishmentOrder.isReceived, false),
+				isNull(schemas.replenishmentOrder.warehouseTransferId),
+				ne(schemas.replenishmentOrder.approvalStatus, 'rejected'),
+				or(
+					ne(schemas.replenishmentOrder.origin, PLANNER_ORIGIN),
+					eq(schemas.replenishmentOrder.isDraft, false),
+				),
+			),
+		)
+		.groupBy(
+			schemas.replenishmentOrder.sourceWarehouseId,
+			schemas.replenishmentOrderDetails.barcode,
+		);
+
+	const onHand = toCounts(onHandRows);
+	const inTransit = toCounts(inTransitRows);
+	const onOrder = toCounts(onOrderRows);
+
+	const plans = new Map<
+		string,
+		{ warehouseId: string; warehouseName: string; lines: ReplenishmentPlanLine[] }
+	>();
+	for (const limit of limits) {
+		const plan = plans.get(limit.warehouseId) ?? {
+			warehouseId: limit.warehouseId,
+			warehouseName: limit.warehouseName,
+			lines: [],
+		};
+		plans.set(limit.warehouseId, plan);
+
+		const key = countKey(limit.warehouseId, limit.barcode);
+		const line = {
+			onHand: onHand.get(key) ?? 0,
+			inTransit: inTransit.get(key) ?? 0,
+			onOrder: onOrder.get(key) ?? 0,
+		};
+		const projected = line.onHand + line.inTransit + line.onOrder;
+		const quantity = limit.maxQuantity - projected;
+		if (projected >= limit.minQuantity || quantity <= 0) {
+			continue;
+		}
+
+		plan.lines.push({
+			barcode: limit.barcode,
+			minQuantity: limit.minQuantity,
+			maxQuantity: limit.maxQuantity,
+			...line,
+			quantity,
+		});
+	}
+
+	return [...plans.values()];
+}
+
+/**
+ * Replaces the pending planner draft of a warehouse with the new plan lines.
+ * Creates the draft when none is pending and deletes it when no line is left.
+ * The warehouse row is locked so concurrent runs cannot create two drafts.
+ */
+async function writePlannerDraft({
+	warehouseId,
+	cedisWarehouseId,
+	lines,
+}: {
+	warehouseId: string;
+	cedisWarehouseId: string;
+	lines: ReplenishmentPlanLine[];
+}): Promise<{ draft: ReplenishmentOrderFull | null; draftRemoved: boolean }> {
+	return await db.transaction(async (tx) => {
+		await tx
+			.select({ id: schemas.warehouse.id })
+			.from(schemas.warehouse)
+			.where(eq(schemas.warehouse.id, warehouseId))
+			.for('update');
+
+		const existing = await tx
+			.select({ id: schemas.replenishmentOrder.id })
+			.from(schemas.replenishmentOrder)
+			.where(
+				and(
+					eq(schemas.replenishmentOrder.sourceWarehouseId, warehouseId),
+					eq(schemas.replenishmentOrder.origin, PLANNER_ORIGIN),
+					eq(schemas.replenishmentOrder.isDraft, true),
+				),
+			)
+			.limit(1);
+		const existingId = existing[0]?.id;
+
+		if (lines.length === 0) {
+			if (existingId) {
+				await tx
+					.delete(schemas.replenishmentOrder)
+					.where(eq(schemas.replenishmentOrder.id, existingId));
+			}
+			return { draft: null, draftRemoved: Boolean(existingId) };
+		}
+
+		const now = new Date();
+		let orderId = existingId;
+		if (orderId) {
+			await tx
+				.update(schemas.replenishmentOrder)
+				.set({ cedisWarehouseId, updatedAt: now })
+				.where(eq(schemas.replenishmentOrder.id, orderId));
+			await tx
+				.delete(schemas.replenishmentOrderDetails)
+				.where(eq(schemas.replenishmentOrderDetails.replenishmentOrderId, orderId));
+		} else {
+			const [inserted] = await tx
+				.insert(schemas.replenishmentOrder)
+				.values({
+					orderNumber: await generateOrderNumber(tx),
+					sourceWarehouseId: warehouseId,
+					cedisWarehouseId,
+					origin: PLANNER_ORIGIN,
+					isDraft: true,
+					notes: 'Borrador generado por el planificador de reabastecimiento',
+					createdAt: now,
+					updatedAt: now,
+				})
+				.returning({ id: schemas.replenishmentOrder.id });
+			orderId = inserted.id;
+		}
+
+		const draftOrderId = orderId;
+		await tx.insert(schemas.replenishmentOrderDetails).values(
+			lines.map((line) => ({
+				replenishmentOrderId: draftOrderId,
+				barcode: line.barcode,
+				quantity: line.quantity,
+				notes: [
+					`Existencia ${line.onHand}, en tránsito ${line.inTransit}, pedido ${line.onOrder}`,
+					`(mín. ${line.minQuantity}, máx. ${line.maxQuantity})`,
+				].join(' '),
+			})),
+		);
+
+		return { draft: await fetchOrderWithDetails(tx, draftOrderId), draftRemoved: false };
+	});
+}
+
+/**
+ * Runs the replenishment planner. For each planned warehouse it writes one pending draft
+ * `replenishment_order` to the CEDIS (`origin = 'planner'`, `isDraft = true`), replacing the
+ * previous pending draft, so repeated runs never pile up orders. Drafts are only sent after an
+ * encargado reviews them.
+ */
+export async function runReplenishmentPlanner(
+	input: ReplenishmentPlanInput,
+): Promise<ReplenishmentWarehousePlan[]> {
+	if (input.warehouseId) {
+		const target = await db
+			.select({ isCedis: schemas.warehouse.isCedis })
+			.from(schemas.warehouse)
+			.where(eq(schemas.warehouse.id, input.warehouseId))
+			.limit(1);
+		if (target.length === 0) {
+			throw new HTTPException(404, { message: 'Warehouse not found' });
+		}
+		if (target[0].isCedis) {
+			throw new HTTPException(400, { message: 'CEDIS warehouses are not replenished' });
+		}
+	}
+
+	const cedisWarehouseId = await resolveCedisWarehouseId(input.cedisWarehouseId);
+	const plans = await computePlanLines(input.warehouseId);
+
+	const results: ReplenishmentWarehousePlan[] = [];
+	for (const plan of plans) {
+		const written = input.dryRun
+			? { draft: null, draftRemoved: false }
+			: // biome-ignore lint: Warehouses are planned sequentially to keep drafts consistent
+				await writePlannerDraft({
+					warehouseId: plan.warehouseId,
+					cedisWarehouseId,
+					lines: plan.lines,
+				});
+		results.push({ ...plan, cedisWarehouseId, ...written });
+	}
+	return results;
+}
+
+/**
+ * Starts the replenishment planner scheduler. Every warehouse is planned when the cron
+ * expression matches in its time zone.
+ *
+ * Env:
+ * - REPLENISHMENT_PLANNER_CRON: five-field cron expression (default `0 6 * * *`); `off` disables it
+ *
+ * @returns Function that stops the scheduler, or null when disabled
+ */
+export function startReplenishmentPlannerScheduler(): (() => void) | null {
+	const expression = process.env.REPLENISHMENT_PLANNER_CRON ?? DEFAULT_PLANNER_CRON;
+	if (expression.trim().toLowerCase() === 'off') {
+		return null;
+	}
+
+	const schedule = parseCronExpression(expression);
+
+	return startMinuteTicker(async (now) => {
+		const warehouses = await db
+			.select({
+				id: schemas.warehouse.id,
+				name: schemas.warehouse.name,
+				timeZone: schemas.warehouse.timeZone,
+			})
+			.from(schemas.warehouse)
+			.where(and(eq(schemas.warehouse.isActive, true), eq(schemas.warehouse.isCedis, false)));
+
+		for (const warehouse of warehouses) {
+			if (!cronMatches(schedule, getZonedDateParts(now, warehouse.timeZone))) {
+				continue;
+			}
+
+			try {
+				// biome-ignore lint: Warehouses are planned sequentially to limit DB pressure
+				await runReplenishmentPlanner({ warehouseId: warehouse.id, dryRun: false });
+			} catch (error) {
+				// biome-ignore lint/suspicious/noConsole: Scheduled planner failures must be visible in logs
+				console.error('Scheduled replenishment planning failed', {
+					warehouseId: warehouse.id,
+					warehouseName: warehouse.name,
+					error: error instanceof Error ? error.message : error,
+				});
+			}
+		}
+	});
+}
@@ -0,0 +1,503 @@
+import { format } from 'date-fns';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import { type PdfColor, PdfDocument } from './pdf-document';
+import { fefoOrder } from './product-expiry';
+import { encodeQrCode } from './qr-code';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	type WarehouseScope,
+} from './warehouse-scope';
+
+const DEFAULT_WEB_APP_URL = 'http://localhost:3001';
+
+export type TransferManifestItem = {
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	lotNumber: string | null;
+	expiresAt: string | null;
+	quantity: number;
+};
+
+export type TransferManifest = {
+	transferId: string;
+	transferNumber: string;
+	transferType: string;
+	status: string;
+	priority: string;
+	notes: string | null;
+	createdAt: Date;
+	sourceWarehouseName: string;
+	destinationWarehouseName: string;
+	items: TransferManifestItem[];
+};
+
+export type PickingSheetUnit = {
+	productStockId: string;
+	lotNumber: string | null;
+	expiresAt: string | null;
+};
+
+export type PickingSheetLine = {
+	barcode: number;
+	description: string | null;
+	quantity: number;
+	sentQuantity: number;
+	pendingQuantity: number;
+	// Units to pick at the CEDIS, first expired first out
+	suggestedUnits: PickingSheetUnit[];
+};
+
+export type PickingSheet = {
+	orderId: string;
+	orderNumber: string;
+	notes: string | null;
+	createdAt: Date;
+	cedisWarehouseName: string;
+	requestingWarehouseName: string;
+	lines: PickingSheetLine[];
+};
+
+/**
+ * Base URL of the web app, used for the links encoded in the QR codes.
+ */
+export function webAppUrl(): string {
+	return (process.env.WEB_APP_URL ?? DEFAULT_WEB_APP_URL).replace(/\/+$/, '');
+}
+
+/**
+ * File name for a printed document; the transfer and order numbers are free text.
+ */
+export function documentFileName(prefix: string, number: string): string {
+	return `${prefix}-${number.replace(/[^\w-]+/g, '_')}.pdf`;
+}
+
+async function warehouseNames(warehouseIds: string[]): Promise<Map<string, string>> {
+	const rows = await db
+		.select({ id: schemas.warehouse.id, name: schemas.warehouse.name })
+		.from(schemas.warehouse)
+		.where(inArray(schemas.warehouse.id, warehouseIds));
+	return new Map(rows.map((row) => [row.id, row.name]));
+}
+
+/**
+ * Data printed on the manifest that travels with a transfer: route, priority and every unit
+ * with its barcode, lot and UUID.
+ *
+ * @throws 403 when neither warehouse of the transfer is in the user's scope
+ * @throws 404 when the transfer does not exist
+ */
+export async function getTransferManifest({
+	transferId,
+	scope,
+}: {
+	transferId: string;
+	scope: WarehouseScope;
+}): Promise<TransferManifest> {
+	const [transfer] = await db
+		.select()
+		.from(schemas.warehouseTransfer)
+		.where(eq(schemas.warehouseTransfer.id, transferId))
+		.limit(1);
+	if (!transfer) {
+		throw new HTTPException(404, { message: 'Warehouse transfer not found' });
+	}
+	if (!canAccessWarehouse(scope, transfer.sourceWarehouseId, transfer.destinationWarehouseId)) {
+		throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+	}
+
+	const names = await warehouseNames([
+		transfer.sourceWarehouseId,
+		transfer.destinationWarehouseId,
+	]);
+	const items = await db
+		.select({
+			productStockId: schemas.warehouseTransferDetails.productStockId,
+			barcode: schemas.productStock.barcode,
+			description: sql<
+				string | null
+			>`coalesce(${schemas.product.title}, ${schemas.productStock.description})`,
+			lotNumber: schemas.productStock.lotNumber,
+			expiresAt: schemas.productStock.expiresAt,
+			quantity: schemas.warehouseTransferDetails.quantityTransferred,
+		})
+		.from(schemas.warehouseTransferDetails)
+		.innerJoin(
+			schemas.productStock,
+			eq(schemas.productStock.id, schemas.warehouseTransferDetails.productStockId),
+		)
+		.leftJoin(schemas.product, eq(schemas.product.barcode, schemas.productStock.barcode))
+		.where(eq(schemas.warehouseTransferDetails.transferId, transferId))
+		.orderBy(asc(schemas.productStock.barcode), asc(schemas.productStock.id));
+
+	return {
+		transferId: transfer.id,
+		transferNumber: transfer.transferNumber,
+		transferType: transfer.transferType,
+		status: transfer.status,
+		priority: transfer.priority,
+		notes: transfer.notes,
+		createdAt: transfer.createdAt,
+		sourceWarehouseName: names.get(transfer.sourceWarehouseId) ?? transfer.sourceWarehouseId,
+		destinationWarehouseName:
+			names.get(transfer.destinationWarehouseId) ?? transfer.destinationWarehouseId,
+		items,
+	};
+}
+
+/**
+ * Data printed on the CEDIS picking sheet of a replenishment order: what is still to send of
+ * each product and the units to pick for it, first expired first out. Units in use, in
+ * transit, empty or deleted are never suggested.
+ *
+ * @throws 403 when neither warehouse of the order is in the user's scope
+ * @throws 404 when the order does not exist
+ */
+export async function getPickingSheet({
+	orderId,
+	scope,
+}: {
+	orderId: string;
+	scope: WarehouseScope;
+}): Promise<PickingSheet> {
+	const [order] = await db
+		.select()
+		.from(schemas.replenishmentOrder)
+		.where(eq(schemas.replenishmentOrder.id, orderId))
+		.limit(1);
+	if (!order) {
+		throw new HTTPException(404, { message: 'Replenishment order not found' });
+	}
+	if (!canAccessWarehouse(scope, order.cedisWarehouseId, order.sourceWarehouseId)) {
+		throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+	}
+
+	const names = await warehouseNames([order.cedisWarehouseId, order.sourceWarehouseId]);
+	const details = await db
+		.select({
+			barcode: schemas.replenishmentOrderDetails.barcode,
+			description: schemas.product.title,
+			quantity: schemas.replenishmentOrderDetails.quantity,
+			sentQuantity: schemas.replenishmentOrderDetails.sentQuantity,
+		})
+		.from(schemas.replenishmentOrderDetails)
+		.leftJoin(
+			schemas.product,
+			eq(schemas.product.barcode, schemas.replenishmentOrderDetails.barcode),
+		)
+		.where(eq(schemas.replenishmentOrderDetails.replenishmentOrderId, orderId))
+		.orderBy(asc(schemas.replenishmentOrderDetails.barcode));
+
+	const barcodes = details.map((detail) => detail.barcode);
+	const units =
+		barcodes.length > 0
+			? await db
+					.select({
+						productStockId: schemas.productStock.id,
+						barcode: schemas.productStock.barcode,
+						description: schemas.productStock.description,
+						lotNumber: schemas.productStock.lotNumber,
+						expiresAt: schemas.productStock.expiresAt,
+					})
+					.from(schemas.productStock)
+					.where(
+						and(
+							eq(schemas.productStock.currentWarehouse, order.cedisWarehouseId),
+							inArray(schemas.productStock.barcode, barcodes),
+							eq(schemas.productStock.isDeleted, false),
+							eq(schemas.productStock.isEmpty, false),
+							eq(schemas.productStock.isBeingUsed, false),
+							eq(schemas.productStock.isInTransit, false),
+						),
+					)
+					.orderBy(...fefoOrder())
+			: [];
+
+	const lines = details.map((detail) => {
+		const pendingQuantity = Math.max(detail.quantity - detail.sentQuantity, 0);
+		const available = units.filter((unit) => unit.barcode === detail.barcode);
+		return {
+			barcode: detail.barcode,
+			description: detail.description ?? available[0]?.description ?? null,
+			quantity: detail.quantity,
+			sentQuantity: detail.sentQuantity,
+			pendingQuantity,
+			suggestedUnits: available
+				.slice(0, pendingQuantity)
+				.map(({ productStockId, lotNumber, expiresAt }) => ({
+					productStockId,
+					lotNumber,
+					expiresAt,
+				})),
+		};
+	});
+
+	return {
+		orderId: order.id,
+		orderNumber: order.orderNumber,
+		notes: order.notes,
+		createdAt: order.createdAt,
+		cedisWarehouseName: names.get(order.cedisWarehouseId) ?? order.cedisWarehouseId,
+		requestingWarehouseName: names.get(order.sourceWarehouseId) ?? order.sourceWarehouseId,
+		lines,
+	};
+}
+
+// =============================
+// PDF rendering
+// =============================
+
+const MARGIN = 40;
+const QR_SIZE = 110;
+const ROW_HEIGHT = 15;
+const ROW_FONT_SIZE = 7;
+const FOOTER_SPACE = 60;
+const SIGNATURE_SPACE = 70;
+const CELL_PADDING = 4;
+
+const MUTED: PdfColor = [0.41, 0.44, 0.46];
+const RULE: PdfColor = [0.9, 0.91, 0.92];
+const HEADER_FILL: PdfColor = [0.95, 0.96, 0.97];
+const WARNING: PdfColor = [0.91, 0.36, 0.02];
+
+const priorityLabel: Record<string, string> = {
+	normal: 'Normal',
+	high: 'Alta',
+	urgent: 'Urgente',
+};
+
+const transferStatusLabel: Record<string, string> = {
+	draft: 'Borrador',
+	picked: 'Surtido',
+	dispatched: 'Despachado',
+	in_transit: 'En tránsito',
+	received: 'Recibido',
+	closed: 'Cerrado',
+	cancelled: 'Cancelado',
+};
+
+type DocumentRow = { cells: string[]; color?: PdfColor };
+
+type DocumentLayout = {
+	title: string;
+	number: string;
+	qrUrl: string;
+	qrCaption: string;
+	fields: [string, string][];
+	notes: string | null;
+	columns: { header: string; width: number }[];
+	rows: DocumentRow[];
+	summary: string;
+	signatures: string[];
+};
+
+function formatDate(value: Date): string {
+	return format(value, 'dd/MM/yyyy HH:mm');
+}
+
+/**
+ * Lays out a shipping document: title, fields and QR on the first page, then a table that
+ * continues on as many pages as needed, the signature boxes and the page numbers.
+ */
+function renderDocument(layout: DocumentLayout): Buffer {
+	const pdf = new PdfDocument(`${layout.title} ${layout.number}`);
+	const contentWidth = pdf.width - MARGIN * 2;
+
+	pdf.text(layout.title, MARGIN, MARGIN + 18, { size: 18, font: 'bold' });
+	pdf.text(layout.number, MARGIN, MARGIN + 40, { size: 14, font: 'bold', color: MUTED });
+	let y = MARGIN + 62;
+	const fieldWidth = contentWidth - QR_SIZE - 20;
+	for (const [label, value] of layout.fields) {
+		pdf.text(`${label}:`, MARGIN, y, { size: 9, font: 'bold' });
+		pdf.text(pdf.fitText(value, fieldWidth - 90, 9), MARGIN + 90, y, { size: 9 });
+		y += 14;
+	}
+	if (layout.notes) {
+		pdf.text('Notas:', MARGIN, y, { size: 9, font: 'bold' });
+		pdf.text(pdf.fitText(layout.notes, fieldWidth - 90, 9), MARGIN + 90, y, { size: 9 });
+		y += 14;
+	}
+
+	const qrX = pdf.width - MARGIN - QR_SIZE;
+	pdf.qrCode(encodeQrCode(layout.qrUrl), qrX, MARGIN, QR_SIZE);
+	pdf.text(layout.qrCaption, qrX + 8, MARGIN + QR_SIZE + 8, { size: 7, color: MUTED });
+
+	const drawTableHeader = (top: number) => {
+		pdf.rect(MARGIN, top, contentWidth, ROW_HEIGHT + 2, { fill: HEADER_FILL });
+		let x = MARGIN;
+		for (const column of layout.columns) {
+			pdf.text(
+				pdf.fitText(column.header, column.width - CELL_PADDING * 2, 7.5, 'bold'),
+				x + CELL_PADDING,
+				top + 11,
+				{ size: 7.5, font: 'bold' },
+			);
+			x += column.width;
+		}
+		return top + ROW_HEIGHT + 2;
+	};
+
+	y = drawTableHeader(Math.max(y, MARGIN + QR_SIZE + 16) + 8);
+	for (const row of layout.rows) {
+		if (y + ROW_HEIGHT > pdf.height - FOOTER_SPACE) {
+			pdf.addPage();
+			y = drawTableHeader(MARGIN);
+		}
+		let x = MARGIN;
+		for (const [index, column] of layout.columns.entries()) {
+			const cell = row.cells[index] ?? '';
+			if (!cell) {
+				x += column.width;
+				continue;
+			}
+			pdf.text(
+				pdf.fitText(cell, column.width - CELL_PADDING * 2, ROW_FONT_SIZE),
+				x + CELL_PADDING,
+				y + 10,
+				{ size: ROW_FONT_SIZE, ...(row.color && { color: row.color }) },
+			);
+			x += column.width;
+		}
+		y += ROW_HEIGHT;
+		pdf.line(MARGIN, y, MARGIN + contentWidth, y, { color: RULE });
+	}
+
+	if (y + SIGNATURE_SPACE + 20 > pdf.height - FOOTER_SPACE) {
+		pdf.addPage();
+		y = MARGIN;
+	}
+	pdf.text(layout.summary, MARGIN, y + 16, { size: 9, font: 'bold' });
+	const signatureTop = y + 60;
+	const signatureWidth = contentWidth / layout.signatures.length;
+	for (const [index, label] of layout.signatures.entries()) {
+		const left = MARGIN + index * signatureWidth;
+		pdf.line(left + 10, signatureTop, left + signatureWidth - 10, signatureTop);
+		pdf.text(label, left + 10, signatureTop + 12, { size: 8, color: MUTED });
+	}
+
+	const footerLabel = `${layout.title} ${layout.number}`;
+	for (let page = 0; page < pdf.pageCount; page++) {
+		pdf.goToPage(page);
+		pdf.text(footerLabel, MARGIN, pdf.height - 30, { size: 7, color: MUTED });
+		const pageLabel = `Página ${page + 1} de ${pdf.pageCount}`;
+		pdf.text(pageLabel, pdf.width - MARGIN - pdf.textWidth(pageLabel, 7), pdf.height - 30, {
+			size: 7,
+			color: MUTED,
+		});
+	}
+
+	return pdf.toBuffer();
+}
+
+/**
+ * Manifest PDF of a transfer. The QR opens the reception page of the transfer.
+ */
+export function renderTransferManifestPdf(manifest: TransferManifest): Buffer {
+	const totalUnits = manifest.items.reduce((total, item) => total + item.quantity, 0);
+	return renderDocument({
+		title: 'Manifiesto de traspaso',
+		number: manifest.transferNumber,
+		qrUrl: `${webAppUrl()}/recepciones/${manifest.transferId}`,
+		qrCaption: 'Escanea para recibir',
+		fields: [
+			['Origen', manifest.sourceWarehouseName],
+			['Destino', manifest.destinationWarehouseName],
+			['Prioridad', priorityLabel[manifest.priority] ?? manifest.priority],
+			['Estado', transferStatusLabel[manifest.status] ?? manifest.status],
+			['Tipo', manifest.transferType === 'internal' ? 'Interno' : 'Externo'],
+			['Creado', formatDate(manifest.createdAt)],
+			['Impreso', formatDate(new Date())],
+		],
+		notes: manifest.notes,
+		columns: [
+			{ header: '#', width: 22 },
+			{ header: 'Código', width: 62 },
+			{ header: 'Producto', width: 148 },
+			{ header: 'Lote', width: 62 },
+			{ header: 'Caducidad', width: 56 },
+			{ header: 'UUID de la unidad', width: 165 },
+		],
+		rows: manifest.items.map((item, index) => ({
+			cells: [
+				String(index + 1),
+				String(item.barcode),
+				item.description ?? `Producto ${item.barcode}`,
+				item.lotNumber ?? '—',
+				item.expiresAt ?? '—',
+				item.productStockId,
+			],
+		})),
+		summary: `Total de unidades: ${totalUnits}`,
+		signatures: ['Entregó (origen)', 'Transportó', 'Recibió (destino)'],
+	});
+}
+
+/**
+ * CEDIS picking sheet PDF of a replenishment order. Each product row is followed by one row
+ * per suggested unit; products without enough stock are flagged. The QR opens the order.
+ */
+export function renderPickingSheetPdf(sheet: PickingSheet): Buffer {
+	const rows: DocumentRow[] = [];
+	for (const line of sheet.lines) {
+		rows.push({
+			cells: [
+				String(line.barcode),
+				line.description ?? `Producto ${line.barcode}`,
+				String(line.quantity),
+				String(line.sentQuantity),
+				String(line.pendingQuantity),
+				'',
+			],
+		});
+		for (const unit of line.suggestedUnits) {
+			rows.push({
+				cells: [
+					'',
+					`   Lote ${unit.lotNumber ?? '—'} · Cad. ${unit.expiresAt ?? '—'}`,
+					'',
+					'',
+					'',
+					unit.productStockId,
+				],
+			});
+		}
+		const missing = line.pendingQuantity - line.suggestedUnits.length;
+		if (missing > 0) {
+			rows.push({
+				cells: ['', `   Existencias insuficientes: faltan ${missing}`, '', '', '', ''],
+				color: WARNING,
+			});
+		}
+	}
+
+	const pendingUnits = sheet.lines.reduce((total, line) => total + line.pendingQuantity, 0);
+	return renderDocument({
+		title: 'Hoja de surtido',
+		number: sheet.orderNumber,
+		qrUrl: `${webAppUrl()}/pedidos/${sheet.orderId}`,
+		qrCaption: 'Escanea para abrir el pedido',
+		fields: [
+			['Surte', sheet.cedisWarehouseName],
+			['Para', sheet.requestingWarehouseName],
+			['Creado', formatDate(sheet.createdAt)],
+			['Impreso', formatDate(new Date())],
+		],
+		notes: sheet.notes,
+		columns: [
+			{ header: 'Código', width: 62 },
+			{ header: 'Producto', width: 160 },
+			{ header: 'Pedido', width: 40 },
+			{ header: 'Enviado', width: 44 },
+			{ header: 'Por surtir', width: 54 },
+			{ header: 'Unidad sugerida (FEFO)', width: 155 },
+		],
+		rows,
+		summary: `Unidades por surtir: ${pendingUnits}`,
+		signatures: ['Surtió', 'Revisó'],
+	});
+}
@@ -1,5 +1,12 @@
-export const shrinkageSources = ['manual', 'transfer_missing'] as const;
-export const shrinkageReasons = ['consumido', 'dañado', 'otro'] as const;
+export const shrinkageSources = [
+	'manual',
+	'transfer_missing',
+	'sync_adjustment',
+	'cycle_count',
+	'usage_limit',
+	'transfer_discrepancy',
+] as const;
+export const shrinkageReasons = ['consumido', 'dañado', 'caducado', 'otro'] as const;
 
 export type ShrinkageSource = (typeof shrinkageSources)[number];
 export type ShrinkageReason = (typeof shrinkageReasons)[number];
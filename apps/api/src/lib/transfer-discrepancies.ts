@@ -0,0 +1,500 @@
+/** biome-ignore-all lint/complexity/noExcessiveCognitiveComplexity: Needed for the code to be readable */
+import { and, asc, eq, inArray, isNotNull, or, type SQL } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import {
+	type TransferDiscrepancyOutcome,
+	type TransferDiscrepancyResolve,
+	transferDiscrepancyOutcomes,
+} from '../types';
+import { recordAuditLog } from './audit-log';
+import { shrinkageUnitCost } from './inventory-valuation';
+import { notifyWarehouseUsers } from './notifications';
+import { hasPermission } from './permissions';
+import type { SessionUser } from './replenishment-orders';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	type WarehouseScope,
+} from './warehouse-scope';
+import { enqueueShrinkageRecordedWebhook } from './webhooks';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type TransferRow = typeof schemas.warehouseTransfer.$inferSelect;
+
+/**
+ * Why an item is a discrepancy: it was never ticked as received (`missing`) or it was
+ * received with `itemCondition = 'damaged'` (`damaged`).
+ */
+export type TransferDiscrepancyKind = 'missing' | 'damaged';
+
+export type TransferDiscrepancyItem = {
+	transferDetailId: string;
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	quantity: number;
+	kind: TransferDiscrepancyKind;
+	itemCondition: string;
+	itemNotes: string | null;
+	outcome: TransferDiscrepancyOutcome | null;
+	notes: string | null;
+	resolvedAt: Date | null;
+	resolvedByUserId: string | null;
+};
+
+export type TransferDiscrepancyReport = {
+	transferId: string;
+	transferNumber: string;
+	sourceWarehouseId: string;
+	destinationWarehouseId: string;
+	isCompleted: boolean;
+	items: TransferDiscrepancyItem[];
+	summary: {
+		missingItems: number;
+		damagedItems: number;
+		unresolvedItems: number;
+		outcomes: Record<TransferDiscrepancyOutcome, number>;
+	};
+};
+
+/** Barcodes listed in the report notification before it is cut short */
+const MAX_REPORTED_BARCODES = 10;
+
+const outcomeLabel: Record<TransferDiscrepancyOutcome, string> = {
+	return_to_source: 'devuelto(s) al origen',
+	damaged: 'dado(s) de baja por daño',
+	in_transit: 'en tránsito',
+	found: 'encontrado(s)',
+};
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+async function fetchExternalTransfer(
+	executor: Executor,
+	transferId: string,
+	{ lock = false }: { lock?: boolean } = {},
+): Promise<TransferRow> {
+	const query = executor
+		.select()
+		.from(schemas.warehouseTransfer)
+		.where(eq(schemas.warehouseTransfer.id, transferId));
+	const [transfer] = lock ? await query.for('update') : await query;
+	if (!transfer) {
+		throw new HTTPException(404, { message: 'Warehouse transfer not found' });
+	}
+	if (transfer.transferType !== 'external') {
+		throw new HTTPException(400, { message: 'Only external transfers have discrepancies' });
+	}
+	return transfer;
+}
+
+/**
+ * Items of a transfer that are missing or damaged, plus any item that already has an
+ * outcome (a `found` item is received in good condition once resolved).
+ */
+async function fetchDiscrepancyItems(
+	executor: Executor,
+	transferId: string,
+	transferDetailIds?: string[],
+): Promise<TransferDiscrepancyItem[]> {
+	const conditions: SQL[] = [
+		eq(schemas.warehouseTransferDetails.transferId, transferId),
+		or(
+			eq(schemas.warehouseTransferDetails.isReceived, false),
+			eq(schemas.warehouseTransferDetails.itemCondition, 'damaged'),
+			isNotNull(schemas.warehouseTransferDiscrepancy.id),
+		) as SQL,
+	];
+	if (transferDetailIds) {
+		conditions.push(inArray(schemas.warehouseTransferDetails.id, transferDetailIds));
+	}
+
+	const rows = await executor
+		.select({
+			transferDetailId: schemas.warehouseTransferDetails.id,
+			productStockId: schemas.warehouseTransferDetails.productStockId,
+			barcode: schemas.productStock.barcode,
+			description: schemas.productStock.description,
+			quantity: schemas.warehouseTransferDetails.quantityTransferred,
+			isReceived: schemas.warehouseTransferDetails.isReceived,
+			itemCondition: schemas.warehouseTransferDetails.itemCondition,
+			itemNotes: schemas.warehouseTransferDetails.itemNotes,
+			kind: schemas.warehouseTransferDiscrepancy.kind,
+			outcome: schemas.warehouseTransferDiscrepancy.outcome,
+			notes: schemas.warehouseTransferDiscrepancy.notes,
+			resolvedAt: schemas.warehouseTransferDiscrepancy.resolvedAt,
+			resolvedByUserId: schemas.warehouseTransferDiscrepancy.resolvedByUserId,
+		})
+		.from(schemas.warehouseTransferDetails)
+		.innerJoin(
+			schemas.productStock,
+			eq(schemas.productStock.id, schemas.warehouseTransferDetails.productStockId),
+		)
+		.leftJoin(
+			schemas.warehouseTransferDiscrepancy,
+			eq(
+				schemas.warehouseTransferDiscrepancy.transferDetailId,
+				schemas.warehouseTransferDetails.id,
+			),
+		)
+		.where(and(...conditions))
+		.orderBy(asc(schemas.productStock.barcode), asc(schemas.warehouseTransferDetails.id));
+
+	return rows.map(({ isReceived, ...row }) => ({
+		...row,
+		kind: (row.kind ?? (isReceived ? 'damaged' : 'missing')) as TransferDiscrepancyKind,
+		outcome: row.outcome as TransferDiscrepancyOutcome | null,
+	}));
+}
+
+function buildReport(
+	transfer: TransferRow,
+	items: TransferDiscrepancyItem[],
+): TransferDiscrepancyReport {
+	const outcomes = Object.fromEntries(
+		transferDiscrepancyOutcomes.map((outcome) => [outcome, 0]),
+	) as Record<TransferDiscrepancyOutcome, number>;
+	let unresolvedItems = 0;
+	for (const item of items) {
+		if (item.outcome) {
+			outcomes[item.outcome] += 1;
+		} else {
+			unresolvedItems += 1;
+		}
+	}
+
+	return {
+		transferId: transfer.id,
+		transferNumber: transfer.transferNumber,
+		sourceWarehouseId: transfer.sourceWarehouseId,
+		destinationWarehouseId: transfer.destinationWarehouseId,
+		isCompleted: transfer.isCompleted,
+		items,
+		summary: {
+			missingItems: items.filter((item) => item.kind === 'missing').length,
+			damagedItems: items.filter((item) => item.kind === 'damaged').length,
+			unresolvedItems,
+			outcomes,
+		},
+	};
+}
+
+/**
+ * Discrepancy report of an external transfer: every missing or damaged item with the outcome
+ * picked for it, if any. Once the transfer is completed, unresolved items are the ones
+ * written off as `transfer_missing`.
+ */
+export async function getTransferDiscrepancyReport({
+	transferId,
+}: {
+	transferId: string;
+}): Promise<TransferDiscrepancyReport> {
+	const transfer = await fetchExternalTransfer(db, transferId);
+	return buildReport(transfer, await fetchDiscrepancyItems(db, transferId));
+}
+
+/**
+ * Records the outcome of missing or damaged items and turns each one into a stock movement:
+ * - return_to_source: the unit moves back to the origin warehouse
+ * - damaged: the unit is written off at the destination (`transfer_discrepancy`, `dañado`)
+ * - in_transit: the unit stays on its way and keeps the transfer from writing it off
+ * - found: the item is received and the unit moves to the destination
+ *
+ * Outcomes are final except `in_transit`, which is the only one accepted after the transfer
+ * is completed. Every outcome but `in_transit` clears the unit's in-transit mark. Only destination users (or `transfers.receive_any`) can resolve.
+ *
+ * @returns The updated report and the units that moved, for the stock events
+ * @throws 403 when the destination warehouse is outside the user's scope
+ */
+export async function resolveTransferDiscrepancies({
+	input,
+	user,
+	scope,
+}: {
+	input: TransferDiscrepancyResolve;
+	user: SessionUser | null;
+	scope: WarehouseScope;
+}): Promise<{
+	report: TransferDiscrepancyReport;
+	movedUnits: { id: string; currentWarehouse: string }[];
+}> {
+	assertAuthenticated(user);
+	const canReceiveAny = await hasPermission(user, 'transfers.receive_any');
+	const detailIds = input.items.map((item) => item.transferDetailId);
+	if (new Set(detailIds).size !== detailIds.length) {
+		throw new HTTPException(400, { message: 'Each transfer item can only be resolved once' });
+	}
+	const now = new Date();
+
+	return await db.transaction(async (tx) => {
+		const transfer = await fetchExternalTransfer(tx, input.transferId, { lock: true });
+		if (!canAccessWarehouse(scope, transfer.destinationWarehouseId)) {
+			throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+		}
+		if (transfer.isCancelled) {
+			throw new HTTPException(409, { message: 'Cancelled transfers cannot be resolved' });
+		}
+		if (transfer.status !== 'in_transit' && transfer.status !== 'received') {
+			throw new HTTPException(409, {
+				message: 'Only transfers in transit or received have discrepancies to resolve',
+			});
+		}
+		if (!canReceiveAny && user.warehouseId !== transfer.destinationWarehouseId) {
+			throw new HTTPException(403, {
+				message: 'Only destination warehouse users can resolve transfer discrepancies',
+			});
+		}
+
+		const items = await fetchDiscrepancyItems(tx, transfer.id, detailIds);
+		const itemsByDetailId = new Map(items.map((item) => [item.transferDetailId, item]));
+		for (const resolution of input.items) {
+			const item = itemsByDetailId.get(resolution.transferDetailId);
+			if (!item) {
+				throw new HTTPException(400, {
+					message: `Transfer item ${resolution.transferDetailId} is not missing or damaged`,
+				});
+			}
+			if (item.outcome !== null && item.outcome !== 'in_transit') {
+				throw new HTTPException(409, {
+					message: `Transfer item ${item.transferDetailId} is already resolved`,
+				});
+			}
+			if (transfer.isCompleted && item.outcome !== 'in_transit') {
+				throw new HTTPException(409, {
+					message: 'Completed transfers only accept outcomes for items still in transit',
+				});
+			}
+			if (resolution.outcome === item.outcome) {
+				throw new HTTPException(409, {
+					message: `Transfer item ${item.transferDetailId} is already in transit`,
+				});
+			}
+			if (resolution.outcome === 'found' && item.kind !== 'missing') {
+				throw new HTTPException(400, { message: 'Only missing items can be found later' });
+			}
+		}
+
+		const units = await tx
+			.select({
+				id: schemas.productStock.id,
+				currentWarehouse: schemas.productStock.currentWarehouse,
+				isDeleted: schemas.productStock.isDeleted,
+				isEmpty: schemas.productStock.isEmpty,
+			})
+			.from(schemas.productStock)
+			.where(
+				inArray(
+					schemas.productStock.id,
+					items.map((item) => item.productStockId),
+				),
+			)
+			.for('update');
+		const unitsById = new Map(units.map((unit) => [unit.id, unit]));
+
+		const movedUnits: { id: string; currentWarehouse: string }[] = [];
+		for (const resolution of input.items) {
+			const item = itemsByDetailId.get(resolution.transferDetailId) as TransferDiscrepancyItem;
+			const unit = unitsById.get(item.productStockId);
+			if (!unit || unit.isDeleted || unit.isEmpty) {
+				throw new HTTPException(409, {
+					message: `Unit ${item.productStockId} is no longer in stock`,
+				});
+			}
+			const notes = resolution.notes || null;
+			const history = {
+				productStockId: unit.id,
+				userId: user.id,
+				warehouseTransferId: transfer.id,
+				usageDate: now,
+				previousWarehouseId: unit.currentWarehouse,
+			};
+			let shrinkageEventId: string | null = null;
+
+			if (resolution.outcome === 'return_to_source') {
+				// biome-ignore lint: Each outcome is applied to one unit at a time
+				await tx
+					.update(schemas.productStock)
+					.set({
+						currentWarehouse: transfer.sourceWarehouseId,
+						isBeingUsed: false,
+						isInTransit: false,
+					})
+					.where(eq(schemas.productStock.id, unit.id));
+				await tx.insert(schemas.productStockUsageHistory).values({
+					...history,
+					warehouseId: transfer.sourceWarehouseId,
+					movementType: 'return',
+					action: 'checkin',
+					notes: `Devuelto al almacén de origen por discrepancia en ${transfer.transferNumber}`,
+					newWarehouseId: transfer.sourceWarehouseId,
+				});
+				movedUnits.push({ id: unit.id, currentWarehouse: transfer.sourceWarehouseId });
+			} else if (resolution.outcome === 'damaged') {
+				await tx
+					.update(schemas.productStock)
+					.set({
+						currentWarehouse: transfer.destinationWarehouseId,
+						isDeleted: true,
+						isBeingUsed: false,
+						isInTransit: false,
+					})
+					.where(eq(schemas.productStock.id, unit.id));
+				const events = await tx
+					.insert(schemas.inventoryShrinkageEvent)
+					.values({
+						source: 'transfer_discrepancy',
+						reason: 'dañado',
+						quantity: item.quantity,
+						notes: notes ?? `Dañado en transferencia ${transfer.transferNumber}`,
+						warehouseId: transfer.destinationWarehouseId,
+						productStockId: unit.id,
+						productBarcode: item.barcode,
+						productDescription: item.description,
+						unitCost: shrinkageUnitCost(unit.id, item.barcode),
+						transferId: transfer.id,
+						transferNumber: transfer.transferNumber,
+						sourceWarehouseId: transfer.sourceWarehouseId,
+						destinationWarehouseId: transfer.destinationWarehouseId,
+						createdByUserId: user.id,
+					})
+					.onConflictDoNothing()
+					.returning();
+				await enqueueShrinkageRecordedWebhook(tx, events);
+				shrinkageEventId = events[0]?.id ?? null;
+				await tx.insert(schemas.productStockUsageHistory).values({
+					...history,
+					warehouseId: transfer.destinationWarehouseId,
+					movementType: 'other',
+					action: 'checkout',
+					notes: `Baja por daño en transferencia ${transfer.transferNumber}`,
+					newWarehouseId: transfer.destinationWarehouseId,
+				});
+				movedUnits.push({ id: unit.id, currentWarehouse: transfer.destinationWarehouseId });
+			} else if (resolution.outcome === 'in_transit') {
+				await tx.insert(schemas.productStockUsageHistory).values({
+					...history,
+					warehouseId: transfer.sourceWarehouseId,
+					movementType: 'transfer',
+					action: 'transfer',
+					notes: `Sigue en tránsito tras la recepción de ${transfer.transferNumber}`,
+					newWarehouseId: transfer.destinationWarehouseId,
+				});
+			} else {
+				await tx
+					.update(schemas.warehouseTransferDetails)
+					.set({ isReceived: true, receivedDate: now, receivedBy: user.id, updatedAt: now })
+					.where(eq(schemas.warehouseTransferDetails.id, item.transferDetailId));
+				await tx
+					.update(schemas.productStock)
+					.set({ currentWarehouse: transfer.destinationWarehouseId, isInTransit: false })
+					.where(eq(schemas.productStock.id, unit.id));
+				await tx.insert(schemas.productStockUsageHistory).values({
+					...history,
+					warehouseId: transfer.destinationWarehouseId,
+					movementType: 'transfer',
+					action: 'checkin',
+					notes: `Encontrado después de la recepción de ${transfer.transferNumber}`,
+					newWarehouseId: transfer.destinationWarehouseId,
+				});
+				movedUnits.push({ id: unit.id, currentWarehouse: transfer.destinationWarehouseId });
+			}
+
+			const [before] = await tx
+				.select()
+				.from(schemas.warehouseTransferDiscrepancy)
+				.where(eq(schemas.warehouseTransferDiscrepancy.transferDetailId, item.transferDetailId));
+			const resolvedValues = {
+				outcome: resolution.outcome,
+				notes,
+				shrinkageEventId,
+				resolvedByUserId: user.id,
+				resolvedAt: now,
+			};
+			const [after] = await tx
+				.insert(schemas.warehouseTransferDiscrepancy)
+				.values({
+					transferId: transfer.id,
+					transferDetailId: item.transferDetailId,
+					productStockId: unit.id,
+					kind: item.kind,
+					...resolvedValues,
+				})
+				.onConflictDoUpdate({
+					target: schemas.warehouseTransferDiscrepancy.transferDetailId,
+					set: resolvedValues,
+				})
+				.returning();
+			await recordAuditLog(tx, {
+				actor: user,
+				entityType: 'warehouse_transfer_detail',
+				entityId: item.transferDetailId,
+				action: before ? 'update' : 'create',
+				before,
+				after,
+				metadata: { transferId: transfer.id, discrepancy: resolution.outcome },
+			});
+		}
+
+		await tx
+			.update(schemas.warehouseTransfer)
+			.set({ updatedAt: now })
+			.where(eq(schemas.warehouseTransfer.id, transfer.id));
+
+		const report = buildReport(transfer, await fetchDiscrepancyItems(tx, transfer.id));
+		return { report, movedUnits };
+	});
+}
+
+/**
+ * Sends the discrepancy report to the users of the origin warehouse as an in-app notification
+ * (and email when enabled). Reports without items are not sent.
+ *
+ * @returns Number of notifications created
+ */
+export async function sendTransferDiscrepancyReport(
+	report: TransferDiscrepancyReport,
+	now: Date = new Date(),
+): Promise<number> {
+	if (report.items.length === 0) {
+		return 0;
+	}
+
+	const { summary } = report;
+	const resolved = transferDiscrepancyOutcomes
+		.filter((outcome) => summary.outcomes[outcome] > 0)
+		.map((outcome) => `${summary.outcomes[outcome]} ${outcomeLabel[outcome]}`);
+	if (summary.unresolvedItems > 0) {
+		resolved.push(
+			report.isCompleted
+				? `${summary.unresolvedItems} registrado(s) como faltante`
+				: `${summary.unresolvedItems} sin resolver`,
+		);
+	}
+	const barcodes = [...new Set(report.items.map((item) => item.barcode))];
+	const listedBarcodes =
+		barcodes.length > MAX_REPORTED_BARCODES
+			? `${barcodes.slice(0, MAX_REPORTED_BARCODES).join(', ')} y ${barcodes.length - MAX_REPORTED_BARCODES} más`
+			: barcodes.join(', ');
+
+	return await notifyWarehouseUsers(
+		report.sourceWarehouseId,
+		{
+			type: 'transfer_discrepancy',
+			dedupeKey: `transfer_discrepancy:${report.transferId}:${now.getTime()}`,
+			title: `Discrepancias en traspaso ${report.transferNumber}`,
+			body: `${summary.missingItems} faltante(s) y ${summary.damagedItems} dañado(s): ${resolved.join(', ')}. Códigos: ${listedBarcodes}.`,
+			link: `/recepciones/${report.transferId}`,
+		},
+		now,
+	);
+}
@@ -0,0 +1,318 @@
+import { and, eq, inArray, notInArray } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { TransferStatus, TransferTransition } from '../types';
+import { isApprovalCleared } from './approvals';
+import { recordAuditLog } from './audit-log';
+import type { SessionUser } from './replenishment-orders';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	type WarehouseScope,
+} from './warehouse-scope';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type TransferRow = typeof schemas.warehouseTransfer.$inferSelect;
+type TransferValues = Partial<typeof schemas.warehouseTransfer.$inferInsert>;
+
+/**
+ * States each transfer state may move to. Goods can only be cancelled before they leave;
+ * once in transit the transfer has to be received (missing items go through discrepancies).
+ */
+const transferTransitions: Record<TransferStatus, readonly TransferStatus[]> = {
+	draft: ['picked', 'cancelled'],
+	picked: ['dispatched', 'cancelled'],
+	dispatched: ['in_transit', 'cancelled'],
+	in_transit: ['received'],
+	received: ['closed'],
+	closed: [],
+	cancelled: [],
+};
+
+/**
+ * Checks a move of the transfer state machine.
+ *
+ * @returns The error message when `from` cannot move to `to`, null otherwise
+ */
+export function transferTransitionError(from: string, to: TransferStatus): string | null {
+	const allowed = transferTransitions[from as TransferStatus] ?? [];
+	return allowed.includes(to) ? null : `Transfer cannot move from ${from} to ${to}`;
+}
+
+/**
+ * Target state of the legacy flags sent to `/update-status`: `isCompleted` receives the
+ * transfer and `isCancelled` cancels it. `isPending` alone only marks a partial reception.
+ *
+ * @returns The target state (null when no flag moves the transfer) or the error message
+ * when the flags contradict each other
+ */
+export function transferStatusFromFlags(flags: {
+	isCompleted?: boolean | undefined;
+	isPending?: boolean | undefined;
+	isCancelled?: boolean | undefined;
+}): { status: TransferStatus | null } | { error: string } {
+	if (flags.isCompleted === true && flags.isCancelled === true) {
+		return { error: 'Transfer cannot be both completed and cancelled' };
+	}
+	if (flags.isCompleted === true && flags.isPending === true) {
+		return { error: 'Completed transfers cannot be pending' };
+	}
+	if (flags.isCancelled === true) {
+		return { status: 'cancelled' };
+	}
+	return { status: flags.isCompleted === true ? 'received' : null };
+}
+
+/**
+ * Columns written when a transfer enters `status`: the state, its timestamp and actor, and
+ * the `isCompleted` / `isPending` / `isCancelled` flags older readers still use.
+ */
+export function transferStatusValues(
+	status: TransferStatus,
+	userId: string | null,
+	now: Date,
+): TransferValues {
+	const values: TransferValues = { status, updatedAt: now };
+	switch (status) {
+		case 'picked':
+			return { ...values, pickedAt: now, pickedByUserId: userId };
+		case 'dispatched':
+			return { ...values, dispatchedAt: now, dispatchedByUserId: userId };
+		case 'in_transit':
+			return { ...values, inTransitAt: now, inTransitByUserId: userId };
+		case 'received':
+			return {
+				...values,
+				receivedAt: now,
+				receivedByUserId: userId,
+				isCompleted: true,
+				isPending: false,
+				completedDate: now,
+				completedBy: userId,
+			};
+		case 'closed':
+			return {
+				...values,
+				closedAt: now,
+				closedByUserId: userId,
+				isCompleted: true,
+				isPending: false,
+			};
+		case 'cancelled':
+			return {
+				...values,
+				cancelledAt: now,
+				cancelledByUserId: userId,
+				isCancelled: true,
+				isPending: false,
+			};
+		default:
+			return values;
+	}
+}
+
+/**
+ * Units of the transfer that discrepancy resolution left `in_transit`; they keep travelling
+ * after the transfer is received.
+ */
+async function unitsStillInTransit(executor: Executor, transferId: string): Promise<string[]> {
+	const rows = await executor
+		.select({ productStockId: schemas.warehouseTransferDiscrepancy.productStockId })
+		.from(schemas.warehouseTransferDiscrepancy)
+		.where(
+			and(
+				eq(schemas.warehouseTransferDiscrepancy.transferId, transferId),
+				eq(schemas.warehouseTransferDiscrepancy.outcome, 'in_transit'),
+			),
+		);
+	return rows.flatMap((row) => (row.productStockId ? [row.productStockId] : []));
+}
+
+/**
+ * Clears the in-transit mark of the units of a transfer that was received or cancelled,
+ * except the ones still in transit after discrepancy resolution.
+ *
+ * @returns The IDs of the released units
+ */
+export async function releaseTransferUnits(
+	executor: Executor,
+	transferId: string,
+): Promise<string[]> {
+	const details = await executor
+		.select({ productStockId: schemas.warehouseTransferDetails.productStockId })
+		.from(schemas.warehouseTransferDetails)
+		.where(eq(schemas.warehouseTransferDetails.transferId, transferId));
+	if (details.length === 0) {
+		return [];
+	}
+	const stillInTransit = await unitsStillInTransit(executor, transferId);
+	const released = await executor
+		.update(schemas.productStock)
+		.set({ isInTransit: false })
+		.where(
+			and(
+				inArray(
+					schemas.productStock.id,
+					details.map((detail) => detail.productStockId),
+				),
+				eq(schemas.productStock.isInTransit, true),
+				...(stillInTransit.length > 0
+					? [notInArray(schemas.productStock.id, stillInTransit)]
+					: []),
+			),
+		)
+		.returning({ id: schemas.productStock.id });
+	return released.map((unit) => unit.id);
+}
+
+/**
+ * Marks the units of a transfer as in transit when it is dispatched. Every unit must still be
+ * available at the source: not deleted, empty, withdrawn or travelling on another transfer.
+ *
+ * @returns The dispatched units, for the stock events
+ * @throws 409 listing the units that cannot be dispatched
+ */
+async function dispatchTransferUnits(
+	tx: Transaction,
+	transfer: TransferRow,
+): Promise<{ id: string; currentWarehouse: string }[]> {
+	const details = await tx
+		.select({ productStockId: schemas.warehouseTransferDetails.productStockId })
+		.from(schemas.warehouseTransferDetails)
+		.where(eq(schemas.warehouseTransferDetails.transferId, transfer.id));
+	const unitIds = details.map((detail) => detail.productStockId);
+	if (unitIds.length === 0) {
+		throw new HTTPException(409, { message: 'Transfer has no items to dispatch' });
+	}
+
+	const units = await tx
+		.select({
+			id: schemas.productStock.id,
+			currentWarehouse: schemas.productStock.currentWarehouse,
+			isDeleted: schemas.productStock.isDeleted,
+			isEmpty: schemas.productStock.isEmpty,
+			isBeingUsed: schemas.productStock.isBeingUsed,
+			isInTransit: schemas.productStock.isInTransit,
+		})
+		.from(schemas.productStock)
+		.where(inArray(schemas.productStock.id, unitIds))
+		.for('update');
+	const unavailable = unitIds.filter((id) => {
+		const unit = units.find((row) => row.id === id);
+		return (
+			!unit ||
+			unit.isDeleted ||
+			unit.isEmpty ||
+			unit.isBeingUsed ||
+			unit.isInTransit ||
+			unit.currentWarehouse !== transfer.sourceWarehouseId
+		);
+	});
+	if (unavailable.length > 0) {
+		throw new HTTPException(409, {
+			message: `Units ${unavailable.join(', ')} are not available at the source warehouse`,
+		});
+	}
+
+	await tx
+		.update(schemas.productStock)
+		.set({ isInTransit: true })
+		.where(inArray(schemas.productStock.id, unitIds));
+	return units.map((unit) => ({ id: unit.id, currentWarehouse: unit.currentWarehouse }));
+}
+
+/**
+ * Moves a transfer through the state machine (everything but receiving, which goes through
+ * `/update-status`):
+ * - picked, dispatched and in_transit are done at the source; dispatching needs the approval
+ *   cleared and marks the units in transit
+ * - cancelled releases the units of a dispatched transfer
+ * - closed is done at the destination once no item is left in transit
+ *
+ * @returns The updated transfer and the units whose availability changed
+ * @throws 403 when the acting warehouse is outside the user's scope
+ * @throws 409 when the move is not allowed from the current state
+ */
+export async function transitionTransfer({
+	input,
+	user,
+	scope,
+}: {
+	input: TransferTransition;
+	user: SessionUser | null | undefined;
+	scope: WarehouseScope;
+}): Promise<{ transfer: TransferRow; changedUnits: { id: string; currentWarehouse: string }[] }> {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+	const actor = user;
+
+	return await db.transaction(async (tx) => {
+		const [transfer] = await tx
+			.select()
+			.from(schemas.warehouseTransfer)
+			.where(eq(schemas.warehouseTransfer.id, input.transferId))
+			.limit(1)
+			.for('update');
+		if (!transfer) {
+			throw new HTTPException(404, { message: 'Warehouse transfer not found' });
+		}
+		const actingWarehouseId =
+			input.status === 'closed' ? transfer.destinationWarehouseId : transfer.sourceWarehouseId;
+		if (!canAccessWarehouse(scope, actingWarehouseId)) {
+			throw new HTTPException(403, { message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE });
+		}
+		const transitionError = transferTransitionError(transfer.status, input.status);
+		if (transitionError) {
+			throw new HTTPException(409, { message: transitionError });
+		}
+
+		let changedUnits: { id: string; currentWarehouse: string }[] = [];
+		if (input.status === 'dispatched') {
+			if (!isApprovalCleared(transfer.approvalStatus)) {
+				throw new HTTPException(409, {
+					message: 'Transfer must be approved before it is dispatched',
+				});
+			}
+			changedUnits = await dispatchTransferUnits(tx, transfer);
+		} else if (input.status === 'cancelled' && transfer.status === 'dispatched') {
+			const releasedIds = await releaseTransferUnits(tx, transfer.id);
+			changedUnits = releasedIds.map((id) => ({
+				id,
+				currentWarehouse: transfer.sourceWarehouseId,
+			}));
+		} else if (input.status === 'closed') {
+			const stillInTransit = await unitsStillInTransit(tx, transfer.id);
+			if (stillInTransit.length > 0) {
+				throw new HTTPException(409, {
+					message: 'Transfer cannot be closed while items are still in transit',
+				});
+			}
+		}
+
+		const [updated] = await tx
+			.update(schemas.warehouseTransfer)
+			.set({
+				...transferStatusValues(input.status, actor.id, new Date()),
+				...(input.notes !== undefined && { notes: input.notes }),
+			})
+			.where(eq(schemas.warehouseTransfer.id, transfer.id))
+			.returning();
+
+		await recordAuditLog(tx, {
+			actor,
+			entityType: 'warehouse_transfer',
+			entityId: transfer.id,
+			action: 'status_change',
+			before: transfer,
+			after: updated,
+			metadata: { from: transfer.status, to: input.status },
+		});
+		return { transfer: updated, changedUnits };
+	});
+}
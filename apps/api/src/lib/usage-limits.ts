@@ -0,0 +1,187 @@
+import { and, asc, eq, gte, inArray, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import { shrinkageUnitCost } from './inventory-valuation';
+import { enqueueShrinkageRecordedWebhook } from './webhooks';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+/**
+ * Outcome of checking units against their usage limits after their use count changed.
+ */
+export type UsageLimitEnforcement = {
+	// Units marked empty with a `consumido` shrinkage event
+	retiredProductStockIds: string[];
+	// Units that reached `maxUsage` while checked out; they are retired when returned
+	pendingRetirementProductStockIds: string[];
+};
+
+/**
+ * A unit in the "por agotarse" list. `approaching` units reached `minUsage`;
+ * `limit_reached` units reached `maxUsage` and are retired on their next return.
+ */
+export type UsageLimitAlert = {
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	warehouseId: string;
+	warehouseName: string;
+	numberOfUses: number;
+	minUsage: number | null;
+	maxUsage: number;
+	remainingUses: number;
+	isBeingUsed: boolean;
+	status: 'approaching' | 'limit_reached';
+};
+
+// Joins a unit with the usage limit of its barcode in its current warehouse
+const usageLimitJoin = and(
+	eq(schemas.stockLimit.warehouseId, schemas.productStock.currentWarehouse),
+	eq(schemas.stockLimit.barcode, schemas.productStock.barcode),
+	eq(schemas.stockLimit.limitType, 'usage'),
+);
+
+/**
+ * Retires the units that reached the `maxUsage` of their usage limit. Units on the shelf are
+ * marked empty and written off with a `consumido` shrinkage event (source `usage_limit`);
+ * units still checked out are only reported and get retired by the return that frees them.
+ * Call it after incrementing `numberOfUses` and after returns; the caller's `stock.changed`
+ * event already covers the retired units.
+ */
+export async function enforceUsageLimits(
+	executor: Executor,
+	productStockIds: string[],
+	userId: string | null,
+): Promise<UsageLimitEnforcement> {
+	const result: UsageLimitEnforcement = {
+		retiredProductStockIds: [],
+		pendingRetirementProductStockIds: [],
+	};
+	if (productStockIds.length === 0) {
+		return result;
+	}
+
+	const exhaustedUnits = await executor
+		.select({
+			id: schemas.productStock.id,
+			barcode: schemas.productStock.barcode,
+			description: schemas.productStock.description,
+			currentWarehouse: schemas.productStock.currentWarehouse,
+			isBeingUsed: schemas.productStock.isBeingUsed,
+			numberOfUses: schemas.productStock.numberOfUses,
+			maxUsage: schemas.stockLimit.maxUsage,
+		})
+		.from(schemas.productStock)
+		.innerJoin(schemas.stockLimit, usageLimitJoin)
+		.where(
+			and(
+				inArray(schemas.productStock.id, [...new Set(productStockIds)]),
+				eq(schemas.productStock.isDeleted, false),
+				eq(schemas.productStock.isEmpty, false),
+				isNotNull(schemas.stockLimit.maxUsage),
+				gte(schemas.productStock.numberOfUses, schemas.stockLimit.maxUsage),
+			),
+		);
+
+	const retirable = exhaustedUnits.filter((unit) => !unit.isBeingUsed);
+	result.pendingRetirementProductStockIds = exhaustedUnits
+		.filter((unit) => unit.isBeingUsed)
+		.map((unit) => unit.id);
+	if (retirable.length === 0) {
+		return result;
+	}
+
+	// Guarded on isEmpty so concurrent returns retire (and write off) a unit only once
+	const retired = await executor
+		.update(schemas.productStock)
+		.set({ isEmpty: true })
+		.where(
+			and(
+				inArray(
+					schemas.productStock.id,
+					retirable.map((unit) => unit.id),
+				),
+				eq(schemas.productStock.isEmpty, false),
+			),
+		)
+		.returning({ id: schemas.productStock.id });
+	const retiredIds = new Set(retired.map((unit) => unit.id));
+
+	const writeOffs = retirable.filter((unit) => retiredIds.has(unit.id));
+	if (writeOffs.length > 0) {
+		const insertedEvents = await executor
+			.insert(schemas.inventoryShrinkageEvent)
+			.values(
+				writeOffs.map((unit) => ({
+					source: 'usage_limit',
+					reason: 'consumido',
+					quantity: 1,
+					notes: `Alcanzó el límite de ${unit.maxUsage} usos (${unit.numberOfUses} registrados)`,
+					warehouseId: unit.currentWarehouse,
+					productStockId: unit.id,
+					productBarcode: unit.barcode,
+					productDescription: unit.description,
+					unitCost: shrinkageUnitCost(unit.id, unit.barcode),
+					createdByUserId: userId,
+				})),
+			)
+			.onConflictDoNothing()
+			.returning();
+		await enqueueShrinkageRecordedWebhook(executor, insertedEvents);
+	}
+
+	result.retiredProductStockIds = writeOffs.map((unit) => unit.id);
+	return result;
+}
+
+/**
+ * Lists the units that reached the `minUsage` of their usage limit ("por agotarse"), closest
+ * to their `maxUsage` first. Limits without `minUsage` only list units at `maxUsage`.
+ */
+export async function listUsageLimitAlerts(warehouseId?: string): Promise<UsageLimitAlert[]> {
+	const rows = await db
+		.select({
+			productStockId: schemas.productStock.id,
+			barcode: schemas.productStock.barcode,
+			description: schemas.productStock.description,
+			warehouseId: schemas.productStock.currentWarehouse,
+			warehouseName: schemas.warehouse.name,
+			numberOfUses: schemas.productStock.numberOfUses,
+			minUsage: schemas.stockLimit.minUsage,
+			maxUsage: schemas.stockLimit.maxUsage,
+			isBeingUsed: schemas.productStock.isBeingUsed,
+		})
+		.from(schemas.productStock)
+		.innerJoin(schemas.stockLimit, usageLimitJoin)
+		.innerJoin(schemas.warehouse, eq(schemas.warehouse.id, schemas.productStock.currentWarehouse))
+		.where(
+			and(
+				warehouseId ? eq(schemas.productStock.currentWarehouse, warehouseId) : undefined,
+				eq(schemas.productStock.isDeleted, false),
+				eq(schemas.productStock.isEmpty, false),
+				isNotNull(schemas.stockLimit.maxUsage),
+				gte(
+					schemas.productStock.numberOfUses,
+					sql`coalesce(${schemas.stockLimit.minUsage}, ${schemas.stockLimit.maxUsage})`,
+				),
+			),
+		)
+		.orderBy(
+			asc(sql`${schemas.stockLimit.maxUsage} - ${schemas.productStock.numberOfUses}`),
+			asc(schemas.productStock.barcode),
+			asc(schemas.productStock.id),
+		);
+
+	return rows.map(({ maxUsage, ...row }) => {
+		const limit = maxUsage ?? 0;
+		return {
+			...row,
+			maxUsage: limit,
+			remainingUses: Math.max(limit - row.numberOfUses, 0),
+			status: row.numberOfUses >= limit ? 'limit_reached' : 'approaching',
+		};
+	});
+}
@@ -0,0 +1,164 @@
+import { eq, inArray, or, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { createMiddleware } from 'hono/factory';
+import type { ApiEnv } from '../context';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type { ApiResponse } from './api-response';
+import { hasPermission } from './permissions';
+
+/**
+ * Warehouses the session user may read. Global scope covers every warehouse; otherwise the
+ * user is limited to the warehouse (and its cabinet) they are assigned to.
+ */
+export type WarehouseScope = { global: true } | { global: false; warehouseId: string };
+
+export const WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE = 'Forbidden - warehouse is outside your scope';
+
+/**
+ * Resolves the warehouse scope of a user: admin (`warehouses.view_all`) and users assigned to a
+ * CEDIS warehouse are global, everyone else is limited to their own warehouse.
+ *
+ * @returns The scope, or null when the user is not global and has no assigned warehouse
+ */
+export async function resolveWarehouseScope(user: {
+	id: string;
+	role?: string | null | undefined;
+	warehouseId?: string | null | undefined;
+}): Promise<WarehouseScope | null> {
+	if (await hasPermission(user, 'warehouses.view_all')) {
+		return { global: true };
+	}
+	if (!user.warehouseId) {
+		return null;
+	}
+
+	const [assignedWarehouse] = await db
+		.select({ isCedis: schemas.warehouse.isCedis })
+		.from(schemas.warehouse)
+		.where(eq(schemas.warehouse.id, user.warehouseId))
+		.limit(1);
+
+	if (assignedWarehouse?.isCedis) {
+		return { global: true };
+	}
+	return { global: false, warehouseId: user.warehouseId };
+}
+
+/**
+ * Hono middleware that resolves the session user's warehouse scope and exposes it as
+ * `c.get('warehouseScope')`. Responds 401 without a session and 403 when the user has no
+ * assigned warehouse and no global scope. Mount it after `requirePermission()`.
+ */
+export const warehouseScope = () =>
+	createMiddleware<ApiEnv>(async (c, next) => {
+		const user = c.get('user');
+		if (!user) {
+			return c.json(
+				{
+					success: false,
+					message: 'Authentication required',
+				} satisfies ApiResponse,
+				401,
+			);
+		}
+
+		const scope = await resolveWarehouseScope(user);
+		if (!scope) {
+			return c.json(
+				{
+					success: false,
+					message: 'Forbidden - user is not assigned to a warehouse',
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		c.set('warehouseScope', scope);
+		await next();
+	});
+
+/**
+ * Checks whether a record linked to the given warehouses is visible in the scope. A transfer,
+ * for example, is visible from both its source and its destination warehouse.
+ */
+export function canAccessWarehouse(
+	scope: WarehouseScope,
+	...warehouseIds: (string | null | undefined)[]
+): boolean {
+	return scope.global || warehouseIds.includes(scope.warehouseId);
+}
+
+/**
+ * Checks whether an employee belongs to a warehouse visible in the scope.
+ */
+export async function canAccessEmployee(
+	scope: WarehouseScope,
+	employeeId: string,
+): Promise<boolean> {
+	if (scope.global) {
+		return true;
+	}
+
+	const [employeeRow] = await db
+		.select({ warehouseId: schemas.employee.warehouseId })
+		.from(schemas.employee)
+		.where(eq(schemas.employee.id, employeeId))
+		.limit(1);
+
+	return employeeRow?.warehouseId === scope.warehouseId;
+}
+
+/**
+ * Builds the list filter for a scope: undefined when global, otherwise a condition matching
+ * rows whose warehouse column (any of them) is the scoped warehouse.
+ */
+export function warehouseScopeCondition(
+	scope: WarehouseScope,
+	...columns: PgColumn[]
+): SQL | undefined {
+	if (scope.global) {
+		return;
+	}
+	return or(...columns.map((column) => eq(column, scope.warehouseId)));
+}
+
+/**
+ * Builds the product stock filter for a scope: units in the scoped warehouse or in its cabinet.
+ */
+export function productStockScopeCondition(scope: WarehouseScope): SQL | undefined {
+	if (scope.global) {
+		return;
+	}
+	return or(
+		eq(schemas.productStock.currentWarehouse, scope.warehouseId),
+		inArray(
+			schemas.productStock.currentCabinet,
+			db
+				.select({ id: schemas.cabinetWarehouse.id })
+				.from(schemas.cabinetWarehouse)
+				.where(eq(schemas.cabinetWarehouse.warehouseId, scope.warehouseId)),
+		),
+	);
+}
+
+/**
+ * Builds the filter for records owned by an employee column (kits, withdraw orders): the
+ * employee must belong to the scoped warehouse.
+ */
+export function employeeScopeCondition(
+	scope: WarehouseScope,
+	employeeColumn: PgColumn,
+): SQL | undefined {
+	if (scope.global) {
+		return;
+	}
+	return inArray(
+		employeeColumn,
+		db
+			.select({ id: schemas.employee.id })
+			.from(schemas.employee)
+			.where(eq(schemas.employee.warehouseId, scope.warehouseId)),
+	);
+}
@@ -0,0 +1,528 @@
+/** biome-ignore-all lint/complexity/noExcessiveCognitiveComplexity: Delivery dispatch needs to handle every outcome explicitly */
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { and, desc, eq, inArray, lt, lte, or, type SQL, sql } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db/index';
+// biome-ignore lint/performance/noNamespaceImport: Drizzle schema
+import * as schemas from '../db/schema';
+import type {
+	WebhookDeliveryListQuery,
+	WebhookEventType,
+	WebhookSubscriptionCreate,
+	WebhookSubscriptionUpdate,
+} from '../types';
+import { computeNextAttemptAt } from './altegio-outbox';
+import type { SessionUser } from './replenishment-orders';
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+type Executor = Database | Transaction;
+
+type WebhookSubscriptionRow = typeof schemas.webhookSubscription.$inferSelect;
+type ShrinkageEventRow = typeof schemas.inventoryShrinkageEvent.$inferSelect;
+
+export type WebhookDelivery = typeof schemas.webhookDelivery.$inferSelect;
+
+/**
+ * Subscription as listed to clients: the secret is only returned when it is created or rotated.
+ */
+export type WebhookSubscription = Omit<WebhookSubscriptionRow, 'secret'> & {
+	secretHint: string;
+};
+
+export type WebhookSubscriptionWithSecret = WebhookSubscription & { secret: string };
+
+/**
+ * Body POSTed to the subscribers. `id` is shared by every delivery and replay of the event.
+ */
+export type WebhookEventPayload = {
+	id: string;
+	type: WebhookEventType;
+	occurredAt: string;
+	data: Record<string, unknown>;
+};
+
+const SIGNATURE_HEADER = 'X-ALR-Signature';
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY_LENGTH = 500;
+/** Deliveries stuck in processing longer than this are considered abandoned (e.g. server restart). */
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const DEFAULT_WORKER_INTERVAL_MS = 15_000;
+const DEFAULT_BATCH_SIZE = 20;
+
+/**
+ * Signs a webhook body. Receivers recompute the HMAC-SHA256 of `${timestamp}.${body}` with the
+ * subscription secret and compare it with the `X-ALR-Signature` header (`sha256=<hex>`).
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+	const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+	return `sha256=${digest}`;
+}
+
+function generateWebhookSecret(): string {
+	return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+function toPublicSubscription(row: WebhookSubscriptionRow): WebhookSubscription {
+	const { secret, ...subscription } = row;
+	return { ...subscription, secretHint: `…${secret.slice(-4)}` };
+}
+
+/**
+ * Queues an event for every active subscription to its type. Call it inside the transaction
+ * that commits the change, next to the usage history or shrinkage writes, so an event is
+ * queued exactly when the change persists.
+ *
+ * @returns Number of deliveries queued
+ */
+export async function enqueueWebhookEvent(
+	executor: Executor,
+	input: { type: WebhookEventType; data: Record<string, unknown> },
+): Promise<number> {
+	const subscriptions = await executor
+		.select({ id: schemas.webhookSubscription.id })
+		.from(schemas.webhookSubscription)
+		.where(
+			and(
+				eq(schemas.webhookSubscription.isActive, true),
+				sql`${schemas.webhookSubscription.eventTypes} @> ${JSON.stringify([input.type])}::jsonb`,
+			),
+		);
+	if (subscriptions.length === 0) {
+		return 0;
+	}
+
+	const payload: WebhookEventPayload = {
+		id: randomUUID(),
+		type: input.type,
+		occurredAt: new Date().toISOString(),
+		data: input.data,
+	};
+	await executor.insert(schemas.webhookDelivery).values(
+		subscriptions.map((subscription) => ({
+			subscriptionId: subscription.id,
+			eventId: payload.id,
+			eventType: payload.type,
+			payload,
+		})),
+	);
+	return subscriptions.length;
+}
+
+/**
+ * Queues `shrinkage.recorded` for inventory shrinkage events that were just inserted.
+ * Nothing is queued when the insert skipped every row.
+ */
+export async function enqueueShrinkageRecordedWebhook(
+	executor: Executor,
+	events: ShrinkageEventRow[],
+): Promise<number> {
+	if (events.length === 0) {
+		return 0;
+	}
+	return await enqueueWebhookEvent(executor, {
+		type: 'shrinkage.recorded',
+		data: {
+			events: events.map((event) => ({
+				id: event.id,
+				createdAt: event.createdAt.toISOString(),
+				source: event.source,
+				reason: event.reason,
+				quantity: event.quantity,
+				unitCost: event.unitCost,
+				notes: event.notes,
+				warehouseId: event.warehouseId,
+				productStockId: event.productStockId,
+				productBarcode: event.productBarcode,
+				productDescription: event.productDescription,
+				transferId: event.transferId,
+				transferNumber: event.transferNumber,
+				cycleCountId: event.cycleCountId,
+				createdByUserId: event.createdByUserId,
+			})),
+		},
+	});
+}
+
+/**
+ * Atomically moves a due delivery to processing so concurrent workers never send it twice.
+ * Stale processing locks are reclaimed.
+ */
+async function claimDelivery(
+	id: string,
+	{ force }: { force: boolean },
+): Promise<WebhookDelivery | null> {
+	const now = new Date();
+	const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+	const claimable = or(
+		force
+			? inArray(schemas.webhookDelivery.status, ['pending', 'failed'])
+			: and(
+					eq(schemas.webhookDelivery.status, 'pending'),
+					lte(schemas.webhookDelivery.nextAttemptAt, now),
+				),
+		and(
+			eq(schemas.webhookDelivery.status, 'processing'),
+			lt(schemas.webhookDelivery.lockedAt, staleBefore),
+		),
+	);
+
+	const [claimed] = await db
+		.update(schemas.webhookDelivery)
+		.set({
+			status: 'processing',
+			lockedAt: now,
+			attempts: sql`${schemas.webhookDelivery.attempts} + 1`,
+			updatedAt: now,
+		})
+		.where(and(eq(schemas.webhookDelivery.id, id), claimable))
+		.returning();
+
+	return claimed ?? null;
+}
+
+type DeliveryAttemptResult = {
+	success: boolean;
+	statusCode: number | null;
+	responseBody: string | null;
+	error: string | null;
+};
+
+async function sendDelivery(
+	delivery: WebhookDelivery,
+	subscription: WebhookSubscriptionRow,
+): Promise<DeliveryAttemptResult> {
+	const body = JSON.stringify(delivery.payload);
+	const timestamp = Math.floor(Date.now() / 1000);
+
+	try {
+		const response = await fetch(subscription.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'ALR-Inventory-Webhooks/1.0',
+				'X-ALR-Event': delivery.eventType,
+				'X-ALR-Event-Id': delivery.eventId,
+				'X-ALR-Delivery': delivery.id,
+				'X-ALR-Timestamp': String(timestamp),
+				[SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body),
+			},
+			body,
+			redirect: 'manual',
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		const responseText = await response.text().catch(() => '');
+		const responseBody = responseText ? responseText.slice(0, MAX_RESPONSE_BODY_LENGTH) : null;
+
+		return {
+			success: response.ok,
+			statusCode: response.status,
+			responseBody,
+			error: response.ok ? null : `Receiver responded with HTTP ${response.status}`,
+		};
+	} catch (error) {
+		return {
+			success: false,
+			statusCode: null,
+			responseBody: null,
+			error: error instanceof Error ? error.message : 'Unknown error during webhook delivery',
+		};
+	}
+}
+
+/**
+ * Sends a single delivery and records the outcome. Any 2xx response succeeds. Failed attempts
+ * are rescheduled with the same exponential backoff as the Altegio outbox until maxAttempts
+ * is reached, after which the delivery is marked as failed and only a replay sends it again.
+ *
+ * @param id - Delivery ID
+ * @param options.force - Send immediately even if the delivery is not due yet or already failed
+ * @returns The updated delivery, or null when it could not be claimed
+ */
+export async function processWebhookDelivery(
+	id: string,
+	{ force = false }: { force?: boolean } = {},
+): Promise<WebhookDelivery | null> {
+	const delivery = await claimDelivery(id, { force });
+	if (!delivery) {
+		return null;
+	}
+
+	const [subscription] = await db
+		.select()
+		.from(schemas.webhookSubscription)
+		.where(eq(schemas.webhookSubscription.id, delivery.subscriptionId))
+		.limit(1);
+
+	let attempt: DeliveryAttemptResult;
+	if (subscription?.isActive) {
+		attempt = await sendDelivery(delivery, subscription);
+	} else {
+		attempt = {
+			success: false,
+			statusCode: null,
+			responseBody: null,
+			error: subscription ? 'Subscription is paused' : 'Subscription not found',
+		};
+	}
+
+	const now = new Date();
+	const attemptValues = {
+		lockedAt: null,
+		lastAttemptAt: now,
+		lastStatusCode: attempt.statusCode,
+		lastResponseBody: attempt.responseBody,
+		updatedAt: now,
+	};
+
+	if (attempt.success) {
+		const [updated] = await db
+			.update(schemas.webhookDelivery)
+			.set({ ...attemptValues, status: 'succeeded', lastError: null, completedAt: now })
+			.where(eq(schemas.webhookDelivery.id, delivery.id))
+			.returning();
+		return updated ?? null;
+	}
+
+	// Paused subscriptions keep their deliveries failed until they are replayed
+	const exhausted = delivery.attempts >= delivery.maxAttempts || !subscription?.isActive;
+	// biome-ignore lint/suspicious/noConsole: Logging provides webhook delivery visibility
+	console.error('Webhook delivery attempt failed', {
+		deliveryId: delivery.id,
+		subscriptionId: delivery.subscriptionId,
+		eventType: delivery.eventType,
+		attempts: delivery.attempts,
+		exhausted,
+		error: attempt.error,
+	});
+
+	const [updated] = await db
+		.update(schemas.webhookDelivery)
+		.set({
+			...attemptValues,
+			status: exhausted ? 'failed' : 'pending',
+			lastError: attempt.error,
+			nextAttemptAt: computeNextAttemptAt(delivery.attempts, now),
+		})
+		.where(eq(schemas.webhookDelivery.id, delivery.id))
+		.returning();
+	return updated ?? null;
+}
+
+/**
+ * Sends the deliveries that are due, oldest first.
+ *
+ * @returns Number of deliveries that were processed
+ */
+export async function processDueWebhookDeliveries({
+	limit = DEFAULT_BATCH_SIZE,
+}: {
+	limit?: number;
+} = {}): Promise<number> {
+	const now = new Date();
+	const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+	const dueDeliveries = await db
+		.select({ id: schemas.webhookDelivery.id })
+		.from(schemas.webhookDelivery)
+		.where(
+			or(
+				and(
+					eq(schemas.webhookDelivery.status, 'pending'),
+					lte(schemas.webhookDelivery.nextAttemptAt, now),
+				),
+				and(
+					eq(schemas.webhookDelivery.status, 'processing'),
+					lt(schemas.webhookDelivery.lockedAt, staleBefore),
+				),
+			),
+		)
+		.orderBy(schemas.webhookDelivery.nextAttemptAt)
+		.limit(limit);
+
+	let processed = 0;
+	for (const { id } of dueDeliveries) {
+		// biome-ignore lint: Deliveries are sent one at a time to keep receivers in order
+		const result = await processWebhookDelivery(id);
+		if (result) {
+			processed += 1;
+		}
+	}
+	return processed;
+}
+
+/**
+ * Starts the background worker that sends queued webhook deliveries on a fixed interval.
+ * Ticks never overlap; the timer does not keep the process alive.
+ *
+ * Env:
+ * - WEBHOOK_DELIVERY_INTERVAL_MS: polling interval (default 15000)
+ *
+ * @returns Function that stops the worker
+ */
+export function startWebhookDeliveryWorker({
+	intervalMs = Number(process.env.WEBHOOK_DELIVERY_INTERVAL_MS ?? DEFAULT_WORKER_INTERVAL_MS),
+}: {
+	intervalMs?: number;
+} = {}): () => void {
+	let running = false;
+	const tick = async () => {
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			await processDueWebhookDeliveries();
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Worker failures must be visible in logs
+			console.error('Webhook delivery worker tick failed', error);
+		} finally {
+			running = false;
+		}
+	};
+
+	const timer = setInterval(tick, intervalMs);
+	timer.unref?.();
+	return () => clearInterval(timer);
+}
+
+function assertAuthenticated(user: SessionUser | null | undefined): asserts user is SessionUser {
+	if (!user?.id) {
+		throw new HTTPException(401, { message: 'Authentication required' });
+	}
+}
+
+export async function listWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+	const rows = await db
+		.select()
+		.from(schemas.webhookSubscription)
+		.orderBy(desc(schemas.webhookSubscription.createdAt));
+	return rows.map(toPublicSubscription);
+}
+
+/**
+ * Creates a subscription. The response is the only place the generated secret is shown.
+ */
+export async function createWebhookSubscription(
+	input: WebhookSubscriptionCreate,
+	user: SessionUser | null | undefined,
+): Promise<WebhookSubscriptionWithSecret> {
+	assertAuthenticated(user);
+
+	const [row] = await db
+		.insert(schemas.webhookSubscription)
+		.values({
+			name: input.name,
+			url: input.url,
+			eventTypes: [...new Set(input.eventTypes)],
+			secret: input.secret ?? generateWebhookSecret(),
+			isActive: input.isActive,
+			createdByUserId: user.id,
+		})
+		.returning();
+	return { ...toPublicSubscription(row), secret: row.secret };
+}
+
+/**
+ * Updates a subscription. With `rotateSecret` the new secret is returned once.
+ */
+export async function updateWebhookSubscription(
+	id: string,
+	input: WebhookSubscriptionUpdate,
+): Promise<WebhookSubscription | WebhookSubscriptionWithSecret> {
+	const [row] = await db
+		.update(schemas.webhookSubscription)
+		.set({
+			...(input.name !== undefined && { name: input.name }),
+			...(input.url !== undefined && { url: input.url }),
+			...(input.eventTypes !== undefined && { eventTypes: [...new Set(input.eventTypes)] }),
+			...(input.isActive !== undefined && { isActive: input.isActive }),
+			...(input.rotateSecret && { secret: generateWebhookSecret() }),
+			updatedAt: new Date(),
+		})
+		.where(eq(schemas.webhookSubscription.id, id))
+		.returning();
+	if (!row) {
+		throw new HTTPException(404, { message: 'Webhook subscription not found' });
+	}
+	return input.rotateSecret
+		? { ...toPublicSubscription(row), secret: row.secret }
+		: toPublicSubscription(row);
+}
+
+/**
+ * Deletes a subscription together with its delivery log.
+ */
+export async function deleteWebhookSubscription(id: string): Promise<void> {
+	const deleted = await db
+		.delete(schemas.webhookSubscription)
+		.where(eq(schemas.webhookSubscription.id, id))
+		.returning({ id: schemas.webhookSubscription.id });
+	if (deleted.length === 0) {
+		throw new HTTPException(404, { message: 'Webhook subscription not found' });
+	}
+}
+
+/**
+ * Lists the delivery log, newest first.
+ */
+export async function listWebhookDeliveries(
+	query: WebhookDeliveryListQuery,
+): Promise<WebhookDelivery[]> {
+	const filters: SQL[] = [];
+	if (query.subscriptionId) {
+		filters.push(eq(schemas.webhookDelivery.subscriptionId, query.subscriptionId));
+	}
+	if (query.status) {
+		filters.push(eq(schemas.webhookDelivery.status, query.status));
+	}
+
+	return await db
+		.select()
+		.from(schemas.webhookDelivery)
+		.where(filters.length > 0 ? and(...filters) : undefined)
+		.orderBy(desc(schemas.webhookDelivery.createdAt), desc(schemas.webhookDelivery.id))
+		.limit(query.limit);
+}
+
+/**
+ * Sends an event again as a new delivery of the same subscription. The original delivery stays
+ * untouched in the log; the replay keeps its event ID so receivers can deduplicate it.
+ */
+export async function replayWebhookDelivery({
+	id,
+	user,
+}: {
+	id: string;
+	user: SessionUser | null | undefined;
+}): Promise<WebhookDelivery> {
+	assertAuthenticated(user);
+
+	const [original] = await db
+		.select()
+		.from(schemas.webhookDelivery)
+		.where(eq(schemas.webhookDelivery.id, id))
+		.limit(1);
+	if (!original) {
+		throw new HTTPException(404, { message: 'Webhook delivery not found' });
+	}
+	if (original.status === 'pending' || original.status === 'processing') {
+		throw new HTTPException(409, {
+			message: `Cannot replay a delivery with status ${original.status}`,
+		});
+	}
+
+	const [replay] = await db
+		.insert(schemas.webhookDelivery)
+		.values({
+			subscriptionId: original.subscriptionId,
+			eventId: original.eventId,
+			eventType: original.eventType,
+			payload: original.payload,
+			replayOfDeliveryId: original.id,
+			createdByUserId: user.id,
+		})
+		.returning();
+
+	const processed = await processWebhookDelivery(replay.id, { force: true });
+	return processed ?? replay;
+}
@@ -0,0 +1,231 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { employee, kits, productStock, user, warehouse, warehouseTransfer } from './db/schema';
+import { auth } from './lib/auth';
+
+let warehouseId: string;
+let employeeId: string;
+let productIds: string[];
+let transferIds: string[];
+let kitIds: string[];
+let testUserId: string;
+let transferPrefix: string;
+let originalGetSession: typeof auth.api.getSession;
+
+async function getJson(path: string) {
+	const response = await app.fetch(new Request(`http://localhost/api/auth${path}`));
+	return { status: response.status, json: await response.json() };
+}
+
+/**
+ * Follows `meta[0].nextCursor` until the last page and returns every page.
+ */
+async function collectPages<T>(path: string, getItems: (data: unknown) => T[]) {
+	const pages: T[][] = [];
+	let cursor: string | null = null;
+	do {
+		const separator = path.includes('?') ? '&' : '?';
+		const url: string = cursor
+			? `${path}${separator}cursor=${encodeURIComponent(cursor)}`
+			: path;
+		const { status, json } = await getJson(url);
+		expect(status).toBe(200);
+		pages.push(getItems(json.data));
+		cursor = json.meta[0].nextCursor;
+	} while (cursor);
+	return pages;
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Pagination Warehouse',
+		code: `PAG-${warehouseId.slice(0, 8)}`,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	employeeId = randomUUID();
+	await db
+		.insert(employee)
+		.values({ id: employeeId, name: 'Paging', surname: 'Employee', warehouseId });
+
+	productIds = [1, 2, 3, 4, 5].map(() => randomUUID());
+	await db.insert(productStock).values(
+		productIds.map((id, index) => ({
+			id,
+			barcode: 8_100_001 + index,
+			description: index % 2 === 0 ? 'Tinte rubio' : 'Shampoo neutro',
+			isEmpty: index === 4,
+			currentWarehouse: warehouseId,
+		})),
+	);
+
+	// Same createdAt on every transfer so paging has to break ties by id
+	transferPrefix = `PAG-${randomUUID().slice(0, 8)}`;
+	transferIds = [1, 2, 3].map(() => randomUUID());
+	await db.insert(warehouseTransfer).values(
+		transferIds.map((id, index) => ({
+			id,
+			transferNumber: `${transferPrefix}-${index}`,
+			transferType: 'external',
+			sourceWarehouseId: warehouseId,
+			destinationWarehouseId: warehouseId,
+			initiatedBy: employeeId,
+			createdAt: now,
+			updatedAt: now,
+		})),
+	);
+
+	kitIds = [1, 2, 3].map(() => randomUUID());
+	await db
+		.insert(kits)
+		.values(
+			kitIds.map((id, index) => ({ id, assignedEmployee: employeeId, numProducts: index + 1 })),
+		);
+
+	testUserId = randomUUID();
+	const email = `admin.${Date.now()}@list-pagination-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Pagination Admin',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Pagination Admin',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: null,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db.delete(kits).where(inArray(kits.id, kitIds));
+	await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	await db.delete(productStock).where(inArray(productStock.id, productIds));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('List pagination', () => {
+	it('pages product stock by warehouse in sort order', async () => {
+		const pages = await collectPages(
+			`/product-stock/by-warehouse?warehouseId=${warehouseId}&limit=2&sort=-barcode`,
+			(data) =>
+				(data as { warehouse: { productStock: { barcode: number } }[] }).warehouse.map(
+					(row) => row.productStock.barcode,
+				),
+		);
+
+		expect(pages.map((page) => page.length)).toEqual([2, 2, 1]);
+		expect(pages.flat()).toEqual([8_100_005, 8_100_004, 8_100_003, 8_100_002, 8_100_001]);
+	});
+
+	it('returns every match with a null cursor when no limit is given', async () => {
+		const { json } = await getJson(`/product-stock/by-warehouse?warehouseId=${warehouseId}`);
+		expect(json.data.warehouse).toHaveLength(5);
+		expect(json.meta[0].nextCursor).toBeNull();
+	});
+
+	it('filters product stock by description, emptiness and barcode', async () => {
+		const byText = await getJson(
+			`/product-stock/by-warehouse?warehouseId=${warehouseId}&q=tinte%20rubio&isEmpty=false`,
+		);
+		expect(
+			byText.json.data.warehouse.map((row: { productStock: { id: string } }) => row.productStock.id),
+		).toEqual([productIds[0], productIds[2]]);
+
+		const byBarcode = await getJson(`/product-stock/all?barcode=8100004&limit=10`);
+		expect(
+			byBarcode.json.data.warehouse.map(
+				(row: { productStock: { id: string } }) => row.productStock.id,
+			),
+		).toEqual([productIds[3]]);
+	});
+
+	it('breaks createdAt ties by id when paging transfers', async () => {
+		const pages = await collectPages(
+			`/warehouse-transfers/all?limit=2&q=${transferPrefix}`,
+			(data) => (data as { id: string }[]).map((row) => row.id),
+		);
+
+		expect(pages.map((page) => page.length)).toEqual([2, 1]);
+		expect(pages.flat()).toEqual([...transferIds].sort().reverse());
+	});
+
+	it('pages and filters kits', async () => {
+		const pages = await collectPages(
+			`/kits/all?limit=2&employeeId=${employeeId}&sort=-numProducts`,
+			(data) => (data as { id: string }[]).map((row) => row.id),
+		);
+
+		expect(pages.flat()).toEqual([kitIds[2], kitIds[1], kitIds[0]]);
+	});
+
+	it('rejects malformed cursors and cursors issued for another sort', async () => {
+		const malformed = await getJson('/kits/all?limit=2&cursor=not-a-cursor');
+		expect(malformed.status).toBe(400);
+
+		const firstPage = await getJson(`/kits/all?limit=1&employeeId=${employeeId}`);
+		const { nextCursor } = firstPage.json.meta[0];
+		const otherSort = await getJson(
+			`/kits/all?limit=1&sort=-createdAt&cursor=${encodeURIComponent(nextCursor)}`,
+		);
+		expect(otherSort.status).toBe(400);
+
+		const invertedRange = await getJson(
+			'/warehouse-transfers/all?start=2026-02-01&end=2026-01-01',
+		);
+		expect(invertedRange.status).toBe(400);
+	});
+});
@@ -107,6 +107,7 @@ async function createExternalTransferWithDetails(params: {
 		isPending: true,
 		isCompleted: false,
 		isCancelled: false,
+		status: 'in_transit',
 		priority: 'normal',
 	});
 	createdTransferIds.push(transferId);
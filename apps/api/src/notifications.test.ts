@@ -0,0 +1,389 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { createServer, type Server } from 'node:net';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	inventoryShrinkageEvent,
+	notification,
+	notificationRule,
+	user,
+	warehouse,
+	warehouseTransfer,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { createSmtpTransport, type EmailMessage, setEmailTransport } from './lib/email-transport';
+
+let warehouseId: string;
+let otherWarehouseId: string;
+let transferId: string;
+let testUserId: string;
+let otherUserId: string;
+let testUserEmail: string;
+let originalGetSession: typeof auth.api.getSession;
+const sentEmails: EmailMessage[] = [];
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	return { status: response.status, json: await response.json() };
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	setEmailTransport({
+		name: 'test',
+		send: async (message) => {
+			sentEmails.push(message);
+		},
+	});
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Notifications Warehouse',
+			code: `NTF-${warehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Notifications Other',
+			code: `NTF-O-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	transferId = randomUUID();
+	await db.insert(warehouseTransfer).values({
+		id: transferId,
+		transferNumber: `TR-NTF-${transferId.slice(0, 8)}`,
+		transferType: 'external',
+		sourceWarehouseId: otherWarehouseId,
+		destinationWarehouseId: warehouseId,
+		transferDate: new Date(now.getTime() - 3 * 60 * 60 * 1000),
+		initiatedBy: 'notifications-suite',
+		totalItems: 4,
+	});
+
+	testUserId = randomUUID();
+	otherUserId = randomUUID();
+	testUserEmail = `encargado.${Date.now()}@notifications-suite.dev`;
+	await db.insert(user).values([
+		{
+			id: testUserId,
+			name: 'Notifications Tester',
+			email: testUserEmail,
+			emailVerified: false,
+			image: null,
+			role: 'encargado',
+			warehouseId,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherUserId,
+			name: 'Other Encargado',
+			email: `other.${Date.now()}@notifications-suite.dev`,
+			emailVerified: false,
+			image: null,
+			role: 'encargado',
+			warehouseId: otherWarehouseId,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Notifications Tester',
+		email: testUserEmail,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db.delete(notification).where(inArray(notification.userId, [testUserId, otherUserId]));
+	await db
+		.delete(notificationRule)
+		.where(inArray(notificationRule.warehouseId, [warehouseId, otherWarehouseId]));
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(eq(inventoryShrinkageEvent.warehouseId, warehouseId));
+	await db.delete(warehouseTransfer).where(eq(warehouseTransfer.id, transferId));
+	await db.delete(user).where(inArray(user.id, [testUserId, otherUserId]));
+	await db.delete(warehouse).where(inArray(warehouse.id, [warehouseId, otherWarehouseId]));
+
+	setEmailTransport(undefined);
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Notifications', () => {
+	it('notifies a pending transfer once to the warehouse encargado, with an immediate email', async () => {
+		const rule = await send('/notifications/rules', 'POST', {
+			type: 'transfer_pending',
+			warehouseId,
+			role: 'encargado',
+			threshold: 2,
+			sendEmail: true,
+		});
+		expect(rule.status).toBe(201);
+		expect(rule.json.data.deliveryMode).toBe('immediate');
+
+		const first = await send('/notifications/evaluate');
+		expect(first.status).toBe(200);
+		expect(first.json.data.notificationsCreated).toBe(1);
+		expect(sentEmails).toEqual([
+			expect.objectContaining({
+				to: [testUserEmail],
+				subject: expect.stringContaining('pendiente'),
+			}),
+		]);
+
+		const second = await send('/notifications/evaluate');
+		expect(second.json.data.notificationsCreated).toBe(0);
+		expect(sentEmails).toHaveLength(1);
+
+		const inbox = await send('/notifications', 'GET');
+		expect(inbox.status).toBe(200);
+		expect(inbox.json.data.unreadCount).toBe(1);
+		expect(inbox.json.data.items).toEqual([
+			expect.objectContaining({
+				type: 'transfer_pending',
+				warehouseId,
+				link: `/recepciones/${transferId}`,
+				dedupeKey: `transfer_pending:${transferId}`,
+				emailStatus: 'sent',
+				readAt: null,
+			}),
+		]);
+
+		const others = await db
+			.select()
+			.from(notification)
+			.where(eq(notification.userId, otherUserId));
+		expect(others).toEqual([]);
+	});
+
+	it('holds digest notifications until the digest is sent', async () => {
+		await db.insert(inventoryShrinkageEvent).values(
+			[1, 2].map(() => ({
+				source: 'manual',
+				reason: 'dañado',
+				quantity: 2,
+				warehouseId,
+				productBarcode: 8_500_001,
+			})),
+		);
+		const rule = await send('/notifications/rules', 'POST', {
+			type: 'shrinkage_spike',
+			warehouseId,
+			role: 'encargado',
+			threshold: 3,
+			sendEmail: true,
+			deliveryMode: 'digest',
+		});
+		expect(rule.status).toBe(201);
+
+		const evaluation = await send('/notifications/evaluate');
+		expect(evaluation.json.data.notificationsCreated).toBe(1);
+		expect(sentEmails).toHaveLength(1);
+
+		const [spike] = await db
+			.select()
+			.from(notification)
+			.where(eq(notification.ruleId, rule.json.data.id));
+		expect(spike).toEqual(
+			expect.objectContaining({
+				userId: testUserId,
+				emailStatus: 'digest',
+				body: expect.stringContaining('4 unidad(es)'),
+			}),
+		);
+
+		const digest = await send('/notifications/digest');
+		expect(digest.status).toBe(200);
+		expect(digest.json.data).toEqual(
+			expect.objectContaining({ digestsSent: 1, notificationsIncluded: 1 }),
+		);
+		expect(sentEmails).toHaveLength(2);
+		expect(sentEmails[1].subject).toContain('Resumen diario');
+		expect(sentEmails[1].text).toContain(spike.title);
+
+		const [delivered] = await db
+			.select()
+			.from(notification)
+			.where(eq(notification.id, spike.id));
+		expect(delivered.emailStatus).toBe('sent');
+	});
+
+	it('updates only the rule fields that are sent', async () => {
+		const rules = await send('/notifications/rules', 'GET');
+		const digestRule = rules.json.data.find(
+			(rule: { type: string; warehouseId: string | null }) =>
+				rule.type === 'shrinkage_spike' && rule.warehouseId === warehouseId,
+		);
+
+		const updated = await send(`/notifications/rules/${digestRule.id}`, 'PUT', {
+			isActive: false,
+		});
+		expect(updated.status).toBe(200);
+		expect(updated.json.data).toEqual(
+			expect.objectContaining({
+				isActive: false,
+				sendEmail: true,
+				deliveryMode: 'digest',
+				warehouseId,
+				threshold: 3,
+			}),
+		);
+	});
+
+	it('marks notifications as read', async () => {
+		const inbox = await send('/notifications?unreadOnly=true', 'GET');
+		expect(inbox.json.data.items).toHaveLength(2);
+
+		const read = await send(`/notifications/${inbox.json.data.items[0].id}/read`);
+		expect(read.status).toBe(200);
+		expect(read.json.data.readAt).not.toBeNull();
+
+		const readAll = await send('/notifications/read-all');
+		expect(readAll.json.data.updated).toBe(1);
+
+		const after = await send('/notifications', 'GET');
+		expect(after.json.data.unreadCount).toBe(0);
+
+		const missing = await app.fetch(
+			new Request(`http://localhost/api/auth/notifications/${randomUUID()}/read`, {
+				method: 'POST',
+			}),
+		);
+		expect(missing.status).toBe(404);
+	});
+});
+
+describe('SMTP transport', () => {
+	let server: Server;
+	let port: number;
+	const received: { commands: string[]; data: string } = { commands: [], data: '' };
+
+	beforeAll(async () => {
+		// Minimal SMTP catcher, like the one used in development
+		server = createServer((socket) => {
+			let inData = false;
+			let buffer = '';
+			socket.setEncoding('utf8');
+			socket.write('220 catcher ready\r\n');
+			socket.on('data', (chunk: string) => {
+				buffer += chunk;
+				let newlineIndex = buffer.indexOf('\r\n');
+				while (newlineIndex >= 0) {
+					const line = buffer.slice(0, newlineIndex);
+					buffer = buffer.slice(newlineIndex + 2);
+					newlineIndex = buffer.indexOf('\r\n');
+					if (inData) {
+						if (line === '.') {
+							inData = false;
+							socket.write('250 queued\r\n');
+						} else {
+							received.data += `${line}\r\n`;
+						}
+						continue;
+					}
+					received.commands.push(line);
+					if (line.startsWith('EHLO')) {
+						socket.write('250-catcher\r\n250 8BITMIME\r\n');
+					} else if (line === 'DATA') {
+						inData = true;
+						socket.write('354 go ahead\r\n');
+					} else if (line === 'QUIT') {
+						socket.end('221 bye\r\n');
+					} else {
+						socket.write('250 ok\r\n');
+					}
+				}
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		const address = server.address();
+		port = typeof address === 'object' && address ? address.port : 0;
+	});
+
+	afterAll(async () => {
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	});
+
+	it('delivers a UTF-8 message to a local catcher', async () => {
+		const transport = createSmtpTransport({
+			host: '127.0.0.1',
+			port,
+			secure: false,
+			from: 'ALR Inventario <alertas@alr.test>',
+		});
+
+		await transport.send({
+			to: ['encargado@alr.test'],
+			subject: 'Traspaso pendiente en recepción',
+			text: '.línea que empieza con punto',
+		});
+
+		expect(received.commands).toEqual([
+			expect.stringMatching(/^EHLO /),
+			'MAIL FROM:<alertas@alr.test>',
+			'RCPT TO:<encargado@alr.test>',
+			'DATA',
+			'QUIT',
+		]);
+		expect(received.data).toContain('To: encargado@alr.test');
+		expect(received.data).toContain('Subject: =?UTF-8?B?');
+
+		const [, encodedBody] = received.data.split('\r\n\r\n');
+		expect(Buffer.from(encodedBody.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe(
+			'.línea que empieza con punto',
+		);
+	});
+});
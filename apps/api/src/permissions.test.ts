@@ -0,0 +1,194 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { and, eq } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { auditLog, rolePermission, user } from './db/schema';
+import { auth } from './lib/auth';
+import { invalidatePermissionCache } from './lib/permissions';
+
+let adminUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+let originalViewerGrants: (typeof rolePermission.$inferSelect)[];
+
+async function request(path: string, init?: { method: string; body: unknown }) {
+	return await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method: init?.method ?? 'GET',
+			headers: { 'Content-Type': 'application/json' },
+			...(init && { body: JSON.stringify(init.body) }),
+		}),
+	);
+}
+
+function actAs(role: string) {
+	mockSessionUser = { ...mockSessionUser, role };
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalViewerGrants = await db
+		.select()
+		.from(rolePermission)
+		.where(eq(rolePermission.role, 'viewer'));
+
+	const now = new Date();
+	adminUserId = randomUUID();
+	const email = `admin.${Date.now()}@permissions-suite.dev`;
+	await db.insert(user).values({
+		id: adminUserId,
+		name: 'Permissions Admin',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: adminUserId,
+		name: 'Permissions Admin',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: null,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: adminUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db.delete(rolePermission).where(eq(rolePermission.role, 'viewer'));
+	if (originalViewerGrants.length > 0) {
+		await db.insert(rolePermission).values(originalViewerGrants);
+	}
+	invalidatePermissionCache();
+
+	await db
+		.delete(auditLog)
+		.where(and(eq(auditLog.entityType, 'role_permissions'), eq(auditLog.actorUserId, adminUserId)));
+	await db.delete(user).where(eq(user.id, adminUserId));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Role permissions', () => {
+	it('rejects routes whose permission is not granted to the role', async () => {
+		actAs('employee');
+		const response = await request('/stock-limits', {
+			method: 'POST',
+			body: { warehouseId: randomUUID(), barcode: 1, minQuantity: 1, maxQuantity: 2 },
+		});
+		expect(response.status).toBe(403);
+		const json = await response.json();
+		expect(json.message).toContain('stock_limits.manage');
+	});
+
+	it('lists the permissions granted to the current role', async () => {
+		actAs('employee');
+		const response = await request('/permissions/me');
+		expect(response.status).toBe(200);
+		const json = await response.json();
+		expect(json.data.role).toBe('employee');
+		expect(json.data.permissions).toContain('transfers.complete');
+		expect(json.data.permissions).not.toContain('merma.writeoff');
+	});
+
+	it('only lets roles with permissions.manage read the matrix', async () => {
+		actAs('encargado');
+		const forbidden = await request('/permissions/matrix');
+		expect(forbidden.status).toBe(403);
+
+		actAs('admin');
+		const response = await request('/permissions/matrix');
+		expect(response.status).toBe(200);
+		const json = await response.json();
+		expect(json.data.roles).not.toContain('admin');
+		expect(json.data.grants.encargado).toContain('merma.writeoff');
+		expect(json.data.catalog.map((entry: { key: string }) => entry.key)).toContain(
+			'permissions.manage',
+		);
+	});
+
+	it('replaces role grants, audits the change and applies it immediately', async () => {
+		actAs('admin');
+		const response = await request('/permissions/matrix/viewer', {
+			method: 'PUT',
+			body: { permissions: ['inventory.view', 'merma.view', 'permissions.manage'] },
+		});
+		expect(response.status).toBe(200);
+
+		const [entry] = await db
+			.select()
+			.from(auditLog)
+			.where(and(eq(auditLog.entityType, 'role_permissions'), eq(auditLog.entityId, 'viewer')));
+		expect(entry.actorUserId).toBe(adminUserId);
+		expect(entry.after).toEqual({
+			permissions: ['inventory.view', 'merma.view', 'permissions.manage'],
+		});
+
+		actAs('viewer');
+		const me = await request('/permissions/me');
+		const json = await me.json();
+		expect(json.data.permissions).toEqual(['inventory.view', 'merma.view', 'permissions.manage']);
+
+		const transfers = await request('/warehouse-transfers/all');
+		expect(transfers.status).toBe(403);
+	});
+
+	it('prevents removing permissions.manage from your own role', async () => {
+		actAs('viewer');
+		const response = await request('/permissions/matrix/viewer', {
+			method: 'PUT',
+			body: { permissions: ['inventory.view'] },
+		});
+		expect(response.status).toBe(409);
+	});
+
+	it('rejects unknown roles and permission keys', async () => {
+		actAs('admin');
+		const unknownRole = await request('/permissions/matrix/admin', {
+			method: 'PUT',
+			body: { permissions: [] },
+		});
+		expect(unknownRole.status).toBe(400);
+
+		const unknownPermission = await request('/permissions/matrix/viewer', {
+			method: 'PUT',
+			body: { permissions: ['inventory.teleport'] },
+		});
+		expect(unknownPermission.status).toBe(400);
+	});
+});
@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, like } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import { product, user } from './db/schema';
+import { auth } from './lib/auth';
+
+let testUserId: string;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+let originalGetSession: typeof auth.api.getSession;
+let originalAuthHeader: string | undefined;
+
+const TITLE_PREFIX = `Catalog Suite ${Date.now()}`;
+const BARCODE_BASE = 990_000_000_000 + Math.floor(Math.random() * 1_000_000) * 10;
+
+function buildSnapshot(goodId: number, title: string, barcode: number) {
+	return {
+		title,
+		value: title,
+		label: title,
+		good_id: goodId,
+		cost: 10,
+		unit_id: 1,
+		unit_short_title: 'pz',
+		service_unit_id: 1,
+		service_unit_short_title: 'pz',
+		actual_cost: 10,
+		unit_actual_cost: 10,
+		unit_actual_cost_format: '10',
+		unit_equals: 1,
+		barcode: String(barcode),
+		loyalty_abonement_type_id: 0,
+		loyalty_certificate_type_id: 0,
+		loyalty_allow_empty_code: false,
+		critical_amount: 0,
+		desired_amount: 0,
+		actual_amounts: [],
+		last_change_date: '2026-01-01',
+		category: 'Tintes',
+		category_id: 7,
+		salon_id: 1,
+	};
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalAuthHeader = process.env.AUTH_HEADER;
+	delete process.env.AUTH_HEADER;
+
+	const now = new Date();
+	const rows = [
+		{ goodIds: [101], title: `${TITLE_PREFIX} A`, isArchived: false },
+		{ goodIds: [102, 202], title: `${TITLE_PREFIX} B`, isArchived: false },
+		{ goodIds: [103], title: `${TITLE_PREFIX} C`, isArchived: false },
+		{ goodIds: [104], title: `${TITLE_PREFIX} D`, isArchived: true },
+	];
+	await db.insert(product).values(
+		rows.map((row, index) => {
+			const barcode = BARCODE_BASE + index;
+			return {
+				barcode,
+				title: row.title,
+				category: 'Tintes',
+				categoryId: 7,
+				unit: 'pz',
+				cost: 10,
+				altegioGoods: row.goodIds.map((goodId, locationIndex) => ({
+					locationId: locationIndex + 1,
+					goodId,
+				})),
+				altegioSnapshot: buildSnapshot(row.goodIds[0] ?? 0, row.title, barcode),
+				isArchived: row.isArchived,
+				lastSyncedAt: now,
+			};
+		}),
+	);
+
+	testUserId = randomUUID();
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Catalog Test User',
+		email: `catalog.${Date.now()}@product-catalog-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: testUserId,
+		name: 'Catalog Test User',
+		email: 'catalog@product-catalog-suite.dev',
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		warehouseId: null,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+beforeEach(() => {
+	mockSessionUser.role = 'employee';
+});
+
+afterAll(async () => {
+	await db.delete(product).where(like(product.title, `${TITLE_PREFIX}%`));
+	await db.delete(user).where(eq(user.id, testUserId));
+
+	auth.api.getSession = originalGetSession;
+	if (originalAuthHeader !== undefined) {
+		process.env.AUTH_HEADER = originalAuthHeader;
+	}
+});
+
+describe('Product catalog API', () => {
+	it('serves active products from the local catalog in the Altegio goods shape', async () => {
+		const response = await app.fetch(
+			new Request(
+				`http://localhost/api/auth/products/all?q=${encodeURIComponent(TITLE_PREFIX)}`,
+			),
+		);
+		expect(response.status).toBe(200);
+		const json = await response.json();
+
+		expect(json.data.map((item: { title: string }) => item.title)).toEqual([
+			`${TITLE_PREFIX} A`,
+			`${TITLE_PREFIX} B`,
+			`${TITLE_PREFIX} C`,
+		]);
+		expect(json.data[0].good_id).toBe(101);
+		expect(json.data[1].good_id).toBe('102,202');
+		expect(json.data[0].barcode).toBe(String(BARCODE_BASE));
+		expect(json.data[0].unit_short_title).toBe('pz');
+	});
+
+	it('paginates with a cursor and can include archived products', async () => {
+		const query = `q=${encodeURIComponent(TITLE_PREFIX)}&includeArchived=true&limit=2`;
+		const firstPage = await app.fetch(
+			new Request(`http://localhost/api/auth/products/all?${query}`),
+		);
+		const firstJson = await firstPage.json();
+		expect(firstJson.data).toHaveLength(2);
+		const nextCursor = firstJson.meta[0].nextCursor as string;
+		expect(nextCursor).toBeTruthy();
+
+		const secondPage = await app.fetch(
+			new Request(
+				`http://localhost/api/auth/products/all?${query}&cursor=${encodeURIComponent(nextCursor)}`,
+			),
+		);
+		const secondJson = await secondPage.json();
+		expect(secondJson.data.map((item: { title: string }) => item.title)).toEqual([
+			`${TITLE_PREFIX} C`,
+			`${TITLE_PREFIX} D`,
+		]);
+		expect(secondJson.data[1].isArchived).toBe(true);
+		expect(secondJson.meta[0].nextCursor).toBeNull();
+	});
+
+	it('matches products by barcode', async () => {
+		const response = await app.fetch(
+			new Request(`http://localhost/api/auth/products/all?q=${BARCODE_BASE + 2}`),
+		);
+		const json = await response.json();
+		expect(json.data).toHaveLength(1);
+		expect(json.data[0].title).toBe(`${TITLE_PREFIX} C`);
+	});
+
+	it('restricts catalog syncs to admin or encargado', async () => {
+		const forbidden = await app.fetch(
+			new Request('http://localhost/api/auth/products/sync', { method: 'POST' }),
+		);
+		expect(forbidden.status).toBe(403);
+
+		mockSessionUser.role = 'admin';
+		const missingCredentials = await app.fetch(
+			new Request('http://localhost/api/auth/products/sync', { method: 'POST' }),
+		);
+		expect(missingCredentials.status).toBe(400);
+	});
+});
@@ -0,0 +1,257 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { addDays } from 'date-fns';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	inventoryShrinkageEvent,
+	product,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { loadSyncExpiryDates, toDateOnly } from './lib/product-expiry';
+
+const BARCODE = 8_900_001;
+const BARCODE_WITHOUT_SHELF_LIFE = 8_900_002;
+
+let warehouseId: string;
+let otherWarehouseId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	// HTTPExceptions thrown by the lib respond with plain text
+	const isJson = response.headers.get('content-type')?.includes('application/json');
+	return { status: response.status, json: isJson ? await response.json() : null };
+}
+
+function daysFromToday(days: number): string {
+	return toDateOnly(addDays(new Date(), days));
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Expiry Warehouse',
+			code: `EXP-${warehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Expiry Other Warehouse',
+			code: `EXP-O-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+	await db.insert(product).values([
+		{ barcode: BARCODE, title: 'Tinte caducidad' },
+		{ barcode: BARCODE_WITHOUT_SHELF_LIFE, title: 'Peine sin caducidad' },
+	]);
+
+	testUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Expiry Admin',
+		email: `admin.${Date.now()}@product-expiry-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values(mockSessionUser);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [warehouseId, otherWarehouseId];
+	await db
+		.delete(productStockUsageHistory)
+		.where(inArray(productStockUsageHistory.warehouseId, warehouseIds));
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(inArray(inventoryShrinkageEvent.warehouseId, warehouseIds));
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db.delete(product).where(inArray(product.barcode, [BARCODE, BARCODE_WITHOUT_SHELF_LIFE]));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Lots and expiration dates', () => {
+	let expiredUnitId: string;
+	let soonUnitIds: string[];
+
+	it('stores the lot and expiry given at creation', async () => {
+		const expired = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: warehouseId,
+			lotNumber: 'L-OLD',
+			expiresAt: daysFromToday(-2),
+		});
+		expect(expired.status).toBe(201);
+		expect(expired.json.data[0]).toEqual(
+			expect.objectContaining({ lotNumber: 'L-OLD', expiresAt: daysFromToday(-2) }),
+		);
+		expiredUnitId = expired.json.data[0].id;
+
+		const soon = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: warehouseId,
+			quantity: 2,
+			lotNumber: 'L-SOON',
+			expiresAt: daysFromToday(10),
+		});
+		expect(soon.status).toBe(201);
+		soonUnitIds = soon.json.data.map((unit: { id: string }) => unit.id);
+
+		const later = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: warehouseId,
+			lotNumber: 'L-LATER',
+			expiresAt: daysFromToday(90),
+		});
+		expect(later.status).toBe(201);
+
+		const undated = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: warehouseId,
+		});
+		expect(undated.json.data[0]).toEqual(
+			expect.objectContaining({ lotNumber: null, expiresAt: null }),
+		);
+
+		const otherWarehouse = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: otherWarehouseId,
+			expiresAt: daysFromToday(1),
+		});
+		expect(otherWarehouse.status).toBe(201);
+
+		const invalid = await send('/product-stock/create', 'POST', {
+			barcode: BARCODE,
+			currentWarehouse: warehouseId,
+			expiresAt: '2025-13-40',
+		});
+		expect(invalid.status).toBe(400);
+	});
+
+	it('lists expired and expiring units of a warehouse, soonest first', async () => {
+		const listed = await send(`/product-stock/expiring?warehouseId=${warehouseId}`, 'GET');
+		expect(listed.status).toBe(200);
+
+		expect(listed.json.data.expired).toEqual([
+			expect.objectContaining({
+				productStockId: expiredUnitId,
+				lotNumber: 'L-OLD',
+				daysUntilExpiry: -2,
+				warehouseName: 'Expiry Warehouse',
+			}),
+		]);
+		// Units expiring beyond the window and units without expiry are left out
+		expect(
+			listed.json.data.expiringSoon.map((unit: { productStockId: string }) => unit.productStockId),
+		).toEqual([...soonUnitIds].sort());
+		expect(listed.json.data.expiringSoon[0].daysUntilExpiry).toBe(10);
+
+		const wider = await send(
+			`/product-stock/expiring?warehouseId=${warehouseId}&days=120`,
+			'GET',
+		);
+		expect(wider.json.data.expiringSoon.map((unit: { lotNumber: string }) => unit.lotNumber)).toEqual(
+			['L-SOON', 'L-SOON', 'L-LATER'],
+		);
+	});
+
+	it('writes expired units off with the caducado reason', async () => {
+		const writeoff = await send('/merma/writeoffs', 'POST', {
+			productIds: [expiredUnitId],
+			reason: 'caducado',
+		});
+		expect(writeoff.status).toBe(201);
+
+		const [unit] = await db
+			.select({ isDeleted: productStock.isDeleted })
+			.from(productStock)
+			.where(eq(productStock.id, expiredUnitId));
+		expect(unit.isDeleted).toBe(true);
+
+		const listed = await send(`/product-stock/expiring?warehouseId=${warehouseId}`, 'GET');
+		expect(listed.json.data.expired).toEqual([]);
+
+		const start = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+		const end = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+		const summary = await send(
+			`/merma/writeoffs/summary?start=${start}&end=${end}&scope=warehouse&warehouseId=${warehouseId}`,
+			'GET',
+		);
+		expect(summary.status).toBe(200);
+		expect(summary.json.data.reasonSummary).toContainEqual(
+			expect.objectContaining({ reason: 'caducado', total: 1, percentage: 100 }),
+		);
+	});
+
+	it('dates units created by the inventory sync from the product shelf life', async () => {
+		const updated = await send(`/products/${BARCODE}/shelf-life`, 'PUT', { shelfLifeDays: 180 });
+		expect(updated.status).toBe(200);
+		expect(updated.json.data.shelfLifeDays).toBe(180);
+
+		const missing = await send('/products/8900999/shelf-life', 'PUT', { shelfLifeDays: 30 });
+		expect(missing.status).toBe(404);
+
+		const today = new Date();
+		const expiryDates = await loadSyncExpiryDates([BARCODE, BARCODE_WITHOUT_SHELF_LIFE], today);
+		expect(Object.fromEntries(expiryDates)).toEqual({
+			[BARCODE]: toDateOnly(addDays(today, 180)),
+		});
+	});
+});
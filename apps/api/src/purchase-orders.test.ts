@@ -0,0 +1,364 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	productStock,
+	productStockUsageHistory,
+	purchaseOrder,
+	purchaseOrderReceipt,
+	replenishmentOrder,
+	replenishmentOrderDetails,
+	supplier,
+	user,
+	warehouse,
+} from './db/schema';
+import { auth } from './lib/auth';
+import {
+	createReplenishmentOrder,
+	getUnfulfilledProducts,
+	updateReplenishmentOrder,
+} from './lib/replenishment-orders';
+
+let warehouseId: string;
+let cedisWarehouseId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+const supplierIds: string[] = [];
+
+const BARCODE_A = 8_800_001;
+const BARCODE_B = 8_800_002;
+const BARCODE_UNASSIGNED = 8_800_003;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	// HTTPExceptions thrown by the lib respond with plain text
+	const isJson = response.headers.get('content-type')?.includes('application/json');
+	return { status: response.status, json: isJson ? await response.json() : null };
+}
+
+async function createSentOrder(items: { barcode: number; quantity: number }[]) {
+	const order = await createReplenishmentOrder({
+		input: { sourceWarehouseId: warehouseId, cedisWarehouseId, items },
+		user: { id: testUserId },
+	});
+	await updateReplenishmentOrder({
+		id: order.id,
+		input: { isSent: true },
+		user: { id: testUserId },
+	});
+	return order;
+}
+
+async function createSupplierWith(name: string, barcodes: number[]): Promise<string> {
+	const created = await send('/purchase-orders/suppliers', 'POST', { name });
+	expect(created.status).toBe(201);
+	supplierIds.push(created.json.data.id);
+
+	const products = await send(
+		`/purchase-orders/suppliers/${created.json.data.id}/products`,
+		'PUT',
+		{ barcodes },
+	);
+	expect(products.status).toBe(200);
+	expect(products.json.data.barcodes).toEqual(barcodes);
+	return created.json.data.id;
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	cedisWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Purchase Orders Warehouse',
+			code: `PO-${warehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: cedisWarehouseId,
+			name: 'Purchase Orders CEDIS',
+			code: `PO-C-${cedisWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	testUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Purchase Orders Admin',
+		email: `admin.${Date.now()}@purchase-orders-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: cedisWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values(mockSessionUser);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db.delete(purchaseOrder).where(eq(purchaseOrder.cedisWarehouseId, cedisWarehouseId));
+	if (supplierIds.length > 0) {
+		await db.delete(supplier).where(inArray(supplier.id, supplierIds));
+	}
+	await db.delete(replenishmentOrder).where(eq(replenishmentOrder.sourceWarehouseId, warehouseId));
+	const units = await db
+		.select({ id: productStock.id })
+		.from(productStock)
+		.where(eq(productStock.currentWarehouse, cedisWarehouseId));
+	if (units.length > 0) {
+		const unitIds = units.map((unit) => unit.id);
+		await db
+			.delete(productStockUsageHistory)
+			.where(inArray(productStockUsageHistory.productStockId, unitIds));
+		await db.delete(productStock).where(inArray(productStock.id, unitIds));
+	}
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, [warehouseId, cedisWarehouseId]));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Purchase orders', () => {
+	let supplierAId: string;
+	let purchaseOrderAId: string;
+	let purchaseOrderBId: string;
+	let firstOrderId: string;
+	let secondOrderId: string;
+
+	it('groups unfulfilled items into one draft per default supplier', async () => {
+		supplierAId = await createSupplierWith('Proveedor A', [BARCODE_A]);
+		await createSupplierWith('Proveedor B', [BARCODE_B]);
+
+		const first = await createSentOrder([
+			{ barcode: BARCODE_A, quantity: 2 },
+			{ barcode: BARCODE_B, quantity: 1 },
+			{ barcode: BARCODE_UNASSIGNED, quantity: 4 },
+		]);
+		const second = await createSentOrder([{ barcode: BARCODE_A, quantity: 3 }]);
+		firstOrderId = first.id;
+		secondOrderId = second.id;
+
+		const generated = await send('/purchase-orders/generate', 'POST', { cedisWarehouseId });
+		expect(generated.status).toBe(201);
+
+		const { purchaseOrders, unassigned } = generated.json.data;
+		expect(purchaseOrders).toHaveLength(2);
+		const orderA = purchaseOrders.find(
+			(order: { supplierId: string }) => order.supplierId === supplierAId,
+		);
+		const orderB = purchaseOrders.find(
+			(order: { supplierId: string }) => order.supplierId !== supplierAId,
+		);
+		purchaseOrderAId = orderA.id;
+		purchaseOrderBId = orderB.id;
+
+		expect(orderA.status).toBe('draft');
+		expect(orderA.orderNumber).toMatch(/^OC-\d{8}-\d{4}$/);
+		expect(orderA.items).toHaveLength(1);
+		expect(orderA.items[0]).toEqual(
+			expect.objectContaining({ barcode: BARCODE_A, quantity: 5, receivedQuantity: 0 }),
+		);
+		expect(
+			orderA.items[0].sources.map(
+				(source: { replenishmentOrderId: string; quantity: number }) => [
+					source.replenishmentOrderId,
+					source.quantity,
+				],
+			),
+		).toEqual([
+			[first.id, 2],
+			[second.id, 3],
+		]);
+		expect(orderB.items.map((item: { barcode: number }) => item.barcode)).toEqual([BARCODE_B]);
+
+		expect(unassigned).toEqual([
+			expect.objectContaining({
+				barcode: BARCODE_UNASSIGNED,
+				quantity: 4,
+				replenishmentOrderNumber: first.orderNumber,
+			}),
+		]);
+
+		const unfulfilled = await getUnfulfilledProducts({ user: { id: testUserId } });
+		const ownBarcodes = unfulfilled
+			.filter((item) => item.cedisWarehouseId === cedisWarehouseId)
+			.map((item) => item.barcode);
+		expect(ownBarcodes).toEqual([BARCODE_UNASSIGNED]);
+
+		const again = await send('/purchase-orders/generate', 'POST', { cedisWarehouseId });
+		expect(again.json.data.purchaseOrders).toEqual([]);
+	});
+
+	it('resets the replenishment items when a draft is deleted', async () => {
+		const deleted = await send(`/purchase-orders/${purchaseOrderBId}`, 'DELETE');
+		expect(deleted.status).toBe(200);
+
+		const details = await db
+			.select({ buyOrderGenerated: replenishmentOrderDetails.buyOrderGenerated })
+			.from(replenishmentOrderDetails)
+			.where(eq(replenishmentOrderDetails.barcode, BARCODE_B));
+		expect(details.map((detail) => detail.buyOrderGenerated)).toEqual([false]);
+	});
+
+	it('receives against the order into the CEDIS, linked to the replenishment items', async () => {
+		const draftReceive = await send(`/purchase-orders/${purchaseOrderAId}/receive`, 'POST', {
+			items: [{ barcode: BARCODE_A, quantity: 1 }],
+		});
+		expect(draftReceive.status).toBe(409);
+
+		const sent = await send(`/purchase-orders/${purchaseOrderAId}/send`);
+		expect(sent.status).toBe(200);
+		expect(sent.json.data.status).toBe('sent');
+
+		const partial = await send(`/purchase-orders/${purchaseOrderAId}/receive`, 'POST', {
+			items: [{ barcode: BARCODE_A, quantity: 3 }],
+		});
+		expect(partial.status).toBe(201);
+		expect(partial.json.data.purchaseOrder.status).toBe('partially_received');
+		expect(partial.json.data.productStock).toHaveLength(3);
+		for (const unit of partial.json.data.productStock) {
+			expect(unit).toEqual(
+				expect.objectContaining({ barcode: BARCODE_A, currentWarehouse: cedisWarehouseId }),
+			);
+		}
+
+		// The oldest replenishment item is fulfilled first
+		const [item] = partial.json.data.purchaseOrder.items;
+		expect(item.receivedQuantity).toBe(3);
+		expect(
+			item.sources.map((source: { receivedQuantity: number }) => source.receivedQuantity),
+		).toEqual([2, 1]);
+
+		const receipts = await db
+			.select({
+				replenishmentOrderId: replenishmentOrderDetails.replenishmentOrderId,
+			})
+			.from(purchaseOrderReceipt)
+			.innerJoin(
+				replenishmentOrderDetails,
+				eq(purchaseOrderReceipt.replenishmentOrderDetailId, replenishmentOrderDetails.id),
+			)
+			.where(eq(purchaseOrderReceipt.purchaseOrderId, purchaseOrderAId));
+		expect(receipts.map((receipt) => receipt.replenishmentOrderId).sort()).toEqual(
+			[firstOrderId, firstOrderId, secondOrderId].sort(),
+		);
+
+		const history = await db
+			.select()
+			.from(productStockUsageHistory)
+			.where(
+				inArray(
+					productStockUsageHistory.productStockId,
+					partial.json.data.productStock.map((unit: { id: string }) => unit.id),
+				),
+			);
+		expect(history).toHaveLength(3);
+		expect(history[0].notes).toBe(
+			`Recibido de la orden de compra ${partial.json.data.purchaseOrder.orderNumber}`,
+		);
+	});
+
+	it('rejects receiving more than pending and closes the order once complete', async () => {
+		const over = await send(`/purchase-orders/${purchaseOrderAId}/receive`, 'POST', {
+			items: [{ barcode: BARCODE_A, quantity: 3 }],
+		});
+		expect(over.status).toBe(400);
+
+		const unknown = await send(`/purchase-orders/${purchaseOrderAId}/receive`, 'POST', {
+			items: [{ barcode: BARCODE_B, quantity: 1 }],
+		});
+		expect(unknown.status).toBe(400);
+
+		// The same barcode may arrive in several lots
+		const rest = await send(`/purchase-orders/${purchaseOrderAId}/receive`, 'POST', {
+			items: [
+				{
+					barcode: BARCODE_A,
+					quantity: 1,
+					lotNumber: 'L-1',
+					expiresAt: '2030-01-31',
+					unitCost: 42.5,
+				},
+				{ barcode: BARCODE_A, quantity: 1, lotNumber: 'L-2', expiresAt: '2030-06-30' },
+			],
+		});
+		expect(rest.status).toBe(201);
+		expect(
+			rest.json.data.productStock.map(
+				(unit: { lotNumber: string; expiresAt: string; unitCost: number | null }) => [
+					unit.lotNumber,
+					unit.expiresAt,
+					unit.unitCost,
+				],
+			),
+		).toEqual([
+			// Without an invoice cost nor a catalog cost the unit stays uncosted
+			['L-1', '2030-01-31', 42.5],
+			['L-2', '2030-06-30', null],
+		]);
+		expect(rest.json.data.purchaseOrder.status).toBe('closed');
+		expect(rest.json.data.purchaseOrder.closedByUserId).toBe(testUserId);
+
+		const listed = await send(`/purchase-orders?cedisWarehouseId=${cedisWarehouseId}`, 'GET');
+		expect(listed.status).toBe(200);
+		expect(listed.json.data).toEqual([
+			expect.objectContaining({
+				id: purchaseOrderAId,
+				supplierName: 'Proveedor A',
+				itemsCount: 1,
+				totalQuantity: 5,
+				totalReceived: 5,
+			}),
+		]);
+	});
+
+	it('refuses to delete suppliers with purchase orders', async () => {
+		const deleted = await send(`/purchase-orders/suppliers/${supplierAId}`, 'DELETE');
+		expect(deleted.status).toBe(409);
+	});
+});
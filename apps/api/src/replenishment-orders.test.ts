@@ -163,7 +163,6 @@ beforeAll(async () => {
 		name: 'Transfer Initiator',
 		surname: 'Test',
 		warehouseId: sourceWarehouseId,
-		passcode: 1111,
 	});
 
 	mockSessionUser = {
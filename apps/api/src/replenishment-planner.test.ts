@@ -0,0 +1,317 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	employee,
+	productStock,
+	replenishmentOrder,
+	stockLimit,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+
+const BARCODE_LOW = 8_300_001;
+const BARCODE_STOCKED = 8_300_002;
+const BARCODE_ON_ORDER = 8_300_003;
+
+let storeWarehouseId: string;
+let cedisWarehouseId: string;
+let employeeId: string;
+let transferId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+
+type PlanResponse = {
+	warehouseId: string;
+	lines: {
+		barcode: number;
+		onHand: number;
+		inTransit: number;
+		onOrder: number;
+		quantity: number;
+	}[];
+	draft: {
+		id: string;
+		isDraft: boolean;
+		origin: string;
+		details: { barcode: number; quantity: number }[];
+	} | null;
+	draftRemoved: boolean;
+}[];
+
+async function send(path: string, method: string, body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth/replenishment-orders${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	// HTTPExceptions thrown by the lib respond with plain text
+	const isJson = response.headers.get('content-type')?.includes('application/json');
+	return { status: response.status, json: isJson ? await response.json() : null };
+}
+
+async function plan(dryRun = false) {
+	const response = await send('/plan', 'POST', {
+		warehouseId: storeWarehouseId,
+		cedisWarehouseId,
+		dryRun,
+	});
+	expect(response.status).toBe(200);
+	return response.json.data as PlanResponse;
+}
+
+function actAs(role: string) {
+	mockSessionUser = { ...mockSessionUser, role };
+}
+
+async function cleanupOrders() {
+	await db
+		.delete(replenishmentOrder)
+		.where(eq(replenishmentOrder.sourceWarehouseId, storeWarehouseId));
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	storeWarehouseId = randomUUID();
+	cedisWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: storeWarehouseId,
+			name: 'Planner Store',
+			code: `PLN-S-${storeWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: cedisWarehouseId,
+			name: 'Planner CEDIS',
+			code: `PLN-C-${cedisWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	employeeId = randomUUID();
+	await db.insert(employee).values({
+		id: employeeId,
+		name: 'Planner',
+		surname: 'Employee',
+		warehouseId: storeWarehouseId,
+	});
+
+	await db.insert(stockLimit).values([
+		{ warehouseId: storeWarehouseId, barcode: BARCODE_LOW, minQuantity: 3, maxQuantity: 6 },
+		{ warehouseId: storeWarehouseId, barcode: BARCODE_STOCKED, minQuantity: 2, maxQuantity: 5 },
+		{ warehouseId: storeWarehouseId, barcode: BARCODE_ON_ORDER, minQuantity: 1, maxQuantity: 4 },
+	]);
+
+	// One low unit on hand plus an empty one that must not count
+	await db.insert(productStock).values([
+		{ barcode: BARCODE_LOW, currentWarehouse: storeWarehouseId },
+		{ barcode: BARCODE_LOW, currentWarehouse: storeWarehouseId, isEmpty: true },
+		{ barcode: BARCODE_STOCKED, currentWarehouse: storeWarehouseId },
+		{ barcode: BARCODE_STOCKED, currentWarehouse: storeWarehouseId },
+		{ barcode: BARCODE_STOCKED, currentWarehouse: storeWarehouseId },
+	]);
+
+	// One low unit already travelling from the CEDIS
+	const [inTransitUnit] = await db
+		.insert(productStock)
+		.values({ barcode: BARCODE_LOW, currentWarehouse: cedisWarehouseId })
+		.returning({ id: productStock.id });
+	transferId = randomUUID();
+	await db.insert(warehouseTransfer).values({
+		id: transferId,
+		transferNumber: `PLN-${transferId.slice(0, 8)}`,
+		transferType: 'external',
+		sourceWarehouseId: cedisWarehouseId,
+		destinationWarehouseId: storeWarehouseId,
+		initiatedBy: employeeId,
+	});
+	await db
+		.insert(warehouseTransferDetails)
+		.values({ transferId, productStockId: inTransitUnit.id });
+
+	testUserId = randomUUID();
+	const email = `planner.${Date.now()}@replenishment-planner-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Planner Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId: storeWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: testUserId,
+		name: 'Planner Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId: storeWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+beforeEach(async () => {
+	actAs('encargado');
+	await cleanupOrders();
+
+	// A manual order already covers the on-order barcode
+	const response = await send('', 'POST', {
+		sourceWarehouseId: storeWarehouseId,
+		cedisWarehouseId,
+		items: [{ barcode: BARCODE_ON_ORDER, quantity: 2 }],
+	});
+	expect(response.status).toBe(201);
+});
+
+afterAll(async () => {
+	await cleanupOrders();
+	await db
+		.delete(warehouseTransferDetails)
+		.where(eq(warehouseTransferDetails.transferId, transferId));
+	await db.delete(warehouseTransfer).where(eq(warehouseTransfer.id, transferId));
+	await db
+		.delete(productStock)
+		.where(inArray(productStock.currentWarehouse, [storeWarehouseId, cedisWarehouseId]));
+	await db.delete(stockLimit).where(eq(stockLimit.warehouseId, storeWarehouseId));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, [storeWarehouseId, cedisWarehouseId]));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Replenishment planner', () => {
+	it('plans up to maxQuantity counting units on hand, in transit and on order', async () => {
+		const [dryRun] = await plan(true);
+		expect(dryRun.draft).toBeNull();
+		expect(dryRun.lines).toEqual([
+			expect.objectContaining({
+				barcode: BARCODE_LOW,
+				onHand: 1,
+				inTransit: 1,
+				onOrder: 0,
+				quantity: 4,
+			}),
+		]);
+		const orders = await db
+			.select({ id: replenishmentOrder.id })
+			.from(replenishmentOrder)
+			.where(eq(replenishmentOrder.sourceWarehouseId, storeWarehouseId));
+		expect(orders).toHaveLength(1);
+
+		const [result] = await plan();
+		expect(result.draft).toMatchObject({ isDraft: true, origin: 'planner' });
+		expect(result.draft?.details).toEqual([
+			expect.objectContaining({ barcode: BARCODE_LOW, quantity: 4 }),
+		]);
+	});
+
+	it('replaces the pending draft on every run and removes it once stock recovers', async () => {
+		const [first] = await plan();
+		const [second] = await plan();
+		expect(second.draft?.id).toBe(first.draft?.id);
+
+		const restocked = await db
+			.insert(productStock)
+			.values([1, 2, 3].map(() => ({ barcode: BARCODE_LOW, currentWarehouse: storeWarehouseId })))
+			.returning({ id: productStock.id });
+
+		try {
+			const [third] = await plan();
+			expect(third.lines).toEqual([]);
+			expect(third.draftRemoved).toBe(true);
+			const remaining = await db
+				.select({ id: replenishmentOrder.id })
+				.from(replenishmentOrder)
+				.where(eq(replenishmentOrder.id, first.draft?.id ?? ''));
+			expect(remaining).toHaveLength(0);
+		} finally {
+			await db.delete(productStock).where(
+				inArray(
+					productStock.id,
+					restocked.map((row) => row.id),
+				),
+			);
+		}
+	});
+
+	it('requires an encargado review before a draft is sent', async () => {
+		const [result] = await plan();
+		const draftId = result.draft?.id ?? '';
+
+		const directSend = await send(`/${draftId}`, 'PUT', { isSent: true });
+		expect(directSend.status).toBe(400);
+
+		actAs('employee');
+		const forbidden = await send(`/${draftId}/review`, 'POST', {});
+		expect(forbidden.status).toBe(403);
+
+		actAs('encargado');
+		const reviewed = await send(`/${draftId}/review`, 'POST', {
+			items: [{ barcode: BARCODE_LOW, quantity: 5 }],
+		});
+		expect(reviewed.status).toBe(200);
+		expect(reviewed.json.data).toMatchObject({
+			isDraft: false,
+			isSent: true,
+			reviewedByUserId: testUserId,
+			sentByUserId: testUserId,
+		});
+		expect(reviewed.json.data.details).toEqual([
+			expect.objectContaining({ barcode: BARCODE_LOW, quantity: 5 }),
+		]);
+
+		// The sent order now counts as on order, so the next run has nothing to draft
+		const [next] = await plan();
+		expect(next.lines).toEqual([]);
+	});
+});
@@ -0,0 +1,122 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { ApiEnv } from '../../context';
+import {
+	altegioOutboxKinds,
+	altegioOutboxStatuses,
+	dismissAltegioOutboxJob,
+	listAltegioOutboxJobs,
+	retryAltegioOutboxJob,
+} from '../../lib/altegio-outbox';
+import type { ApiResponse } from '../../lib/api-response';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+
+const outboxJobParamSchema = z.object({
+	id: z.string().uuid('Invalid outbox job ID'),
+});
+
+const altegioRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET /outbox - List Altegio replication jobs
+	 *
+	 * Returns the queued, failed and completed replication jobs so operators can see
+	 * which stock movements still need to reach Altegio.
+	 *
+	 * @param {string} status - Optional status filter (pending, processing, succeeded, failed, dismissed)
+	 * @param {string} kind - Optional job kind filter (warehouse_transfer, stock_creation)
+	 * @param {number} limit - Maximum number of jobs to return (default 50, max 200)
+	 * @returns {ApiResponse} Success response with outbox jobs
+	 */
+	.get(
+		'/outbox',
+		requirePermission('altegio.outbox'),
+		zValidator(
+			'query',
+			z.object({
+				status: z.enum(altegioOutboxStatuses).optional(),
+				kind: z.enum(altegioOutboxKinds).optional(),
+				limit: z.coerce.number().int().min(1).max(200).optional(),
+			}),
+		),
+		async (c) => {
+			const { status, kind, limit } = c.req.valid('query');
+			const user = c.get('user') as SessionUser | null;
+
+			const jobs = await listAltegioOutboxJobs({
+				status,
+				kind,
+				limit,
+				user,
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: 'Altegio outbox jobs retrieved successfully',
+					data: jobs,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /outbox/:id/retry - Run a pending or failed job immediately
+	 *
+	 * @returns {ApiResponse} The job after the attempt; check its status for the outcome
+	 * @throws {404} If the job does not exist
+	 * @throws {409} If the job already succeeded, was dismissed or is being processed
+	 */
+	.post(
+		'/outbox/:id/retry',
+		requirePermission('altegio.outbox'),
+		zValidator('param', outboxJobParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const user = c.get('user') as SessionUser | null;
+
+			const job = await retryAltegioOutboxJob({ id, user });
+
+			return c.json(
+				{
+					success: true,
+					message:
+						job.status === 'succeeded'
+							? 'Altegio replication completed successfully'
+							: 'Altegio replication attempt failed',
+					data: job,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /outbox/:id/dismiss - Stop retrying a job
+	 *
+	 * @returns {ApiResponse} The dismissed job
+	 * @throws {404} If the job does not exist
+	 * @throws {409} If the job is not pending or failed
+	 */
+	.post(
+		'/outbox/:id/dismiss',
+		requirePermission('altegio.outbox'),
+		zValidator('param', outboxJobParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const user = c.get('user') as SessionUser | null;
+
+			const job = await dismissAltegioOutboxJob({ id, user });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Altegio outbox job dismissed',
+					data: job,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	);
+
+export { altegioRoutes };
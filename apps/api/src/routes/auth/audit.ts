@@ -0,0 +1,45 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import type { ApiEnv } from '../../context';
+import type { ApiResponse } from '../../lib/api-response';
+import { listAuditLogs } from '../../lib/audit-log';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import { auditLogQuerySchema } from '../../types';
+
+const auditRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET / - List audit log entries, newest first (requires `audit.view`)
+	 *
+	 * @param {string} entityType - Optional entity type filter (warehouse, stock_limit, user, kit, ...)
+	 * @param {string} entityId - Optional entity identifier filter
+	 * @param {string} actorUserId - Optional filter by the user who made the change
+	 * @param {string} action - Optional action filter (create, update, delete, status_change)
+	 * @param {string} start - Optional inclusive lower date bound
+	 * @param {string} end - Optional inclusive upper date bound
+	 * @param {number} limit - Page size (default 50, max 200)
+	 * @param {string} cursor - Cursor returned by the previous page
+	 * @returns {ApiResponse} Entries with before/after snapshots and changed fields plus nextCursor
+	 */
+	.get(
+		'/',
+		requirePermission('audit.view'),
+		zValidator('query', auditLogQuerySchema),
+		async (c) => {
+			const query = c.req.valid('query');
+			const user = c.get('user') as SessionUser | null;
+
+			const page = await listAuditLogs({ query, user });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Audit log retrieved successfully',
+					data: page,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	);
+
+export { auditRoutes };
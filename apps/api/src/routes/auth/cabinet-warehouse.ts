@@ -5,6 +5,7 @@ import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import { requirePermission } from '../../lib/permissions';
 import { DistributionCenterId } from '../../types';
 
 /**
@@ -35,7 +36,7 @@ const cabinetWarehouseRoutes = new Hono<ApiEnv>()
  /**
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('inventory.view'), async (c) => {
 	try {
 		// Query the cabinetWarehouse table for all records
 		const cabinetWarehouse = await db.select().from(schemas.cabinetWarehouse);
@@ -101,7 +102,7 @@ const cabinetWarehouseRoutes = new Hono<ApiEnv>()
  * @returns {ApiResponse} Success response with cabinet and warehouse name pairs
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/map', async (c) => {
+.get('/map', requirePermission('inventory.view'), async (c) => {
 	try {
 		// Build a cabinet-to-warehouse mapping via inner join for quick lookups
 		const cabinetWarehouseMapRaw = await db
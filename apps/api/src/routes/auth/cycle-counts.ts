@@ -0,0 +1,218 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { ApiEnv } from '../../context';
+import type { ApiResponse } from '../../lib/api-response';
+import {
+	buildCycleCountReportCsv,
+	cancelCycleCount,
+	closeCycleCount,
+	getCycleCount,
+	getCycleCountReport,
+	listCycleCounts,
+	openCycleCount,
+	recordCycleCountScan,
+} from '../../lib/cycle-counts';
+import { publishDomainEvent } from '../../lib/domain-events';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import {
+	cycleCountCloseSchema,
+	cycleCountListQuerySchema,
+	cycleCountOpenSchema,
+	cycleCountScanSchema,
+} from '../../types';
+
+const cycleCountParamSchema = z.object({ id: z.string().uuid('Invalid cycle count ID') });
+const reportQuerySchema = z.object({ format: z.enum(['json', 'csv']).default('json') });
+
+const cycleCountsRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET /all - List cycle counts, optionally filtered by warehouse and status
+	 */
+	.get(
+		'/all',
+		requirePermission('cycle_counts.view'),
+		zValidator('query', cycleCountListQuerySchema),
+		async (c) => {
+			const { warehouseId, status } = c.req.valid('query');
+			const user = c.get('user') as SessionUser | null;
+
+			const counts = await listCycleCounts({ warehouseId, status, user });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Cycle counts retrieved successfully',
+					data: counts,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /open - Open a count for a warehouse or cabinet and snapshot its expected units
+	 */
+	.post(
+		'/open',
+		requirePermission('cycle_counts.count'),
+		zValidator('json', cycleCountOpenSchema),
+		async (c) => {
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const cycleCount = await openCycleCount({ input: payload, user });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Cycle count opened successfully',
+					data: cycleCount,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * GET /:id - Cycle count with its items and live variance
+	 */
+	.get(
+		'/:id',
+		requirePermission('cycle_counts.view'),
+		zValidator('param', cycleCountParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+
+			const cycleCount = await getCycleCount({ id });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Cycle count retrieved successfully',
+					data: cycleCount,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /:id/scan - Record a unit QR (`{barcode, uuid}`) or a barcode plus quantity
+	 */
+	.post(
+		'/:id/scan',
+		requirePermission('cycle_counts.count'),
+		zValidator('param', cycleCountParamSchema),
+		zValidator('json', cycleCountScanSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const scan = await recordCycleCountScan({ id, input: payload, user });
+
+			return c.json(
+				{
+					success: true,
+					message:
+						scan.result === 'duplicate'
+							? 'Unit was already counted'
+							: 'Scan recorded successfully',
+					data: scan,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /:id/close - Close the count and post found/missing/unexpected adjustments
+	 */
+	.post(
+		'/:id/close',
+		requirePermission('cycle_counts.close'),
+		zValidator('param', cycleCountParamSchema),
+		zValidator('json', cycleCountCloseSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const cycleCount = await closeCycleCount({ id, input: payload, user });
+			publishDomainEvent({
+				type: 'stock.changed',
+				warehouseIds: [cycleCount.warehouseId],
+				data: {
+					productStockIds: cycleCount.items.flatMap((item) =>
+						item.productStockId ? [item.productStockId] : [],
+					),
+					reason: 'adjustment',
+				},
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: 'Cycle count closed successfully',
+					data: cycleCount,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /:id/cancel - Discard an open count without adjustments
+	 */
+	.post(
+		'/:id/cancel',
+		requirePermission('cycle_counts.close'),
+		zValidator('param', cycleCountParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const user = c.get('user') as SessionUser | null;
+
+			const cycleCount = await cancelCycleCount({ id, user });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Cycle count cancelled successfully',
+					data: cycleCount,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * GET /:id/report - Variance report with item resolutions and the scan log (JSON or CSV)
+	 */
+	.get(
+		'/:id/report',
+		requirePermission('cycle_counts.view'),
+		zValidator('param', cycleCountParamSchema),
+		zValidator('query', reportQuerySchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const { format } = c.req.valid('query');
+
+			const report = await getCycleCountReport({ id });
+
+			if (format === 'csv') {
+				c.header('Content-Type', 'text/csv; charset=utf-8');
+				c.header(
+					'Content-Disposition',
+					`attachment; filename="conteo-ciclico-${id}.csv"`,
+				);
+				return c.body(buildCycleCountReportCsv(report.cycleCount));
+			}
+
+			return c.json(
+				{
+					success: true,
+					message: 'Cycle count report retrieved successfully',
+					data: report,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	);
+
+export { cycleCountsRoutes };
@@ -2,11 +2,23 @@
 import { zValidator } from '@hono/zod-validator';
 import { eq } from 'drizzle-orm';
 import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import {
+	employeeWithPermissionsSelection,
+	generatePasscode,
+	prepareEmployeePasscode,
+	resetEmployeePasscode,
+	verifyEmployeePasscode,
+} from '../../lib/employee-passcodes';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+
+const passcodeSchema = z.string().regex(/^\d{4}$/, 'Passcode must be exactly 4 digits');
 
 const employeeRoutes = new Hono<ApiEnv>()
 /**
@@ -23,6 +35,7 @@ const employeeRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-user-id',
+	requirePermission('employees.view'),
 	zValidator('query', z.object({ userId: z.string() })),
 	async (c) => {
 		try {
@@ -30,7 +43,7 @@ const employeeRoutes = new Hono<ApiEnv>()
 
 			// Query the employee table for all records and permissions
 			const employee = await db
-				.select()
+				.select(employeeWithPermissionsSelection)
 				.from(schemas.employee)
 				.leftJoin(
 					schemas.permissions,
@@ -85,11 +98,11 @@ const employeeRoutes = new Hono<ApiEnv>()
  * @returns {ApiResponse} Success response with all employee data and their permissions
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('employees.view'), async (c) => {
 	try {
 		// Query the employee table for all records and permissions
 		const employees = await db
-			.select()
+			.select(employeeWithPermissionsSelection)
 			.from(schemas.employee)
 			.leftJoin(
 				schemas.permissions,
@@ -146,6 +159,7 @@ const employeeRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-warehouse-id',
+	requirePermission('employees.view'),
 	zValidator('query', z.object({ warehouseId: z.string().uuid() })),
 	async (c) => {
 		try {
@@ -153,7 +167,7 @@ const employeeRoutes = new Hono<ApiEnv>()
 
 			// Query the employee table for records matching the warehouse ID
 			const employees = await db
-				.select()
+				.select(employeeWithPermissionsSelection)
 				.from(schemas.employee)
 				.leftJoin(
 					schemas.permissions,
@@ -203,8 +217,8 @@ const employeeRoutes = new Hono<ApiEnv>()
  *
  * This endpoint creates a new employee record in the database.
  * It requires employee details including name, surname, warehouse assignment, and optional passcode.
- * The passcode defaults to 1111 if not provided. After successful creation,
- * it returns the newly created employee with their associated permissions.
+ * The passcode is stored hashed; when not provided a random one is generated. The plain passcode
+ * is returned once as `initialPasscode` together with the employee and their permissions.
  *
  * @param {string} name - Employee's first name (required)
  /**
@@ -212,7 +226,7 @@ const employeeRoutes = new Hono<ApiEnv>()
  /**
  * @param {string} warehouseId - UUID of the warehouse to assign the employee (required)
  /**
- * @param {number} passcode - 4-digit employee passcode (optional, defaults to 1111)
+ * @param {number} passcode - 4-digit employee passcode (optional, random when omitted)
  /**
  * @param {string} userId - User account ID to link to employee (optional)
  /**
@@ -220,10 +234,12 @@ const employeeRoutes = new Hono<ApiEnv>()
  /**
  * @returns {ApiResponse} Success response with the newly created employee data
  * @throws {400} If validation fails or required fields are missing
+ * @throws {409} If another employee of the linked user already uses the passcode
  * @throws {500} If database insertion fails or foreign key constraints are violated
  */
 .post(
 	'/create',
+	requirePermission('employees.manage'),
 	zValidator(
 		'json',
 		z.object({
@@ -253,6 +269,12 @@ const employeeRoutes = new Hono<ApiEnv>()
 			const { name, surname, warehouseId, passcode, userId, permissions } =
 				c.req.valid('json');
 
+			const initialPasscode = passcode === undefined ? generatePasscode() : String(passcode);
+			const passcodeHash = await prepareEmployeePasscode({
+				passcode: initialPasscode,
+				userId: userId ?? null,
+			});
+
 			// Insert the new employee into the database
 			// Using .returning() to get the inserted record back
 			const insertedEmployee = await db
@@ -261,11 +283,12 @@ const employeeRoutes = new Hono<ApiEnv>()
 					name,
 					surname,
 					warehouseId,
-					passcode: passcode ?? 1111, // Default to 1111 if not provided
+					passcodeHash,
+					passcodeUpdatedAt: new Date(),
 					userId: userId ?? null,
 					permissions: permissions ?? null,
 				})
-				.returning();
+				.returning({ id: schemas.employee.id });
 
 			// Check if the insertion was successful
 			// Drizzle's .returning() always returns an array
@@ -282,7 +305,7 @@ const employeeRoutes = new Hono<ApiEnv>()
 
 			// Fetch the complete employee record with permissions joined
 			const employeeWithPermissions = await db
-				.select()
+				.select(employeeWithPermissionsSelection)
 				.from(schemas.employee)
 				.leftJoin(
 					schemas.permissions,
@@ -295,11 +318,16 @@ const employeeRoutes = new Hono<ApiEnv>()
 				{
 					success: true,
 					message: 'Employee created successfully',
-					data: employeeWithPermissions[0], // Return the single created record with permissions
+					// Return the single created record with permissions and the passcode to hand over
+					data: { ...employeeWithPermissions[0], initialPasscode },
 				} satisfies ApiResponse,
 				201, // 201 Created status for successful resource creation
 			);
 		} catch (error) {
+			if (error instanceof HTTPException) {
+				throw error;
+			}
+
 			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
 			console.error('Error creating employee:', error);
 
@@ -342,6 +370,77 @@ const employeeRoutes = new Hono<ApiEnv>()
 			);
 		}
 	},
+)
+
+/**
+ * POST /verify-passcode - Sign an employee in from the mobile numpad
+ *
+ * Compares the passcode with the hashed passcodes of the employees linked to the signed-in
+ * account, so the device never downloads other employees' codes. Returns the employee with
+ * their permissions and a short-lived employee token (`X-Employee-Token`).
+ * After 5 consecutive failures the account is locked for 15 minutes.
+ *
+ * @param {string} passcode - 4-digit passcode typed on the numpad
+ * @returns {ApiResponse} Success response with `{ employee, permissions, token, expiresAt }`
+ * @throws {401} If the passcode does not match any employee
+ * @throws {423} If the account is locked after too many failed attempts
+ */
+.post(
+	'/verify-passcode',
+	requirePermission('employees.view'),
+	zValidator('json', z.object({ passcode: passcodeSchema })),
+	async (c) => {
+		const { passcode } = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const verified = await verifyEmployeePasscode({ passcode, user });
+
+		return c.json(
+			{
+				success: true,
+				message: 'Passcode verified',
+				data: verified,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+
+/**
+ * POST /:id/reset-passcode - Assign a new passcode to an employee
+ *
+ * Sets the given passcode (or a random one) and clears the numpad lockout of the linked account.
+ * Requires `employees.reset_passcode`, which only managers have by default. Admins and
+ * encargados can reset any employee; other users only employees of their warehouse.
+ *
+ * @param {string} id - Employee UUID
+ * @param {string} passcode - New 4-digit passcode (optional, random when omitted)
+ * @returns {ApiResponse} Success response with `{ employee, passcode }`; the passcode is only shown once
+ * @throws {403} If the user cannot manage the employee
+ * @throws {404} If the employee does not exist
+ * @throws {409} If another employee of the linked user already uses the passcode
+ */
+.post(
+	'/:id/reset-passcode',
+	requirePermission('employees.reset_passcode'),
+	zValidator('param', z.object({ id: z.string().uuid('Invalid employee ID') })),
+	zValidator('json', z.object({ passcode: passcodeSchema.optional() })),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const { passcode } = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const result = await resetEmployeePasscode({ employeeId: id, passcode, user });
+
+		return c.json(
+			{
+				success: true,
+				message: 'Passcode reset successfully',
+				data: result,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
 );
 export { employeeRoutes };
 
@@ -0,0 +1,80 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { ApiEnv } from '../../context';
+import type { ApiResponse } from '../../lib/api-response';
+import { isDomainEventVisible, subscribeToDomainEvents } from '../../lib/domain-events';
+import { requirePermission } from '../../lib/permissions';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+} from '../../lib/warehouse-scope';
+import { domainEventStreamQuerySchema } from '../../types';
+
+// Bun closes connections idle for 10 seconds, so the heartbeat has to be shorter
+const HEARTBEAT_INTERVAL_MS = 8000;
+
+const eventsRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET /stream - Server-Sent Events stream of domain events (stock.changed,
+	 * transfer.created, transfer.status_changed, transfer.items_updated, kit.updated)
+	 * for the warehouses in the user's scope
+	 *
+	 * Sends a `ready` event once subscribed and a comment heartbeat every 8 seconds.
+	 * Each event carries the event type as the SSE event name and the full event as JSON data.
+	 *
+	 * @param {string} warehouseId - Optional warehouse to narrow the stream to
+	 * @returns {ReadableStream} text/event-stream of domain events
+	 */
+	.get(
+		'/stream',
+		requirePermission('inventory.view'),
+		warehouseScope(),
+		zValidator('query', domainEventStreamQuerySchema),
+		(c) => {
+			const { warehouseId } = c.req.valid('query');
+			const scope = c.get('warehouseScope');
+
+			if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			return streamSSE(c, async (stream) => {
+				const unsubscribe = subscribeToDomainEvents((event) => {
+					if (!isDomainEventVisible(event, scope, warehouseId)) {
+						return;
+					}
+					stream
+						.writeSSE({ id: event.id, event: event.type, data: JSON.stringify(event) })
+						.catch((error) => {
+							// biome-ignore lint/suspicious/noConsole: Stream write failures need to be visible
+							console.error('Error writing domain event to stream:', error);
+						});
+				});
+				stream.onAbort(unsubscribe);
+
+				await stream.writeSSE({
+					event: 'ready',
+					data: JSON.stringify({ warehouseId: warehouseId ?? null, global: scope.global }),
+				});
+
+				while (!(stream.aborted || stream.closed)) {
+					await stream.sleep(HEARTBEAT_INTERVAL_MS);
+					if (stream.aborted || stream.closed) {
+						break;
+					}
+					await stream.write(': ping\n\n');
+				}
+				unsubscribe();
+			});
+		},
+	);
+
+export { eventsRoutes };
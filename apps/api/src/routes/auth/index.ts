@@ -1,18 +1,25 @@
 import { Hono } from 'hono';
 import type { ApiEnv } from '../../context';
+import { altegioRoutes } from './altegio';
+import { auditRoutes } from './audit';
 import { cabinetWarehouseRoutes } from './cabinet-warehouse';
+import { cycleCountsRoutes } from './cycle-counts';
 import { employeeRoutes } from './employee';
+import { eventsRoutes } from './events';
 import { inventoryRoutes } from './inventory';
 import { kitsRoutes } from './kits';
 import { mermaRoutes } from './merma';
+import { notificationsRoutes } from './notifications';
 import { permissionsRoutes } from './permissions';
 import { productsRoutes } from './products';
 import { productStockRoutes } from './product-stock';
+import { purchaseOrdersRoutes } from './purchase-orders';
 import { replenishmentOrdersRoutes } from './replenishment-orders';
 import { stockLimitsRoutes } from './stock-limits';
 import { usersRoutes } from './users';
 import { warehouseTransfersRoutes } from './warehouse-transfers';
 import { warehousesRoutes } from './warehouses';
+import { webhooksRoutes } from './webhooks';
 import { withdrawOrdersRoutes } from './withdraw-orders';
 
 const authRoutes = new Hono<ApiEnv>()
@@ -28,7 +35,14 @@ const authRoutes = new Hono<ApiEnv>()
 	.route('/warehouse-transfers', warehouseTransfersRoutes)
 	.route('/kits', kitsRoutes)
 	.route('/merma', mermaRoutes)
+	.route('/cycle-counts', cycleCountsRoutes)
 	.route('/users', usersRoutes)
-	.route('/replenishment-orders', replenishmentOrdersRoutes);
+	.route('/audit', auditRoutes)
+	.route('/events', eventsRoutes)
+	.route('/notifications', notificationsRoutes)
+	.route('/webhooks', webhooksRoutes)
+	.route('/replenishment-orders', replenishmentOrdersRoutes)
+	.route('/purchase-orders', purchaseOrdersRoutes)
+	.route('/altegio', altegioRoutes);
 
 export { authRoutes };
@@ -2,30 +2,61 @@ import { zValidator } from '@hono/zod-validator';
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { ApiEnv } from '../../context';
-import { InventorySyncError, syncInventory } from '../../lib/inventory-sync';
+import { InventorySyncError } from '../../lib/inventory-sync';
+import {
+	getInventorySyncRun,
+	listInventorySyncRuns,
+	runRecordedInventorySync,
+} from '../../lib/inventory-sync-runs';
 import type { ApiResponse } from '../../lib/api-response';
+import { requirePermission } from '../../lib/permissions';
 import type { SyncOptions, SyncResult } from '../../types';
 
 const inventorySyncRequestSchema = z
 	.object({
 		warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
 		dryRun: z.boolean().optional(),
+		reconcile: z.boolean().optional(),
 	})
 	.strict();
 
-const inventoryRoutes = new Hono<ApiEnv>().post(
+const syncRunsQuerySchema = z.object({
+	warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	cursor: z.string().optional(),
+});
+
+const inventoryRoutes = new Hono<ApiEnv>()
+/**
+ * POST /sync - Align product stock with Altegio and record the run
+ *
+ * @param {string} warehouseId - Optional warehouse to sync; all configured warehouses otherwise
+ * @param {boolean} dryRun - Plan the changes without writing them
+ * @param {boolean} reconcile - Also retire surplus units
+ * @returns {ApiResponse} Per-warehouse summaries, totals and the run ID
+ * @throws {400|404|502} If the sync cannot run (see InventorySyncError)
+ * @throws {409} If a sync on the same warehouse, or on all warehouses, is still running
+ */
+.post(
 	'/sync',
+	requirePermission('inventory.sync'),
 	zValidator('json', inventorySyncRequestSchema),
 	async (c) => {
-		const { warehouseId, dryRun = false } = c.req.valid('json');
+		const { warehouseId, dryRun = false, reconcile = false } = c.req.valid('json');
+		const user = c.get('user');
 
 		const syncOptions: SyncOptions = {
 			dryRun,
+			reconcile,
 			...(warehouseId !== undefined ? { warehouseId } : {}),
+			...(user ? { userId: user.id } : {}),
 		};
 
 		try {
-			const result = await syncInventory(syncOptions);
+			const { run, result } = await runRecordedInventorySync({
+				options: syncOptions,
+				trigger: 'manual',
+			});
 
 			return c.json(
 				{
@@ -34,11 +65,13 @@ const inventoryRoutes = new Hono<ApiEnv>().post(
 						? 'Dry-run inventory sync completed successfully'
 						: 'Inventory sync completed successfully',
 					data: {
+						runId: run.id,
 						warehouses: result.warehouses,
 						totals: result.totals,
 					},
 					meta: [result.meta],
 				} satisfies ApiResponse<{
+					runId: string;
 					warehouses: SyncResult['warehouses'];
 					totals: SyncResult['totals'];
 				}>,
@@ -55,6 +88,7 @@ const inventoryRoutes = new Hono<ApiEnv>().post(
 						meta: [
 							{
 								dryRun,
+								reconcile,
 								warehouseId,
 							},
 						],
@@ -66,6 +100,58 @@ const inventoryRoutes = new Hono<ApiEnv>().post(
 			throw error;
 		}
 	},
+)
+/**
+ * GET /sync-runs - List persisted inventory sync runs (manual and scheduled)
+ *
+ * @param {string} warehouseId - Optional warehouse scope filter
+ * @param {number} limit - Page size (default 20, max 100)
+ * @param {string} cursor - Cursor returned by the previous page
+ * @returns {ApiResponse} Runs without per-warehouse summaries plus nextCursor
+ */
+.get(
+	'/sync-runs',
+	requirePermission('inventory.view'),
+	zValidator('query', syncRunsQuerySchema),
+	async (c) => {
+		const { warehouseId, limit, cursor } = c.req.valid('query');
+
+		const page = await listInventorySyncRuns({ warehouseId, limit, cursor });
+
+		return c.json(
+			{
+				success: true,
+				message: 'Inventory sync runs retrieved successfully',
+				data: page,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+/**
+ * GET /sync-runs/:id - Sync run detail with per-warehouse summaries and the previous run
+ *
+ * @returns {ApiResponse} The run and the previous successful run for the same scope
+ * @throws {404} If the run does not exist
+ */
+.get(
+	'/sync-runs/:id',
+	requirePermission('inventory.view'),
+	zValidator('param', z.object({ id: z.string().uuid('Invalid sync run ID') })),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const detail = await getInventorySyncRun(id);
+
+		return c.json(
+			{
+				success: true,
+				message: 'Inventory sync run retrieved successfully',
+				data: detail,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
 );
 
 export { inventoryRoutes };
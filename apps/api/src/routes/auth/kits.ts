@@ -1,64 +1,210 @@
 /** biome-ignore-all lint/performance/noNamespaceImport: Required for zod */
 import { zValidator } from '@hono/zod-validator';
-import { and, eq, inArray, sql } from 'drizzle-orm';
+import { and, eq, gte, inArray, lte, type SQL, sql } from 'drizzle-orm';
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import { recordAuditLog } from '../../lib/audit-log';
+import { publishDomainEvent, publishStockChanged } from '../../lib/domain-events';
+import { idempotency } from '../../lib/idempotency';
+import {
+	decodeListCursor,
+	listCursorCondition,
+	listOrderBy,
+	listPaginationQuerySchema,
+	parseListDateRange,
+	parseListSort,
+	toListPage,
+	withListLimit,
+} from '../../lib/list-pagination';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import {
+	canAccessEmployee,
+	canAccessWarehouse,
+	employeeScopeCondition,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+} from '../../lib/warehouse-scope';
 
-const kitsRoutes = new Hono<ApiEnv>()
 /**
- * GET /all - Retrieve all kits
- *
- * This endpoint fetches all kit records from the database with
- * assigned employee information. Returns comprehensive kit data
- * including assignment details and status information.
- *
- * @returns {ApiResponse} Success response with kits data from DB
- * @throws {500} If an unexpected error occurs during data retrieval
+ * Publishes `kit.updated` to the warehouse of the kit's employee. Errors are logged and never
+ * fail the request, since the write has already committed.
  */
-.get('/all', async (c) => {
+async function publishKitUpdated(kitId: string): Promise<void> {
 	try {
-		// Query kits with employee information
-		const kits = await db
+		const [kit] = await db
 			.select({
-				// Kit information
-				id: schemas.kits.id,
-				numProducts: schemas.kits.numProducts,
-				assignedDate: schemas.kits.assignedDate,
-				observations: schemas.kits.observations,
-				createdAt: schemas.kits.createdAt,
-				updatedAt: schemas.kits.updatedAt,
-				assignedEmployee: schemas.kits.assignedEmployee,
-				isPartial: schemas.kits.isPartial,
-				isComplete: schemas.kits.isComplete,
+				employeeId: schemas.kits.assignedEmployee,
+				warehouseId: schemas.employee.warehouseId,
 			})
 			.from(schemas.kits)
-			.orderBy(schemas.kits.createdAt);
-
-		return c.json(
-			{
-				success: true,
-				message: kits.length > 0 ? 'Kits retrieved successfully' : 'No kits found',
-				data: kits,
-			} satisfies ApiResponse,
-			200,
-		);
+			.innerJoin(schemas.employee, eq(schemas.kits.assignedEmployee, schemas.employee.id))
+			.where(eq(schemas.kits.id, kitId))
+			.limit(1);
+
+		if (kit?.warehouseId) {
+			publishDomainEvent({
+				type: 'kit.updated',
+				warehouseIds: [kit.warehouseId],
+				data: { kitId, employeeId: kit.employeeId },
+			});
+		}
 	} catch (error) {
-		// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
-		console.error('Error fetching kits:', error);
-
-		return c.json(
-			{
-				success: false,
-				message: 'Failed to fetch kits',
-			} satisfies ApiResponse,
-			500,
-		);
+		// biome-ignore lint/suspicious/noConsole: Event delivery failures need to be visible
+		console.error('Error publishing kit update event:', error);
 	}
-})
+}
+
+const kitsRoutes = new Hono<ApiEnv>()
+/**
+ * GET /all - Retrieve all kits
+ *
+ * This endpoint fetches the kit records visible in the user's warehouse scope.
+ * Returns comprehensive kit data including assignment details and status information.
+ *
+ * Query params (all optional):
+ * - limit / cursor: keyset pagination; without `limit` every match is returned
+ * - sort: `createdAt` (default), `assignedDate` or `numProducts`, prefix `-` for descending
+ * - employeeId, isComplete, start / end (assigned date)
+ *
+ * @returns {ApiResponse} Success response with kits data from DB, with `meta[0].nextCursor`
+ * @throws {400} If the cursor or the date range is invalid
+ * @throws {500} If an unexpected error occurs during data retrieval
+ */
+.get(
+	'/all',
+	requirePermission('kits.view'),
+	warehouseScope(),
+	zValidator(
+		'query',
+		listPaginationQuerySchema.extend({
+			sort: z
+				.enum([
+					'createdAt',
+					'-createdAt',
+					'assignedDate',
+					'-assignedDate',
+					'numProducts',
+					'-numProducts',
+				])
+				.default('createdAt'),
+			employeeId: z.string().optional(),
+			isComplete: z
+				.enum(['true', 'false'])
+				.optional()
+				.transform((value) => (value === undefined ? undefined : value === 'true')),
+		}),
+	),
+	async (c) => {
+		try {
+			const query = c.req.valid('query');
+			const range = parseListDateRange(query);
+			if (!range) {
+				return c.json(
+					{
+						success: false,
+						message: 'Invalid date range',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
+
+			const { field, direction } = parseListSort(query.sort);
+			const sortColumn = schemas.kits[field];
+			const conditions: SQL[] = [];
+			if (query.cursor) {
+				const cursorId = decodeListCursor(query.cursor, query.sort);
+				if (!cursorId) {
+					return c.json(
+						{
+							success: false,
+							message: 'Invalid cursor',
+						} satisfies ApiResponse,
+						400,
+					);
+				}
+				conditions.push(
+					listCursorCondition({
+						table: schemas.kits,
+						idColumn: schemas.kits.id,
+						sortColumn,
+						direction,
+						cursorId,
+					}),
+				);
+			}
+			if (query.employeeId) {
+				conditions.push(eq(schemas.kits.assignedEmployee, query.employeeId));
+			}
+			if (query.isComplete !== undefined) {
+				conditions.push(eq(schemas.kits.isComplete, query.isComplete));
+			}
+			if (range.start) {
+				conditions.push(gte(schemas.kits.assignedDate, range.start.toISOString().slice(0, 10)));
+			}
+			if (range.end) {
+				conditions.push(lte(schemas.kits.assignedDate, range.end.toISOString().slice(0, 10)));
+			}
+
+			// Query kits with employee information
+			const kitRows = await withListLimit(
+				db
+					.select({
+						// Kit information
+						id: schemas.kits.id,
+						numProducts: schemas.kits.numProducts,
+						assignedDate: schemas.kits.assignedDate,
+						observations: schemas.kits.observations,
+						createdAt: schemas.kits.createdAt,
+						updatedAt: schemas.kits.updatedAt,
+						assignedEmployee: schemas.kits.assignedEmployee,
+						isPartial: schemas.kits.isPartial,
+						isComplete: schemas.kits.isComplete,
+					})
+					.from(schemas.kits)
+					.where(
+						and(
+							employeeScopeCondition(c.get('warehouseScope'), schemas.kits.assignedEmployee),
+							...conditions,
+						),
+					)
+					.orderBy(...listOrderBy(sortColumn, schemas.kits.id, direction))
+					.$dynamic(),
+				query.limit,
+			);
+			const { items: kits, nextCursor } = toListPage(kitRows, {
+				limit: query.limit,
+				sort: query.sort,
+				getId: (row) => row.id,
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: kits.length > 0 ? 'Kits retrieved successfully' : 'No kits found',
+					data: kits,
+					meta: [{ nextCursor }],
+				} satisfies ApiResponse,
+				200,
+			);
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
+			console.error('Error fetching kits:', error);
+
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to fetch kits',
+				} satisfies ApiResponse,
+				500,
+			);
+		}
+	},
+)
 
 /**
  * GET /by-employee - Retrieve kits by employee ID
@@ -75,11 +221,23 @@ const kitsRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-employee',
+	requirePermission('kits.view'),
+	warehouseScope(),
 	zValidator('query', z.object({ employeeId: z.string('Invalid employee ID') })),
 	async (c) => {
 		try {
 			const { employeeId } = c.req.valid('query');
 
+			if (!(await canAccessEmployee(c.get('warehouseScope'), employeeId))) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query kits assigned to specific employee
 			const kits = await db
 				.select({
@@ -147,6 +305,8 @@ const kitsRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/details',
+	requirePermission('kits.view'),
+	warehouseScope(),
 	zValidator(
 		'query',
 		z.object({
@@ -214,6 +374,16 @@ const kitsRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (!canAccessWarehouse(c.get('warehouseScope'), kit[0].employee?.warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query the kit details with product stock information
 			const kitDetails = await db
 				.select({
@@ -285,10 +455,14 @@ const kitsRoutes = new Hono<ApiEnv>()
  * @param {Array} kitItems - Array of product stock items to include in the kit
  * @returns {ApiResponse} Success response with created kit and items data
  * @throws {400} Validation error if input data is invalid
+ * @throws {403} If the employee or a product belongs to a warehouse outside the user's scope
  * @throws {500} Database error if insertion fails
  */
 .post(
 	'/create',
+	requirePermission('kits.manage'),
+	warehouseScope(),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -319,6 +493,17 @@ const kitsRoutes = new Hono<ApiEnv>()
 				}>;
 			};
 
+			const scope = c.get('warehouseScope');
+			if (!(await canAccessEmployee(scope, assignedEmployee))) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Get the product stock IDs for validation
 			const productStockIds = kitItems.map((item) => item.productId);
 
@@ -329,7 +514,9 @@ const kitsRoutes = new Hono<ApiEnv>()
 					.select({
 						id: schemas.productStock.id,
 						isBeingUsed: schemas.productStock.isBeingUsed,
+						isInTransit: schemas.productStock.isInTransit,
 						barcode: schemas.productStock.barcode,
+						currentWarehouse: schemas.productStock.currentWarehouse,
 					})
 					.from(schemas.productStock)
 					.where(inArray(schemas.productStock.id, productStockIds));
@@ -339,6 +526,14 @@ const kitsRoutes = new Hono<ApiEnv>()
 					throw new Error('One or more product stock items not found');
 				}
 
+				if (
+					productStockCheck.some(
+						(product) => !canAccessWarehouse(scope, product.currentWarehouse),
+					)
+				) {
+					throw new Error(WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE);
+				}
+
 				// Check if any products are currently being used
 				const productsInUse = productStockCheck.filter(
 					(product) => product.isBeingUsed,
@@ -349,6 +544,16 @@ const kitsRoutes = new Hono<ApiEnv>()
 					);
 				}
 
+				// Units dispatched on a transfer are on their way to another warehouse
+				const productsInTransit = productStockCheck.filter(
+					(product) => product.isInTransit,
+				);
+				if (productsInTransit.length > 0) {
+					throw new Error(
+						`Products with barcodes ${productsInTransit.map((p) => p.barcode).join(', ')} are in transit`,
+					);
+				}
+
 				// Create the main kit record
 				const insertedKit = await tx
 					.insert(schemas.kits)
@@ -405,12 +610,25 @@ const kitsRoutes = new Hono<ApiEnv>()
 
 				await tx.insert(schemas.productStockUsageHistory).values(kitHistoryRecords);
 
+				await recordAuditLog(tx, {
+					actor: c.get('user') as SessionUser | null,
+					entityType: 'kit',
+					entityId: kitId,
+					action: 'create',
+					after: insertedKit[0],
+					metadata: { productIds: productStockIds },
+				});
+
 				return {
 					kit: insertedKit[0],
 					items: insertedItems,
+					updatedProducts,
 				};
 			});
 
+			publishStockChanged(result.updatedProducts, 'kit');
+			await publishKitUpdated(result.kit.id);
+
 			return c.json(
 				{
 					success: true,
@@ -429,10 +647,21 @@ const kitsRoutes = new Hono<ApiEnv>()
 
 			// Handle specific database errors
 			if (error instanceof Error) {
+				if (error.message === WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE) {
+					return c.json(
+						{
+							success: false,
+							message: error.message,
+						} satisfies ApiResponse,
+						403,
+					);
+				}
+
 				// Handle custom validation errors
 				if (
 					error.message.includes('not found') ||
-					error.message.includes('being used')
+					error.message.includes('being used') ||
+					error.message.includes('in transit')
 				) {
 					return c.json(
 						{
@@ -477,11 +706,14 @@ const kitsRoutes = new Hono<ApiEnv>()
  * @param {string} observations - Updated observations about the kit
  * @returns {ApiResponse} Success response with updated kit data
  * @throws {400} Validation error if input data is invalid
+ * @throws {403} If the kit's employee belongs to a warehouse outside the user's scope
  * @throws {404} If kit not found
  * @throws {500} Database error if update fails
  */
 .post(
 	'/update',
+	requirePermission('kits.manage'),
+	warehouseScope(),
 	zValidator(
 		'json',
 		z.object({
@@ -512,12 +744,46 @@ const kitsRoutes = new Hono<ApiEnv>()
 				updateValues.isComplete = isComplete;
 			}
 
-			// Update the kit
-			const updatedKit = await db
-				.update(schemas.kits)
-				.set(updateValues)
-				.where(eq(schemas.kits.id, kitId))
-				.returning();
+			// Update the kit and record the change in the audit log
+			const updatedKit = await db.transaction(async (tx) => {
+				const [before] = await tx
+					.select()
+					.from(schemas.kits)
+					.where(eq(schemas.kits.id, kitId))
+					.for('update');
+				if (!before) {
+					return [];
+				}
+				if (!(await canAccessEmployee(c.get('warehouseScope'), before.assignedEmployee))) {
+					return null;
+				}
+
+				const updated = await tx
+					.update(schemas.kits)
+					.set(updateValues)
+					.where(eq(schemas.kits.id, kitId))
+					.returning();
+
+				await recordAuditLog(tx, {
+					actor: c.get('user') as SessionUser | null,
+					entityType: 'kit',
+					entityId: kitId,
+					action: 'update',
+					before,
+					after: updated[0],
+				});
+				return updated;
+			});
+
+			if (!updatedKit) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
 
 			if (updatedKit.length === 0) {
 				return c.json(
@@ -529,6 +795,8 @@ const kitsRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			await publishKitUpdated(kitId);
+
 			return c.json(
 				{
 					success: true,
@@ -564,11 +832,14 @@ const kitsRoutes = new Hono<ApiEnv>()
  * @param {string} observations - Updated observations about the item
  * @returns {ApiResponse} Success response with updated kit item data
  * @throws {400} Validation error if input data is invalid
+ * @throws {403} If the kit's employee belongs to a warehouse outside the user's scope
  * @throws {404} If kit item not found
  * @throws {500} Database error if update fails
  */
 .post(
 	'/items/update-status',
+	requirePermission('kits.manage'),
+	warehouseScope(),
 	zValidator(
 		'json',
 		z.object({
@@ -601,6 +872,24 @@ const kitsRoutes = new Hono<ApiEnv>()
 					updateValues.observations = observations;
 				}
 
+				const [before] = await tx
+					.select()
+					.from(schemas.kitsDetails)
+					.where(eq(schemas.kitsDetails.id, kitItemId))
+					.for('update');
+				if (!before) {
+					return { type: 'not_found' as const };
+				}
+
+				const [kit] = await tx
+					.select({ assignedEmployee: schemas.kits.assignedEmployee })
+					.from(schemas.kits)
+					.where(eq(schemas.kits.id, before.kitId))
+					.limit(1);
+				if (kit && !(await canAccessEmployee(c.get('warehouseScope'), kit.assignedEmployee))) {
+					return { type: 'forbidden' as const };
+				}
+
 				// Update the kit item row
 				const updatedRows = await tx
 					.update(schemas.kitsDetails)
@@ -613,11 +902,22 @@ const kitsRoutes = new Hono<ApiEnv>()
 					return { type: 'not_found' as const };
 				}
 
+				await recordAuditLog(tx, {
+					actor: c.get('user') as SessionUser | null,
+					entityType: 'kit_item',
+					entityId: kitItemId,
+					action: isReturned === undefined ? 'update' : 'status_change',
+					before,
+					after: updatedItem,
+					metadata: { kitId: updatedItem.kitId },
+				});
+
 				const currentDate = new Date().toISOString().split('T')[0];
 
 				// Update the product stock status based on return status
+				let productStock: (typeof schemas.productStock.$inferSelect)[];
 				if (isReturned !== undefined) {
-					const productStock = await tx
+					productStock = await tx
 						.update(schemas.productStock)
 						.set({
 							isBeingUsed: !isReturned,
@@ -641,15 +941,16 @@ const kitsRoutes = new Hono<ApiEnv>()
 						});
 					}
 				} else {
-					await tx
+					productStock = await tx
 						.update(schemas.productStock)
 						.set({
 							isEmpty: true,
 						})
-						.where(eq(schemas.productStock.id, updatedItem.productId));
+						.where(eq(schemas.productStock.id, updatedItem.productId))
+						.returning();
 				}
 
-				return { type: 'ok' as const, updatedItem };
+				return { type: 'ok' as const, updatedItem, productStock };
 			});
 
 			if (txResult.type === 'not_found') {
@@ -662,6 +963,19 @@ const kitsRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (txResult.type === 'forbidden') {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			publishStockChanged(txResult.productStock, 'kit');
+			await publishKitUpdated(txResult.updatedItem.kitId);
+
 			return c.json(
 				{
 					success: true,
@@ -6,12 +6,17 @@ import type { ApiEnv } from '../../context';
 import { db } from '../../db';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import { publishStockChanged } from '../../lib/domain-events';
+import { idempotency } from '../../lib/idempotency';
+import { roundMoney, shrinkageUnitCost, shrinkageValueSql } from '../../lib/inventory-valuation';
+import { hasPermission, requirePermission } from '../../lib/permissions';
 import {
 	escapeCsvValue,
 	shrinkageReasons,
 	shrinkageSources,
 	type ShrinkageReason,
 } from '../../lib/shrinkage';
+import { enqueueShrinkageRecordedWebhook } from '../../lib/webhooks';
 
 const scopeSchema = z.enum(['global', 'warehouse']);
 const shrinkageReasonSchema = z.enum(shrinkageReasons);
@@ -42,6 +47,10 @@ const writeoffEventsSchema = dateRangeSchema.extend({
 	cursor: z.string().optional(),
 });
 
+const writeoffsMonthlySchema = writeoffsSummarySchema.extend({
+	source: shrinkageSourceSchema.optional(),
+});
+
 const exportSchema = dateRangeSchema.extend({
 	scope: scopeSchema.default('warehouse'),
 	warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
@@ -74,20 +83,12 @@ function parseDateRange(startRaw: string, endRaw: string): ParsedRange | null {
 	return { start, end };
 }
 
-function isAdmin(user: SessionUser): boolean {
-	return user?.role === 'admin';
-}
-
-function isEncargado(user: SessionUser): boolean {
-	return user?.role === 'encargado';
-}
-
 async function canUseGlobalScope(user: SessionUser): Promise<boolean> {
-	if (isAdmin(user)) {
+	if (await hasPermission(user, 'merma.view_all')) {
 		return true;
 	}
 
-	if (!isEncargado(user) || !user?.warehouseId) {
+	if (!user?.warehouseId) {
 		return false;
 	}
 
@@ -112,7 +113,7 @@ async function resolveScopeWarehouseId(args: {
 	{ ok: false; status: 400 | 403; message: string } | { ok: true; warehouseId: string | null }
 > {
 	const { user, scope, warehouseId } = args;
-	if (isAdmin(user)) {
+	if (await hasPermission(user, 'merma.view_all')) {
 		if (scope === 'global') {
 			return { ok: true, warehouseId: null };
 		}
@@ -126,33 +127,24 @@ async function resolveScopeWarehouseId(args: {
 		return { ok: true, warehouseId };
 	}
 
-	if (isEncargado(user)) {
-		if (!user?.warehouseId) {
-			return {
-				ok: false,
-				status: 400,
-				message: 'Encargado user requires an assigned warehouse',
-			};
-		}
-		if (scope === 'global') {
-			if (await canUseGlobalScope(user)) {
-				return { ok: true, warehouseId: null };
-			}
-			return {
-				ok: false,
-				status: 403,
-				message:
-					'Forbidden - global scope is only available for admin or CEDIS encargado users',
-			};
+	if (!user?.warehouseId) {
+		return {
+			ok: false,
+			status: 400,
+			message: 'User requires an assigned warehouse',
+		};
+	}
+	if (scope === 'global') {
+		if (await canUseGlobalScope(user)) {
+			return { ok: true, warehouseId: null };
 		}
-		return { ok: true, warehouseId: user.warehouseId };
+		return {
+			ok: false,
+			status: 403,
+			message: "Forbidden - global scope requires 'merma.view_all' or a CEDIS warehouse",
+		};
 	}
-
-	return {
-		ok: false,
-		status: 403,
-		message: 'Forbidden - insufficient permissions',
-	};
+	return { ok: true, warehouseId: user.warehouseId };
 }
 
 function encodeCursor(payload: { createdAt: Date; id: string }): string {
@@ -195,177 +187,175 @@ function isWriteoffConflict(error: unknown): error is WriteoffConflict {
 }
 
 const mermaRoutes = new Hono<ApiEnv>()
-	.post('/writeoffs', zValidator('json', writeoffSchema), async (c) => {
-		const user = c.get('user');
-		if (!hasSessionUser(user)) {
-			return c.json(
-				{
-					success: false,
-					message: 'Authentication required',
-				} satisfies ApiResponse,
-				401,
-			);
-		}
+	.post(
+		'/writeoffs',
+		requirePermission('merma.writeoff'),
+		idempotency(),
+		zValidator('json', writeoffSchema),
+		async (c) => {
+			const user = c.get('user');
+			if (!hasSessionUser(user)) {
+				return c.json(
+					{
+						success: false,
+						message: 'Authentication required',
+					} satisfies ApiResponse,
+					401,
+				);
+			}
 
-		if (!(isAdmin(user) || isEncargado(user))) {
-			return c.json(
-				{
-					success: false,
-					message: 'Forbidden - insufficient permissions',
-				} satisfies ApiResponse,
-				403,
-			);
-		}
+			const { productIds, reason, notes } = c.req.valid('json');
+			const normalizedNotes = notes?.trim();
 
-		const { productIds, reason, notes } = c.req.valid('json');
-		const normalizedNotes = notes?.trim();
+			if (reason === 'otro' && !normalizedNotes) {
+				return c.json(
+					{
+						success: false,
+						message: 'notes is required when reason is "otro"',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
 
-		if (reason === 'otro' && !normalizedNotes) {
-			return c.json(
-				{
-					success: false,
-					message: 'notes is required when reason is "otro"',
-				} satisfies ApiResponse,
-				400,
-			);
-		}
+			const uniqueProductIds = Array.from(new Set(productIds));
+			const products = await db
+				.select({
+					id: schemas.productStock.id,
+					barcode: schemas.productStock.barcode,
+					description: schemas.productStock.description,
+					currentWarehouse: schemas.productStock.currentWarehouse,
+				})
+				.from(schemas.productStock)
+				.where(inArray(schemas.productStock.id, uniqueProductIds));
 
-		const uniqueProductIds = Array.from(new Set(productIds));
-		const products = await db
-			.select({
-				id: schemas.productStock.id,
-				barcode: schemas.productStock.barcode,
-				description: schemas.productStock.description,
-				currentWarehouse: schemas.productStock.currentWarehouse,
-			})
-			.from(schemas.productStock)
-			.where(inArray(schemas.productStock.id, uniqueProductIds));
-
-		if (products.length !== uniqueProductIds.length) {
-			const existingIds = new Set(products.map((product) => product.id));
-			const missingIds = uniqueProductIds.filter((id) => !existingIds.has(id));
-			return c.json(
-				{
-					success: false,
-					message: 'One or more product IDs were not found',
-					data: { missingIds },
-				} satisfies ApiResponse,
-				404,
-			);
-		}
+			if (products.length !== uniqueProductIds.length) {
+				const existingIds = new Set(products.map((product) => product.id));
+				const missingIds = uniqueProductIds.filter((id) => !existingIds.has(id));
+				return c.json(
+					{
+						success: false,
+						message: 'One or more product IDs were not found',
+						data: { missingIds },
+					} satisfies ApiResponse,
+					404,
+				);
+			}
+
+			const employeeRows = await db
+				.select({ id: schemas.employee.id })
+				.from(schemas.employee)
+				.where(eq(schemas.employee.userId, user.id))
+				.limit(1);
+			const employeeId = employeeRows[0]?.id;
+
+			let createdEvents: Array<{ id: string }> = [];
+			try {
+				createdEvents = await db.transaction(async (tx) => {
+					const insertedEvents = await tx
+						.insert(schemas.inventoryShrinkageEvent)
+						.values(
+							products.map((product) => ({
+								source: 'manual',
+								reason,
+								quantity: 1,
+								notes: normalizedNotes ?? null,
+								warehouseId: product.currentWarehouse,
+								productStockId: product.id,
+								productBarcode: product.barcode,
+								productDescription: product.description,
+								unitCost: shrinkageUnitCost(product.id, product.barcode),
+								createdByUserId: user.id,
+							})),
+						)
+						.onConflictDoNothing()
+						.returning();
+
+					if (insertedEvents.length !== products.length) {
+						const insertedProductIds = new Set(
+							insertedEvents
+								.map((event) => event.productStockId)
+								.filter((id): id is string => Boolean(id)),
+						);
+						throw {
+							type: 'writeoff_conflict',
+							productIds: products
+								.map((product) => product.id)
+								.filter((id) => !insertedProductIds.has(id)),
+						} satisfies WriteoffConflict;
+					}
 
-		const employeeRows = await db
-			.select({ id: schemas.employee.id })
-			.from(schemas.employee)
-			.where(eq(schemas.employee.userId, user.id))
-			.limit(1);
-		const employeeId = employeeRows[0]?.id;
-
-		let createdEvents: Array<{ id: string }> = [];
-		try {
-			createdEvents = await db.transaction(async (tx) => {
-				const insertedEvents = await tx
-					.insert(schemas.inventoryShrinkageEvent)
-					.values(
+					if (reason === 'consumido') {
+						await tx
+							.update(schemas.productStock)
+							.set({
+								isEmpty: true,
+								isBeingUsed: false,
+							})
+							.where(inArray(schemas.productStock.id, uniqueProductIds));
+					} else {
+						await tx
+							.update(schemas.productStock)
+							.set({
+								isDeleted: true,
+								isBeingUsed: false,
+							})
+							.where(inArray(schemas.productStock.id, uniqueProductIds));
+					}
+
+					await tx.insert(schemas.productStockUsageHistory).values(
 						products.map((product) => ({
-							source: 'manual',
-							reason,
-							quantity: 1,
-							notes: normalizedNotes ?? null,
-							warehouseId: product.currentWarehouse,
 							productStockId: product.id,
-							productBarcode: product.barcode,
-							productDescription: product.description,
-							createdByUserId: user.id,
+							employeeId: employeeId ?? null,
+							userId: user.id,
+							warehouseId: product.currentWarehouse,
+							movementType: 'other',
+							action: 'checkout',
+							notes: normalizedNotes
+								? `Merma manual (${reason}): ${normalizedNotes}`
+								: `Merma manual (${reason})`,
+							usageDate: new Date(),
+							previousWarehouseId: product.currentWarehouse,
 						})),
-					)
-					.onConflictDoNothing()
-					.returning({
-						id: schemas.inventoryShrinkageEvent.id,
-						productStockId: schemas.inventoryShrinkageEvent.productStockId,
-					});
-
-				if (insertedEvents.length !== products.length) {
-					const insertedProductIds = new Set(
-						insertedEvents
-							.map((event) => event.productStockId)
-							.filter((id): id is string => Boolean(id)),
 					);
-					throw {
-						type: 'writeoff_conflict',
-						productIds: products
-							.map((product) => product.id)
-							.filter((id) => !insertedProductIds.has(id)),
-					} satisfies WriteoffConflict;
-				}
-
-				if (reason === 'consumido') {
-					await tx
-						.update(schemas.productStock)
-						.set({
-							isEmpty: true,
-							isBeingUsed: false,
-						})
-						.where(inArray(schemas.productStock.id, uniqueProductIds));
-				} else {
-					await tx
-						.update(schemas.productStock)
-						.set({
-							isDeleted: true,
-							isBeingUsed: false,
-						})
-						.where(inArray(schemas.productStock.id, uniqueProductIds));
+					await enqueueShrinkageRecordedWebhook(tx, insertedEvents);
+
+					return insertedEvents.map((event) => ({ id: event.id }));
+				});
+			} catch (error) {
+				if (isWriteoffConflict(error)) {
+					return c.json(
+						{
+							success: false,
+							message:
+								'A write-off event already exists for one or more products with the same reason',
+							data: {
+								productIds: error.productIds,
+							},
+						} satisfies ApiResponse,
+						409,
+					);
 				}
-
-				await tx.insert(schemas.productStockUsageHistory).values(
-					products.map((product) => ({
-						productStockId: product.id,
-						employeeId: employeeId ?? null,
-						userId: user.id,
-						warehouseId: product.currentWarehouse,
-						movementType: 'other',
-						action: 'checkout',
-						notes: normalizedNotes
-							? `Merma manual (${reason}): ${normalizedNotes}`
-							: `Merma manual (${reason})`,
-						usageDate: new Date(),
-						previousWarehouseId: product.currentWarehouse,
-					})),
-				);
-
-				return insertedEvents.map((event) => ({ id: event.id }));
-			});
-		} catch (error) {
-			if (isWriteoffConflict(error)) {
-				return c.json(
-					{
-						success: false,
-						message:
-							'A write-off event already exists for one or more products with the same reason',
-						data: {
-							productIds: error.productIds,
-						},
-					} satisfies ApiResponse,
-					409,
-				);
+				throw error;
 			}
-			throw error;
-		}
 
-		return c.json(
-			{
-				success: true,
-				message: `Successfully registered ${createdEvents.length} write-off event(s)`,
-				data: {
-					eventsCreated: createdEvents.length,
-					eventIds: createdEvents.map((event) => event.id),
-				},
-			} satisfies ApiResponse,
-			201,
-		);
-	})
+			publishStockChanged(products, 'writeoff');
+
+			return c.json(
+				{
+					success: true,
+					message: `Successfully registered ${createdEvents.length} write-off event(s)`,
+					data: {
+						eventsCreated: createdEvents.length,
+						eventIds: createdEvents.map((event) => event.id),
+					},
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
 	.get(
 		'/writeoffs/summary',
+		requirePermission('merma.view'),
 		zValidator('query', writeoffsSummarySchema),
 		async (c) => {
 			const user = c.get('user');
@@ -424,6 +414,7 @@ const mermaRoutes = new Hono<ApiEnv>()
 						warehouseName: schemas.warehouse.name,
 						reason: schemas.inventoryShrinkageEvent.reason,
 						total: sql<number>`COALESCE(SUM(${schemas.inventoryShrinkageEvent.quantity}), 0)`,
+						value: shrinkageValueSql,
 					})
 					.from(schemas.inventoryShrinkageEvent)
 					.innerJoin(
@@ -444,8 +435,10 @@ const mermaRoutes = new Hono<ApiEnv>()
 						warehouseName: string;
 						consumido: number;
 						dañado: number;
+						caducado: number;
 						otro: number;
 						total: number;
+						totalValue: number;
 					}
 				>();
 
@@ -455,8 +448,10 @@ const mermaRoutes = new Hono<ApiEnv>()
 						warehouseName: row.warehouseName,
 						consumido: 0,
 						dañado: 0,
+						caducado: 0,
 						otro: 0,
 						total: 0,
+						totalValue: 0,
 					};
 					const total = Number(row.total ?? 0);
 					if (row.reason === 'consumido') {
@@ -465,10 +460,14 @@ const mermaRoutes = new Hono<ApiEnv>()
 					if (row.reason === 'dañado') {
 						existing.dañado += total;
 					}
+					if (row.reason === 'caducado') {
+						existing.caducado += total;
+					}
 					if (row.reason === 'otro') {
 						existing.otro += total;
 					}
 					existing.total += total;
+					existing.totalValue = roundMoney(existing.totalValue + Number(row.value ?? 0));
 					byWarehouse.set(row.warehouseId, existing);
 				}
 
@@ -480,10 +479,12 @@ const mermaRoutes = new Hono<ApiEnv>()
 					(accumulator, item) => ({
 						consumido: accumulator.consumido + item.consumido,
 						dañado: accumulator.dañado + item.dañado,
+						caducado: accumulator.caducado + item.caducado,
 						otro: accumulator.otro + item.otro,
 						total: accumulator.total + item.total,
+						totalValue: roundMoney(accumulator.totalValue + item.totalValue),
 					}),
-					{ consumido: 0, dañado: 0, otro: 0, total: 0 },
+					{ consumido: 0, dañado: 0, caducado: 0, otro: 0, total: 0, totalValue: 0 },
 				);
 
 				return c.json(
@@ -507,6 +508,10 @@ const mermaRoutes = new Hono<ApiEnv>()
 									totals.total > 0
 										? Number(((totals.dañado / totals.total) * 100).toFixed(2))
 										: 0,
+								caducadoPct:
+									totals.total > 0
+										? Number(((totals.caducado / totals.total) * 100).toFixed(2))
+										: 0,
 								otroPct:
 									totals.total > 0
 										? Number(((totals.otro / totals.total) * 100).toFixed(2))
@@ -522,6 +527,7 @@ const mermaRoutes = new Hono<ApiEnv>()
 				.select({
 					reason: schemas.inventoryShrinkageEvent.reason,
 					total: sql<number>`COALESCE(SUM(${schemas.inventoryShrinkageEvent.quantity}), 0)`,
+					value: shrinkageValueSql,
 				})
 				.from(schemas.inventoryShrinkageEvent)
 				.where(and(...baseConditions))
@@ -533,6 +539,7 @@ const mermaRoutes = new Hono<ApiEnv>()
 					barcode: schemas.inventoryShrinkageEvent.productBarcode,
 					description: sql<string | null>`MAX(${schemas.inventoryShrinkageEvent.productDescription})`,
 					total: sql<number>`COALESCE(SUM(${schemas.inventoryShrinkageEvent.quantity}), 0)`,
+					value: shrinkageValueSql,
 				})
 				.from(schemas.inventoryShrinkageEvent)
 				.where(and(...baseConditions))
@@ -549,6 +556,9 @@ const mermaRoutes = new Hono<ApiEnv>()
 				(accumulator, row) => accumulator + Number(row.total ?? 0),
 				0,
 			);
+			const totalValue = roundMoney(
+				reasonRows.reduce((accumulator, row) => accumulator + Number(row.value ?? 0), 0),
+			);
 
 			const topProductsByReason = new Map<
 				ShrinkageReason,
@@ -556,6 +566,7 @@ const mermaRoutes = new Hono<ApiEnv>()
 					barcode: number;
 					description: string | null;
 					total: number;
+					value: number;
 				}>
 			>();
 			for (const row of topProductsRows) {
@@ -569,19 +580,19 @@ const mermaRoutes = new Hono<ApiEnv>()
 						barcode: row.barcode,
 						description: row.description,
 						total: Number(row.total ?? 0),
+						value: roundMoney(Number(row.value ?? 0)),
 					});
 					topProductsByReason.set(reason, list);
 				}
 			}
 
 			const reasonSummary = shrinkageReasons.map((reason) => {
-				const reasonTotal =
-					Number(
-						reasonRows.find((row) => row.reason === reason)?.total ?? 0,
-					) || 0;
+				const reasonRow = reasonRows.find((row) => row.reason === reason);
+				const reasonTotal = Number(reasonRow?.total ?? 0) || 0;
 				return {
 					reason,
 					total: reasonTotal,
+					value: roundMoney(Number(reasonRow?.value ?? 0)),
 					percentage: total > 0 ? Number(((reasonTotal / total) * 100).toFixed(2)) : 0,
 					topProducts: topProductsByReason.get(reason as ShrinkageReason) ?? [],
 				};
@@ -605,6 +616,7 @@ const mermaRoutes = new Hono<ApiEnv>()
 						warehouseId: scopedWarehouse.warehouseId,
 						warehouseName: warehouseRow[0]?.name ?? null,
 						total,
+						totalValue,
 						reasonSummary,
 					},
 				} satisfies ApiResponse,
@@ -612,295 +624,401 @@ const mermaRoutes = new Hono<ApiEnv>()
 			);
 		},
 	)
-	.get('/writeoffs/events', zValidator('query', writeoffEventsSchema), async (c) => {
-		const user = c.get('user');
-		if (!hasSessionUser(user)) {
-			return c.json(
-				{
-					success: false,
-					message: 'Authentication required',
-				} satisfies ApiResponse,
-				401,
-			);
-		}
+	.get(
+		'/writeoffs/events',
+		requirePermission('merma.view'),
+		zValidator('query', writeoffEventsSchema),
+		async (c) => {
+			const user = c.get('user');
+			if (!hasSessionUser(user)) {
+				return c.json(
+					{
+						success: false,
+						message: 'Authentication required',
+					} satisfies ApiResponse,
+					401,
+				);
+			}
 
-		const { start, end, source, warehouseId, reason, q, limit, cursor } =
-			c.req.valid('query');
-		const parsedRange = parseDateRange(start, end);
-		if (!parsedRange) {
-			return c.json(
-				{
-					success: false,
-					message: 'Invalid start/end date range',
-				} satisfies ApiResponse,
-				400,
-			);
-		}
+			const { start, end, source, warehouseId, reason, q, limit, cursor } =
+				c.req.valid('query');
+			const parsedRange = parseDateRange(start, end);
+			if (!parsedRange) {
+				return c.json(
+					{
+						success: false,
+						message: 'Invalid start/end date range',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
 
-		let scopedWarehouseId: string | null = null;
-		if (await canUseGlobalScope(user)) {
-			scopedWarehouseId = warehouseId ?? null;
-		} else if (isEncargado(user)) {
-			if (!user?.warehouseId) {
+			let scopedWarehouseId: string | null = null;
+			if (await canUseGlobalScope(user)) {
+				scopedWarehouseId = warehouseId ?? null;
+			} else if (user?.warehouseId) {
+				scopedWarehouseId = user.warehouseId;
+			} else {
 				return c.json(
 					{
 						success: false,
-						message: 'Encargado user requires an assigned warehouse',
+						message: 'User requires an assigned warehouse',
 					} satisfies ApiResponse,
 					400,
 				);
 			}
-			scopedWarehouseId = user.warehouseId;
-		} else {
-			return c.json(
-				{
-					success: false,
-					message: 'Forbidden - insufficient permissions',
-				} satisfies ApiResponse,
-				403,
-			);
-		}
 
-		const decodedCursor = decodeCursor(cursor);
-		if (cursor && !decodedCursor) {
-			return c.json(
-				{
-					success: false,
-					message: 'Invalid cursor',
-				} satisfies ApiResponse,
-				400,
-			);
-		}
+			const decodedCursor = decodeCursor(cursor);
+			if (cursor && !decodedCursor) {
+				return c.json(
+					{
+						success: false,
+						message: 'Invalid cursor',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
 
-		const conditions = [
-			eq(schemas.inventoryShrinkageEvent.source, source),
-			gte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.start),
-			lte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.end),
-		];
-		if (scopedWarehouseId) {
-			conditions.push(
-				eq(schemas.inventoryShrinkageEvent.warehouseId, scopedWarehouseId),
-			);
-		}
-		if (reason) {
-			conditions.push(eq(schemas.inventoryShrinkageEvent.reason, reason));
-		}
-		if (q) {
-			const pattern = `%${q}%`;
-			const searchFilter = or(
-				ilike(schemas.inventoryShrinkageEvent.productDescription, pattern),
-				ilike(schemas.inventoryShrinkageEvent.transferNumber, pattern),
-				ilike(schemas.inventoryShrinkageEvent.notes, pattern),
-				sql`CAST(${schemas.inventoryShrinkageEvent.productBarcode} AS TEXT) ILIKE ${pattern}`,
-				sql`CAST(${schemas.inventoryShrinkageEvent.id} AS TEXT) ILIKE ${pattern}`,
-				sql`CAST(${schemas.inventoryShrinkageEvent.productStockId} AS TEXT) ILIKE ${pattern}`,
-			);
-			if (searchFilter) {
-				conditions.push(searchFilter);
+			const conditions = [
+				eq(schemas.inventoryShrinkageEvent.source, source),
+				gte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.start),
+				lte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.end),
+			];
+			if (scopedWarehouseId) {
+				conditions.push(
+					eq(schemas.inventoryShrinkageEvent.warehouseId, scopedWarehouseId),
+				);
 			}
-		}
-		if (decodedCursor) {
-			const cursorFilter = or(
-				lt(schemas.inventoryShrinkageEvent.createdAt, decodedCursor.createdAt),
-				and(
-					eq(schemas.inventoryShrinkageEvent.createdAt, decodedCursor.createdAt),
-					lt(schemas.inventoryShrinkageEvent.id, decodedCursor.id),
-				),
-			);
-			if (cursorFilter) {
-				conditions.push(cursorFilter);
+			if (reason) {
+				conditions.push(eq(schemas.inventoryShrinkageEvent.reason, reason));
+			}
+			if (q) {
+				const pattern = `%${q}%`;
+				const searchFilter = or(
+					ilike(schemas.inventoryShrinkageEvent.productDescription, pattern),
+					ilike(schemas.inventoryShrinkageEvent.transferNumber, pattern),
+					ilike(schemas.inventoryShrinkageEvent.notes, pattern),
+					sql`CAST(${schemas.inventoryShrinkageEvent.productBarcode} AS TEXT) ILIKE ${pattern}`,
+					sql`CAST(${schemas.inventoryShrinkageEvent.id} AS TEXT) ILIKE ${pattern}`,
+					sql`CAST(${schemas.inventoryShrinkageEvent.productStockId} AS TEXT) ILIKE ${pattern}`,
+				);
+				if (searchFilter) {
+					conditions.push(searchFilter);
+				}
+			}
+			if (decodedCursor) {
+				const cursorFilter = or(
+					lt(schemas.inventoryShrinkageEvent.createdAt, decodedCursor.createdAt),
+					and(
+						eq(schemas.inventoryShrinkageEvent.createdAt, decodedCursor.createdAt),
+						lt(schemas.inventoryShrinkageEvent.id, decodedCursor.id),
+					),
+				);
+				if (cursorFilter) {
+					conditions.push(cursorFilter);
+				}
 			}
-		}
 
-		const rows = await db
-			.select({
-				id: schemas.inventoryShrinkageEvent.id,
-				createdAt: schemas.inventoryShrinkageEvent.createdAt,
-				source: schemas.inventoryShrinkageEvent.source,
-				reason: schemas.inventoryShrinkageEvent.reason,
-				quantity: schemas.inventoryShrinkageEvent.quantity,
-				notes: schemas.inventoryShrinkageEvent.notes,
-				warehouseId: schemas.inventoryShrinkageEvent.warehouseId,
-				warehouseName: schemas.warehouse.name,
-				productStockId: schemas.inventoryShrinkageEvent.productStockId,
-				productBarcode: schemas.inventoryShrinkageEvent.productBarcode,
-				productDescription: schemas.inventoryShrinkageEvent.productDescription,
-				transferId: schemas.inventoryShrinkageEvent.transferId,
-				transferNumber: schemas.inventoryShrinkageEvent.transferNumber,
-				createdByUserId: schemas.inventoryShrinkageEvent.createdByUserId,
-			})
-			.from(schemas.inventoryShrinkageEvent)
-			.innerJoin(
-				schemas.warehouse,
-				eq(schemas.warehouse.id, schemas.inventoryShrinkageEvent.warehouseId),
-			)
-			.where(and(...conditions))
-			.orderBy(
-				desc(schemas.inventoryShrinkageEvent.createdAt),
-				desc(schemas.inventoryShrinkageEvent.id),
-			)
-			.limit(limit + 1);
-
-		const hasMore = rows.length > limit;
-		const items = hasMore ? rows.slice(0, limit) : rows;
-		const nextCursor = hasMore
-			? encodeCursor({
-					createdAt: new Date(items[items.length - 1].createdAt),
-					id: items[items.length - 1].id,
+			const rows = await db
+				.select({
+					id: schemas.inventoryShrinkageEvent.id,
+					createdAt: schemas.inventoryShrinkageEvent.createdAt,
+					source: schemas.inventoryShrinkageEvent.source,
+					reason: schemas.inventoryShrinkageEvent.reason,
+					quantity: schemas.inventoryShrinkageEvent.quantity,
+					unitCost: schemas.inventoryShrinkageEvent.unitCost,
+					notes: schemas.inventoryShrinkageEvent.notes,
+					warehouseId: schemas.inventoryShrinkageEvent.warehouseId,
+					warehouseName: schemas.warehouse.name,
+					productStockId: schemas.inventoryShrinkageEvent.productStockId,
+					productBarcode: schemas.inventoryShrinkageEvent.productBarcode,
+					productDescription: schemas.inventoryShrinkageEvent.productDescription,
+					transferId: schemas.inventoryShrinkageEvent.transferId,
+					transferNumber: schemas.inventoryShrinkageEvent.transferNumber,
+					createdByUserId: schemas.inventoryShrinkageEvent.createdByUserId,
 				})
-			: null;
-
-		return c.json(
-			{
-				success: true,
-				message: 'Write-off events fetched successfully',
-				data: {
-					items,
-					nextCursor,
-				},
-			} satisfies ApiResponse,
-			200,
-		);
-	})
-	.get('/export', zValidator('query', exportSchema), async (c) => {
-		const user = c.get('user');
-		if (!hasSessionUser(user)) {
-			return c.json(
-				{
-					success: false,
-					message: 'Authentication required',
-				} satisfies ApiResponse,
-				401,
-			);
-		}
-		if (!isAdmin(user)) {
-			return c.json(
-				{
-					success: false,
-					message: 'Forbidden - export is only available for admin users',
-				} satisfies ApiResponse,
-				403,
-			);
-		}
+				.from(schemas.inventoryShrinkageEvent)
+				.innerJoin(
+					schemas.warehouse,
+					eq(schemas.warehouse.id, schemas.inventoryShrinkageEvent.warehouseId),
+				)
+				.where(and(...conditions))
+				.orderBy(
+					desc(schemas.inventoryShrinkageEvent.createdAt),
+					desc(schemas.inventoryShrinkageEvent.id),
+				)
+				.limit(limit + 1);
+
+			const hasMore = rows.length > limit;
+			const items = hasMore ? rows.slice(0, limit) : rows;
+			const nextCursor = hasMore
+				? encodeCursor({
+						createdAt: new Date(items[items.length - 1].createdAt),
+						id: items[items.length - 1].id,
+					})
+				: null;
 
-		const { start, end, scope, warehouseId, source, reason, q } = c.req.valid('query');
-		const parsedRange = parseDateRange(start, end);
-		if (!parsedRange) {
 			return c.json(
 				{
-					success: false,
-					message: 'Invalid start/end date range',
+					success: true,
+					message: 'Write-off events fetched successfully',
+					data: {
+						items,
+						nextCursor,
+					},
 				} satisfies ApiResponse,
-				400,
+				200,
 			);
-		}
-		if (scope === 'warehouse' && !warehouseId) {
+		},
+	)
+	.get(
+		'/writeoffs/monthly',
+		requirePermission('merma.view'),
+		zValidator('query', writeoffsMonthlySchema),
+		async (c) => {
+			const user = c.get('user');
+			if (!hasSessionUser(user)) {
+				return c.json(
+					{
+						success: false,
+						message: 'Authentication required',
+					} satisfies ApiResponse,
+					401,
+				);
+			}
+
+			const { start, end, scope, warehouseId, source } = c.req.valid('query');
+			const parsedRange = parseDateRange(start, end);
+			if (!parsedRange) {
+				return c.json(
+					{
+						success: false,
+						message: 'Invalid start/end date range',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
+
+			const scopedWarehouse = await resolveScopeWarehouseId({
+				user,
+				scope,
+				warehouseId,
+			});
+			if (!scopedWarehouse.ok) {
+				return c.json(
+					{
+						success: false,
+						message: scopedWarehouse.message,
+					} satisfies ApiResponse,
+					scopedWarehouse.status,
+				);
+			}
+
+			const conditions = [
+				gte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.start),
+				lte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.end),
+			];
+			if (scopedWarehouse.warehouseId) {
+				conditions.push(
+					eq(schemas.inventoryShrinkageEvent.warehouseId, scopedWarehouse.warehouseId),
+				);
+			}
+			if (source) {
+				conditions.push(eq(schemas.inventoryShrinkageEvent.source, source));
+			}
+
+			// Months follow each warehouse's own time zone
+			const month = sql<string>`to_char(${schemas.inventoryShrinkageEvent.createdAt} AT TIME ZONE COALESCE(${schemas.warehouse.timeZone}, 'UTC'), 'YYYY-MM')`;
+			const monthlyRows = await db
+				.select({
+					month,
+					warehouseId: schemas.inventoryShrinkageEvent.warehouseId,
+					warehouseName: schemas.warehouse.name,
+					quantity: sql<number>`COALESCE(SUM(${schemas.inventoryShrinkageEvent.quantity}), 0)`,
+					value: shrinkageValueSql,
+					uncostedQuantity: sql<number>`COALESCE(SUM(${schemas.inventoryShrinkageEvent.quantity}) FILTER (WHERE ${schemas.inventoryShrinkageEvent.unitCost} IS NULL), 0)`,
+				})
+				.from(schemas.inventoryShrinkageEvent)
+				.innerJoin(
+					schemas.warehouse,
+					eq(schemas.warehouse.id, schemas.inventoryShrinkageEvent.warehouseId),
+				)
+				.where(and(...conditions))
+				.groupBy(month, schemas.inventoryShrinkageEvent.warehouseId, schemas.warehouse.name)
+				.orderBy(desc(month), schemas.warehouse.name);
+
+			const rows = monthlyRows.map((row) => ({
+				month: row.month,
+				warehouseId: row.warehouseId,
+				warehouseName: row.warehouseName,
+				quantity: Number(row.quantity ?? 0),
+				value: roundMoney(Number(row.value ?? 0)),
+				uncostedQuantity: Number(row.uncostedQuantity ?? 0),
+			}));
+
 			return c.json(
 				{
-					success: false,
-					message: 'warehouseId is required when scope is warehouse',
+					success: true,
+					message: 'Monthly write-off value fetched successfully',
+					data: {
+						scope,
+						warehouseId: scopedWarehouse.warehouseId,
+						rows,
+						totals: {
+							quantity: rows.reduce((accumulator, row) => accumulator + row.quantity, 0),
+							value: roundMoney(
+								rows.reduce((accumulator, row) => accumulator + row.value, 0),
+							),
+						},
+					},
 				} satisfies ApiResponse,
-				400,
+				200,
 			);
-		}
+		},
+	)
+	.get(
+		'/export',
+		requirePermission('merma.export'),
+		zValidator('query', exportSchema),
+		async (c) => {
+			const user = c.get('user');
+			if (!hasSessionUser(user)) {
+				return c.json(
+					{
+						success: false,
+						message: 'Authentication required',
+					} satisfies ApiResponse,
+					401,
+				);
+			}
 
-		const conditions = [
-			gte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.start),
-			lte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.end),
-		];
-		if (scope === 'warehouse') {
-			conditions.push(eq(schemas.inventoryShrinkageEvent.warehouseId, warehouseId as string));
-		}
-		if (source) {
-			conditions.push(eq(schemas.inventoryShrinkageEvent.source, source));
-		}
-		if (reason) {
-			conditions.push(eq(schemas.inventoryShrinkageEvent.reason, reason));
-		}
-		if (q) {
-			const pattern = `%${q}%`;
-			const searchFilter = or(
-				ilike(schemas.inventoryShrinkageEvent.productDescription, pattern),
-				ilike(schemas.inventoryShrinkageEvent.transferNumber, pattern),
-				ilike(schemas.inventoryShrinkageEvent.notes, pattern),
-				sql`CAST(${schemas.inventoryShrinkageEvent.productBarcode} AS TEXT) ILIKE ${pattern}`,
-				sql`CAST(${schemas.inventoryShrinkageEvent.id} AS TEXT) ILIKE ${pattern}`,
-			);
-			if (searchFilter) {
-				conditions.push(searchFilter);
+			const { start, end, scope, warehouseId, source, reason, q } = c.req.valid('query');
+			const parsedRange = parseDateRange(start, end);
+			if (!parsedRange) {
+				return c.json(
+					{
+						success: false,
+						message: 'Invalid start/end date range',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
+			if (scope === 'warehouse' && !warehouseId) {
+				return c.json(
+					{
+						success: false,
+						message: 'warehouseId is required when scope is warehouse',
+					} satisfies ApiResponse,
+					400,
+				);
 			}
-		}
 
-		const rows = await db
-			.select({
-				createdAt: schemas.inventoryShrinkageEvent.createdAt,
-				source: schemas.inventoryShrinkageEvent.source,
-				reason: schemas.inventoryShrinkageEvent.reason,
-				quantity: schemas.inventoryShrinkageEvent.quantity,
-				warehouseId: schemas.inventoryShrinkageEvent.warehouseId,
-				warehouseName: schemas.warehouse.name,
-				productBarcode: schemas.inventoryShrinkageEvent.productBarcode,
-				productDescription: schemas.inventoryShrinkageEvent.productDescription,
-				productStockId: schemas.inventoryShrinkageEvent.productStockId,
-				notes: schemas.inventoryShrinkageEvent.notes,
-				transferNumber: schemas.inventoryShrinkageEvent.transferNumber,
-				transferId: schemas.inventoryShrinkageEvent.transferId,
-				createdByUserId: schemas.inventoryShrinkageEvent.createdByUserId,
-			})
-			.from(schemas.inventoryShrinkageEvent)
-			.innerJoin(
-				schemas.warehouse,
-				eq(schemas.warehouse.id, schemas.inventoryShrinkageEvent.warehouseId),
-			)
-			.where(and(...conditions))
-			.orderBy(
-				desc(schemas.inventoryShrinkageEvent.createdAt),
-				desc(schemas.inventoryShrinkageEvent.id),
+			const conditions = [
+				gte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.start),
+				lte(schemas.inventoryShrinkageEvent.createdAt, parsedRange.end),
+			];
+			if (scope === 'warehouse') {
+				conditions.push(eq(schemas.inventoryShrinkageEvent.warehouseId, warehouseId as string));
+			}
+			if (source) {
+				conditions.push(eq(schemas.inventoryShrinkageEvent.source, source));
+			}
+			if (reason) {
+				conditions.push(eq(schemas.inventoryShrinkageEvent.reason, reason));
+			}
+			if (q) {
+				const pattern = `%${q}%`;
+				const searchFilter = or(
+					ilike(schemas.inventoryShrinkageEvent.productDescription, pattern),
+					ilike(schemas.inventoryShrinkageEvent.transferNumber, pattern),
+					ilike(schemas.inventoryShrinkageEvent.notes, pattern),
+					sql`CAST(${schemas.inventoryShrinkageEvent.productBarcode} AS TEXT) ILIKE ${pattern}`,
+					sql`CAST(${schemas.inventoryShrinkageEvent.id} AS TEXT) ILIKE ${pattern}`,
+				);
+				if (searchFilter) {
+					conditions.push(searchFilter);
+				}
+			}
+
+			const rows = await db
+				.select({
+					createdAt: schemas.inventoryShrinkageEvent.createdAt,
+					source: schemas.inventoryShrinkageEvent.source,
+					reason: schemas.inventoryShrinkageEvent.reason,
+					quantity: schemas.inventoryShrinkageEvent.quantity,
+					unitCost: schemas.inventoryShrinkageEvent.unitCost,
+					warehouseId: schemas.inventoryShrinkageEvent.warehouseId,
+					warehouseName: schemas.warehouse.name,
+					productBarcode: schemas.inventoryShrinkageEvent.productBarcode,
+					productDescription: schemas.inventoryShrinkageEvent.productDescription,
+					productStockId: schemas.inventoryShrinkageEvent.productStockId,
+					notes: schemas.inventoryShrinkageEvent.notes,
+					transferNumber: schemas.inventoryShrinkageEvent.transferNumber,
+					transferId: schemas.inventoryShrinkageEvent.transferId,
+					createdByUserId: schemas.inventoryShrinkageEvent.createdByUserId,
+				})
+				.from(schemas.inventoryShrinkageEvent)
+				.innerJoin(
+					schemas.warehouse,
+					eq(schemas.warehouse.id, schemas.inventoryShrinkageEvent.warehouseId),
+				)
+				.where(and(...conditions))
+				.orderBy(
+					desc(schemas.inventoryShrinkageEvent.createdAt),
+					desc(schemas.inventoryShrinkageEvent.id),
+				);
+
+			const headers = [
+				'createdAt',
+				'source',
+				'reason',
+				'quantity',
+				'unitCost',
+				'totalCost',
+				'warehouseId',
+				'warehouseName',
+				'barcode',
+				'description',
+				'productStockId',
+				'notes',
+				'transferNumber',
+				'transferId',
+				'createdByUserId',
+			];
+			const bodyRows = rows.map((row) =>
+				[
+					escapeCsvValue(new Date(row.createdAt).toISOString()),
+					escapeCsvValue(row.source),
+					escapeCsvValue(row.reason),
+					escapeCsvValue(row.quantity),
+					escapeCsvValue(row.unitCost),
+					escapeCsvValue(
+						row.unitCost === null ? null : roundMoney(row.unitCost * row.quantity),
+					),
+					escapeCsvValue(row.warehouseId),
+					escapeCsvValue(row.warehouseName),
+					escapeCsvValue(row.productBarcode),
+					escapeCsvValue(row.productDescription),
+					escapeCsvValue(row.productStockId),
+					escapeCsvValue(row.notes),
+					escapeCsvValue(row.transferNumber),
+					escapeCsvValue(row.transferId),
+					escapeCsvValue(row.createdByUserId),
+				].join(','),
 			);
+			const csvPayload = [headers.join(','), ...bodyRows].join('\n');
 
-		const headers = [
-			'createdAt',
-			'source',
-			'reason',
-			'quantity',
-			'warehouseId',
-			'warehouseName',
-			'barcode',
-			'description',
-			'productStockId',
-			'notes',
-			'transferNumber',
-			'transferId',
-			'createdByUserId',
-		];
-		const bodyRows = rows.map((row) =>
-			[
-				escapeCsvValue(new Date(row.createdAt).toISOString()),
-				escapeCsvValue(row.source),
-				escapeCsvValue(row.reason),
-				escapeCsvValue(row.quantity),
-				escapeCsvValue(row.warehouseId),
-				escapeCsvValue(row.warehouseName),
-				escapeCsvValue(row.productBarcode),
-				escapeCsvValue(row.productDescription),
-				escapeCsvValue(row.productStockId),
-				escapeCsvValue(row.notes),
-				escapeCsvValue(row.transferNumber),
-				escapeCsvValue(row.transferId),
-				escapeCsvValue(row.createdByUserId),
-			].join(','),
-		);
-		const csvPayload = [headers.join(','), ...bodyRows].join('\n');
-
-		c.header('Content-Type', 'text/csv; charset=utf-8');
-		c.header(
-			'Content-Disposition',
-			`attachment; filename="merma-events-${Date.now()}.csv"`,
-		);
-		return c.body(csvPayload);
-	})
+			c.header('Content-Type', 'text/csv; charset=utf-8');
+			c.header(
+				'Content-Disposition',
+				`attachment; filename="merma-events-${Date.now()}.csv"`,
+			);
+			return c.body(csvPayload);
+		},
+	)
 	.get(
 		'/missing-transfers/summary',
+		requirePermission('merma.view'),
 		zValidator('query', writeoffsSummarySchema),
 		async (c) => {
 			const user = c.get('user');
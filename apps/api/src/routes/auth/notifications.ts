@@ -0,0 +1,197 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { ApiEnv } from '../../context';
+import type { ApiResponse } from '../../lib/api-response';
+import {
+	createNotificationRule,
+	deleteNotificationRule,
+	evaluateNotificationRules,
+	listNotificationRules,
+	listNotifications,
+	markAllNotificationsRead,
+	markNotificationRead,
+	sendNotificationDigests,
+	updateNotificationRule,
+} from '../../lib/notifications';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import {
+	notificationListQuerySchema,
+	notificationRuleCreateSchema,
+	notificationRuleUpdateSchema,
+} from '../../types';
+
+const notificationParamSchema = z.object({ id: z.string().uuid('Invalid notification ID') });
+const ruleParamSchema = z.object({ id: z.string().uuid('Invalid notification rule ID') });
+
+const notificationsRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET / - Inbox of the session user with the unread count
+	 */
+	.get('/', zValidator('query', notificationListQuerySchema), async (c) => {
+		const query = c.req.valid('query');
+		const user = c.get('user') as SessionUser | null;
+
+		const inbox = await listNotifications(user, query);
+
+		return c.json(
+			{
+				success: true,
+				message: 'Notifications retrieved successfully',
+				data: inbox,
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * POST /read-all - Mark every notification of the session user as read
+	 */
+	.post('/read-all', async (c) => {
+		const user = c.get('user') as SessionUser | null;
+
+		const updated = await markAllNotificationsRead(user);
+
+		return c.json(
+			{
+				success: true,
+				message: 'Notifications marked as read',
+				data: { updated },
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * GET /rules - List notification rules
+	 */
+	.get('/rules', requirePermission('notifications.manage'), async (c) => {
+		const rules = await listNotificationRules();
+
+		return c.json(
+			{
+				success: true,
+				message: 'Notification rules retrieved successfully',
+				data: rules,
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * POST /rules - Create a rule for a role and a warehouse (or every warehouse)
+	 */
+	.post(
+		'/rules',
+		requirePermission('notifications.manage'),
+		zValidator('json', notificationRuleCreateSchema),
+		async (c) => {
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const rule = await createNotificationRule(payload, user);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Notification rule created successfully',
+					data: rule,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * PUT /rules/:id - Update a rule
+	 */
+	.put(
+		'/rules/:id',
+		requirePermission('notifications.manage'),
+		zValidator('param', ruleParamSchema),
+		zValidator('json', notificationRuleUpdateSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const payload = c.req.valid('json');
+
+			const rule = await updateNotificationRule(id, payload);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Notification rule updated successfully',
+					data: rule,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * DELETE /rules/:id - Delete a rule; notifications it raised stay in the inboxes
+	 */
+	.delete(
+		'/rules/:id',
+		requirePermission('notifications.manage'),
+		zValidator('param', ruleParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+
+			await deleteNotificationRule(id);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Notification rule deleted successfully',
+					data: { id },
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /evaluate - Evaluate the active rules now instead of waiting for the scheduler
+	 */
+	.post('/evaluate', requirePermission('notifications.manage'), async (c) => {
+		const summary = await evaluateNotificationRules();
+
+		return c.json(
+			{
+				success: true,
+				message: 'Notification rules evaluated successfully',
+				data: summary,
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * POST /digest - Send the pending digest emails now
+	 */
+	.post('/digest', requirePermission('notifications.manage'), async (c) => {
+		const summary = await sendNotificationDigests();
+
+		return c.json(
+			{
+				success: true,
+				message: 'Notification digests sent successfully',
+				data: summary,
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * POST /:id/read - Mark one notification of the session user as read
+	 */
+	.post('/:id/read', zValidator('param', notificationParamSchema), async (c) => {
+		const { id } = c.req.valid('param');
+		const user = c.get('user') as SessionUser | null;
+
+		const notification = await markNotificationRead(id, user);
+
+		return c.json(
+			{
+				success: true,
+				message: 'Notification marked as read',
+				data: notification,
+			} satisfies ApiResponse,
+			200,
+		);
+	});
+
+export { notificationsRoutes };
@@ -1,9 +1,29 @@
 /** biome-ignore-all lint/performance/noNamespaceImport: Required for zod */
+import { zValidator } from '@hono/zod-validator';
 import { Hono } from 'hono';
+import { z } from 'zod';
 import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import {
+	type PermissionKey,
+	configurableRoles,
+	getPermissionMatrix,
+	getRolePermissions,
+	permissionKeys,
+	requirePermission,
+	updateRolePermissions,
+} from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+
+const rolePermissionsParamSchema = z.object({
+	role: z.enum(configurableRoles),
+});
+
+const rolePermissionsUpdateSchema = z.object({
+	permissions: z.array(z.enum(permissionKeys as [PermissionKey, ...PermissionKey[]])),
+});
 
 const permissionsRoutes = new Hono<ApiEnv>()
 /**
@@ -18,7 +38,7 @@ const permissionsRoutes = new Hono<ApiEnv>()
  * @returns {ApiResponse} Success response with all permission data from the database
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('employees.view'), async (c) => {
 	try {
 		// Query the permissions table for all records
 		const permissions = await db
@@ -60,5 +80,88 @@ const permissionsRoutes = new Hono<ApiEnv>()
 			500,
 		);
 	}
-});
+})
+/**
+ * GET /me - Permission keys granted to the current user's role
+ *
+ * Used by the clients to decide which screens and actions to show.
+ *
+ * @returns {ApiResponse} Role and the list of granted permission keys
+ * @throws {401} Authentication required
+ */
+.get('/me', async (c) => {
+	const user = c.get('user') as SessionUser | null;
+	if (!user) {
+		return c.json(
+			{
+				success: false,
+				message: 'Authentication required',
+			} satisfies ApiResponse,
+			401,
+		);
+	}
+
+	const granted = await getRolePermissions(user.role);
+
+	return c.json(
+		{
+			success: true,
+			message: 'Permissions retrieved successfully',
+			data: {
+				role: user.role ?? null,
+				permissions: permissionKeys.filter((key) => granted.has(key)),
+			},
+		} satisfies ApiResponse,
+		200,
+	);
+})
+/**
+ * GET /matrix - Permission catalog and the grants of every configurable role
+ *
+ * Admin is not part of the matrix: it is implicitly granted every permission.
+ *
+ * @returns {ApiResponse} Catalog, configurable roles and grants per role
+ */
+.get('/matrix', requirePermission('permissions.manage'), async (c) => {
+	const matrix = await getPermissionMatrix();
+
+	return c.json(
+		{
+			success: true,
+			message: 'Permission matrix retrieved successfully',
+			data: matrix,
+		} satisfies ApiResponse,
+		200,
+	);
+})
+/**
+ * PUT /matrix/:role - Replace the permissions granted to a role
+ *
+ * @param {string} role - Configurable role (encargado, manager, employee, viewer)
+ * @param {string[]} permissions - Full list of permission keys the role should have
+ * @returns {ApiResponse} Role and the permissions now granted
+ * @throws {409} When removing `permissions.manage` from the caller's own role
+ */
+.put(
+	'/matrix/:role',
+	requirePermission('permissions.manage'),
+	zValidator('param', rolePermissionsParamSchema),
+	zValidator('json', rolePermissionsUpdateSchema),
+	async (c) => {
+		const { role } = c.req.valid('param');
+		const { permissions } = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const updated = await updateRolePermissions({ role, permissions, user });
+
+		return c.json(
+			{
+				success: true,
+				message: 'Role permissions updated successfully',
+				data: { role, permissions: updated },
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+);
 export { permissionsRoutes };
@@ -1,18 +1,45 @@
 /** biome-ignore-all lint/performance/noNamespaceImport: Required for zod */
 import { zValidator } from '@hono/zod-validator';
-import { and, eq, inArray, isNotNull, or, sql } from 'drizzle-orm';
+import { and, eq, gte, ilike, inArray, isNotNull, lte, or, type SQL, sql } from 'drizzle-orm';
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { ApiEnv } from '../../context';
-import { MAIN_ACCOUNT_EMAIL, productStockData } from '../../constants';
+import { productStockData } from '../../constants';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
-import {
-	type AltegioStockArrivalPayload,
-	replicateStockCreationToAltegio,
-} from '../../lib/altegio-service';
+import { enqueueAltegioOutboxJob, processAltegioOutboxJob } from '../../lib/altegio-outbox';
+import type { AltegioStockArrivalPayload } from '../../lib/altegio-service';
 import type { ApiResponse } from '../../lib/api-response';
+import { publishStockChanged } from '../../lib/domain-events';
+import { idempotency } from '../../lib/idempotency';
+import {
+	getInventoryValuation,
+	loadCatalogUnitCosts,
+	resolveArrivalUnitCost,
+	shrinkageUnitCost,
+} from '../../lib/inventory-valuation';
+import {
+	decodeListCursor,
+	listCursorCondition,
+	listOrderBy,
+	listPaginationQuerySchema,
+	parseListDateRange,
+	parseListSort,
+	toListPage,
+	withListLimit,
+} from '../../lib/list-pagination';
+import { requirePermission } from '../../lib/permissions';
+import { DEFAULT_EXPIRY_WINDOW_DAYS, listExpiringUnits } from '../../lib/product-expiry';
 import { buildLegacyShrinkageNote } from '../../lib/shrinkage';
+import { enforceUsageLimits } from '../../lib/usage-limits';
+import {
+	canAccessWarehouse,
+	productStockScopeCondition,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+} from '../../lib/warehouse-scope';
+import { enqueueShrinkageRecordedWebhook } from '../../lib/webhooks';
+import { productStockLotSchema } from '../../types';
 
 const altegioArrivalPayloadSchema = z.object({
 	amount: z
@@ -114,111 +141,203 @@ function handleProductStockCreationError(
 	return null; // No specific error handling
 }
 
+/**
+ * Query params of the paginated product stock lists. `q` searches the description, `start` /
+ * `end` filter on the last use date and `sort` accepts `barcode` or `numberOfUses`
+ * (prefix `-` for descending).
+ */
+const productStockListQuerySchema = listPaginationQuerySchema.extend({
+	sort: z.enum(['barcode', '-barcode', 'numberOfUses', '-numberOfUses']).default('barcode'),
+	barcode: z.coerce.number().int().positive().optional(),
+	q: z.string().trim().min(1).optional(),
+	isEmpty: z
+		.enum(['true', 'false'])
+		.optional()
+		.transform((value) => (value === undefined ? undefined : value === 'true')),
+	cabinetId: z.string().optional(),
+});
+
+const productStockSortColumns = {
+	barcode: schemas.productStock.barcode,
+	numberOfUses: schemas.productStock.numberOfUses,
+};
+
+/**
+ * Builds the filter, cursor and order conditions of a paginated product stock list.
+ * Returns a 400 message when the cursor or the date range is invalid.
+ */
+function buildProductStockListQuery(
+	query: z.infer<typeof productStockListQuerySchema>,
+): { ok: false; message: string } | { ok: true; conditions: SQL[]; orderBy: SQL[] } {
+	const range = parseListDateRange(query);
+	if (!range) {
+		return { ok: false, message: 'Invalid date range' };
+	}
+
+	const { field, direction } = parseListSort(query.sort);
+	const sortColumn = productStockSortColumns[field];
+	const conditions: SQL[] = [];
+
+	if (query.cursor) {
+		const cursorId = decodeListCursor(query.cursor, query.sort);
+		if (!cursorId) {
+			return { ok: false, message: 'Invalid cursor' };
+		}
+		conditions.push(
+			listCursorCondition({
+				table: schemas.productStock,
+				idColumn: schemas.productStock.id,
+				sortColumn,
+				direction,
+				cursorId,
+			}),
+		);
+	}
+	if (query.barcode !== undefined) {
+		conditions.push(eq(schemas.productStock.barcode, query.barcode));
+	}
+	if (query.q) {
+		conditions.push(ilike(schemas.productStock.description, `%${query.q}%`));
+	}
+	if (query.isEmpty !== undefined) {
+		conditions.push(eq(schemas.productStock.isEmpty, query.isEmpty));
+	}
+	if (query.cabinetId) {
+		conditions.push(eq(schemas.productStock.currentCabinet, query.cabinetId));
+	}
+	if (range.start) {
+		conditions.push(gte(schemas.productStock.lastUsed, range.start.toISOString().slice(0, 10)));
+	}
+	if (range.end) {
+		conditions.push(lte(schemas.productStock.lastUsed, range.end.toISOString().slice(0, 10)));
+	}
+
+	return {
+		ok: true,
+		conditions,
+		orderBy: listOrderBy(sortColumn, schemas.productStock.id, direction),
+	};
+}
+
 const productStockRoutes = new Hono<ApiEnv>()
 /**
  * GET /api/product-stock - Retrieve product stock data
  *
- * This endpoint fetches all product stock records from the database.
- * If the database table is empty (e.g., in development or test environments),
- * it returns mock product stock data instead. This ensures the frontend
- * always receives a valid response structure for development and testing.
+ * This endpoint fetches the product stock records visible in the user's warehouse scope,
+ * in the same `{ warehouse, cabinet, cabinetId }` shape as `/by-warehouse`. `warehouse`
+ * holds every unit and `cabinet` the ones currently in a cabinet.
+ *
+ * Query params (all optional):
+ * - limit / cursor: keyset pagination; without `limit` every match is returned
+ * - sort: `barcode` (default) or `numberOfUses`, prefix `-` for descending
+ * - barcode, q (description search), isEmpty, cabinetId, start / end (last use date)
  *
- * @returns {ApiResponse} Success response with product stock data (from DB or mock)
+ * @returns {ApiResponse} Success response with product stock data, with `meta[0].nextCursor`
  /**
+ * @throws {400} If the cursor or the date range is invalid
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
-	try {
-		// Build two arrays to mirror by-warehouse response shape, but across all data
-		// 1) All items that are in a warehouse (regardless of cabinet)
-		const warehouseProductStock = await db
-			.select({
-				productStock: schemas.productStock,
-				employee: {
-					id: schemas.employee.id,
-					name: schemas.employee.name,
-					surname: schemas.employee.surname,
-				},
-			})
-			.from(schemas.productStock)
-			.leftJoin(
-				schemas.employee,
-				eq(schemas.productStock.lastUsedBy, schemas.employee.id),
-			)
-			.where(
-				and(
-					eq(schemas.productStock.isDeleted, false),
-					or(
-						isNotNull(schemas.productStock.currentWarehouse),
-						isNotNull(schemas.productStock.currentCabinet),
-					),
-				),
-			);
+.get(
+	'/all',
+	requirePermission('inventory.view'),
+	warehouseScope(),
+	zValidator('query', productStockListQuerySchema),
+	async (c) => {
+		try {
+			const query = c.req.valid('query');
+			const listQuery = buildProductStockListQuery(query);
+			if (!listQuery.ok) {
+				return c.json(
+					{
+						success: false,
+						message: listQuery.message,
+					} satisfies ApiResponse,
+					400,
+				);
+			}
 
-		// 2) All items that are in a cabinet (across all cabinets)
-		const cabinetProductStock = await db
-			.select({
-				productStock: schemas.productStock,
-				employee: {
-					id: schemas.employee.id,
-					name: schemas.employee.name,
-					surname: schemas.employee.surname,
-				},
-			})
-			.from(schemas.productStock)
-			.leftJoin(
-				schemas.employee,
-				eq(schemas.productStock.lastUsedBy, schemas.employee.id),
-			)
-			.where(
-				and(
-					isNotNull(schemas.productStock.currentCabinet),
-					eq(schemas.productStock.isDeleted, false),
-				),
+			// A single page across all data; the cabinet array is split from it below
+			const productStockRows = await withListLimit(
+				db
+					.select({
+						productStock: schemas.productStock,
+						employee: {
+							id: schemas.employee.id,
+							name: schemas.employee.name,
+							surname: schemas.employee.surname,
+						},
+					})
+					.from(schemas.productStock)
+					.leftJoin(
+						schemas.employee,
+						eq(schemas.productStock.lastUsedBy, schemas.employee.id),
+					)
+					.where(
+						and(
+							eq(schemas.productStock.isDeleted, false),
+							or(
+								isNotNull(schemas.productStock.currentWarehouse),
+								isNotNull(schemas.productStock.currentCabinet),
+							),
+							productStockScopeCondition(c.get('warehouseScope')),
+							...listQuery.conditions,
+						),
+					)
+					.orderBy(...listQuery.orderBy)
+					.$dynamic(),
+				query.limit,
 			);
+			const { items, nextCursor } = toListPage(productStockRows, {
+				limit: query.limit,
+				sort: query.sort,
+				getId: (row) => row.productStock.id,
+			});
+
+			// If no records exist, return mock data for development/testing
+			if (items.length === 0) {
+				return c.json(
+					{
+						success: true,
+						message: 'Fetching test data filtered by warehouse',
+						data: {
+							warehouse: [],
+							cabinet: [],
+							cabinetId: '',
+						},
+						meta: [{ nextCursor }],
+					} satisfies ApiResponse,
+					200,
+				);
+			}
 
-		// If no records exist, return mock data for development/testing
-		if (warehouseProductStock.length === 0 && cabinetProductStock.length === 0) {
+			// Return actual product stock data from the database, aligned with by-warehouse shape
 			return c.json(
 				{
 					success: true,
-					message: 'Fetching test data filtered by warehouse',
+					message: 'Fetching db data',
 					data: {
-						warehouse: [],
-						cabinet: [],
+						warehouse: items,
+						cabinet: items.filter((row) => row.productStock.currentCabinet !== null),
 						cabinetId: '',
 					},
+					meta: [{ nextCursor }],
 				} satisfies ApiResponse,
 				200,
 			);
-		}
-
-		// Return actual product stock data from the database, aligned with by-warehouse shape
-		return c.json(
-			{
-				success: true,
-				message: 'Fetching db data',
-				data: {
-					warehouse: warehouseProductStock,
-					cabinet: cabinetProductStock,
-					cabinetId: '',
-				},
-			} satisfies ApiResponse,
-			200,
-		);
-	} catch (error) {
-		// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
-		console.error('Error fetching product stock:', error);
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
+			console.error('Error fetching product stock:', error);
 
-		return c.json(
-			{
-				success: false,
-				message: 'Failed to fetch product stock',
-			} satisfies ApiResponse,
-			500,
-		);
-	}
-})
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to fetch product stock',
+				} satisfies ApiResponse,
+				500,
+			);
+		}
+	},
+)
 
 /**
  * GET /by-warehouse - Retrieve product stock arrays for warehouse and its cabinet
@@ -228,18 +347,48 @@ const productStockRoutes = new Hono<ApiEnv>()
  * one for the main warehouse and one for the cabinet. If the database tables are empty
  * (e.g., in development or test environments), it returns filtered mock data instead.
  *
+ * Accepts the same optional pagination, sort and filter params as `/all`; a page spans both
+ * arrays.
+ *
  * @param {string} warehouseId - UUID of the warehouse to filter by (required query parameter)
  /**
- * @returns {ApiResponse} Success response with warehouse and cabinet product arrays
- * @throws {400} If warehouseId is not provided or invalid
+ * @returns {ApiResponse} Success response with warehouse and cabinet product arrays, with `meta[0].nextCursor`
+ * @throws {400} If warehouseId is not provided or invalid, or the cursor or date range is invalid
  * @throws {500} If an unexpected error occurs during data retrieval
  */
 .get(
 	'/by-warehouse',
-	zValidator('query', z.object({ warehouseId: z.string('Invalid warehouse ID') })),
+	requirePermission('inventory.view'),
+	warehouseScope(),
+	zValidator(
+		'query',
+		productStockListQuerySchema.extend({ warehouseId: z.string('Invalid warehouse ID') }),
+	),
 	async (c) => {
 		try {
-			const { warehouseId } = c.req.valid('query');
+			const query = c.req.valid('query');
+			const { warehouseId } = query;
+
+			if (!canAccessWarehouse(c.get('warehouseScope'), warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			const listQuery = buildProductStockListQuery(query);
+			if (!listQuery.ok) {
+				return c.json(
+					{
+						success: false,
+						message: listQuery.message,
+					} satisfies ApiResponse,
+					400,
+				);
+			}
 
 			// Query the warehouse to check if it's a CEDIS warehouse
 			const warehouseInfo = await db
@@ -264,31 +413,6 @@ const productStockRoutes = new Hono<ApiEnv>()
 
 			const isCedisWarehouse = warehouseInfo[0].isCedis;
 
-			// Query the productStock table for records with the specified warehouseId
-			// Join with employee table to get only id, name, and surname from employee data
-			const warehouseProductStock = await db
-				.select({
-					// Select all productStock fields
-					productStock: schemas.productStock,
-					// Select only specific employee fields
-					employee: {
-						id: schemas.employee.id,
-						name: schemas.employee.name,
-						surname: schemas.employee.surname,
-					},
-				})
-				.from(schemas.productStock)
-				.leftJoin(
-					schemas.employee,
-					eq(schemas.productStock.lastUsedBy, schemas.employee.id),
-				)
-				.where(
-					and(
-						eq(schemas.productStock.currentWarehouse, warehouseId),
-						eq(schemas.productStock.isDeleted, false),
-					),
-				);
-
 			// Query the cabinetWarehouse table for the single cabinet belonging to this warehouse
 			// CEDIS warehouses don't have cabinets, so skip this query if it's a CEDIS
 			const cabinetWarehouse = isCedisWarehouse
@@ -299,11 +423,13 @@ const productStockRoutes = new Hono<ApiEnv>()
 						.where(eq(schemas.cabinetWarehouse.warehouseId, warehouseId))
 						.limit(1);
 
-			// Fetch product stock from the cabinet warehouse (if it exists)
+			// Determine cabinetId - empty string if no cabinet exists (e.g., CEDIS warehouse)
+			const cabinetId = cabinetWarehouse.length > 0 ? cabinetWarehouse[0].id : '';
+
+			// Query the productStock table for records in the warehouse or its cabinet as one page
 			// Join with employee table to get only id, name, and surname from employee data
-			let cabinetProductStock: typeof warehouseProductStock = [];
-			if (!isCedisWarehouse && cabinetWarehouse.length > 0) {
-				cabinetProductStock = await db
+			const productStockRows = await withListLimit(
+				db
 					.select({
 						// Select all productStock fields
 						productStock: schemas.productStock,
@@ -321,14 +447,32 @@ const productStockRoutes = new Hono<ApiEnv>()
 					)
 					.where(
 						and(
-							eq(schemas.productStock.currentCabinet, cabinetWarehouse[0].id),
+							cabinetId
+								? or(
+										eq(schemas.productStock.currentWarehouse, warehouseId),
+										eq(schemas.productStock.currentCabinet, cabinetId),
+									)
+								: eq(schemas.productStock.currentWarehouse, warehouseId),
 							eq(schemas.productStock.isDeleted, false),
+							...listQuery.conditions,
 						),
-					);
-			}
+					)
+					.orderBy(...listQuery.orderBy)
+					.$dynamic(),
+				query.limit,
+			);
+			const { items, nextCursor } = toListPage(productStockRows, {
+				limit: query.limit,
+				sort: query.sort,
+				getId: (row) => row.productStock.id,
+			});
 
-			// Determine cabinetId - empty string if no cabinet exists (e.g., CEDIS warehouse)
-			const cabinetId = cabinetWarehouse.length > 0 ? cabinetWarehouse[0].id : '';
+			const warehouseProductStock = items.filter(
+				(row) => row.productStock.currentWarehouse === warehouseId,
+			);
+			const cabinetProductStock = cabinetId
+				? items.filter((row) => row.productStock.currentCabinet === cabinetId)
+				: [];
 
 			// If no records exist in either table, return filtered mock data for development/testing
 			if (warehouseProductStock.length === 0 && cabinetWarehouse.length === 0) {
@@ -343,6 +487,7 @@ const productStockRoutes = new Hono<ApiEnv>()
 							cabinet: [],
 							cabinetId: '',
 						},
+						meta: [{ nextCursor }],
 					} satisfies ApiResponse,
 					200,
 				);
@@ -360,6 +505,7 @@ const productStockRoutes = new Hono<ApiEnv>()
 						cabinet: cabinetProductStock,
 						cabinetId,
 					},
+					meta: [{ nextCursor }],
 				} satisfies ApiResponse,
 				200,
 			);
@@ -394,6 +540,8 @@ const productStockRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-cabinet',
+	requirePermission('inventory.view'),
+	warehouseScope(),
 	zValidator('query', z.object({ cabinetId: z.string().uuid('Invalid cabinet ID') })),
 	async (c) => {
 		try {
@@ -421,6 +569,16 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (!canAccessWarehouse(c.get('warehouseScope'), cabinetInfo[0].warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query the productStock table for records with the specified cabinetId
 			// Join with employee table to get only id, name, and surname from employee data
 			const cabinetProductStock = await db
@@ -497,6 +655,8 @@ const productStockRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-cabinet/in-use',
+	requirePermission('inventory.view'),
+	warehouseScope(),
 	zValidator(
 		'query',
 		z.object({
@@ -530,6 +690,16 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (!canAccessWarehouse(c.get('warehouseScope'), cabinetInfo[0].warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query the productStock table for records with the specified cabinetId
 			// that are currently being used (isBeingUsed = true)
 			// Join with employee table to get only id, name, and surname from employee data
@@ -597,10 +767,12 @@ const productStockRoutes = new Hono<ApiEnv>()
  * POST /update-is-kit - Toggle isKit flag for a product stock
  *
  * Flips the isKit boolean for the specified product stock record.
- * If the record is not found, returns 404.
+ * If the record is not found, returns 404; outside the user's warehouse scope, 403.
  */
 .post(
 	'/update-is-kit',
+	requirePermission('inventory.manage'),
+	warehouseScope(),
 	zValidator(
 		'json',
 		z.object({
@@ -615,6 +787,7 @@ const productStockRoutes = new Hono<ApiEnv>()
 				.select({
 					id: schemas.productStock.id,
 					isKit: schemas.productStock.isKit,
+					currentWarehouse: schemas.productStock.currentWarehouse,
 				})
 				.from(schemas.productStock)
 				.where(eq(schemas.productStock.id, productStockId))
@@ -630,6 +803,16 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (!canAccessWarehouse(c.get('warehouseScope'), existing[0].currentWarehouse)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			const nextIsKit = !existing[0].isKit;
 			const updated = await db
 				.update(schemas.productStock)
@@ -647,6 +830,8 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			publishStockChanged(updated, 'update');
+
 			return c.json(
 				{
 					success: true,
@@ -674,21 +859,23 @@ const productStockRoutes = new Hono<ApiEnv>()
  * DELETE /delete - Soft delete a product stock record
  *
  * Marks a product stock record as deleted by setting isDeleted to true instead
- * of physically removing it from the database. Requires an authenticated user
- * with role 'encargado'. Returns 404 if the record doesn't exist or is already deleted.
+ * of physically removing it from the database. Requires the `inventory.delete`
+ * permission. Returns 404 if the record doesn't exist or is already deleted.
  *
  * @param {string} id - UUID of the product stock to mark as deleted (query parameter)
  /**
  * @returns {ApiResponse} Success response with updated record
+ * @throws {403} If the product stock belongs to a warehouse outside the user's scope
  */
 .delete(
 	'/delete',
+	requirePermission('inventory.delete'),
+	warehouseScope(),
 	zValidator('query', z.object({ id: z.string('Invalid product stock ID') })),
 	async (c) => {
 		try {
 			const { id } = c.req.valid('query');
 
-			// Authorization: only 'encargado' and 'admin' can delete
 			const user = c.get('user');
 			if (!user) {
 				return c.json(
@@ -699,11 +886,17 @@ const productStockRoutes = new Hono<ApiEnv>()
 					401,
 				);
 			}
-			if (!(user.role === 'encargado' || user.role === 'admin')) {
+
+			const [target] = await db
+				.select({ currentWarehouse: schemas.productStock.currentWarehouse })
+				.from(schemas.productStock)
+				.where(eq(schemas.productStock.id, id))
+				.limit(1);
+			if (target && !canAccessWarehouse(c.get('warehouseScope'), target.currentWarehouse)) {
 				return c.json(
 					{
 						success: false,
-						message: 'Forbidden - insufficient permissions',
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
 					} satisfies ApiResponse,
 					403,
 				);
@@ -753,7 +946,7 @@ const productStockRoutes = new Hono<ApiEnv>()
 			}
 
 			// Legacy compatibility: register a manual shrinkage event with inferred reason and notes.
-			await db
+			const deletionEvents = await db
 				.insert(schemas.inventoryShrinkageEvent)
 				.values({
 					source: 'manual',
@@ -764,9 +957,14 @@ const productStockRoutes = new Hono<ApiEnv>()
 					productStockId: updated[0].id,
 					productBarcode: updated[0].barcode,
 					productDescription: updated[0].description,
+					unitCost: shrinkageUnitCost(updated[0].id, updated[0].barcode),
 					createdByUserId: user.id,
 				})
-				.onConflictDoNothing();
+				.onConflictDoNothing()
+				.returning();
+			await enqueueShrinkageRecordedWebhook(db, deletionEvents);
+
+			publishStockChanged(updated, 'delete');
 
 			return c.json(
 				{
@@ -820,12 +1018,20 @@ const productStockRoutes = new Hono<ApiEnv>()
  /**
  * @param {boolean} isBeingUsed - Whether the product is currently being used (defaults to false)
  /**
+ * @param {string} lotNumber - Supplier lot shared by the created units (optional)
+ /**
+ * @param {string} expiresAt - Expiration date (YYYY-MM-DD) shared by the created units (optional)
+ /**
+ * @param {object} altegio - Altegio arrival; its unit cost is stored on the units, falling back to the catalog cost (optional)
+ /**
  * @returns {ApiResponse} Success response with created product stock data
  * @throws {400} Validation error if input data is invalid
  * @throws {500} Database error if insertion fails
  */
 .post(
 	'/create',
+	requirePermission('inventory.manage'),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -862,7 +1068,7 @@ const productStockRoutes = new Hono<ApiEnv>()
 			isKit: z.boolean().optional().default(false).describe('Whether it is a kit'),
 			description: z.string().optional().describe('Description'),
 			altegio: altegioArrivalPayloadSchema.optional(),
-		}),
+		}).extend(productStockLotSchema.shape),
 	),
 	async (c) => {
 		try {
@@ -879,6 +1085,12 @@ const productStockRoutes = new Hono<ApiEnv>()
 				return c.json(validationError, 400);
 			}
 
+			// Unit cost from the Altegio arrival, else the catalog cost of the barcode
+			const unitCost =
+				resolveArrivalUnitCost(requestData.altegio) ??
+				(await loadCatalogUnitCosts([requestData.barcode])).get(requestData.barcode) ??
+				null;
+
 			// Build the requested quantity of product stock rows in one insert
 			const productStockValues = Array.from({ length: quantity }, () => ({
 				barcode: requestData.barcode,
@@ -890,13 +1102,55 @@ const productStockRoutes = new Hono<ApiEnv>()
 				isBeingUsed: requestData.isBeingUsed ?? false,
 				isKit: requestData.isKit ?? false,
 				description: requestData.description || null,
+				lotNumber: requestData.lotNumber ?? null,
+				expiresAt: requestData.expiresAt ?? null,
+				unitCost,
 			}));
 
-			// Insert the new product stock records into the database
-			const insertedProductStock = await db
-				.insert(schemas.productStock)
-				.values(productStockValues)
-				.returning();
+			// The units, their history and the Altegio outbox job are written together so a
+			// crash cannot lose the replication job
+			const { insertedProductStock, outboxJobId } = await db.transaction(async (tx) => {
+				const inserted = await tx
+					.insert(schemas.productStock)
+					.values(productStockValues)
+					.returning();
+				if (inserted.length === 0) {
+					return { insertedProductStock: inserted, outboxJobId: null };
+				}
+
+				// Create usage history record for product creation if we have an employee
+				if (requestData.lastUsedBy) {
+					const usageDate = new Date();
+					const usageHistoryValues = inserted.map((product) => ({
+						productStockId: product.id,
+						employeeId: requestData.lastUsedBy,
+						warehouseId: requestData.currentWarehouse,
+						movementType: 'other',
+						action: 'checkin',
+						notes: 'Product stock created and added to inventory',
+						usageDate,
+						newWarehouseId: requestData.currentWarehouse,
+					}));
+
+					await tx.insert(schemas.productStockUsageHistory).values(usageHistoryValues);
+				}
+
+				// Replicate to Altegio (Arrival) when clients provide the necessary payload.
+				// The job is stored in the outbox so failed attempts are retried by the worker.
+				if (!requestData.altegio) {
+					return { insertedProductStock: inserted, outboxJobId: null };
+				}
+				const outboxJob = await enqueueAltegioOutboxJob(tx, {
+					kind: 'stock_creation',
+					payload: {
+						barcode: requestData.barcode,
+						warehouseId: requestData.currentWarehouse,
+						arrivalDetails: requestData.altegio as AltegioStockArrivalPayload,
+					},
+					createdByUserId: c.get('user')?.id ?? null,
+				});
+				return { insertedProductStock: inserted, outboxJobId: outboxJob.id };
+			});
 
 			// Check if the insertion was successful
 			if (insertedProductStock.length === 0) {
@@ -910,35 +1164,13 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
-			// Create usage history record for product creation if we have an employee
-			if (requestData.lastUsedBy) {
-				const usageDate = new Date();
-				const usageHistoryValues = insertedProductStock.map((product) => ({
-					productStockId: product.id,
-					employeeId: requestData.lastUsedBy,
-					warehouseId: requestData.currentWarehouse,
-					movementType: 'other',
-					action: 'checkin',
-					notes: 'Product stock created and added to inventory',
-					usageDate,
-					newWarehouseId: requestData.currentWarehouse,
-				}));
-
-				await db.insert(schemas.productStockUsageHistory).values(usageHistoryValues);
-			}
-
-			// Replicate to Altegio (Arrival) when clients provide the necessary payload.
-			if (requestData.altegio) {
+			// First attempt right away; the worker retries the job if it fails
+			if (outboxJobId) {
 				try {
-					const altegioPayload = requestData.altegio as AltegioStockArrivalPayload;
-					const altegioResult = await replicateStockCreationToAltegio(
-						requestData.barcode,
-						requestData.currentWarehouse,
-						altegioPayload,
-					);
-					if (!altegioResult.success) {
+					const processedJob = await processAltegioOutboxJob(outboxJobId);
+					if (processedJob && processedJob.status !== 'succeeded') {
 						// biome-ignore lint/suspicious/noConsole: Error logging is essential for monitoring external API syncing
-						console.error(`Altegio replication failed: ${altegioResult.message}`);
+						console.error(`Altegio replication failed: ${processedJob.lastError}`);
 					}
 				} catch (e) {
 					// biome-ignore lint/suspicious/noConsole: Error logging is essential for monitoring external API syncing
@@ -947,6 +1179,8 @@ const productStockRoutes = new Hono<ApiEnv>()
 			}
 
 			// Return successful response with the newly created product stock record
+			publishStockChanged(insertedProductStock, 'create');
+
 			return c.json(
 				{
 					success: true,
@@ -980,7 +1214,9 @@ const productStockRoutes = new Hono<ApiEnv>()
  * Updates the usage-related fields of a product stock record in the database.
  * This endpoint allows tracking when products are being used, by whom, and how many times.
  * It can update the current usage status, user assignment, dates, and usage count.
- * Optionally increments the number of uses if specified.
+ * Optionally increments the number of uses if specified. A unit that is not checked out and
+ * reached the `maxUsage` of its usage limit is marked empty with a `consumido` shrinkage
+ * event; `data.usageLimits` reports retired and pending-retirement units.
  *
  * @param {string} productStockId - UUID of the product stock to update (required)
  /**
@@ -996,11 +1232,16 @@ const productStockRoutes = new Hono<ApiEnv>()
  /**
  * @returns {ApiResponse} Success response with updated product stock data
  * @throws {400} Validation error if input data is invalid or business rules violated
+ * @throws {403} If the product stock belongs to a warehouse outside the user's scope
  * @throws {404} If product stock not found
+ * @throws {409} If the product is marked as being used while in transit on a transfer
  * @throws {500} Database error if update fails
  */
 .post(
 	'/update-usage',
+	requirePermission('inventory.manage'),
+	warehouseScope(),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -1064,6 +1305,8 @@ const productStockRoutes = new Hono<ApiEnv>()
 				.select({
 					id: schemas.productStock.id,
 					firstUsed: schemas.productStock.firstUsed,
+					isInTransit: schemas.productStock.isInTransit,
+					currentWarehouse: schemas.productStock.currentWarehouse,
 				})
 				.from(schemas.productStock)
 				.where(eq(schemas.productStock.id, productStockId))
@@ -1080,6 +1323,29 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (
+				!canAccessWarehouse(c.get('warehouseScope'), existingProductStock[0].currentWarehouse)
+			) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			// Units dispatched on a transfer cannot be taken until they are received
+			if (isBeingUsed === true && existingProductStock[0].isInTransit) {
+				return c.json(
+					{
+						success: false,
+						message: 'Product stock is in transit to another warehouse',
+					} satisfies ApiResponse,
+					409,
+				);
+			}
+
 			// Build update values object dynamically
 			const updateValues: Record<string, unknown> = {};
 
@@ -1117,43 +1383,63 @@ const productStockRoutes = new Hono<ApiEnv>()
 				);
 			}
 
-			// Update the product stock usage information
-			const updatedProductStock = await db
-				.update(schemas.productStock)
-				.set(updateValues)
-				.where(eq(schemas.productStock.id, productStockId))
-				.returning();
+			// The usage update and the usage-limit retirement it triggers are committed together
+			const { updatedProductStock, usageLimits } = await db.transaction(async (tx) => {
+				// Update the product stock usage information
+				const updatedProductStock = await tx
+					.update(schemas.productStock)
+					.set(updateValues)
+					.where(eq(schemas.productStock.id, productStockId))
+					.returning();
+
+				// Create usage history record for usage update if we have an employee
+				if (lastUsedBy) {
+					let action = 'other';
+					if (isBeingUsed === true) {
+						action = 'checkout';
+					} else if (isBeingUsed === false) {
+						action = 'checkin';
+					}
 
-			// Create usage history record for usage update if we have an employee
-			if (lastUsedBy) {
-				let action = 'other';
-				if (isBeingUsed === true) {
-					action = 'checkout';
-				} else if (isBeingUsed === false) {
-					action = 'checkin';
+					const notes = isBeingUsed
+						? 'Product usage updated - checked out'
+						: 'Product usage updated - checked in';
+
+					await tx.insert(schemas.productStockUsageHistory).values({
+						productStockId,
+						employeeId: lastUsedBy,
+						warehouseId: updatedProductStock[0].currentWarehouse,
+						movementType: 'other',
+						action,
+						notes,
+						usageDate: new Date(),
+					});
 				}
 
-				const notes = isBeingUsed
-					? 'Product usage updated - checked out'
-					: 'Product usage updated - checked in';
+				// A unit on the shelf that reached its usage limit is retired right away
+				const usageLimits = await enforceUsageLimits(
+					tx,
+					[productStockId],
+					c.get('user')?.id ?? null,
+				);
 
-				await db.insert(schemas.productStockUsageHistory).values({
-					productStockId,
-					employeeId: lastUsedBy,
-					warehouseId: updatedProductStock[0].currentWarehouse,
-					movementType: 'other',
-					action,
-					notes,
-					usageDate: new Date(),
-				});
-			}
+				return { updatedProductStock, usageLimits };
+			});
+
+			publishStockChanged(updatedProductStock, 'update');
 
 			// Return successful response with the updated product stock record
 			return c.json(
 				{
 					success: true,
 					message: 'Product stock usage updated successfully',
-					data: updatedProductStock[0],
+					data: {
+						...updatedProductStock[0],
+						isEmpty:
+							updatedProductStock[0].isEmpty ||
+							usageLimits.retiredProductStockIds.length > 0,
+						usageLimits,
+					},
 				} satisfies ApiResponse,
 				200,
 			);
@@ -1184,6 +1470,134 @@ const productStockRoutes = new Hono<ApiEnv>()
 	},
 )
 
+/**
+ * GET /api/product-stock/expiring - List expired units and units about to expire
+ *
+ * Returns `expired` and `expiringSoon` units, soonest expiry first, so they can be written
+ * off with the `caducado` merma reason. Users without global warehouse scope only see their
+ * own warehouse.
+ *
+ * @param {string} warehouseId - Optional warehouse filter
+ * @param {number} days - Days ahead counted as "expiring soon" (defaults to 30)
+ * @returns {ApiResponse} Success response with the expired and expiring units
+ * @throws {403} If the warehouse is outside the user's scope
+ */
+.get(
+	'/expiring',
+	requirePermission('inventory.view'),
+	warehouseScope(),
+	zValidator(
+		'query',
+		z.object({
+			warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
+			days: z.coerce.number().int().min(0).max(365).default(DEFAULT_EXPIRY_WINDOW_DAYS),
+		}),
+	),
+	async (c) => {
+		const { warehouseId, days } = c.req.valid('query');
+		const scope = c.get('warehouseScope');
+
+		if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+			return c.json(
+				{
+					success: false,
+					message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		try {
+			const expiringUnits = await listExpiringUnits({
+				warehouseId: scope.global ? warehouseId : scope.warehouseId,
+				days,
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: 'Expiring product stock fetched successfully',
+					data: expiringUnits,
+				} satisfies ApiResponse,
+				200,
+			);
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
+			console.error('Error fetching expiring product stock:', error);
+
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to fetch expiring product stock',
+				} satisfies ApiResponse,
+				500,
+			);
+		}
+	},
+)
+
+/**
+ * GET /api/product-stock/valuation - Value the units on hand per warehouse
+ *
+ * Returns each warehouse with its units and peso value, and per barcode the weighted-average
+ * unit cost. Users without global warehouse scope only see their own warehouse.
+ *
+ * @param {string} warehouseId - Optional warehouse filter
+ * @returns {ApiResponse} Success response with the valuation per warehouse
+ * @throws {403} If the warehouse is outside the user's scope
+ */
+.get(
+	'/valuation',
+	requirePermission('inventory.view'),
+	warehouseScope(),
+	zValidator(
+		'query',
+		z.object({
+			warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
+		}),
+	),
+	async (c) => {
+		const { warehouseId } = c.req.valid('query');
+		const scope = c.get('warehouseScope');
+
+		if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+			return c.json(
+				{
+					success: false,
+					message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		try {
+			const valuation = await getInventoryValuation({
+				warehouseId: scope.global ? warehouseId : scope.warehouseId,
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: 'Inventory valuation fetched successfully',
+					data: valuation,
+				} satisfies ApiResponse,
+				200,
+			);
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
+			console.error('Error fetching inventory valuation:', error);
+
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to fetch inventory valuation',
+				} satisfies ApiResponse,
+				500,
+			);
+		}
+	},
+)
+
 /**
  * GET /api/product-stock/with-employee - Retrieve product stock joined with employee
  *
@@ -1194,7 +1608,7 @@ const productStockRoutes = new Hono<ApiEnv>()
  * @returns {ApiResponse} Success response with product stock + employee join data
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/with-employee', async (c) => {
+.get('/with-employee', requirePermission('inventory.view'), warehouseScope(), async (c) => {
 	try {
 		const productStockWithEmployee = await db
 			.select()
@@ -1202,7 +1616,8 @@ const productStockRoutes = new Hono<ApiEnv>()
 			.leftJoin(
 				schemas.employee,
 				eq(schemas.productStock.lastUsedBy, schemas.employee.id),
-			);
+			)
+			.where(productStockScopeCondition(c.get('warehouseScope')));
 
 		if (productStockWithEmployee.length === 0) {
 			return c.json(
@@ -1243,38 +1658,15 @@ const productStockRoutes = new Hono<ApiEnv>()
  * It also purges dependent records (usage history, kit details, transfer details, withdraw order details)
  * and recomputes parent summary counts to keep aggregates consistent.
  *
- * Access is restricted to the main account email configured in MAIN_ACCOUNT_EMAIL.
+ * Requires the `inventory.purge` permission (admin only by default).
  *
  * @returns {ApiResponse} Success response with deletion and update counts
  * @throws {401} Authentication required
- * @throws {403} Forbidden for non-main accounts
+ * @throws {403} Missing the `inventory.purge` permission
  * @throws {500} Unexpected database error
  */
-.post('/purge-non-cedis', async (c) => {
+.post('/purge-non-cedis', requirePermission('inventory.purge'), async (c) => {
 	try {
-		const user = c.get('user');
-		if (!user) {
-			return c.json(
-				{
-					success: false,
-					message: 'Authentication required',
-				} satisfies ApiResponse,
-				401,
-			);
-		}
-
-		const normalizedEmail =
-			typeof user.email === 'string' ? user.email.trim().toLowerCase() : '';
-		if (normalizedEmail !== MAIN_ACCOUNT_EMAIL) {
-			return c.json(
-				{
-					success: false,
-					message: 'Forbidden - insufficient permissions',
-				} satisfies ApiResponse,
-				403,
-			);
-		}
-
 		const nonCedisWarehouses = await db
 			.select({ id: schemas.warehouse.id })
 			.from(schemas.warehouse)
@@ -1324,7 +1716,10 @@ const productStockRoutes = new Hono<ApiEnv>()
 				: or(...productStockConditions);
 
 		const productStockRows = await db
-			.select({ id: schemas.productStock.id })
+			.select({
+				id: schemas.productStock.id,
+				currentWarehouse: schemas.productStock.currentWarehouse,
+			})
 			.from(schemas.productStock)
 			.where(productStockWhere);
 
@@ -1463,6 +1858,8 @@ const productStockRoutes = new Hono<ApiEnv>()
 			};
 		});
 
+		publishStockChanged(productStockRows, 'purge');
+
 		return c.json(
 			{
 				success: true,
@@ -1497,16 +1894,19 @@ const productStockRoutes = new Hono<ApiEnv>()
  * @returns {ApiResponse} Success response with product stock data where isDeleted=true or isEmpty=true
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/deleted-and-empty', async (c) => {
+.get('/deleted-and-empty', requirePermission('inventory.view'), warehouseScope(), async (c) => {
 	try {
 		// Query product stock records where either isDeleted or isEmpty is true
 		const deletedOrEmptyProductStock = await db
 			.select()
 			.from(schemas.productStock)
 			.where(
-				or(
-					eq(schemas.productStock.isDeleted, true),
-					eq(schemas.productStock.isEmpty, true),
+				and(
+					or(
+						eq(schemas.productStock.isDeleted, true),
+						eq(schemas.productStock.isEmpty, true),
+					),
+					productStockScopeCondition(c.get('warehouseScope')),
 				),
 			);
 
@@ -1546,6 +1946,7 @@ const productStockRoutes = new Hono<ApiEnv>()
  /**
  * @returns {ApiResponse} Success response with count of updated products
  * @throws {400} Validation error if input data is invalid or productIds array is empty
+ * @throws {403} If a product belongs to a warehouse outside the user's scope
  * @throws {500} Database error if update fails
  *
  * @example
@@ -1559,6 +1960,8 @@ const productStockRoutes = new Hono<ApiEnv>()
  */
 .post(
 	'/update-is-empty',
+	requirePermission('inventory.manage'),
+	warehouseScope(),
 	zValidator(
 		'json',
 		z.object({
@@ -1604,6 +2007,21 @@ const productStockRoutes = new Hono<ApiEnv>()
 					);
 				}
 
+				const scope = c.get('warehouseScope');
+				if (
+					existingProducts.some(
+						(product) => !canAccessWarehouse(scope, product.currentWarehouse),
+					)
+				) {
+					return c.json(
+						{
+							success: false,
+							message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+						} satisfies ApiResponse,
+						403,
+					);
+				}
+
 				const productsToUpdate = existingProducts.filter((product) => !product.isEmpty);
 				const productIdsToUpdate = productsToUpdate.map((product) => product.id);
 
@@ -1622,7 +2040,7 @@ const productStockRoutes = new Hono<ApiEnv>()
 
 				// Legacy compatibility: create manual shrinkage events only for state transitions.
 				if (productsToUpdate.length > 0) {
-					await db
+					const emptiedEvents = await db
 						.insert(schemas.inventoryShrinkageEvent)
 						.values(
 							productsToUpdate.map((product) => ({
@@ -1634,12 +2052,17 @@ const productStockRoutes = new Hono<ApiEnv>()
 								productStockId: product.id,
 								productBarcode: product.barcode,
 								productDescription: product.description,
+								unitCost: shrinkageUnitCost(product.id, product.barcode),
 								createdByUserId: user.id,
 							})),
 						)
-						.onConflictDoNothing();
+						.onConflictDoNothing()
+						.returning();
+					await enqueueShrinkageRecordedWebhook(db, emptiedEvents);
 				}
 
+				publishStockChanged(productsToUpdate, 'update');
+
 				return c.json(
 					{
 						success: true,
@@ -1,15 +1,20 @@
 /** biome-ignore-all lint/performance/noNamespaceImport: Required for zod */
 import { zValidator } from '@hono/zod-validator';
-import { eq } from 'drizzle-orm';
 import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 import type { ApiEnv } from '../../context';
-import { db } from '../../db/index';
-import * as schemas from '../../db/schema';
 import { createProductsInAltegio } from '../../lib/altegio-service';
 import type { ApiResponse } from '../../lib/api-response';
-import type { DataItemArticulosType } from '../../types';
-import { apiResponseSchema } from '../../types';
+import { InventorySyncError } from '../../lib/inventory-sync';
+import { requirePermission } from '../../lib/permissions';
+import {
+	type CatalogProduct,
+	listCatalogProducts,
+	type ProductCatalogSyncSummary,
+	setProductShelfLife,
+	syncProductCatalog,
+} from '../../lib/product-catalog';
 
 const altegioCreateProductRequestSchema = z.object({
 	locationIds: z
@@ -40,233 +45,139 @@ const altegioCreateProductRequestSchema = z.object({
 const productsRoutes = new Hono<ApiEnv>()
 
 /**
- * GET /api/products/all - Retrieve all products
+ * GET /api/products/all - Retrieve the product catalog
  *
- * Returns a list of all available products/articles in the system.
- * Fetches data from the Altegio API with authentication headers.
- * Returns an error response if the API is unavailable or authentication fails.
- * Includes proper error handling and response formatting.
+ * Serves the local `product` table, which mirrors Altegio goods from every active
+ * location (see `syncProductCatalog`). Altegio is no longer called on each request.
+ * Items keep the Altegio goods shape; products present in several locations expose
+ * all their good_ids as a comma-separated `good_id` string.
  *
- * Deduplication logic:
- * - First deduplicates by good_id across warehouses
- * - Then deduplicates by title (exact match, case-sensitive)
- /**
- * - When multiple products share the same title but have different good_ids,
- *   they are merged into a single record with all good_ids as a comma-separated string
- * - The first occurrence's data is preserved when merging duplicates
+ * Query params (all optional):
+ * - q: case-insensitive search on title, category or barcode
+ * - category: exact category filter
+ * - includeArchived: include products no longer returned by Altegio
+ * - limit / cursor: keyset pagination ordered by title; without `limit` every match is returned
  *
- * Fixed to retrieve 500 products per request.
- *
- * @returns {ApiResponse<DataItemArticulosType[]>} Success response with products array or error response
- * @throws {400} Bad request if required environment variables are missing
- * @throws {500} Internal server error if API call fails
+ * @returns {ApiResponse<CatalogProduct[]>} Products, with `meta[0].nextCursor` when paginated
  */
-.get('/products/all', async (c) => {
-	try {
-		// Validate required environment variables
-		const authHeader = process.env.AUTH_HEADER;
-		const acceptHeader = process.env.ACCEPT_HEADER;
-
-		if (!authHeader) {
-			// biome-ignore lint/suspicious/noConsole: Environment variable validation logging is essential
-			console.error('Missing required environment variable: AUTH_HEADER');
-
-			// Return error response when environment variables are missing
-			return c.json(
-				{
-					success: false,
-					message: 'Missing required authentication configuration',
-					data: [],
-				} satisfies ApiResponse<DataItemArticulosType[]>,
-				400,
-			);
-		}
-
-		if (!acceptHeader) {
-			// biome-ignore lint/suspicious/noConsole: Environment variable validation logging is essential
-			console.error('Missing required environment variable: ACCEPT_HEADER');
+.get(
+	'/products/all',
+	requirePermission('inventory.view'),
+	zValidator(
+		'query',
+		z.object({
+			q: z.string().optional(),
+			category: z.string().optional(),
+			includeArchived: z
+				.enum(['true', 'false'])
+				.optional()
+				.transform((value) => value === 'true'),
+			limit: z.coerce.number().int().min(1).max(500).optional(),
+			cursor: z.string().optional(),
+		}),
+	),
+	async (c) => {
+		try {
+			const { q, category, includeArchived, limit, cursor } = c.req.valid('query');
+			const { items, nextCursor } = await listCatalogProducts({
+				q,
+				category,
+				includeArchived,
+				limit,
+				cursor,
+			});
 
 			return c.json(
 				{
-					success: false,
-					message: 'Missing required authentication configuration',
-					data: [],
-				} satisfies ApiResponse<DataItemArticulosType[]>,
-				400,
+					success: true,
+					message: `Products retrieved successfully from the local catalog (${items.length} items)`,
+					data: items,
+					meta: [{ nextCursor }],
+				} satisfies ApiResponse<CatalogProduct[]>,
+				200,
 			);
-		}
-
-		const requestHeaders: HeadersInit = {
-			Authorization: authHeader,
-			Accept: acceptHeader,
-			'Content-Type': 'application/json',
-		};
-
-		// Server-side pagination to aggregate all products across ALL warehouses
-		const PAGE_SIZE = 100;
-		const MAX_ITEMS = 5000;
-		const MAX_PAGES = Math.ceil(MAX_ITEMS / PAGE_SIZE)
-		 /**
-		 * Fetch all products for a specific Altegio warehouse with pagination.
-		 * Uses recursion to avoid await-in-loop lints, ensuring sequential page fetching.
-		 * @param altegioId Warehouse Altegio identifier
-		 * @param page Current page to fetch
-		 * @param accumulated Previously accumulated products
-		 * @param metaAccumulated Previously accumulated meta
-		 * @returns Aggregated products and meta for this warehouse
-		 */
-		async function fetchWarehouseProducts(
-			altegioId: number,
-			page: number,
-			accumulated: DataItemArticulosType[],
-			metaAccumulated: unknown[],
-		): Promise<{
-			data: DataItemArticulosType[];
-			meta: unknown[];
-			success: boolean;
-		}> {
-			const apiUrl = `https://api.alteg.io/api/v1/goods/${altegioId}?count=${PAGE_SIZE}&page=${page}`;
-
-			const response = await fetch(apiUrl, {
-				method: 'GET',
-				headers: requestHeaders,
-			});
-
-			if (!response.ok) {
-				throw new Error(
-					`Altegio API responded with status ${response.status}: ${response.statusText}`,
-				);
-			}
-
-			const apiData = await response.json();
-			const validated = apiResponseSchema.parse(apiData);
-
-			const currentPageData = validated.data as DataItemArticulosType[];
-			const combinedData = accumulated.concat(currentPageData);
-			const combinedMeta = metaAccumulated.concat(validated.meta ?? []);
-
-			const fetchedEnough = currentPageData.length < PAGE_SIZE || page >= MAX_PAGES;
-			if (fetchedEnough) {
-				return {
-					data: combinedData,
-					meta: combinedMeta,
-					success: validated.success,
-				};
+		} catch (error) {
+			if (error instanceof HTTPException) {
+				throw error;
 			}
+			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging API issues
+			console.error('Error fetching products from the catalog:', error);
 
-			return fetchWarehouseProducts(altegioId, page + 1, combinedData, combinedMeta);
-		}
-
-		// Load all active warehouses with valid Altegio IDs
-		const activeWarehouses = await db
-			.select({ altegioId: schemas.warehouse.altegioId })
-			.from(schemas.warehouse)
-			.where(eq(schemas.warehouse.isActive, true));
-
-		const altegioIds = Array.from(
-			new Set(
-				activeWarehouses
-					.map((w) => w.altegioId)
-					.filter((id): id is number => Number.isInteger(id) && id > 0),
-			),
-		);
-
-		if (altegioIds.length === 0) {
 			return c.json(
 				{
 					success: false,
-					message:
-						'No active warehouses are configured with valid Altegio IDs to fetch products from',
+					message: 'Failed to fetch products',
 					data: [],
-				} satisfies ApiResponse<DataItemArticulosType[]>,
-				400,
+				} satisfies ApiResponse<CatalogProduct[]>,
+				500,
 			);
 		}
-
-		// Fetch products for all warehouses in parallel
-		const warehouseResults = await Promise.all(
-			altegioIds.map((id) => fetchWarehouseProducts(id, 1, [], [])),
-		);
-
-		// Merge and de-duplicate by good_id across warehouses
-		const uniqueByGoodId = new Map<number, DataItemArticulosType>();
-		for (const result of warehouseResults) {
-			for (const item of result.data) {
-				if (!uniqueByGoodId.has(item.good_id)) {
-					uniqueByGoodId.set(item.good_id, item);
-				}
-			}
-		}
-
-		/**
-		 * De-duplicate by title and accumulate good_ids for duplicate titles.
-		 * When multiple products have the same title but different good_ids,
-		 * we merge them into a single record with all good_ids as a comma-separated string.
-		 * This preserves the first occurrence's data while aggregating the good_ids.
-		 */
-		const uniqueByTitle = new Map<string, DataItemArticulosType & { good_id: number | string }>();
-		const titleToGoodIds = new Map<string, number[]>();
-
-		// First pass: collect all good_ids per normalized title
-		for (const item of uniqueByGoodId.values()) {
-			const normalizedTitle = item.title.trim();
-			if (!titleToGoodIds.has(normalizedTitle)) {
-				titleToGoodIds.set(normalizedTitle, []);
-			}
-			titleToGoodIds.get(normalizedTitle)?.push(item.good_id);
-		}
-
-		// Second pass: create merged records with accumulated good_ids
-		// Preserves the first occurrence's data for each unique title
-		for (const item of uniqueByGoodId.values()) {
-			const normalizedTitle = item.title.trim();
-			if (!uniqueByTitle.has(normalizedTitle)) {
-				const goodIds = titleToGoodIds.get(normalizedTitle) ?? [];
-				// If multiple good_ids exist for this title, join them with commas
-				// Otherwise, keep the single good_id as-is
-				const mergedGoodId =
-					goodIds.length > 1 ? goodIds.join(',') : (goodIds[0] ?? item.good_id);
-
-				uniqueByTitle.set(normalizedTitle, {
-					...item,
-					good_id: mergedGoodId,
-				} as DataItemArticulosType & { good_id: number | string });
-			}
-		}
-
-		const allProducts = Array.from(uniqueByTitle.values()).slice(
-			0,
-			MAX_ITEMS,
-		) as DataItemArticulosType[];
-		const meta = warehouseResults.flatMap((r) => r.meta ?? []);
-		const success = warehouseResults.every((r) => r.success === true);
-
+	},
+)
+/**
+ * POST /api/products/sync - Refresh the local catalog from Altegio
+ *
+ * Runs the same catalog sync as the hourly job. Requires the `products.sync` permission.
+ *
+ * @returns {ApiResponse<ProductCatalogSyncSummary>} Counts of fetched, upserted and archived products
+ */
+.post('/products/sync', requirePermission('products.sync'), async (c) => {
+	try {
+		const summary = await syncProductCatalog();
 		return c.json(
 			{
-				success,
-				message: `Products retrieved successfully from Altegio API across ${altegioIds.length} warehouses (${allProducts.length} unique items)`,
-				data: allProducts,
-				meta,
-			} satisfies ApiResponse<DataItemArticulosType[]>,
+				success: true,
+				message: `Product catalog synced (${summary.upserted} products, ${summary.archived} archived)`,
+				data: summary,
+			} satisfies ApiResponse<ProductCatalogSyncSummary>,
 			200,
 		);
 	} catch (error) {
-		// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging API issues
-		console.error('Error fetching products from Altegio API:', error);
+		if (error instanceof InventorySyncError) {
+			return c.json({ success: false, message: error.message } satisfies ApiResponse, error.status);
+		}
+		// biome-ignore lint/suspicious/noConsole: External API diagnostics are required for supportability
+		console.error('Product catalog sync failed:', error);
+		return c.json({ success: false, message: 'Failed to sync product catalog' } satisfies ApiResponse, 500);
+	}
+})
+/**
+ * PUT /api/products/:barcode/shelf-life - Set how many days units of a product last
+ *
+ * Units the inventory sync creates for the barcode get `expires_at` = sync day + shelf life,
+ * since Altegio stock has no expiry. Send `null` to stop dating them.
+ *
+ * @returns {ApiResponse<CatalogProduct>} The updated catalog product
+ * @throws {404} If the barcode is not in the catalog
+ */
+.put(
+	'/products/:barcode/shelf-life',
+	requirePermission('inventory.manage'),
+	zValidator('param', z.object({ barcode: z.coerce.number().int().nonnegative() })),
+	zValidator(
+		'json',
+		z.object({
+			shelfLifeDays: z.number().int().positive().max(3650).nullable(),
+		}),
+	),
+	async (c) => {
+		const { barcode } = c.req.valid('param');
+		const { shelfLifeDays } = c.req.valid('json');
+		const product = await setProductShelfLife(barcode, shelfLifeDays);
 
-		// Return error response with empty data array
 		return c.json(
 			{
-				success: false,
-				message: 'Failed to fetch products from Altegio API',
-				data: [],
-			} satisfies ApiResponse<DataItemArticulosType[]>,
-			500,
+				success: true,
+				message: 'Product shelf life updated successfully',
+				data: product,
+			} satisfies ApiResponse<CatalogProduct>,
+			200,
 		);
-	}
-})
+	},
+)
 .post(
 	'/create-product-in-altegio',
+	requirePermission('products.create'),
 	zValidator('json', altegioCreateProductRequestSchema),
 	async (c) => {
 		try {
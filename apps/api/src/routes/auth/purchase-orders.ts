@@ -0,0 +1,365 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { ApiEnv } from '../../context';
+import type { ApiResponse } from '../../lib/api-response';
+import { publishStockChanged } from '../../lib/domain-events';
+import { idempotency } from '../../lib/idempotency';
+import { requirePermission } from '../../lib/permissions';
+import {
+	closePurchaseOrder,
+	createPurchaseOrder,
+	createSupplier,
+	deletePurchaseOrder,
+	deleteSupplier,
+	generatePurchaseOrders,
+	getPurchaseOrder,
+	listPurchaseOrders,
+	listSuppliers,
+	receivePurchaseOrder,
+	sendPurchaseOrder,
+	setSupplierProducts,
+	updateSupplier,
+} from '../../lib/purchase-orders';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import { warehouseScope } from '../../lib/warehouse-scope';
+import {
+	purchaseOrderCreateSchema,
+	purchaseOrderGenerateSchema,
+	purchaseOrderListQuerySchema,
+	purchaseOrderReceiveSchema,
+	supplierCreateSchema,
+	supplierProductsSchema,
+	supplierUpdateSchema,
+} from '../../types';
+
+const supplierParamSchema = z.object({ id: z.string().uuid('Invalid supplier ID') });
+const orderParamSchema = z.object({ id: z.string().uuid('Invalid purchase order ID') });
+
+const purchaseOrdersRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET /suppliers - List suppliers with the barcodes they supply by default
+	 */
+	.get('/suppliers', requirePermission('purchase_orders.view'), async (c) => {
+		const suppliers = await listSuppliers();
+
+		return c.json(
+			{
+				success: true,
+				message: 'Suppliers retrieved successfully',
+				data: suppliers,
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * POST /suppliers - Create a supplier
+	 */
+	.post(
+		'/suppliers',
+		requirePermission('purchase_orders.manage'),
+		zValidator('json', supplierCreateSchema),
+		async (c) => {
+			const payload = c.req.valid('json');
+
+			const supplier = await createSupplier(payload);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Supplier created successfully',
+					data: supplier,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * PUT /suppliers/:id - Update the fields that are sent
+	 */
+	.put(
+		'/suppliers/:id',
+		requirePermission('purchase_orders.manage'),
+		zValidator('param', supplierParamSchema),
+		zValidator('json', supplierUpdateSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const payload = c.req.valid('json');
+
+			const supplier = await updateSupplier(id, payload);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Supplier updated successfully',
+					data: supplier,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * PUT /suppliers/:id/products - Replace the barcodes the supplier provides by default
+	 */
+	.put(
+		'/suppliers/:id/products',
+		requirePermission('purchase_orders.manage'),
+		zValidator('param', supplierParamSchema),
+		zValidator('json', supplierProductsSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const { barcodes } = c.req.valid('json');
+
+			const supplier = await setSupplierProducts(id, barcodes);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Supplier products updated successfully',
+					data: supplier,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * DELETE /suppliers/:id - Delete a supplier without purchase orders
+	 */
+	.delete(
+		'/suppliers/:id',
+		requirePermission('purchase_orders.manage'),
+		zValidator('param', supplierParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+
+			await deleteSupplier(id);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Supplier deleted successfully',
+					data: { id },
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * GET / - List purchase orders in the warehouse scope, newest first
+	 */
+	.get(
+		'/',
+		requirePermission('purchase_orders.view'),
+		warehouseScope(),
+		zValidator('query', purchaseOrderListQuerySchema),
+		async (c) => {
+			const query = c.req.valid('query');
+
+			const orders = await listPurchaseOrders(query, c.get('warehouseScope'));
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase orders retrieved successfully',
+					data: orders,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /generate - Group the unfulfilled replenishment items of a CEDIS into one draft
+	 * purchase order per default supplier
+	 *
+	 * @param {string} cedisWarehouseId - CEDIS whose unfulfilled items are ordered
+	 * @param {string[]} detailIds - Optional subset of replenishment details to order
+	 * @returns {ApiResponse} Generated orders and the items without a supplier
+	 */
+	.post(
+		'/generate',
+		requirePermission('purchase_orders.manage'),
+		warehouseScope(),
+		zValidator('json', purchaseOrderGenerateSchema),
+		async (c) => {
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const result = await generatePurchaseOrders({
+				input: payload,
+				user,
+				scope: c.get('warehouseScope'),
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase orders generated successfully',
+					data: result,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * POST / - Create a draft purchase order to a chosen supplier from unfulfilled details
+	 */
+	.post(
+		'/',
+		requirePermission('purchase_orders.manage'),
+		warehouseScope(),
+		zValidator('json', purchaseOrderCreateSchema),
+		async (c) => {
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const order = await createPurchaseOrder({
+				input: payload,
+				user,
+				scope: c.get('warehouseScope'),
+			});
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase order created successfully',
+					data: order,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * GET /:id - Purchase order with its items and the replenishment details they cover
+	 */
+	.get(
+		'/:id',
+		requirePermission('purchase_orders.view'),
+		warehouseScope(),
+		zValidator('param', orderParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+
+			const order = await getPurchaseOrder(id, c.get('warehouseScope'));
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase order retrieved successfully',
+					data: order,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /:id/send - Mark a draft purchase order as sent to the supplier
+	 */
+	.post(
+		'/:id/send',
+		requirePermission('purchase_orders.manage'),
+		warehouseScope(),
+		zValidator('param', orderParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const user = c.get('user') as SessionUser | null;
+
+			const order = await sendPurchaseOrder({ id, user, scope: c.get('warehouseScope') });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase order sent successfully',
+					data: order,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /:id/receive - Receive units into the CEDIS
+	 *
+	 * Creates one product stock unit per received item, linked to the replenishment detail it
+	 * fulfills.
+	 *
+	 * @param {Array} items - Barcodes and quantities received
+	 * @returns {ApiResponse} The updated order and the created units
+	 */
+	.post(
+		'/:id/receive',
+		requirePermission('purchase_orders.receive'),
+		idempotency(),
+		warehouseScope(),
+		zValidator('param', orderParamSchema),
+		zValidator('json', purchaseOrderReceiveSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const receipt = await receivePurchaseOrder({
+				id,
+				input: payload,
+				user,
+				scope: c.get('warehouseScope'),
+			});
+			publishStockChanged(receipt.productStock, 'create');
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase order received successfully',
+					data: receipt,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * POST /:id/close - Close a sent or partially received order without the pending units
+	 */
+	.post(
+		'/:id/close',
+		requirePermission('purchase_orders.manage'),
+		warehouseScope(),
+		zValidator('param', orderParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const user = c.get('user') as SessionUser | null;
+
+			const order = await closePurchaseOrder({ id, user, scope: c.get('warehouseScope') });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase order closed successfully',
+					data: order,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * DELETE /:id - Delete a draft order; its replenishment items become unfulfilled again
+	 */
+	.delete(
+		'/:id',
+		requirePermission('purchase_orders.manage'),
+		warehouseScope(),
+		zValidator('param', orderParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+
+			await deletePurchaseOrder({ id, scope: c.get('warehouseScope') });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Purchase order deleted successfully',
+					data: { id },
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	);
+
+export { purchaseOrdersRoutes };
@@ -5,27 +5,46 @@ import { z } from 'zod';
 import type { ApiEnv } from '../../context';
 import type { ApiResponse } from '../../lib/api-response';
 import { logErrorDetails } from '../../lib/api-response';
+import { requirePermission } from '../../lib/permissions';
+import { runReplenishmentPlanner } from '../../lib/replenishment-planner';
 import type { SessionUser } from '../../lib/replenishment-orders';
 import {
 	createReplenishmentOrder,
+	decideReplenishmentOrderApproval,
+	discardReplenishmentDraft,
 	getReplenishmentOrder,
 	getUnfulfilledProducts,
 	linkReplenishmentOrderToTransfer,
 	listReplenishmentOrders,
 	listReplenishmentOrdersByWarehouse,
 	markBuyOrderGenerated,
+	reviewReplenishmentOrder,
 	updateReplenishmentOrder,
 } from '../../lib/replenishment-orders';
 import {
+	documentFileName,
+	getPickingSheet,
+	renderPickingSheetPdf,
+} from '../../lib/shipping-documents';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+} from '../../lib/warehouse-scope';
+import {
+	approvalDecisionSchema,
 	replenishmentOrderCreateSchema,
 	replenishmentOrderLinkTransferSchema,
+	replenishmentOrderReviewSchema,
 	replenishmentOrderStatusQuerySchema,
 	replenishmentOrderUpdateSchema,
+	replenishmentPlanSchema,
 } from '../../types';
 
 const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 	.post(
 	'/',
+	requirePermission('replenishment.manage'),
 	zValidator('json', replenishmentOrderCreateSchema),
 	async (c) => {
 		const payload = c.req.valid('json');
@@ -48,6 +67,7 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 )
 .put(
 	'/:id',
+	requirePermission('replenishment.manage'),
 	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
 	zValidator('json', replenishmentOrderUpdateSchema),
 	async (c) => {
@@ -73,6 +93,7 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 )
 .get(
 	'/',
+	requirePermission('replenishment.view'),
 	zValidator('query', replenishmentOrderStatusQuerySchema),
 	async (c) => {
 		try {
@@ -112,6 +133,7 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 )
 .get(
 	'/warehouse/:warehouseId',
+	requirePermission('replenishment.view'),
 	zValidator('param', z.object({ warehouseId: z.string().uuid('Invalid warehouse ID') })),
 	async (c) => {
 		const { warehouseId } = c.req.valid('param');
@@ -132,7 +154,7 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 		);
 	},
 )
-.get('/unfulfilled-products', async (c) => {
+.get('/unfulfilled-products', requirePermission('replenishment.view'), async (c) => {
 	try {
 		const user = c.get('user') as SessionUser | null;
 
@@ -165,6 +187,7 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 })
 .patch(
 	'/mark-buy-order-generated',
+	requirePermission('replenishment.manage'),
 	zValidator(
 		'json',
 		z.object({
@@ -216,8 +239,158 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 		}
 	},
 )
+/**
+ * POST /plan - Run the replenishment planner on demand
+ *
+ * Compares live units, units in open transfers and open orders with the quantity stock limits.
+ * For each warehouse below a minimum it writes one draft order to the CEDIS that brings each
+ * barcode back to its maximum, replacing the previous planner draft. Users without global
+ * warehouse scope can only plan their own warehouse.
+ *
+ * @param {string} warehouseId - Optional warehouse to plan; omit to plan every warehouse in scope
+ * @param {string} cedisWarehouseId - Optional CEDIS; defaults to the first active CEDIS
+ * @param {boolean} dryRun - Compute the plan without writing drafts
+ * @returns {ApiResponse} Plan lines and draft per warehouse
+ */
+.post(
+	'/plan',
+	requirePermission('replenishment.manage'),
+	warehouseScope(),
+	zValidator('json', replenishmentPlanSchema),
+	async (c) => {
+		const payload = c.req.valid('json');
+		const scope = c.get('warehouseScope');
+
+		if (payload.warehouseId && !canAccessWarehouse(scope, payload.warehouseId)) {
+			return c.json(
+				{
+					success: false,
+					message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		const plans = await runReplenishmentPlanner({
+			...payload,
+			...(!scope.global && { warehouseId: scope.warehouseId }),
+		});
+
+		return c.json(
+			{
+				success: true,
+				message: payload.dryRun
+					? 'Replenishment plan computed successfully'
+					: 'Replenishment drafts generated successfully',
+				data: plans,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+/**
+ * POST /:id/review - Review a planner draft and send it to the CEDIS
+ *
+ * Requires `replenishment.approve`.
+ *
+ * @param {Array} items - Optional reviewed quantities by barcode; 0 removes the barcode
+ * @param {string} notes - Optional notes replacing the draft notes
+ * @returns {ApiResponse} The sent order with its details
+ */
+.post(
+	'/:id/review',
+	requirePermission('replenishment.approve'),
+	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
+	zValidator('json', replenishmentOrderReviewSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const payload = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const order = await reviewReplenishmentOrder({
+			id,
+			input: payload,
+			user,
+		});
+
+		return c.json(
+			{
+				success: true,
+				message: 'Replenishment draft reviewed and sent successfully',
+				data: order,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+/**
+ * DELETE /:id/draft - Discard a planner draft (requires `replenishment.approve`)
+ *
+ * The next planner run creates a new draft if the warehouse is still below its minimums.
+ */
+.delete(
+	'/:id/draft',
+	requirePermission('replenishment.approve'),
+	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const user = c.get('user') as SessionUser | null;
+
+		await discardReplenishmentDraft({ id, user });
+
+		return c.json(
+			{
+				success: true,
+				message: 'Replenishment draft discarded successfully',
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+/**
+ * POST /:id/approval - Approve or reject an order from a warehouse that requires approval
+ *
+ * Orders created for a warehouse with `requiresApproval` start as `awaiting_approval` and
+ * cannot be sent until an approver decides. Requires `approvals.decide`.
+ *
+ * @param {string} decision - `approve` or `reject`
+ * @param {string} comment - Approver comment; required to reject
+ * @returns {ApiResponse} The order with its details
+ */
+.post(
+	'/:id/approval',
+	requirePermission('approvals.decide'),
+	warehouseScope(),
+	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
+	zValidator('json', approvalDecisionSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const payload = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const order = await decideReplenishmentOrderApproval({
+			id,
+			input: payload,
+			user,
+			scope: c.get('warehouseScope'),
+		});
+
+		return c.json(
+			{
+				success: true,
+				message:
+					payload.decision === 'approve'
+						? 'Replenishment order approved successfully'
+						: 'Replenishment order rejected successfully',
+				data: order,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
 .get(
 	'/:id',
+	requirePermission('replenishment.view'),
 	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
 	async (c) => {
 		const { id } = c.req.valid('param');
@@ -238,8 +411,27 @@ const replenishmentOrdersRoutes = new Hono<ApiEnv>()
 		);
 	},
 )
+.get(
+	'/:id/picking-sheet',
+	requirePermission('replenishment.view'),
+	warehouseScope(),
+	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const sheet = await getPickingSheet({ orderId: id, scope: c.get('warehouseScope') });
+
+		c.header('Content-Type', 'application/pdf');
+		c.header(
+			'Content-Disposition',
+			`inline; filename="${documentFileName('surtido', sheet.orderNumber)}"`,
+		);
+		return c.body(new Uint8Array(renderPickingSheetPdf(sheet)));
+	},
+)
 .patch(
 	'/:id/link-transfer',
+	requirePermission('replenishment.manage'),
 	zValidator('param', z.object({ id: z.string().uuid('Invalid order ID') })),
 	zValidator('json', replenishmentOrderLinkTransferSchema),
 	async (c) => {
@@ -8,6 +8,15 @@ import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import { handleDatabaseError, logErrorDetails } from '../../lib/api-response';
 import type { ApiResponse } from '../../lib/api-response';
+import { recordAuditLog } from '../../lib/audit-log';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import { listUsageLimitAlerts } from '../../lib/usage-limits';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+} from '../../lib/warehouse-scope';
 
 const stockLimitCreateSchema = z
 	.object({
@@ -136,127 +145,134 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
  /**
  * - 'usage': Limits based on number of times a product has been used (minUsage/maxUsage)
  /**
- * Requires authenticated user with role 'encargado'.
+ * Requires the `stock_limits.manage` permission.
  */
-.post('/', zValidator('json', stockLimitCreateSchema), async (c) => {
-	const user = c.get('user');
-	if (!user) {
-		return c.json(
-			{
-				success: false,
-				message: 'Authentication required',
-			} satisfies ApiResponse,
-			401,
-		);
-	}
+.post(
+	'/',
+	requirePermission('stock_limits.manage'),
+	zValidator('json', stockLimitCreateSchema),
+	async (c) => {
+		const user = c.get('user');
+		if (!user) {
+			return c.json(
+				{
+					success: false,
+					message: 'Authentication required',
+				} satisfies ApiResponse,
+				401,
+			);
+		}
 
-	if (user.role !== 'encargado') {
-		return c.json(
-			{
-				success: false,
-				message: 'Forbidden - insufficient permissions',
-			} satisfies ApiResponse,
-			403,
-		);
-	}
+		const payload = c.req.valid('json');
 
-	const payload = c.req.valid('json');
+		try {
+			// Build values object based on limit type
+			const limitType = payload.limitType ?? 'quantity';
+			const insertValues =
+				limitType === 'usage'
+					? {
+							warehouseId: payload.warehouseId,
+							barcode: payload.barcode,
+							limitType: 'usage' as const,
+							minUsage: payload.minUsage,
+							maxUsage: payload.maxUsage,
+							minQuantity: 0,
+							maxQuantity: 0,
+							notes: payload.notes,
+							createdBy: user.id,
+							createdAt: new Date(),
+							updatedAt: new Date(),
+						}
+					: {
+							warehouseId: payload.warehouseId,
+							barcode: payload.barcode,
+							limitType: 'quantity' as const,
+							minQuantity: payload.minQuantity ?? 0,
+							maxQuantity: payload.maxQuantity ?? 0,
+							minUsage: null,
+							maxUsage: null,
+							notes: payload.notes,
+							createdBy: user.id,
+							createdAt: new Date(),
+							updatedAt: new Date(),
+						};
+
+			const created = await db.transaction(async (tx) => {
+				const [inserted] = await tx.insert(schemas.stockLimit).values(insertValues).returning();
+				if (inserted) {
+					await recordAuditLog(tx, {
+						actor: user as SessionUser,
+						entityType: 'stock_limit',
+						entityId: inserted.id,
+						action: 'create',
+						after: inserted,
+					});
+				}
+				return inserted;
+			});
+
+			if (!created) {
+				return c.json(
+					{
+						success: false,
+						message: 'Failed to create stock limit',
+					} satisfies ApiResponse,
+					500,
+				);
+			}
 
-	try {
-		// Build values object based on limit type
-		const limitType = payload.limitType ?? 'quantity';
-		const insertValues =
-			limitType === 'usage'
-				? {
-						warehouseId: payload.warehouseId,
-						barcode: payload.barcode,
-						limitType: 'usage' as const,
-						minUsage: payload.minUsage,
-						maxUsage: payload.maxUsage,
-						minQuantity: 0,
-						maxQuantity: 0,
-						notes: payload.notes,
-						createdBy: user.id,
-						createdAt: new Date(),
-						updatedAt: new Date(),
-					}
-				: {
-						warehouseId: payload.warehouseId,
-						barcode: payload.barcode,
-						limitType: 'quantity' as const,
-						minQuantity: payload.minQuantity ?? 0,
-						maxQuantity: payload.maxQuantity ?? 0,
-						minUsage: null,
-						maxUsage: null,
-						notes: payload.notes,
-						createdBy: user.id,
-						createdAt: new Date(),
-						updatedAt: new Date(),
-					};
-
-		const [created] = await db.insert(schemas.stockLimit).values(insertValues).returning();
-
-		if (!created) {
 			return c.json(
 				{
-					success: false,
-					message: 'Failed to create stock limit',
+					success: true,
+					message: 'Stock limit created successfully',
+					data: created,
 				} satisfies ApiResponse,
-				500,
+				201,
 			);
-		}
+		} catch (error) {
+			const normalizedError = error instanceof Error ? error : new Error(String(error));
+			const dbError = handleDatabaseError(normalizedError);
 
-		return c.json(
-			{
-				success: true,
-				message: 'Stock limit created successfully',
-				data: created,
-			} satisfies ApiResponse,
-			201,
-		);
-	} catch (error) {
-		const normalizedError = error instanceof Error ? error : new Error(String(error));
-		const dbError = handleDatabaseError(normalizedError);
+			if (dbError) {
+				if (dbError.status === 409) {
+					const isDuplicate =
+						typeof dbError.response.message === 'string' &&
+						dbError.response.message.toLowerCase().includes('duplicate');
 
-		if (dbError) {
-			if (dbError.status === 409) {
-				const isDuplicate =
-					typeof dbError.response.message === 'string' &&
-					dbError.response.message.toLowerCase().includes('duplicate');
+					if (isDuplicate) {
+						return c.json(
+							{
+								success: false,
+								message:
+									'Stock limit already exists for this warehouse and barcode',
+							} satisfies ApiResponse,
+							409,
+						);
+					}
 
-				if (isDuplicate) {
 					return c.json(
 						{
 							success: false,
-							message:
-								'Stock limit already exists for this warehouse and barcode',
+							message: 'Invalid warehouse or user reference for stock limit',
 						} satisfies ApiResponse,
 						409,
 					);
 				}
 
-				return c.json(
-					{
-						success: false,
-						message: 'Invalid warehouse or user reference for stock limit',
-					} satisfies ApiResponse,
-					409,
-				);
+				return c.json(dbError.response, dbError.status as 400 | 500);
 			}
 
-			return c.json(dbError.response, dbError.status as 400 | 500);
+			logErrorDetails(normalizedError, 'POST', '/');
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to create stock limit',
+				} satisfies ApiResponse,
+				500,
+			);
 		}
-
-		logErrorDetails(normalizedError, 'POST', '/');
-		return c.json(
-			{
-				success: false,
-				message: 'Failed to create stock limit',
-			} satisfies ApiResponse,
-			500,
-		);
-	}
-})
+	},
+)
 /**
  * PUT /:warehouseId/:barcode - Update an existing stock limit
  *
@@ -264,10 +280,11 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
  * Supports both limit types:
  * - 'quantity': Updates minQuantity/maxQuantity
  * - 'usage': Updates minUsage/maxUsage
- * Requires authenticated user with role 'encargado'.
+ * Requires the `stock_limits.manage` permission.
  */
 .put(
 	'/:warehouseId/:barcode',
+	requirePermission('stock_limits.manage'),
 	zValidator(
 		'param',
 		z.object({
@@ -291,16 +308,6 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
 			);
 		}
 
-		if (user.role !== 'encargado') {
-			return c.json(
-				{
-					success: false,
-					message: 'Forbidden - insufficient permissions',
-				} satisfies ApiResponse,
-				403,
-			);
-		}
-
 		const { warehouseId, barcode } = c.req.valid('param');
 		const payload = c.req.valid('json');
 
@@ -468,16 +475,29 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
 				updateValues.notes = payload.notes;
 			}
 
-			const [updated] = await db
-				.update(schemas.stockLimit)
-				.set(updateValues)
-				.where(
-					and(
-						eq(schemas.stockLimit.warehouseId, warehouseId),
-						eq(schemas.stockLimit.barcode, barcode),
-					),
-				)
-				.returning();
+			const updated = await db.transaction(async (tx) => {
+				const [row] = await tx
+					.update(schemas.stockLimit)
+					.set(updateValues)
+					.where(
+						and(
+							eq(schemas.stockLimit.warehouseId, warehouseId),
+							eq(schemas.stockLimit.barcode, barcode),
+						),
+					)
+					.returning();
+				if (row) {
+					await recordAuditLog(tx, {
+						actor: user as SessionUser,
+						entityType: 'stock_limit',
+						entityId: row.id,
+						action: 'update',
+						before: current,
+						after: row,
+					});
+				}
+				return row;
+			});
 
 			if (!updated) {
 				return c.json(
@@ -520,7 +540,7 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
  *
  * Returns all configured stock limits across warehouses. Requires an authenticated session.
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('stock_limits.view'), async (c) => {
 	try {
 		const limits = await db.select().from(schemas.stockLimit);
 
@@ -552,6 +572,7 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-warehouse',
+	requirePermission('stock_limits.view'),
 	zValidator(
 		'query',
 		z.object({
@@ -588,6 +609,66 @@ const stockLimitsRoutes = new Hono<ApiEnv>()
 			);
 		}
 	},
+)
+/**
+ * GET /usage-alerts - List units close to their usage limit ("por agotarse")
+ *
+ * Returns the units whose use count reached the `minUsage` of their usage limit, closest to
+ * `maxUsage` first. Units at `maxUsage` are still checked out and get retired on return.
+ * Users without global warehouse scope only see their own warehouse.
+ *
+ * @param {string} warehouseId - Optional warehouse filter
+ */
+.get(
+	'/usage-alerts',
+	requirePermission('stock_limits.view'),
+	warehouseScope(),
+	zValidator(
+		'query',
+		z.object({
+			warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
+		}),
+	),
+	async (c) => {
+		const { warehouseId } = c.req.valid('query');
+		const scope = c.get('warehouseScope');
+
+		if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+			return c.json(
+				{
+					success: false,
+					message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		try {
+			const alerts = await listUsageLimitAlerts(
+				scope.global ? warehouseId : scope.warehouseId,
+			);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Usage limit alerts fetched successfully',
+					data: alerts,
+				} satisfies ApiResponse,
+				200,
+			);
+		} catch (error) {
+			const normalizedError = error instanceof Error ? error : new Error(String(error));
+			logErrorDetails(normalizedError, 'GET', '/usage-alerts');
+
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to fetch usage limit alerts',
+				} satisfies ApiResponse,
+				500,
+			);
+		}
+	},
 );
 export { stockLimitsRoutes };
 
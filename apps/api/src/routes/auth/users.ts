@@ -7,6 +7,9 @@ import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import { recordAuditLog } from '../../lib/audit-log';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
 
 const usersRoutes = new Hono<ApiEnv>()
 /**
@@ -57,6 +60,7 @@ const usersRoutes = new Hono<ApiEnv>()
  */
 .post(
 	'/update',
+	requirePermission('users.manage'),
 	zValidator(
 		'json',
 		z.object({
@@ -105,12 +109,34 @@ const usersRoutes = new Hono<ApiEnv>()
 				updateValues.warehouseId = warehouseId;
 			}
 
-			// Perform the database update and return the updated user record
-			const updatedUser = await db
-				.update(schemas.user)
-				.set(updateValues)
-				.where(eq(schemas.user.id, userId))
-				.returning();
+			// Perform the database update and record the change in the audit log
+			const actor = c.get('user') as SessionUser | null;
+			const updatedUser = await db.transaction(async (tx) => {
+				const [before] = await tx
+					.select()
+					.from(schemas.user)
+					.where(eq(schemas.user.id, userId))
+					.for('update');
+				if (!before) {
+					return [];
+				}
+
+				const updated = await tx
+					.update(schemas.user)
+					.set(updateValues)
+					.where(eq(schemas.user.id, userId))
+					.returning();
+
+				await recordAuditLog(tx, {
+					actor,
+					entityType: 'user',
+					entityId: userId,
+					action: 'update',
+					before,
+					after: updated[0],
+				});
+				return updated;
+			});
 
 			// Check if user was found and updated
 			if (updatedUser.length === 0) {
@@ -195,7 +221,7 @@ const usersRoutes = new Hono<ApiEnv>()
  *   ]
  * }
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('users.view'), async (c) => {
 	try {
 		// Query the user table and select only id, name, and email fields
 		const users = await db
@@ -1,83 +1,95 @@
 /** biome-ignore-all lint/performance/noNamespaceImport: Required for zod */
 import { zValidator } from '@hono/zod-validator';
-import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { and, desc, eq, gte, ilike, inArray, isNull, lte, type SQL, sql } from 'drizzle-orm';
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
-import { replicateWarehouseTransferToAltegio } from '../../lib/altegio-service';
+import {
+	type AltegioOutboxJob,
+	enqueueAltegioOutboxJob,
+	processAltegioOutboxJob,
+} from '../../lib/altegio-outbox';
 import type { ApiResponse } from '../../lib/api-response';
+import {
+	decideTransferApproval,
+	initialApprovalStatus,
+	isApprovalCleared,
+} from '../../lib/approvals';
+import { recordAuditLog } from '../../lib/audit-log';
+import { publishDomainEvent, publishStockChanged } from '../../lib/domain-events';
+import { idempotency } from '../../lib/idempotency';
+import { roundMoney, shrinkageUnitCost } from '../../lib/inventory-valuation';
+import {
+	decodeListCursor,
+	listCursorCondition,
+	listOrderBy,
+	listPaginationQuerySchema,
+	parseListDateRange,
+	parseListSort,
+	toListPage,
+	withListLimit,
+} from '../../lib/list-pagination';
+import { hasPermission, requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import {
+	documentFileName,
+	getTransferManifest,
+	renderTransferManifestPdf,
+} from '../../lib/shipping-documents';
+import {
+	getTransferDiscrepancyReport,
+	resolveTransferDiscrepancies,
+	sendTransferDiscrepancyReport,
+} from '../../lib/transfer-discrepancies';
+import {
+	releaseTransferUnits,
+	transferStatusFromFlags,
+	transferStatusValues,
+	transferTransitionError,
+	transitionTransfer,
+} from '../../lib/transfer-status';
+import {
+	canAccessWarehouse,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+	warehouseScopeCondition,
+} from '../../lib/warehouse-scope';
+import { enqueueShrinkageRecordedWebhook, enqueueWebhookEvent } from '../../lib/webhooks';
+import {
+	type TransferStatus,
+	transferApprovalDecisionSchema,
+	transferDiscrepancyQuerySchema,
+	transferDiscrepancyResolveSchema,
+	transferStatuses,
+	transferTransitionSchema,
+} from '../../types';
 
 function isTransferTypeInternal(transferType: string): boolean {
 	return transferType === 'internal';
 }
 
-/**
- * Helper function to validate warehouse transfer status logic
- * Separated to reduce cognitive complexity in the main endpoint
- */
-function validateTransferStatusLogic(
-	isCompleted?: boolean,
-	isPending?: boolean,
-	isCancelled?: boolean,
-): ApiResponse | null {
-	// Transfer cannot be both completed and cancelled
-	if (isCompleted === true && isCancelled === true) {
-		return {
-			success: false,
-			message: 'Transfer cannot be both completed and cancelled',
-		};
-	}
-
-	// Completed transfers should not be pending
-	if (isCompleted === true && isPending === true) {
-		return {
-			success: false,
-			message: 'Completed transfers cannot be pending',
-		};
-	}
-
-	return null; // No validation errors
-}
-
 /**
  * Helper function to build warehouse transfer update values
  * Separated to reduce cognitive complexity in the main endpoint
  */
 function buildTransferUpdateValues(
-	isCompleted?: boolean,
-	isPending?: boolean,
-	isCancelled?: boolean,
-	completedByUserId?: string,
+	targetStatus: TransferStatus | null,
+	isPending: boolean | undefined,
+	userId: string,
 	notes?: string,
 ): Record<string, unknown> {
-	const updateValues: Record<string, unknown> = {
-		updatedAt: new Date(),
-	};
-
-	if (isCompleted !== undefined) {
-		updateValues.isCompleted = isCompleted;
-		// If marking as completed, set completion date and other fields
-		if (isCompleted) {
-			updateValues.completedDate = new Date();
-			updateValues.isPending = false;
-			updateValues.completedBy = completedByUserId;
-		}
-	}
+	const now = new Date();
+	const updateValues: Record<string, unknown> = targetStatus
+		? transferStatusValues(targetStatus, userId, now)
+		: { updatedAt: now };
 
-	if (isPending !== undefined) {
+	// Without a state change, isPending only marks a partially received transfer
+	if (!targetStatus && isPending !== undefined) {
 		updateValues.isPending = isPending;
 	}
 
-	if (isCancelled !== undefined) {
-		updateValues.isCancelled = isCancelled;
-		// If marking as cancelled, it should not be pending
-		if (isCancelled) {
-			updateValues.isPending = false;
-		}
-	}
-
 	if (notes !== undefined) {
 		updateValues.notes = notes;
 	}
@@ -96,45 +108,156 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 /**
  * GET /all - Retrieve all warehouse transfers
  *
- * This endpoint fetches all warehouse transfer records from the database with
- * their associated source and destination warehouse information.
+ * This endpoint fetches the warehouse transfer records visible in the user's warehouse scope.
  * Returns comprehensive transfer data including status, timing, and metadata.
  *
- * @returns {ApiResponse} Success response with warehouse transfers data from DB
+ * Query params (all optional):
+ * - limit / cursor: keyset pagination; without `limit` every match is returned
+ * - sort: `createdAt`, `transferDate` or `transferNumber`, prefix `-` for descending
+ *   (default `-createdAt`)
+ * - transferType, status (`pending`, `completed`, `awaiting_approval` or a state of the
+ *   transfer state machine, e.g. `in_transit`), q (transfer number search),
+ *   start / end (transfer date)
+ *
+ * @returns {ApiResponse} Success response with warehouse transfers data from DB, with `meta[0].nextCursor`
+ * @throws {400} If the cursor or the date range is invalid
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
-	try {
-		// Query warehouse transfers with basic information - simplified query due to join complexity
-		const warehouseTransfers = await db
-			.select()
-			.from(schemas.warehouseTransfer)
-			.orderBy(desc(schemas.warehouseTransfer.createdAt));
+.get(
+	'/all',
+	requirePermission('transfers.view'),
+	warehouseScope(),
+	zValidator(
+		'query',
+		listPaginationQuerySchema.extend({
+			sort: z
+				.enum([
+					'createdAt',
+					'-createdAt',
+					'transferDate',
+					'-transferDate',
+					'transferNumber',
+					'-transferNumber',
+				])
+				.default('-createdAt'),
+			transferType: z.enum(['internal', 'external']).optional(),
+			status: z
+				.enum(['pending', 'completed', 'awaiting_approval', ...transferStatuses])
+				.optional(),
+			q: z.string().trim().min(1).optional(),
+		}),
+	),
+	async (c) => {
+		try {
+			const query = c.req.valid('query');
+			const range = parseListDateRange(query);
+			if (!range) {
+				return c.json(
+					{
+						success: false,
+						message: 'Invalid date range',
+					} satisfies ApiResponse,
+					400,
+				);
+			}
 
-		return c.json(
-			{
-				success: true,
-				message:
-					warehouseTransfers.length > 0
-						? 'Warehouse transfers retrieved successfully'
-						: 'No warehouse transfers found',
-				data: warehouseTransfers,
-			} satisfies ApiResponse,
-			200,
-		);
-	} catch (error) {
-		// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
-		console.error('Error fetching warehouse transfers:', error);
+			const { field, direction } = parseListSort(query.sort);
+			const sortColumn = schemas.warehouseTransfer[field];
+			const conditions: SQL[] = [];
+			if (query.cursor) {
+				const cursorId = decodeListCursor(query.cursor, query.sort);
+				if (!cursorId) {
+					return c.json(
+						{
+							success: false,
+							message: 'Invalid cursor',
+						} satisfies ApiResponse,
+						400,
+					);
+				}
+				conditions.push(
+					listCursorCondition({
+						table: schemas.warehouseTransfer,
+						idColumn: schemas.warehouseTransfer.id,
+						sortColumn,
+						direction,
+						cursorId,
+					}),
+				);
+			}
+			if (query.transferType) {
+				conditions.push(eq(schemas.warehouseTransfer.transferType, query.transferType));
+			}
+			if (query.status === 'pending') {
+				conditions.push(eq(schemas.warehouseTransfer.isPending, true));
+			} else if (query.status === 'completed') {
+				conditions.push(eq(schemas.warehouseTransfer.isCompleted, true));
+			} else if (query.status === 'awaiting_approval') {
+				conditions.push(eq(schemas.warehouseTransfer.approvalStatus, 'awaiting_approval'));
+			} else if (query.status) {
+				conditions.push(eq(schemas.warehouseTransfer.status, query.status));
+			}
+			if (query.q) {
+				conditions.push(ilike(schemas.warehouseTransfer.transferNumber, `%${query.q}%`));
+			}
+			if (range.start) {
+				conditions.push(gte(schemas.warehouseTransfer.transferDate, range.start));
+			}
+			if (range.end) {
+				conditions.push(lte(schemas.warehouseTransfer.transferDate, range.end));
+			}
 
-		return c.json(
-			{
-				success: false,
-				message: 'Failed to fetch warehouse transfers',
-			} satisfies ApiResponse,
-			500,
-		);
-	}
-})
+			// Query warehouse transfers with basic information - simplified query due to join complexity
+			const warehouseTransferRows = await withListLimit(
+				db
+					.select()
+					.from(schemas.warehouseTransfer)
+					.where(
+						and(
+							warehouseScopeCondition(
+								c.get('warehouseScope'),
+								schemas.warehouseTransfer.sourceWarehouseId,
+								schemas.warehouseTransfer.destinationWarehouseId,
+							),
+							...conditions,
+						),
+					)
+					.orderBy(...listOrderBy(sortColumn, schemas.warehouseTransfer.id, direction))
+					.$dynamic(),
+				query.limit,
+			);
+			const { items: warehouseTransfers, nextCursor } = toListPage(warehouseTransferRows, {
+				limit: query.limit,
+				sort: query.sort,
+				getId: (row) => row.id,
+			});
+
+			return c.json(
+				{
+					success: true,
+					message:
+						warehouseTransfers.length > 0
+							? 'Warehouse transfers retrieved successfully'
+							: 'No warehouse transfers found',
+					data: warehouseTransfers,
+					meta: [{ nextCursor }],
+				} satisfies ApiResponse,
+				200,
+			);
+		} catch (error) {
+			// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging database connectivity issues
+			console.error('Error fetching warehouse transfers:', error);
+
+			return c.json(
+				{
+					success: false,
+					message: 'Failed to fetch warehouse transfers',
+				} satisfies ApiResponse,
+				500,
+			);
+		}
+	},
+)
 
 /**
  * GET /by-warehouse - Retrieve all warehouse transfers by warehouse ID
@@ -150,11 +273,23 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/by-warehouse',
+	requirePermission('transfers.view'),
+	warehouseScope(),
 	zValidator('query', z.object({ warehouseId: z.string('Invalid warehouse ID') })),
 	async (c) => {
 		try {
 			const { warehouseId } = c.req.valid('query');
 
+			if (!canAccessWarehouse(c.get('warehouseScope'), warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query warehouse transfers with basic information - simplified query due to join complexity
 			const warehouseTransfers = await db
 				.select()
@@ -202,11 +337,23 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/external',
+	requirePermission('transfers.view'),
+	warehouseScope(),
 	zValidator('query', z.object({ warehouseId: z.string('Invalid warehouse ID') })),
 	async (c) => {
 		try {
 			const { warehouseId } = c.req.valid('query');
 
+			if (!canAccessWarehouse(c.get('warehouseScope'), warehouseId)) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query external warehouse transfers where the specified warehouse is the destination
 			const warehouseTransfers = await db
 				.select()
@@ -265,6 +412,8 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/details',
+	requirePermission('transfers.view'),
+	warehouseScope(),
 	zValidator('query', z.object({ transferId: z.string('Invalid transfer ID') })),
 	async (c) => {
 		try {
@@ -287,6 +436,22 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (
+				!canAccessWarehouse(
+					c.get('warehouseScope'),
+					transfer[0].sourceWarehouseId,
+					transfer[0].destinationWarehouseId,
+				)
+			) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query the transfer details with product stock information
 			const transferDetails = await db
 				.select({
@@ -377,6 +542,8 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  */
 .post(
 	'/create',
+	requirePermission('transfers.create'),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -494,6 +661,14 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 						isCompleted: isTransferTypeInternal(transferType),
 						isPending: false,
 						isCancelled: false,
+						// Internal moves happen at once; external transfers start as drafts to pick
+						...(isTransferTypeInternal(transferType) &&
+							transferStatusValues('closed', c.get('user')?.id ?? null, new Date())),
+						// Internal transfers stay inside one warehouse and never need approval
+						approvalStatus:
+							transferType === 'external'
+								? await initialApprovalStatus(tx, destinationWarehouseId)
+								: 'not_required',
 					})
 					.returning();
 
@@ -518,6 +693,28 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 					)
 					.returning();
 
+				// Units without a cost keep the cost per unit sent for the Altegio replication
+				const unitIdsByCost = new Map<number, string[]>();
+				for (const detail of transferDetails) {
+					if (detail.costPerUnit > 0) {
+						const unitIds = unitIdsByCost.get(detail.costPerUnit) ?? [];
+						unitIds.push(detail.productStockId);
+						unitIdsByCost.set(detail.costPerUnit, unitIds);
+					}
+				}
+				for (const [costPerUnit, unitIds] of unitIdsByCost) {
+					// biome-ignore lint: One update per distinct cost inside the transaction
+					await tx
+						.update(schemas.productStock)
+						.set({ unitCost: roundMoney(costPerUnit) })
+						.where(
+							and(
+								inArray(schemas.productStock.id, unitIds),
+								isNull(schemas.productStock.unitCost),
+							),
+						);
+				}
+
 				// If internal transfer, immediately move the involved product stock to/from the cabinet
 				if (transferType === 'internal' && productStockIds.length > 0) {
 					if (isCabinetToWarehouse) {
@@ -584,6 +781,18 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				};
 			});
 
+			publishDomainEvent({
+				type: 'transfer.created',
+				warehouseIds: [result.transfer.sourceWarehouseId, result.transfer.destinationWarehouseId],
+				data: { transferId: result.transfer.id },
+			});
+			if (transferType === 'internal') {
+				publishStockChanged(
+					productStockIds.map((id) => ({ id, currentWarehouse: sourceWarehouseId })),
+					'transfer',
+				);
+			}
+
 			return c.json(
 				{
 					success: true,
@@ -646,7 +855,9 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  *
  * Updates the status of a warehouse transfer including completion status,
  * completion date, and the employee who completed the transfer.
- * This endpoint is used when marking transfers as completed or cancelled.
+ * This endpoint is used when marking transfers as completed or cancelled: `isCompleted`
+ * moves the transfer to `received` (only from `in_transit`) and `isCancelled` to
+ * `cancelled`, following the state machine in `lib/transfer-status.ts`.
  *
  * @param {string} transferId - UUID of the warehouse transfer to update
  * @param {boolean} isCompleted - Whether the transfer is completed
@@ -658,11 +869,18 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  /**
  * @returns {ApiResponse} Success response with updated warehouse transfer data
  * @throws {400} Validation error if input data is invalid
+ * @throws {403} If the acting warehouse (destination to receive, source to cancel, either for
+ * notes) is outside the user's scope
  * @throws {404} If warehouse transfer not found
+ * @throws {409} If the transfer is completed, the state machine does not allow the move, or
+ * the transfer is awaiting approval or rejected and `isCompleted` is sent
  * @throws {500} Database error if update fails
  */
 .post(
 	'/update-status',
+	requirePermission('transfers.complete'),
+	warehouseScope(),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -710,20 +928,24 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 					altegioTotals,
 				} = c.req.valid('json');
 
-				// Validate business logic constraints
-				const validationError = validateTransferStatusLogic(
-					isCompleted,
-					isPending,
-					isCancelled,
-				);
-				if (validationError) {
-					return c.json(validationError, 400);
+				// The flags map onto the state machine: isCompleted receives, isCancelled cancels
+				const target = transferStatusFromFlags({ isCompleted, isPending, isCancelled });
+				if ('error' in target) {
+					return c.json(
+						{
+							success: false,
+							message: target.error,
+						} satisfies ApiResponse,
+						400,
+					);
 				}
 
 				const existingTransfer = await db
 					.select({
 						id: schemas.warehouseTransfer.id,
 						isCompleted: schemas.warehouseTransfer.isCompleted,
+						status: schemas.warehouseTransfer.status,
+						approvalStatus: schemas.warehouseTransfer.approvalStatus,
 						transferType: schemas.warehouseTransfer.transferType,
 						sourceWarehouseId: schemas.warehouseTransfer.sourceWarehouseId,
 						destinationWarehouseId:
@@ -744,6 +966,22 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				}
 
 				const transfer = existingTransfer[0];
+				let actingWarehouseIds = [transfer.sourceWarehouseId, transfer.destinationWarehouseId];
+				if (target.status === 'received') {
+					actingWarehouseIds = [transfer.destinationWarehouseId];
+				} else if (target.status === 'cancelled') {
+					actingWarehouseIds = [transfer.sourceWarehouseId];
+				}
+				if (!canAccessWarehouse(c.get('warehouseScope'), ...actingWarehouseIds)) {
+					return c.json(
+						{
+							success: false,
+							message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+						} satisfies ApiResponse,
+						403,
+					);
+				}
+
 				const isStatusFlagMutation =
 					isCompleted !== undefined ||
 					isPending !== undefined ||
@@ -760,10 +998,32 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 					);
 				}
 
+				if (isCompleted === true && !isApprovalCleared(transfer.approvalStatus)) {
+					return c.json(
+						{
+							success: false,
+							message: 'Transfer must be approved before it is completed',
+						} satisfies ApiResponse,
+						409,
+					);
+				}
+
+				const transitionError =
+					target.status && transferTransitionError(transfer.status, target.status);
+				if (transitionError) {
+					return c.json(
+						{
+							success: false,
+							message: transitionError,
+						} satisfies ApiResponse,
+						409,
+					);
+				}
+
 				if (
 					transfer.transferType === 'external' &&
 					isCompleted === true &&
-					sessionUser.role !== 'admin' &&
+					!(await hasPermission(sessionUser, 'transfers.receive_any')) &&
 					(!sessionUser.warehouseId ||
 						sessionUser.warehouseId !== transfer.destinationWarehouseId)
 				) {
@@ -907,14 +1167,19 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				}
 
 				const updateValues = buildTransferUpdateValues(
-					isCompleted,
+					target.status,
 					isPending,
-					isCancelled,
 					sessionUser.id,
 					notes,
 				);
 
 				const txResult = await db.transaction(async (tx) => {
+					const [transferBefore] = await tx
+						.select()
+						.from(schemas.warehouseTransfer)
+						.where(eq(schemas.warehouseTransfer.id, transferId))
+						.for('update');
+
 					const updatedTransferRows = await tx
 						.update(schemas.warehouseTransfer)
 						.set(updateValues)
@@ -926,8 +1191,18 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 						return { type: 'not_found' as const };
 					}
 
+					await recordAuditLog(tx, {
+						actor: sessionUser as SessionUser,
+						entityType: 'warehouse_transfer',
+						entityId: transferId,
+						action: isStatusFlagMutation ? 'status_change' : 'update',
+						before: transferBefore,
+						after: transferRow,
+					});
+
 					const transitionedToCompleted =
 						transfer.isCompleted === false && transferRow.isCompleted === true;
+					let missingProductStockIds: string[] = [];
 
 					if (
 						transitionedToCompleted &&
@@ -951,10 +1226,19 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 									schemas.warehouseTransferDetails.productStockId,
 								),
 							)
+							// Items with a discrepancy outcome were already turned into a movement
+							.leftJoin(
+								schemas.warehouseTransferDiscrepancy,
+								eq(
+									schemas.warehouseTransferDiscrepancy.transferDetailId,
+									schemas.warehouseTransferDetails.id,
+								),
+							)
 							.where(
 								and(
 									eq(schemas.warehouseTransferDetails.transferId, transferId),
 									eq(schemas.warehouseTransferDetails.isReceived, false),
+									isNull(schemas.warehouseTransferDiscrepancy.id),
 								),
 							);
 
@@ -962,6 +1246,7 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 							(detail) => !(detail.productIsDeleted || detail.productIsEmpty),
 						);
 
+						missingProductStockIds = detailsToConvert.map((detail) => detail.productStockId);
 						if (detailsToConvert.length > 0) {
 							await tx
 								.update(schemas.productStock)
@@ -976,29 +1261,77 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 									),
 								);
 
-							await tx.insert(schemas.inventoryShrinkageEvent).values(
-								detailsToConvert.map((detail) => ({
-									source: 'transfer_missing',
-									reason: 'otro',
-									quantity: detail.quantityTransferred,
-									notes: `Faltante al completar transferencia ${transferRow.transferNumber}`,
-									warehouseId: transferRow.destinationWarehouseId,
-									productStockId: detail.productStockId,
-									productBarcode: detail.productBarcode,
-									productDescription: detail.productDescription,
-									transferId: transferRow.id,
-									transferNumber: transferRow.transferNumber,
-									sourceWarehouseId: transferRow.sourceWarehouseId,
-									destinationWarehouseId: transferRow.destinationWarehouseId,
-									createdByUserId: sessionUser.id,
-								})),
-							).onConflictDoNothing();
+							const missingEvents = await tx
+								.insert(schemas.inventoryShrinkageEvent)
+								.values(
+									detailsToConvert.map((detail) => ({
+										source: 'transfer_missing',
+										reason: 'otro',
+										quantity: detail.quantityTransferred,
+										notes: `Faltante al completar transferencia ${transferRow.transferNumber}`,
+										warehouseId: transferRow.destinationWarehouseId,
+										productStockId: detail.productStockId,
+										productBarcode: detail.productBarcode,
+										productDescription: detail.productDescription,
+										unitCost: shrinkageUnitCost(detail.productStockId, detail.productBarcode),
+										transferId: transferRow.id,
+										transferNumber: transferRow.transferNumber,
+										sourceWarehouseId: transferRow.sourceWarehouseId,
+										destinationWarehouseId: transferRow.destinationWarehouseId,
+										createdByUserId: sessionUser.id,
+									})),
+								)
+								.onConflictDoNothing()
+								.returning();
+							await enqueueShrinkageRecordedWebhook(tx, missingEvents);
 						}
 					}
 
+					// Received or cancelled goods are no longer travelling
+					const releasedUnitIds =
+						target.status === 'received' || target.status === 'cancelled'
+							? await releaseTransferUnits(tx, transferId)
+							: [];
+
+					if (transitionedToCompleted) {
+						await enqueueWebhookEvent(tx, {
+							type: 'transfer.completed',
+							data: {
+								transferId: transferRow.id,
+								transferNumber: transferRow.transferNumber,
+								transferType: transferRow.transferType,
+								sourceWarehouseId: transferRow.sourceWarehouseId,
+								destinationWarehouseId: transferRow.destinationWarehouseId,
+								totalItems: transferRow.totalItems,
+								completedDate: transferRow.completedDate?.toISOString() ?? null,
+								completedBy: transferRow.completedBy,
+								missingProductStockIds,
+							},
+						});
+					}
+
+					// Persist the Altegio replication job with the completion so it can never be lost
+					let outboxJob: AltegioOutboxJob | null = null;
+					if (shouldReplicateToAltegio && transitionedToCompleted && replicationTotals) {
+						outboxJob = await enqueueAltegioOutboxJob(tx, {
+							kind: 'warehouse_transfer',
+							payload: {
+								transferId: transferRow.id,
+								transferNumber: transferRow.transferNumber,
+								sourceWarehouseId: transferRow.sourceWarehouseId,
+								destinationWarehouseId: transferRow.destinationWarehouseId,
+								altegioTotals: replicationTotals,
+							},
+							createdByUserId: sessionUser.id,
+						});
+					}
+
 					return {
 						type: 'ok' as const,
 						transferRow,
+						outboxJob,
+						missingProductStockIds,
+						releasedUnitIds,
 						transitionedToCompleted,
 					};
 				});
@@ -1014,91 +1347,101 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				}
 
 				const transferRow = txResult.transferRow;
-				const transitionedToCompleted = txResult.transitionedToCompleted;
-
-				// After successful status update, optionally replicate to Altegio when completed
-				if (shouldReplicateToAltegio && transitionedToCompleted) {
-					const authHeader = process.env.AUTH_HEADER;
-				const acceptHeader = process.env.ACCEPT_HEADER;
-
-				if (!(authHeader && acceptHeader)) {
-					// biome-ignore lint/suspicious/noConsole: Environment variable validation logging is essential
-					console.error('Missing required authentication configuration');
-					return c.json(
-						{
-							success: false,
-							message: 'Missing required authentication configuration',
-						} satisfies ApiResponse,
-						400,
-					);
+				const transferWarehouseIds = [
+					transferRow.sourceWarehouseId,
+					transferRow.destinationWarehouseId,
+				];
+				if (isStatusFlagMutation) {
+					let status: 'pending' | 'completed' | 'cancelled' = 'pending';
+					if (transferRow.isCancelled) {
+						status = 'cancelled';
+					} else if (transferRow.isCompleted) {
+						status = 'completed';
+					}
+					publishDomainEvent({
+						type: 'transfer.status_changed',
+						warehouseIds: transferWarehouseIds,
+						data: {
+							transferId: transferRow.id,
+							status,
+							transferStatus: transferRow.status as TransferStatus,
+						},
+					});
 				}
-
-				if (!replicationTotals) {
-					return c.json(
-						{
-							success: false,
-							message: 'Missing validated received totals for Altegio sync',
-						} satisfies ApiResponse,
-						400,
+				publishStockChanged(
+					txResult.missingProductStockIds.map((id) => ({
+						id,
+						currentWarehouse: transferRow.destinationWarehouseId,
+					})),
+					'transfer',
+					[transferRow.sourceWarehouseId],
+				);
+				if (transferRow.isCancelled) {
+					publishStockChanged(
+						txResult.releasedUnitIds.map((id) => ({
+							id,
+							currentWarehouse: transferRow.sourceWarehouseId,
+						})),
+						'transfer',
 					);
 				}
 
-				// biome-ignore lint/suspicious/noConsole: Logging provides replication visibility
-				console.log('Altegio transfer replication started', {
-					transferId: transferRow.id,
-					transferNumber: transferRow.transferNumber,
-					sourceWarehouseId: transferRow.sourceWarehouseId,
-					destinationWarehouseId: transferRow.destinationWarehouseId,
-					totalsCount: replicationTotals.length,
-				});
-
-				const replicationResult = await replicateWarehouseTransferToAltegio({
-					transferId: transferRow.id,
-					transferNumber: transferRow.transferNumber,
-					sourceWarehouseId: transferRow.sourceWarehouseId,
-					destinationWarehouseId: transferRow.destinationWarehouseId,
-					altegioTotals: replicationTotals,
-					headers: { authHeader, acceptHeader },
-				});
-
-				if (!replicationResult.success) {
-					// biome-ignore lint/suspicious/noConsole: Logging provides replication visibility
-					console.error('Altegio transfer replication failed', {
-						transferId: transferRow.id,
-						error: replicationResult.message,
-					});
-					return c.json(
-						{
-							success: false,
-							message: replicationResult.message,
-						} satisfies ApiResponse,
-						500,
-					);
+				// The origin warehouse gets the discrepancy report of the completed transfer
+				if (txResult.transitionedToCompleted && transferRow.transferType === 'external') {
+					await getTransferDiscrepancyReport({ transferId: transferRow.id })
+						.then((report) => sendTransferDiscrepancyReport(report))
+						.catch((error: unknown) => {
+							// biome-ignore lint/suspicious/noConsole: Report failures must not block completion
+							console.error('Transfer discrepancy report failed', {
+								transferId: transferRow.id,
+								error,
+							});
+						});
 				}
 
-				if (replicationResult.skipped) {
+				// Attempt the replication right away; failures stay queued for the outbox worker
+				let altegioReplication: {
+					jobId: string;
+					status: string;
+					lastError: string | null;
+				} | null = null;
+				if (txResult.outboxJob) {
 					// biome-ignore lint/suspicious/noConsole: Logging provides replication visibility
-					console.log('Altegio transfer replication skipped', {
+					console.log('Altegio transfer replication started', {
 						transferId: transferRow.id,
 						transferNumber: transferRow.transferNumber,
-						reason: replicationResult.message,
-					});
-				} else {
-					// biome-ignore lint/suspicious/noConsole: Logging provides replication visibility
-					console.log('Altegio transfer replication success', {
-						transferId: transferRow.id,
-						transferNumber: transferRow.transferNumber,
-						departureDocumentId: replicationResult.data?.departureDocumentId,
-						arrivalDocumentId: replicationResult.data?.arrivalDocumentId,
+						jobId: txResult.outboxJob.id,
 					});
+
+					const processedJob = await processAltegioOutboxJob(txResult.outboxJob.id).catch(
+						(error: unknown) => {
+							// biome-ignore lint/suspicious/noConsole: Logging provides replication visibility
+							console.error('Altegio transfer replication dispatch failed', {
+								transferId: transferRow.id,
+								error,
+							});
+							return null;
+						},
+					);
+					const job = processedJob ?? txResult.outboxJob;
+					altegioReplication = {
+						jobId: job.id,
+						status: job.status,
+						lastError: job.lastError,
+					};
 				}
-			}
 
 				return c.json(
 					{
 						success: true,
-						message: 'Warehouse transfer status updated successfully',
-						data: transferRow,
+						message:
+							altegioReplication && altegioReplication.status !== 'succeeded'
+								? 'Warehouse transfer status updated successfully; Altegio replication queued for retry'
+								: 'Warehouse transfer status updated successfully',
+						data: {
+							...transferRow,
+							altegioReplication,
+						},
 					} satisfies ApiResponse,
 					200,
 				);
@@ -1144,11 +1487,17 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
  * @param {string} itemNotes - Additional notes about the item
  * @returns {ApiResponse} Success response with updated transfer detail data
  * @throws {400} Validation error if input data is invalid
+ * @throws {403} If the transfer is outside the user's scope (the destination when receiving), or
+ * an external item is received outside its destination warehouse
  * @throws {404} If transfer detail not found
+ * @throws {409} If the transfer is completed, the item was resolved, or an external transfer
+ * is not in transit when an item is received
  * @throws {500} Database error if update fails
  */
 .post(
 	'/update-item-status',
+	requirePermission('transfers.receive'),
+	warehouseScope(),
 	zValidator(
 		'json',
 		z.object({
@@ -1175,6 +1524,11 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				const { transferDetailId, isReceived, itemCondition, itemNotes } =
 					c.req.valid('json');
 
+				const canReceiveAnyTransfer = await hasPermission(
+					sessionUser,
+					'transfers.receive_any',
+				);
+
 				// Perform the detail update and potential product stock update atomically
 				const txResult = await db.transaction(async (tx) => {
 					const transferDetailRows = await tx
@@ -1184,8 +1538,11 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 							productStockId: schemas.warehouseTransferDetails.productStockId,
 							transferType: schemas.warehouseTransfer.transferType,
 							transferIsCompleted: schemas.warehouseTransfer.isCompleted,
+							transferStatus: schemas.warehouseTransfer.status,
+							sourceWarehouseId: schemas.warehouseTransfer.sourceWarehouseId,
 							destinationWarehouseId:
 								schemas.warehouseTransfer.destinationWarehouseId,
+							discrepancyId: schemas.warehouseTransferDiscrepancy.id,
 						})
 						.from(schemas.warehouseTransferDetails)
 						.innerJoin(
@@ -1195,6 +1552,13 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 								schemas.warehouseTransferDetails.transferId,
 							),
 						)
+						.leftJoin(
+							schemas.warehouseTransferDiscrepancy,
+							eq(
+								schemas.warehouseTransferDiscrepancy.transferDetailId,
+								schemas.warehouseTransferDetails.id,
+							),
+						)
 						.where(eq(schemas.warehouseTransferDetails.id, transferDetailId))
 						.limit(1);
 
@@ -1203,14 +1567,36 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 						return { type: 'not_found' as const };
 					}
 
+					// Items are received at the destination; other updates come from either end
+					const scopeWarehouseIds =
+						isReceived === true
+							? [transferDetail.destinationWarehouseId]
+							: [transferDetail.sourceWarehouseId, transferDetail.destinationWarehouseId];
+					if (!canAccessWarehouse(c.get('warehouseScope'), ...scopeWarehouseIds)) {
+						return { type: 'forbidden_scope' as const };
+					}
+
 					if (transferDetail.transferIsCompleted) {
 						return { type: 'locked' as const };
 					}
 
+					// Resolved items are handled through /resolve-discrepancies
+					if (transferDetail.discrepancyId) {
+						return { type: 'resolved' as const };
+					}
+
+					if (
+						isReceived === true &&
+						transferDetail.transferType === 'external' &&
+						transferDetail.transferStatus !== 'in_transit'
+					) {
+						return { type: 'not_in_transit' as const };
+					}
+
 					if (
 						isReceived === true &&
 						transferDetail.transferType === 'external' &&
-						sessionUser.role !== 'admin' &&
+						!canReceiveAnyTransfer &&
 						(!sessionUser.warehouseId ||
 							sessionUser.warehouseId !== transferDetail.destinationWarehouseId)
 					) {
@@ -1235,6 +1621,12 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 						updateValues.itemNotes = itemNotes;
 					}
 
+					const [detailBefore] = await tx
+						.select()
+						.from(schemas.warehouseTransferDetails)
+						.where(eq(schemas.warehouseTransferDetails.id, transferDetailId))
+						.for('update');
+
 					const updatedRows = await tx
 						.update(schemas.warehouseTransferDetails)
 						.set(updateValues)
@@ -1245,12 +1637,23 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 						return { type: 'not_found' as const };
 					}
 
+					await recordAuditLog(tx, {
+						actor: sessionUser as SessionUser,
+						entityType: 'warehouse_transfer_detail',
+						entityId: transferDetailId,
+						action: isReceived === undefined ? 'update' : 'status_change',
+						before: detailBefore,
+						after: updatedDetail,
+						metadata: { transferId: transferDetail.transferId },
+					});
+
 					// If received, update the product stock current warehouse
 					if (isReceived === true) {
 						const productStock = await tx
 							.update(schemas.productStock)
 							.set({
 								currentWarehouse: transferDetail.destinationWarehouseId,
+								isInTransit: false,
 							})
 							.where(
 								eq(schemas.productStock.id, transferDetail.productStockId),
@@ -1274,7 +1677,7 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 						}
 					}
 
-					return { type: 'ok' as const, updatedDetail };
+					return { type: 'ok' as const, updatedDetail, transferDetail };
 			});
 
 			if (txResult.type === 'not_found') {
@@ -1297,6 +1700,36 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (txResult.type === 'not_in_transit') {
+				return c.json(
+					{
+						success: false,
+						message: 'Transfer items can only be received while the transfer is in transit',
+					} satisfies ApiResponse,
+					409,
+				);
+			}
+
+			if (txResult.type === 'resolved') {
+				return c.json(
+					{
+						success: false,
+						message: 'Transfer item discrepancy has already been resolved',
+					} satisfies ApiResponse,
+					409,
+				);
+			}
+
+			if (txResult.type === 'forbidden_scope') {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			if (txResult.type === 'forbidden_destination') {
 				return c.json(
 					{
@@ -1308,6 +1741,29 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			const { transferDetail } = txResult;
+			const transferWarehouseIds = [
+				transferDetail.sourceWarehouseId,
+				transferDetail.destinationWarehouseId,
+			];
+			publishDomainEvent({
+				type: 'transfer.items_updated',
+				warehouseIds: transferWarehouseIds,
+				data: { transferId: transferDetail.transferId, transferDetailIds: [transferDetailId] },
+			});
+			if (isReceived === true) {
+				publishStockChanged(
+					[
+						{
+							id: transferDetail.productStockId,
+							currentWarehouse: transferDetail.destinationWarehouseId,
+						},
+					],
+					'transfer',
+					[transferDetail.sourceWarehouseId],
+				);
+			}
+
 			return c.json(
 				{
 					success: true,
@@ -1340,5 +1796,280 @@ const warehouseTransfersRoutes = new Hono<ApiEnv>()
 			);
 		}
 	},
+)
+
+/**
+ * GET /discrepancies - Discrepancy report of an external transfer
+ *
+ * Lists the items that were not received or were received damaged, with the outcome
+ * picked for each one and a summary by outcome.
+ *
+ * @param {string} transferId - UUID of the external transfer (query parameter)
+ /**
+ * @returns {ApiResponse} Success response with the discrepancy report
+ * @throws {400} If the transfer is not external
+ * @throws {403} If the transfer is outside the user's warehouse scope
+ * @throws {404} If the transfer is not found
+ */
+.get(
+	'/discrepancies',
+	requirePermission('transfers.view'),
+	warehouseScope(),
+	zValidator('query', transferDiscrepancyQuerySchema),
+	async (c) => {
+		const { transferId } = c.req.valid('query');
+
+		const report = await getTransferDiscrepancyReport({ transferId });
+		if (
+			!canAccessWarehouse(
+				c.get('warehouseScope'),
+				report.sourceWarehouseId,
+				report.destinationWarehouseId,
+			)
+		) {
+			return c.json(
+				{
+					success: false,
+					message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		return c.json(
+			{
+				success: true,
+				message: 'Transfer discrepancies retrieved successfully',
+				data: report,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+
+/**
+ * GET /manifest - Printable manifest of a transfer
+ *
+ * PDF that travels with the shipment: route, priority and every unit with its barcode,
+ * lot and UUID. Its QR opens the transfer in the reception page.
+ *
+ * @param {string} transferId - UUID of the transfer (query parameter)
+ /**
+ * @returns {application/pdf} The manifest, inline
+ * @throws {403} If the transfer is outside the user's warehouse scope
+ * @throws {404} If the transfer is not found
+ */
+.get(
+	'/manifest',
+	requirePermission('transfers.view'),
+	warehouseScope(),
+	zValidator('query', z.object({ transferId: z.string().uuid('Invalid transfer ID') })),
+	async (c) => {
+		const { transferId } = c.req.valid('query');
+
+		const manifest = await getTransferManifest({ transferId, scope: c.get('warehouseScope') });
+
+		c.header('Content-Type', 'application/pdf');
+		c.header(
+			'Content-Disposition',
+			`inline; filename="${documentFileName('manifiesto', manifest.transferNumber)}"`,
+		);
+		return c.body(new Uint8Array(renderTransferManifestPdf(manifest)));
+	},
+)
+
+/**
+ * POST /resolve-discrepancies - Pick the outcome of missing or damaged transfer items
+ *
+ * Each outcome becomes a stock movement: return to the origin warehouse, write-off as
+ * damaged, keep in transit or receive as found later. Once the transfer is completed only
+ * items still in transit can be resolved, and the updated report is sent to the origin
+ * warehouse.
+ *
+ * @param {string} transferId - UUID of the external transfer
+ * @param {Array} items - `{ transferDetailId, outcome, notes? }` per item
+ /**
+ * @returns {ApiResponse} Success response with the updated discrepancy report
+ * @throws {400} If an item is not missing or damaged, or `found` is used on a damaged item
+ * @throws {403} If the destination warehouse is outside the user's scope, or the user is not
+ * from the destination warehouse
+ * @throws {409} If an item is already resolved or the transfer is cancelled
+ */
+.post(
+	'/resolve-discrepancies',
+	requirePermission('transfers.receive'),
+	warehouseScope(),
+	idempotency(),
+	zValidator('json', transferDiscrepancyResolveSchema),
+	async (c) => {
+		const payload = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const { report, movedUnits } = await resolveTransferDiscrepancies({
+			input: payload,
+			user,
+			scope: c.get('warehouseScope'),
+		});
+
+		publishDomainEvent({
+			type: 'transfer.items_updated',
+			warehouseIds: [report.sourceWarehouseId, report.destinationWarehouseId],
+			data: {
+				transferId: report.transferId,
+				transferDetailIds: payload.items.map((item) => item.transferDetailId),
+			},
+		});
+		publishStockChanged(movedUnits, 'transfer', [
+			report.sourceWarehouseId,
+			report.destinationWarehouseId,
+		]);
+		// Completed transfers already sent their report, so follow-ups are sent as they happen
+		if (report.isCompleted) {
+			await sendTransferDiscrepancyReport(report).catch((error: unknown) => {
+				// biome-ignore lint/suspicious/noConsole: Report failures must not undo the resolution
+				console.error('Transfer discrepancy report failed', {
+					transferId: report.transferId,
+					error,
+				});
+			});
+		}
+
+		return c.json(
+			{
+				success: true,
+				message: 'Transfer discrepancies resolved successfully',
+				data: report,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+
+/**
+ * POST /transition - Move a transfer through the dispatch flow
+ *
+ * Transfers go draft → picked → dispatched → in_transit → received → closed, and can be
+ * cancelled until they leave. Dispatching needs the approval cleared and marks the units in
+ * transit so they cannot be withdrawn at the source. Receiving goes through /update-status.
+ *
+ * @param {string} transferId - UUID of the transfer
+ * @param {string} status - `picked`, `dispatched`, `in_transit`, `closed` or `cancelled`
+ /**
+ * @param {string} notes - Notes stored on the transfer (optional)
+ * @returns {ApiResponse} Success response with the updated transfer
+ * @throws {403} If the acting warehouse (destination to close, source otherwise) is outside
+ * the user's scope
+ * @throws {404} If the transfer is not found
+ * @throws {409} If the move is not allowed, the transfer is not approved, a unit is not
+ * available to dispatch, or an item is still in transit when closing
+ */
+.post(
+	'/transition',
+	requirePermission('transfers.dispatch'),
+	warehouseScope(),
+	zValidator('json', transferTransitionSchema),
+	async (c) => {
+		const input = c.req.valid('json');
+		// Closing and cancelling are the same decisions /update-status guards
+		if (
+			(input.status === 'closed' || input.status === 'cancelled') &&
+			!(await hasPermission(c.get('user') as SessionUser, 'transfers.complete'))
+		) {
+			return c.json(
+				{
+					success: false,
+					message: "Forbidden - missing permission 'transfers.complete'",
+				} satisfies ApiResponse,
+				403,
+			);
+		}
+
+		const { transfer, changedUnits } = await transitionTransfer({
+			input,
+			user: c.get('user') as SessionUser | null,
+			scope: c.get('warehouseScope'),
+		});
+
+		let status: 'pending' | 'completed' | 'cancelled' = 'pending';
+		if (transfer.isCancelled) {
+			status = 'cancelled';
+		} else if (transfer.isCompleted) {
+			status = 'completed';
+		}
+		publishDomainEvent({
+			type: 'transfer.status_changed',
+			warehouseIds: [transfer.sourceWarehouseId, transfer.destinationWarehouseId],
+			data: {
+				transferId: transfer.id,
+				status,
+				transferStatus: transfer.status as TransferStatus,
+			},
+		});
+		publishStockChanged(changedUnits, 'transfer');
+
+		return c.json(
+			{
+				success: true,
+				message: `Warehouse transfer moved to ${transfer.status}`,
+				data: transfer,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
+)
+
+/**
+ * POST /approval - Approve or reject a transfer into a warehouse that requires approval
+ *
+ * External transfers into a warehouse with `requiresApproval` start as `awaiting_approval`
+ * and cannot be completed until an approver decides. Rejecting cancels the transfer.
+ *
+ * @param {string} transferId - UUID of the transfer awaiting approval
+ * @param {string} decision - `approve` or `reject`
+ /**
+ * @param {string} comment - Approver comment; required to reject
+ * @returns {ApiResponse} Success response with the updated transfer
+ * @throws {403} If the destination warehouse is outside the approver's scope
+ * @throws {404} If the transfer is not found
+ * @throws {409} If the transfer is not awaiting approval or is cancelled
+ */
+.post(
+	'/approval',
+	requirePermission('approvals.decide'),
+	warehouseScope(),
+	zValidator('json', transferApprovalDecisionSchema),
+	async (c) => {
+		const { transferId, ...decision } = c.req.valid('json');
+		const user = c.get('user') as SessionUser | null;
+
+		const transfer = await decideTransferApproval({
+			transferId,
+			input: decision,
+			user,
+			scope: c.get('warehouseScope'),
+		});
+
+		publishDomainEvent({
+			type: 'transfer.status_changed',
+			warehouseIds: [transfer.sourceWarehouseId, transfer.destinationWarehouseId],
+			data: {
+				transferId: transfer.id,
+				status: transfer.isCancelled ? 'cancelled' : 'pending',
+				transferStatus: transfer.status as TransferStatus,
+			},
+		});
+
+		return c.json(
+			{
+				success: true,
+				message:
+					decision.decision === 'approve'
+						? 'Warehouse transfer approved successfully'
+						: 'Warehouse transfer rejected successfully',
+				data: transfer,
+			} satisfies ApiResponse,
+			200,
+		);
+	},
 );
 export { warehouseTransfersRoutes };
@@ -7,6 +7,9 @@ import type { ApiEnv } from '../../context';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import { recordAuditLog } from '../../lib/audit-log';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
 
 const warehousesRoutes = new Hono<ApiEnv>()
 /**
@@ -19,7 +22,7 @@ const warehousesRoutes = new Hono<ApiEnv>()
  * @returns {ApiResponse} Success response with warehouse data from DB
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('warehouses.view'), async (c) => {
 	try {
 		// Query the warehouse table for all records
 		const warehouses = await db.select().from(schemas.warehouse);
@@ -86,6 +89,7 @@ const warehousesRoutes = new Hono<ApiEnv>()
  */
 .post(
 	'/create',
+	requirePermission('warehouses.manage'),
 	zValidator(
 		'json',
 		z.object({
@@ -151,6 +155,14 @@ const warehousesRoutes = new Hono<ApiEnv>()
 					warehouseId: warehouseRow.id,
 				});
 
+				await recordAuditLog(tx, {
+					actor: currentUser as SessionUser | null,
+					entityType: 'warehouse',
+					entityId: warehouseRow.id,
+					action: 'create',
+					after: warehouseRow,
+				});
+
 				return warehouseRow;
 			});
 
@@ -259,6 +271,7 @@ const warehousesRoutes = new Hono<ApiEnv>()
  */
 .patch(
 	'/:warehouseId/update-altegio-config',
+	requirePermission('warehouses.manage'),
 	zValidator(
 		'param',
 		z.object({
@@ -304,11 +317,9 @@ const warehousesRoutes = new Hono<ApiEnv>()
 			const { warehouseId } = c.req.valid('param');
 			const payload = c.req.valid('json');
 
-			// Check if warehouse exists
+			// Check if warehouse exists; the full row is kept as the audit "before" snapshot
 			const existingWarehouse = await db
-				.select({
-					id: schemas.warehouse.id,
-				})
+				.select()
 				.from(schemas.warehouse)
 				.where(eq(schemas.warehouse.id, warehouseId))
 				.limit(1);
@@ -349,12 +360,27 @@ const warehousesRoutes = new Hono<ApiEnv>()
 				updateValues.isCedis = payload.isCedis;
 			}
 
-			// Update the warehouse with Altegio configuration
-			const updatedWarehouse = await db
-				.update(schemas.warehouse)
-				.set(updateValues)
-				.where(eq(schemas.warehouse.id, warehouseId))
-				.returning();
+			// Update the warehouse with Altegio configuration and record the change
+			const updatedWarehouse = await db.transaction(async (tx) => {
+				const updated = await tx
+					.update(schemas.warehouse)
+					.set(updateValues)
+					.where(eq(schemas.warehouse.id, warehouseId))
+					.returning();
+
+				if (updated.length > 0) {
+					await recordAuditLog(tx, {
+						actor: currentUser as SessionUser | null,
+						entityType: 'warehouse',
+						entityId: warehouseId,
+						action: 'update',
+						before: existingWarehouse[0],
+						after: updated[0],
+						metadata: { operation: 'update-altegio-config' },
+					});
+				}
+				return updated;
+			});
 
 			if (updatedWarehouse.length === 0) {
 				return c.json(
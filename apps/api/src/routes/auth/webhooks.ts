@@ -0,0 +1,158 @@
+import { zValidator } from '@hono/zod-validator';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { ApiEnv } from '../../context';
+import type { ApiResponse } from '../../lib/api-response';
+import { requirePermission } from '../../lib/permissions';
+import type { SessionUser } from '../../lib/replenishment-orders';
+import {
+	createWebhookSubscription,
+	deleteWebhookSubscription,
+	listWebhookDeliveries,
+	listWebhookSubscriptions,
+	replayWebhookDelivery,
+	updateWebhookSubscription,
+} from '../../lib/webhooks';
+import {
+	webhookDeliveryListQuerySchema,
+	webhookSubscriptionCreateSchema,
+	webhookSubscriptionUpdateSchema,
+} from '../../types';
+
+const subscriptionParamSchema = z.object({
+	id: z.string().uuid('Invalid webhook subscription ID'),
+});
+const deliveryParamSchema = z.object({ id: z.string().uuid('Invalid webhook delivery ID') });
+
+const webhooksRoutes = new Hono<ApiEnv>()
+	/**
+	 * GET /subscriptions - List webhook subscriptions (secrets are masked)
+	 */
+	.get('/subscriptions', requirePermission('webhooks.manage'), async (c) => {
+		const subscriptions = await listWebhookSubscriptions();
+
+		return c.json(
+			{
+				success: true,
+				message: 'Webhook subscriptions retrieved successfully',
+				data: subscriptions,
+			} satisfies ApiResponse,
+			200,
+		);
+	})
+	/**
+	 * POST /subscriptions - Create a subscription; the response carries its secret once
+	 */
+	.post(
+		'/subscriptions',
+		requirePermission('webhooks.manage'),
+		zValidator('json', webhookSubscriptionCreateSchema),
+		async (c) => {
+			const payload = c.req.valid('json');
+			const user = c.get('user') as SessionUser | null;
+
+			const subscription = await createWebhookSubscription(payload, user);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Webhook subscription created successfully',
+					data: subscription,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	)
+	/**
+	 * PUT /subscriptions/:id - Update a subscription or rotate its secret
+	 */
+	.put(
+		'/subscriptions/:id',
+		requirePermission('webhooks.manage'),
+		zValidator('param', subscriptionParamSchema),
+		zValidator('json', webhookSubscriptionUpdateSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const payload = c.req.valid('json');
+
+			const subscription = await updateWebhookSubscription(id, payload);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Webhook subscription updated successfully',
+					data: subscription,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * DELETE /subscriptions/:id - Delete a subscription and its delivery log
+	 */
+	.delete(
+		'/subscriptions/:id',
+		requirePermission('webhooks.manage'),
+		zValidator('param', subscriptionParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+
+			await deleteWebhookSubscription(id);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Webhook subscription deleted successfully',
+					data: { id },
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * GET /deliveries - Delivery log, newest first
+	 */
+	.get(
+		'/deliveries',
+		requirePermission('webhooks.manage'),
+		zValidator('query', webhookDeliveryListQuerySchema),
+		async (c) => {
+			const query = c.req.valid('query');
+
+			const deliveries = await listWebhookDeliveries(query);
+
+			return c.json(
+				{
+					success: true,
+					message: 'Webhook deliveries retrieved successfully',
+					data: deliveries,
+				} satisfies ApiResponse,
+				200,
+			);
+		},
+	)
+	/**
+	 * POST /deliveries/:id/replay - Send a finished delivery again as a new delivery
+	 */
+	.post(
+		'/deliveries/:id/replay',
+		requirePermission('webhooks.manage'),
+		zValidator('param', deliveryParamSchema),
+		async (c) => {
+			const { id } = c.req.valid('param');
+			const user = c.get('user') as SessionUser | null;
+
+			const delivery = await replayWebhookDelivery({ id, user });
+
+			return c.json(
+				{
+					success: true,
+					message: 'Webhook delivery replayed',
+					data: delivery,
+				} satisfies ApiResponse,
+				201,
+			);
+		},
+	);
+
+export { webhooksRoutes };
@@ -8,6 +8,46 @@ import { withdrawOrderData } from '../../constants';
 import { db } from '../../db/index';
 import * as schemas from '../../db/schema';
 import type { ApiResponse } from '../../lib/api-response';
+import { publishStockChanged } from '../../lib/domain-events';
+import {
+	EMPLOYEE_TOKEN_MISMATCH_MESSAGE,
+	requireEmployeeToken,
+} from '../../lib/employee-passcodes';
+import { idempotency } from '../../lib/idempotency';
+import { requirePermission } from '../../lib/permissions';
+import { enforceUsageLimits, type UsageLimitEnforcement } from '../../lib/usage-limits';
+import {
+	canAccessEmployee,
+	canAccessWarehouse,
+	employeeScopeCondition,
+	WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+	warehouseScope,
+} from '../../lib/warehouse-scope';
+
+/**
+ * Loads the order created by an offline operation, with its details.
+ *
+ * @param clientId - Client-generated UUID sent when the order was created
+ * @returns The order and its details, or null when no order has that clientId
+ */
+async function findWithdrawOrderByClientId(clientId: string) {
+	const [existingOrder] = await db
+		.select()
+		.from(schemas.withdrawOrder)
+		.where(eq(schemas.withdrawOrder.clientId, clientId))
+		.limit(1);
+
+	if (!existingOrder) {
+		return null;
+	}
+
+	const existingDetails = await db
+		.select()
+		.from(schemas.withdrawOrderDetails)
+		.where(eq(schemas.withdrawOrderDetails.withdrawOrderId, existingOrder.id));
+
+	return { withdrawOrder: existingOrder, details: existingDetails };
+}
 
 const withdrawOrdersRoutes = new Hono<ApiEnv>()
 /**
@@ -22,10 +62,13 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
  /**
  * @throws {500} If an unexpected error occurs during data retrieval
  */
-.get('/all', async (c) => {
+.get('/all', requirePermission('withdraw_orders.view'), warehouseScope(), async (c) => {
 	try {
-		// Query the withdrawOrder table for all records
-		const withdrawOrder = await db.select().from(schemas.withdrawOrder);
+		// Query the withdraw orders of employees in the user's warehouse scope
+		const withdrawOrder = await db
+			.select()
+			.from(schemas.withdrawOrder)
+			.where(employeeScopeCondition(c.get('warehouseScope'), schemas.withdrawOrder.userId));
 
 		// If no records exist, return mock data for development/testing
 		if (withdrawOrder.length === 0) {
@@ -75,6 +118,8 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
  */
 .get(
 	'/details',
+	requirePermission('withdraw_orders.view'),
+	warehouseScope(),
 	zValidator(
 		'query',
 		z.object({ employeeId: z.string().uuid('Invalid employee ID format') }),
@@ -82,6 +127,17 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 	async (c) => {
 		try {
 			const { employeeId } = c.req.valid('query');
+
+			if (!(await canAccessEmployee(c.get('warehouseScope'), employeeId))) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
 			// Query the withdrawOrderDetails table with joins to productStock and withdrawOrder
 			const withdrawOrderDetails = await db
 				.select({
@@ -149,20 +205,32 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
  * details and automatically creates withdraw order details for each product.
  * The endpoint validates input data, checks product availability, updates
  * product stock status, and creates usage history records. This is used when
- * employees initiate new inventory withdrawal requests.
+ * employees initiate new inventory withdrawal requests. Units checked out on the last use
+ * allowed by their usage limit are listed in `usageLimits.pendingRetirementProductStockIds`.
  *
  * @param {string} dateWithdraw - ISO date string for when the withdrawal is scheduled
  * @param {string} employeeId - UUID of the employee creating the withdraw order
  * @param {number} numItems - Number of items to be withdrawn in this order
  * @param {string[]} products - Array of product stock UUIDs to withdraw
  * @param {boolean} isComplete - Whether the withdraw order is complete (defaults to false)
+ * @param {string} clientId - Optional client-generated UUID; replaying the same clientId
+ * returns the order created the first time instead of creating a duplicate
  /**
  * @returns {ApiResponse} Success response with created withdraw order and details data
- * @throws {400} Validation error if input data is invalid or product is already in use
+ * @throws {400} Validation error if input data is invalid
+ * @throws {401} If the `X-Employee-Token` header is missing, invalid or expired
+ * @throws {403} If the employee token belongs to another employee, or the employee or a
+ * product belongs to a warehouse outside the user's scope
+ * @throws {409} Conflict with `conflictingProductIds` when products are already in use or in
+ * transit on a transfer
  * @throws {500} Database error if insertion fails
  */
 .post(
 	'/create',
+	requirePermission('withdraw_orders.manage'),
+	warehouseScope(),
+	requireEmployeeToken(),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -174,17 +242,23 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 				.min(1, 'At least one product is required')
 				.describe('Array of product stock UUIDs to withdraw'),
 			isComplete: z.boolean().optional().describe('Whether the order is complete'),
+			clientId: z
+				.string()
+				.uuid('Invalid client ID')
+				.optional()
+				.describe('Client-generated UUID used to deduplicate offline replays'),
 		}),
 	),
 	async (c) => {
 		try {
-			const { dateWithdraw, employeeId, numItems, products, isComplete } =
+			const { dateWithdraw, employeeId, numItems, products, isComplete, clientId } =
 				c.req.valid('json') as {
 					dateWithdraw: string;
 					employeeId: string;
 					numItems: number;
 					products: string[];
 					isComplete?: boolean;
+					clientId?: string;
 				};
 
 			// Validate that numItems matches the number of products
@@ -198,6 +272,40 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 				);
 			}
 
+			if (c.get('employeeToken').employeeId !== employeeId) {
+				return c.json(
+					{
+						success: false,
+						message: EMPLOYEE_TOKEN_MISMATCH_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			const scope = c.get('warehouseScope');
+			if (!(await canAccessEmployee(scope, employeeId))) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			// A replayed offline operation returns the order it already created
+			const replayedOrder = clientId ? await findWithdrawOrderByClientId(clientId) : null;
+			if (replayedOrder) {
+				return c.json(
+					{
+						success: true,
+						message: 'Withdraw order already created',
+						data: { ...replayedOrder, replayed: true },
+					} satisfies ApiResponse,
+					200,
+				);
+			}
+
 			// Check all products before creating the order to avoid partial failures
 			const productStockChecks = await Promise.all(
 				products.map((productId) =>
@@ -209,6 +317,8 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 			);
 
 			// Validate all products
+			const conflictingProductIds: string[] = [];
+			const inTransitProductIds: string[] = [];
 			for (let i = 0; i < products.length; i++) {
 				const productId = products[i];
 				const productStockCheck = productStockChecks[i];
@@ -223,15 +333,38 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 					);
 				}
 
-				if (productStockCheck[0].isBeingUsed === true) {
+				if (!canAccessWarehouse(scope, productStockCheck[0].currentWarehouse)) {
 					return c.json(
 						{
 							success: false,
-							message: `Product ${productId} is currently being used`,
+							message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
 						} satisfies ApiResponse,
-						400,
+						403,
 					);
 				}
+
+				if (productStockCheck[0].isBeingUsed === true) {
+					conflictingProductIds.push(productId);
+				} else if (productStockCheck[0].isInTransit === true) {
+					// Dispatched on a transfer: the unit is on the truck, not on the shelf
+					conflictingProductIds.push(productId);
+					inTransitProductIds.push(productId);
+				}
+			}
+
+			// Report every unit already taken so offline clients can resolve the conflict at once
+			if (conflictingProductIds.length > 0) {
+				return c.json(
+					{
+						success: false,
+						message:
+							inTransitProductIds.length === conflictingProductIds.length
+								? `Product ${conflictingProductIds.join(', ')} is in transit to another warehouse`
+								: `Product ${conflictingProductIds.join(', ')} is currently being used`,
+						data: { conflictingProductIds },
+					} satisfies ApiResponse,
+					409,
+				);
 			}
 
 			// Insert the new withdraw order into the database
@@ -243,9 +376,27 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 					userId: employeeId, // Maps to user_id column (UUID that references employee table)
 					numItems, // Maps to num_items column
 					isComplete: isComplete ?? false, // Maps to is_complete column with default
+					clientId: clientId ?? null, // Maps to client_id column (offline replay key)
 				})
+				// A concurrent replay with the same clientId may have inserted the order first
+				.onConflictDoNothing({ target: schemas.withdrawOrder.clientId })
 				.returning(); // Returns array of inserted records
 
+			const concurrentOrder =
+				insertedWithdrawOrder.length === 0 && clientId
+					? await findWithdrawOrderByClientId(clientId)
+					: null;
+			if (concurrentOrder) {
+				return c.json(
+					{
+						success: true,
+						message: 'Withdraw order already created',
+						data: { ...concurrentOrder, replayed: true },
+					} satisfies ApiResponse,
+					200,
+				);
+			}
+
 			// Check if the insertion was successful
 			// Drizzle's .returning() always returns an array, even for single inserts
 			if (insertedWithdrawOrder.length === 0) {
@@ -338,6 +489,18 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 				}),
 			);
 
+			publishStockChanged(
+				successfulInserts.map(({ productData }) => productData.productStock),
+				'withdraw',
+			);
+
+			// Units checked out on their last allowed use are retired when they come back
+			const usageLimits = await enforceUsageLimits(
+				db,
+				successfulInserts.map(({ productData }) => productData.productId),
+				c.get('user')?.id ?? null,
+			);
+
 			// Check if all details were created successfully
 			if (createdDetails.length !== products.length) {
 				return c.json(
@@ -361,6 +524,7 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 					data: {
 						withdrawOrder: insertedWithdrawOrder[0],
 						details: createdDetails,
+						usageLimits,
 					},
 				} satisfies ApiResponse,
 				201, // 201 Created status for successful resource creation
@@ -412,17 +576,28 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
  * Updates withdraw order details for multiple withdraw orders in a single request.
  * Each order can have multiple products returned. For each product stock, updates its status
  * and creates usage history records. Only marks each withdraw order as complete with dateReturn
- * when ALL products in that specific order have been returned.
+ * when ALL products in that specific order have been returned. Products whose detail was
+ * already returned are skipped and reported in `alreadyReturnedProductIds`, so replaying
+ * the same return (e.g. from the mobile offline queue) does not fail. Returned units that
+ * reached the `maxUsage` of their usage limit are marked empty with a `consumido` shrinkage
+ * event and listed in `usageLimits.retiredProductStockIds`.
  *
  * @param {string} dateReturn - ISO date string for return date (for all details)
  /**
  * @param {Array} orders - Array of order objects, each containing withdrawOrderId and productStockIds
  * @returns {ApiResponse} Success response with updated withdraw orders and details data
  * @throws {400} Validation error if input data is invalid
+ * @throws {401} If the `X-Employee-Token` header is missing, invalid or expired
+ * @throws {403} If an order belongs to another employee than the employee token, or an
+ * order's employee or a returned product belongs to a warehouse outside the user's scope
  * @throws {500} Database error if update fails
  */
 .post(
 	'/update',
+	requirePermission('withdraw_orders.manage'),
+	warehouseScope(),
+	requireEmployeeToken(),
+	idempotency(),
 	zValidator(
 		'json',
 		z.object({
@@ -488,6 +663,45 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 
 			const withdrawOrderMap = new Map(allWithdrawOrders.map((wo) => [wo.id, wo]));
 
+			// Only the employee who withdrew the units may return them
+			const { employeeId } = c.get('employeeToken');
+			if (allWithdrawOrders.some((wo) => wo.userId !== employeeId)) {
+				return c.json(
+					{
+						success: false,
+						message: EMPLOYEE_TOKEN_MISMATCH_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			const scope = c.get('warehouseScope');
+			const orderEmployeeIds = [
+				...new Set(
+					allWithdrawOrders
+						.map((wo) => wo.userId)
+						.filter((employeeId): employeeId is string => employeeId !== null),
+				),
+			];
+			const employeeAccess = await Promise.all(
+				orderEmployeeIds.map((employeeId) => canAccessEmployee(scope, employeeId)),
+			);
+			if (
+				employeeAccess.includes(false) ||
+				productStocksToCheck.some((ps) => !canAccessWarehouse(scope, ps.currentWarehouse))
+			) {
+				return c.json(
+					{
+						success: false,
+						message: WAREHOUSE_SCOPE_FORBIDDEN_MESSAGE,
+					} satisfies ApiResponse,
+					403,
+				);
+			}
+
+			const userId = c.get('user')?.id ?? null;
+			const usageLimitResults: UsageLimitEnforcement[] = [];
+
 			// Process each withdraw order in parallel
 			const orderProcessingPromises = orders.map(async (order) => {
 				const { withdrawOrderId, productStockIds } = order;
@@ -508,12 +722,10 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 						};
 					}
 
-					// Update withdraw order details for specified productStockIds
-					const updatedWithdrawOrderDetails = await db
-						.update(schemas.withdrawOrderDetails)
-						.set({
-							dateReturn,
-						})
+					// Find the details for the specified productStockIds
+					const matchingDetails = await db
+						.select()
+						.from(schemas.withdrawOrderDetails)
 						.where(
 							and(
 								eq(
@@ -525,10 +737,9 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 									productStockIds,
 								),
 							),
-						)
-						.returning();
+						);
 
-					if (updatedWithdrawOrderDetails.length === 0) {
+					if (matchingDetails.length === 0) {
 						return {
 							withdrawOrderId,
 							withdrawOrder,
@@ -539,9 +750,23 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 						};
 					}
 
+					// Details already returned are skipped so replayed returns stay idempotent;
+					// they are reported in request order because row order changes after updates
+					const returnedProductIds = new Set(
+						matchingDetails
+							.filter((detail) => detail.dateReturn !== null)
+							.map((detail) => detail.productId),
+					);
+					const alreadyReturnedProductIds = productStockIds.filter((productId) =>
+						returnedProductIds.has(productId),
+					);
+					const pendingDetails = matchingDetails.filter(
+						(detail) => detail.dateReturn === null,
+					);
+
 					// Validate all products are being used before processing updates
 					let validationError: string | undefined;
-					for (const detail of updatedWithdrawOrderDetails) {
+					for (const detail of pendingDetails) {
 						const productId = detail.productId;
 						const productStock = productStockMap.get(productId);
 
@@ -567,91 +792,128 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 						};
 					}
 
-					// Batch update all product stocks for this order
-					const productStockUpdatePromises = updatedWithdrawOrderDetails.map(
-						async (detail) => {
-							const productId = detail.productId;
-							const updatedProductStock = await db
-								.update(schemas.productStock)
-								.set({
-									isBeingUsed: false,
-									lastUsed: dateReturn,
-								})
-								.where(eq(schemas.productStock.id, productId))
-								.returning();
+					// Each order commits on its own, together with the write-offs its returns trigger
+					const returned = await db.transaction(async (tx) => {
+						// Update withdraw order details that are still pending return
+						const updatedWithdrawOrderDetails =
+							pendingDetails.length > 0
+								? await tx
+										.update(schemas.withdrawOrderDetails)
+										.set({
+											dateReturn,
+										})
+										.where(
+											inArray(
+												schemas.withdrawOrderDetails.id,
+												pendingDetails.map((detail) => detail.id),
+											),
+										)
+										.returning()
+								: [];
+
+						// Batch update all product stocks for this order
+						const productStockUpdatePromises = updatedWithdrawOrderDetails.map(
+							async (detail) => {
+								const productId = detail.productId;
+								const updatedProductStock = await tx
+									.update(schemas.productStock)
+									.set({
+										isBeingUsed: false,
+										lastUsed: dateReturn,
+									})
+									.where(eq(schemas.productStock.id, productId))
+									.returning();
+
+								if (updatedProductStock.length === 0) {
+									throw new Error(
+										`Error al actualizar el stock del producto ${productId}`,
+									);
+								}
+
+								return {
+									productId,
+									updatedProductStock: updatedProductStock[0],
+								};
+							},
+						);
 
-							if (updatedProductStock.length === 0) {
-								throw new Error(
-									`Error al actualizar el stock del producto ${productId}`,
+						const updateResults = await Promise.all(productStockUpdatePromises);
+						const productStockUpdates = updateResults.map((r) => r.updatedProductStock);
+
+						// Batch create usage history records
+						const historyInsertPromises: Promise<unknown>[] = [];
+						for (const result of updateResults) {
+							const productStock = productStockMap.get(result.productId);
+							if (productStock?.lastUsedBy) {
+								historyInsertPromises.push(
+									tx.insert(schemas.productStockUsageHistory).values({
+										productStockId: result.productId,
+										employeeId: productStock.lastUsedBy,
+										warehouseId: productStock.currentWarehouse,
+										movementType: 'return',
+										action: 'checkin',
+										notes: 'Producto devuelto desde orden de retiro',
+										usageDate: new Date(dateReturn),
+									}),
 								);
 							}
+						}
 
-							return {
-								productId,
-								updatedProductStock: updatedProductStock[0],
-							};
-						},
-					);
+						await Promise.all(historyInsertPromises);
 
-					const updateResults = await Promise.all(productStockUpdatePromises);
-					const productStockUpdates = updateResults.map((r) => r.updatedProductStock);
-
-					// Batch create usage history records
-					const historyInsertPromises: Promise<unknown>[] = [];
-					for (const result of updateResults) {
-						const productStock = productStockMap.get(result.productId);
-						if (productStock?.lastUsedBy) {
-							historyInsertPromises.push(
-								db.insert(schemas.productStockUsageHistory).values({
-									productStockId: result.productId,
-									employeeId: productStock.lastUsedBy,
-									warehouseId: productStock.currentWarehouse,
-									movementType: 'return',
-									action: 'checkin',
-									notes: 'Producto devuelto desde orden de retiro',
-									usageDate: new Date(dateReturn),
-								}),
+						// Check if all products in this withdraw order have been returned
+						const allOrderDetails = await tx
+							.select()
+							.from(schemas.withdrawOrderDetails)
+							.where(
+								eq(schemas.withdrawOrderDetails.withdrawOrderId, withdrawOrderId),
 							);
-						}
-					}
 
-					await Promise.all(historyInsertPromises);
+						const allProductsReturned =
+							allOrderDetails.length > 0 &&
+							allOrderDetails.every((detail) => detail.dateReturn !== null);
 
-					// Check if all products in this withdraw order have been returned
-					const allOrderDetails = await db
-						.select()
-						.from(schemas.withdrawOrderDetails)
-						.where(
-							eq(schemas.withdrawOrderDetails.withdrawOrderId, withdrawOrderId),
-						);
+						// Only update the withdraw order if all products have been returned
+						let finalWithdrawOrder = withdrawOrder;
+						if (allProductsReturned && updatedWithdrawOrderDetails.length > 0) {
+							const updatedWithdrawOrder = await tx
+								.update(schemas.withdrawOrder)
+								.set({
+									dateReturn,
+									isComplete: true,
+								})
+								.where(eq(schemas.withdrawOrder.id, withdrawOrderId))
+								.returning();
 
-					const allProductsReturned =
-						allOrderDetails.length > 0 &&
-						allOrderDetails.every((detail) => detail.dateReturn !== null);
+							if (updatedWithdrawOrder.length > 0) {
+								finalWithdrawOrder = updatedWithdrawOrder[0];
+							}
+						}
 
-					// Only update the withdraw order if all products have been returned
-					let finalWithdrawOrder = withdrawOrder;
-					if (allProductsReturned) {
-						const updatedWithdrawOrder = await db
-							.update(schemas.withdrawOrder)
-							.set({
-								dateReturn,
-								isComplete: true,
-							})
-							.where(eq(schemas.withdrawOrder.id, withdrawOrderId))
-							.returning();
+						// Returned units that reached their usage limit are written off as consumed
+						const usageLimits = await enforceUsageLimits(
+							tx,
+							productStockUpdates.map((productStock) => productStock.id),
+							userId,
+						);
 
-						if (updatedWithdrawOrder.length > 0) {
-							finalWithdrawOrder = updatedWithdrawOrder[0];
-						}
-					}
+						return {
+							updatedWithdrawOrderDetails,
+							productStockUpdates,
+							allProductsReturned,
+							finalWithdrawOrder,
+							usageLimits,
+						};
+					});
+					usageLimitResults.push(returned.usageLimits);
 
 					return {
 						withdrawOrderId,
-						withdrawOrder: finalWithdrawOrder,
-						details: updatedWithdrawOrderDetails,
-						productStockUpdates,
-						allProductsReturned,
+						withdrawOrder: returned.finalWithdrawOrder,
+						details: returned.updatedWithdrawOrderDetails,
+						productStockUpdates: returned.productStockUpdates,
+						allProductsReturned: returned.allProductsReturned,
+						alreadyReturnedProductIds,
 					};
 				} catch (orderError) {
 					// biome-ignore lint/suspicious/noConsole: Error logging is essential for debugging
@@ -676,6 +938,19 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 
 			const orderResults = await Promise.all(orderProcessingPromises);
 
+			const usageLimits: UsageLimitEnforcement = {
+				retiredProductStockIds: usageLimitResults.flatMap(
+					(result) => result.retiredProductStockIds,
+				),
+				pendingRetirementProductStockIds: usageLimitResults.flatMap(
+					(result) => result.pendingRetirementProductStockIds,
+				),
+			};
+			publishStockChanged(
+				orderResults.flatMap((result) => result.productStockUpdates),
+				'return',
+			);
+
 			// Check if there were any errors
 			const hasErrors = orderResults.some((result) => result.error !== undefined);
 			const completedOrders = orderResults.filter(
@@ -702,6 +977,7 @@ const withdrawOrdersRoutes = new Hono<ApiEnv>()
 						totalOrders: orders.length,
 						completedOrders,
 						errors: orderResults.filter((r) => r.error !== undefined).length,
+						usageLimits,
 					},
 				} satisfies ApiResponse,
 				hasErrors ? 207 : 200, // 207 Multi-Status if there are partial errors
@@ -0,0 +1,260 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	productStock,
+	replenishmentOrder,
+	replenishmentOrderDetails,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+
+const TRANSFER_BARCODE = 8_950_001;
+const PICKING_BARCODE = 8_950_002;
+
+let cedisWarehouseId: string;
+let storeWarehouseId: string;
+let otherWarehouseId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+const transferNumber = `TST-${randomUUID().slice(0, 8)}-MAN`;
+
+async function fetchDocument(path: string) {
+	const response = await app.fetch(new Request(`http://localhost/api/auth${path}`));
+	return {
+		status: response.status,
+		contentType: response.headers.get('content-type'),
+		disposition: response.headers.get('content-disposition'),
+		// The writer only emits Latin-1 and leaves the content streams uncompressed
+		body: Buffer.from(await response.arrayBuffer()).toString('latin1'),
+	};
+}
+
+function actAs(role: string, warehouseId: string) {
+	mockSessionUser = { ...mockSessionUser, role, warehouseId };
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	cedisWarehouseId = randomUUID();
+	storeWarehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: cedisWarehouseId,
+			name: 'Documents CEDIS',
+			code: `TST-C-${cedisWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: storeWarehouseId,
+			name: 'Documents Store',
+			code: `TST-S-${storeWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Documents Other',
+			code: `TST-O-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	testUserId = randomUUID();
+	const email = `documents.${Date.now()}@shipping-documents-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Documents Admin',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: cedisWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: testUserId,
+		name: 'Documents Admin',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: cedisWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [cedisWarehouseId, storeWarehouseId, otherWarehouseId];
+	const transfers = await db
+		.select({ id: warehouseTransfer.id })
+		.from(warehouseTransfer)
+		.where(inArray(warehouseTransfer.destinationWarehouseId, warehouseIds));
+	const transferIds = transfers.map((transfer) => transfer.id);
+	if (transferIds.length > 0) {
+		await db
+			.delete(warehouseTransferDetails)
+			.where(inArray(warehouseTransferDetails.transferId, transferIds));
+		await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	}
+	await db
+		.delete(replenishmentOrder)
+		.where(inArray(replenishmentOrder.sourceWarehouseId, warehouseIds));
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Shipping documents', () => {
+	it('prints the transfer manifest with every unit and scopes it to both warehouses', async () => {
+		actAs('admin', cedisWarehouseId);
+		const units = await db
+			.insert(productStock)
+			.values([
+				{
+					barcode: TRANSFER_BARCODE,
+					currentWarehouse: cedisWarehouseId,
+					description: 'Guantes de nitrilo',
+					lotNumber: 'L-2026-07',
+					expiresAt: '2027-01-31',
+				},
+				{ barcode: TRANSFER_BARCODE, currentWarehouse: cedisWarehouseId },
+			])
+			.returning({ id: productStock.id });
+		const [transfer] = await db
+			.insert(warehouseTransfer)
+			.values({
+				transferNumber,
+				transferType: 'external',
+				sourceWarehouseId: cedisWarehouseId,
+				destinationWarehouseId: storeWarehouseId,
+				initiatedBy: testUserId,
+				totalItems: units.length,
+				priority: 'urgent',
+			})
+			.returning({ id: warehouseTransfer.id });
+		await db.insert(warehouseTransferDetails).values(
+			units.map((unit) => ({
+				transferId: transfer.id,
+				productStockId: unit.id,
+				quantityTransferred: 1,
+			})),
+		);
+
+		const manifest = await fetchDocument(`/warehouse-transfers/manifest?transferId=${transfer.id}`);
+		expect(manifest.status).toBe(200);
+		expect(manifest.contentType).toBe('application/pdf');
+		expect(manifest.disposition).toBe(`inline; filename="manifiesto-${transferNumber}.pdf"`);
+		expect(manifest.body.startsWith('%PDF-1.4')).toBe(true);
+		expect(manifest.body).toContain(`(${transferNumber})`);
+		expect(manifest.body).toContain('(Documents CEDIS)');
+		expect(manifest.body).toContain('(Documents Store)');
+		expect(manifest.body).toContain('(Urgente)');
+		expect(manifest.body).toContain('(Guantes de nitrilo)');
+		expect(manifest.body).toContain('(L-2026-07)');
+		for (const unit of units) {
+			expect(manifest.body).toContain(`(${unit.id})`);
+		}
+		expect(manifest.body).toContain('(Total de unidades: 2)');
+		expect(manifest.body).toContain('(Página 1 de 1)');
+
+		const missing = await fetchDocument(`/warehouse-transfers/manifest?transferId=${randomUUID()}`);
+		expect(missing.status).toBe(404);
+
+		actAs('employee', storeWarehouseId);
+		expect(
+			(await fetchDocument(`/warehouse-transfers/manifest?transferId=${transfer.id}`)).status,
+		).toBe(200);
+		actAs('employee', otherWarehouseId);
+		expect(
+			(await fetchDocument(`/warehouse-transfers/manifest?transferId=${transfer.id}`)).status,
+		).toBe(403);
+	});
+
+	it('suggests CEDIS units first expired first out on the picking sheet', async () => {
+		actAs('admin', cedisWarehouseId);
+		const [later, sooner, busy] = await db
+			.insert(productStock)
+			.values([
+				{ barcode: PICKING_BARCODE, currentWarehouse: cedisWarehouseId, expiresAt: '2027-03-01' },
+				{ barcode: PICKING_BARCODE, currentWarehouse: cedisWarehouseId, expiresAt: '2026-12-01' },
+				{
+					barcode: PICKING_BARCODE,
+					currentWarehouse: cedisWarehouseId,
+					expiresAt: '2026-11-01',
+					isBeingUsed: true,
+				},
+			])
+			.returning({ id: productStock.id });
+		const orderNumber = `TST-${randomUUID().slice(0, 8)}-PICK`;
+		const [order] = await db
+			.insert(replenishmentOrder)
+			.values({ orderNumber, sourceWarehouseId: storeWarehouseId, cedisWarehouseId })
+			.returning({ id: replenishmentOrder.id });
+		await db
+			.insert(replenishmentOrderDetails)
+			.values({ replenishmentOrderId: order.id, barcode: PICKING_BARCODE, quantity: 4, sentQuantity: 1 });
+
+		const sheet = await fetchDocument(`/replenishment-orders/${order.id}/picking-sheet`);
+		expect(sheet.status).toBe(200);
+		expect(sheet.contentType).toBe('application/pdf');
+		expect(sheet.disposition).toBe(`inline; filename="surtido-${orderNumber}.pdf"`);
+		expect(sheet.body).toContain(`(${orderNumber})`);
+		expect(sheet.body.indexOf(`(${sooner.id})`)).toBeGreaterThan(-1);
+		expect(sheet.body.indexOf(`(${sooner.id})`)).toBeLessThan(sheet.body.indexOf(`(${later.id})`));
+		expect(sheet.body).not.toContain(busy.id);
+		expect(sheet.body).toContain('(   Existencias insuficientes: faltan 1)');
+		expect(sheet.body).toContain('(Unidades por surtir: 3)');
+
+		actAs('employee', otherWarehouseId);
+		expect((await fetchDocument(`/replenishment-orders/${order.id}/picking-sheet`)).status).toBe(
+			403,
+		);
+	});
+});
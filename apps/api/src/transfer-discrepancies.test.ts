@@ -0,0 +1,380 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	inventoryShrinkageEvent,
+	notification,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+
+const BARCODE = 8_920_001;
+
+let sourceWarehouseId: string;
+let destinationWarehouseId: string;
+let testUserId: string;
+let sourceUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+const transferNumber = `DISC-${randomUUID().slice(0, 8)}`;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	// HTTPExceptions thrown by the lib respond with plain text
+	const isJson = response.headers.get('content-type')?.includes('application/json');
+	return { status: response.status, json: isJson ? await response.json() : null };
+}
+
+async function sourceNotifications() {
+	return await db
+		.select({ type: notification.type, title: notification.title, body: notification.body })
+		.from(notification)
+		.where(eq(notification.userId, sourceUserId))
+		.orderBy(notification.createdAt);
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	const now = new Date();
+	sourceWarehouseId = randomUUID();
+	destinationWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: sourceWarehouseId,
+			name: 'Discrepancy Source',
+			code: `DSC-S-${sourceWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: destinationWarehouseId,
+			name: 'Discrepancy Destination',
+			code: `DSC-D-${destinationWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	testUserId = randomUUID();
+	sourceUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Discrepancy Admin',
+		email: `admin.${Date.now()}@transfer-discrepancies-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: destinationWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values([
+		mockSessionUser,
+		{
+			id: sourceUserId,
+			name: 'Discrepancy Source Encargado',
+			email: `source.${Date.now()}@transfer-discrepancies-suite.dev`,
+			emailVerified: false,
+			role: 'encargado',
+			warehouseId: sourceWarehouseId,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [sourceWarehouseId, destinationWarehouseId];
+	const transfers = await db
+		.select({ id: warehouseTransfer.id })
+		.from(warehouseTransfer)
+		.where(eq(warehouseTransfer.transferNumber, transferNumber));
+	const transferIds = transfers.map((transfer) => transfer.id);
+	await db
+		.delete(productStockUsageHistory)
+		.where(inArray(productStockUsageHistory.warehouseId, warehouseIds));
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(inArray(inventoryShrinkageEvent.warehouseId, warehouseIds));
+	if (transferIds.length > 0) {
+		await db
+			.delete(warehouseTransferDetails)
+			.where(inArray(warehouseTransferDetails.transferId, transferIds));
+		await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	}
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db.delete(user).where(inArray(user.id, [testUserId, sourceUserId]));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Transfer discrepancy resolution', () => {
+	let transferId: string;
+	// received, damaged, returned, in transit, unresolved
+	const detailIds: string[] = [];
+	const unitIds: string[] = [];
+
+	it('lists missing and damaged items of an external transfer', async () => {
+		const units = await db
+			.insert(productStock)
+			.values(
+				Array.from({ length: 5 }, () => ({
+					barcode: BARCODE,
+					currentWarehouse: sourceWarehouseId,
+				})),
+			)
+			.returning({ id: productStock.id });
+		unitIds.push(...units.map((unit) => unit.id));
+
+		const created = await send('/warehouse-transfers/create', 'POST', {
+			transferNumber,
+			transferType: 'external',
+			sourceWarehouseId,
+			destinationWarehouseId,
+			initiatedBy: testUserId,
+			transferDetails: unitIds.map((productStockId) => ({
+				productStockId,
+				quantityTransferred: 1,
+				goodId: BARCODE,
+				costPerUnit: 0,
+			})),
+		});
+		expect(created.status).toBe(201);
+		transferId = created.json.data.transfer.id;
+		const details = await db
+			.select({
+				id: warehouseTransferDetails.id,
+				productStockId: warehouseTransferDetails.productStockId,
+			})
+			.from(warehouseTransferDetails)
+			.where(eq(warehouseTransferDetails.transferId, transferId));
+		for (const unitId of unitIds) {
+			detailIds.push(details.find((detail) => detail.productStockId === unitId)?.id as string);
+		}
+		for (const status of ['picked', 'dispatched', 'in_transit']) {
+			// biome-ignore lint: Transitions must be applied in order
+			const moved = await send('/warehouse-transfers/transition', 'POST', { transferId, status });
+			expect(moved.status).toBe(200);
+		}
+
+		const received = await send('/warehouse-transfers/update-item-status', 'POST', {
+			transferDetailId: detailIds[0],
+			isReceived: true,
+		});
+		expect(received.status).toBe(200);
+		const damaged = await send('/warehouse-transfers/update-item-status', 'POST', {
+			transferDetailId: detailIds[1],
+			isReceived: true,
+			itemCondition: 'damaged',
+		});
+		expect(damaged.status).toBe(200);
+
+		const report = await send(`/warehouse-transfers/discrepancies?transferId=${transferId}`, 'GET');
+		expect(report.status).toBe(200);
+		const listedDetailIds = report.json.data.items.map(
+			(item: { transferDetailId: string }) => item.transferDetailId,
+		);
+		expect(listedDetailIds.sort()).toEqual(detailIds.slice(1).sort());
+		expect(report.json.data.summary).toEqual({
+			missingItems: 3,
+			damagedItems: 1,
+			unresolvedItems: 4,
+			outcomes: { return_to_source: 0, damaged: 0, in_transit: 0, found: 0 },
+		});
+	});
+
+	it('turns each outcome into a stock movement', async () => {
+		const notDiscrepancy = await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+			transferId,
+			items: [{ transferDetailId: detailIds[0], outcome: 'return_to_source' }],
+		});
+		expect(notDiscrepancy.status).toBe(400);
+		const foundDamaged = await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+			transferId,
+			items: [{ transferDetailId: detailIds[1], outcome: 'found' }],
+		});
+		expect(foundDamaged.status).toBe(400);
+
+		const resolved = await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+			transferId,
+			items: [
+				{ transferDetailId: detailIds[1], outcome: 'damaged', notes: 'Caja aplastada' },
+				{ transferDetailId: detailIds[2], outcome: 'return_to_source' },
+				{ transferDetailId: detailIds[3], outcome: 'in_transit' },
+			],
+		});
+		expect(resolved.status).toBe(200);
+		expect(resolved.json.data.summary.outcomes).toEqual({
+			return_to_source: 1,
+			damaged: 1,
+			in_transit: 1,
+			found: 0,
+		});
+		expect(resolved.json.data.summary.unresolvedItems).toBe(1);
+
+		const units = await db
+			.select({
+				id: productStock.id,
+				currentWarehouse: productStock.currentWarehouse,
+				isDeleted: productStock.isDeleted,
+			})
+			.from(productStock)
+			.where(inArray(productStock.id, unitIds.slice(1, 4)));
+		const unitsById = new Map(units.map((unit) => [unit.id, unit]));
+		expect(unitsById.get(unitIds[1])).toEqual(
+			expect.objectContaining({ currentWarehouse: destinationWarehouseId, isDeleted: true }),
+		);
+		expect(unitsById.get(unitIds[2])).toEqual(
+			expect.objectContaining({ currentWarehouse: sourceWarehouseId, isDeleted: false }),
+		);
+
+		const [damagedEvent] = await db
+			.select()
+			.from(inventoryShrinkageEvent)
+			.where(eq(inventoryShrinkageEvent.productStockId, unitIds[1]));
+		expect(damagedEvent).toEqual(
+			expect.objectContaining({
+				source: 'transfer_discrepancy',
+				reason: 'dañado',
+				notes: 'Caja aplastada',
+				warehouseId: destinationWarehouseId,
+				transferId,
+			}),
+		);
+
+		const movements = await db
+			.select({
+				productStockId: productStockUsageHistory.productStockId,
+				movementType: productStockUsageHistory.movementType,
+				action: productStockUsageHistory.action,
+			})
+			.from(productStockUsageHistory)
+			.where(
+				and(
+					inArray(productStockUsageHistory.productStockId, unitIds.slice(1, 4)),
+					eq(productStockUsageHistory.userId, testUserId),
+				),
+			);
+		expect(movements).toEqual(
+			expect.arrayContaining([
+				{ productStockId: unitIds[1], movementType: 'other', action: 'checkout' },
+				{ productStockId: unitIds[2], movementType: 'return', action: 'checkin' },
+				{ productStockId: unitIds[3], movementType: 'transfer', action: 'transfer' },
+			]),
+		);
+
+		const again = await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+			transferId,
+			items: [{ transferDetailId: detailIds[2], outcome: 'damaged' }],
+		});
+		expect(again.status).toBe(409);
+		const tick = await send('/warehouse-transfers/update-item-status', 'POST', {
+			transferDetailId: detailIds[2],
+			isReceived: true,
+		});
+		expect(tick.status).toBe(409);
+	});
+
+	it('writes off only unresolved items on completion and reports to the origin', async () => {
+		const completed = await send('/warehouse-transfers/update-status', 'POST', {
+			transferId,
+			isCompleted: true,
+			replicateToAltegio: false,
+		});
+		expect(completed.status).toBe(200);
+
+		const missingEvents = await db
+			.select({ productStockId: inventoryShrinkageEvent.productStockId })
+			.from(inventoryShrinkageEvent)
+			.where(
+				and(
+					eq(inventoryShrinkageEvent.transferId, transferId),
+					eq(inventoryShrinkageEvent.source, 'transfer_missing'),
+				),
+			);
+		expect(missingEvents).toEqual([{ productStockId: unitIds[4] }]);
+
+		const notifications = await sourceNotifications();
+		expect(notifications).toHaveLength(1);
+		expect(notifications[0]).toEqual(
+			expect.objectContaining({
+				type: 'transfer_discrepancy',
+				title: `Discrepancias en traspaso ${transferNumber}`,
+			}),
+		);
+		expect(notifications[0].body).toContain('1 registrado(s) como faltante');
+	});
+
+	it('accepts follow-ups only for items still in transit', async () => {
+		const unresolved = await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+			transferId,
+			items: [{ transferDetailId: detailIds[4], outcome: 'found' }],
+		});
+		expect(unresolved.status).toBe(409);
+
+		const found = await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+			transferId,
+			items: [{ transferDetailId: detailIds[3], outcome: 'found' }],
+		});
+		expect(found.status).toBe(200);
+		expect(found.json.data.summary.outcomes.found).toBe(1);
+
+		const [unit] = await db
+			.select({ currentWarehouse: productStock.currentWarehouse })
+			.from(productStock)
+			.where(eq(productStock.id, unitIds[3]));
+		expect(unit.currentWarehouse).toBe(destinationWarehouseId);
+		const [detail] = await db
+			.select({ isReceived: warehouseTransferDetails.isReceived })
+			.from(warehouseTransferDetails)
+			.where(eq(warehouseTransferDetails.id, detailIds[3]));
+		expect(detail.isReceived).toBe(true);
+
+		const notifications = await sourceNotifications();
+		expect(notifications).toHaveLength(2);
+		expect(notifications[1].body).toContain('1 encontrado(s)');
+	});
+});
@@ -0,0 +1,299 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	employee,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { issueEmployeeToken } from './lib/employee-passcodes';
+
+const BARCODE = 8_940_001;
+
+let sourceWarehouseId: string;
+let destinationWarehouseId: string;
+let testUserId: string;
+let employeeId: string;
+let originalGetSession: typeof auth.api.getSession;
+let originalTokenSecret: string | undefined;
+const transferPrefix = `TST-${randomUUID().slice(0, 8)}`;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const { token } = issueEmployeeToken({
+		id: employeeId,
+		userId: testUserId,
+		warehouseId: sourceWarehouseId,
+	});
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json', 'X-Employee-Token': token },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	// HTTPExceptions thrown by the lib respond with plain text
+	const isJson = response.headers.get('content-type')?.includes('application/json');
+	return {
+		status: response.status,
+		json: isJson ? await response.json() : null,
+		text: isJson ? null : await response.text(),
+	};
+}
+
+function transition(transferId: string, status: string) {
+	return send('/warehouse-transfers/transition', 'POST', { transferId, status });
+}
+
+async function createTransfer(suffix: string) {
+	const [unit] = await db
+		.insert(productStock)
+		.values({ barcode: BARCODE, currentWarehouse: sourceWarehouseId })
+		.returning({ id: productStock.id });
+	const created = await send('/warehouse-transfers/create', 'POST', {
+		transferNumber: `${transferPrefix}-${suffix}`,
+		transferType: 'external',
+		sourceWarehouseId,
+		destinationWarehouseId,
+		initiatedBy: testUserId,
+		transferDetails: [
+			{ productStockId: unit.id, quantityTransferred: 1, goodId: BARCODE, costPerUnit: 0 },
+		],
+	});
+	expect(created.status).toBe(201);
+	const { transfer, details } = created.json.data as {
+		transfer: { id: string; status: string };
+		details: { id: string }[];
+	};
+	return { transfer, detailId: details[0].id, unitId: unit.id };
+}
+
+async function getUnit(unitId: string) {
+	const [unit] = await db.select().from(productStock).where(eq(productStock.id, unitId));
+	return unit;
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalTokenSecret = process.env.EMPLOYEE_TOKEN_SECRET;
+	process.env.EMPLOYEE_TOKEN_SECRET = 'transfer-status-suite-secret';
+
+	const now = new Date();
+	sourceWarehouseId = randomUUID();
+	destinationWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: sourceWarehouseId,
+			name: 'Status CEDIS',
+			code: `TST-S-${sourceWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: destinationWarehouseId,
+			name: 'Status Store',
+			code: `TST-D-${destinationWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	employeeId = randomUUID();
+	await db
+		.insert(employee)
+		.values({ id: employeeId, name: 'Status', surname: 'Employee', warehouseId: sourceWarehouseId });
+
+	testUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Status Admin',
+		email: `admin.${Date.now()}@transfer-status-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId: destinationWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values(mockSessionUser);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const warehouseIds = [sourceWarehouseId, destinationWarehouseId];
+	const transfers = await db
+		.select({ id: warehouseTransfer.id })
+		.from(warehouseTransfer)
+		.where(inArray(warehouseTransfer.destinationWarehouseId, warehouseIds));
+	const transferIds = transfers.map((transfer) => transfer.id);
+	await db
+		.delete(productStockUsageHistory)
+		.where(inArray(productStockUsageHistory.warehouseId, warehouseIds));
+	if (transferIds.length > 0) {
+		await db
+			.delete(warehouseTransferDetails)
+			.where(inArray(warehouseTransferDetails.transferId, transferIds));
+		await db.delete(warehouseTransfer).where(inArray(warehouseTransfer.id, transferIds));
+	}
+	await db.delete(productStock).where(inArray(productStock.currentWarehouse, warehouseIds));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, warehouseIds));
+
+	auth.api.getSession = originalGetSession;
+	if (originalTokenSecret === undefined) {
+		delete process.env.EMPLOYEE_TOKEN_SECRET;
+	} else {
+		process.env.EMPLOYEE_TOKEN_SECRET = originalTokenSecret;
+	}
+});
+
+describe('Transfer status', () => {
+	it('moves a transfer from draft to closed with a timestamp and actor per state', async () => {
+		const { transfer, detailId, unitId } = await createTransfer('FLOW');
+		expect(transfer.status).toBe('draft');
+
+		const skipped = await transition(transfer.id, 'dispatched');
+		expect(skipped.status).toBe(409);
+		expect(skipped.text).toBe('Transfer cannot move from draft to dispatched');
+
+		const picked = await transition(transfer.id, 'picked');
+		expect(picked.status).toBe(200);
+		expect(picked.json.data).toEqual(
+			expect.objectContaining({ status: 'picked', pickedByUserId: testUserId }),
+		);
+		expect(picked.json.data.pickedAt).not.toBeNull();
+
+		const early = await send('/warehouse-transfers/update-item-status', 'POST', {
+			transferDetailId: detailId,
+			isReceived: true,
+		});
+		expect(early.status).toBe(409);
+
+		const dispatched = await transition(transfer.id, 'dispatched');
+		expect(dispatched.status).toBe(200);
+		expect(dispatched.json.data.dispatchedByUserId).toBe(testUserId);
+		expect((await getUnit(unitId)).isInTransit).toBe(true);
+
+		const withdraw = await send('/withdraw-orders/create', 'POST', {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 1,
+			products: [unitId],
+		});
+		expect(withdraw.status).toBe(409);
+		expect(withdraw.json.data.conflictingProductIds).toEqual([unitId]);
+		expect(withdraw.json.message).toContain('in transit');
+
+		const inTransit = await transition(transfer.id, 'in_transit');
+		expect(inTransit.status).toBe(200);
+		expect((await transition(transfer.id, 'cancelled')).status).toBe(409);
+		expect((await transition(transfer.id, 'closed')).status).toBe(409);
+
+		const received = await send('/warehouse-transfers/update-item-status', 'POST', {
+			transferDetailId: detailId,
+			isReceived: true,
+		});
+		expect(received.status).toBe(200);
+		const completed = await send('/warehouse-transfers/update-status', 'POST', {
+			transferId: transfer.id,
+			isCompleted: true,
+			replicateToAltegio: false,
+		});
+		expect(completed.status).toBe(200);
+		expect(completed.json.data).toEqual(
+			expect.objectContaining({
+				status: 'received',
+				isCompleted: true,
+				receivedByUserId: testUserId,
+			}),
+		);
+		const unit = await getUnit(unitId);
+		expect(unit.isInTransit).toBe(false);
+		expect(unit.currentWarehouse).toBe(destinationWarehouseId);
+
+		const closed = await transition(transfer.id, 'closed');
+		expect(closed.status).toBe(200);
+		expect(closed.json.data).toEqual(
+			expect.objectContaining({ status: 'closed', closedByUserId: testUserId }),
+		);
+
+		const listed = await send('/warehouse-transfers/all?status=closed', 'GET');
+		expect(listed.json.data.map((row: { id: string }) => row.id)).toContain(transfer.id);
+	});
+
+	it('releases the units of a dispatched transfer when it is cancelled', async () => {
+		const { transfer, unitId } = await createTransfer('CANCEL');
+		expect((await transition(transfer.id, 'picked')).status).toBe(200);
+		expect((await transition(transfer.id, 'dispatched')).status).toBe(200);
+		expect((await getUnit(unitId)).isInTransit).toBe(true);
+
+		const cancelled = await transition(transfer.id, 'cancelled');
+		expect(cancelled.status).toBe(200);
+		expect(cancelled.json.data).toEqual(
+			expect.objectContaining({
+				status: 'cancelled',
+				isCancelled: true,
+				cancelledByUserId: testUserId,
+			}),
+		);
+		expect((await getUnit(unitId)).isInTransit).toBe(false);
+	});
+
+	it('refuses to dispatch units that are no longer available at the source', async () => {
+		const { transfer, unitId } = await createTransfer('BUSY');
+		expect((await transition(transfer.id, 'picked')).status).toBe(200);
+		await db.update(productStock).set({ isBeingUsed: true }).where(eq(productStock.id, unitId));
+
+		const dispatched = await transition(transfer.id, 'dispatched');
+		expect(dispatched.status).toBe(409);
+		expect(dispatched.text).toBe(`Units ${unitId} are not available at the source warehouse`);
+		expect((await getUnit(unitId)).isInTransit).toBe(false);
+	});
+
+	it('rejects contradictory legacy flags', async () => {
+		const { transfer } = await createTransfer('FLAGS');
+		const contradictory = await send('/warehouse-transfers/update-status', 'POST', {
+			transferId: transfer.id,
+			isCompleted: true,
+			isCancelled: true,
+			replicateToAltegio: false,
+		});
+		expect(contradictory.status).toBe(400);
+	});
+});
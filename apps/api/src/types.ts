@@ -227,6 +227,23 @@ export type AltegioOperationUnitType = 1 | 2; // 1 = Unit, 2 = Unknown
 export type SyncOptions = {
 	warehouseId?: string;
 	dryRun?: boolean;
+	/** When true, surplus units (local count above Altegio) are retired as well */
+	reconcile?: boolean;
+	/** User recorded on the shrinkage events created by reconciliation */
+	userId?: string;
+};
+
+export type SyncBarcodeDiff = {
+	barcode: number;
+	description: string;
+	target: number;
+	existing: number;
+	toInsert: number;
+	inserted: number;
+	toRetire: number;
+	retired: number;
+	/** Surplus units that cannot be retired because they are in use, in transit, in a kit or in a withdraw order */
+	blocked: number;
 };
 
 export type SyncWarehouseSummary = {
@@ -241,11 +258,16 @@ export type SyncWarehouseSummary = {
 	inserted: number;
 	skippedInvalid: number;
 	overTargetExisting: number;
+	toRetire: number;
+	retired: number;
+	blockedSurplus: number;
 	cappedProducts: Array<{
 		barcode: number;
 		requested: number;
 		applied: number;
 	}>;
+	/** Per-barcode differences (only barcodes where local and Altegio counts disagree) */
+	diff: SyncBarcodeDiff[];
 };
 
 export type SyncResult = {
@@ -259,9 +281,13 @@ export type SyncResult = {
 		inserted: number;
 		skippedInvalid: number;
 		overTargetExisting: number;
+		toRetire: number;
+		retired: number;
+		blockedSurplus: number;
 	};
 	meta: {
 		dryRun: boolean;
+		reconcile: boolean;
 		fetchedAt: string;
 		pageSize: number;
 		insertChunkSize: number;
@@ -319,7 +345,37 @@ export const replenishmentOrderUpdateSchema = z
 	);
 
 export const replenishmentOrderStatusQuerySchema = z.object({
-	status: z.enum(['open', 'sent', 'received']).optional(),
+	status: z.enum(['draft', 'open', 'sent', 'received', 'awaiting_approval']).optional(),
+});
+
+export const replenishmentPlanSchema = z.object({
+	warehouseId: z
+		.string()
+		.uuid('Invalid warehouse ID')
+		.optional()
+		.describe('Plan a single warehouse; omit to plan every warehouse with quantity limits'),
+	cedisWarehouseId: z
+		.string()
+		.uuid('Invalid CEDIS warehouse ID')
+		.optional()
+		.describe('CEDIS that fulfills the drafts; defaults to the first active CEDIS'),
+	dryRun: z.boolean().default(false).describe('Compute the plan without writing drafts'),
+});
+
+export const replenishmentOrderReviewSchema = z.object({
+	items: z
+		.array(
+			z.object({
+				barcode: z.number().int().nonnegative(),
+				quantity: z
+					.number()
+					.int()
+					.nonnegative()
+					.describe('Reviewed quantity; 0 removes the barcode from the order'),
+			}),
+		)
+		.optional(),
+	notes: z.string().trim().max(2000, 'Notes must be 2000 characters or fewer').optional(),
 });
 
 export const replenishmentOrderLinkTransferSchema = z.object({
@@ -336,6 +392,399 @@ export type ReplenishmentOrderStatusFilter = z.infer<
 	typeof replenishmentOrderStatusQuerySchema
 >['status'];
 export type ReplenishmentOrderLinkTransfer = z.infer<typeof replenishmentOrderLinkTransferSchema>;
+export type ReplenishmentPlanInput = z.infer<typeof replenishmentPlanSchema>;
+export type ReplenishmentOrderReview = z.infer<typeof replenishmentOrderReviewSchema>;
+
+// Cycle Count Types
+
+export const cycleCountStatuses = ['open', 'closed', 'cancelled'] as const;
+
+export const cycleCountOpenSchema = z.object({
+	warehouseId: z.string().uuid('Invalid warehouse ID').describe('Warehouse being counted'),
+	cabinetId: z
+		.string()
+		.uuid('Invalid cabinet ID')
+		.optional()
+		.describe('Limit the count to one cabinet of the warehouse'),
+	notes: z.string().trim().max(500, 'Notes must be 500 characters or fewer').optional(),
+});
+
+export const cycleCountScanSchema = z
+	.object({
+		barcode: z.coerce.number().int().nonnegative().describe('Scanned product barcode'),
+		uuid: z
+			.string()
+			.uuid('Invalid product stock ID')
+			.optional()
+			.describe('Product stock UUID from a `{barcode, uuid}` QR code'),
+		quantity: z
+			.number()
+			.int()
+			.min(1)
+			.max(500)
+			.default(1)
+			.describe('Units counted for a barcode-only scan'),
+	})
+	.refine((value) => value.uuid === undefined || value.quantity === 1, {
+		message: 'Quantity must be 1 when scanning a unit QR code',
+		path: ['quantity'],
+	});
+
+export const cycleCountCloseSchema = z.object({
+	reason: z.enum(['consumido', 'dañado', 'otro']).default('otro'),
+	notes: z.string().trim().max(500, 'Notes must be 500 characters or fewer').optional(),
+});
+
+export const cycleCountListQuerySchema = z.object({
+	warehouseId: z.string().uuid('Invalid warehouse ID').optional(),
+	status: z.enum(cycleCountStatuses).optional(),
+});
+
+export type CycleCountStatus = (typeof cycleCountStatuses)[number];
+export type CycleCountOpen = z.infer<typeof cycleCountOpenSchema>;
+export type CycleCountScan = z.infer<typeof cycleCountScanSchema>;
+export type CycleCountClose = z.infer<typeof cycleCountCloseSchema>;
+
+// Audit Log Types
+
+export const auditEntityTypes = [
+	'warehouse',
+	'stock_limit',
+	'user',
+	'kit',
+	'kit_item',
+	'warehouse_transfer',
+	'warehouse_transfer_detail',
+	'replenishment_order',
+	'role_permissions',
+] as const;
+
+export const auditActions = ['create', 'update', 'delete', 'status_change'] as const;
+
+export const auditLogQuerySchema = z.object({
+	entityType: z.enum(auditEntityTypes).optional(),
+	entityId: z.string().min(1).optional().describe('Exact entity identifier'),
+	actorUserId: z.string().min(1).optional(),
+	action: z.enum(auditActions).optional(),
+	start: z.string().min(1).optional().describe('Inclusive lower bound (ISO date)'),
+	end: z.string().min(1).optional().describe('Inclusive upper bound (ISO date)'),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	cursor: z.string().optional(),
+});
+
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+export type AuditAction = (typeof auditActions)[number];
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// Notification Types
+
+export const notificationRuleTypes = [
+	'low_stock',
+	'transfer_pending',
+	'withdraw_overdue',
+	'shrinkage_spike',
+] as const;
+
+export const notificationDeliveryModes = ['immediate', 'digest'] as const;
+
+export const notificationRuleRoles = ['admin', 'encargado', 'manager', 'employee', 'viewer'] as const;
+
+export const notificationRuleCreateSchema = z.object({
+	type: z.enum(notificationRuleTypes),
+	warehouseId: z
+		.string()
+		.uuid('Invalid warehouse ID')
+		.nullable()
+		.default(null)
+		.describe('Warehouse to watch; null watches every warehouse'),
+	role: z.enum(notificationRuleRoles),
+	threshold: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe('Hours (transfer_pending, withdraw_overdue) or write-offs per day (shrinkage_spike)'),
+	sendEmail: z.boolean().default(false),
+	deliveryMode: z.enum(notificationDeliveryModes).default('immediate'),
+	isActive: z.boolean().default(true),
+});
+
+// Defaults are left out so a partial update never resets the fields it does not send
+export const notificationRuleUpdateSchema = z.object({
+	warehouseId: z.string().uuid('Invalid warehouse ID').nullable().optional(),
+	role: z.enum(notificationRuleRoles).optional(),
+	threshold: z.number().int().min(1).nullable().optional(),
+	sendEmail: z.boolean().optional(),
+	deliveryMode: z.enum(notificationDeliveryModes).optional(),
+	isActive: z.boolean().optional(),
+});
+
+export const notificationListQuerySchema = z.object({
+	unreadOnly: z
+		.enum(['true', 'false'])
+		.optional()
+		.transform((value) => value === 'true'),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type NotificationRuleType = (typeof notificationRuleTypes)[number];
+export type NotificationDeliveryMode = (typeof notificationDeliveryModes)[number];
+export type NotificationRuleCreate = z.infer<typeof notificationRuleCreateSchema>;
+export type NotificationRuleUpdate = z.infer<typeof notificationRuleUpdateSchema>;
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+
+// Webhook Types
+
+export const webhookEventTypes = [
+	'transfer.completed',
+	'shrinkage.recorded',
+	'replenishment_order.sent',
+] as const;
+
+export const webhookDeliveryStatuses = ['pending', 'processing', 'succeeded', 'failed'] as const;
+
+const webhookUrlSchema = z
+	.string()
+	.url('Invalid webhook URL')
+	.refine((value) => /^https?:\/\//i.test(value), 'Webhook URL must use http or https');
+
+export const webhookSubscriptionCreateSchema = z.object({
+	name: z.string().trim().min(1, 'Name is required').max(100),
+	url: webhookUrlSchema,
+	eventTypes: z.array(z.enum(webhookEventTypes)).min(1, 'Select at least one event type'),
+	secret: z
+		.string()
+		.min(16, 'Secret must have at least 16 characters')
+		.optional()
+		.describe('Signing secret; generated when omitted'),
+	isActive: z.boolean().default(true),
+});
+
+export const webhookSubscriptionUpdateSchema = z.object({
+	name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+	url: webhookUrlSchema.optional(),
+	eventTypes: z
+		.array(z.enum(webhookEventTypes))
+		.min(1, 'Select at least one event type')
+		.optional(),
+	isActive: z.boolean().optional(),
+	rotateSecret: z.boolean().optional().describe('Replace the signing secret with a new one'),
+});
+
+export const webhookDeliveryListQuerySchema = z.object({
+	subscriptionId: z.string().uuid('Invalid webhook subscription ID').optional(),
+	status: z.enum(webhookDeliveryStatuses).optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type WebhookEventType = (typeof webhookEventTypes)[number];
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+export type WebhookSubscriptionCreate = z.infer<typeof webhookSubscriptionCreateSchema>;
+export type WebhookSubscriptionUpdate = z.infer<typeof webhookSubscriptionUpdateSchema>;
+export type WebhookDeliveryListQuery = z.infer<typeof webhookDeliveryListQuerySchema>;
+
+// Purchase Order Types
+
+export const purchaseOrderStatuses = ['draft', 'sent', 'partially_received', 'closed'] as const;
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+export const supplierCreateSchema = z.object({
+	name: z.string().trim().min(1, 'Name is required').max(200),
+	contactName: optionalText(200),
+	email: z.string().trim().email('Invalid email').optional(),
+	phone: optionalText(50),
+	notes: optionalText(2000),
+	isActive: z.boolean().default(true),
+});
+
+export const supplierUpdateSchema = z.object({
+	name: z.string().trim().min(1, 'Name is required').max(200).optional(),
+	contactName: z.string().trim().max(200).nullable().optional(),
+	email: z.string().trim().email('Invalid email').nullable().optional(),
+	phone: z.string().trim().max(50).nullable().optional(),
+	notes: z.string().trim().max(2000).nullable().optional(),
+	isActive: z.boolean().optional(),
+});
+
+export const supplierProductsSchema = z.object({
+	barcodes: z
+		.array(z.number().int().nonnegative())
+		.max(5000)
+		.describe('Barcodes supplied by default by this supplier; replaces the previous list'),
+});
+
+export const purchaseOrderGenerateSchema = z.object({
+	cedisWarehouseId: z.string().uuid('Invalid CEDIS warehouse ID'),
+	detailIds: z
+		.array(z.string().uuid('Invalid detail ID format'))
+		.min(1)
+		.optional()
+		.describe('Only group these unfulfilled replenishment details; all of them when omitted'),
+});
+
+export const purchaseOrderCreateSchema = z.object({
+	supplierId: z.string().uuid('Invalid supplier ID'),
+	cedisWarehouseId: z.string().uuid('Invalid CEDIS warehouse ID'),
+	detailIds: z
+		.array(z.string().uuid('Invalid detail ID format'))
+		.min(1, 'At least one detail ID is required'),
+	notes: optionalText(2000),
+});
+
+export const purchaseOrderListQuerySchema = z.object({
+	status: z.enum(purchaseOrderStatuses).optional(),
+	supplierId: z.string().uuid('Invalid supplier ID').optional(),
+	cedisWarehouseId: z.string().uuid('Invalid CEDIS warehouse ID').optional(),
+});
+
+/**
+ * Optional lot and expiration date captured when units enter the inventory.
+ */
+export const productStockLotSchema = z.object({
+	lotNumber: z.string().trim().min(1).max(100).optional().describe('Supplier lot number'),
+	expiresAt: z.iso
+		.date('expiresAt must be a YYYY-MM-DD date')
+		.optional()
+		.describe('Expiration date (YYYY-MM-DD)'),
+});
+
+export const purchaseOrderReceiveSchema = z.object({
+	items: z
+		.array(
+			z
+				.object({
+					barcode: z.number().int().nonnegative(),
+					quantity: z.number().int().positive(),
+					// Cost per unit on the supplier invoice; defaults to the catalog cost
+					unitCost: z.number().nonnegative().optional(),
+				})
+				.extend(productStockLotSchema.shape),
+		)
+		.min(1, 'At least one item is required'),
+});
+
+export type PurchaseOrderStatus = (typeof purchaseOrderStatuses)[number];
+export type SupplierCreate = z.infer<typeof supplierCreateSchema>;
+export type SupplierUpdate = z.infer<typeof supplierUpdateSchema>;
+export type PurchaseOrderGenerate = z.infer<typeof purchaseOrderGenerateSchema>;
+export type PurchaseOrderCreate = z.infer<typeof purchaseOrderCreateSchema>;
+export type PurchaseOrderListQuery = z.infer<typeof purchaseOrderListQuerySchema>;
+export type PurchaseOrderReceive = z.infer<typeof purchaseOrderReceiveSchema>;
+
+/**
+ * Outcomes for a transfer item that arrived missing or damaged:
+ * - return_to_source: the unit goes back to the origin warehouse
+ * - damaged: written off at the destination as `dañado` shrinkage
+ * - in_transit: still on its way; it can be resolved again once it shows up
+ * - found: the missing unit turned up and is received at the destination
+ */
+export const transferDiscrepancyOutcomes = [
+	'return_to_source',
+	'damaged',
+	'in_transit',
+	'found',
+] as const;
+
+export const transferDiscrepancyQuerySchema = z.object({
+	transferId: z.string().uuid('Invalid transfer ID'),
+});
+
+export const transferDiscrepancyResolveSchema = z.object({
+	transferId: z.string().uuid('Invalid transfer ID'),
+	items: z
+		.array(
+			z.object({
+				transferDetailId: z.string().uuid('Invalid transfer detail ID'),
+				outcome: z.enum(transferDiscrepancyOutcomes),
+				notes: optionalText(500),
+			}),
+		)
+		.min(1, 'At least one item is required'),
+});
+
+export type TransferDiscrepancyOutcome = (typeof transferDiscrepancyOutcomes)[number];
+export type TransferDiscrepancyResolve = z.infer<typeof transferDiscrepancyResolveSchema>;
+
+// Transfer Status Types
+
+/**
+ * Lifecycle of a warehouse transfer:
+ * draft → picked → dispatched → in_transit → received → closed, and cancelled before the
+ * goods leave (draft, picked or dispatched). Internal transfers are created closed.
+ */
+export const transferStatuses = [
+	'draft',
+	'picked',
+	'dispatched',
+	'in_transit',
+	'received',
+	'closed',
+	'cancelled',
+] as const;
+
+/**
+ * States reached through `POST /warehouse-transfers/transition`. Receiving goes through
+ * `/update-status`, which also replicates the received totals to Altegio.
+ */
+export const transferTransitionStatuses = [
+	'picked',
+	'dispatched',
+	'in_transit',
+	'closed',
+	'cancelled',
+] as const;
+
+export const transferTransitionSchema = z.object({
+	transferId: z.string().uuid('Invalid transfer ID'),
+	status: z.enum(transferTransitionStatuses),
+	notes: optionalText(1000),
+});
+
+export type TransferStatus = (typeof transferStatuses)[number];
+export type TransferTransition = z.infer<typeof transferTransitionSchema>;
+
+// Approval Types
+
+/**
+ * Approval of transfers and replenishment orders into warehouses with `requiresApproval`.
+ * Everything else is `not_required`.
+ */
+export const approvalStatuses = [
+	'not_required',
+	'awaiting_approval',
+	'approved',
+	'rejected',
+] as const;
+
+const approvalDecisionFields = {
+	decision: z.enum(['approve', 'reject']),
+	comment: optionalText(1000),
+};
+
+const rejectionComment = {
+	check: (input: { decision: 'approve' | 'reject'; comment?: string | undefined }) =>
+		input.decision === 'approve' || Boolean(input.comment),
+	params: { message: 'A comment is required to reject', path: ['comment'] },
+};
+
+export const approvalDecisionSchema = z
+	.object(approvalDecisionFields)
+	.refine(rejectionComment.check, rejectionComment.params);
+
+export const transferApprovalDecisionSchema = z
+	.object({
+		transferId: z.string().uuid('Invalid transfer ID'),
+		...approvalDecisionFields,
+	})
+	.refine(rejectionComment.check, rejectionComment.params);
+
+export type ApprovalStatus = (typeof approvalStatuses)[number];
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+
+export const domainEventStreamQuerySchema = z.object({
+	warehouseId: z.string().min(1).optional().describe('Only stream events of this warehouse'),
+});
 
 export const DistributionCenterId = '4818f28e-daf8-42f4-8d55-088d260b118d';
 
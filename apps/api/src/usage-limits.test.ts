@@ -0,0 +1,275 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	employee,
+	inventoryShrinkageEvent,
+	productStock,
+	productStockUsageHistory,
+	stockLimit,
+	user,
+	warehouse,
+	withdrawOrder,
+	withdrawOrderDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { issueEmployeeToken } from './lib/employee-passcodes';
+
+const BARCODE = 8_400_001;
+
+let warehouseId: string;
+let otherWarehouseId: string;
+let employeeId: string;
+let shelfUnitId: string;
+let withdrawnUnitId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let originalTokenSecret: string | undefined;
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const { token } = issueEmployeeToken({
+		id: employeeId,
+		userId: testUserId,
+		warehouseId: warehouseId,
+	});
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json', 'X-Employee-Token': token },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	return { status: response.status, json: await response.json() };
+}
+
+async function getUnit(id: string) {
+	const [row] = await db.select().from(productStock).where(eq(productStock.id, id));
+	return row;
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalTokenSecret = process.env.EMPLOYEE_TOKEN_SECRET;
+	process.env.EMPLOYEE_TOKEN_SECRET = 'usage-limits-suite-secret';
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Usage Limit Warehouse',
+			code: `USG-${warehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Usage Limit Other',
+			code: `USG-O-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	employeeId = randomUUID();
+	await db
+		.insert(employee)
+		.values({ id: employeeId, name: 'Usage', surname: 'Employee', warehouseId });
+
+	await db.insert(stockLimit).values({
+		warehouseId,
+		barcode: BARCODE,
+		limitType: 'usage',
+		minUsage: 2,
+		maxUsage: 3,
+	});
+
+	shelfUnitId = randomUUID();
+	withdrawnUnitId = randomUUID();
+	await db.insert(productStock).values([
+		{ id: shelfUnitId, barcode: BARCODE, currentWarehouse: warehouseId, numberOfUses: 1 },
+		{ id: withdrawnUnitId, barcode: BARCODE, currentWarehouse: warehouseId, numberOfUses: 2 },
+	]);
+
+	testUserId = randomUUID();
+	const email = `encargado.${Date.now()}@usage-limits-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Usage Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Usage Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'encargado',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const orders = await db
+		.select({ id: withdrawOrder.id })
+		.from(withdrawOrder)
+		.where(eq(withdrawOrder.userId, employeeId));
+	const orderIds = orders.map((order) => order.id);
+	if (orderIds.length > 0) {
+		await db
+			.delete(withdrawOrderDetails)
+			.where(inArray(withdrawOrderDetails.withdrawOrderId, orderIds));
+		await db.delete(withdrawOrder).where(inArray(withdrawOrder.id, orderIds));
+	}
+	await db
+		.delete(productStockUsageHistory)
+		.where(eq(productStockUsageHistory.warehouseId, warehouseId));
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(eq(inventoryShrinkageEvent.warehouseId, warehouseId));
+	await db.delete(productStock).where(eq(productStock.currentWarehouse, warehouseId));
+	await db.delete(stockLimit).where(eq(stockLimit.warehouseId, warehouseId));
+	await db.delete(employee).where(eq(employee.id, employeeId));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, [warehouseId, otherWarehouseId]));
+
+	auth.api.getSession = originalGetSession;
+	if (originalTokenSecret === undefined) {
+		delete process.env.EMPLOYEE_TOKEN_SECRET;
+	} else {
+		process.env.EMPLOYEE_TOKEN_SECRET = originalTokenSecret;
+	}
+});
+
+describe('Usage limits', () => {
+	it('retires a shelf unit with a consumido event once it reaches maxUsage', async () => {
+		const first = await send('/product-stock/update-usage', 'POST', {
+			productStockId: shelfUnitId,
+			incrementUses: true,
+		});
+		expect(first.status).toBe(200);
+		expect(first.json.data.usageLimits.retiredProductStockIds).toEqual([]);
+
+		const alerts = await send('/stock-limits/usage-alerts', 'GET');
+		expect(alerts.status).toBe(200);
+		expect(alerts.json.data).toContainEqual(
+			expect.objectContaining({
+				productStockId: shelfUnitId,
+				numberOfUses: 2,
+				remainingUses: 1,
+				status: 'approaching',
+			}),
+		);
+
+		const second = await send('/product-stock/update-usage', 'POST', {
+			productStockId: shelfUnitId,
+			incrementUses: true,
+		});
+		expect(second.status).toBe(200);
+		expect(second.json.data.isEmpty).toBe(true);
+		expect(second.json.data.usageLimits.retiredProductStockIds).toEqual([shelfUnitId]);
+
+		expect((await getUnit(shelfUnitId)).isEmpty).toBe(true);
+		const events = await db
+			.select()
+			.from(inventoryShrinkageEvent)
+			.where(eq(inventoryShrinkageEvent.productStockId, shelfUnitId));
+		expect(events).toEqual([
+			expect.objectContaining({
+				source: 'usage_limit',
+				reason: 'consumido',
+				createdByUserId: testUserId,
+			}),
+		]);
+	});
+
+	it('waits for the return before retiring a unit withdrawn on its last use', async () => {
+		const created = await send('/withdraw-orders/create', 'POST', {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 1,
+			products: [withdrawnUnitId],
+		});
+		expect(created.status).toBe(201);
+		expect(created.json.data.usageLimits).toEqual({
+			retiredProductStockIds: [],
+			pendingRetirementProductStockIds: [withdrawnUnitId],
+		});
+		expect((await getUnit(withdrawnUnitId)).isEmpty).toBe(false);
+
+		const alerts = await send(`/stock-limits/usage-alerts?warehouseId=${warehouseId}`, 'GET');
+		expect(alerts.json.data).toEqual([
+			expect.objectContaining({
+				productStockId: withdrawnUnitId,
+				isBeingUsed: true,
+				remainingUses: 0,
+				status: 'limit_reached',
+			}),
+		]);
+
+		const returned = await send('/withdraw-orders/update', 'POST', {
+			dateReturn: '2026-03-11',
+			orders: [
+				{
+					withdrawOrderId: created.json.data.withdrawOrder.id,
+					productStockIds: [withdrawnUnitId],
+				},
+			],
+		});
+		expect(returned.status).toBe(200);
+		expect(returned.json.data.usageLimits.retiredProductStockIds).toEqual([withdrawnUnitId]);
+
+		const unit = await getUnit(withdrawnUnitId);
+		expect(unit.isEmpty).toBe(true);
+		expect(unit.isBeingUsed).toBe(false);
+	});
+
+	it('keeps the usage alerts inside the warehouse scope', async () => {
+		const forbidden = await send(
+			`/stock-limits/usage-alerts?warehouseId=${otherWarehouseId}`,
+			'GET',
+		);
+		expect(forbidden.status).toBe(403);
+	});
+});
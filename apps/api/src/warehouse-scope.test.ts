@@ -0,0 +1,417 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	employee,
+	kits,
+	kitsDetails,
+	productStock,
+	user,
+	warehouse,
+	warehouseTransfer,
+	warehouseTransferDetails,
+	withdrawOrder,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { issueEmployeeToken } from './lib/employee-passcodes';
+
+let ownWarehouseId: string;
+let otherWarehouseId: string;
+let cedisWarehouseId: string;
+let ownEmployeeId: string;
+let otherEmployeeId: string;
+let ownProductId: string;
+let otherProductId: string;
+let ownTransferId: string;
+let otherTransferId: string;
+let otherKitId: string;
+let otherKitItemId: string;
+let otherTransferDetailId: string;
+let otherWithdrawOrderId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let originalTokenSecret: string | undefined;
+let mockSessionUser: typeof auth.$Infer.Session.user;
+
+async function getJson(path: string) {
+	const response = await app.fetch(new Request(`http://localhost/api/auth${path}`));
+	return { status: response.status, json: await response.json() };
+}
+
+async function send(path: string, method: string, body?: unknown, employeeId?: string) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: {
+				'Content-Type': 'application/json',
+				...(employeeId && {
+					'X-Employee-Token': issueEmployeeToken({
+						id: employeeId,
+						userId: testUserId,
+						warehouseId: ownWarehouseId,
+					}).token,
+				}),
+			},
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	return response.status;
+}
+
+function actAs(role: string, warehouseId: string | null) {
+	mockSessionUser = { ...mockSessionUser, role, warehouseId };
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalTokenSecret = process.env.EMPLOYEE_TOKEN_SECRET;
+	process.env.EMPLOYEE_TOKEN_SECRET = 'warehouse-scope-suite-secret';
+
+	const now = new Date();
+	ownWarehouseId = randomUUID();
+	otherWarehouseId = randomUUID();
+	cedisWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: ownWarehouseId,
+			name: 'Scope Own Warehouse',
+			code: `SCP-O-${ownWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: otherWarehouseId,
+			name: 'Scope Other Warehouse',
+			code: `SCP-X-${otherWarehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: cedisWarehouseId,
+			name: 'Scope CEDIS',
+			code: `SCP-C-${cedisWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	ownEmployeeId = randomUUID();
+	otherEmployeeId = randomUUID();
+	await db.insert(employee).values([
+		{ id: ownEmployeeId, name: 'Own', surname: 'Employee', warehouseId: ownWarehouseId },
+		{ id: otherEmployeeId, name: 'Other', surname: 'Employee', warehouseId: otherWarehouseId },
+	]);
+
+	ownProductId = randomUUID();
+	otherProductId = randomUUID();
+	await db.insert(productStock).values([
+		{ id: ownProductId, barcode: 7_900_001, currentWarehouse: ownWarehouseId },
+		{ id: otherProductId, barcode: 7_900_002, currentWarehouse: otherWarehouseId },
+	]);
+
+	ownTransferId = randomUUID();
+	otherTransferId = randomUUID();
+	await db.insert(warehouseTransfer).values([
+		{
+			id: ownTransferId,
+			transferNumber: `SCP-${ownTransferId.slice(0, 8)}`,
+			transferType: 'external',
+			sourceWarehouseId: cedisWarehouseId,
+			destinationWarehouseId: ownWarehouseId,
+			initiatedBy: ownEmployeeId,
+		},
+		{
+			id: otherTransferId,
+			transferNumber: `SCP-${otherTransferId.slice(0, 8)}`,
+			transferType: 'external',
+			sourceWarehouseId: cedisWarehouseId,
+			destinationWarehouseId: otherWarehouseId,
+			initiatedBy: otherEmployeeId,
+		},
+	]);
+
+	otherTransferDetailId = randomUUID();
+	await db.insert(warehouseTransferDetails).values({
+		id: otherTransferDetailId,
+		transferId: otherTransferId,
+		productStockId: otherProductId,
+	});
+
+	otherKitId = randomUUID();
+	otherKitItemId = randomUUID();
+	await db.insert(kits).values({ id: otherKitId, assignedEmployee: otherEmployeeId });
+	await db
+		.insert(kitsDetails)
+		.values({ id: otherKitItemId, kitId: otherKitId, productId: otherProductId });
+	otherWithdrawOrderId = randomUUID();
+	await db.insert(withdrawOrder).values({ id: otherWithdrawOrderId, userId: otherEmployeeId });
+
+	testUserId = randomUUID();
+	const email = `scope.${Date.now()}@warehouse-scope-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Scope Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		warehouseId: ownWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	mockSessionUser = {
+		id: testUserId,
+		name: 'Scope Tester',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		warehouseId: ownWarehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	await db.delete(withdrawOrder).where(eq(withdrawOrder.userId, otherEmployeeId));
+	await db.delete(kitsDetails).where(eq(kitsDetails.kitId, otherKitId));
+	await db.delete(kits).where(eq(kits.id, otherKitId));
+	await db
+		.delete(warehouseTransferDetails)
+		.where(eq(warehouseTransferDetails.id, otherTransferDetailId));
+	await db
+		.delete(warehouseTransfer)
+		.where(inArray(warehouseTransfer.id, [ownTransferId, otherTransferId]));
+	await db.delete(productStock).where(inArray(productStock.id, [ownProductId, otherProductId]));
+	await db.delete(employee).where(inArray(employee.id, [ownEmployeeId, otherEmployeeId]));
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db
+		.delete(warehouse)
+		.where(inArray(warehouse.id, [ownWarehouseId, otherWarehouseId, cedisWarehouseId]));
+
+	auth.api.getSession = originalGetSession;
+	if (originalTokenSecret === undefined) {
+		delete process.env.EMPLOYEE_TOKEN_SECRET;
+	} else {
+		process.env.EMPLOYEE_TOKEN_SECRET = originalTokenSecret;
+	}
+});
+
+describe('Warehouse scope', () => {
+	it('limits list routes to the user warehouse', async () => {
+		actAs('employee', ownWarehouseId);
+
+		const stock = await getJson('/product-stock/all');
+		expect(stock.status).toBe(200);
+		const stockIds = stock.json.data.warehouse.map(
+			(row: { productStock: { id: string } }) => row.productStock.id,
+		);
+		expect(stockIds).toContain(ownProductId);
+		expect(stockIds).not.toContain(otherProductId);
+
+		const transfers = await getJson('/warehouse-transfers/all');
+		const transferIds = transfers.json.data.map((row: { id: string }) => row.id);
+		expect(transferIds).toContain(ownTransferId);
+		expect(transferIds).not.toContain(otherTransferId);
+
+		const kitList = await getJson('/kits/all');
+		expect(kitList.json.data.map((row: { id: string }) => row.id)).not.toContain(otherKitId);
+
+		const orders = await getJson('/withdraw-orders/all');
+		const orderEmployees = orders.json.data.map((row: { userId: string | null }) => row.userId);
+		expect(orderEmployees).not.toContain(otherEmployeeId);
+	});
+
+	it('returns 403 for detail routes of another warehouse', async () => {
+		actAs('encargado', ownWarehouseId);
+
+		expect(
+			(await getJson(`/product-stock/by-warehouse?warehouseId=${otherWarehouseId}`)).status,
+		).toBe(403);
+		expect(
+			(await getJson(`/warehouse-transfers/details?transferId=${otherTransferId}`)).status,
+		).toBe(403);
+		expect(
+			(await getJson(`/warehouse-transfers/details?transferId=${ownTransferId}`)).status,
+		).toBe(200);
+		expect((await getJson(`/kits/details?kitId=${otherKitId}`)).status).toBe(403);
+		expect((await getJson(`/kits/by-employee?employeeId=${otherEmployeeId}`)).status).toBe(403);
+		expect(
+			(await getJson(`/withdraw-orders/details?employeeId=${otherEmployeeId}`)).status,
+		).toBe(403);
+	});
+
+	it('refuses transfer writes on another warehouse transfer', async () => {
+		actAs('encargado', ownWarehouseId);
+
+		expect(
+			await send('/warehouse-transfers/update-status', 'POST', {
+				transferId: otherTransferId,
+				isCompleted: true,
+			}),
+		).toBe(403);
+		expect(
+			await send('/warehouse-transfers/update-item-status', 'POST', {
+				transferDetailId: otherTransferDetailId,
+				isReceived: true,
+			}),
+		).toBe(403);
+		expect(
+			await send('/warehouse-transfers/resolve-discrepancies', 'POST', {
+				transferId: otherTransferId,
+				items: [{ transferDetailId: otherTransferDetailId, outcome: 'found' }],
+			}),
+		).toBe(403);
+	});
+
+	it('refuses withdrawals and returns for another warehouse', async () => {
+		actAs('encargado', ownWarehouseId);
+
+		expect(
+			await send(
+				'/withdraw-orders/create',
+				'POST',
+				{
+					dateWithdraw: '2026-03-10',
+					employeeId: otherEmployeeId,
+					numItems: 1,
+					products: [otherProductId],
+				},
+				otherEmployeeId,
+			),
+		).toBe(403);
+		expect(
+			await send(
+				'/withdraw-orders/create',
+				'POST',
+				{
+					dateWithdraw: '2026-03-10',
+					employeeId: ownEmployeeId,
+					numItems: 1,
+					products: [otherProductId],
+				},
+				ownEmployeeId,
+			),
+		).toBe(403);
+		expect(
+			await send(
+				'/withdraw-orders/update',
+				'POST',
+				{
+					dateReturn: '2026-03-11',
+					orders: [
+						{ withdrawOrderId: otherWithdrawOrderId, productStockIds: [otherProductId] },
+					],
+				},
+				otherEmployeeId,
+			),
+		).toBe(403);
+	});
+
+	it('refuses kit writes for employees of another warehouse', async () => {
+		actAs('encargado', ownWarehouseId);
+
+		expect(
+			await send('/kits/create', 'POST', {
+				assignedEmployee: otherEmployeeId,
+				kitItems: [{ productId: otherProductId }],
+			}),
+		).toBe(403);
+		expect(
+			await send('/kits/create', 'POST', {
+				assignedEmployee: ownEmployeeId,
+				kitItems: [{ productId: otherProductId }],
+			}),
+		).toBe(403);
+		expect(
+			await send('/kits/update', 'POST', { kitId: otherKitId, observations: 'Ajena' }),
+		).toBe(403);
+		expect(
+			await send('/kits/items/update-status', 'POST', {
+				kitItemId: otherKitItemId,
+				isReturned: true,
+			}),
+		).toBe(403);
+	});
+
+	it('refuses stock writes on units of another warehouse', async () => {
+		actAs('encargado', ownWarehouseId);
+
+		expect(
+			await send('/product-stock/update-usage', 'POST', {
+				productStockId: otherProductId,
+				isBeingUsed: true,
+				lastUsedBy: ownEmployeeId,
+			}),
+		).toBe(403);
+		expect(
+			await send('/product-stock/update-is-empty', 'POST', { productIds: [otherProductId] }),
+		).toBe(403);
+		expect(
+			await send('/product-stock/update-is-kit', 'POST', { productStockId: otherProductId }),
+		).toBe(403);
+		expect(await send(`/product-stock/delete?id=${otherProductId}`, 'DELETE')).toBe(403);
+
+		const [unit] = await db.select().from(productStock).where(eq(productStock.id, otherProductId));
+		expect(unit).toMatchObject({
+			isBeingUsed: false,
+			isEmpty: false,
+			isKit: false,
+			isDeleted: false,
+		});
+	});
+
+	it('gives CEDIS and admin users global scope', async () => {
+		actAs('employee', cedisWarehouseId);
+		const cedisStock = await getJson('/product-stock/all');
+		const cedisIds = cedisStock.json.data.warehouse.map(
+			(row: { productStock: { id: string } }) => row.productStock.id,
+		);
+		expect(cedisIds).toEqual(expect.arrayContaining([ownProductId, otherProductId]));
+
+		actAs('admin', null);
+		expect((await getJson(`/kits/details?kitId=${otherKitId}`)).status).toBe(200);
+		expect(
+			(await getJson(`/warehouse-transfers/details?transferId=${otherTransferId}`)).status,
+		).toBe(200);
+	});
+
+	it('rejects non-global users without an assigned warehouse', async () => {
+		actAs('employee', null);
+		const response = await getJson('/warehouse-transfers/all');
+		expect(response.status).toBe(403);
+	});
+});
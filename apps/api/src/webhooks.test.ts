@@ -0,0 +1,359 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	inventoryShrinkageEvent,
+	productStock,
+	productStockUsageHistory,
+	replenishmentOrder,
+	user,
+	warehouse,
+	webhookDelivery,
+	webhookSubscription,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { createReplenishmentOrder, updateReplenishmentOrder } from './lib/replenishment-orders';
+import {
+	processDueWebhookDeliveries,
+	processWebhookDelivery,
+	signWebhookPayload,
+} from './lib/webhooks';
+
+type ReceivedRequest = {
+	headers: Record<string, string | string[] | undefined>;
+	body: string;
+};
+
+let warehouseId: string;
+let cedisWarehouseId: string;
+let testUserId: string;
+let originalGetSession: typeof auth.api.getSession;
+let server: Server;
+let receiverUrl: string;
+let receiverStatus = 200;
+const received: ReceivedRequest[] = [];
+const productStockIds: string[] = [];
+const subscriptionIds: string[] = [];
+
+async function send(path: string, method = 'POST', body?: unknown) {
+	const response = await app.fetch(
+		new Request(`http://localhost/api/auth${path}`, {
+			method,
+			headers: { 'Content-Type': 'application/json' },
+			...(body !== undefined && { body: JSON.stringify(body) }),
+		}),
+	);
+	return { status: response.status, json: await response.json() };
+}
+
+async function createProduct(barcode: number): Promise<string> {
+	const id = randomUUID();
+	await db.insert(productStock).values({
+		id,
+		barcode,
+		description: `Webhook product ${barcode}`,
+		currentWarehouse: warehouseId,
+		isDeleted: false,
+		isEmpty: false,
+		isBeingUsed: false,
+	});
+	productStockIds.push(id);
+	return id;
+}
+
+async function deliveriesOf(subscriptionId: string) {
+	return await db
+		.select()
+		.from(webhookDelivery)
+		.where(eq(webhookDelivery.subscriptionId, subscriptionId));
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+
+	// Local receiver standing in for the subscriber's endpoint
+	server = createServer((request, response) => {
+		let body = '';
+		request.setEncoding('utf8');
+		request.on('data', (chunk: string) => {
+			body += chunk;
+		});
+		request.on('end', () => {
+			received.push({ headers: request.headers, body });
+			response.statusCode = receiverStatus;
+			response.end(receiverStatus === 200 ? 'ok' : 'receiver down');
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const address = server.address();
+	const port = typeof address === 'object' && address ? address.port : 0;
+	receiverUrl = `http://127.0.0.1:${port}/hooks`;
+
+	const now = new Date();
+	warehouseId = randomUUID();
+	cedisWarehouseId = randomUUID();
+	await db.insert(warehouse).values([
+		{
+			id: warehouseId,
+			name: 'Webhooks Warehouse',
+			code: `WHK-${warehouseId.slice(0, 8)}`,
+			createdAt: now,
+			updatedAt: now,
+		},
+		{
+			id: cedisWarehouseId,
+			name: 'Webhooks CEDIS',
+			code: `WHK-C-${cedisWarehouseId.slice(0, 8)}`,
+			isCedis: true,
+			createdAt: now,
+			updatedAt: now,
+		},
+	]);
+
+	testUserId = randomUUID();
+	const mockSessionUser = {
+		id: testUserId,
+		name: 'Webhooks Admin',
+		email: `admin.${Date.now()}@webhooks-suite.dev`,
+		emailVerified: false,
+		image: null,
+		role: 'admin',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(user).values(mockSessionUser);
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	if (subscriptionIds.length > 0) {
+		await db.delete(webhookSubscription).where(inArray(webhookSubscription.id, subscriptionIds));
+	}
+	await db.delete(replenishmentOrder).where(eq(replenishmentOrder.sourceWarehouseId, warehouseId));
+	await db
+		.delete(inventoryShrinkageEvent)
+		.where(eq(inventoryShrinkageEvent.warehouseId, warehouseId));
+	if (productStockIds.length > 0) {
+		await db
+			.delete(productStockUsageHistory)
+			.where(inArray(productStockUsageHistory.productStockId, productStockIds));
+		await db.delete(productStock).where(inArray(productStock.id, productStockIds));
+	}
+	await db.delete(user).where(eq(user.id, testUserId));
+	await db.delete(warehouse).where(inArray(warehouse.id, [warehouseId, cedisWarehouseId]));
+
+	await new Promise<void>((resolve) => server.close(() => resolve()));
+	auth.api.getSession = originalGetSession;
+});
+
+describe('Webhooks', () => {
+	let shrinkageSubscriptionId: string;
+	let shrinkageSecret: string;
+	let ordersSubscriptionId: string;
+
+	it('creates subscriptions and only shows the secret once', async () => {
+		const created = await send('/webhooks/subscriptions', 'POST', {
+			name: 'ERP merma',
+			url: receiverUrl,
+			eventTypes: ['shrinkage.recorded'],
+		});
+		expect(created.status).toBe(201);
+		expect(created.json.data.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+		shrinkageSubscriptionId = created.json.data.id;
+		shrinkageSecret = created.json.data.secret;
+		subscriptionIds.push(shrinkageSubscriptionId);
+
+		const orders = await send('/webhooks/subscriptions', 'POST', {
+			name: 'ERP pedidos',
+			url: receiverUrl,
+			eventTypes: ['replenishment_order.sent'],
+		});
+		expect(orders.status).toBe(201);
+		ordersSubscriptionId = orders.json.data.id;
+		subscriptionIds.push(ordersSubscriptionId);
+
+		const listed = await send('/webhooks/subscriptions', 'GET');
+		const listedSubscription = listed.json.data.find(
+			(subscription: { id: string }) => subscription.id === shrinkageSubscriptionId,
+		);
+		expect(listedSubscription.secret).toBeUndefined();
+		expect(listedSubscription.secretHint).toBe(`…${shrinkageSecret.slice(-4)}`);
+
+		const invalid = await send('/webhooks/subscriptions', 'POST', {
+			name: 'Sin eventos',
+			url: receiverUrl,
+			eventTypes: [],
+		});
+		expect(invalid.status).toBe(400);
+	});
+
+	it('delivers a signed shrinkage.recorded event after a manual writeoff', async () => {
+		const productId = await createProduct(8_700_001);
+		const writeoff = await send('/merma/writeoffs', 'POST', {
+			productIds: [productId],
+			reason: 'dañado',
+		});
+		expect(writeoff.status).toBe(201);
+
+		const queued = await deliveriesOf(shrinkageSubscriptionId);
+		expect(queued).toHaveLength(1);
+		expect(queued[0].status).toBe('pending');
+		expect(await deliveriesOf(ordersSubscriptionId)).toEqual([]);
+
+		await processDueWebhookDeliveries();
+
+		expect(received).toHaveLength(1);
+		const [request] = received;
+		const timestamp = Number(request.headers['x-alr-timestamp']);
+		expect(request.headers['x-alr-event']).toBe('shrinkage.recorded');
+		expect(request.headers['x-alr-delivery']).toBe(queued[0].id);
+		expect(request.headers['x-alr-signature']).toBe(
+			signWebhookPayload(shrinkageSecret, timestamp, request.body),
+		);
+
+		const payload = JSON.parse(request.body);
+		expect(payload).toEqual(
+			expect.objectContaining({ id: queued[0].eventId, type: 'shrinkage.recorded' }),
+		);
+		expect(payload.data.events).toEqual([
+			expect.objectContaining({
+				source: 'manual',
+				reason: 'dañado',
+				productStockId: productId,
+				warehouseId,
+			}),
+		]);
+
+		const [delivered] = await deliveriesOf(shrinkageSubscriptionId);
+		expect(delivered).toEqual(
+			expect.objectContaining({ status: 'succeeded', attempts: 1, lastStatusCode: 200 }),
+		);
+	});
+
+	it('reschedules failed deliveries with backoff and replays them on demand', async () => {
+		receiverStatus = 503;
+		const order = await createReplenishmentOrder({
+			input: {
+				sourceWarehouseId: warehouseId,
+				cedisWarehouseId,
+				items: [{ barcode: 8_700_002, quantity: 3 }],
+			},
+			user: { id: testUserId },
+		});
+		await updateReplenishmentOrder({
+			id: order.id,
+			input: { isSent: true },
+			user: { id: testUserId },
+		});
+
+		const [queued] = await deliveriesOf(ordersSubscriptionId);
+		expect(queued.payload).toEqual(
+			expect.objectContaining({
+				type: 'replenishment_order.sent',
+				data: expect.objectContaining({
+					orderId: order.id,
+					orderNumber: order.orderNumber,
+					items: [{ barcode: 8_700_002, quantity: 3, notes: null }],
+				}),
+			}),
+		);
+
+		const startedAt = Date.now();
+		const failed = await processWebhookDelivery(queued.id);
+		expect(failed).toEqual(
+			expect.objectContaining({
+				status: 'pending',
+				attempts: 1,
+				lastStatusCode: 503,
+				lastResponseBody: 'receiver down',
+			}),
+		);
+		expect(failed?.nextAttemptAt.getTime()).toBeGreaterThan(startedAt);
+		// Not due yet, so the worker leaves it alone
+		expect(await processWebhookDelivery(queued.id)).toBeNull();
+
+		// Exhaust the retries to end up with a failed delivery
+		await db
+			.update(webhookDelivery)
+			.set({ maxAttempts: 2, nextAttemptAt: new Date(Date.now() - 1000) })
+			.where(eq(webhookDelivery.id, queued.id));
+		const exhausted = await processWebhookDelivery(queued.id);
+		expect(exhausted?.status).toBe('failed');
+
+		receiverStatus = 200;
+		const replay = await send(`/webhooks/deliveries/${queued.id}/replay`);
+		expect(replay.status).toBe(201);
+		expect(replay.json.data).toEqual(
+			expect.objectContaining({
+				status: 'succeeded',
+				eventId: queued.eventId,
+				replayOfDeliveryId: queued.id,
+			}),
+		);
+
+		const log = await send(`/webhooks/deliveries?subscriptionId=${ordersSubscriptionId}`, 'GET');
+		expect(log.status).toBe(200);
+		expect(log.json.data.map((delivery: { status: string }) => delivery.status)).toEqual([
+			'succeeded',
+			'failed',
+		]);
+
+		const lastRequest = received.at(-1);
+		expect(lastRequest?.headers['x-alr-event-id']).toBe(queued.eventId);
+	});
+
+	it('does not queue events for paused subscriptions', async () => {
+		const paused = await send(`/webhooks/subscriptions/${shrinkageSubscriptionId}`, 'PUT', {
+			isActive: false,
+		});
+		expect(paused.status).toBe(200);
+		expect(paused.json.data.eventTypes).toEqual(['shrinkage.recorded']);
+		expect(paused.json.data.secret).toBeUndefined();
+
+		const productId = await createProduct(8_700_003);
+		const writeoff = await send('/merma/writeoffs', 'POST', {
+			productIds: [productId],
+			reason: 'dañado',
+		});
+		expect(writeoff.status).toBe(201);
+		expect(await deliveriesOf(shrinkageSubscriptionId)).toHaveLength(1);
+
+		const rotated = await send(`/webhooks/subscriptions/${shrinkageSubscriptionId}`, 'PUT', {
+			rotateSecret: true,
+		});
+		expect(rotated.json.data.secret).toMatch(/^whsec_/);
+		expect(rotated.json.data.secret).not.toBe(shrinkageSecret);
+	});
+});
@@ -0,0 +1,297 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { eq, inArray } from 'drizzle-orm';
+import app from '.';
+import { db } from './db/index';
+import {
+	employee,
+	productStock,
+	productStockUsageHistory,
+	user,
+	warehouse,
+	withdrawOrder,
+	withdrawOrderDetails,
+} from './db/schema';
+import { auth } from './lib/auth';
+import { EMPLOYEE_TOKEN_TTL_MS, issueEmployeeToken } from './lib/employee-passcodes';
+
+let warehouseId: string;
+let testUserId: string;
+let employeeId: string;
+let otherEmployeeId: string;
+let productIds: string[];
+let originalGetSession: typeof auth.api.getSession;
+let originalTokenSecret: string | undefined;
+
+function tokenFor(id: string, userId = testUserId, now = new Date()) {
+	return issueEmployeeToken({ id, userId, warehouseId }, now).token;
+}
+
+async function postJson(path: string, body: unknown, token: string | null = tokenFor(employeeId)) {
+	return await app.fetch(
+		new Request(`http://localhost/api/auth/withdraw-orders${path}`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				...(token ? { 'X-Employee-Token': token } : {}),
+			},
+			body: JSON.stringify(body),
+		}),
+	);
+}
+
+beforeAll(async () => {
+	originalGetSession = auth.api.getSession;
+	originalTokenSecret = process.env.EMPLOYEE_TOKEN_SECRET;
+	process.env.EMPLOYEE_TOKEN_SECRET = 'withdraw-orders-suite-secret';
+
+	const now = new Date();
+	testUserId = randomUUID();
+	const email = `withdraw.${Date.now()}@withdraw-orders-suite.dev`;
+	await db.insert(user).values({
+		id: testUserId,
+		name: 'Withdraw Tablet',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	warehouseId = randomUUID();
+	await db.insert(warehouse).values({
+		id: warehouseId,
+		name: 'Withdraw Warehouse',
+		code: `WDR-${warehouseId.slice(0, 8)}`,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	employeeId = randomUUID();
+	otherEmployeeId = randomUUID();
+	await db.insert(employee).values([
+		{ id: employeeId, name: 'Offline', surname: 'Stylist', warehouseId },
+		{ id: otherEmployeeId, name: 'Other', surname: 'Stylist', warehouseId },
+	]);
+
+	productIds = [randomUUID(), randomUUID(), randomUUID()];
+	await db.insert(productStock).values(
+		productIds.map((id, index) => ({
+			id,
+			barcode: 7_700_000 + index,
+			currentWarehouse: warehouseId,
+		})),
+	);
+
+	const mockSessionUser: typeof auth.$Infer.Session.user = {
+		id: testUserId,
+		name: 'Withdraw Tablet',
+		email,
+		emailVerified: false,
+		image: null,
+		role: 'employee',
+		warehouseId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	auth.api.getSession = (({ asResponse, returnHeaders }: { asResponse?: boolean; returnHeaders?: boolean }) => {
+		const sessionPayload = {
+			user: mockSessionUser,
+			session: {
+				id: 'test-session',
+				expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+				token: 'test-token',
+				createdAt: now,
+				updatedAt: now,
+				ipAddress: null,
+				userAgent: null,
+				userId: testUserId,
+			},
+		};
+
+		if (asResponse) {
+			return Response.json(sessionPayload);
+		}
+
+		if (returnHeaders) {
+			return {
+				headers: new Headers(),
+				response: sessionPayload,
+			};
+		}
+
+		return sessionPayload;
+	}) as unknown as typeof auth.api.getSession;
+});
+
+afterAll(async () => {
+	const orders = await db
+		.select({ id: withdrawOrder.id })
+		.from(withdrawOrder)
+		.where(eq(withdrawOrder.userId, employeeId));
+	const orderIds = orders.map((order) => order.id);
+	if (orderIds.length > 0) {
+		await db
+			.delete(withdrawOrderDetails)
+			.where(inArray(withdrawOrderDetails.withdrawOrderId, orderIds));
+		await db.delete(withdrawOrder).where(inArray(withdrawOrder.id, orderIds));
+	}
+	await db
+		.delete(productStockUsageHistory)
+		.where(eq(productStockUsageHistory.warehouseId, warehouseId));
+	await db.delete(productStock).where(eq(productStock.currentWarehouse, warehouseId));
+	await db.delete(employee).where(inArray(employee.id, [employeeId, otherEmployeeId]));
+	await db.delete(warehouse).where(eq(warehouse.id, warehouseId));
+	await db.delete(user).where(eq(user.id, testUserId));
+
+	auth.api.getSession = originalGetSession;
+	if (originalTokenSecret === undefined) {
+		delete process.env.EMPLOYEE_TOKEN_SECRET;
+	} else {
+		process.env.EMPLOYEE_TOKEN_SECRET = originalTokenSecret;
+	}
+});
+
+describe('Withdraw order offline replays', () => {
+	const clientId = randomUUID();
+	let withdrawOrderId: string;
+
+	it('returns the original order when the same clientId is replayed', async () => {
+		const payload = {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 2,
+			products: [productIds[0], productIds[1]],
+			clientId,
+		};
+
+		const created = await postJson('/create', payload);
+		expect(created.status).toBe(201);
+		const createdJson = await created.json();
+		withdrawOrderId = createdJson.data.withdrawOrder.id;
+		expect(createdJson.data.withdrawOrder.clientId).toBe(clientId);
+
+		const replayed = await postJson('/create', payload);
+		expect(replayed.status).toBe(200);
+		const replayedJson = await replayed.json();
+		expect(replayedJson.data.replayed).toBe(true);
+		expect(replayedJson.data.withdrawOrder.id).toBe(withdrawOrderId);
+		expect(replayedJson.data.details).toHaveLength(2);
+	});
+
+	it('reports every unit already taken with a 409', async () => {
+		const response = await postJson('/create', {
+			dateWithdraw: '2026-03-10',
+			employeeId,
+			numItems: 3,
+			products: productIds,
+			clientId: randomUUID(),
+		});
+		expect(response.status).toBe(409);
+		const json = await response.json();
+		expect(json.data.conflictingProductIds).toEqual([productIds[0], productIds[1]]);
+	});
+
+	it('skips details already returned when a return is replayed', async () => {
+		const payload = {
+			dateReturn: '2026-03-11',
+			orders: [{ withdrawOrderId, productStockIds: [productIds[0], productIds[1]] }],
+		};
+
+		const first = await postJson('/update', payload);
+		expect(first.status).toBe(200);
+		const firstJson = await first.json();
+		expect(firstJson.data.orders[0].allProductsReturned).toBe(true);
+
+		const replayed = await postJson('/update', payload);
+		expect(replayed.status).toBe(200);
+		const replayedJson = await replayed.json();
+		expect(replayedJson.data.orders[0].details).toHaveLength(0);
+		expect(replayedJson.data.orders[0].alreadyReturnedProductIds).toEqual([
+			productIds[0],
+			productIds[1],
+		]);
+
+		const [stock] = await db
+			.select()
+			.from(productStock)
+			.where(eq(productStock.id, productIds[0] ?? ''));
+		expect(stock?.isBeingUsed).toBe(false);
+	});
+
+	it('returns the existing order when the same clientId is created concurrently', async () => {
+		const payload = {
+			dateWithdraw: '2026-03-12',
+			employeeId,
+			numItems: 1,
+			products: [productIds[2]],
+			clientId: randomUUID(),
+		};
+
+		const responses = await Promise.all([
+			postJson('/create', payload),
+			postJson('/create', payload),
+		]);
+		const statuses = responses.map((response) => response.status).sort();
+		expect(statuses).toEqual([200, 201]);
+		const [first, second] = await Promise.all(responses.map((response) => response.json()));
+		expect(first.data.withdrawOrder.id).toBe(second.data.withdrawOrder.id);
+
+		const orders = await db
+			.select({ id: withdrawOrder.id })
+			.from(withdrawOrder)
+			.where(eq(withdrawOrder.clientId, payload.clientId));
+		expect(orders).toHaveLength(1);
+	});
+});
+
+describe('Withdraw order employee token', () => {
+	const withdrawal = () => ({
+		dateWithdraw: '2026-03-13',
+		employeeId,
+		numItems: 1,
+		products: [productIds[2]],
+	});
+
+	it('rejects a missing or expired token with a 401', async () => {
+		expect((await postJson('/create', withdrawal(), null)).status).toBe(401);
+
+		const issuedAt = new Date(Date.now() - EMPLOYEE_TOKEN_TTL_MS - 1000);
+		const expired = await postJson(
+			'/create',
+			withdrawal(),
+			tokenFor(employeeId, testUserId, issuedAt),
+		);
+		expect(expired.status).toBe(401);
+		expect((await expired.json()).message).toBe('Employee token is invalid or expired');
+	});
+
+	it('rejects a token issued to another employee or account with a 403', async () => {
+		const otherEmployee = await postJson('/create', withdrawal(), tokenFor(otherEmployeeId));
+		expect(otherEmployee.status).toBe(403);
+
+		const otherAccount = await postJson(
+			'/create',
+			withdrawal(),
+			tokenFor(employeeId, randomUUID()),
+		);
+		expect(otherAccount.status).toBe(403);
+
+		const [order] = await db
+			.select({ id: withdrawOrder.id })
+			.from(withdrawOrder)
+			.where(eq(withdrawOrder.userId, employeeId))
+			.limit(1);
+		const returned = await postJson(
+			'/update',
+			{
+				dateReturn: '2026-03-14',
+				orders: [{ withdrawOrderId: order?.id, productStockIds: [productIds[2]] }],
+			},
+			tokenFor(otherEmployeeId),
+		);
+		expect(returned.status).toBe(403);
+	});
+});
@@ -1,5 +1,7 @@
 import { Translations } from '@/constants/Translations';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useDomainEventsListener } from '@/hooks/useDomainEvents';
+import { useOfflineQueueListener } from '@/hooks/useOfflineQueue';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import {
   QueryClient,
@@ -65,6 +67,10 @@ export default function RootLayout() {
       secureStorage: SecureStore, // SecureStore for ['#storage', 'secure', 'key'] queries + monitoring
       enableLogs: false,
     });
+    // Replay withdraw/return operations captured offline whenever the connection returns
+    useOfflineQueueListener();
+    // Refresh stock and withdraw screens when other devices or the dashboard change them
+    useDomainEventsListener();
 
     // Your app content
     return (
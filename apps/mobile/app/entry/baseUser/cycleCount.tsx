@@ -0,0 +1,244 @@
+"use client"
+
+import { ThemedButton } from "@/components/ThemedButton"
+import { ThemedHeader } from "@/components/ThemedHeader"
+import { ThemedText } from "@/components/ThemedText"
+import { ThemedView } from "@/components/ThemedView"
+import { BarcodeScanner } from "@/components/ui/BarcodeScanner"
+import { Colors } from "@/constants/Colors"
+import { useColorScheme } from "@/hooks/useColorScheme"
+import { getCycleCount, getOpenCycleCounts } from "@/lib/fetch-functions"
+import { useRecordCycleCountScanMutation, type CycleCountScanPayload } from "@/lib/mutations"
+import { QUERY_KEYS } from "@/lib/query-keys"
+import type { QRCodeData } from "@/types/types"
+import { useQuery } from "@tanstack/react-query"
+import { StatusBar } from "expo-status-bar"
+import { useState } from "react"
+import { ScrollView, StyleSheet, TouchableOpacity } from "react-native"
+import { toast } from "sonner-native"
+
+/** Refresh interval of the live counter, so scans from other devices show up */
+const LIVE_REFRESH_MS = 5000
+
+/**
+ * Cycle count (conteo cíclico) screen.
+ * Lists the open counts of the user's warehouse; once one is selected, every QR or barcode
+ * scanned with the camera is sent to the API and the live counter shows the variance.
+ */
+export default function CycleCountScreen() {
+    const colorScheme = useColorScheme()
+    const isDark = colorScheme === "dark"
+    const [selectedCountId, setSelectedCountId] = useState<string | null>(null)
+    const [showScanner, setShowScanner] = useState(false)
+    const scanMutation = useRecordCycleCountScanMutation()
+
+    const { data: openCounts = [], isFetching: isFetchingCounts, refetch: refetchCounts } = useQuery({
+        queryKey: [QUERY_KEYS.CYCLE_COUNTS],
+        queryFn: getOpenCycleCounts,
+    })
+
+    const { data: cycleCount } = useQuery({
+        queryKey: [QUERY_KEYS.CYCLE_COUNT_DETAIL, selectedCountId],
+        queryFn: () => {
+            if (!selectedCountId) {
+                throw new Error("Cycle count ID is not available")
+            }
+            return getCycleCount(selectedCountId)
+        },
+        enabled: !!selectedCountId,
+        refetchInterval: LIVE_REFRESH_MS,
+    })
+
+    const variance = cycleCount?.variance
+
+    /**
+     * Sends one scan to the API and reports the result with a toast
+     */
+    const submitScan = (payload: Omit<CycleCountScanPayload, "cycleCountId">) => {
+        if (!selectedCountId) {
+            return
+        }
+        scanMutation.mutate(
+            { cycleCountId: selectedCountId, ...payload },
+            {
+                onSuccess: (result) => {
+                    if (result.result === "duplicate") {
+                        toast.warning(`${payload.barcode}: ya contado`)
+                    } else if (result.result === "unexpected") {
+                        toast.warning(`${payload.barcode}: no esperado en esta ubicación`)
+                    } else {
+                        toast.success(`${payload.barcode}: contado`)
+                    }
+                },
+                onError: (error) => {
+                    toast.error(error.message || "No se pudo registrar el escaneo")
+                },
+            },
+        )
+    }
+
+    const handleQRCodeScanned = (qrData: QRCodeData) => {
+        const barcode = Number(qrData.barcode)
+        if (!Number.isInteger(barcode)) {
+            toast.error("Código QR inválido")
+            return
+        }
+        submitScan({ barcode, uuid: qrData.uuid })
+    }
+
+    const handleBarcodeScanned = (data: string) => {
+        const trimmed = data.trim()
+        if (!/^\d+$/.test(trimmed)) {
+            toast.error("Código de barras inválido")
+            return
+        }
+        submitScan({ barcode: Number(trimmed), quantity: 1 })
+    }
+
+    const counters = [
+        { label: "Esperadas", value: variance?.expectedUnits ?? 0 },
+        { label: "Contadas", value: variance?.countedUnits ?? 0 },
+        { label: "Faltantes", value: variance?.missingUnits ?? 0 },
+        { label: "Sobrantes", value: variance?.unexpectedUnits ?? 0 },
+    ]
+
+    return (
+        <ThemedView style={styles.container}>
+            <StatusBar style={isDark ? "light" : "dark"} />
+            <ThemedHeader
+                title="Conteo Cíclico"
+                {...(selectedCountId && { onBackPress: () => setSelectedCountId(null) })}
+            />
+
+            <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+                {selectedCountId ? (
+                    <>
+                        <ThemedView style={styles.countersGrid}>
+                            {counters.map(counter => (
+                                <ThemedView
+                                    key={counter.label}
+                                    style={[
+                                        styles.counterCard,
+                                        {
+                                            backgroundColor: isDark ? Colors.dark.surface : Colors.light.surface,
+                                            borderColor: isDark ? Colors.dark.border : Colors.light.border,
+                                        },
+                                    ]}
+                                >
+                                    <ThemedText style={styles.counterLabel}>{counter.label}</ThemedText>
+                                    <ThemedText type="title">{counter.value}</ThemedText>
+                                </ThemedView>
+                            ))}
+                        </ThemedView>
+
+                        {cycleCount && cycleCount.status !== "open" ? (
+                            <ThemedText style={styles.emptyText}>
+                                Este conteo ya fue cerrado.
+                            </ThemedText>
+                        ) : (
+                            <ThemedButton
+                                title="Escanear"
+                                onPress={() => setShowScanner(true)}
+                                variant="primary"
+                                size="medium"
+                                isLoading={scanMutation.isPending}
+                                style={styles.scanButton}
+                            />
+                        )}
+                    </>
+                ) : (
+                    <ThemedView style={styles.section}>
+                        <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+                            Conteos abiertos
+                        </ThemedText>
+                        {openCounts.length === 0 ? (
+                            <ThemedText style={styles.emptyText}>
+                                No hay conteos abiertos para este almacén. Ábrelo desde el panel web.
+                            </ThemedText>
+                        ) : (
+                            openCounts.map(count => (
+                                <TouchableOpacity
+                                    key={count.id}
+                                    onPress={() => setSelectedCountId(count.id)}
+                                    style={[
+                                        styles.countRow,
+                                        { borderColor: isDark ? Colors.dark.border : Colors.light.border },
+                                    ]}
+                                >
+                                    <ThemedText type="defaultSemiBold">
+                                        {count.cabinetName ?? count.warehouseName ?? "Almacén"}
+                                    </ThemedText>
+                                    <ThemedText style={styles.counterLabel}>
+                                        Abierto el {new Date(count.openedAt).toLocaleString("es-MX")}
+                                    </ThemedText>
+                                </TouchableOpacity>
+                            ))
+                        )}
+                        <ThemedButton
+                            title="Actualizar"
+                            onPress={() => refetchCounts()}
+                            variant="outline"
+                            size="small"
+                            isLoading={isFetchingCounts}
+                            style={styles.scanButton}
+                        />
+                    </ThemedView>
+                )}
+            </ScrollView>
+
+            {showScanner && (
+                <BarcodeScanner
+                    onQRCodeScanned={handleQRCodeScanned}
+                    onBarcodeScanned={handleBarcodeScanned}
+                    onClose={() => setShowScanner(false)}
+                />
+            )}
+        </ThemedView>
+    )
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    scrollView: {
+        flex: 1,
+        padding: 16,
+    },
+    section: {
+        marginBottom: 24,
+    },
+    sectionTitle: {
+        marginBottom: 12,
+    },
+    countRow: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+    },
+    countersGrid: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 12,
+        marginBottom: 24,
+    },
+    counterCard: {
+        flexBasis: "47%",
+        flexGrow: 1,
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 16,
+    },
+    counterLabel: {
+        fontSize: 14,
+        opacity: 0.7,
+    },
+    emptyText: {
+        opacity: 0.7,
+        marginBottom: 16,
+    },
+    scanButton: {
+        marginTop: 8,
+    },
+})
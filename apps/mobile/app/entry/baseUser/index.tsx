@@ -1,11 +1,13 @@
 "use client"
 
 import { useBaseUserStore } from "@/app/stores/baseUserStores"
+import { useOfflineQueueStore } from "@/app/stores/offlineQueueStore"
 import { ThemedButton } from "@/components/ThemedButton"
 import { ThemedHeader } from "@/components/ThemedHeader"
 import { ThemedText } from "@/components/ThemedText"
 import { ThemedView } from "@/components/ThemedView"
 import { BarcodeScanner } from "@/components/ui/BarcodeScanner"
+import { PendingOperationsIndicator } from "@/components/ui/PendingOperationsIndicator"
 import { ProductCard } from "@/components/ui/ProductCard"
 import { ScannerComboboxSection } from "@/components/ui/ScannerComboboxSection"
 import { useColorScheme } from "@/hooks/useColorScheme"
@@ -124,6 +126,8 @@ const useProductStockQuery = (cabinetId: string | undefined): UseProductStockQue
                     currentWarehouse: string;
                     isBeingUsed: boolean;
                     firstUsed: string | null;
+                    lotNumber?: string | null;
+                    expiresAt?: string | null;
                 };
             }) => {
                 const stock = item.productStock;
@@ -147,6 +151,12 @@ const useProductStockQuery = (cabinetId: string | undefined): UseProductStockQue
                 if (stock.firstUsed) {
                     transformed.firstUsed = new Date(stock.firstUsed);
                 }
+                if (stock.lotNumber) {
+                    transformed.lotNumber = stock.lotNumber;
+                }
+                if (stock.expiresAt) {
+                    transformed.expiresAt = stock.expiresAt;
+                }
 
                 return transformed;
             });
@@ -243,9 +253,22 @@ export default function InventoryScannerScreen() {
         }
     }, [productStock, isLoadingProductStock])
 
+    // Units in withdrawals queued offline are already taken, even if the server does not know yet
+    const offlineOperations = useOfflineQueueStore(state => state.operations)
+    const queuedProductIds = useMemo(
+        () => new Set(
+            offlineOperations.flatMap(operation =>
+                operation.kind === "withdraw" ? operation.payload.products : []
+            )
+        ),
+        [offlineOperations]
+    )
+
     // Get available stock items from the store (filters by warehouse and availability)
     // Uses warehouse ID from current employee state
-    const availableStock = getAvailableStockItems(warehouseId)
+    const availableStock = getAvailableStockItems(warehouseId).filter(
+        item => !queuedProductIds.has(item.id)
+    )
 
     /**
      * Extracts product information from a ProductStockItem's description
@@ -432,6 +455,27 @@ export default function InventoryScannerScreen() {
                     style={styles.returnOrderButton}
                 />
 
+                {/* Cycle count (conteo cíclico) scanning for counts opened from the web panel */}
+                <ThemedButton
+                    title="Conteo Cíclico"
+                    onPress={() => router.push("/entry/baseUser/cycleCount")}
+                    variant="outline"
+                    size="medium"
+                    style={styles.returnOrderButton}
+                />
+
+                {/* Units close to the maxUsage of their usage limit */}
+                <ThemedButton
+                    title="Por Agotarse"
+                    onPress={() => router.push("/entry/baseUser/usageAlerts")}
+                    variant="outline"
+                    size="medium"
+                    style={styles.returnOrderButton}
+                />
+
+                {/* Withdraw/return operations captured offline, waiting to be synced */}
+                <PendingOperationsIndicator />
+
                 {/* Warehouse Inventory Section */}
                 {/* Uses warehouse ID from current employee state */}
                 <ScannerComboboxSection
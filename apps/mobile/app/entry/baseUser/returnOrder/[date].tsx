@@ -5,6 +5,7 @@ import { StatusBar } from "expo-status-bar"
 import { Alert, ScrollView, StyleSheet } from "react-native"
 
 import { useBaseUserStore, useReturnOrderStore } from "@/app/stores/baseUserStores"
+import { useOfflineQueueStore } from "@/app/stores/offlineQueueStore"
 import { Collapsible } from "@/components/Collapsible"
 import { ThemedButton } from "@/components/ThemedButton"
 import { ThemedHeader } from "@/components/ThemedHeader"
@@ -53,11 +54,23 @@ export default function OrderDetailsScreen() {
         gcTime: 30 * 60 * 1000, // 30 minutes - cache garbage collection time
     })
 
+    // Returns queued offline are hidden so the same unit is not returned twice
+    const offlineOperations = useOfflineQueueStore(state => state.operations)
+
     // Use API products directly - they match the WithdrawOrderDetailsProduct type
-    const availableProducts = useMemo<WithdrawOrderDetailsProduct[]>(
-        () => apiProductsData ?? EMPTY_PRODUCTS,
-        [apiProductsData],
-    )
+    const availableProducts = useMemo<WithdrawOrderDetailsProduct[]>(() => {
+        const queuedReturnIds = new Set(
+            offlineOperations.flatMap(operation =>
+                operation.kind === "return"
+                    ? operation.payload.orders.flatMap(order => order.productStockIds)
+                    : []
+            )
+        )
+        const products = apiProductsData ?? EMPTY_PRODUCTS
+        return queuedReturnIds.size > 0
+            ? products.filter(product => !queuedReturnIds.has(product.productStockId))
+            : products
+    }, [apiProductsData, offlineOperations])
 
     /**
      * Transform WithdrawOrderDetailsProduct[] to ProductStockItem[] for use in ScannerComboboxSection
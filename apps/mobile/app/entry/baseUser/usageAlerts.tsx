@@ -0,0 +1,117 @@
+"use client"
+
+import { useBaseUserStore } from "@/app/stores/baseUserStores"
+import { ThemedButton } from "@/components/ThemedButton"
+import { ThemedHeader } from "@/components/ThemedHeader"
+import { ThemedText } from "@/components/ThemedText"
+import { ThemedView } from "@/components/ThemedView"
+import { Colors } from "@/constants/Colors"
+import { useColorScheme } from "@/hooks/useColorScheme"
+import { getUsageLimitAlerts } from "@/lib/fetch-functions"
+import { QUERY_KEYS } from "@/lib/query-keys"
+import { useQuery } from "@tanstack/react-query"
+import { StatusBar } from "expo-status-bar"
+import { ScrollView, StyleSheet } from "react-native"
+
+/**
+ * "Por agotarse" screen.
+ * Lists the units of the employee's warehouse that reached the warning threshold of their usage
+ * limit. Units at their last use are retired (marked empty) when they are returned.
+ */
+export default function UsageAlertsScreen() {
+    const colorScheme = useColorScheme()
+    const isDark = colorScheme === "dark"
+    const palette = isDark ? Colors.dark : Colors.light
+    const warehouseId = useBaseUserStore(state => state.currentEmployee?.employee.warehouseId)
+
+    const { data: alerts = [], isFetching, refetch } = useQuery({
+        queryKey: [QUERY_KEYS.USAGE_LIMIT_ALERTS, warehouseId],
+        queryFn: () => getUsageLimitAlerts(warehouseId ?? undefined),
+    })
+
+    return (
+        <ThemedView style={styles.container}>
+            <StatusBar style={isDark ? "light" : "dark"} />
+            <ThemedHeader title="Por Agotarse" />
+
+            <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+                {alerts.length === 0 ? (
+                    <ThemedText style={styles.emptyText}>
+                        Ningún artículo está cerca de su límite de usos.
+                    </ThemedText>
+                ) : (
+                    alerts.map(alert => {
+                        const isAtLimit = alert.status === "limit_reached"
+                        return (
+                            <ThemedView
+                                key={alert.productStockId}
+                                style={[
+                                    styles.alertRow,
+                                    {
+                                        backgroundColor: palette.surface,
+                                        borderColor: isAtLimit ? palette.error : palette.border,
+                                    },
+                                ]}
+                            >
+                                <ThemedText type="defaultSemiBold">
+                                    {alert.description ?? `Producto ${alert.barcode}`}
+                                </ThemedText>
+                                <ThemedText style={styles.detailText}>
+                                    {alert.barcode} · {alert.numberOfUses}/{alert.maxUsage} usos
+                                </ThemedText>
+                                <ThemedText
+                                    style={[styles.statusText, { color: isAtLimit ? palette.error : palette.warning }]}
+                                >
+                                    {isAtLimit
+                                        ? "Último uso: se retira al devolverlo"
+                                        : alert.remainingUses === 1
+                                            ? "1 uso restante"
+                                            : `${alert.remainingUses} usos restantes`}
+                                </ThemedText>
+                            </ThemedView>
+                        )
+                    })
+                )}
+                <ThemedButton
+                    title="Actualizar"
+                    onPress={() => refetch()}
+                    variant="outline"
+                    size="small"
+                    isLoading={isFetching}
+                    style={styles.refreshButton}
+                />
+            </ScrollView>
+        </ThemedView>
+    )
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    scrollView: {
+        flex: 1,
+        padding: 16,
+    },
+    alertRow: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+    },
+    detailText: {
+        fontSize: 14,
+        opacity: 0.7,
+    },
+    statusText: {
+        fontSize: 14,
+        marginTop: 4,
+    },
+    emptyText: {
+        opacity: 0.7,
+        marginBottom: 16,
+    },
+    refreshButton: {
+        marginTop: 8,
+    },
+})
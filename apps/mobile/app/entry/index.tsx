@@ -10,87 +10,29 @@ import { Colors } from "@/constants/Colors"
 import { useColorScheme } from "@/hooks/useColorScheme"
 import { ThemedNumpad } from "@/components/ui/ThemedNumpad"
 import { useNumpadStore, useBaseUserStore } from "@/app/stores/baseUserStores"
-import { useQuery } from "@tanstack/react-query"
-import { getEmployeeByUserId } from "@/lib/fetch-functions"
-import { QUERY_KEYS } from "@/lib/query-keys"
+import {
+    PasscodeVerificationError,
+    useVerifyEmployeePasscodeMutation,
+} from "@/lib/mutations"
 import { toast } from "sonner-native"
-import React, { useState, useEffect } from "react"
+import React from "react"
 import { useRootUserStore } from "@/app/stores/rootUserStore"
-import type { EmployeeData } from "@/app/stores/baseUserStores"
 
 /**
- * Type definition for the employee API response
+ * Maps a passcode verification error to the message shown on the numpad
+ * @param error - The error thrown by the verification mutation
+ * @returns Spanish message for the toast
  */
-type EmployeeApiResponse =
-	| {
-			success: false;
-			message: string;
-			data: never[];
-	  }
-	| {
-			success: true;
-			message: string;
-			data: {
-				employee: {
-					id: string;
-					name: string;
-					surname: string;
-					warehouseId: string;
-					passcode: number;
-					userId: string | null;
-					permissions: string | null;
-				};
-				permissions: {
-					id: string;
-					permission: string;
-				} | null;
-			}[];
-	  }
-	| undefined;
-
-/**
- * Helper function to find the matching employee data by passcode
- * Works with the specific API response structure
- * @param data - The employee API response data
- * @param passcode - The passcode string to match (will be converted to number)
- * @returns The matching employee data or null if no match found
- */
-const findMatchingEmployee = (
-	data: unknown,
-	passcode: string,
-): EmployeeData | null => {
-	// Convert passcode string to number for comparison
-	const passcodeNumber = Number(passcode);
-	
-	// Check if conversion was successful (not NaN)
-	if (Number.isNaN(passcodeNumber)) {
-		return null;
-	}
-
-	const response = data as EmployeeApiResponse;
-
-	// Check if response is undefined
-	if (!response) {
-		return null;
+const getPasscodeErrorMessage = (error: Error): string => {
+	if (error instanceof PasscodeVerificationError) {
+		if (error.status === 423) {
+			return "Demasiados intentos fallidos. Intenta de nuevo en unos minutos.";
+		}
+		if (error.status === 401) {
+			return "No hay ningún usuario registrado con ese código de acceso";
+		}
 	}
-
-	// Check if response was unsuccessful
-	if (response.success === false) {
-		return null;
-	}
-
-	// Check if response was successful and has data
-	if (response.success === true && Array.isArray(response.data)) {
-		// Find the matching employee in the data array
-		const matchingEmployee = response.data.find((item) => {
-			// Compare the employee's passcode (number) with the typed passcode (converted to number)
-			return item.employee.passcode === passcodeNumber;
-		});
-		
-		return matchingEmployee || null;
-	}
-
-	return null;
+	return "No se pudo verificar el código. Intenta de nuevo.";
 };
 
 export default function NumpadScreen() {
@@ -99,24 +41,11 @@ export default function NumpadScreen() {
     const { value: storedValue, setValue, deleteValue, clearValue } = useNumpadStore()
     const { userId } = useRootUserStore()
     const { setCurrentEmployee } = useBaseUserStore()
-    const [shouldQuery, setShouldQuery] = useState(false);
-
-    // Query employee data when shouldQuery is true, we have a passcode, and userId is available
-    const { data: employeeData, isLoading, isError } = useQuery({
-        queryKey: [QUERY_KEYS.EMPLOYEE_BY_USER_ID, userId],
-        queryFn: () => {
-            if (!userId) {
-                throw new Error("User ID is not available");
-            }
-            return getEmployeeByUserId(userId);
-        },
-        enabled: shouldQuery && storedValue.length > 0 && userId !== null,
-        retry: false,
-    });
+    const { mutate: verifyPasscode, isPending: isLoading } = useVerifyEmployeePasscodeMutation()
 
     /**
      * Handles the submission of the passcode
-     * Triggers the query to fetch employee data
+     * The passcode is verified by the API; employee codes are never downloaded to the device
      */
     const handleSubmit = () => {
         // Don't submit if value is empty or if already loading
@@ -130,40 +59,19 @@ export default function NumpadScreen() {
             return;
         }
 
-        // Trigger the query
-        setShouldQuery(true);
-    }
-
-    // Check passcode when employee data changes or when query fails
-    useEffect(() => {
-        if (!shouldQuery) {
-            return;
-        }
-
-        // Handle error case - query failed (likely no employee found)
-        if (isError) {
-            toast.error("No hay ningún usuario registrado con ese código de acceso");
-            setShouldQuery(false);
-            return;
-        }
-
-        // Check passcode when employee data is available
-        if (employeeData) {
-            const matchingEmployee = findMatchingEmployee(employeeData, storedValue);
-            if (matchingEmployee) {
+        verifyPasscode(storedValue, {
+            onSuccess: ({ token, expiresAt, ...employeeData }) => {
                 // Passcode matches, store employee data and navigate to next page
-                setCurrentEmployee(matchingEmployee);
-                console.log("Employee data stored:", matchingEmployee);
+                setCurrentEmployee(employeeData, { token, expiresAt });
                 router.push('/entry/baseUser');
-                setShouldQuery(false);
                 clearValue();
-            } else {
-                // No match found, show error toast
-                toast.error("No hay ningún usuario registrado con ese código de acceso");
-                setShouldQuery(false);
-            }
-        }
-    }, [employeeData, isError, shouldQuery, storedValue, clearValue, isLoading, setCurrentEmployee]);
+            },
+            onError: (error) => {
+                toast.error(getPasscodeErrorMessage(error));
+                clearValue();
+            },
+        });
+    }
 
     return (
 
@@ -12,6 +12,24 @@ import type { useRouter } from "expo-router";
 import { Alert } from "react-native";
 import { create } from "zustand";
 
+/**
+ * Orders stock first-expired-first-out so lookups by barcode pick the unit that expires
+ * first. Units without expiry go last.
+ */
+const sortByExpiry = (items: ProductStockItem[]): ProductStockItem[] =>
+	[...items].sort((left, right) => {
+		if (left.expiresAt === right.expiresAt) {
+			return 0;
+		}
+		if (!left.expiresAt) {
+			return 1;
+		}
+		if (!right.expiresAt) {
+			return -1;
+		}
+		return left.expiresAt.localeCompare(right.expiresAt);
+	});
+
 /**
  * Product type definition using ArkType
  * Represents a nail salon product with its essential properties
@@ -35,7 +53,8 @@ export interface EmployeeData {
 		name: string;
 		surname: string;
 		warehouseId: string;
-		passcode: number;
+		/** Whether the employee has a numpad passcode; the code itself never reaches the device */
+		hasPasscode?: boolean;
 		userId: string | null;
 		permissions: string | null;
 	};
@@ -55,6 +74,8 @@ interface BaseUserState {
 	showScanner: boolean; // Controls visibility of barcode scanner
 	productStock: ProductStockItem[]; // Available product stock items
 	currentEmployee: EmployeeData | null; // Currently logged in employee data
+	employeeToken: string | null; // Short-lived employee token from passcode verification
+	employeeTokenExpiresAt: string | null; // ISO expiry of employeeToken
 
 	// Action Methods
 	/**
@@ -139,8 +160,12 @@ interface BaseUserState {
 	/**
 	 * Sets the current employee data after successful passcode authentication
 	 * @param employeeData - The employee data from the API response
+	 * @param session - Optional employee token and expiry returned by the API
 	 */
-	setCurrentEmployee: (employeeData: EmployeeData) => void;
+	setCurrentEmployee: (
+		employeeData: EmployeeData,
+		session?: { token: string; expiresAt: string },
+	) => void;
 
 	/**
 	 * Clears the current employee data (e.g., on logout)
@@ -160,6 +185,8 @@ export const useBaseUserStore = create<BaseUserState>()(
 			showScanner: false,
 			productStock: [],
 			currentEmployee: null,
+			employeeToken: null,
+			employeeTokenExpiresAt: null,
 
 			// Action Implementations
 			handleProductStockSelect: (stockItem, productInfo) => {
@@ -235,7 +262,7 @@ export const useBaseUserStore = create<BaseUserState>()(
 					(item) => item.id === barcode && !item.isBeingUsed,
 				);
 
-				// If no stock item found by ID, try to find by barcode
+				// If no stock item found by ID, try to find by barcode (stock is kept first-expiring first)
 				if (!stockItem) {
 					stockItem = productStock.find(
 						(item) => item.barcode.toString() === barcode && !item.isBeingUsed,
@@ -335,7 +362,7 @@ export const useBaseUserStore = create<BaseUserState>()(
 
 			initializeStore: (productStock) => {
 				set({
-					productStock: productStock,
+					productStock: sortByExpiry(productStock),
 				});
 			},
 
@@ -347,7 +374,7 @@ export const useBaseUserStore = create<BaseUserState>()(
 
 				// Merge new data with existing state
 				// Preserve isBeingUsed flags for items that are still selected
-				const syncedStock: ProductStockItem[] = newProductStock.map((newItem) => {
+				const syncedStock: ProductStockItem[] = sortByExpiry(newProductStock).map((newItem) => {
 					// Find corresponding item in current stock
 					const currentItem = currentProductStock.find((item) => item.id === newItem.id);
 
@@ -393,12 +420,20 @@ export const useBaseUserStore = create<BaseUserState>()(
 				}
 			},
 
-			setCurrentEmployee: (employeeData) => {
-				set({ currentEmployee: employeeData });
+			setCurrentEmployee: (employeeData, session) => {
+				set({
+					currentEmployee: employeeData,
+					employeeToken: session?.token ?? null,
+					employeeTokenExpiresAt: session?.expiresAt ?? null,
+				});
 			},
 
 			clearCurrentEmployee: () => {
-				set({ currentEmployee: null });
+				set({
+					currentEmployee: null,
+					employeeToken: null,
+					employeeTokenExpiresAt: null,
+				});
 			},
 		}),
 		{
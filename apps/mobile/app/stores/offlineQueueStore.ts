@@ -0,0 +1,65 @@
+import { create } from "zustand";
+import { devtools } from "@csark0812/zustand-expo-devtools";
+import type { OfflineOperation } from "@/lib/offline-queue";
+
+/**
+ * Offline queue state interface
+ * Mirrors the SQLite queue of withdraw/return operations so screens can react to it
+ */
+interface OfflineQueueState {
+	/** Operations waiting to be sent, oldest first */
+	operations: OfflineOperation[];
+	/** Whether the device currently has a usable connection */
+	isOnline: boolean;
+	/** Whether a replay of the queue is running */
+	isSyncing: boolean;
+
+	/**
+	 * Replaces the mirrored operations after the SQLite queue changes
+	 * @param operations - Operations currently stored in the queue
+	 */
+	setOperations: (operations: OfflineOperation[]) => void;
+
+	/**
+	 * Updates the connectivity flag from NetInfo
+	 * @param isOnline - Whether the device is online
+	 */
+	setIsOnline: (isOnline: boolean) => void;
+
+	/**
+	 * Marks the start or end of a queue replay
+	 * @param isSyncing - Whether a replay is running
+	 */
+	setIsSyncing: (isSyncing: boolean) => void;
+}
+
+/**
+ * OfflineQueueStore - Zustand store for the pending operations indicator
+ * The SQLite queue in lib/offline-queue is the source of truth; this store only mirrors it
+ */
+export const useOfflineQueueStore = create<OfflineQueueState>()(
+	devtools(
+		(set) => ({
+			// Initial State
+			operations: [],
+			isOnline: true,
+			isSyncing: false,
+
+			// Action Implementations
+			setOperations: (operations: OfflineOperation[]) => {
+				set({ operations });
+			},
+
+			setIsOnline: (isOnline: boolean) => {
+				set({ isOnline });
+			},
+
+			setIsSyncing: (isSyncing: boolean) => {
+				set({ isSyncing });
+			},
+		}),
+		{
+			name: "offline-queue-store",
+		},
+	),
+);
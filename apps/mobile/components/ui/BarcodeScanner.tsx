@@ -20,6 +20,14 @@ interface BarcodeScanningResult {
     data: string
 }
 
+/**
+ * Scanner props; screens that need the barcode as well as the unit UUID
+ * pass `onQRCodeScanned` to receive the parsed QR payload
+ */
+type ScannerProps = BarcodeScannerProps & {
+    onQRCodeScanned?: (qrData: QRCodeData) => void
+}
+
 
 /**
  * Modern barcode scanner component using expo-camera CameraView
@@ -27,7 +35,7 @@ interface BarcodeScanningResult {
  * Handles camera permissions and provides visual feedback for scan results
  * Keeps scanner open for continuous scanning with cooldown protection to prevent duplicate scans
  */
-export function BarcodeScanner({ onBarcodeScanned, onClose }: BarcodeScannerProps) {
+export function BarcodeScanner({ onBarcodeScanned, onQRCodeScanned, onClose }: ScannerProps) {
     const [permission, requestPermission] = useCameraPermissions()
     const [showSuccessFeedback, setShowSuccessFeedback] = useState(false)
     const [facing] = useState<CameraType>('back')
@@ -102,11 +110,15 @@ export function BarcodeScanner({ onBarcodeScanned, onClose }: BarcodeScannerProp
         // Try to parse as structured QR code first
         const qrData = parseQRData(data)
 
-        // Use UUID from QR code if available, otherwise use raw data as fallback
-        const identifierToSearch = qrData ? qrData.uuid : data
+        if (qrData && onQRCodeScanned) {
+            onQRCodeScanned(qrData)
+        } else {
+            // Use UUID from QR code if available, otherwise use raw data as fallback
+            const identifierToSearch = qrData ? qrData.uuid : data
 
-        // Call the callback directly to add the product (passing UUID or raw data)
-        onBarcodeScanned(identifierToSearch)
+            // Call the callback directly to add the product (passing UUID or raw data)
+            onBarcodeScanned(identifierToSearch)
+        }
 
         // Show visual feedback overlay
         setShowSuccessFeedback(true)
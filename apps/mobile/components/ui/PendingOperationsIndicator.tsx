@@ -0,0 +1,205 @@
+"use client"
+
+import { useOfflineQueueStore } from "@/app/stores/offlineQueueStore"
+import { ThemedButton } from "@/components/ThemedButton"
+import { ThemedText } from "@/components/ThemedText"
+import { ThemedView } from "@/components/ThemedView"
+import { Colors } from "@/constants/Colors"
+import { useColorScheme } from "@/hooks/useColorScheme"
+import { useReplayOfflineQueue } from "@/hooks/useOfflineQueue"
+import { getShortId } from "@/lib/functions"
+import {
+    discardOfflineOperation,
+    retryOfflineOperation,
+    type OfflineOperation,
+} from "@/lib/offline-queue"
+import { CloudOff, RefreshCw } from "lucide-react-native"
+import { Alert, StyleSheet, type ViewStyle } from "react-native"
+import { toast } from "sonner-native"
+
+interface PendingOperationsIndicatorProps {
+    style?: ViewStyle
+}
+
+/**
+ * Describes a queued operation in one line for the indicator list
+ */
+const describeOperation = (operation: OfflineOperation): string => {
+    if (operation.kind === "withdraw") {
+        return `Retiro de ${operation.payload.products.length} producto(s)`
+    }
+    const productCount = operation.payload.orders.reduce(
+        (total, order) => total + order.productStockIds.length,
+        0,
+    )
+    return `Devolución de ${productCount} producto(s)`
+}
+
+/**
+ * "Operaciones pendientes" banner for the base user screen.
+ * Shows withdraw/return operations captured offline, lets the user sync them manually
+ * and retry or discard the ones the API refused. Renders nothing when the queue is empty.
+ */
+export function PendingOperationsIndicator({ style }: PendingOperationsIndicatorProps) {
+    const colorScheme = useColorScheme()
+    const isDark = colorScheme === "dark"
+    const { operations, isOnline, isSyncing } = useOfflineQueueStore()
+    const replayOfflineQueue = useReplayOfflineQueue()
+
+    if (operations.length === 0) {
+        return null
+    }
+
+    const conflicts = operations.filter(operation => operation.status === "conflict")
+    const pendingCount = operations.length - conflicts.length
+
+    const handleSync = () => {
+        replayOfflineQueue().catch(() => {
+            toast.error("No se pudieron sincronizar las operaciones pendientes")
+        })
+    }
+
+    const handleRetry = (operation: OfflineOperation) => {
+        retryOfflineOperation(operation.id)
+            .then(() => (isOnline ? replayOfflineQueue() : undefined))
+            .catch(() => {
+                toast.error("No se pudo reintentar la operación")
+            })
+    }
+
+    const handleDiscard = (operation: OfflineOperation) => {
+        Alert.alert(
+            "Descartar operación",
+            `¿Deseas descartar "${describeOperation(operation)}"? No se enviará al servidor.`,
+            [
+                { text: "Cancelar", style: "cancel" },
+                {
+                    text: "Descartar",
+                    style: "destructive",
+                    onPress: () => {
+                        discardOfflineOperation(operation.id).catch(() => {
+                            toast.error("No se pudo descartar la operación")
+                        })
+                    },
+                },
+            ],
+        )
+    }
+
+    return (
+        <ThemedView
+            style={[
+                styles.container,
+                {
+                    backgroundColor: isDark ? Colors.dark.surface : Colors.light.surface,
+                    borderColor: conflicts.length > 0 ? Colors.light.error : Colors.light.warning,
+                },
+                style,
+            ]}
+        >
+            <ThemedView style={styles.header} lightColor={Colors.light.surface} darkColor={Colors.dark.surface}>
+                {isOnline ? (
+                    <RefreshCw size={20} color={Colors.light.warning} />
+                ) : (
+                    <CloudOff size={20} color={Colors.light.warning} />
+                )}
+                <ThemedView style={styles.headerText} lightColor={Colors.light.surface} darkColor={Colors.dark.surface}>
+                    <ThemedText type="defaultSemiBold">
+                        Operaciones pendientes ({operations.length})
+                    </ThemedText>
+                    <ThemedText style={styles.subtitle}>
+                        {isOnline
+                            ? `${pendingCount} por sincronizar`
+                            : "Sin conexión: se sincronizarán al recuperar la red"}
+                    </ThemedText>
+                </ThemedView>
+                {pendingCount > 0 && (
+                    <ThemedButton
+                        title="Sincronizar"
+                        onPress={handleSync}
+                        variant="outline"
+                        size="small"
+                        isLoading={isSyncing}
+                        disabled={isSyncing || !isOnline}
+                    />
+                )}
+            </ThemedView>
+
+            {conflicts.map(operation => (
+                <ThemedView
+                    key={operation.id}
+                    style={[
+                        styles.conflict,
+                        { borderColor: isDark ? Colors.dark.border : Colors.light.border },
+                    ]}
+                    lightColor={Colors.light.surface}
+                    darkColor={Colors.dark.surface}
+                >
+                    <ThemedText type="defaultSemiBold">
+                        {describeOperation(operation)} · {getShortId(operation.id)}
+                    </ThemedText>
+                    <ThemedText style={[styles.conflictMessage, { color: Colors.light.error }]}>
+                        {operation.lastError ?? "El servidor rechazó la operación"}
+                    </ThemedText>
+                    <ThemedView style={styles.conflictActions} lightColor={Colors.light.surface} darkColor={Colors.dark.surface}>
+                        <ThemedButton
+                            title="Reintentar"
+                            onPress={() => handleRetry(operation)}
+                            variant="outline"
+                            size="small"
+                            disabled={isSyncing}
+                            style={styles.conflictButton}
+                        />
+                        <ThemedButton
+                            title="Descartar"
+                            onPress={() => handleDiscard(operation)}
+                            variant="ghost"
+                            size="small"
+                            disabled={isSyncing}
+                            style={styles.conflictButton}
+                        />
+                    </ThemedView>
+                </ThemedView>
+            ))}
+        </ThemedView>
+    )
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    header: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 12,
+    },
+    headerText: {
+        flex: 1,
+    },
+    subtitle: {
+        fontSize: 14,
+        opacity: 0.7,
+        marginTop: 2,
+    },
+    conflict: {
+        borderTopWidth: 1,
+        marginTop: 12,
+        paddingTop: 12,
+    },
+    conflictMessage: {
+        fontSize: 14,
+        marginTop: 4,
+    },
+    conflictActions: {
+        flexDirection: "row",
+        gap: 8,
+        marginTop: 8,
+    },
+    conflictButton: {
+        flex: 1,
+    },
+})
@@ -0,0 +1,145 @@
+import { authClient } from "@/lib/auth";
+import client from "@/lib/hono-client";
+import { QUERY_KEYS } from "@/lib/query-keys";
+import { type QueryClient, useQueryClient } from "@tanstack/react-query";
+import { fetch } from "expo/fetch";
+import { useEffect } from "react";
+import { AppState } from "react-native";
+
+const RECONNECT_MIN_DELAY_MS = 2_000;
+const RECONNECT_MAX_DELAY_MS = 60_000;
+
+/**
+ * Query caches made stale by each domain event type streamed by the API
+ */
+const INVALIDATED_QUERY_KEYS: Record<string, string[]> = {
+	"stock.changed": [
+		QUERY_KEYS.PRODUCT_STOCK,
+		QUERY_KEYS.WITHDRAW_ORDERS,
+		QUERY_KEYS.WITHDRAW_ORDER_DETAILS,
+		QUERY_KEYS.WITHDRAW_ORDER_DETAILS_PRODUCTS,
+		QUERY_KEYS.CYCLE_COUNT_DETAIL,
+		QUERY_KEYS.USAGE_LIMIT_ALERTS,
+	],
+	"transfer.status_changed": [QUERY_KEYS.PRODUCT_STOCK],
+	"transfer.items_updated": [QUERY_KEYS.PRODUCT_STOCK],
+	"kit.updated": [QUERY_KEYS.PRODUCT_STOCK],
+};
+
+/**
+ * Invalidates the queries affected by one Server-Sent Events frame
+ */
+function handleFrame(frame: string, queryClient: QueryClient) {
+	const eventLine = frame.split("\n").find((line) => line.startsWith("event:"));
+	const eventType = eventLine?.slice("event:".length).trim();
+	const queryKeys = eventType ? INVALIDATED_QUERY_KEYS[eventType] : undefined;
+	if (!queryKeys) {
+		return;
+	}
+	for (const key of queryKeys) {
+		queryClient.invalidateQueries({ queryKey: [key] });
+	}
+}
+
+/**
+ * Reads the domain events stream until it ends or the signal aborts
+ */
+async function readDomainEvents(signal: AbortSignal, queryClient: QueryClient) {
+	const headers: Record<string, string> = { Accept: "text/event-stream" };
+	const cookies = authClient.getCookie();
+	if (cookies) {
+		headers.Cookie = cookies;
+	}
+
+	const response = await fetch(client.api.auth.events.stream.$url().toString(), {
+		headers,
+		credentials: "omit",
+		signal,
+	});
+	if (!response.ok || !response.body) {
+		throw new Error(`Domain events stream failed with status ${response.status}`);
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	while (!signal.aborted) {
+		const { value, done } = await reader.read();
+		if (done) {
+			return;
+		}
+		buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+		let boundary = buffer.indexOf("\n\n");
+		while (boundary !== -1) {
+			handleFrame(buffer.slice(0, boundary), queryClient);
+			buffer = buffer.slice(boundary + 2);
+			boundary = buffer.indexOf("\n\n");
+		}
+	}
+}
+
+/**
+ * Keeps the query caches in sync with the API domain events stream, so stock, withdraw orders
+ * and cabinet screens refresh when the web dashboard or another device changes them.
+ * Connects while the app is in the foreground and reconnects with backoff after errors.
+ * Mount once, near the root of the app.
+ */
+export function useDomainEventsListener() {
+	const queryClient = useQueryClient();
+
+	useEffect(() => {
+		let controller: AbortController | null = null;
+		let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+		let delay = RECONNECT_MIN_DELAY_MS;
+
+		const disconnect = () => {
+			if (reconnectTimer) {
+				clearTimeout(reconnectTimer);
+				reconnectTimer = null;
+			}
+			controller?.abort();
+			controller = null;
+		};
+
+		const connect = () => {
+			disconnect();
+			const current = new AbortController();
+			controller = current;
+
+			readDomainEvents(current.signal, queryClient)
+				.then(() => {
+					delay = RECONNECT_MIN_DELAY_MS;
+				})
+				.catch((error: unknown) => {
+					if (!current.signal.aborted) {
+						console.warn("Domain events stream disconnected:", error);
+					}
+					delay = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+				})
+				.finally(() => {
+					if (current.signal.aborted || controller !== current) {
+						return;
+					}
+					reconnectTimer = setTimeout(connect, delay);
+				});
+		};
+
+		if (AppState.currentState === "active") {
+			connect();
+		}
+
+		const subscription = AppState.addEventListener("change", (state) => {
+			if (state === "active") {
+				delay = RECONNECT_MIN_DELAY_MS;
+				connect();
+			} else {
+				disconnect();
+			}
+		});
+
+		return () => {
+			subscription.remove();
+			disconnect();
+		};
+	}, [queryClient]);
+}
@@ -0,0 +1,77 @@
+import { useOfflineQueueStore } from "@/app/stores/offlineQueueStore";
+import {
+	isStateOnline,
+	refreshOfflineOperations,
+	replayOfflineOperations,
+	type OfflineReplaySummary,
+} from "@/lib/offline-queue";
+import { QUERY_KEYS } from "@/lib/query-keys";
+import NetInfo from "@react-native-community/netinfo";
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect } from "react";
+import { toast } from "sonner-native";
+
+/**
+ * Replays the offline queue, refreshes the affected queries and reports the outcome with toasts
+ * @returns Function that replays the queue on demand
+ */
+export function useReplayOfflineQueue() {
+	const queryClient = useQueryClient();
+
+	return useCallback(async (): Promise<OfflineReplaySummary> => {
+		const summary = await replayOfflineOperations();
+
+		if (summary.synced > 0) {
+			queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.PRODUCT_STOCK] });
+			queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.WITHDRAW_ORDERS] });
+			queryClient.invalidateQueries({
+				queryKey: [QUERY_KEYS.WITHDRAW_ORDER_DETAILS_PRODUCTS],
+			});
+			toast.success(`${summary.synced} operación(es) pendiente(s) sincronizada(s)`);
+		}
+		if (summary.skippedProductIds.length > 0) {
+			toast.warning(
+				`${summary.skippedProductIds.length} producto(s) ya estaban en uso y se omitieron del retiro`,
+			);
+		}
+		if (summary.conflicts > 0) {
+			toast.error(`${summary.conflicts} operación(es) requieren revisión`);
+		}
+
+		return summary;
+	}, [queryClient]);
+}
+
+/**
+ * Keeps the offline queue in sync with connectivity.
+ * Loads the queued operations on mount and replays them whenever the device comes back online.
+ * Mount once, near the root of the app.
+ */
+export function useOfflineQueueListener() {
+	const syncNow = useReplayOfflineQueue();
+
+	useEffect(() => {
+		let wasOnline = useOfflineQueueStore.getState().isOnline;
+
+		void refreshOfflineOperations()
+			.then((operations) => (operations.length > 0 ? syncNow() : undefined))
+			.catch((error: unknown) => {
+				console.error("Error loading offline queue:", error);
+			});
+
+		const unsubscribe = NetInfo.addEventListener((state) => {
+			const isOnline = isStateOnline(state);
+			useOfflineQueueStore.getState().setIsOnline(isOnline);
+
+			// Replay only on the offline → online transition
+			if (isOnline && !wasOnline) {
+				void syncNow().catch((error: unknown) => {
+					console.error("Error replaying offline queue:", error);
+				});
+			}
+			wasOnline = isOnline;
+		});
+
+		return unsubscribe;
+	}, [syncNow]);
+}
@@ -9,7 +9,7 @@ import type { ApiResponse, CabinetWarehouseMapEntry } from "../types/types";
 export const getProducts = async () => {
 	try {
 		// Make the API call using the correct Hono RPC client pattern
-		const response = await client.api.auth.products.all.$get();
+		const response = await client.api.auth.products.all.$get({ query: {} });
 
 		// Check if the response is successful
 		if (!response.ok) {
@@ -124,31 +124,6 @@ export const getWithdrawOrderDetailsProducts = async (employeeId: string) => {
 	}
 }
 
-/**
- * Fetches employee data by user ID from the API
- * @param userId - The user ID to fetch employee data for
- * @returns Promise containing the employee data or throws an error
- */
-export const getEmployeeByUserId = async (userId: string) => {
-	try {
-		const response = await client.api.auth.employee["by-user-id"].$get({
-			query: { userId },
-		});
-		if (!response.ok) {
-			throw new Error(`API request failed with status: ${response.status}`);
-		}
-		const data = (await response.json()) as Awaited<ReturnType<typeof response.json>>;
-		return data;
-	} catch (error) {
-		console.error('Error fetching employee by user ID:', error);
-		throw new Error(
-			error instanceof Error
-				? `Failed to fetch employee: ${error.message}`
-				: 'Failed to fetch employee: Unknown error'
-		);
-	}
-};
-
 /**
  * Fetches cabinet warehouse map from the API
  * @returns Promise containing the cabinet warehouse map data or throws an error
@@ -198,3 +173,77 @@ export const checkDatabaseHealth = async (): Promise<ApiResponse> => {
 		);
 	}
 };
+
+/**
+ * Fetches the open cycle counts visible to the signed-in user (their warehouse)
+ * @returns Promise containing the open cycle counts or throws an error
+ */
+export const getOpenCycleCounts = async () => {
+	try {
+		const response = await client.api.auth["cycle-counts"].all.$get({
+			query: { status: "open" },
+		});
+		if (!response.ok) {
+			throw new Error(`API request failed with status: ${response.status}`);
+		}
+		const data = (await response.json()) as Awaited<ReturnType<typeof response.json>>;
+		return data.data || [];
+	} catch (error) {
+		console.error('Error fetching cycle counts:', error);
+		throw new Error(
+			error instanceof Error
+				? `Failed to fetch cycle counts: ${error.message}`
+				: 'Failed to fetch cycle counts: Unknown error'
+		);
+	}
+}
+
+/**
+ * Fetches a cycle count with its live variance
+ * @param id - The cycle count UUID
+ * @returns Promise containing the cycle count or throws an error
+ */
+export const getCycleCount = async (id: string) => {
+	try {
+		const response = await client.api.auth["cycle-counts"][":id"].$get({
+			param: { id },
+		});
+		if (!response.ok) {
+			throw new Error(`API request failed with status: ${response.status}`);
+		}
+		const data = (await response.json()) as Awaited<ReturnType<typeof response.json>>;
+		return data.data;
+	} catch (error) {
+		console.error('Error fetching cycle count:', error);
+		throw new Error(
+			error instanceof Error
+				? `Failed to fetch cycle count: ${error.message}`
+				: 'Failed to fetch cycle count: Unknown error'
+		);
+	}
+}
+
+/**
+ * Fetches the units close to their usage limit ("por agotarse")
+ * @param warehouseId - Optional warehouse filter; the API limits it to the user's warehouse scope
+ * @returns Promise containing the usage limit alerts or throws an error
+ */
+export const getUsageLimitAlerts = async (warehouseId?: string) => {
+	try {
+		const response = await client.api.auth["stock-limits"]["usage-alerts"].$get({
+			query: warehouseId ? { warehouseId } : {},
+		});
+		if (!response.ok) {
+			throw new Error(`API request failed with status: ${response.status}`);
+		}
+		const data = (await response.json()) as Awaited<ReturnType<typeof response.json>>;
+		return data.data || [];
+	} catch (error) {
+		console.error('Error fetching usage limit alerts:', error);
+		throw new Error(
+			error instanceof Error
+				? `Failed to fetch usage limit alerts: ${error.message}`
+				: 'Failed to fetch usage limit alerts: Unknown error'
+		);
+	}
+}
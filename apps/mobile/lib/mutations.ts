@@ -1,6 +1,14 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { randomUUID } from "expo-crypto";
 import client from "./hono-client";
 import type { ApiResponse } from "@/types/types";
+import type { EmployeeData } from "@/app/stores/baseUserStores";
+import {
+	employeeTokenHeaders,
+	enqueueOfflineOperation,
+	isDeviceOnline,
+	isNetworkError,
+} from "./offline-queue";
 import { QUERY_KEYS } from "./query-keys";
 
 /**
@@ -18,21 +26,33 @@ export interface CreateWithdrawOrderPayload {
 	products: string[];
 	/** Whether the order is complete */
 	isComplete?: boolean;
+	/** Client-generated UUID that lets the API ignore replays of the same order */
+	clientId?: string;
 }
 
 /**
- * Creates a withdraw order via the API
+ * Creates a withdraw order via the API.
+ * When the device is offline the order is stored in the offline queue instead
+ * and replayed with the same client ID once the connection returns.
  * @param payload - The withdraw order data to submit
- * @returns Promise resolving to the API response
+ * @returns Promise resolving to the API response (or the queued response when offline)
  * @throws Error if the API request fails
  */
 export const createWithdrawOrder = async (
 	payload: CreateWithdrawOrderPayload,
 ): Promise<ApiResponse<unknown>> => {
+	const withClientId = { ...payload, clientId: payload.clientId ?? randomUUID() };
+
+	if (!(await isDeviceOnline())) {
+		return enqueueOfflineOperation("withdraw", withClientId, withClientId.clientId);
+	}
+
 	try {
-		const response = await client.api.auth["withdraw-orders"].create.$post({
-			json: payload,
-		});
+		// The client ID doubles as Idempotency-Key so double taps replay the first response
+		const response = await client.api.auth["withdraw-orders"].create.$post(
+			{ json: withClientId },
+			{ headers: { "Idempotency-Key": withClientId.clientId, ...employeeTokenHeaders() } },
+		);
 
 		if (!response.ok) {
 			throw new Error(
@@ -47,6 +67,9 @@ export const createWithdrawOrder = async (
 
 		return data as ApiResponse<unknown>;
 	} catch (error) {
+		if (isNetworkError(error)) {
+			return enqueueOfflineOperation("withdraw", withClientId, withClientId.clientId);
+		}
 		console.error("Error creating withdraw order:", error);
 		throw new Error(
 			error instanceof Error
@@ -102,18 +125,25 @@ export interface UpdateWithdrawOrderPayload {
 }
 
 /**
- * Updates a withdraw order via the API to process product returns
+ * Updates a withdraw order via the API to process product returns.
+ * When the device is offline the return is stored in the offline queue instead;
+ * the API skips products already returned, so replays are safe.
  * @param payload - The withdraw order update data to submit
- * @returns Promise resolving to the API response
+ * @returns Promise resolving to the API response (or the queued response when offline)
  * @throws Error if the API request fails
  */
 export const updateWithdrawOrder = async (
 	payload: UpdateWithdrawOrderPayload,
 ): Promise<ApiResponse<unknown>> => {
+	if (!(await isDeviceOnline())) {
+		return enqueueOfflineOperation("return", payload);
+	}
+
 	try {
-		const response = await client.api.auth["withdraw-orders"].update.$post({
-			json: payload,
-		});
+		const response = await client.api.auth["withdraw-orders"].update.$post(
+			{ json: payload },
+			{ headers: employeeTokenHeaders() },
+		);
 
 		if (!response.ok) {
 			throw new Error(
@@ -128,6 +158,9 @@ export const updateWithdrawOrder = async (
 
 		return data as ApiResponse<unknown>;
 	} catch (error) {
+		if (isNetworkError(error)) {
+			return enqueueOfflineOperation("return", payload);
+		}
 		console.error("Error updating withdraw order:", error);
 		throw new Error(
 			error instanceof Error
@@ -164,3 +197,133 @@ export const useUpdateWithdrawOrderMutation = () => {
 	});
 };
 
+/**
+ * Successful passcode verification: the employee plus a short-lived employee token
+ */
+export type VerifiedEmployeeResult = EmployeeData & {
+	/** Employee-scoped token issued by the API */
+	token: string;
+	/** ISO date when the token expires */
+	expiresAt: string;
+};
+
+/**
+ * Error thrown when the passcode is rejected, keeping the HTTP status
+ * so the numpad can tell a wrong code (401) from a lockout (423)
+ */
+export class PasscodeVerificationError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "PasscodeVerificationError";
+		this.status = status;
+	}
+}
+
+/**
+ * Verifies a numpad passcode on the server.
+ * The device never downloads employee passcodes; the API matches the hash
+ * against the employees linked to the signed-in account.
+ * @param passcode - The 4-digit passcode typed on the numpad
+ * @returns Promise resolving to the matched employee and token
+ * @throws PasscodeVerificationError when the passcode is rejected or the numpad is locked
+ */
+export const verifyEmployeePasscode = async (
+	passcode: string,
+): Promise<VerifiedEmployeeResult> => {
+	const response = await client.api.auth.employee["verify-passcode"].$post({
+		json: { passcode },
+	});
+
+	const data = (await response.json()) as ApiResponse<VerifiedEmployeeResult>;
+
+	if (!response.ok || !data.success || !data.data) {
+		throw new PasscodeVerificationError(
+			data.message ?? `API request failed with status: ${response.status}`,
+			response.status,
+		);
+	}
+
+	return data.data;
+};
+
+/**
+ * Custom hook for verifying numpad passcodes using TanStack Query
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ */
+export const useVerifyEmployeePasscodeMutation = () =>
+	useMutation<VerifiedEmployeeResult, Error, string>({
+		mutationFn: verifyEmployeePasscode,
+	});
+
+/**
+ * Payload for a cycle count scan: a unit QR (barcode + uuid) or a barcode with a quantity
+ */
+export interface CycleCountScanPayload {
+	/** UUID of the open cycle count */
+	cycleCountId: string;
+	/** Scanned product barcode */
+	barcode: number;
+	/** Product stock UUID read from a unit QR code */
+	uuid?: string;
+	/** Units counted for a barcode-only scan */
+	quantity?: number;
+}
+
+/**
+ * Result of a cycle count scan as returned by the API
+ */
+export interface CycleCountScanResult {
+	result: "counted" | "duplicate" | "unexpected";
+	countedUnits: number;
+	unexpectedUnits: number;
+	variance: {
+		expectedUnits: number;
+		countedUnits: number;
+		missingUnits: number;
+		unexpectedUnits: number;
+	};
+}
+
+/**
+ * Records a scan in an open cycle count.
+ * Scans are not queued offline: the live variance only makes sense while connected.
+ * @param payload - The cycle count and the scanned code
+ * @returns Promise resolving to the scan result with the updated variance
+ * @throws Error with the API message when the scan is rejected
+ */
+export const recordCycleCountScan = async ({
+	cycleCountId,
+	...json
+}: CycleCountScanPayload): Promise<CycleCountScanResult> => {
+	const response = await client.api.auth["cycle-counts"][":id"].scan.$post({
+		param: { id: cycleCountId },
+		json,
+	});
+
+	const data = (await response.json()) as ApiResponse<CycleCountScanResult>;
+
+	if (!response.ok || !data.success || !data.data) {
+		throw new Error(data.message ?? `API request failed with status: ${response.status}`);
+	}
+
+	return data.data;
+};
+
+/**
+ * Custom hook for recording cycle count scans using TanStack Query
+ * @returns Mutation object with mutate, mutateAsync, and state properties
+ */
+export const useRecordCycleCountScanMutation = () => {
+	const queryClient = useQueryClient();
+
+	return useMutation<CycleCountScanResult, Error, CycleCountScanPayload>({
+		mutationFn: recordCycleCountScan,
+		onSuccess: (_, variables) => {
+			queryClient.invalidateQueries({
+				queryKey: [QUERY_KEYS.CYCLE_COUNT_DETAIL, variables.cycleCountId],
+			});
+		},
+	});
+};
@@ -0,0 +1,427 @@
+import NetInfo, { type NetInfoState } from "@react-native-community/netinfo";
+import { randomUUID } from "expo-crypto";
+import * as SQLite from "expo-sqlite";
+import { useBaseUserStore } from "@/app/stores/baseUserStores";
+import { useOfflineQueueStore } from "@/app/stores/offlineQueueStore";
+import type { ApiResponse } from "@/types/types";
+import client from "./hono-client";
+import type {
+	CreateWithdrawOrderPayload,
+	UpdateWithdrawOrderPayload,
+} from "./mutations";
+
+const DATABASE_NAME = "offline-queue.db";
+/** Message of the API's 403 when the employee token belongs to another employee */
+const EMPLOYEE_TOKEN_MISMATCH_MESSAGE = "Forbidden - employee token does not match";
+
+/**
+ * Operation kinds that can be captured while offline
+ */
+export type OfflineOperationKind = "withdraw" | "return";
+
+/**
+ * pending: waiting to be sent; conflict: the API refused it and the user must retry or discard it
+ */
+export type OfflineOperationStatus = "pending" | "conflict";
+
+interface OfflineOperationBase {
+	/** Client-generated UUID; sent as `clientId` so replays never duplicate an order */
+	id: string;
+	status: OfflineOperationStatus;
+	/** Number of failed delivery attempts */
+	attempts: number;
+	/** Last error reported by the API, in Spanish when it comes from the queue */
+	lastError: string | null;
+	/** Product stock IDs dropped because another employee already took them */
+	conflictingProductIds: string[];
+	/** ISO date when the operation was captured */
+	createdAt: string;
+}
+
+/**
+ * Withdraw or return operation stored in the local SQLite queue
+ */
+export type OfflineOperation =
+	| (OfflineOperationBase & { kind: "withdraw"; payload: CreateWithdrawOrderPayload })
+	| (OfflineOperationBase & { kind: "return"; payload: UpdateWithdrawOrderPayload });
+
+/**
+ * Result of replaying the queue
+ */
+export interface OfflineReplaySummary {
+	/** Operations delivered and removed from the queue */
+	synced: number;
+	/** Operations that now need a decision from the user */
+	conflicts: number;
+	/** Units removed from queued withdrawals because they were already in use */
+	skippedProductIds: string[];
+	/** Operations still waiting in the queue */
+	remaining: number;
+}
+
+interface OfflineOperationRow {
+	id: string;
+	kind: OfflineOperationKind;
+	payload: string;
+	status: OfflineOperationStatus;
+	attempts: number;
+	last_error: string | null;
+	conflicting_product_ids: string;
+	created_at: string;
+}
+
+type ReplayOutcome =
+	| { type: "synced" }
+	| { type: "retry" }
+	| { type: "conflict" }
+	| { type: "requeued"; operation: OfflineOperation; skippedProductIds: string[] };
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let activeReplay: Promise<OfflineReplaySummary> | null = null;
+
+/**
+ * Opens the queue database once and creates the table on first use
+ */
+const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+	if (!databasePromise) {
+		databasePromise = SQLite.openDatabaseAsync(DATABASE_NAME).then(async (database) => {
+			await database.execAsync(`
+				PRAGMA journal_mode = WAL;
+				CREATE TABLE IF NOT EXISTS pending_operations (
+					id TEXT PRIMARY KEY NOT NULL,
+					kind TEXT NOT NULL,
+					payload TEXT NOT NULL,
+					status TEXT NOT NULL DEFAULT 'pending',
+					attempts INTEGER NOT NULL DEFAULT 0,
+					last_error TEXT,
+					conflicting_product_ids TEXT NOT NULL DEFAULT '[]',
+					created_at TEXT NOT NULL
+				);
+			`);
+			return database;
+		});
+	}
+	return databasePromise;
+};
+
+const toOperation = (row: OfflineOperationRow): OfflineOperation => {
+	const base: OfflineOperationBase = {
+		id: row.id,
+		status: row.status,
+		attempts: row.attempts,
+		lastError: row.last_error,
+		conflictingProductIds: JSON.parse(row.conflicting_product_ids) as string[],
+		createdAt: row.created_at,
+	};
+
+	return row.kind === "withdraw"
+		? { ...base, kind: "withdraw", payload: JSON.parse(row.payload) as CreateWithdrawOrderPayload }
+		: { ...base, kind: "return", payload: JSON.parse(row.payload) as UpdateWithdrawOrderPayload };
+};
+
+/**
+ * Reads every queued operation (oldest first) and mirrors it into the store
+ * @returns The queued operations
+ */
+export const refreshOfflineOperations = async (): Promise<OfflineOperation[]> => {
+	const database = await getDatabase();
+	const rows = await database.getAllAsync<OfflineOperationRow>(
+		"SELECT * FROM pending_operations ORDER BY created_at ASC",
+	);
+	const operations = rows.map(toOperation);
+	useOfflineQueueStore.getState().setOperations(operations);
+	return operations;
+};
+
+/**
+ * Checks whether the device can currently reach the network
+ */
+export const isDeviceOnline = async (): Promise<boolean> => {
+	const state = await NetInfo.fetch();
+	return isStateOnline(state);
+};
+
+/**
+ * NetInfo reports `isInternetReachable` as null while it is still probing; treat that as online
+ */
+export const isStateOnline = (state: NetInfoState): boolean =>
+	state.isConnected === true && state.isInternetReachable !== false;
+
+/**
+ * React Native rejects fetch with a TypeError when the request never reaches the server
+ */
+export const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
+
+/**
+ * Header with the employee token of the current passcode session, required by withdrawals
+ * and returns. Replays use the token of whoever is signed in when the queue is sent.
+ */
+export const employeeTokenHeaders = (): Record<string, string> => {
+	const { employeeToken } = useBaseUserStore.getState();
+	return employeeToken ? { "X-Employee-Token": employeeToken } : {};
+};
+
+/**
+ * Stores an operation in the queue so it can be replayed when the connection returns
+ * @param kind - Operation kind
+ * @param payload - Payload that would have been sent to the API
+ * @param id - Client ID of the operation (generated when omitted)
+ * @returns Response shaped like the API so screens can treat it as a success
+ */
+export const enqueueOfflineOperation = async (
+	kind: OfflineOperationKind,
+	payload: CreateWithdrawOrderPayload | UpdateWithdrawOrderPayload,
+	id: string = randomUUID(),
+): Promise<ApiResponse<{ queued: true; clientId: string }>> => {
+	const database = await getDatabase();
+	await database.runAsync(
+		"INSERT OR REPLACE INTO pending_operations (id, kind, payload, status, attempts, created_at) VALUES (?, ?, ?, 'pending', 0, ?)",
+		id,
+		kind,
+		JSON.stringify(payload),
+		new Date().toISOString(),
+	);
+	await refreshOfflineOperations();
+
+	return {
+		success: true,
+		message:
+			kind === "withdraw"
+				? "Sin conexión: el retiro se guardó en operaciones pendientes"
+				: "Sin conexión: la devolución se guardó en operaciones pendientes",
+		data: { queued: true, clientId: id },
+	};
+};
+
+/**
+ * Removes an operation from the queue (after delivery or when the user discards a conflict)
+ * @param id - Client ID of the operation
+ */
+export const discardOfflineOperation = async (id: string): Promise<void> => {
+	const database = await getDatabase();
+	await database.runAsync("DELETE FROM pending_operations WHERE id = ?", id);
+	await refreshOfflineOperations();
+};
+
+/**
+ * Moves a conflicted operation back to pending so the next replay retries it
+ * @param id - Client ID of the operation
+ */
+export const retryOfflineOperation = async (id: string): Promise<void> => {
+	const database = await getDatabase();
+	await database.runAsync(
+		"UPDATE pending_operations SET status = 'pending', last_error = NULL WHERE id = ?",
+		id,
+	);
+	await refreshOfflineOperations();
+};
+
+const saveOperation = async (operation: OfflineOperation): Promise<void> => {
+	const database = await getDatabase();
+	await database.runAsync(
+		"UPDATE pending_operations SET payload = ?, status = ?, attempts = ?, last_error = ?, conflicting_product_ids = ? WHERE id = ?",
+		JSON.stringify(operation.payload),
+		operation.status,
+		operation.attempts,
+		operation.lastError,
+		JSON.stringify(operation.conflictingProductIds),
+		operation.id,
+	);
+};
+
+const readResponseBody = async <T>(response: {
+	json: () => Promise<unknown>;
+}): Promise<ApiResponse<T> | null> => {
+	try {
+		return (await response.json()) as ApiResponse<T>;
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Maps an API response status to the queue outcome.
+ * 5xx and auth errors are transient (the session or employee token may be restored); other
+ * 4xx need the user. An operation captured by another employee is a conflict, so it does not
+ * hold back the queue until that employee enters their passcode again.
+ */
+const settleFailedResponse = async (
+	operation: OfflineOperation,
+	status: number,
+	message: string | undefined,
+): Promise<ReplayOutcome> => {
+	if (message === EMPLOYEE_TOKEN_MISMATCH_MESSAGE) {
+		await saveOperation({
+			...operation,
+			status: "conflict",
+			attempts: operation.attempts + 1,
+			lastError: "Pertenece a otro empleado; ingresa su código y vuelve a intentar",
+		});
+		return { type: "conflict" };
+	}
+
+	const lastError = message ?? `Error del servidor (${status})`;
+	if (status >= 500 || status === 401 || status === 403) {
+		await saveOperation({ ...operation, attempts: operation.attempts + 1, lastError });
+		return { type: "retry" };
+	}
+	await saveOperation({
+		...operation,
+		status: "conflict",
+		attempts: operation.attempts + 1,
+		lastError,
+	});
+	return { type: "conflict" };
+};
+
+const replayWithdraw = async (
+	operation: Extract<OfflineOperation, { kind: "withdraw" }>,
+): Promise<ReplayOutcome> => {
+	const response = await client.api.auth["withdraw-orders"].create.$post(
+		{ json: { ...operation.payload, clientId: operation.id } },
+		{ headers: { "Idempotency-Key": operation.id, ...employeeTokenHeaders() } },
+	);
+	const body = await readResponseBody<{ conflictingProductIds?: string[] }>(response);
+
+	if (response.ok) {
+		await discardOfflineOperation(operation.id);
+		return { type: "synced" };
+	}
+
+	if (response.status === 409) {
+		const conflictingProductIds = body?.data?.conflictingProductIds ?? [];
+		const remainingProducts = operation.payload.products.filter(
+			(productId) => !conflictingProductIds.includes(productId),
+		);
+
+		// Keep the units that are still free and withdraw them without the taken ones
+		if (conflictingProductIds.length > 0 && remainingProducts.length > 0) {
+			const requeued: OfflineOperation = {
+				...operation,
+				payload: {
+					...operation.payload,
+					products: remainingProducts,
+					numItems: remainingProducts.length,
+				},
+				conflictingProductIds: [
+					...operation.conflictingProductIds,
+					...conflictingProductIds,
+				],
+			};
+			await saveOperation(requeued);
+			return { type: "requeued", operation: requeued, skippedProductIds: conflictingProductIds };
+		}
+
+		await saveOperation({
+			...operation,
+			status: "conflict",
+			attempts: operation.attempts + 1,
+			lastError: "Todos los productos del retiro ya estaban en uso",
+			conflictingProductIds: [...operation.conflictingProductIds, ...conflictingProductIds],
+		});
+		return { type: "conflict" };
+	}
+
+	return settleFailedResponse(operation, response.status, body?.message);
+};
+
+const replayReturn = async (
+	operation: Extract<OfflineOperation, { kind: "return" }>,
+): Promise<ReplayOutcome> => {
+	const response = await client.api.auth["withdraw-orders"].update.$post(
+		{ json: operation.payload },
+		{ headers: { "Idempotency-Key": operation.id, ...employeeTokenHeaders() } },
+	);
+	const body = await readResponseBody<{
+		orders?: { withdrawOrderId: string; error?: string }[];
+	}>(response);
+
+	if (response.status === 200) {
+		await discardOfflineOperation(operation.id);
+		return { type: "synced" };
+	}
+
+	// 207: keep only the orders the API refused so the user can review them
+	if (response.status === 207) {
+		const failedOrders = (body?.data?.orders ?? []).filter((order) => order.error !== undefined);
+		const failedOrderIds = new Set(failedOrders.map((order) => order.withdrawOrderId));
+		await saveOperation({
+			...operation,
+			payload: {
+				...operation.payload,
+				orders: operation.payload.orders.filter((order) =>
+					failedOrderIds.has(order.withdrawOrderId),
+				),
+			},
+			status: "conflict",
+			attempts: operation.attempts + 1,
+			lastError: failedOrders[0]?.error ?? body?.message ?? "La devolución se procesó con errores",
+		});
+		return { type: "conflict" };
+	}
+
+	return settleFailedResponse(operation, response.status, body?.message);
+};
+
+const replayOperation = (operation: OfflineOperation): Promise<ReplayOutcome> =>
+	operation.kind === "withdraw" ? replayWithdraw(operation) : replayReturn(operation);
+
+const runReplay = async (): Promise<OfflineReplaySummary> => {
+	const summary: OfflineReplaySummary = {
+		synced: 0,
+		conflicts: 0,
+		skippedProductIds: [],
+		remaining: 0,
+	};
+	const operations = await refreshOfflineOperations();
+
+	// Operations are replayed in capture order and the replay stops at the first transient failure
+	for (const queued of operations) {
+		if (queued.status !== "pending") {
+			continue;
+		}
+
+		let operation: OfflineOperation = queued;
+		let outcome: ReplayOutcome;
+		try {
+			outcome = await replayOperation(operation);
+			while (outcome.type === "requeued") {
+				summary.skippedProductIds.push(...outcome.skippedProductIds);
+				operation = outcome.operation;
+				outcome = await replayOperation(operation);
+			}
+		} catch (error) {
+			if (!isNetworkError(error)) {
+				console.error("Error replaying offline operation:", error);
+			}
+			break;
+		}
+
+		if (outcome.type === "synced") {
+			summary.synced += 1;
+		} else if (outcome.type === "conflict") {
+			summary.conflicts += 1;
+		} else {
+			break;
+		}
+	}
+
+	summary.remaining = (await refreshOfflineOperations()).length;
+	return summary;
+};
+
+/**
+ * Sends every pending operation to the API. Concurrent calls share the same replay.
+ * @returns Summary of what was delivered, dropped or left in the queue
+ */
+export const replayOfflineOperations = (): Promise<OfflineReplaySummary> => {
+	if (!activeReplay) {
+		const store = useOfflineQueueStore.getState();
+		store.setIsSyncing(true);
+		activeReplay = runReplay().finally(() => {
+			activeReplay = null;
+			useOfflineQueueStore.getState().setIsSyncing(false);
+		});
+	}
+	return activeReplay;
+};
@@ -4,6 +4,8 @@ export const QUERY_KEYS = {
     WITHDRAW_ORDERS: 'withdraw-orders',
     WITHDRAW_ORDER_DETAILS: 'withdraw-order-details',
     WITHDRAW_ORDER_DETAILS_PRODUCTS: 'withdraw-order-details-products', // Products from withdraw order details by employee
-    EMPLOYEE_BY_USER_ID: 'employee-by-user-id',
     CABINET_WAREHOUSES: 'cabinet-warehouses-all',
+    CYCLE_COUNTS: 'cycle-counts-open',
+    CYCLE_COUNT_DETAIL: 'cycle-count-detail',
+    USAGE_LIMIT_ALERTS: 'usage-limit-alerts',
 }
\ No newline at end of file
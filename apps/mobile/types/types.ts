@@ -270,6 +270,8 @@ export const productStockItemSchema = t({
 	currentWarehouse: "string", // UUID string from server
 	isBeingUsed: "boolean",
 	firstUsed: "string.date.iso.parse?",
+	lotNumber: "string?",
+	expiresAt: "string?", // YYYY-MM-DD, used to suggest first-expiring units
 });
 
 // Cabinet Warehouse Map Schema
@@ -2,11 +2,16 @@
 "use client";
 
 import { useForm } from "@tanstack/react-form";
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
 import { Check, ChevronsUpDown, ShieldAlert, Users } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
+import { AuditTimeline } from "@/components/audit/AuditTimeline";
+import { NotificationRules } from "@/components/notifications/NotificationRules";
+import { PermissionMatrix } from "@/components/permissions/PermissionMatrix";
+import { PurchaseOrders } from "@/components/purchase-orders/PurchaseOrders";
+import { Suppliers } from "@/components/purchase-orders/Suppliers";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -48,15 +53,20 @@ import {
 	DialogHeader,
 	DialogTitle,
 } from "@/components/ui/dialog";
+import { WebhookSubscriptions } from "@/components/webhooks/WebhookSubscriptions";
 import { getAllUsers, getAllWarehouses } from "@/lib/fetch-functions/inventory";
 import {
 	getAllEmployees,
 	getAllPermissions,
 	getEmployeesByWarehouseId,
 } from "@/lib/fetch-functions/kits";
+import { getMyPermissions } from "@/lib/fetch-functions/permissions";
 import { createQueryKey } from "@/lib/helpers";
 import { useSignUpMutation, useUpdateUserMutation } from "@/lib/mutations/auth";
-import { useCreateEmployee } from "@/lib/mutations/kits";
+import {
+	useCreateEmployee,
+	useResetEmployeePasscode,
+} from "@/lib/mutations/kits";
 import {
 	useCreateWarehouseMutation,
 	useUpdateWarehouseAltegioConfigMutation,
@@ -136,7 +146,7 @@ type EmployeeData = {
 	name: string;
 	surname: string;
 	warehouseId: string;
-	passcode?: number | null;
+	hasPasscode?: boolean;
 	userId?: string | null;
 	permissions?: string | null;
 };
@@ -167,6 +177,19 @@ const ForbiddenCard = ({ title, description }: ForbiddenCardProps) => (
 	</Card>
 );
 
+/**
+ * Tailwind grid classes by number of visible tabs (literal so they survive purging)
+ */
+const tabGridColumns: Record<number, string> = {
+	3: "grid-cols-3",
+	4: "grid-cols-4",
+	5: "grid-cols-5",
+	6: "grid-cols-6",
+	7: "grid-cols-7",
+	8: "grid-cols-8",
+	9: "grid-cols-9",
+};
+
 /**
  * Render the settings page with tabs for managing users (create and, for encargados, update) and warehouses.
  *
@@ -176,26 +199,40 @@ const ForbiddenCard = ({ title, description }: ForbiddenCardProps) => (
  * @param role - Current user's role; used to determine whether the update-user form is accessible
  * @returns The AjustesPage JSX element
  */
-export function AjustesPage({
-	role,
-	userEmail,
-}: {
-	role: string;
-	userEmail: string;
-}) {
+export function AjustesPage({ role }: { role: string }) {
 	const router = useRouter();
 	const normalizedRole =
 		typeof role === "string" ? role.toLowerCase() : String(role ?? "");
 	const isEncargado = normalizedRole === "encargado";
 	const isEmployee = normalizedRole === "employee";
 	const user = useAuthStore((s) => s.user);
-	const normalizedEmail =
-		typeof userEmail === "string" ? userEmail.trim().toLowerCase() : "";
-	const storeEmail =
-		typeof user?.email === "string" ? user.email.trim().toLowerCase() : "";
-	const isMainAccount =
-		normalizedEmail === "felixddhs@outlook.com" ||
-		storeEmail === "felixddhs@outlook.com";
+	const { data: myPermissionsResponse } = useQuery({
+		queryKey: queryKeys.myPermissions,
+		queryFn: getMyPermissions,
+	});
+	const grantedPermissions: string[] = myPermissionsResponse?.success
+		? myPermissionsResponse.data.permissions
+		: [];
+	const canViewAudit = grantedPermissions.includes("audit.view");
+	const canPurgeInventory = grantedPermissions.includes("inventory.purge");
+	const canManagePermissions =
+		grantedPermissions.includes("permissions.manage");
+	const canManageNotifications = grantedPermissions.includes(
+		"notifications.manage",
+	);
+	const canManageWebhooks = grantedPermissions.includes("webhooks.manage");
+	const canViewPurchaseOrders = grantedPermissions.includes(
+		"purchase_orders.view",
+	);
+	const canManagePurchaseOrders = grantedPermissions.includes(
+		"purchase_orders.manage",
+	);
+	const canReceivePurchaseOrders = grantedPermissions.includes(
+		"purchase_orders.receive",
+	);
+	const canResetPasscodes = grantedPermissions.includes(
+		"employees.reset_passcode",
+	);
 	const warehouseId = user?.warehouseId ?? "";
 	const employeeWarehouseId = isEmployee ? warehouseId.trim() : "";
 
@@ -253,6 +290,12 @@ const warehouses =
 	const [deleteUserId, setDeleteUserId] = useState<string>("");
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 	const [isPurgeDialogOpen, setIsPurgeDialogOpen] = useState(false);
+	const [passcodeResetEmployee, setPasscodeResetEmployee] =
+		useState<EmployeeData | null>(null);
+	const [passcodeResetValue, setPasscodeResetValue] = useState("");
+	const [revealedPasscode, setRevealedPasscode] = useState<string | null>(
+		null,
+	);
 	const employees = useMemo<EmployeeData[]>(() => {
 		if (employeesResponse && "data" in employeesResponse) {
 			return (employeesResponse.data || []).map(
@@ -261,7 +304,7 @@ const warehouses =
 					name: item.employee.name,
 					surname: item.employee.surname,
 					warehouseId: item.employee.warehouseId,
-					passcode: item.employee.passcode,
+					hasPasscode: item.employee.hasPasscode,
 					userId: item.employee.userId,
 					permissions: item.employee.permissions,
 				}),
@@ -368,6 +411,10 @@ const warehouses =
 		useCreateWarehouseMutation();
 	const { mutateAsync: createEmployee, isPending: isCreatingEmployee } =
 		useCreateEmployee();
+	const {
+		mutateAsync: resetEmployeePasscode,
+		isPending: isResettingPasscode,
+	} = useResetEmployeePasscode();
 	const {
 		mutateAsync: purgeNonCedisProductStock,
 		isPending: isPurgingNonCedis,
@@ -602,6 +649,43 @@ const warehouses =
 		}
 	};
 
+	/**
+	 * Opens the passcode reset dialog for an employee.
+	 *
+	 * @param employee - Employee whose numpad passcode will be replaced
+	 */
+	const openPasscodeReset = (employee: EmployeeData) => {
+		setPasscodeResetEmployee(employee);
+		setPasscodeResetValue("");
+		setRevealedPasscode(null);
+	};
+
+	/**
+	 * Resets the selected employee's passcode. Uses the typed 4-digit code or lets the API
+	 * generate one, then shows the new code once; it cannot be retrieved afterwards.
+	 */
+	const handlePasscodeReset = async () => {
+		if (!passcodeResetEmployee) {
+			return;
+		}
+		const passcode = passcodeResetValue.trim();
+		if (passcode && !/^\d{4}$/.test(passcode)) {
+			toast.error("El código debe tener exactamente 4 dígitos");
+			return;
+		}
+
+		try {
+			const result = await resetEmployeePasscode({
+				employeeId: passcodeResetEmployee.id,
+				...(passcode ? { passcode } : {}),
+			});
+			setRevealedPasscode(result.passcode);
+		} catch (error) {
+			// Error handling is done in the mutation hook
+			console.error(error);
+		}
+	};
+
 	/**
 	 * Handles the submission of the warehouse Altegio config form.
 	 * Validates that at least one field is provided, converts string inputs to numbers,
@@ -708,13 +792,36 @@ const warehouses =
 					<TabsList
 						className={cn(
 							"grid w-full",
-							isMainAccount ? "grid-cols-4" : "grid-cols-3",
+							tabGridColumns[
+								3 +
+									Number(canViewAudit) +
+									Number(canManagePermissions) +
+									Number(canManageNotifications) +
+									Number(canManageWebhooks) +
+									Number(canViewPurchaseOrders) +
+									Number(canPurgeInventory)
+							],
 						)}
 					>
 						<TabsTrigger value="users">Usuarios</TabsTrigger>
 						<TabsTrigger value="warehouses">Bodegas</TabsTrigger>
 						<TabsTrigger value="employees">Empleadas</TabsTrigger>
-						{isMainAccount ? (
+						{canViewAudit ? (
+							<TabsTrigger value="audit">Auditoría</TabsTrigger>
+						) : null}
+						{canManagePermissions ? (
+							<TabsTrigger value="permissions">Permisos</TabsTrigger>
+						) : null}
+						{canManageNotifications ? (
+							<TabsTrigger value="notifications">Notificaciones</TabsTrigger>
+						) : null}
+						{canManageWebhooks ? (
+							<TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+						) : null}
+						{canViewPurchaseOrders ? (
+							<TabsTrigger value="purchases">Compras</TabsTrigger>
+						) : null}
+						{canPurgeInventory ? (
 							<TabsTrigger value="maintenance">Mantenimiento</TabsTrigger>
 						) : null}
 					</TabsList>
@@ -1175,7 +1282,41 @@ const warehouses =
 					)}
 					</TabsContent>
 
-					{isMainAccount ? (
+					{canViewAudit ? (
+						<TabsContent className="space-y-6" value="audit">
+							<AuditTimeline />
+						</TabsContent>
+					) : null}
+
+					{canManagePermissions ? (
+						<TabsContent className="space-y-6" value="permissions">
+							<PermissionMatrix />
+						</TabsContent>
+					) : null}
+
+					{canManageNotifications ? (
+						<TabsContent className="space-y-6" value="notifications">
+							<NotificationRules />
+						</TabsContent>
+					) : null}
+
+					{canManageWebhooks ? (
+						<TabsContent className="space-y-6" value="webhooks">
+							<WebhookSubscriptions />
+						</TabsContent>
+					) : null}
+
+					{canViewPurchaseOrders ? (
+						<TabsContent className="space-y-6" value="purchases">
+							<PurchaseOrders
+								canManage={canManagePurchaseOrders}
+								canReceive={canReceivePurchaseOrders}
+							/>
+							<Suppliers canManage={canManagePurchaseOrders} />
+						</TabsContent>
+					) : null}
+
+					{canPurgeInventory ? (
 						<TabsContent className="space-y-6" value="maintenance">
 							<Card className="card-transition border-red-200 bg-white dark:border-red-900/50 dark:bg-[#1E1F20]">
 								<CardHeader>
@@ -2032,11 +2173,23 @@ const warehouses =
 															?.name || "Bodega no asignada"}
 													</span>
 												</div>
-												{emp.passcode && (
-													<span className="font-mono text-xs text-[#687076] dark:text-[#9BA1A6]">
-														Código: {emp.passcode}
-													</span>
-												)}
+												<div className="flex items-center gap-3">
+													{!emp.hasPasscode && (
+														<span className="text-xs text-[#687076] dark:text-[#9BA1A6]">
+															Sin código
+														</span>
+													)}
+													{canResetPasscodes && (
+														<Button
+															onClick={() => openPasscodeReset(emp)}
+															size="sm"
+															type="button"
+															variant="outline"
+														>
+															Restablecer código
+														</Button>
+													)}
+												</div>
 											</div>
 										))}
 									</div>
@@ -2047,6 +2200,75 @@ const warehouses =
 								)}
 							</CardContent>
 						</Card>
+
+						<Dialog
+							onOpenChange={(open) => {
+								if (!open) {
+									setPasscodeResetEmployee(null);
+									setRevealedPasscode(null);
+								}
+							}}
+							open={passcodeResetEmployee !== null}
+						>
+							<DialogContent>
+								<DialogHeader>
+									<DialogTitle>Restablecer código de acceso</DialogTitle>
+									<DialogDescription>
+										{passcodeResetEmployee
+											? `${passcodeResetEmployee.name} ${passcodeResetEmployee.surname}`
+											: ""}
+										. El código anterior dejará de funcionar y se
+										desbloqueará el teclado de la tablet.
+									</DialogDescription>
+								</DialogHeader>
+								{revealedPasscode ? (
+									<div className="space-y-2 text-center">
+										<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+											Nuevo código (no se volverá a mostrar):
+										</p>
+										<p className="font-mono text-3xl tracking-widest text-[#11181C] dark:text-[#ECEDEE]">
+											{revealedPasscode}
+										</p>
+									</div>
+								) : (
+									<div className="space-y-2">
+										<Label
+											className="text-[#11181C] dark:text-[#ECEDEE]"
+											htmlFor="employee-passcode-reset"
+										>
+											Nuevo código (opcional)
+										</Label>
+										<Input
+											className="input-transition border-[#E5E7EB] bg-white text-[#11181C] placeholder:text-[#687076] focus:border-[#0a7ea4] focus:ring-[#0a7ea4] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE] dark:placeholder:text-[#9BA1A6]"
+											disabled={isResettingPasscode}
+											id="employee-passcode-reset"
+											inputMode="numeric"
+											maxLength={4}
+											onChange={(e) => setPasscodeResetValue(e.target.value)}
+											placeholder="Déjalo vacío para generar uno"
+											value={passcodeResetValue}
+										/>
+									</div>
+								)}
+								<DialogFooter>
+									<Button
+										onClick={() => setPasscodeResetEmployee(null)}
+										variant="outline"
+									>
+										{revealedPasscode ? "Cerrar" : "Cancelar"}
+									</Button>
+									{!revealedPasscode && (
+										<Button
+											className="bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+											disabled={isResettingPasscode}
+											onClick={handlePasscodeReset}
+										>
+											{isResettingPasscode ? "Restableciendo..." : "Restablecer"}
+										</Button>
+									)}
+								</DialogFooter>
+							</DialogContent>
+						</Dialog>
 					</TabsContent>
 				</Tabs>
 			</div>
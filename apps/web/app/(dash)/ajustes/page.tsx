@@ -35,7 +35,6 @@ export default async function SettingsPage() {
 	const queryClient = getQueryClient();
 	const auth = await getServerAuth();
 	const role = auth.user?.role ?? "";
-	const userEmail = auth.user?.email ?? "";
 	const warehouseId = auth.user?.warehouseId;
 	const isEncargado = role === "encargado";
 	const employeesQueryParams = [isEncargado ? "all" : warehouseId];
@@ -85,7 +84,7 @@ export default async function SettingsPage() {
 	return (
 		<HydrationBoundary state={dehydrate(queryClient)}>
 			<GenericBoundaryWrapper fallbackComponent={<SkeletonAjustesPage />}>
-				<AjustesPage role={role} userEmail={userEmail} />
+				<AjustesPage role={role} />
 			</GenericBoundaryWrapper>
 		</HydrationBoundary>
 	);
@@ -0,0 +1,339 @@
+"use client";
+
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { ClipboardCheck } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+	CycleCountSession,
+	cycleCountStatusLabel,
+} from "@/components/cycle-counts/CycleCountSession";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	type CycleCountStatus,
+	getCycleCounts,
+} from "@/lib/fetch-functions/cycle-counts";
+import {
+	getAllWarehouses,
+	getCabinetWarehouse,
+} from "@/lib/fetch-functions/inventory";
+import { createQueryKey } from "@/lib/helpers";
+import { useOpenCycleCount } from "@/lib/mutations/cycle-counts";
+import { queryKeys } from "@/lib/query-keys";
+
+type WarehousesResponse = Awaited<ReturnType<typeof getAllWarehouses>>;
+type CabinetWarehouseResponse = Awaited<ReturnType<typeof getCabinetWarehouse>>;
+
+type CycleCountListItem = {
+	id: string;
+	warehouseId: string;
+	warehouseName: string | null;
+	cabinetId: string | null;
+	cabinetName: string | null;
+	status: CycleCountStatus;
+	openedAt: string;
+	closedAt: string | null;
+	summary: {
+		expectedUnits: number;
+		countedUnits: number;
+		missingUnits: number;
+		unexpectedUnits: number;
+	} | null;
+};
+
+/** Sentinel select value for counting the whole warehouse */
+const WHOLE_WAREHOUSE = "__all__";
+
+const STATUS_BADGE_VARIANTS: Record<
+	CycleCountStatus,
+	"secondary" | "outline" | "default"
+> = {
+	open: "default",
+	closed: "secondary",
+	cancelled: "outline",
+};
+
+/**
+ * Formats an ISO date string as "dd/MM/yyyy HH:mm" using the Spanish locale.
+ */
+function formatDateTime(value: string | null | undefined): string {
+	if (!value) {
+		return "—";
+	}
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		return value;
+	}
+	return format(date, "dd/MM/yyyy HH:mm", { locale: es });
+}
+
+type ConteosPageProps = {
+	warehouseId: string;
+	canManageAllWarehouses: boolean;
+	canCloseCounts: boolean;
+};
+
+/**
+ * Cycle counts page: opens counts for a warehouse or cabinet, lists previous sessions
+ * and hosts the scanning session of the selected count.
+ */
+export function ConteosPage({
+	warehouseId,
+	canManageAllWarehouses,
+	canCloseCounts,
+}: ConteosPageProps) {
+	const [selectedCountId, setSelectedCountId] = useState<string | null>(null);
+	const [targetWarehouseId, setTargetWarehouseId] = useState(warehouseId);
+	const [targetCabinetId, setTargetCabinetId] = useState(WHOLE_WAREHOUSE);
+	const [notes, setNotes] = useState("");
+	const openCycleCount = useOpenCycleCount();
+
+	const { data: warehousesResponse } = useSuspenseQuery<
+		WarehousesResponse,
+		Error,
+		WarehousesResponse
+	>({
+		queryKey: queryKeys.warehouses,
+		queryFn: getAllWarehouses,
+	});
+
+	const { data: cabinetsResponse } = useSuspenseQuery<
+		CabinetWarehouseResponse,
+		Error,
+		CabinetWarehouseResponse
+	>({
+		queryKey: queryKeys.cabinetWarehouse,
+		queryFn: getCabinetWarehouse,
+	});
+
+	const scopeKey = canManageAllWarehouses ? "all" : warehouseId || "unknown";
+	const { data: countsResponse, isLoading } = useQuery({
+		queryKey: createQueryKey(queryKeys.cycleCounts, [scopeKey]),
+		queryFn: () => getCycleCounts(),
+	});
+
+	const warehouses = useMemo(() => {
+		if (!(warehousesResponse && "data" in warehousesResponse)) {
+			return [];
+		}
+		return (warehousesResponse.data ?? []).map((warehouse) => ({
+			id: warehouse.id,
+			name: warehouse.name,
+		}));
+	}, [warehousesResponse]);
+
+	const cabinets = useMemo(() => {
+		if (!(cabinetsResponse && "data" in cabinetsResponse)) {
+			return [];
+		}
+		const entries = (cabinetsResponse.data ?? []) as Array<{
+			cabinetId: string | null;
+			cabinetName: string | null;
+			warehouseId: string;
+		}>;
+		return entries.filter(
+			(entry): entry is { cabinetId: string; cabinetName: string; warehouseId: string } =>
+				entry.cabinetId !== null && entry.warehouseId === targetWarehouseId,
+		);
+	}, [cabinetsResponse, targetWarehouseId]);
+
+	const counts = useMemo(() => {
+		if (!(countsResponse && "success" in countsResponse && countsResponse.success)) {
+			return [];
+		}
+		return countsResponse.data as unknown as CycleCountListItem[];
+	}, [countsResponse]);
+
+	const handleOpen = async () => {
+		if (!targetWarehouseId) {
+			return;
+		}
+		const result = await openCycleCount.mutateAsync({
+			warehouseId: targetWarehouseId,
+			...(targetCabinetId !== WHOLE_WAREHOUSE && { cabinetId: targetCabinetId }),
+			...(notes.trim() && { notes: notes.trim() }),
+		});
+		setNotes("");
+		setSelectedCountId(result.data.id);
+	};
+
+	return (
+		<div className="theme-transition flex-1 space-y-6 bg-white p-4 md:p-6 dark:bg-[#151718]">
+			<div className="space-y-2">
+				<h1 className="font-bold text-2xl text-[#11181C] text-transition md:text-3xl dark:text-[#ECEDEE]">
+					Conteos cíclicos
+				</h1>
+				<p className="text-[#687076] text-transition dark:text-[#9BA1A6]">
+					Cuenta físicamente un almacén o gabinete y concilia las diferencias.
+				</p>
+			</div>
+
+			{selectedCountId ? (
+				<CycleCountSession
+					canCloseCounts={canCloseCounts}
+					cycleCountId={selectedCountId}
+					onBack={() => setSelectedCountId(null)}
+				/>
+			) : (
+				<>
+					<Card className="card-transition border-[#E5E7EB] bg-[#F9FAFB] dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<CardHeader>
+							<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+								<ClipboardCheck className="h-5 w-5 text-[#0a7ea4]" />
+								Nuevo conteo
+							</CardTitle>
+						</CardHeader>
+						<CardContent className="grid gap-4 md:grid-cols-4">
+							<div className="grid gap-2">
+								<Label>Almacén</Label>
+								<Select
+									disabled={!canManageAllWarehouses}
+									onValueChange={(value) => {
+										setTargetWarehouseId(value);
+										setTargetCabinetId(WHOLE_WAREHOUSE);
+									}}
+									value={targetWarehouseId}
+								>
+									<SelectTrigger>
+										<SelectValue placeholder="Selecciona un almacén" />
+									</SelectTrigger>
+									<SelectContent>
+										{warehouses.map((warehouse) => (
+											<SelectItem key={warehouse.id} value={warehouse.id}>
+												{warehouse.name}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="grid gap-2">
+								<Label>Gabinete</Label>
+								<Select onValueChange={setTargetCabinetId} value={targetCabinetId}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={WHOLE_WAREHOUSE}>Todo el almacén</SelectItem>
+										{cabinets.map((cabinet) => (
+											<SelectItem key={cabinet.cabinetId} value={cabinet.cabinetId}>
+												{cabinet.cabinetName}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="grid gap-2">
+								<Label htmlFor="cycle-count-notes">Notas</Label>
+								<Input
+									id="cycle-count-notes"
+									onChange={(event) => setNotes(event.target.value)}
+									placeholder="Opcional"
+									value={notes}
+								/>
+							</div>
+							<div className="flex items-end">
+								<Button
+									className="w-full bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+									disabled={!targetWarehouseId || openCycleCount.isPending}
+									onClick={handleOpen}
+								>
+									Abrir conteo
+								</Button>
+							</div>
+						</CardContent>
+					</Card>
+
+					<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<CardHeader>
+							<CardTitle className="text-[#11181C] dark:text-[#ECEDEE]">
+								Historial de conteos
+							</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Ubicación</TableHead>
+										<TableHead>Estado</TableHead>
+										<TableHead>Abierto</TableHead>
+										<TableHead>Cerrado</TableHead>
+										<TableHead className="text-right">Esperadas</TableHead>
+										<TableHead className="text-right">Faltantes</TableHead>
+										<TableHead className="text-right">Sobrantes</TableHead>
+										<TableHead />
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{counts.length === 0 ? (
+										<TableRow>
+											<TableCell
+												className="text-center text-[#687076] dark:text-[#9BA1A6]"
+												colSpan={8}
+											>
+												{isLoading ? "Cargando conteos..." : "No hay conteos registrados"}
+											</TableCell>
+										</TableRow>
+									) : (
+										counts.map((count) => (
+											<TableRow key={count.id}>
+												<TableCell>
+													{count.warehouseName ?? count.warehouseId}
+													{count.cabinetName ? ` · ${count.cabinetName}` : ""}
+												</TableCell>
+												<TableCell>
+													<Badge variant={STATUS_BADGE_VARIANTS[count.status]}>
+														{cycleCountStatusLabel[count.status]}
+													</Badge>
+												</TableCell>
+												<TableCell>{formatDateTime(count.openedAt)}</TableCell>
+												<TableCell>{formatDateTime(count.closedAt)}</TableCell>
+												<TableCell className="text-right">
+													{count.summary?.expectedUnits ?? "—"}
+												</TableCell>
+												<TableCell className="text-right">
+													{count.summary?.missingUnits ?? "—"}
+												</TableCell>
+												<TableCell className="text-right">
+													{count.summary?.unexpectedUnits ?? "—"}
+												</TableCell>
+												<TableCell className="text-right">
+													<Button
+														onClick={() => setSelectedCountId(count.id)}
+														size="sm"
+														variant="outline"
+													>
+														{count.status === "open" ? "Continuar" : "Ver reporte"}
+													</Button>
+												</TableCell>
+											</TableRow>
+										))
+									)}
+								</TableBody>
+							</Table>
+						</CardContent>
+					</Card>
+				</>
+			)}
+		</div>
+	);
+}
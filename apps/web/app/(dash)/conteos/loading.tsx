@@ -0,0 +1,7 @@
+'use memo';
+
+import { SkeletonConteosPage } from '@/ui/skeletons/Skeleton.ConteosPage';
+
+export default function Loading() {
+	return <SkeletonConteosPage />;
+}
@@ -0,0 +1,53 @@
+/** biome-ignore-all lint/suspicious/useAwait: Required for server prefetching */
+/** biome-ignore-all lint/suspicious/noConsole: Logging failures aids debugging */
+
+"use memo";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { getQueryClient } from "@/app/get-query-client";
+import { GenericBoundaryWrapper } from "@/components/suspense-generics/general-wrapper";
+import { queryKeys } from "@/lib/query-keys";
+import {
+	fetchAllWarehousesServer,
+	fetchCabinetWarehouseServer,
+} from "@/lib/server-functions/inventory";
+import { getServerAuth } from "@/lib/server-functions/server-auth";
+import { SkeletonConteosPage } from "@/ui/skeletons/Skeleton.ConteosPage";
+import { ConteosPage } from "./conteos";
+
+export const dynamic = "force-dynamic";
+
+export default async function ConteosRoute() {
+	const queryClient = getQueryClient();
+	const auth = await getServerAuth();
+	const warehouseId = auth.user?.warehouseId ?? "";
+	const role = auth.user?.role ?? "";
+	const normalizedRole = typeof role === "string" ? role.toLowerCase() : "";
+
+	void Promise.all([
+		queryClient.prefetchQuery({
+			queryKey: queryKeys.warehouses,
+			queryFn: () => fetchAllWarehousesServer(),
+		}),
+		queryClient.prefetchQuery({
+			queryKey: queryKeys.cabinetWarehouse,
+			queryFn: () => fetchCabinetWarehouseServer(),
+		}),
+	]).catch((error) => {
+		console.error(error);
+		console.error("Error prefetching conteos data");
+	});
+
+	return (
+		<HydrationBoundary state={dehydrate(queryClient)}>
+			<GenericBoundaryWrapper fallbackComponent={<SkeletonConteosPage />}>
+				<ConteosPage
+					canCloseCounts={
+						normalizedRole === "encargado" || normalizedRole === "admin"
+					}
+					canManageAllWarehouses={normalizedRole === "admin"}
+					warehouseId={warehouseId}
+				/>
+			</GenericBoundaryWrapper>
+		</HydrationBoundary>
+	);
+}
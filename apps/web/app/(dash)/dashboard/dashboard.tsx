@@ -1,7 +1,7 @@
 "use client";
 "use memo";
 
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
 import type { ColumnDef } from "@tanstack/react-table";
 import { addDays, differenceInCalendarDays, format } from "date-fns";
 import { es } from "date-fns/locale";
@@ -9,6 +9,7 @@ import Link from "next/link";
 import { memo, useMemo, useState } from "react";
 import { DataTable } from "@/components/table/DataTable";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,6 +18,7 @@ import {
 	getAllProducts,
 	getAllWarehouses,
 	getCabinetWarehouse,
+	getExpiringProductStock,
 	getInventoryByWarehouse,
 } from "@/lib/fetch-functions/inventory";
 import {
@@ -24,6 +26,7 @@ import {
 	getAllKits,
 	getEmployeesByWarehouseId,
 } from "@/lib/fetch-functions/kits";
+import { getMyPermissions } from "@/lib/fetch-functions/permissions";
 import {
 	getWarehouseTransferAll,
 	getWarehouseTransferAllByWarehouseId,
@@ -35,11 +38,21 @@ import {
 import {
 	getAllStockLimits,
 	getStockLimitsByWarehouse,
+	getUsageLimitAlerts,
 } from "@/lib/fetch-functions/stock-limits";
 import { createQueryKey } from "@/lib/helpers";
+import { useWriteOffExpiredUnits } from "@/lib/mutations/inventory";
 import { queryKeys } from "@/lib/query-keys";
 import type { StockItemWithEmployee } from "@/stores/inventory-store";
-import type { KitData, StockLimit, StockLimitListResponse } from "@/types";
+import type {
+	ExpiringUnit,
+	ExpiringUnitsResponse,
+	KitData,
+	StockLimit,
+	StockLimitListResponse,
+	UsageLimitAlert,
+	UsageLimitAlertsResponse,
+} from "@/types";
 
 type InventoryResponse =
 	| Awaited<ReturnType<typeof getAllProductStock>>
@@ -1007,6 +1020,201 @@ const PendingTransfersCard = memo(function PendingTransfersCard({
 	);
 });
 
+type UsageAlertsCardProps = {
+	usageAlerts: UsageLimitAlert[];
+	showWarehouse: boolean;
+};
+
+const UsageAlertsCard = memo(function UsageAlertsCard({
+	usageAlerts,
+	showWarehouse,
+}: UsageAlertsCardProps) {
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#151718]">
+			<CardHeader>
+				<CardTitle className="text-base font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+					Por agotarse ({usageAlerts.length})
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				{usageAlerts.length > 0 ? (
+					usageAlerts.map((alert) => (
+						<div
+							className="flex items-center justify-between rounded-lg border border-[#E5E7EB] px-3 py-2 text-sm text-[#11181C] dark:border-[#2D3033] dark:text-[#ECEDEE]"
+							key={alert.productStockId}
+						>
+							<div>
+								<p className="font-medium">
+									{alert.description ?? `Producto ${alert.barcode}`}
+								</p>
+								<p className="text-xs text-[#687076] dark:text-[#9BA1A6]">
+									{alert.barcode} · {alert.numberOfUses}/{alert.maxUsage} usos
+									{showWarehouse ? ` · ${alert.warehouseName}` : ""}
+								</p>
+							</div>
+							{alert.status === "limit_reached" ? (
+								<Badge className="bg-red-600 text-white">
+									Retirar al devolver
+								</Badge>
+							) : (
+								<Badge className="bg-[#F59E0B] text-white">
+									{alert.remainingUses === 1
+										? "1 uso restante"
+										: `${alert.remainingUses} usos restantes`}
+								</Badge>
+							)}
+						</div>
+					))
+				) : (
+					<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+						Ningun articulo esta cerca de su limite de usos.
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+});
+
+type ExpiringUnitsCardProps = {
+	expired: ExpiringUnit[];
+	expiringSoon: ExpiringUnit[];
+	showWarehouse: boolean;
+	canWriteOff: boolean;
+};
+
+/**
+ * Groups units by warehouse name, keeping the soonest expiry first within each group.
+ */
+function groupByWarehouse(units: ExpiringUnit[]) {
+	const groups = new Map<string, ExpiringUnit[]>();
+	for (const unit of units) {
+		const group = groups.get(unit.warehouseName) ?? [];
+		group.push(unit);
+		groups.set(unit.warehouseName, group);
+	}
+	return Array.from(groups.entries()).sort(([left], [right]) =>
+		left.localeCompare(right),
+	);
+}
+
+function formatExpiryDays(days: number) {
+	if (days < 0) {
+		return days === -1 ? "Caducó ayer" : `Caducó hace ${Math.abs(days)} días`;
+	}
+	if (days === 0) {
+		return "Caduca hoy";
+	}
+	return days === 1 ? "Caduca mañana" : `Caduca en ${days} días`;
+}
+
+const ExpiringUnitsCard = memo(function ExpiringUnitsCard({
+	expired,
+	expiringSoon,
+	showWarehouse,
+	canWriteOff,
+}: ExpiringUnitsCardProps) {
+	const writeOff = useWriteOffExpiredUnits();
+
+	const renderUnit = (unit: ExpiringUnit, isExpired: boolean) => (
+		<div
+			className="flex items-center justify-between gap-3 rounded-lg border border-[#E5E7EB] px-3 py-2 text-sm text-[#11181C] dark:border-[#2D3033] dark:text-[#ECEDEE]"
+			key={unit.productStockId}
+		>
+			<div>
+				<p className="font-medium">
+					{unit.description ?? `Producto ${unit.barcode}`}
+				</p>
+				<p className="text-xs text-[#687076] dark:text-[#9BA1A6]">
+					{unit.barcode}
+					{unit.lotNumber ? ` · Lote ${unit.lotNumber}` : ""} ·{" "}
+					{format(new Date(`${unit.expiresAt}T00:00:00`), "dd/MM/yyyy")}
+					{unit.isBeingUsed ? " · En uso" : ""}
+				</p>
+			</div>
+			<div className="flex shrink-0 items-center gap-2">
+				<Badge
+					className={
+						isExpired ? "bg-red-600 text-white" : "bg-[#F59E0B] text-white"
+					}
+				>
+					{formatExpiryDays(unit.daysUntilExpiry)}
+				</Badge>
+				{isExpired && canWriteOff ? (
+					<Button
+						disabled={writeOff.isPending}
+						onClick={() => writeOff.mutate([unit.productStockId])}
+						size="sm"
+						variant="outline"
+					>
+						Dar de baja
+					</Button>
+				) : null}
+			</div>
+		</div>
+	);
+
+	const renderGroups = (units: ExpiringUnit[], isExpired: boolean) =>
+		showWarehouse
+			? groupByWarehouse(units).map(([warehouseName, group]) => (
+					<div className="space-y-2" key={warehouseName}>
+						<p className="text-xs font-semibold uppercase text-[#687076] dark:text-[#9BA1A6]">
+							{warehouseName}
+						</p>
+						{group.map((unit) => renderUnit(unit, isExpired))}
+					</div>
+				))
+			: units.map((unit) => renderUnit(unit, isExpired));
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#151718]">
+			<CardHeader className="flex flex-row items-center justify-between space-y-0">
+				<CardTitle className="text-base font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+					Caducidad ({expired.length} caducados, {expiringSoon.length} por
+					caducar)
+				</CardTitle>
+				{canWriteOff && expired.length > 1 ? (
+					<Button
+						className="bg-red-600 text-white hover:bg-red-700"
+						disabled={writeOff.isPending}
+						onClick={() =>
+							writeOff.mutate(expired.map((unit) => unit.productStockId))
+						}
+						size="sm"
+					>
+						Dar de baja todos
+					</Button>
+				) : null}
+			</CardHeader>
+			<CardContent className="grid gap-6 lg:grid-cols-2">
+				<div className="space-y-3">
+					<p className="text-sm font-medium text-[#11181C] dark:text-[#ECEDEE]">
+						Caducados
+					</p>
+					{expired.length > 0 ? (
+						renderGroups(expired, true)
+					) : (
+						<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+							No hay artículos caducados.
+						</p>
+					)}
+				</div>
+				<div className="space-y-3">
+					<p className="text-sm font-medium text-[#11181C] dark:text-[#ECEDEE]">
+						Por caducar en 30 días
+					</p>
+					{expiringSoon.length > 0 ? (
+						renderGroups(expiringSoon, false)
+					) : (
+						<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+							Ningún artículo caduca en los próximos 30 días.
+						</p>
+					)}
+				</div>
+			</CardContent>
+		</Card>
+	);
+});
+
 export default function DashboardPageClient({
 	warehouseId,
 	isEncargado,
@@ -1052,6 +1260,39 @@ export default function DashboardPageClient({
 		queryFn: stockLimitsQueryFn,
 	});
 
+	const { data: usageAlertsResponse } = useSuspenseQuery<
+		UsageLimitAlertsResponse | null,
+		Error,
+		UsageLimitAlertsResponse | null
+	>({
+		queryKey: createQueryKey(queryKeys.usageLimitAlerts, [scopeKey]),
+		queryFn: () => getUsageLimitAlerts(isEncargado ? undefined : warehouseId),
+	});
+	const usageAlerts = usageAlertsResponse?.success
+		? (usageAlertsResponse.data ?? [])
+		: [];
+
+	const { data: expiringResponse } = useSuspenseQuery<
+		ExpiringUnitsResponse | null,
+		Error,
+		ExpiringUnitsResponse | null
+	>({
+		queryKey: createQueryKey(queryKeys.expiringProductStock, [scopeKey]),
+		queryFn: () =>
+			getExpiringProductStock(isEncargado ? undefined : warehouseId),
+	});
+	const expiringUnits = expiringResponse?.success
+		? expiringResponse.data
+		: undefined;
+
+	const { data: myPermissionsResponse } = useQuery({
+		queryKey: queryKeys.myPermissions,
+		queryFn: getMyPermissions,
+	});
+	const canWriteOff = myPermissionsResponse?.success
+		? myPermissionsResponse.data.permissions.includes("merma.writeoff")
+		: false;
+
 	const employeesQueryFn = isEncargado
 		? getAllEmployees
 		: () => getEmployeesByWarehouseId(warehouseId);
@@ -1853,7 +2094,19 @@ export default function DashboardPageClient({
 				/>
 				<PendingOrdersCard pendingOrders={pendingOrders} />
 			</div>
-			<PendingTransfersCard pendingTransfers={pendingTransfers} />
+			<div className="grid gap-4 xl:grid-cols-2">
+				<PendingTransfersCard pendingTransfers={pendingTransfers} />
+				<UsageAlertsCard
+					showWarehouse={isEncargado}
+					usageAlerts={usageAlerts}
+				/>
+			</div>
+			<ExpiringUnitsCard
+				canWriteOff={canWriteOff}
+				expired={expiringUnits?.expired ?? []}
+				expiringSoon={expiringUnits?.expiringSoon ?? []}
+				showWarehouse={isEncargado}
+			/>
 		</div>
 	);
 }
@@ -12,6 +12,7 @@ import {
 	fetchAllProductsServer,
 	fetchAllWarehousesServer,
 	fetchCabinetWarehouseServer,
+	fetchExpiringProductStockServer,
 	fetchStockByWarehouseServer,
 } from "@/lib/server-functions/inventory";
 import {
@@ -31,6 +32,7 @@ import { getServerAuth } from "@/lib/server-functions/server-auth";
 import {
 	fetchAllStockLimitsServer,
 	fetchStockLimitsByWarehouseServer,
+	fetchUsageLimitAlertsServer,
 } from "@/lib/server-functions/stock-limits";
 import DashboardPageClient from "./dashboard";
 import { DashboardLoadingSkeleton } from "./loading";
@@ -89,6 +91,23 @@ export default async function DashboardPage() {
 		);
 	}
 
+	if (isEncargado || warehouseId) {
+		prefetches.push(
+			queryClient.prefetchQuery({
+				queryKey: createQueryKey(queryKeys.usageLimitAlerts, [scopeKey]),
+				queryFn: () =>
+					fetchUsageLimitAlertsServer(isEncargado ? undefined : warehouseId),
+			}),
+			queryClient.prefetchQuery({
+				queryKey: createQueryKey(queryKeys.expiringProductStock, [scopeKey]),
+				queryFn: () =>
+					fetchExpiringProductStockServer(
+						isEncargado ? undefined : warehouseId,
+					),
+			}),
+		);
+	}
+
 	prefetches.push(
 		queryClient.prefetchQuery({
 			queryKey: createQueryKey(queryKeys.kits, []),
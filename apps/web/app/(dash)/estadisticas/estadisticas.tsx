@@ -10,6 +10,7 @@ import { useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { RoleGuard } from "@/components/auth-guard";
 import { DashboardMetricCard } from "@/components/DashboardMetricCard";
 import { DeletedAndEmptyTable } from "@/components/inventory/DeletedAndEmptyTable";
+import { InventoryValuationSection } from "@/components/stats/InventoryValuationSection";
 import { MermaSection } from "@/components/stats/MermaSection";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
@@ -2205,6 +2206,13 @@ export function EstadisticasPage({
 					warehouseId={warehouseId}
 				/>
 
+				<InventoryValuationSection
+					canViewGlobalScope={canViewGlobalStats}
+					resolvedWarehouseId={resolvedWarehouseId}
+					scope={scope}
+					warehouseId={warehouseId}
+				/>
+
 				<section className="grid gap-4 xl:grid-cols-2">
 					<LowStockTable
 						items={lowStockItems}
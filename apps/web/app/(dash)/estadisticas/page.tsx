@@ -10,10 +10,12 @@ import {
 	fetchAllWarehousesServer,
 	fetchCabinetWarehouseServer,
 	fetchDeletedAndEmptyProductStockServer,
+	fetchInventoryValuationServer,
 } from "@/lib/server-functions/inventory";
 import { fetchAllKitsServer } from "@/lib/server-functions/kits";
 import {
 	fetchMermaMissingTransfersSummaryServer,
+	fetchMermaWriteoffsMonthlyServer,
 	fetchMermaWriteoffsSummaryServer,
 } from "@/lib/server-functions/merma";
 import { fetchWarehouseTrasnferAll } from "@/lib/server-functions/recepciones";
@@ -209,6 +211,39 @@ export default async function Page() {
 			}),
 		);
 
+		prefetches.push(
+			queryClient.prefetchQuery({
+				queryKey: createQueryKey(queryKeys.mermaWriteoffsMonthly, [
+					mermaScope,
+					mermaScope === "warehouse" ? (warehouseId ?? "none") : "all",
+					mermaRangeStart.toISOString(),
+					mermaRangeEnd.toISOString(),
+				]),
+				queryFn: () =>
+					fetchMermaWriteoffsMonthlyServer({
+						start: mermaRangeStart.toISOString(),
+						end: mermaRangeEnd.toISOString(),
+						scope: mermaScope,
+						...(mermaScope === "warehouse" && warehouseId
+							? { warehouseId }
+							: {}),
+					}),
+			}),
+		);
+
+		prefetches.push(
+			queryClient.prefetchQuery({
+				queryKey: createQueryKey(queryKeys.inventoryValuation, [
+					mermaScope,
+					mermaScope === "warehouse" ? (warehouseId ?? "none") : "all",
+				]),
+				queryFn: () =>
+					fetchInventoryValuationServer(
+						mermaScope === "warehouse" && warehouseId ? warehouseId : undefined,
+					),
+			}),
+		);
+
 		await Promise.all(prefetches);
 	} catch (error) {
 		console.error(error);
@@ -11,6 +11,7 @@ import { useShallow } from "zustand/shallow";
 import { RoleGuard } from "@/components/auth-guard";
 import { ProductCatalogTable } from "@/components/inventory/ProductCatalogTable";
 import { ProductCombobox } from "@/components/inventory/ProductCombobox";
+import { SyncHistoryPanel } from "@/components/inventory/SyncHistoryPanel";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -490,6 +491,8 @@ export function InventarioPage({
 		useState(employeeWarehouseId);
 	const [qrQuantity, setQrQuantity] = useState(1);
 	const [isKit, setIsKit] = useState(false);
+	const [lotNumber, setLotNumber] = useState("");
+	const [expiresAt, setExpiresAt] = useState("");
 	const [isPrintingLabels, setIsPrintingLabels] = useState(false);
 	const [currentTab, setCurrentTab] = useState<"general" | "gabinete">(
 		"general",
@@ -502,6 +505,8 @@ export function InventarioPage({
 		setSelectedWarehouseId(nextWarehouseId);
 		setQrQuantity(1);
 		setIsKit(false);
+		setLotNumber("");
+		setExpiresAt("");
 	}, []);
 
 	const productOptions = useMemo<CatalogProductOption[]>(() => {
@@ -1025,6 +1030,8 @@ export function InventarioPage({
 			numberOfUses: 0,
 			altegio: baseAltegioPayloadWithUnitType,
 			quantity,
+			...(lotNumber.trim() && { lotNumber: lotNumber.trim() }),
+			...(expiresAt && { expiresAt }),
 		};
 		let labels: QrLabelPayload[] = [];
 		try {
@@ -1096,6 +1103,8 @@ export function InventarioPage({
 		selectedProduct,
 		selectedWarehouseId,
 		isKit,
+		lotNumber,
+		expiresAt,
 		warehouseCabinetMap,
 	]);
 
@@ -2445,6 +2454,38 @@ export function InventarioPage({
 												Se creará e imprimirá una etiqueta por cada unidad.
 											</p>
 										</div>
+										<div className="grid gap-4 sm:grid-cols-2">
+											<div className="space-y-2">
+												<Label
+													className="text-[#11181C] dark:text-[#ECEDEE]"
+													htmlFor="lot-number"
+												>
+													Lote (opcional)
+												</Label>
+												<Input
+													className="border-[#E5E7EB] bg-white text-[#11181C] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE]"
+													id="lot-number"
+													maxLength={100}
+													onChange={(event) => setLotNumber(event.target.value)}
+													value={lotNumber}
+												/>
+											</div>
+											<div className="space-y-2">
+												<Label
+													className="text-[#11181C] dark:text-[#ECEDEE]"
+													htmlFor="expires-at"
+												>
+													Fecha de caducidad (opcional)
+												</Label>
+												<Input
+													className="border-[#E5E7EB] bg-white text-[#11181C] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE]"
+													id="expires-at"
+													onChange={(event) => setExpiresAt(event.target.value)}
+													type="date"
+													value={expiresAt}
+												/>
+											</div>
+										</div>
 										<div className="flex items-center space-x-2">
 											<Checkbox
 												checked={isKit}
@@ -2760,6 +2801,13 @@ export function InventarioPage({
 					/>
 				</TabsContent>
 			</Tabs>
+
+			<RoleGuard
+				allowedRoles={["admin", "encargado"]}
+				userRole={role as unknown as UserRole["role"]}
+			>
+				<SyncHistoryPanel />
+			</RoleGuard>
 		</div>
 	);
 }
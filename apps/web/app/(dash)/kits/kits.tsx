@@ -176,7 +176,6 @@ export default function KitsPageClient({
 				name?: unknown;
 				surname?: unknown;
 				warehouseId?: unknown;
-				passcode?: unknown;
 			};
 			const id = toStringOrEmpty(e.id);
 			const name = toStringOrEmpty(e.name);
@@ -187,7 +186,6 @@ export default function KitsPageClient({
 				id,
 				name: fullName || name || "Empleado",
 				warehouseId,
-				passcode: typeof e.passcode === "number" ? e.passcode : undefined,
 			};
 		},
 		[toStringOrEmpty],
@@ -1,6 +1,7 @@
 'use memo';
 
 import { AppSidebar } from '@/components/app-sidebar';
+import { DomainEventsListener } from '@/components/domain-events-listener';
 import { ThemeToggle } from '@/components/theme-toggle';
 import {
 	Breadcrumb,
@@ -16,6 +17,7 @@ import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/s
 export default function DashLayout({ children }: { children: React.ReactNode }) {
 	return (
 		<SidebarProvider>
+			<DomainEventsListener />
 			<AppSidebar />
 			<SidebarInset>
 				<header className="theme-transition flex h-16 shrink-0 items-center gap-2 border-[#E5E7EB] border-b px-4 dark:border-[#2D3033]">
@@ -1,10 +1,16 @@
 "use memo";
 "use client";
 
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
 import { format, formatDistanceToNow } from "date-fns";
 import { es } from "date-fns/locale";
-import { ArrowLeft, ExternalLink, Package, Search } from "lucide-react";
+import {
+	ArrowLeft,
+	ExternalLink,
+	Package,
+	Printer,
+	Search,
+} from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useCallback, useMemo, useState } from "react";
@@ -46,14 +52,21 @@ import {
 	getCabinetWarehouse,
 	getInventoryByWarehouse,
 } from "@/lib/fetch-functions/inventory";
-import { getReplenishmentOrderById } from "@/lib/fetch-functions/replenishment-orders";
+import { getMyPermissions } from "@/lib/fetch-functions/permissions";
+import {
+	getReplenishmentOrderById,
+	getReplenishmentOrderPickingSheetPdf,
+} from "@/lib/fetch-functions/replenishment-orders";
 import { createQueryKey } from "@/lib/helpers";
 import {
+	useDiscardReplenishmentDraft,
 	useLinkTransferToReplenishmentOrder,
+	useReviewReplenishmentOrder,
 	useUpdateReplenishmentOrder,
 } from "@/lib/mutations/replenishment-orders";
 import { useCreateTransferOrder } from "@/lib/mutations/transfers";
 import { queryKeys } from "@/lib/query-keys";
+import { openPdf } from "@/lib/utils";
 import { useAuthStore } from "@/stores/auth-store";
 import type {
 	ProductCatalogItem,
@@ -78,6 +91,7 @@ type ParsedOrderDetail = {
 	updatedAt: string | null;
 	sourceWarehouseId: string;
 	cedisWarehouseId: string;
+	isDraft: boolean;
 	isSent: boolean;
 	isReceived: boolean;
 	warehouseTransferId: string | null;
@@ -129,16 +143,20 @@ const parseBarcode = (value: unknown): number | null => {
 	return null;
 };
 
-const STATUS_LABELS: Record<"open" | "sent" | "received", string> = {
+type OrderStatusCode = "draft" | "open" | "sent" | "received";
+
+const STATUS_LABELS: Record<OrderStatusCode, string> = {
+	draft: "Borrador por revisar",
 	open: "Abierto",
 	sent: "Enviado",
 	received: "Recibido",
 };
 
 const STATUS_VARIANTS: Record<
-	"open" | "sent" | "received",
-	"outline" | "secondary" | "default"
+	OrderStatusCode,
+	"outline" | "secondary" | "default" | "destructive"
 > = {
+	draft: "destructive",
 	open: "outline",
 	sent: "secondary",
 	received: "default",
@@ -194,6 +212,7 @@ const parseOrderDetail = (
 			typeof data.sourceWarehouseId === "string" ? data.sourceWarehouseId : "",
 		cedisWarehouseId:
 			typeof data.cedisWarehouseId === "string" ? data.cedisWarehouseId : "",
+		isDraft: Boolean(data.isDraft),
 		isSent: Boolean(data.isSent),
 		isReceived: Boolean(data.isReceived),
 		warehouseTransferId:
@@ -249,12 +268,13 @@ const parseOrderDetail = (
 	};
 };
 
-const statusFromOrder = (
-	order: ParsedOrderDetail | null,
-): "open" | "sent" | "received" => {
+const statusFromOrder = (order: ParsedOrderDetail | null): OrderStatusCode => {
 	if (!order) {
 		return "open";
 	}
+	if (order.isDraft) {
+		return "draft";
+	}
 	if (order.isReceived) {
 		return "received";
 	}
@@ -480,6 +500,16 @@ export function PedidoDetailsPage({
 	const createTransferMutation = useCreateTransferOrder();
 	const linkTransferMutation = useLinkTransferToReplenishmentOrder();
 	const updateOrderMutation = useUpdateReplenishmentOrder();
+	const reviewOrderMutation = useReviewReplenishmentOrder();
+	const discardDraftMutation = useDiscardReplenishmentDraft();
+
+	const { data: myPermissionsResponse } = useQuery({
+		queryKey: queryKeys.myPermissions,
+		queryFn: getMyPermissions,
+	});
+	const canApproveDraft = myPermissionsResponse?.success
+		? myPermissionsResponse.data.permissions.includes("replenishment.approve")
+		: false;
 
 	const [selectedItems, setSelectedItems] = useState<SelectedItemsMap>({});
 	const [itemSearch, setItemSearch] = useState("");
@@ -492,6 +522,11 @@ export function PedidoDetailsPage({
 		"normal",
 	);
 	const [showZeroQuantityDialog, setShowZeroQuantityDialog] = useState(false);
+	const [isPrintingPickingSheet, setIsPrintingPickingSheet] = useState(false);
+	// Quantities edited while reviewing a planner draft, keyed by barcode
+	const [reviewQuantities, setReviewQuantities] = useState<
+		Record<number, string>
+	>({});
 	const [pendingTransferAction, setPendingTransferAction] = useState<
 		(() => Promise<void>) | null
 	>(null);
@@ -603,6 +638,49 @@ export function PedidoDetailsPage({
 	);
 
 	const status = statusFromOrder(parsedOrder);
+	const isReviewingDraft = Boolean(parsedOrder?.isDraft) && canApproveDraft;
+
+	const handleReviewDraft = useCallback(async () => {
+		if (!parsedOrder) {
+			return;
+		}
+		const items: { barcode: number; quantity: number }[] = [];
+		for (const item of parsedOrder.items) {
+			const rawValue = reviewQuantities[item.barcode];
+			if (rawValue === undefined) {
+				continue;
+			}
+			const quantity = Number.parseInt(rawValue, 10);
+			if (Number.isNaN(quantity) || quantity < 0) {
+				toast.error(`Cantidad inválida para el código ${item.barcode}`);
+				return;
+			}
+			if (quantity !== item.quantity) {
+				items.push({ barcode: item.barcode, quantity });
+			}
+		}
+		try {
+			await reviewOrderMutation.mutateAsync({
+				param: { id: parsedOrder.id },
+				json: items.length > 0 ? { items } : {},
+			});
+			setReviewQuantities({});
+		} catch {
+			// The mutation already reports the error
+		}
+	}, [parsedOrder, reviewOrderMutation, reviewQuantities]);
+
+	const handleDiscardDraft = useCallback(async () => {
+		if (!parsedOrder) {
+			return;
+		}
+		try {
+			await discardDraftMutation.mutateAsync(parsedOrder.id);
+			router.push("/pedidos");
+		} catch {
+			// The mutation already reports the error
+		}
+	}, [discardDraftMutation, parsedOrder, router]);
 
 	const sourceWarehouseName = useMemo(() => {
 		if (!parsedOrder?.sourceWarehouseId) {
@@ -1165,6 +1243,17 @@ export function PedidoDetailsPage({
 		? `/recepciones/${parsedOrder.warehouseTransferId}`
 		: null;
 
+	const handlePrintPickingSheet = async () => {
+		setIsPrintingPickingSheet(true);
+		const pickingSheet = await getReplenishmentOrderPickingSheetPdf(orderId);
+		setIsPrintingPickingSheet(false);
+		if (!pickingSheet) {
+			toast.error("No se pudo generar la hoja de surtido");
+			return;
+		}
+		openPdf(pickingSheet, `surtido_${parsedOrder.orderNumber}.pdf`);
+	};
+
 	return (
 		<div className="theme-transition flex-1 space-y-6 bg-white p-4 md:p-6 dark:bg-[#151718]">
 			<header className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
@@ -1203,6 +1292,15 @@ export function PedidoDetailsPage({
 					<Button onClick={() => router.push("/pedidos")} variant="outline">
 						Volver a pedidos
 					</Button>
+					<Button
+						className="gap-2"
+						disabled={isPrintingPickingSheet}
+						onClick={handlePrintPickingSheet}
+						variant="outline"
+					>
+						<Printer className="h-4 w-4" />
+						Hoja de surtido
+					</Button>
 					{warehouseTransferLink && (
 						<Button asChild className="gap-2" variant="outline">
 							<Link href={warehouseTransferLink}>
@@ -1310,7 +1408,26 @@ export function PedidoDetailsPage({
 													{item.barcode}
 												</TableCell>
 												<TableCell className="text-[#11181C] dark:text-[#ECEDEE]">
-													{item.quantity}
+													{isReviewingDraft ? (
+														<Input
+															aria-label={`Cantidad para ${item.barcode}`}
+															className="w-24"
+															min={0}
+															onChange={(event) =>
+																setReviewQuantities((previous) => ({
+																	...previous,
+																	[item.barcode]: event.target.value,
+																}))
+															}
+															type="number"
+															value={
+																reviewQuantities[item.barcode] ??
+																String(item.quantity)
+															}
+														/>
+													) : (
+														item.quantity
+													)}
 												</TableCell>
 												<TableCell className="text-[#687076] text-sm dark:text-[#9BA1A6]">
 													{item.notes || "Sin notas"}
@@ -1332,243 +1449,291 @@ export function PedidoDetailsPage({
 					</CardContent>
 				</Card>
 
-				<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
-					<CardHeader>
-						<CardTitle className="text-[#11181C] text-transition dark:text-[#ECEDEE]">
-							Cumplir pedido
-						</CardTitle>
-					</CardHeader>
-					<CardContent className="space-y-5">
-						{isEncargado ? (
-							<>
-								{parsedOrder.warehouseTransferId && (
-									<div className="rounded-md border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-950/20">
-										<p className="text-amber-800 text-sm dark:text-amber-300">
-											<strong>Nota:</strong> Este pedido ya tiene un traspaso
-											asociado (ID:{" "}
-											{parsedOrder.warehouseTransferId.slice(0, 8)}
-											...). No se puede crear otro traspaso.
-										</p>
-									</div>
-								)}
-								<div className="space-y-2">
-									<Label className="text-[#687076] dark:text-[#9BA1A6]">
-										Prioridad
-									</Label>
-									<Select
-										onValueChange={(value) =>
-											setPriority(value as "normal" | "urgent" | "high")
+				{parsedOrder.isDraft ? (
+					<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<CardHeader>
+							<CardTitle className="text-[#11181C] text-transition dark:text-[#ECEDEE]">
+								Revisar borrador
+							</CardTitle>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+								El planificador generó este pedido a partir de los límites de
+								inventario. Ajusta las cantidades (0 elimina el artículo) y
+								envíalo al CEDIS, o descártalo.
+							</p>
+							{canApproveDraft ? (
+								<div className="flex flex-col gap-3">
+									<Button
+										className="bg-[#0a7ea4] text-white hover:bg-[#086885] dark:bg-[#0a7ea4] dark:hover:bg-[#0a7ea4]/80"
+										disabled={
+											reviewOrderMutation.isPending ||
+											discardDraftMutation.isPending
+										}
+										onClick={handleReviewDraft}
+									>
+										{reviewOrderMutation.isPending
+											? "Enviando..."
+											: "Revisar y enviar"}
+									</Button>
+									<Button
+										disabled={
+											reviewOrderMutation.isPending ||
+											discardDraftMutation.isPending
 										}
-										value={priority}
+										onClick={handleDiscardDraft}
+										variant="outline"
 									>
-										<SelectTrigger className="input-transition border-[#E5E7EB] bg-white text-[#11181C] focus:border-[#0a7ea4] focus:ring-[#0a7ea4] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE]">
-											<SelectValue placeholder="Selecciona prioridad" />
-										</SelectTrigger>
-										<SelectContent>
-											<SelectItem value="normal">Normal</SelectItem>
-											<SelectItem value="high">Alta</SelectItem>
-											<SelectItem value="urgent">Urgente</SelectItem>
-										</SelectContent>
-									</Select>
+										Descartar borrador
+									</Button>
 								</div>
-								<div className="space-y-4">
-									<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
-										Selecciona las piezas disponibles en el CEDIS para enviar.
-										El traspaso se puede generar aun cuando falten unidades por
-										surtir.
-									</p>
-									<div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
-										<div className="w-full lg:max-w-sm">
-											<Label
-												className="text-[#687076] text-sm dark:text-[#9BA1A6]"
-												htmlFor="item-search"
-											>
-												Buscar artículos en el CEDIS
-											</Label>
-											<div className="relative mt-1">
-												<Search className="text-[#687076] absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 dark:text-[#9BA1A6]" />
-												<Input
-													className="pl-9"
-													id="item-search"
-													onChange={(event) =>
-														setItemSearch(event.target.value)
-													}
-													placeholder="Nombre, código o categoría"
-													value={itemSearch}
-												/>
+							) : (
+								<p className="rounded-md border border-[#E5E7EB] bg-[#F9FAFB] p-4 text-[#687076] dark:border-[#2D3033] dark:bg-[#1E1F20] dark:text-[#9BA1A6]">
+									Solo los usuarios con permiso para aprobar reabastecimientos
+									pueden revisar este borrador.
+								</p>
+							)}
+						</CardContent>
+					</Card>
+				) : (
+					<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<CardHeader>
+							<CardTitle className="text-[#11181C] text-transition dark:text-[#ECEDEE]">
+								Cumplir pedido
+							</CardTitle>
+						</CardHeader>
+						<CardContent className="space-y-5">
+							{isEncargado ? (
+								<>
+									{parsedOrder.warehouseTransferId && (
+										<div className="rounded-md border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-950/20">
+											<p className="text-amber-800 text-sm dark:text-amber-300">
+												<strong>Nota:</strong> Este pedido ya tiene un traspaso
+												asociado (ID:{" "}
+												{parsedOrder.warehouseTransferId.slice(0, 8)}
+												...). No se puede crear otro traspaso.
+											</p>
+										</div>
+									)}
+									<div className="space-y-2">
+										<Label className="text-[#687076] dark:text-[#9BA1A6]">
+											Prioridad
+										</Label>
+										<Select
+											onValueChange={(value) =>
+												setPriority(value as "normal" | "urgent" | "high")
+											}
+											value={priority}
+										>
+											<SelectTrigger className="input-transition border-[#E5E7EB] bg-white text-[#11181C] focus:border-[#0a7ea4] focus:ring-[#0a7ea4] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE]">
+												<SelectValue placeholder="Selecciona prioridad" />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="normal">Normal</SelectItem>
+												<SelectItem value="high">Alta</SelectItem>
+												<SelectItem value="urgent">Urgente</SelectItem>
+											</SelectContent>
+										</Select>
+									</div>
+									<div className="space-y-4">
+										<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+											Selecciona las piezas disponibles en el CEDIS para enviar.
+											El traspaso se puede generar aun cuando falten unidades por
+											surtir.
+										</p>
+										<div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+											<div className="w-full lg:max-w-sm">
+												<Label
+													className="text-[#687076] text-sm dark:text-[#9BA1A6]"
+													htmlFor="item-search"
+												>
+													Buscar artículos en el CEDIS
+												</Label>
+												<div className="relative mt-1">
+													<Search className="text-[#687076] absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 dark:text-[#9BA1A6]" />
+													<Input
+														className="pl-9"
+														id="item-search"
+														onChange={(event) =>
+															setItemSearch(event.target.value)
+														}
+														placeholder="Nombre, código o categoría"
+														value={itemSearch}
+													/>
+												</div>
+												{hasSearchTerm && !noItemsMatchSearch && (
+													<p className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+														{filteredItems.length} coincidencia(s) encontradas.
+													</p>
+												)}
+												{noItemsMatchSearch && (
+													<p className="text-[#B54708] text-xs dark:text-[#F7B84B]">
+														No se encontraron artículos que coincidan con la
+														búsqueda.
+													</p>
+												)}
 											</div>
-											{hasSearchTerm && !noItemsMatchSearch && (
-												<p className="text-[#687076] text-xs dark:text-[#9BA1A6]">
-													{filteredItems.length} coincidencia(s) encontradas.
+										</div>
+										<div className="rounded-md border border-dashed border-[#E5E7EB] bg-[#F9FAFB] p-3 dark:border-[#2D3033] dark:bg-[#1E1F20]">
+											<p className="text-[#11181C] text-sm dark:text-[#ECEDEE]">
+												Seleccionados: {fulfillmentProgress.selected} /{" "}
+												{fulfillmentProgress.requested || parsedOrder.itemsCount}
+											</p>
+											{hasCompleteFulfillment ? (
+												<p className="text-[#10B981] text-xs">
+													Pedido cubierto por completo.
 												</p>
-											)}
-											{noItemsMatchSearch && (
+											) : fulfillmentProgress.selected > 0 ? (
 												<p className="text-[#B54708] text-xs dark:text-[#F7B84B]">
-													No se encontraron artículos que coincidan con la
-													búsqueda.
+													{pendingPieces} pieza(s) quedarían pendientes de envío.
+												</p>
+											) : (
+												<p className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+													Puedes crear el traspaso incluso sin seleccionar artículos.
+													Se marcarán como enviados con cantidad 0.
 												</p>
 											)}
 										</div>
-									</div>
-									<div className="rounded-md border border-dashed border-[#E5E7EB] bg-[#F9FAFB] p-3 dark:border-[#2D3033] dark:bg-[#1E1F20]">
-										<p className="text-[#11181C] text-sm dark:text-[#ECEDEE]">
-											Seleccionados: {fulfillmentProgress.selected} /{" "}
-											{fulfillmentProgress.requested || parsedOrder.itemsCount}
-										</p>
-										{hasCompleteFulfillment ? (
-											<p className="text-[#10B981] text-xs">
-												Pedido cubierto por completo.
-											</p>
-										) : fulfillmentProgress.selected > 0 ? (
-											<p className="text-[#B54708] text-xs dark:text-[#F7B84B]">
-												{pendingPieces} pieza(s) quedarían pendientes de envío.
+										{noItemsMatchSearch ? (
+											<p className="rounded-md border border-[#E5E7EB] bg-[#F9FAFB] p-4 text-[#687076] text-sm dark:border-[#2D3033] dark:bg-[#1E1F20] dark:text-[#9BA1A6]">
+												Ajusta el término de búsqueda para ubicar los artículos
+												del pedido.
 											</p>
 										) : (
-											<p className="text-[#687076] text-xs dark:text-[#9BA1A6]">
-												Puedes crear el traspaso incluso sin seleccionar artículos.
-												Se marcarán como enviados con cantidad 0.
-											</p>
-										)}
-									</div>
-									{noItemsMatchSearch ? (
-										<p className="rounded-md border border-[#E5E7EB] bg-[#F9FAFB] p-4 text-[#687076] text-sm dark:border-[#2D3033] dark:bg-[#1E1F20] dark:text-[#9BA1A6]">
-											Ajusta el término de búsqueda para ubicar los artículos
-											del pedido.
-										</p>
-									) : (
-										<div className="space-y-4">
-									{itemsToRender.map((item) => {
-												const selectedCount = item.selectedIds.length;
-												const availableCount = item.availableStocks.length;
-												const remainingToSelect = Math.max(
-													item.requestedQuantity - selectedCount,
-													0,
-												);
-												const disableSelectAll =
-													remainingToSelect === 0 ||
-													availableCount === selectedCount;
-									return (
-										<div
-											key={item.detailId}
-											className="rounded-lg border border-[#E5E7EB] p-4 dark:border-[#2D3033]"
-										>
-															<div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
-																<div className="space-y-1">
-																	<p className="font-semibold text-[#11181C] dark:text-[#ECEDEE]">
-																		{item.displayName}
-																	</p>
-																	<div className="flex flex-wrap items-center gap-2 text-[#687076] text-xs dark:text-[#9BA1A6]">
-																		<span>#{item.barcode}</span>
-																		<span className="hidden sm:inline">•</span>
-																		<span>{item.category}</span>
-																		<span className="hidden sm:inline">•</span>
-																		<span>
-																			Solicitado: {item.requestedQuantity}
-																		</span>
-																		<span className="hidden sm:inline">•</span>
-																		<span>Disponibles: {availableCount}</span>
-																	</div>
-																	{item.itemNotes && (
-																		<p className="text-[#687076] text-xs italic dark:text-[#9BA1A6]">
-																			Nota: {item.itemNotes}
-																		</p>
-																	)}
-																</div>
-																<div className="flex flex-col items-start gap-2 sm:items-end">
-																	<Badge className="text-xs" variant="outline">
-																		Seleccionados {selectedCount}/
-																		{item.requestedQuantity}
-																	</Badge>
-																	<div className="flex flex-wrap items-center gap-2">
-																		<Button
-																			onClick={() =>
-																				handleSelectAllForItem(
-																					item.detailId,
-																					item.requestedQuantity,
-																					item.availableStocks,
-																				)
-																			}
-																			size="sm"
-																			variant="outline"
-																			disabled={disableSelectAll}
-																		>
-																			Completar selección
-																		</Button>
-																		<Button
-																			onClick={() =>
-																				handleClearSelectionForItem(
-																					item.detailId,
-																				)
-																			}
-																			size="sm"
-																			variant="ghost"
-																			disabled={selectedCount === 0}
-																		>
-																			Limpiar
-																		</Button>
-											<Button
-												className="gap-1"
-												onClick={() => {
-													setStockDialogDetailId(item.detailId);
-													setStockDialogSearch("");
-												}}
-												size="sm"
-												variant="ghost"
+											<div className="space-y-4">
+										{itemsToRender.map((item) => {
+													const selectedCount = item.selectedIds.length;
+													const availableCount = item.availableStocks.length;
+													const remainingToSelect = Math.max(
+														item.requestedQuantity - selectedCount,
+														0,
+													);
+													const disableSelectAll =
+														remainingToSelect === 0 ||
+														availableCount === selectedCount;
+										return (
+											<div
+												key={item.detailId}
+												className="rounded-lg border border-[#E5E7EB] p-4 dark:border-[#2D3033]"
 											>
-												Ver existencias
-											</Button>
+																<div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+																	<div className="space-y-1">
+																		<p className="font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+																			{item.displayName}
+																		</p>
+																		<div className="flex flex-wrap items-center gap-2 text-[#687076] text-xs dark:text-[#9BA1A6]">
+																			<span>#{item.barcode}</span>
+																			<span className="hidden sm:inline">•</span>
+																			<span>{item.category}</span>
+																			<span className="hidden sm:inline">•</span>
+																			<span>
+																				Solicitado: {item.requestedQuantity}
+																			</span>
+																			<span className="hidden sm:inline">•</span>
+																			<span>Disponibles: {availableCount}</span>
+																		</div>
+																		{item.itemNotes && (
+																			<p className="text-[#687076] text-xs italic dark:text-[#9BA1A6]">
+																				Nota: {item.itemNotes}
+																			</p>
+																		)}
+																	</div>
+																	<div className="flex flex-col items-start gap-2 sm:items-end">
+																		<Badge className="text-xs" variant="outline">
+																			Seleccionados {selectedCount}/
+																			{item.requestedQuantity}
+																		</Badge>
+																		<div className="flex flex-wrap items-center gap-2">
+																			<Button
+																				onClick={() =>
+																					handleSelectAllForItem(
+																						item.detailId,
+																						item.requestedQuantity,
+																						item.availableStocks,
+																					)
+																				}
+																				size="sm"
+																				variant="outline"
+																				disabled={disableSelectAll}
+																			>
+																				Completar selección
+																			</Button>
+																			<Button
+																				onClick={() =>
+																					handleClearSelectionForItem(
+																						item.detailId,
+																					)
+																				}
+																				size="sm"
+																				variant="ghost"
+																				disabled={selectedCount === 0}
+																			>
+																				Limpiar
+																			</Button>
+												<Button
+													className="gap-1"
+													onClick={() => {
+														setStockDialogDetailId(item.detailId);
+														setStockDialogSearch("");
+													}}
+													size="sm"
+													variant="ghost"
+												>
+													Ver existencias
+												</Button>
+																		</div>
 																	</div>
 																</div>
 															</div>
-														</div>
-													
-												);
-											})}
-										</div>
-									)}
-								</div>
-								<div className="space-y-2">
-									<Label
-										className="text-[#687076] dark:text-[#9BA1A6]"
-										htmlFor="transferNotes"
+														
+													);
+												})}
+											</div>
+										)}
+									</div>
+									<div className="space-y-2">
+										<Label
+											className="text-[#687076] dark:text-[#9BA1A6]"
+											htmlFor="transferNotes"
+										>
+											Notas del traspaso (opcional)
+										</Label>
+										<Textarea
+											className="input-transition border-[#E5E7EB] bg-white text-[#11181C] focus:border-[#0a7ea4] focus:ring-[#0a7ea4] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE]"
+											id="transferNotes"
+											onChange={(event) => setTransferNotes(event.target.value)}
+											placeholder="Añade observaciones para el traslado..."
+											value={transferNotes}
+										/>
+									</div>
+									<Button
+										className="w-full bg-[#0a7ea4] text-white hover:bg-[#086885] dark:bg-[#0a7ea4] dark:hover:bg-[#0a7ea4]/80"
+										disabled={
+											createTransferMutation.isPending ||
+											linkTransferMutation.isPending ||
+											updateOrderMutation.isPending ||
+											Boolean(parsedOrder?.warehouseTransferId)
+										}
+										onClick={handleCreateTransfer}
 									>
-										Notas del traspaso (opcional)
-									</Label>
-									<Textarea
-										className="input-transition border-[#E5E7EB] bg-white text-[#11181C] focus:border-[#0a7ea4] focus:ring-[#0a7ea4] dark:border-[#2D3033] dark:bg-[#151718] dark:text-[#ECEDEE]"
-										id="transferNotes"
-										onChange={(event) => setTransferNotes(event.target.value)}
-										placeholder="Añade observaciones para el traslado..."
-										value={transferNotes}
-									/>
-								</div>
-								<Button
-									className="w-full bg-[#0a7ea4] text-white hover:bg-[#086885] dark:bg-[#0a7ea4] dark:hover:bg-[#0a7ea4]/80"
-									disabled={
-										createTransferMutation.isPending ||
+										{createTransferMutation.isPending ||
 										linkTransferMutation.isPending ||
-										updateOrderMutation.isPending ||
-										Boolean(parsedOrder?.warehouseTransferId)
-									}
-									onClick={handleCreateTransfer}
-								>
-									{createTransferMutation.isPending ||
-									linkTransferMutation.isPending ||
-									updateOrderMutation.isPending
-										? "Procesando..."
-										: parsedOrder?.warehouseTransferId
-											? "Traspaso ya creado"
-											: "Crear traspaso"}
-								</Button>
-							</>
-						) : (
-							<p className="rounded-md border border-[#E5E7EB] bg-[#F9FAFB] p-4 text-[#687076] dark:border-[#2D3033] dark:bg-[#1E1F20] dark:text-[#9BA1A6]">
-								Solo los usuarios con rol de encargado pueden cumplir pedidos y
-								generar traspasos.
-							</p>
-						)}
-				</CardContent>
-			</Card>
+										updateOrderMutation.isPending
+											? "Procesando..."
+											: parsedOrder?.warehouseTransferId
+												? "Traspaso ya creado"
+												: "Crear traspaso"}
+									</Button>
+								</>
+							) : (
+								<p className="rounded-md border border-[#E5E7EB] bg-[#F9FAFB] p-4 text-[#687076] dark:border-[#2D3033] dark:bg-[#1E1F20] dark:text-[#9BA1A6]">
+									Solo los usuarios con rol de encargado pueden cumplir pedidos y
+									generar traspasos.
+								</p>
+							)}
+					</CardContent>
+				</Card>
+				)}
 		</section>
 
 		<Dialog onOpenChange={handleStockDialogOpenChange} open={Boolean(stockDialogDetailId)}>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
 import type {
 	ColumnDef,
 	ColumnFiltersState,
@@ -20,6 +20,7 @@ import {
 	DateFilter,
 	type DateFilterValue,
 } from "@/components/filters/DateFilter";
+import { ApprovalQueue } from "@/components/approvals/ApprovalQueue";
 import { SelectFilter } from "@/components/filters/SelectFilter";
 import { DataTable } from "@/components/table/DataTable";
 import { Badge } from "@/components/ui/badge";
@@ -29,15 +30,20 @@ import {
 	getAllProducts,
 	getAllWarehouses,
 } from "@/lib/fetch-functions/inventory";
+import { getMyPermissions } from "@/lib/fetch-functions/permissions";
 import {
 	getReplenishmentOrders,
 	getReplenishmentOrdersByWarehouse,
 } from "@/lib/fetch-functions/replenishment-orders";
 import { createQueryKey } from "@/lib/helpers";
-import { useCreateReplenishmentOrder } from "@/lib/mutations/replenishment-orders";
+import {
+	useCreateReplenishmentOrder,
+	useRunReplenishmentPlanner,
+} from "@/lib/mutations/replenishment-orders";
 import { queryKeys } from "@/lib/query-keys";
 import { useAuthStore } from "@/stores/auth-store";
 import type {
+	ApprovalStatus,
 	ProductCatalogResponse,
 	ReplenishmentOrdersResponse,
 } from "@/types";
@@ -53,15 +59,25 @@ type OrderSummary = {
 	createdAt: string;
 	sourceWarehouseId: string;
 	cedisWarehouseId: string;
+	isDraft: boolean;
 	isSent: boolean;
 	isReceived: boolean;
 	hasRelatedTransfer: boolean;
 	notes: string | null;
+	approvalStatus: ApprovalStatus;
 };
 
+type OrderStatusCode =
+	| "draft"
+	| "awaiting_approval"
+	| "rejected"
+	| "open"
+	| "sent"
+	| "received";
+
 type OrderRow = OrderSummary & {
 	sourceName: string;
-	statusCode: "open" | "sent" | "received";
+	statusCode: OrderStatusCode;
 	statusLabel: string;
 };
 
@@ -93,9 +109,12 @@ const PedidoCreateDialog = dynamic(
 );
 
 const STATUS_BADGE_VARIANTS: Record<
-	"open" | "sent" | "received",
+	OrderStatusCode,
 	"secondary" | "outline" | "default" | "destructive"
 > = {
+	draft: "destructive",
+	awaiting_approval: "secondary",
+	rejected: "destructive",
 	open: "outline",
 	sent: "secondary",
 	received: "default",
@@ -121,7 +140,25 @@ function isSuccessResponse(
 	);
 }
 
-function statusFromOrder(order: OrderSummary): "open" | "sent" | "received" {
+const STATUS_LABELS: Record<OrderStatusCode, string> = {
+	draft: "Borrador por revisar",
+	awaiting_approval: "Por aprobar",
+	rejected: "Rechazado",
+	open: "Abierto",
+	sent: "Enviado",
+	received: "Recibido",
+};
+
+function statusFromOrder(order: OrderSummary): OrderStatusCode {
+	if (order.isDraft) {
+		return "draft";
+	}
+	if (
+		order.approvalStatus === "awaiting_approval" ||
+		order.approvalStatus === "rejected"
+	) {
+		return order.approvalStatus;
+	}
 	if (order.isReceived) {
 		return "received";
 	}
@@ -169,7 +206,7 @@ export function PedidosPage({
 	}, []);
 
 	const handleStatusFilterChange = useCallback(
-		(value: "open" | "sent" | "received" | null) => {
+		(value: OrderStatusCode | null) => {
 			setOrdersColumnFilters((prev) => {
 				const next = prev.filter((f) => f.id !== "statusLabel");
 				if (!value) return next;
@@ -232,6 +269,15 @@ export function PedidosPage({
 	});
 
 	const mutation = useCreateReplenishmentOrder();
+	const plannerMutation = useRunReplenishmentPlanner();
+
+	const { data: myPermissionsResponse } = useQuery({
+		queryKey: queryKeys.myPermissions,
+		queryFn: getMyPermissions,
+	});
+	const canRunPlanner = myPermissionsResponse?.success
+		? myPermissionsResponse.data.permissions.includes("replenishment.manage")
+		: false;
 
 	const warehouses = useMemo<WarehouseOption[]>(() => {
 		if (!warehousesResponse || typeof warehousesResponse !== "object") {
@@ -426,10 +472,15 @@ export function PedidosPage({
 						typeof record.cedisWarehouseId === "string"
 							? record.cedisWarehouseId
 							: "",
+					isDraft: Boolean(record.isDraft),
 					isSent: Boolean(record.isSent),
 					isReceived: Boolean(record.isReceived),
 					hasRelatedTransfer: Boolean(record.hasRelatedTransfer),
 					notes: typeof record.notes === "string" ? record.notes : null,
+					approvalStatus:
+						typeof record.approvalStatus === "string"
+							? (record.approvalStatus as ApprovalStatus)
+							: "not_required",
 				} satisfies OrderSummary;
 			})
 			.filter((item: OrderSummary | null): item is OrderSummary =>
@@ -491,12 +542,7 @@ export function PedidosPage({
 				...order,
 				sourceName,
 				statusCode,
-				statusLabel:
-					statusCode === "open"
-						? "Abierto"
-						: statusCode === "sent"
-							? "Enviado"
-							: "Recibido",
+				statusLabel: STATUS_LABELS[statusCode],
 			};
 		});
 	}, [filteredOrders, warehouseNameMap]);
@@ -756,13 +802,32 @@ export function PedidosPage({
 						Visualiza y administra las solicitudes de reabastecimiento.
 					</p>
 				</div>
-				<Button
-					className="bg-[#0a7ea4] text-white hover:bg-[#086885] dark:bg-[#0a7ea4] dark:hover:bg-[#0a7ea4]/80"
-					onClick={() => setIsDialogOpen(true)}
-					type="button"
-				>
-					Nuevo pedido
-				</Button>
+				<div className="flex flex-wrap gap-2">
+					{canRunPlanner && (
+						<Button
+							className="border-[#0a7ea4] text-[#0a7ea4] hover:bg-[#0a7ea4]/10 dark:border-[#0a7ea4] dark:text-[#0a7ea4]"
+							disabled={plannerMutation.isPending}
+							onClick={() =>
+								plannerMutation.mutate({
+									dryRun: false,
+									...(!canManageAllWarehouses &&
+										warehouseId && { warehouseId }),
+								})
+							}
+							type="button"
+							variant="outline"
+						>
+							Generar borradores por límites
+						</Button>
+					)}
+					<Button
+						className="bg-[#0a7ea4] text-white hover:bg-[#086885] dark:bg-[#0a7ea4] dark:hover:bg-[#0a7ea4]/80"
+						onClick={() => setIsDialogOpen(true)}
+						type="button"
+					>
+						Nuevo pedido
+					</Button>
+				</div>
 			</div>
 			{isDialogOpen && (
 				<PedidoCreateDialog
@@ -798,6 +863,8 @@ export function PedidosPage({
 				/>
 			)}
 
+			<ApprovalQueue kind="orders" />
+
 			<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
 				<CardHeader>
 					<CardTitle className="text-[#11181C] text-transition dark:text-[#ECEDEE]">
@@ -819,13 +886,16 @@ export function PedidosPage({
 							label="Estado"
 							onChange={handleStatusFilterChange}
 							options={[
+								{ label: "Borrador por revisar", value: "draft" },
+								{ label: "Por aprobar", value: "awaiting_approval" },
+								{ label: "Rechazado", value: "rejected" },
 								{ label: "Abierto", value: "open" },
 								{ label: "Enviado", value: "sent" },
 								{ label: "Recibido", value: "received" },
 							]}
 							value={
 								(ordersColumnFilters.find((f) => f.id === "statusLabel")
-									?.value as "open" | "sent" | "received" | undefined) ?? null
+									?.value as OrderStatusCode | undefined) ?? null
 							}
 						/>
 						<DateFilter
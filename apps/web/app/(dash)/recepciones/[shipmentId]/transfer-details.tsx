@@ -1,15 +1,20 @@
 "use memo";
 "use client";
 
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQuery, useSuspenseQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
-import { ArrowLeft, CheckCircle2, Package } from "lucide-react";
+import { ArrowLeft, CheckCircle2, Package, Printer, Truck } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Fragment, useCallback, useEffect, useMemo } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
 import { useShallow } from "zustand/shallow";
+import { approvalStatusBadges } from "@/components/approvals/ApprovalQueue";
+import {
+	isTransferStatus,
+	transferStatusBadges,
+} from "@/components/recepciones/transfer-status-badges";
 import { Badge } from "@/components/ui/badge";
 import {
 	Breadcrumb,
@@ -31,8 +36,12 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import { getCabinetWarehouse } from "@/lib/fetch-functions/inventory";
+import { getMyPermissions } from "@/lib/fetch-functions/permissions";
 import { getAllProducts } from "@/lib/fetch-functions/products";
-import { getTransferDetailsById } from "@/lib/fetch-functions/recepciones";
+import {
+	getTransferDetailsById,
+	getTransferManifestPdf,
+} from "@/lib/fetch-functions/recepciones";
 import {
 	getReplenishmentOrderById,
 	getReplenishmentOrders,
@@ -40,23 +49,29 @@ import {
 } from "@/lib/fetch-functions/replenishment-orders";
 import { createQueryKey } from "@/lib/helpers";
 import {
+	type TransitionTransferPayload,
 	type UpdateTransferItemStatusPayload,
 	type UpdateTransferStatusPayload,
+	useTransitionTransfer,
 	useUpdateTransferItemStatus,
 	useUpdateTransferStatus,
 } from "@/lib/mutations/transfers";
 import { queryKeys } from "@/lib/query-keys";
-import { cn, createWarehouseOptions } from "@/lib/utils";
+import { cn, createWarehouseOptions, openPdf } from "@/lib/utils";
 import { useAuthStore } from "@/stores/auth-store";
 import { useReceptionStore } from "@/stores/reception-store";
 import type {
+	ApprovalStatus,
 	ProductCatalogItem,
 	ProductCatalogResponse,
 	ReplenishmentOrderDetail,
 	ReplenishmentOrdersResponse,
+	TransferStatus,
 	WarehouseMap,
 	WarehouseTransferDetails,
 } from "@/types";
+import { TransferDiscrepanciesCard } from "./transfer-discrepancies";
+import { TransferScanCard } from "./transfer-scan-card";
 
 // =============================
 // Component
@@ -70,6 +85,24 @@ interface PageProps {
 
 type APIResponse = WarehouseTransferDetails | null;
 
+type TransferAction = {
+	status: TransitionTransferPayload["status"];
+	label: string;
+};
+
+/**
+ * Next step of the dispatch flow offered at the source warehouse for each
+ * state; closing is done at the destination once the transfer is received.
+ */
+const nextSourceAction: Partial<Record<TransferStatus, TransferAction>> = {
+	draft: { status: "picked", label: "Surtir" },
+	picked: { status: "dispatched", label: "Despachar" },
+	dispatched: { status: "in_transit", label: "Marcar en tránsito" },
+};
+
+/** States that can still be cancelled, before the goods leave */
+const cancellableStatuses: TransferStatus[] = ["draft", "picked", "dispatched"];
+
 const parseBarcode = (value: unknown): number | null => {
 	if (typeof value === "number" && Number.isFinite(value)) {
 		return value;
@@ -166,6 +199,16 @@ export function ReceptionDetailPage({
 	// Mutations for updating transfer and item statuses
 	const { mutateAsync: updateTransferStatus } = useUpdateTransferStatus();
 	const { mutateAsync: updateItemStatus } = useUpdateTransferItemStatus();
+	const { mutateAsync: transitionTransfer, isPending: isTransitioning } =
+		useTransitionTransfer();
+
+	const { data: myPermissionsResponse } = useQuery({
+		queryKey: queryKeys.myPermissions,
+		queryFn: getMyPermissions,
+	});
+	const myPermissions = myPermissionsResponse?.success
+		? myPermissionsResponse.data.permissions
+		: [];
 
 	// Seed store with derived items when data changes
 	useEffect(() => {
@@ -181,10 +224,83 @@ export function ReceptionDetailPage({
 			? transferDetails.data.transfer
 			: null;
 	}, [transferDetails]);
-	const canReceiveTransfer =
+	// Transfers held or refused by the approval workflow cannot be received
+	const approvalBadge = generalTransferDetails
+		? approvalStatusBadges[generalTransferDetails.approvalStatus as ApprovalStatus]
+		: undefined;
+	const transferStatus = isTransferStatus(generalTransferDetails?.status)
+		? generalTransferDetails.status
+		: null;
+	const statusBadge = transferStatus
+		? transferStatusBadges[transferStatus]
+		: undefined;
+	const isDestinationUser =
 		user?.role === "admin" ||
 		(warehouseId &&
 			generalTransferDetails?.destinationWarehouseId === warehouseId);
+	const isSourceUser =
+		user?.role === "admin" ||
+		(warehouseId && generalTransferDetails?.sourceWarehouseId === warehouseId);
+	// Items can only be received once the transfer is on the road
+	const canReceiveTransfer =
+		!approvalBadge && transferStatus === "in_transit" && isDestinationUser;
+	const canResolveDiscrepancies =
+		!approvalBadge &&
+		(transferStatus === "in_transit" || transferStatus === "received") &&
+		isDestinationUser;
+
+	const canDispatch = myPermissions.includes("transfers.dispatch");
+	const canComplete = myPermissions.includes("transfers.complete");
+	const transferActions: TransferAction[] = [];
+	if (transferStatus && canDispatch) {
+		const sourceAction = nextSourceAction[transferStatus];
+		if (sourceAction && isSourceUser) {
+			transferActions.push(sourceAction);
+		}
+		if (transferStatus === "received" && isDestinationUser && canComplete) {
+			transferActions.push({ status: "closed", label: "Cerrar recepción" });
+		}
+	}
+	const canCancelTransfer =
+		transferStatus !== null &&
+		cancellableStatuses.includes(transferStatus) &&
+		canDispatch &&
+		canComplete &&
+		isSourceUser;
+
+	const handleTransition = async (
+		status: TransitionTransferPayload["status"],
+	) => {
+		if (!generalTransferDetails?.id) {
+			return;
+		}
+		try {
+			await transitionTransfer({
+				transferId: generalTransferDetails.id,
+				status,
+			});
+		} catch {
+			// The mutation already shows the error toast
+		}
+	};
+
+	const [isPrintingManifest, setIsPrintingManifest] = useState(false);
+	const handlePrintManifest = async () => {
+		if (!generalTransferDetails?.id) {
+			return;
+		}
+		setIsPrintingManifest(true);
+		const manifest = await getTransferManifestPdf(generalTransferDetails.id);
+		setIsPrintingManifest(false);
+		if (!manifest) {
+			toast.error("No se pudo generar el manifiesto");
+			return;
+		}
+		openPdf(
+			manifest,
+			`manifiesto_${generalTransferDetails.transferNumber ?? shipmentId}.pdf`,
+		);
+	};
 
 	// Find the replenishment order ID linked to this transfer
 	const linkedOrderId = useMemo(() => {
@@ -442,9 +558,10 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 		}
 	};
 
+	// Resolves to whether the item status was saved; a failed save undoes the toggle
 	const handleToggleItem = async (itemId: string, nextReceived: boolean) => {
 		if (!canReceiveTransfer) {
-			return;
+			return false;
 		}
 		toggleReceived(itemId);
 		try {
@@ -454,7 +571,13 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 				receivedBy: user?.id,
 			};
 			await updateItemStatus(payload);
+		} catch {
+			toggleReceived(itemId);
+			toast.error("No se pudo actualizar el estado del ítem");
+			return false;
+		}
 
+		try {
 			const allReceived = getReceivedCount() === getTotalCount();
 			const generalPayload: UpdateTransferStatusPayload = {
 				transferId: String(generalTransferDetails?.id ?? ""),
@@ -465,8 +588,9 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 			};
 			await updateTransferStatus(generalPayload);
 		} catch {
-			toast.error("No se pudo actualizar el estado del ítem");
+			toast.error("No se pudo actualizar el estado del traspaso");
 		}
+		return true;
 	};
 
 	const receivedCount = getReceivedCount();
@@ -503,8 +627,27 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 						{generalTransferDetails?.transferNumber || shipmentId}
 					</h1>
 					<p className="text-[#687076] text-transition dark:text-[#9BA1A6]">
-						Marca los artículos como recibidos
+						Escanea o marca los artículos como recibidos
 					</p>
+					{(approvalBadge || statusBadge) && (
+						<div className="flex flex-wrap items-center gap-2">
+							{statusBadge && (
+								<Badge className={statusBadge.className} variant="secondary">
+									{statusBadge.label}
+								</Badge>
+							)}
+							{approvalBadge && (
+								<Badge className={approvalBadge.className} variant="secondary">
+									{approvalBadge.label}
+								</Badge>
+							)}
+							{generalTransferDetails?.approvalComment && (
+								<span className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+									{generalTransferDetails.approvalComment}
+								</span>
+							)}
+						</div>
+					)}
 					<p className="text-[#687076] text-sm text-transition dark:text-[#9BA1A6]">
 						Almacén de Origen:{" "}
 						{warehouseOptions.find((option) => option.id === warehouseId)?.name}
@@ -520,14 +663,44 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 					</p>
 				</div>
 
-				<Button
-					className="theme-transition bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90 disabled:opacity-50"
-					disabled={isAllReceived() || !canReceiveTransfer}
-					onClick={handleMarkAllReceived}
-				>
-					<CheckCircle2 className="mr-2 h-4 w-4" />
-					Terminar recepción
-				</Button>
+				<div className="flex flex-wrap gap-2">
+					{transferActions.map((action) => (
+						<Button
+							className="theme-transition bg-[#E85D04] text-white hover:bg-[#E85D04]/90 disabled:opacity-50"
+							disabled={isTransitioning}
+							key={action.status}
+							onClick={() => handleTransition(action.status)}
+						>
+							<Truck className="mr-2 h-4 w-4" />
+							{action.label}
+						</Button>
+					))}
+					<Button
+						disabled={isPrintingManifest || !generalTransferDetails?.id}
+						onClick={handlePrintManifest}
+						variant="outline"
+					>
+						<Printer className="mr-2 h-4 w-4" />
+						Imprimir manifiesto
+					</Button>
+					{canCancelTransfer && (
+						<Button
+							disabled={isTransitioning}
+							onClick={() => handleTransition("cancelled")}
+							variant="destructive"
+						>
+							Cancelar
+						</Button>
+					)}
+					<Button
+						className="theme-transition bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90 disabled:opacity-50"
+						disabled={isAllReceived() || !canReceiveTransfer}
+						onClick={handleMarkAllReceived}
+					>
+						<CheckCircle2 className="mr-2 h-4 w-4" />
+						Terminar recepción
+					</Button>
+				</div>
 			</div>
 
 			{/* Progress Card */}
@@ -731,6 +904,13 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 				</Card>
 			)}
 
+			{canReceiveTransfer && (
+				<TransferScanCard
+					items={items}
+					onReceiveItem={(itemId) => handleToggleItem(itemId, true)}
+				/>
+			)}
+
 			{/* Items Table */}
 			<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
 				<CardHeader>
@@ -855,6 +1035,12 @@ const { data: fullOrderResponse } = useSuspenseQuery<
 					</div>
 				</CardContent>
 			</Card>
+			{generalTransferDetails?.transferType === "external" && (
+				<TransferDiscrepanciesCard
+					canResolve={Boolean(canResolveDiscrepancies)}
+					transferId={String(generalTransferDetails.id)}
+				/>
+			)}
 			<div className="flex justify-end">
 				<Button onClick={() => router.back()}>
 					<ArrowLeft className="mr-2 h-4 w-4" />
@@ -0,0 +1,272 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { getTransferDiscrepancies } from "@/lib/fetch-functions/recepciones";
+import { createQueryKey } from "@/lib/helpers";
+import { useResolveTransferDiscrepancies } from "@/lib/mutations/transfers";
+import { queryKeys } from "@/lib/query-keys";
+import type {
+	TransferDiscrepancyItem,
+	TransferDiscrepancyOutcome,
+} from "@/types";
+
+const outcomeLabel: Record<TransferDiscrepancyOutcome, string> = {
+	return_to_source: "Devolver al origen",
+	damaged: "Dar de baja por daño",
+	in_transit: "En tránsito",
+	found: "Encontrado",
+};
+
+const kindLabel: Record<TransferDiscrepancyItem["kind"], string> = {
+	missing: "Faltante",
+	damaged: "Dañado",
+};
+
+type Draft = { outcome?: TransferDiscrepancyOutcome; notes: string };
+
+/**
+ * Items that still accept an outcome: unresolved items of an open transfer and items left
+ * in transit, even after the transfer is completed.
+ */
+const isResolvable = (item: TransferDiscrepancyItem, isCompleted: boolean) =>
+	item.outcome === "in_transit" || (item.outcome === null && !isCompleted);
+
+/**
+ * Lists the missing and damaged items of an external transfer and lets the receiver pick
+ * what happened to each one. Every outcome becomes a stock movement on the API.
+ *
+ * @param transferId - The transfer being received
+ * @param canResolve - Whether the user can receive the transfer
+ */
+export function TransferDiscrepanciesCard({
+	transferId,
+	canResolve,
+}: {
+	transferId: string;
+	canResolve: boolean;
+}) {
+	const { data: discrepancyResponse } = useQuery({
+		queryKey: createQueryKey(queryKeys.transferDiscrepancies, [transferId]),
+		queryFn: () => getTransferDiscrepancies(transferId),
+		enabled: Boolean(transferId),
+	});
+	const resolveDiscrepancies = useResolveTransferDiscrepancies();
+	const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+
+	const report = discrepancyResponse?.data;
+	if (!report || report.items.length === 0) {
+		return null;
+	}
+
+	const updateDraft = (transferDetailId: string, patch: Partial<Draft>) => {
+		setDrafts((current) => ({
+			...current,
+			[transferDetailId]: {
+				...current[transferDetailId],
+				notes: current[transferDetailId]?.notes ?? "",
+				...patch,
+			},
+		}));
+	};
+
+	const pendingResolutions = report.items.flatMap((item) => {
+		const outcome = drafts[item.transferDetailId]?.outcome;
+		if (!outcome || !isResolvable(item, report.isCompleted)) {
+			return [];
+		}
+		const notes = drafts[item.transferDetailId]?.notes.trim();
+		return [
+			{
+				transferDetailId: item.transferDetailId,
+				outcome,
+				...(notes ? { notes } : {}),
+			},
+		];
+	});
+
+	const handleResolve = async () => {
+		if (pendingResolutions.length === 0) {
+			return;
+		}
+		try {
+			await resolveDiscrepancies.mutateAsync({
+				transferId,
+				items: pendingResolutions,
+			});
+			setDrafts({});
+		} catch {
+			// The mutation already shows the error toast
+		}
+	};
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader>
+				<div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+					<div className="space-y-1">
+						<CardTitle className="flex items-center gap-2 text-[#11181C] text-transition dark:text-[#ECEDEE]">
+							<AlertTriangle className="h-5 w-5 text-[#E85D04]" />
+							Discrepancias
+						</CardTitle>
+						<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+							{`${report.summary.missingItems} faltante(s), ${report.summary.damagedItems} dañado(s), ${report.summary.unresolvedItems} sin resolver`}
+						</CardDescription>
+					</div>
+					{canResolve && (
+						<Button
+							className="theme-transition bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90 disabled:opacity-50"
+							disabled={
+								pendingResolutions.length === 0 ||
+								resolveDiscrepancies.isPending
+							}
+							onClick={handleResolve}
+						>
+							Registrar resultado
+						</Button>
+					)}
+				</div>
+			</CardHeader>
+			<CardContent>
+				<div className="theme-transition rounded-md border border-[#E5E7EB] dark:border-[#2D3033]">
+					<Table>
+						<TableHeader>
+							<TableRow className="border-[#E5E7EB] border-b dark:border-[#2D3033]">
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Producto
+								</TableHead>
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Tipo
+								</TableHead>
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Resultado
+								</TableHead>
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Notas
+								</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{report.items.map((item) => {
+								const draft = drafts[item.transferDetailId];
+								const editable =
+									canResolve && isResolvable(item, report.isCompleted);
+								const outcomes = (
+									Object.keys(outcomeLabel) as TransferDiscrepancyOutcome[]
+								).filter(
+									(outcome) =>
+										outcome !== item.outcome &&
+										(outcome !== "found" || item.kind === "missing"),
+								);
+
+								return (
+									<TableRow
+										className="theme-transition border-[#E5E7EB] border-b dark:border-[#2D3033]"
+										key={item.transferDetailId}
+									>
+										<TableCell className="text-[#11181C] dark:text-[#ECEDEE]">
+											<p>{item.description ?? `Producto ${item.barcode}`}</p>
+											<p className="font-mono text-[#687076] text-xs dark:text-[#9BA1A6]">
+												{item.barcode} • {item.productStockId}
+											</p>
+										</TableCell>
+										<TableCell>
+											<Badge
+												className={
+													item.kind === "damaged"
+														? "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+														: "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400"
+												}
+												variant="secondary"
+											>
+												{kindLabel[item.kind]}
+											</Badge>
+										</TableCell>
+										<TableCell className="space-y-2">
+											{item.outcome ? (
+												<Badge variant="outline">
+													{outcomeLabel[item.outcome]}
+												</Badge>
+											) : (
+												!editable && (
+													<span className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+														{report.isCompleted && item.kind === "missing"
+															? "Registrado como faltante"
+															: "Sin resolver"}
+													</span>
+												)
+											)}
+											{editable && (
+												<Select
+													onValueChange={(value) =>
+														updateDraft(item.transferDetailId, {
+															outcome: value as TransferDiscrepancyOutcome,
+														})
+													}
+													value={draft?.outcome ?? ""}
+												>
+													<SelectTrigger className="w-56">
+														<SelectValue placeholder="Elegir resultado" />
+													</SelectTrigger>
+													<SelectContent>
+														{outcomes.map((outcome) => (
+															<SelectItem key={outcome} value={outcome}>
+																{outcomeLabel[outcome]}
+															</SelectItem>
+														))}
+													</SelectContent>
+												</Select>
+											)}
+										</TableCell>
+										<TableCell className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+											{editable ? (
+												<Input
+													maxLength={500}
+													onChange={(event) =>
+														updateDraft(item.transferDetailId, {
+															notes: event.target.value,
+														})
+													}
+													placeholder={item.notes ?? "Nota opcional"}
+													value={draft?.notes ?? ""}
+												/>
+											) : (
+												(item.notes ?? item.itemNotes ?? "—")
+											)}
+										</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+					</Table>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
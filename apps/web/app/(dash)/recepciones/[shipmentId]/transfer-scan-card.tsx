@@ -0,0 +1,345 @@
+"use client";
+
+import { Camera, CameraOff, ScanLine } from "lucide-react";
+import {
+	type FormEvent,
+	useEffect,
+	useEffectEvent,
+	useRef,
+	useState,
+} from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { type ParsedScan, parseScanValue } from "@/lib/utils";
+import type { ReceptionItem } from "@/types";
+
+type ScanResult =
+	| "received"
+	| "already_received"
+	| "failed"
+	| "foreign"
+	| "invalid";
+
+const scanResultLabel: Record<ScanResult, string> = {
+	received: "Recibido",
+	already_received: "Ya recibido",
+	failed: "No se pudo recibir; vuelve a escanear",
+	foreign: "No pertenece al traspaso",
+	invalid: "Código no reconocido",
+};
+
+type ForeignScan = { key: string; barcode: number; uuid?: string };
+
+// The Barcode Detection API is not in the DOM typings yet
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = {
+	detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+type BarcodeDetectorConstructor = new (options?: {
+	formats?: string[];
+}) => BarcodeDetectorInstance;
+
+/** Unit QR labels plus the product barcodes printed on the boxes */
+const CAMERA_FORMATS = ["qr_code", "ean_13", "ean_8", "upc_a", "code_128"];
+/** How often a camera frame is checked for codes */
+const CAMERA_SCAN_INTERVAL_MS = 300;
+/** The camera sees the same code on many frames; ignore repeats for this long */
+const CAMERA_REPEAT_MS = 2500;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null =>
+	typeof window !== "undefined" && "BarcodeDetector" in window
+		? (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor })
+				.BarcodeDetector
+		: null;
+
+/**
+ * Finds the transfer unit a scan refers to. A unit QR must match both the
+ * UUID and the barcode; a plain barcode takes the first unit of that product
+ * that is not received yet.
+ */
+const findScannedItem = (
+	items: ReceptionItem[],
+	scan: ParsedScan,
+	claimedIds: Set<string>,
+): ReceptionItem | undefined => {
+	if (scan.uuid) {
+		return items.find(
+			(item) =>
+				item.productStockId === scan.uuid &&
+				item.productBarcode === scan.barcode,
+		);
+	}
+	const sameProduct = items.filter(
+		(item) => item.productBarcode === scan.barcode,
+	);
+	return (
+		sameProduct.find(
+			(item) => !item.isReceived && !claimedIds.has(item.id),
+		) ?? sameProduct[0]
+	);
+};
+
+/**
+ * Receives a transfer by scanning the unit QR labels, from a keyboard-wedge
+ * USB scanner or the browser camera. Each unit of the transfer is marked
+ * received once; units that do not belong to it are listed as a warning.
+ *
+ * @param items - Units of the transfer, from the reception store
+ * @param onReceiveItem - Marks a transfer detail as received; resolves to false when it fails
+ */
+export function TransferScanCard({
+	items,
+	onReceiveItem,
+}: {
+	items: ReceptionItem[];
+	onReceiveItem: (itemId: string) => Promise<boolean>;
+}) {
+	const [scanValue, setScanValue] = useState("");
+	const [lastScan, setLastScan] = useState<string | null>(null);
+	const [scannedIds, setScannedIds] = useState<string[]>([]);
+	const [foreignScans, setForeignScans] = useState<ForeignScan[]>([]);
+	const [isCameraOn, setIsCameraOn] = useState(false);
+	const inputRef = useRef<HTMLInputElement>(null);
+	const videoRef = useRef<HTMLVideoElement>(null);
+	// Units claimed by a scan whose mutation may not have updated `items` yet
+	const claimedIdsRef = useRef(new Set<string>());
+
+	const handleScanValue = async (value: string) => {
+		const scan = parseScanValue(value);
+		if (!scan) {
+			setLastScan(scanResultLabel.invalid);
+			return;
+		}
+		const code = scan.uuid ?? String(scan.barcode);
+		const item = findScannedItem(items, scan, claimedIdsRef.current);
+		if (!item) {
+			setForeignScans((current) =>
+				current.some((foreign) => foreign.key === code)
+					? current
+					: [...current, { key: code, ...scan }],
+			);
+			setLastScan(`${code}: ${scanResultLabel.foreign}`);
+			toast.warning(`La unidad ${code} no pertenece a este traspaso`);
+			return;
+		}
+
+		setScannedIds((current) =>
+			current.includes(item.id) ? current : [...current, item.id],
+		);
+		if (item.isReceived || claimedIdsRef.current.has(item.id)) {
+			setLastScan(`${code}: ${scanResultLabel.already_received}`);
+			return;
+		}
+		claimedIdsRef.current.add(item.id);
+		setLastScan(`${code}: ${scanResultLabel.received}`);
+		if (!(await onReceiveItem(item.id))) {
+			// Release the unit so the next scan retries it
+			claimedIdsRef.current.delete(item.id);
+			setScannedIds((current) => current.filter((id) => id !== item.id));
+			setLastScan(`${code}: ${scanResultLabel.failed}`);
+		}
+	};
+	// Reads the latest items without restarting the camera on every render
+	const onCameraScan = useEffectEvent(handleScanValue);
+
+	const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const value = scanValue;
+		setScanValue("");
+		inputRef.current?.focus();
+		if (value.trim()) {
+			await handleScanValue(value);
+		}
+	};
+
+	const handleToggleCamera = () => {
+		if (!isCameraOn && !getBarcodeDetector()) {
+			toast.error(
+				"Este navegador no puede leer códigos con la cámara; usa un lector USB",
+			);
+			return;
+		}
+		setIsCameraOn((current) => !current);
+	};
+
+	useEffect(() => {
+		if (!isCameraOn) {
+			return;
+		}
+		const BarcodeDetector = getBarcodeDetector();
+		if (!BarcodeDetector) {
+			return;
+		}
+
+		let stream: MediaStream | null = null;
+		let interval: ReturnType<typeof setInterval> | null = null;
+		let isStopped = false;
+		const lastSeen = new Map<string, number>();
+		const detector = new BarcodeDetector({ formats: CAMERA_FORMATS });
+
+		const start = async () => {
+			try {
+				stream = await navigator.mediaDevices.getUserMedia({
+					video: { facingMode: "environment" },
+				});
+			} catch {
+				toast.error("No se pudo abrir la cámara");
+				setIsCameraOn(false);
+				return;
+			}
+			const video = videoRef.current;
+			if (isStopped || !video) {
+				for (const track of stream.getTracks()) {
+					track.stop();
+				}
+				return;
+			}
+			video.srcObject = stream;
+			await video.play().catch(() => undefined);
+			if (isStopped) {
+				return;
+			}
+			interval = setInterval(async () => {
+				if (video.readyState < 2) {
+					return;
+				}
+				const codes = await detector.detect(video).catch(() => []);
+				const now = Date.now();
+				for (const { rawValue } of codes) {
+					if (now - (lastSeen.get(rawValue) ?? 0) < CAMERA_REPEAT_MS) {
+						continue;
+					}
+					lastSeen.set(rawValue, now);
+					await onCameraScan(rawValue);
+				}
+			}, CAMERA_SCAN_INTERVAL_MS);
+		};
+		start();
+
+		return () => {
+			isStopped = true;
+			if (interval) {
+				clearInterval(interval);
+			}
+			for (const track of stream?.getTracks() ?? []) {
+				track.stop();
+			}
+		};
+	}, [isCameraOn]);
+
+	const expectedCount = items.length;
+	const scannedCount = scannedIds.length;
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader>
+				<div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+					<div className="space-y-1">
+						<CardTitle className="flex items-center gap-2 text-[#11181C] text-transition dark:text-[#ECEDEE]">
+							<ScanLine className="h-5 w-5 text-[#0a7ea4]" />
+							Escanear para recibir
+						</CardTitle>
+						<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+							Escanea la etiqueta QR de cada unidad con el lector o la cámara
+						</CardDescription>
+					</div>
+					<div className="flex flex-wrap items-center gap-2">
+						<Badge
+							className="theme-transition bg-[#0a7ea4]/10 text-[#0a7ea4] hover:bg-[#0a7ea4]/20"
+							variant="secondary"
+						>
+							{`Escaneadas ${scannedCount} / ${expectedCount} esperadas`}
+						</Badge>
+						{foreignScans.length > 0 && (
+							<Badge
+								className="theme-transition bg-orange-100 text-orange-800 hover:bg-orange-200 dark:bg-orange-900/20 dark:text-orange-400"
+								variant="secondary"
+							>
+								{`${foreignScans.length} ajena(s)`}
+							</Badge>
+						)}
+					</div>
+				</div>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<form className="grid gap-4 md:grid-cols-4" onSubmit={handleSubmit}>
+					<div className="grid gap-2 md:col-span-2">
+						<Label htmlFor="transfer-scan">Código QR o de barras</Label>
+						<Input
+							autoComplete="off"
+							autoFocus
+							id="transfer-scan"
+							onChange={(event) => setScanValue(event.target.value)}
+							placeholder="Escanea o escribe el código y presiona Enter"
+							ref={inputRef}
+							value={scanValue}
+						/>
+					</div>
+					<div className="flex items-end">
+						<Button
+							className="w-full bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+							disabled={!scanValue.trim()}
+							type="submit"
+						>
+							Registrar
+						</Button>
+					</div>
+					<div className="flex items-end">
+						<Button
+							className="w-full"
+							onClick={handleToggleCamera}
+							type="button"
+							variant="outline"
+						>
+							{isCameraOn ? (
+								<CameraOff className="mr-2 h-4 w-4" />
+							) : (
+								<Camera className="mr-2 h-4 w-4" />
+							)}
+							{isCameraOn ? "Apagar cámara" : "Usar cámara"}
+						</Button>
+					</div>
+				</form>
+				{isCameraOn && (
+					<video
+						className="aspect-video w-full max-w-md rounded-lg bg-black object-cover"
+						muted
+						playsInline
+						ref={videoRef}
+					/>
+				)}
+				{lastScan && (
+					<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+						Último escaneo: {lastScan}
+					</p>
+				)}
+				{foreignScans.length > 0 && (
+					<div className="space-y-2 rounded-lg border border-orange-200 bg-orange-50 p-3 dark:border-orange-900/40 dark:bg-orange-900/10">
+						<p className="font-medium text-orange-800 text-sm dark:text-orange-400">
+							Unidades que no pertenecen a este traspaso
+						</p>
+						<ul className="space-y-1 text-[#687076] text-xs dark:text-[#9BA1A6]">
+							{foreignScans.map((foreign) => (
+								<li key={foreign.key}>
+									{foreign.uuid
+										? `${foreign.barcode} · ${foreign.uuid}`
+										: `${foreign.barcode}`}
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -35,6 +35,14 @@ import {
 } from "react";
 import { toast } from "sonner";
 import { useShallow } from "zustand/shallow";
+import {
+	ApprovalQueue,
+	approvalStatusBadges,
+} from "@/components/approvals/ApprovalQueue";
+import {
+	isTransferStatus,
+	transferStatusBadges,
+} from "@/components/recepciones/transfer-status-badges";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar as CalendarPicker } from "@/components/ui/calendar";
@@ -79,6 +87,7 @@ import { useCreateTransferOrder } from "@/lib/mutations/transfers";
 import { queryKeys } from "@/lib/query-keys";
 import {
 	cn,
+	compareFefo,
 	createWarehouseOptions,
 	isRecord,
 	toRecord,
@@ -87,10 +96,12 @@ import {
 import { useAuthStore } from "@/stores/auth-store";
 import { useReceptionStore } from "@/stores/reception-store";
 import type {
+	ApprovalStatus,
 	ProductCatalogItem,
 	ProductCatalogResponse,
 	ProductStockWithEmployee,
 	ReplenishmentOrdersResponse,
+	TransferStatus,
 	WarehouseMap,
 	WarehouseTransfer,
 } from "@/types";
@@ -115,6 +126,8 @@ type ProductItemOption = {
 	productName: string;
 	barcode: number;
 	description: string;
+	lotNumber: string | null;
+	expiresAt: string | null;
 };
 
 const TransferCreateDialog = dynamic(
@@ -145,6 +158,7 @@ interface TransferListItemShape {
 	isCompleted?: boolean;
 	isPending?: boolean;
 	isCancelled?: boolean;
+	approvalStatus?: ApprovalStatus;
 	transferStatus?: string;
 	transferDetails?: readonly TransferDetailItem[] | TransferDetailItem[];
 	scheduledDate?: string;
@@ -565,6 +579,8 @@ const createProductOptions = (
 			productName: resolvedName,
 			barcode,
 			description,
+			lotNumber: toStringIfString(productStockRecord.lotNumber) ?? null,
+			expiresAt: toStringIfString(productStockRecord.expiresAt) ?? null,
 		};
 
 		lookup.set(productStockId, itemOption);
@@ -584,10 +600,13 @@ const createProductOptions = (
 	const productGroups = Array.from(groups.values())
 		.map((group) => ({
 			...group,
-			items: group.items.sort((a, b) =>
-				a.productStockId.localeCompare(b.productStockId, "es", {
-					sensitivity: "base",
-				}),
+			// First-expiring units first so the suggested pick is at the top (FEFO)
+			items: group.items.sort(
+				(a, b) =>
+					compareFefo(a, b) ||
+					a.productStockId.localeCompare(b.productStockId, "es", {
+						sensitivity: "base",
+					}),
 			),
 		}))
 		.sort((a, b) =>
@@ -1046,6 +1065,8 @@ export function RecepcionesPage({
 		isCompleted: boolean;
 		isPending: boolean;
 		isCancelled: boolean;
+		approvalStatus: ApprovalStatus;
+		transferStatus: TransferStatus | null;
 		transferType: "internal" | "external";
 		updatedAt: string;
 		relatedOrderId: string | null;
@@ -1130,6 +1151,8 @@ export function RecepcionesPage({
 				isCompleted,
 				isPending,
 				isCancelled,
+				approvalStatus: item.approvalStatus ?? "not_required",
+				transferStatus: isTransferStatus(item.status) ? item.status : null,
 				transferType: normalizedTransferType,
 				updatedAt,
 				relatedOrderId: relatedOrder?.orderId ?? null,
@@ -1322,6 +1345,45 @@ export function RecepcionesPage({
 					const isCompleted = getValue<boolean>();
 					const isPending = row.original.isPending;
 					const relatedOrderNumber = row.original.relatedOrderNumber;
+					const approvalBadge =
+						approvalStatusBadges[row.original.approvalStatus];
+					if (approvalBadge) {
+						return (
+							<div className="flex items-center gap-2">
+								<Badge className={approvalBadge.className} variant="secondary">
+									{approvalBadge.label}
+								</Badge>
+								{relatedOrderNumber && (
+									<Badge
+										className="theme-transition bg-purple-100 text-purple-800 hover:bg-purple-200 dark:bg-purple-900/20 dark:text-purple-400"
+										variant="secondary"
+									>
+										Pedido {relatedOrderNumber}
+									</Badge>
+								)}
+							</div>
+						);
+					}
+					const statusBadge = row.original.transferStatus
+						? transferStatusBadges[row.original.transferStatus]
+						: undefined;
+					if (statusBadge) {
+						return (
+							<div className="flex items-center gap-2">
+								<Badge className={statusBadge.className} variant="secondary">
+									{statusBadge.label}
+								</Badge>
+								{relatedOrderNumber && (
+									<Badge
+										className="theme-transition bg-purple-100 text-purple-800 hover:bg-purple-200 dark:bg-purple-900/20 dark:text-purple-400"
+										variant="secondary"
+									>
+										Pedido {relatedOrderNumber}
+									</Badge>
+								)}
+							</div>
+						);
+					}
 					if (!isPending && !isCompleted) {
 						return (
 							<div className="flex items-center gap-2">
@@ -1628,6 +1690,8 @@ export function RecepcionesPage({
 				</Card>
 			</div>
 
+			<ApprovalQueue kind="transfers" />
+
 			{/* Main data table card */}
 			<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
 				<CardHeader>
@@ -59,6 +59,8 @@ type ProductItemOption = {
 	productName: string;
 	barcode: number;
 	description: string;
+	lotNumber: string | null;
+	expiresAt: string | null;
 };
 
 type DraftItem = {
@@ -4,6 +4,7 @@
 import {
 	BarChart3,
 	Box,
+	ClipboardCheck,
 	Home,
 	LogOut,
 	Package,
@@ -18,6 +19,7 @@ import { useRouter } from "next/navigation";
 import type * as React from "react";
 import { toast } from "sonner";
 import { useShallow } from "zustand/shallow";
+import { NotificationInbox } from "@/components/notifications/NotificationInbox";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
 	DropdownMenu,
@@ -64,6 +66,11 @@ const navigationItems = [
 		url: "/recepciones",
 		icon: Truck,
 	},
+	{
+		title: "Conteos",
+		url: "/conteos",
+		icon: ClipboardCheck,
+	},
 	{
 		title: "Emplead@s",
 		url: "/kits",
@@ -156,6 +163,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
 			</SidebarContent>
 			<SidebarFooter>
 				<SidebarMenu>
+					<NotificationInbox />
 					<SidebarMenuItem>
 						<DropdownMenu>
 							<DropdownMenuTrigger asChild>
@@ -0,0 +1,255 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { getAllWarehouses } from "@/lib/fetch-functions/inventory";
+import { getMyPermissions } from "@/lib/fetch-functions/permissions";
+import { getWarehouseTransferPage } from "@/lib/fetch-functions/recepciones";
+import { getReplenishmentOrders } from "@/lib/fetch-functions/replenishment-orders";
+import { createQueryKey } from "@/lib/helpers";
+import { useDecideReplenishmentOrderApproval } from "@/lib/mutations/replenishment-orders";
+import { useDecideTransferApproval } from "@/lib/mutations/transfers";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApprovalStatus } from "@/types";
+
+/**
+ * Badge shown next to the regular status of transfers and orders held by (or
+ * refused in) the approval workflow.
+ */
+export const approvalStatusBadges: Partial<
+	Record<ApprovalStatus, { label: string; className: string }>
+> = {
+	awaiting_approval: {
+		label: "Por aprobar",
+		className:
+			"theme-transition bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900/20 dark:text-amber-400",
+	},
+	rejected: {
+		label: "Rechazado",
+		className:
+			"theme-transition bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/20 dark:text-red-400",
+	},
+};
+
+type ApprovalQueueKind = "transfers" | "orders";
+
+type QueueItem = {
+	id: string;
+	number: string;
+	sourceWarehouseId: string;
+	destinationWarehouseId: string;
+	createdAt: string | null;
+};
+
+const queueTitle: Record<ApprovalQueueKind, string> = {
+	transfers: "Traspasos por aprobar",
+	orders: "Pedidos por aprobar",
+};
+
+/**
+ * Queue of transfers or replenishment orders into warehouses that require
+ * approval. Only rendered for users with `approvals.decide`; rejecting needs a
+ * comment, which is stored with the decision.
+ *
+ * @param kind - Whether the queue lists transfers or replenishment orders
+ */
+export function ApprovalQueue({ kind }: { kind: ApprovalQueueKind }) {
+	const { data: permissionsResponse } = useQuery({
+		queryKey: queryKeys.myPermissions,
+		queryFn: getMyPermissions,
+	});
+	const canDecide = permissionsResponse?.success
+		? permissionsResponse.data.permissions.includes("approvals.decide")
+		: false;
+
+	const { data: warehousesResponse } = useQuery({
+		queryKey: queryKeys.warehouses,
+		queryFn: getAllWarehouses,
+		enabled: canDecide,
+	});
+	const { data: items = [] } = useQuery({
+		queryKey: createQueryKey(queryKeys.approvalQueue, [kind]),
+		queryFn: async (): Promise<QueueItem[]> => {
+			if (kind === "transfers") {
+				const response = await getWarehouseTransferPage({
+					status: "awaiting_approval",
+				});
+				return response?.success
+					? response.data.map((transfer) => ({
+							id: transfer.id,
+							number: transfer.transferNumber,
+							sourceWarehouseId: transfer.sourceWarehouseId,
+							destinationWarehouseId: transfer.destinationWarehouseId,
+							createdAt: transfer.createdAt,
+						}))
+					: [];
+			}
+			const response = await getReplenishmentOrders({
+				status: "awaiting_approval",
+			});
+			return response?.success
+				? response.data.map((order) => ({
+						id: order.id,
+						number: order.orderNumber,
+						// Orders travel from the CEDIS to the requesting warehouse
+						sourceWarehouseId: order.cedisWarehouseId,
+						destinationWarehouseId: order.sourceWarehouseId,
+						createdAt: order.createdAt,
+					}))
+				: [];
+		},
+		enabled: canDecide,
+	});
+
+	const decideTransfer = useDecideTransferApproval();
+	const decideOrder = useDecideReplenishmentOrderApproval();
+	const [comments, setComments] = useState<Record<string, string>>({});
+
+	if (!canDecide || items.length === 0) {
+		return null;
+	}
+
+	const warehouseName = (warehouseId: string) =>
+		(warehousesResponse?.success
+			? warehousesResponse.data.find(
+					(warehouse) => warehouse.id === warehouseId,
+				)?.name
+			: undefined) ?? warehouseId;
+	const isDeciding = decideTransfer.isPending || decideOrder.isPending;
+
+	const handleDecision = async (
+		id: string,
+		decision: "approve" | "reject",
+	) => {
+		const comment = comments[id]?.trim();
+		const json = { decision, ...(comment ? { comment } : {}) };
+		try {
+			if (kind === "transfers") {
+				await decideTransfer.mutateAsync({ transferId: id, ...json });
+			} else {
+				await decideOrder.mutateAsync({ param: { id }, json });
+			}
+			setComments((current) => {
+				const next = { ...current };
+				delete next[id];
+				return next;
+			});
+		} catch {
+			// The mutation already shows the error toast
+		}
+	};
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-[#11181C] text-transition dark:text-[#ECEDEE]">
+					<ShieldCheck className="h-5 w-5 text-[#E85D04]" />
+					{queueTitle[kind]}
+				</CardTitle>
+				<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+					{`${items.length} esperando aprobación. Para rechazar escribe el motivo.`}
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<div className="theme-transition rounded-md border border-[#E5E7EB] dark:border-[#2D3033]">
+					<Table>
+						<TableHeader>
+							<TableRow className="border-[#E5E7EB] border-b dark:border-[#2D3033]">
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Folio
+								</TableHead>
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Ruta
+								</TableHead>
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Creado
+								</TableHead>
+								<TableHead className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Comentario
+								</TableHead>
+								<TableHead className="text-right font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									Decisión
+								</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{items.map((item) => {
+								const comment = comments[item.id] ?? "";
+								return (
+									<TableRow
+										className="theme-transition border-[#E5E7EB] border-b dark:border-[#2D3033]"
+										key={item.id}
+									>
+										<TableCell className="font-mono text-[#11181C] dark:text-[#ECEDEE]">
+											{item.number}
+										</TableCell>
+										<TableCell className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+											{`${warehouseName(item.sourceWarehouseId)} → ${warehouseName(item.destinationWarehouseId)}`}
+										</TableCell>
+										<TableCell className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+											{item.createdAt
+												? format(new Date(item.createdAt), "dd/MM/yyyy HH:mm")
+												: "—"}
+										</TableCell>
+										<TableCell>
+											<Input
+												maxLength={500}
+												onChange={(event) =>
+													setComments((current) => ({
+														...current,
+														[item.id]: event.target.value,
+													}))
+												}
+												placeholder="Comentario"
+												value={comment}
+											/>
+										</TableCell>
+										<TableCell className="text-right">
+											<div className="flex justify-end gap-2">
+												<Button
+													className="theme-transition bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90 disabled:opacity-50"
+													disabled={isDeciding}
+													onClick={() => handleDecision(item.id, "approve")}
+													size="sm"
+												>
+													Aprobar
+												</Button>
+												<Button
+													disabled={isDeciding || comment.trim().length === 0}
+													onClick={() => handleDecision(item.id, "reject")}
+													size="sm"
+													variant="destructive"
+												>
+													Rechazar
+												</Button>
+											</div>
+										</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+					</Table>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { History } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	type AuditAction,
+	type AuditEntityType,
+	getAuditLogs,
+} from "@/lib/fetch-functions/audit";
+import { createQueryKey } from "@/lib/helpers";
+import { queryKeys } from "@/lib/query-keys";
+
+type AuditLogItem = {
+	id: string;
+	createdAt: string;
+	actorUserId: string | null;
+	actorRole: string | null;
+	actorName: string | null;
+	actorEmail: string | null;
+	entityType: AuditEntityType;
+	entityId: string;
+	action: AuditAction;
+	before: Record<string, unknown> | null;
+	after: Record<string, unknown> | null;
+	changedFields: string[];
+};
+
+type AuditLogPage = {
+	items: AuditLogItem[];
+	nextCursor: string | null;
+};
+
+/** Sentinel select value for "no filter" */
+const ALL = "all";
+
+/** Changed fields shown per entry before collapsing the rest into a counter */
+const MAX_VISIBLE_CHANGES = 6;
+
+const entityTypeLabel: Record<AuditEntityType, string> = {
+	warehouse: "Bodega",
+	stock_limit: "Límite de stock",
+	user: "Usuario",
+	kit: "Kit",
+	kit_item: "Artículo de kit",
+	warehouse_transfer: "Transferencia",
+	warehouse_transfer_detail: "Artículo de transferencia",
+	replenishment_order: "Pedido de reabastecimiento",
+	role_permissions: "Permisos de rol",
+};
+
+const actionLabel: Record<AuditAction, string> = {
+	create: "Creación",
+	update: "Actualización",
+	delete: "Eliminación",
+	status_change: "Cambio de estado",
+};
+
+const actionBadgeVariant: Record<
+	AuditAction,
+	"default" | "secondary" | "destructive" | "outline"
+> = {
+	create: "default",
+	update: "secondary",
+	delete: "destructive",
+	status_change: "outline",
+};
+
+/**
+ * Formats an ISO date string as "dd/MM/yyyy HH:mm" using the Spanish locale.
+ */
+function formatDateTime(value: string): string {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		return value;
+	}
+	return format(date, "dd/MM/yyyy HH:mm", { locale: es });
+}
+
+/**
+ * Renders a snapshot value compactly for the change list.
+ */
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined || value === "") {
+		return "—";
+	}
+	if (typeof value === "boolean") {
+		return value ? "Sí" : "No";
+	}
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+/**
+ * Extracts the payload of a successful API envelope, or null.
+ */
+function unwrapPage(response: unknown): AuditLogPage | null {
+	if (
+		response &&
+		typeof response === "object" &&
+		"success" in response &&
+		response.success &&
+		"data" in response
+	) {
+		return response.data as AuditLogPage;
+	}
+	return null;
+}
+
+/**
+ * Audit timeline for the Ajustes page.
+ *
+ * Shows who changed warehouses, stock limits, users, kits and transfers, newest first, with the
+ * fields that changed between the before/after snapshots. Filters are applied server-side and
+ * older entries load page by page.
+ */
+export function AuditTimeline() {
+	const [entityType, setEntityType] = useState<AuditEntityType | typeof ALL>(
+		ALL,
+	);
+	const [action, setAction] = useState<AuditAction | typeof ALL>(ALL);
+	const [startDate, setStartDate] = useState("");
+	const [endDate, setEndDate] = useState("");
+
+	const filters = useMemo(
+		() => ({
+			...(entityType !== ALL ? { entityType } : {}),
+			...(action !== ALL ? { action } : {}),
+			...(startDate
+				? { start: new Date(`${startDate}T00:00:00`).toISOString() }
+				: {}),
+			...(endDate ? { end: new Date(`${endDate}T23:59:59.999`).toISOString() } : {}),
+		}),
+		[entityType, action, startDate, endDate],
+	);
+
+	const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } =
+		useInfiniteQuery({
+			queryKey: createQueryKey(queryKeys.auditLogs, [
+				entityType,
+				action,
+				startDate,
+				endDate,
+			]),
+			queryFn: ({ pageParam }) => getAuditLogs(filters, pageParam),
+			initialPageParam: undefined as string | undefined,
+			getNextPageParam: (lastPage) =>
+				unwrapPage(lastPage)?.nextCursor ?? undefined,
+		});
+
+	const entries = useMemo(
+		() => (data?.pages ?? []).flatMap((page) => unwrapPage(page)?.items ?? []),
+		[data],
+	);
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+					<History className="h-5 w-5 text-[#0a7ea4]" />
+					Historial de cambios
+				</CardTitle>
+				<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+					Registro de cambios en bodegas, límites de stock, usuarios, kits y
+					transferencias
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				<div className="grid gap-4 md:grid-cols-4">
+					<div className="grid gap-2">
+						<Label>Entidad</Label>
+						<Select
+							onValueChange={(value) =>
+								setEntityType(value as AuditEntityType | typeof ALL)
+							}
+							value={entityType}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL}>Todas</SelectItem>
+								{Object.entries(entityTypeLabel).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="grid gap-2">
+						<Label>Acción</Label>
+						<Select
+							onValueChange={(value) =>
+								setAction(value as AuditAction | typeof ALL)
+							}
+							value={action}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL}>Todas</SelectItem>
+								{Object.entries(actionLabel).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="grid gap-2">
+						<Label htmlFor="audit-start">Desde</Label>
+						<Input
+							id="audit-start"
+							onChange={(event) => setStartDate(event.target.value)}
+							type="date"
+							value={startDate}
+						/>
+					</div>
+					<div className="grid gap-2">
+						<Label htmlFor="audit-end">Hasta</Label>
+						<Input
+							id="audit-end"
+							onChange={(event) => setEndDate(event.target.value)}
+							type="date"
+							value={endDate}
+						/>
+					</div>
+				</div>
+
+				{isLoading ? (
+					<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+						Cargando historial...
+					</p>
+				) : entries.length === 0 ? (
+					<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+						No hay cambios registrados con estos filtros.
+					</p>
+				) : (
+					<ol className="relative space-y-6 border-[#E5E7EB] border-l pl-6 dark:border-[#2D3033]">
+						{entries.map((entry) => {
+							const visibleChanges = entry.changedFields.slice(
+								0,
+								MAX_VISIBLE_CHANGES,
+							);
+							const hiddenChanges =
+								entry.changedFields.length - visibleChanges.length;
+							return (
+								<li className="relative" key={entry.id}>
+									<span className="-left-[31px] absolute top-1.5 h-2.5 w-2.5 rounded-full bg-[#0a7ea4]" />
+									<div className="flex flex-wrap items-center gap-2">
+										<Badge variant={actionBadgeVariant[entry.action]}>
+											{actionLabel[entry.action]}
+										</Badge>
+										<span className="font-medium text-[#11181C] text-sm dark:text-[#ECEDEE]">
+											{entityTypeLabel[entry.entityType] ?? entry.entityType}
+										</span>
+										<span className="font-mono text-[#687076] text-xs dark:text-[#9BA1A6]">
+											{entry.entityId}
+										</span>
+									</div>
+									<p className="mt-1 text-[#687076] text-xs dark:text-[#9BA1A6]">
+										{formatDateTime(entry.createdAt)} ·{" "}
+										{entry.actorName ?? entry.actorEmail ?? "Sistema"}
+										{entry.actorRole ? ` (${entry.actorRole})` : ""}
+									</p>
+									{entry.action === "create" ? (
+										<p className="mt-2 text-[#11181C] text-sm dark:text-[#ECEDEE]">
+											Registro creado
+										</p>
+									) : visibleChanges.length > 0 ? (
+										<ul className="mt-2 space-y-1 text-sm">
+											{visibleChanges.map((field) => (
+												<li
+													className="text-[#11181C] dark:text-[#ECEDEE]"
+													key={field}
+												>
+													<span className="font-medium">{field}:</span>{" "}
+													<span className="text-[#687076] line-through dark:text-[#9BA1A6]">
+														{formatValue(entry.before?.[field])}
+													</span>{" "}
+													→ {formatValue(entry.after?.[field])}
+												</li>
+											))}
+											{hiddenChanges > 0 ? (
+												<li className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+													+{hiddenChanges} campos más
+												</li>
+											) : null}
+										</ul>
+									) : (
+										<p className="mt-2 text-[#687076] text-sm dark:text-[#9BA1A6]">
+											Sin cambios en los campos
+										</p>
+									)}
+								</li>
+							);
+						})}
+					</ol>
+				)}
+
+				{hasNextPage ? (
+					<Button
+						disabled={isFetchingNextPage}
+						onClick={() => fetchNextPage()}
+						variant="outline"
+					>
+						{isFetchingNextPage ? "Cargando..." : "Cargar más"}
+					</Button>
+				) : null}
+			</CardContent>
+		</Card>
+	);
+}
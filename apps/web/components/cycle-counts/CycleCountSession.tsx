@@ -0,0 +1,422 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Download, ScanLine } from "lucide-react";
+import { type FormEvent, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	type CycleCountStatus,
+	exportCycleCountReportCsv,
+	getCycleCountById,
+} from "@/lib/fetch-functions/cycle-counts";
+import type { MermaReason } from "@/lib/fetch-functions/merma";
+import { createQueryKey } from "@/lib/helpers";
+import {
+	useCancelCycleCount,
+	useCloseCycleCount,
+	useScanCycleCount,
+} from "@/lib/mutations/cycle-counts";
+import { queryKeys } from "@/lib/query-keys";
+import { parseScanValue } from "@/lib/utils";
+
+// Missing units are never written off as expired
+type CloseReason = Exclude<MermaReason, "caducado">;
+
+type VarianceLine = {
+	barcode: number;
+	description: string | null;
+	expected: number;
+	counted: number;
+	missing: number;
+	unexpected: number;
+};
+
+type CycleCountDetail = {
+	id: string;
+	status: CycleCountStatus;
+	notes: string | null;
+	summary: {
+		writtenOffUnits: number;
+		skippedUnits: number;
+		foundUnits: number;
+		// Missing on counts closed before conflicts were reported
+		conflictUnits?: number;
+		createdUnits: number;
+	} | null;
+	variance: {
+		expectedUnits: number;
+		countedUnits: number;
+		missingUnits: number;
+		unexpectedUnits: number;
+		lines: VarianceLine[];
+	};
+};
+
+export const cycleCountStatusLabel: Record<CycleCountStatus, string> = {
+	open: "Abierto",
+	closed: "Cerrado",
+	cancelled: "Cancelado",
+};
+
+const scanResultLabel: Record<string, string> = {
+	counted: "Contado",
+	duplicate: "Ya contado",
+	unexpected: "No esperado",
+};
+
+/** Refresh interval while the count is open, so scans from mobile show up live */
+const LIVE_REFRESH_MS = 5000;
+
+type CycleCountSessionProps = {
+	cycleCountId: string;
+	canCloseCounts: boolean;
+	onBack: () => void;
+};
+
+/**
+ * Scanning session of a cycle count: records scans, shows the live variance by barcode
+ * and lets admin/encargado users close the count (posting adjustments) or cancel it.
+ */
+export function CycleCountSession({
+	cycleCountId,
+	canCloseCounts,
+	onBack,
+}: CycleCountSessionProps) {
+	const [scanValue, setScanValue] = useState("");
+	const [quantity, setQuantity] = useState("1");
+	const [lastScan, setLastScan] = useState<string | null>(null);
+	const [closeReason, setCloseReason] = useState<CloseReason>("otro");
+	const [closeNotes, setCloseNotes] = useState("");
+	const [isExporting, setIsExporting] = useState(false);
+	const scanCycleCount = useScanCycleCount();
+	const closeCycleCount = useCloseCycleCount();
+	const cancelCycleCount = useCancelCycleCount();
+
+	const { data: detailResponse } = useQuery({
+		queryKey: createQueryKey(queryKeys.cycleCountDetail, [cycleCountId]),
+		queryFn: () => getCycleCountById(cycleCountId),
+		refetchInterval: (query) => {
+			const response = query.state.data;
+			const status =
+				response && "data" in response
+					? (response.data as { status?: string }).status
+					: undefined;
+			return status === "open" ? LIVE_REFRESH_MS : false;
+		},
+	});
+
+	const detail = useMemo(() => {
+		if (!(detailResponse && "success" in detailResponse && detailResponse.success)) {
+			return null;
+		}
+		return detailResponse.data as unknown as CycleCountDetail;
+	}, [detailResponse]);
+
+	const isOpen = detail?.status === "open";
+	const lines = useMemo(
+		() =>
+			[...(detail?.variance.lines ?? [])].sort(
+				(first, second) =>
+					second.missing + second.unexpected - (first.missing + first.unexpected),
+			),
+		[detail],
+	);
+
+	const handleScan = async (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const parsed = parseScanValue(scanValue);
+		setScanValue("");
+		if (!parsed) {
+			setLastScan("Código no reconocido");
+			return;
+		}
+		const parsedQuantity = Math.max(Number.parseInt(quantity, 10) || 1, 1);
+		const result = await scanCycleCount.mutateAsync({
+			param: { id: cycleCountId },
+			json: parsed.uuid
+				? { barcode: parsed.barcode, uuid: parsed.uuid }
+				: { barcode: parsed.barcode, quantity: parsedQuantity },
+		});
+		setLastScan(
+			`${parsed.barcode}: ${scanResultLabel[result.data.result] ?? result.data.result}`,
+		);
+		setQuantity("1");
+	};
+
+	const handleClose = () => {
+		closeCycleCount.mutate({
+			param: { id: cycleCountId },
+			json: {
+				reason: closeReason,
+				...(closeNotes.trim() && { notes: closeNotes.trim() }),
+			},
+		});
+	};
+
+	const handleExport = async () => {
+		setIsExporting(true);
+		const csv = await exportCycleCountReportCsv(cycleCountId);
+		setIsExporting(false);
+		if (!csv) {
+			return;
+		}
+		const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+		const url = window.URL.createObjectURL(blob);
+		const anchor = document.createElement("a");
+		anchor.href = url;
+		anchor.download = `conteo_${cycleCountId}.csv`;
+		anchor.click();
+		window.URL.revokeObjectURL(url);
+	};
+
+	const metrics = [
+		{ label: "Esperadas", value: detail?.variance.expectedUnits ?? 0 },
+		{ label: "Contadas", value: detail?.variance.countedUnits ?? 0 },
+		{ label: "Faltantes", value: detail?.variance.missingUnits ?? 0 },
+		{ label: "Sobrantes", value: detail?.variance.unexpectedUnits ?? 0 },
+	];
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-wrap items-center justify-between gap-2">
+				<Button onClick={onBack} variant="ghost">
+					<ArrowLeft className="mr-2 h-4 w-4" />
+					Volver a conteos
+				</Button>
+				<div className="flex items-center gap-2">
+					{detail && (
+						<Badge variant={isOpen ? "default" : "secondary"}>
+							{cycleCountStatusLabel[detail.status]}
+						</Badge>
+					)}
+					<Button
+						disabled={isExporting}
+						onClick={handleExport}
+						size="sm"
+						variant="outline"
+					>
+						<Download className="mr-2 h-4 w-4" />
+						Reporte CSV
+					</Button>
+				</div>
+			</div>
+
+			<div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+				{metrics.map((metric) => (
+					<Card
+						className="card-transition border-[#E5E7EB] bg-[#F9FAFB] dark:border-[#2D3033] dark:bg-[#1E1F20]"
+						key={metric.label}
+					>
+						<CardContent className="p-6">
+							<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+								{metric.label}
+							</p>
+							<p className="font-bold text-2xl text-[#11181C] dark:text-[#ECEDEE]">
+								{metric.value}
+							</p>
+						</CardContent>
+					</Card>
+				))}
+			</div>
+
+			{isOpen && (
+				<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+							<ScanLine className="h-5 w-5 text-[#0a7ea4]" />
+							Escanear
+						</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<form className="grid gap-4 md:grid-cols-4" onSubmit={handleScan}>
+							<div className="grid gap-2 md:col-span-2">
+								<Label htmlFor="cycle-count-scan">Código QR o de barras</Label>
+								<Input
+									autoComplete="off"
+									autoFocus
+									id="cycle-count-scan"
+									onChange={(event) => setScanValue(event.target.value)}
+									placeholder="Escanea o escribe el código y presiona Enter"
+									value={scanValue}
+								/>
+							</div>
+							<div className="grid gap-2">
+								<Label htmlFor="cycle-count-quantity">
+									Cantidad (solo código de barras)
+								</Label>
+								<Input
+									id="cycle-count-quantity"
+									min={1}
+									onChange={(event) => setQuantity(event.target.value)}
+									type="number"
+									value={quantity}
+								/>
+							</div>
+							<div className="flex items-end">
+								<Button
+									className="w-full bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+									disabled={!scanValue.trim() || scanCycleCount.isPending}
+									type="submit"
+								>
+									Registrar
+								</Button>
+							</div>
+						</form>
+						{lastScan && (
+							<p className="mt-3 text-[#687076] text-sm dark:text-[#9BA1A6]">
+								Último escaneo: {lastScan}
+							</p>
+						)}
+					</CardContent>
+				</Card>
+			)}
+
+			<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+				<CardHeader>
+					<CardTitle className="text-[#11181C] dark:text-[#ECEDEE]">
+						Diferencias por producto
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Código</TableHead>
+								<TableHead>Producto</TableHead>
+								<TableHead className="text-right">Esperadas</TableHead>
+								<TableHead className="text-right">Contadas</TableHead>
+								<TableHead className="text-right">Faltantes</TableHead>
+								<TableHead className="text-right">Sobrantes</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{lines.length === 0 ? (
+								<TableRow>
+									<TableCell
+										className="text-center text-[#687076] dark:text-[#9BA1A6]"
+										colSpan={6}
+									>
+										Sin productos en este conteo
+									</TableCell>
+								</TableRow>
+							) : (
+								lines.map((line) => (
+									<TableRow key={line.barcode}>
+										<TableCell>{line.barcode}</TableCell>
+										<TableCell>{line.description ?? "—"}</TableCell>
+										<TableCell className="text-right">{line.expected}</TableCell>
+										<TableCell className="text-right">{line.counted}</TableCell>
+										<TableCell
+											className={`text-right ${line.missing > 0 ? "text-red-600" : ""}`}
+										>
+											{line.missing}
+										</TableCell>
+										<TableCell
+											className={`text-right ${line.unexpected > 0 ? "text-amber-600" : ""}`}
+										>
+											{line.unexpected}
+										</TableCell>
+									</TableRow>
+								))
+							)}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+
+			{isOpen && canCloseCounts && (
+				<Card className="card-transition border-[#E5E7EB] bg-[#F9FAFB] dark:border-[#2D3033] dark:bg-[#1E1F20]">
+					<CardHeader>
+						<CardTitle className="text-[#11181C] dark:text-[#ECEDEE]">
+							Cerrar conteo
+						</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+							Los faltantes se registrarán como merma de conteo cíclico, las unidades
+							encontradas se moverán a esta ubicación y los sobrantes por código de
+							barras se darán de alta.
+						</p>
+						<div className="grid gap-4 md:grid-cols-4">
+							<div className="grid gap-2">
+								<Label>Motivo de los faltantes</Label>
+								<Select
+									onValueChange={(value) => setCloseReason(value as CloseReason)}
+									value={closeReason}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="consumido">Consumido</SelectItem>
+										<SelectItem value="dañado">Dañado</SelectItem>
+										<SelectItem value="otro">Otro</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="grid gap-2 md:col-span-2">
+								<Label htmlFor="cycle-count-close-notes">Notas</Label>
+								<Input
+									id="cycle-count-close-notes"
+									onChange={(event) => setCloseNotes(event.target.value)}
+									placeholder="Opcional"
+									value={closeNotes}
+								/>
+							</div>
+							<div className="flex items-end gap-2">
+								<Button
+									disabled={cancelCycleCount.isPending || closeCycleCount.isPending}
+									onClick={() => cancelCycleCount.mutate(cycleCountId)}
+									variant="outline"
+								>
+									Cancelar
+								</Button>
+								<Button
+									className="flex-1 bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+									disabled={closeCycleCount.isPending || cancelCycleCount.isPending}
+									onClick={handleClose}
+								>
+									Cerrar conteo
+								</Button>
+							</div>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			{detail?.status === "closed" && detail.summary && (
+				<Card className="card-transition border-[#E5E7EB] bg-[#F9FAFB] dark:border-[#2D3033] dark:bg-[#1E1F20]">
+					<CardContent className="grid grid-cols-2 gap-4 p-6 text-sm md:grid-cols-4">
+						<p>Dadas de baja: {detail.summary.writtenOffUnits}</p>
+						<p>Omitidas (movidas durante el conteo): {detail.summary.skippedUnits}</p>
+						<p>Encontradas y reubicadas: {detail.summary.foundUnits}</p>
+						<p>
+							En conflicto (en uso, kit, retiro o tránsito):{" "}
+							{detail.summary.conflictUnits ?? 0}
+						</p>
+						<p>Altas por sobrante: {detail.summary.createdUnits}</p>
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import { useDomainEvents } from "@/hooks/use-domain-events";
+
+/**
+ * Keeps the dashboard query caches in sync with the API domain events stream.
+ */
+export function DomainEventsListener() {
+	useDomainEvents();
+	return null;
+}
@@ -151,6 +151,12 @@ export function DisposeItemDialog() {
 								>
 									Dañado
 								</SelectItem>
+								<SelectItem
+									className="text-[#11181C] dark:text-[#ECEDEE]"
+									value="caducado"
+								>
+									Caducado
+								</SelectItem>
 								<SelectItem
 									className="text-[#11181C] dark:text-[#ECEDEE]"
 									value="otro"
@@ -0,0 +1,353 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	getInventorySyncRunDetail,
+	getInventorySyncRuns,
+} from "@/lib/fetch-functions/inventory";
+import { createQueryKey } from "@/lib/helpers";
+import { queryKeys } from "@/lib/query-keys";
+
+type SyncRunTotals = {
+	existing: number;
+	toInsert: number;
+	inserted: number;
+	toRetire?: number;
+	retired?: number;
+	blockedSurplus?: number;
+	overTargetExisting: number;
+};
+
+type SyncRunListItem = {
+	id: string;
+	trigger: "manual" | "scheduled" | string;
+	status: "running" | "succeeded" | "failed" | string;
+	dryRun: boolean;
+	reconcile: boolean;
+	warehouseId: string | null;
+	errorMessage: string | null;
+	startedAt: string;
+	finishedAt: string | null;
+	totals: SyncRunTotals | null;
+	warehouseCount: number;
+};
+
+type SyncBarcodeDiff = {
+	barcode: number;
+	description: string;
+	target: number;
+	existing: number;
+	toInsert: number;
+	inserted: number;
+	toRetire: number;
+	retired: number;
+	blocked: number;
+};
+
+type SyncWarehouseSummary = {
+	warehouseId: string;
+	warehouseName: string;
+	existing: number;
+	fetched: number;
+	diff?: SyncBarcodeDiff[];
+};
+
+type SyncRunDetail = {
+	run: SyncRunListItem & { warehouses: SyncWarehouseSummary[] | null };
+	previousRun:
+		| (SyncRunListItem & { warehouses: SyncWarehouseSummary[] | null })
+		| null;
+};
+
+const statusLabel: Record<string, string> = {
+	running: "En curso",
+	succeeded: "Completada",
+	failed: "Fallida",
+};
+
+/**
+ * Formats an ISO date string as "dd/MM/yyyy HH:mm" using the Spanish locale.
+ *
+ * @param value - ISO date string.
+ * @returns The formatted date or the raw value when it cannot be parsed.
+ */
+function formatDateTime(value: string | null | undefined): string {
+	if (!value) {
+		return "—";
+	}
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		return value;
+	}
+	return format(date, "dd/MM/yyyy HH:mm", { locale: es });
+}
+
+/**
+ * Formats a signed delta between two counts (e.g. "+3", "-2", "0").
+ */
+function formatDelta(current: number, previous: number | null): string {
+	if (previous === null) {
+		return "—";
+	}
+	const delta = current - previous;
+	return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/**
+ * Extracts the payload of a successful API envelope, or null.
+ */
+function unwrapData<TData>(response: unknown): TData | null {
+	if (
+		response &&
+		typeof response === "object" &&
+		"success" in response &&
+		response.success &&
+		"data" in response
+	) {
+		return response.data as TData;
+	}
+	return null;
+}
+
+/**
+ * Panel "Historial de sincronización" for the inventory page.
+ *
+ * Lists the persisted inventory sync runs (manual and nightly) with their totals and the change in
+ * local units compared to the previous run. Selecting a run shows, per warehouse, every barcode where
+ * Altegio and the local inventory disagreed, next to the local count of the previous run.
+ */
+export function SyncHistoryPanel() {
+	const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+	const { data: runsResponse, isLoading } = useQuery({
+		queryKey: queryKeys.inventorySyncRuns,
+		queryFn: () => getInventorySyncRuns(),
+	});
+
+	const runs = useMemo(() => {
+		const page = unwrapData<{ items: SyncRunListItem[] }>(runsResponse);
+		return page?.items ?? [];
+	}, [runsResponse]);
+
+	const { data: detailResponse, isLoading: isLoadingDetail } = useQuery({
+		queryKey: createQueryKey(queryKeys.inventorySyncRunDetail, [
+			selectedRunId ?? "",
+		]),
+		queryFn: () => getInventorySyncRunDetail(selectedRunId ?? ""),
+		enabled: Boolean(selectedRunId),
+	});
+
+	const detail = useMemo(
+		() => unwrapData<SyncRunDetail>(detailResponse),
+		[detailResponse],
+	);
+
+	// Previous local count per warehouse/barcode, taken from the previous run's diff
+	const previousExistingMap = useMemo(() => {
+		const map = new Map<string, number>();
+		for (const summary of detail?.previousRun?.warehouses ?? []) {
+			for (const entry of summary.diff ?? []) {
+				map.set(`${summary.warehouseId}:${entry.barcode}`, entry.existing);
+			}
+		}
+		return map;
+	}, [detail]);
+
+	return (
+		<Card className="card-transition">
+			<CardHeader>
+				<CardTitle className="text-base font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+					Historial de sincronización
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="grid gap-4">
+				{isLoading ? (
+					<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+						Cargando historial...
+					</p>
+				) : runs.length === 0 ? (
+					<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+						Aún no hay sincronizaciones registradas.
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Fecha</TableHead>
+								<TableHead>Origen</TableHead>
+								<TableHead>Modo</TableHead>
+								<TableHead>Estado</TableHead>
+								<TableHead className="text-right">Locales</TableHead>
+								<TableHead className="text-right">Cambio</TableHead>
+								<TableHead className="text-right">Insertados</TableHead>
+								<TableHead className="text-right">Retirados</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{runs.map((run, index) => {
+								const olderRun = runs
+									.slice(index + 1)
+									.find(
+										(candidate) =>
+											candidate.status === "succeeded" &&
+											candidate.warehouseId === run.warehouseId,
+									);
+								const existing = run.totals?.existing ?? 0;
+								return (
+									<TableRow
+										className={
+											run.id === selectedRunId
+												? "bg-[#F9FAFB] dark:bg-[#2D3033]"
+												: undefined
+										}
+										key={run.id}
+									>
+										<TableCell>{formatDateTime(run.startedAt)}</TableCell>
+										<TableCell>
+											{run.trigger === "scheduled" ? "Programada" : "Manual"}
+										</TableCell>
+										<TableCell>
+											{run.dryRun ? "Simulación" : "Real"}
+											{run.reconcile ? " · Reconciliación" : ""}
+										</TableCell>
+										<TableCell>
+											<Badge
+												title={run.errorMessage ?? undefined}
+												variant={
+													run.status === "failed"
+														? "destructive"
+														: run.status === "running"
+															? "secondary"
+															: "outline"
+												}
+											>
+												{statusLabel[run.status] ?? run.status}
+											</Badge>
+										</TableCell>
+										<TableCell className="text-right">
+											{run.totals ? existing : "—"}
+										</TableCell>
+										<TableCell className="text-right">
+											{run.totals
+												? formatDelta(existing, olderRun?.totals?.existing ?? null)
+												: "—"}
+										</TableCell>
+										<TableCell className="text-right">
+											{run.totals?.inserted ?? "—"}
+										</TableCell>
+										<TableCell className="text-right">
+											{run.totals?.retired ?? "—"}
+										</TableCell>
+										<TableCell className="text-right">
+											<Button
+												disabled={run.status !== "succeeded"}
+												onClick={() =>
+													setSelectedRunId(
+														run.id === selectedRunId ? null : run.id,
+													)
+												}
+												size="sm"
+												type="button"
+												variant="ghost"
+											>
+												{run.id === selectedRunId ? "Ocultar" : "Ver diferencias"}
+											</Button>
+										</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+					</Table>
+				)}
+
+				{selectedRunId && isLoadingDetail ? (
+					<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+						Cargando diferencias...
+					</p>
+				) : null}
+
+				{selectedRunId && detail
+					? (detail.run.warehouses ?? []).map((summary) => {
+							const diff = summary.diff ?? [];
+							return (
+								<div className="grid gap-2" key={summary.warehouseId}>
+									<p className="text-sm font-medium text-[#11181C] dark:text-[#ECEDEE]">
+										{summary.warehouseName} · Altegio {summary.fetched} / Local{" "}
+										{summary.existing}
+									</p>
+									{diff.length === 0 ? (
+										<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+											Sin diferencias con Altegio.
+										</p>
+									) : (
+										<Table>
+											<TableHeader>
+												<TableRow>
+													<TableHead>Producto</TableHead>
+													<TableHead>Código</TableHead>
+													<TableHead className="text-right">Altegio</TableHead>
+													<TableHead className="text-right">Local</TableHead>
+													<TableHead className="text-right">
+														Local anterior
+													</TableHead>
+													<TableHead className="text-right">Altas</TableHead>
+													<TableHead className="text-right">Bajas</TableHead>
+													<TableHead className="text-right">Bloqueados</TableHead>
+												</TableRow>
+											</TableHeader>
+											<TableBody>
+												{diff.map((entry) => {
+													const previousExisting = previousExistingMap.get(
+														`${summary.warehouseId}:${entry.barcode}`,
+													);
+													return (
+														<TableRow key={entry.barcode}>
+															<TableCell>{entry.description}</TableCell>
+															<TableCell>{entry.barcode}</TableCell>
+															<TableCell className="text-right">
+																{entry.target}
+															</TableCell>
+															<TableCell className="text-right">
+																{entry.existing}
+															</TableCell>
+															<TableCell className="text-right">
+																{previousExisting ?? "—"}
+															</TableCell>
+															<TableCell className="text-right">
+																{detail.run.dryRun ? entry.toInsert : entry.inserted}
+															</TableCell>
+															<TableCell className="text-right">
+																{detail.run.dryRun ? entry.toRetire : entry.retired}
+															</TableCell>
+															<TableCell className="text-right">
+																{entry.blocked}
+															</TableCell>
+														</TableRow>
+													);
+												})}
+											</TableBody>
+										</Table>
+									)}
+								</div>
+							);
+						})
+					: null}
+			</CardContent>
+		</Card>
+	);
+}
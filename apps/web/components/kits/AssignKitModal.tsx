@@ -46,7 +46,7 @@ import {
 } from "@/components/ui/popover";
 import type { getEmployeesByUserId } from "@/lib/fetch-functions/kits";
 import { useCreateKit, useUpdateProductStockUsage } from "@/lib/mutations/kits";
-import { cn } from "@/lib/utils";
+import { cn, compareFefo, formatExpiryDate } from "@/lib/utils";
 import { useKitsStore } from "@/stores/kits-store";
 import { useShallow } from "zustand/shallow";
 
@@ -62,6 +62,8 @@ interface KitProduct {
 		description?: string | null;
 		barcode?: number;
 		lastUsedBy?: string | null;
+		lotNumber?: string | null;
+		expiresAt?: string | null;
 	};
 	productName?: string;
 	productBrand?: string;
@@ -79,6 +81,8 @@ type NormalizedProduct = {
 	barcode: number;
 	lastUsedBy: string | null;
 	stock: number;
+	lotNumber: string | null;
+	expiresAt: string | null;
 };
 
 interface AssignKitModalProps {
@@ -209,6 +213,8 @@ export function AssignKitModal({
 					barcode: row.productStock?.barcode ?? 0,
 					lastUsedBy: lastUsedByName,
 					stock: 1,
+					lotNumber: row.productStock?.lotNumber ?? null,
+					expiresAt: row.productStock?.expiresAt ?? null,
 				} satisfies NormalizedProduct;
 			});
 	}, [kitProducts, employees, draft.employeeId]);
@@ -248,6 +254,14 @@ export function AssignKitModal({
 			}
 		}
 
+		// First-expiring units first, so "Agregar todas" and the suggestion follow FEFO
+		for (const group of groups.values()) {
+			group.products.sort(
+				(left, right) =>
+					compareFefo(left, right) || left.id.localeCompare(right.id),
+			);
+		}
+
 		return Array.from(groups.values());
 	}, [products, buildGroupKey]);
 
@@ -822,6 +836,16 @@ export function AssignKitModal({
 																		const isSelected = selectedProducts.some(
 																			(item) => item.productId === product.id,
 																		);
+																		const isSuggested =
+																			Boolean(product.expiresAt) &&
+																			product ===
+																				group.products.find(
+																					(candidate) =>
+																						!selectedProducts.some(
+																							(item) =>
+																								item.productId === candidate.id,
+																						),
+																				);
 																		return (
 																			<div
 																				className={cn(
@@ -862,6 +886,28 @@ export function AssignKitModal({
 																								</span>
 																							</>
 																						)}
+																						{product.expiresAt && (
+																							<>
+																								<span>•</span>
+																								<span
+																									className={cn(
+																										isSuggested &&
+																											"font-medium text-[#0a7ea4]",
+																									)}
+																								>
+																									{isSuggested
+																										? "Caduca primero · "
+																										: ""}
+																									Cad.{" "}
+																									{formatExpiryDate(
+																										product.expiresAt,
+																									)}
+																									{product.lotNumber
+																										? ` · Lote ${product.lotNumber}`
+																										: ""}
+																								</span>
+																							</>
+																						)}
 																					</div>
 																				</div>
 																				{isSelected ? (
@@ -38,7 +38,6 @@ interface Employee {
 	id: string;
 	name: string;
 	warehouseId: string;
-	passcode?: number;
 }
 
 type ProductStock = {
@@ -179,11 +178,6 @@ export function EmployeeKitCard({
 										{warehouseName}
 									</Badge>
 								)}
-								{employee.passcode && (
-									<span className="font-mono text-xs text-[#687076] dark:text-[#9BA1A6]">
-										#{employee.passcode}
-									</span>
-								)}
 							</div>
 						</div>
 					</div>
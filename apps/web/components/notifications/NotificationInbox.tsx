@@ -0,0 +1,137 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Bell, CheckCheck } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	SidebarMenuBadge,
+	SidebarMenuButton,
+	SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { getNotifications } from "@/lib/fetch-functions/notifications";
+import {
+	useMarkAllNotificationsRead,
+	useMarkNotificationRead,
+} from "@/lib/mutations/notifications";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+import type { InboxNotification } from "@/types";
+
+// Rules are evaluated every few minutes, so polling once a minute is enough
+const INBOX_REFETCH_INTERVAL_MS = 60_000;
+
+/**
+ * Sidebar entry with the in-app inbox: unread badge and a popover with the latest
+ * notifications. Opening a notification marks it read and follows its link.
+ */
+export function NotificationInbox() {
+	const router = useRouter();
+	const [open, setOpen] = useState(false);
+	const { data } = useQuery({
+		queryKey: queryKeys.notifications,
+		queryFn: getNotifications,
+		refetchInterval: INBOX_REFETCH_INTERVAL_MS,
+	});
+	const markRead = useMarkNotificationRead();
+	const markAllRead = useMarkAllNotificationsRead();
+
+	const items = data?.success ? (data.data?.items ?? []) : [];
+	const unreadCount = data?.success ? (data.data?.unreadCount ?? 0) : 0;
+
+	const openNotification = (item: InboxNotification) => {
+		if (!item.readAt) {
+			markRead.mutate(item.id);
+		}
+		if (item.link) {
+			setOpen(false);
+			router.push(item.link);
+		}
+	};
+
+	return (
+		<SidebarMenuItem>
+			<Popover onOpenChange={setOpen} open={open}>
+				<PopoverTrigger asChild>
+					<SidebarMenuButton
+						className="theme-transition text-[#11181C] hover:bg-[#F9FAFB] hover:text-[#0a7ea4] dark:text-[#ECEDEE] dark:hover:bg-[#2D3033] dark:hover:text-[#0a7ea4]"
+						tooltip="Notificaciones"
+					>
+						<Bell className="icon-transition h-4 w-4" />
+						<span>Notificaciones</span>
+					</SidebarMenuButton>
+				</PopoverTrigger>
+				{unreadCount > 0 && (
+					<SidebarMenuBadge className="rounded-full bg-[#0a7ea4] text-white">
+						{unreadCount > 99 ? "99+" : unreadCount}
+					</SidebarMenuBadge>
+				)}
+				<PopoverContent align="start" className="w-80 p-0" side="right">
+					<div className="flex items-center justify-between border-b px-3 py-2">
+						<span className="font-semibold text-sm">Notificaciones</span>
+						<Button
+							disabled={unreadCount === 0 || markAllRead.isPending}
+							onClick={() => markAllRead.mutate()}
+							size="sm"
+							variant="ghost"
+						>
+							<CheckCheck className="mr-1 h-4 w-4" />
+							Marcar leídas
+						</Button>
+					</div>
+					{items.length === 0 ? (
+						<p className="px-3 py-6 text-center text-[#687076] text-sm dark:text-[#9BA1A6]">
+							No tienes notificaciones
+						</p>
+					) : (
+						<ScrollArea className="max-h-96">
+							<ul className="divide-y">
+								{items.map((item) => (
+									<li key={item.id}>
+										<button
+											className={cn(
+												"w-full px-3 py-2 text-left hover:bg-[#F9FAFB] dark:hover:bg-[#2D3033]",
+												!item.readAt && "bg-[#0a7ea4]/5",
+											)}
+											onClick={() => openNotification(item)}
+											type="button"
+										>
+											<div className="flex items-start gap-2">
+												{!item.readAt && (
+													<span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-[#0a7ea4]" />
+												)}
+												<div className="grid gap-0.5">
+													<span className="font-medium text-sm">
+														{item.title}
+													</span>
+													<span className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+														{item.body}
+													</span>
+													<span className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+														{formatDistanceToNow(new Date(item.createdAt), {
+															addSuffix: true,
+															locale: es,
+														})}
+													</span>
+												</div>
+											</div>
+										</button>
+									</li>
+								))}
+							</ul>
+						</ScrollArea>
+					)}
+				</PopoverContent>
+			</Popover>
+		</SidebarMenuItem>
+	);
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { BellRing, Play, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { getAllWarehouses } from "@/lib/fetch-functions/inventory";
+import { getNotificationRules } from "@/lib/fetch-functions/notifications";
+import {
+	type CreateNotificationRulePayload,
+	useCreateNotificationRule,
+	useDeleteNotificationRule,
+	useEvaluateNotificationRules,
+	useUpdateNotificationRule,
+} from "@/lib/mutations/notifications";
+import { queryKeys } from "@/lib/query-keys";
+import type {
+	NotificationDeliveryMode,
+	NotificationRule,
+	NotificationRuleType,
+} from "@/types";
+
+type RuleRole = CreateNotificationRulePayload["json"]["role"];
+
+const ALL_WAREHOUSES = "all";
+
+const ruleTypeLabel: Record<NotificationRuleType, string> = {
+	low_stock: "Stock bajo",
+	transfer_pending: "Traspaso pendiente",
+	withdraw_overdue: "Retiro vencido",
+	shrinkage_spike: "Pico de merma",
+};
+
+// What the threshold means for each type; low stock uses the stock limits instead
+const thresholdLabel: Record<NotificationRuleType, string | null> = {
+	low_stock: null,
+	transfer_pending: "Horas (24 por defecto)",
+	withdraw_overdue: "Horas (24 por defecto)",
+	shrinkage_spike: "Unidades en 24 h (10 por defecto)",
+};
+
+const roleLabel: Record<RuleRole, string> = {
+	admin: "Administrador",
+	encargado: "Encargado",
+	manager: "Gerente",
+	employee: "Empleado",
+	viewer: "Solo lectura",
+};
+
+const deliveryModeLabel: Record<NotificationDeliveryMode, string> = {
+	immediate: "Inmediato",
+	digest: "Resumen diario",
+};
+
+/**
+ * Notification rules for the Ajustes page: which condition notifies which role in which
+ * warehouse, and whether it is also emailed right away or in the daily digest.
+ */
+export function NotificationRules() {
+	const { data: rulesResponse, isLoading } = useQuery({
+		queryKey: queryKeys.notificationRules,
+		queryFn: getNotificationRules,
+	});
+	const { data: warehousesResponse } = useQuery({
+		queryKey: queryKeys.warehouses,
+		queryFn: getAllWarehouses,
+	});
+	const createRule = useCreateNotificationRule();
+	const updateRule = useUpdateNotificationRule();
+	const deleteRule = useDeleteNotificationRule();
+	const evaluateRules = useEvaluateNotificationRules();
+
+	const [type, setType] = useState<NotificationRuleType>("low_stock");
+	const [warehouseId, setWarehouseId] = useState<string>(ALL_WAREHOUSES);
+	const [role, setRole] = useState<RuleRole>("encargado");
+	const [threshold, setThreshold] = useState("");
+	const [sendEmail, setSendEmail] = useState(false);
+	const [deliveryMode, setDeliveryMode] =
+		useState<NotificationDeliveryMode>("immediate");
+
+	const rules = rulesResponse?.success ? (rulesResponse.data ?? []) : [];
+	const warehouses = warehousesResponse?.success ? warehousesResponse.data : [];
+	const warehouseName = (id: string | null) =>
+		id
+			? (warehouses.find((item) => item.id === id)?.name ?? "Bodega eliminada")
+			: "Todas";
+
+	const parsedThreshold = Number.parseInt(threshold, 10);
+	const hasValidThreshold =
+		threshold.trim() === "" ||
+		(Number.isInteger(parsedThreshold) && parsedThreshold > 0);
+
+	const handleCreate = () => {
+		createRule.mutate(
+			{
+				json: {
+					type,
+					warehouseId: warehouseId === ALL_WAREHOUSES ? null : warehouseId,
+					role,
+					...(thresholdLabel[type] && threshold.trim() !== ""
+						? { threshold: parsedThreshold }
+						: {}),
+					sendEmail,
+					deliveryMode,
+				},
+			},
+			{
+				onSuccess: () => {
+					setThreshold("");
+				},
+			},
+		);
+	};
+
+	const toggleRule = (
+		rule: NotificationRule,
+		changes: { isActive?: boolean; sendEmail?: boolean },
+	) => {
+		updateRule.mutate({ param: { id: rule.id }, json: changes });
+	};
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader className="flex flex-row items-start justify-between gap-4">
+				<div className="space-y-1.5">
+					<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+						<BellRing className="h-5 w-5 text-[#0a7ea4]" />
+						Notificaciones
+					</CardTitle>
+					<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+						Define qué alertas recibe cada rol en la bandeja y por correo. Las
+						reglas se evalúan automáticamente cada pocos minutos.
+					</CardDescription>
+				</div>
+				<Button
+					disabled={evaluateRules.isPending}
+					onClick={() => evaluateRules.mutate()}
+					variant="outline"
+				>
+					<Play className="mr-2 h-4 w-4" />
+					Evaluar ahora
+				</Button>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				<div className="grid gap-4 md:grid-cols-3">
+					<div className="space-y-2">
+						<Label>Alerta</Label>
+						<Select
+							onValueChange={(value) => setType(value as NotificationRuleType)}
+							value={type}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(ruleTypeLabel).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-2">
+						<Label>Bodega</Label>
+						<Select onValueChange={setWarehouseId} value={warehouseId}>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL_WAREHOUSES}>Todas</SelectItem>
+								{warehouses.map((warehouse) => (
+									<SelectItem key={warehouse.id} value={warehouse.id}>
+										{warehouse.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-2">
+						<Label>Rol</Label>
+						<Select
+							onValueChange={(value) => setRole(value as RuleRole)}
+							value={role}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(roleLabel).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					{thresholdLabel[type] ? (
+						<div className="space-y-2">
+							<Label htmlFor="notification-threshold">
+								{thresholdLabel[type]}
+							</Label>
+							<Input
+								id="notification-threshold"
+								min={1}
+								onChange={(event) => setThreshold(event.target.value)}
+								type="number"
+								value={threshold}
+							/>
+						</div>
+					) : null}
+					<div className="space-y-2">
+						<Label>Correo</Label>
+						<Select
+							disabled={!sendEmail}
+							onValueChange={(value) =>
+								setDeliveryMode(value as NotificationDeliveryMode)
+							}
+							value={deliveryMode}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(deliveryModeLabel).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<div className="flex items-center gap-2">
+							<Checkbox
+								checked={sendEmail}
+								id="notification-send-email"
+								onCheckedChange={(checked) => setSendEmail(checked === true)}
+							/>
+							<Label htmlFor="notification-send-email">
+								Enviar también por correo
+							</Label>
+						</div>
+					</div>
+					<div className="flex items-end">
+						<Button
+							className="w-full bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+							disabled={createRule.isPending || !hasValidThreshold}
+							onClick={handleCreate}
+						>
+							Agregar regla
+						</Button>
+					</div>
+				</div>
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Alerta</TableHead>
+							<TableHead>Bodega</TableHead>
+							<TableHead>Rol</TableHead>
+							<TableHead>Umbral</TableHead>
+							<TableHead>Correo</TableHead>
+							<TableHead>Activa</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{rules.map((rule) => (
+							<TableRow key={rule.id}>
+								<TableCell>{ruleTypeLabel[rule.type]}</TableCell>
+								<TableCell>{warehouseName(rule.warehouseId)}</TableCell>
+								<TableCell>{roleLabel[rule.role]}</TableCell>
+								<TableCell>{rule.threshold ?? "—"}</TableCell>
+								<TableCell>
+									<div className="flex items-center gap-2">
+										<Checkbox
+											checked={rule.sendEmail}
+											disabled={updateRule.isPending}
+											onCheckedChange={(checked) =>
+												toggleRule(rule, { sendEmail: checked === true })
+											}
+										/>
+										<span className="text-sm">
+											{rule.sendEmail ? deliveryModeLabel[rule.deliveryMode] : "No"}
+										</span>
+									</div>
+								</TableCell>
+								<TableCell>
+									<Checkbox
+										checked={rule.isActive}
+										disabled={updateRule.isPending}
+										onCheckedChange={(checked) =>
+											toggleRule(rule, { isActive: checked === true })
+										}
+									/>
+								</TableCell>
+								<TableCell className="text-right">
+									<Button
+										disabled={deleteRule.isPending}
+										onClick={() => deleteRule.mutate(rule.id)}
+										size="icon"
+										variant="ghost"
+									>
+										<Trash2 className="h-4 w-4" />
+									</Button>
+								</TableCell>
+							</TableRow>
+						))}
+						{!isLoading && rules.length === 0 ? (
+							<TableRow>
+								<TableCell
+									className="text-center text-[#687076] dark:text-[#9BA1A6]"
+									colSpan={7}
+								>
+									No hay reglas de notificación
+								</TableCell>
+							</TableRow>
+						) : null}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
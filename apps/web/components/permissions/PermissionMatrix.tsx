@@ -0,0 +1,218 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Lock, ShieldCheck } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { getPermissionMatrix } from "@/lib/fetch-functions/permissions";
+import {
+	type UpdateRolePermissionsPayload,
+	useUpdateRolePermissions,
+} from "@/lib/mutations/permissions";
+import { queryKeys } from "@/lib/query-keys";
+
+type ConfigurableRole = UpdateRolePermissionsPayload["param"]["role"];
+
+type PermissionKey = UpdateRolePermissionsPayload["json"]["permissions"][number];
+
+type PermissionMatrixData = {
+	catalog: { key: PermissionKey; description: string }[];
+	roles: ConfigurableRole[];
+	grants: Record<ConfigurableRole, PermissionKey[]>;
+};
+
+const roleLabel: Record<ConfigurableRole, string> = {
+	encargado: "Encargado",
+	manager: "Gerente",
+	employee: "Empleado",
+	viewer: "Solo lectura",
+};
+
+/**
+ * Extracts the payload of a successful API envelope, or null.
+ */
+function unwrapMatrix(response: unknown): PermissionMatrixData | null {
+	if (
+		response &&
+		typeof response === "object" &&
+		"success" in response &&
+		response.success &&
+		"data" in response
+	) {
+		return response.data as PermissionMatrixData;
+	}
+	return null;
+}
+
+/**
+ * Editable permission matrix for the Ajustes page.
+ *
+ * Rows are the permissions checked by the API and columns the configurable roles. Admin is shown
+ * locked because it is implicitly granted everything. Edits stay local until the role is saved.
+ */
+export function PermissionMatrix() {
+	const { data, isLoading } = useQuery({
+		queryKey: queryKeys.permissionMatrix,
+		queryFn: getPermissionMatrix,
+	});
+	const matrix = useMemo(() => unwrapMatrix(data), [data]);
+	const [draftGrants, setDraftGrants] = useState<
+		Partial<Record<ConfigurableRole, PermissionKey[]>>
+	>({});
+	const updateRolePermissions = useUpdateRolePermissions();
+
+	const grantsFor = (role: ConfigurableRole) =>
+		draftGrants[role] ?? matrix?.grants[role] ?? [];
+
+	const isDirty = (role: ConfigurableRole) => {
+		const draft = draftGrants[role];
+		if (!(draft && matrix)) {
+			return false;
+		}
+		const saved = matrix.grants[role];
+		return (
+			draft.length !== saved.length ||
+			draft.some((permission) => !saved.includes(permission))
+		);
+	};
+
+	const togglePermission = (
+		role: ConfigurableRole,
+		permission: PermissionKey,
+		checked: boolean,
+	) => {
+		const current = grantsFor(role);
+		setDraftGrants((previous) => ({
+			...previous,
+			[role]: checked
+				? [...current, permission]
+				: current.filter((value) => value !== permission),
+		}));
+	};
+
+	const saveRole = (role: ConfigurableRole) => {
+		const permissions = grantsFor(role);
+		updateRolePermissions.mutate(
+			{ param: { role }, json: { permissions } },
+			{
+				onSuccess: () => {
+					setDraftGrants((previous) => {
+						const next = { ...previous };
+						delete next[role];
+						return next;
+					});
+				},
+			},
+		);
+	};
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+					<ShieldCheck className="h-5 w-5 text-[#0a7ea4]" />
+					Matriz de permisos
+				</CardTitle>
+				<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+					Define qué puede hacer cada rol. Los administradores tienen todos los
+					permisos.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+						Cargando permisos...
+					</p>
+				) : matrix ? (
+					<div className="overflow-x-auto">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead className="min-w-[260px]">Permiso</TableHead>
+									<TableHead className="text-center">
+										<span className="inline-flex items-center gap-1">
+											<Lock className="h-3 w-3" />
+											Admin
+										</span>
+									</TableHead>
+									{matrix.roles.map((role) => (
+										<TableHead className="text-center" key={role}>
+											{roleLabel[role] ?? role}
+										</TableHead>
+									))}
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{matrix.catalog.map((entry) => (
+									<TableRow key={entry.key}>
+										<TableCell>
+											<div className="text-[#11181C] text-sm dark:text-[#ECEDEE]">
+												{entry.description}
+											</div>
+											<div className="font-mono text-[#687076] text-xs dark:text-[#9BA1A6]">
+												{entry.key}
+											</div>
+										</TableCell>
+										<TableCell className="text-center">
+											<Checkbox checked disabled />
+										</TableCell>
+										{matrix.roles.map((role) => (
+											<TableCell className="text-center" key={role}>
+												<Checkbox
+													aria-label={`${roleLabel[role] ?? role}: ${entry.description}`}
+													checked={grantsFor(role).includes(entry.key)}
+													className="data-[state=checked]:border-[#0a7ea4] data-[state=checked]:bg-[#0a7ea4]"
+													disabled={updateRolePermissions.isPending}
+													onCheckedChange={(checked) =>
+														togglePermission(role, entry.key, Boolean(checked))
+													}
+												/>
+											</TableCell>
+										))}
+									</TableRow>
+								))}
+								<TableRow>
+									<TableCell />
+									<TableCell />
+									{matrix.roles.map((role) => (
+										<TableCell className="text-center" key={role}>
+											<Button
+												disabled={
+													!isDirty(role) || updateRolePermissions.isPending
+												}
+												onClick={() => saveRole(role)}
+												size="sm"
+											>
+												Guardar
+											</Button>
+										</TableCell>
+									))}
+								</TableRow>
+							</TableBody>
+						</Table>
+					</div>
+				) : (
+					<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+						No se pudo cargar la matriz de permisos
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
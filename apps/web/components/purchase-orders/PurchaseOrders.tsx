@@ -0,0 +1,426 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ClipboardList, PackageCheck, Send, Trash2, X } from "lucide-react";
+import { Fragment, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { getAllWarehouses } from "@/lib/fetch-functions/inventory";
+import {
+	getPurchaseOrder,
+	getPurchaseOrders,
+} from "@/lib/fetch-functions/purchase-orders";
+import { createQueryKey } from "@/lib/helpers";
+import {
+	useClosePurchaseOrder,
+	useDeletePurchaseOrder,
+	useGeneratePurchaseOrders,
+	useReceivePurchaseOrder,
+	useSendPurchaseOrder,
+} from "@/lib/mutations/purchase-orders";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+import type { PurchaseOrderStatus } from "@/types";
+
+const ALL_STATUSES = "all";
+
+const statusLabel: Record<PurchaseOrderStatus, string> = {
+	draft: "Borrador",
+	sent: "Enviada",
+	partially_received: "Recibida parcial",
+	closed: "Cerrada",
+};
+
+const statusClassName: Record<PurchaseOrderStatus, string> = {
+	draft: "bg-[#687076]/10 text-[#687076] dark:text-[#9BA1A6]",
+	sent: "bg-[#0a7ea4]/10 text-[#0a7ea4]",
+	partially_received:
+		"bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+	closed:
+		"bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+};
+
+type UnassignedItem = {
+	detailId: string;
+	barcode: number;
+	quantity: number;
+	replenishmentOrderNumber: string;
+};
+
+/**
+ * Items of one purchase order with the pending quantity and, while the order is open, an
+ * input per barcode to receive units into the CEDIS.
+ */
+function PurchaseOrderItems({
+	orderId,
+	canReceive,
+}: {
+	orderId: string;
+	canReceive: boolean;
+}) {
+	const { data: orderResponse } = useQuery({
+		queryKey: createQueryKey(queryKeys.purchaseOrderDetail, [orderId]),
+		queryFn: () => getPurchaseOrder(orderId),
+	});
+	const receiveOrder = useReceivePurchaseOrder();
+	const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+	const order = orderResponse?.success ? orderResponse.data : undefined;
+	if (!order) {
+		return (
+			<p className="text-[#687076] text-sm dark:text-[#9BA1A6]">
+				Cargando orden...
+			</p>
+		);
+	}
+
+	const isOpen =
+		order.status === "sent" || order.status === "partially_received";
+	const itemsToReceive = order.items
+		.map((item) => ({
+			barcode: item.barcode,
+			quantity: Number.parseInt(quantities[item.barcode] ?? "", 10),
+		}))
+		.filter((item) => Number.isInteger(item.quantity) && item.quantity > 0);
+
+	const handleReceive = () => {
+		receiveOrder.mutate(
+			{ param: { id: orderId }, json: { items: itemsToReceive } },
+			{ onSuccess: () => setQuantities({}) },
+		);
+	};
+
+	return (
+		<div className="space-y-3">
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Código</TableHead>
+						<TableHead>Descripción</TableHead>
+						<TableHead>Pedidos de origen</TableHead>
+						<TableHead>Recibido</TableHead>
+						{canReceive && isOpen ? <TableHead>Recibir</TableHead> : null}
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{order.items.map((item) => {
+						const pending = item.quantity - item.receivedQuantity;
+						return (
+							<TableRow key={item.id}>
+								<TableCell className="font-mono text-xs">
+									{item.barcode}
+								</TableCell>
+								<TableCell>{item.description ?? "—"}</TableCell>
+								<TableCell className="text-xs">
+									{item.sources
+										.map(
+											(source) =>
+												`${source.replenishmentOrderNumber ?? "—"} (${source.receivedQuantity}/${source.quantity})`,
+										)
+										.join(", ")}
+								</TableCell>
+								<TableCell>
+									{item.receivedQuantity}/{item.quantity}
+								</TableCell>
+								{canReceive && isOpen ? (
+									<TableCell>
+										<Input
+											className="w-24"
+											disabled={pending === 0}
+											max={pending}
+											min={0}
+											onChange={(event) =>
+												setQuantities((current) => ({
+													...current,
+													[item.barcode]: event.target.value,
+												}))
+											}
+											type="number"
+											value={quantities[item.barcode] ?? ""}
+										/>
+									</TableCell>
+								) : null}
+							</TableRow>
+						);
+					})}
+				</TableBody>
+			</Table>
+			{canReceive && isOpen ? (
+				<div className="flex justify-end">
+					<Button
+						className="bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+						disabled={receiveOrder.isPending || itemsToReceive.length === 0}
+						onClick={handleReceive}
+						size="sm"
+					>
+						<PackageCheck className="mr-1 h-4 w-4" />
+						Recibir en CEDIS
+					</Button>
+				</div>
+			) : null}
+		</div>
+	);
+}
+
+/**
+ * Purchase orders for the Compras tab: generates drafts from the CEDIS unfulfilled
+ * replenishment items, sends them, receives units into the CEDIS and closes them.
+ */
+export function PurchaseOrders({
+	canManage,
+	canReceive,
+}: {
+	canManage: boolean;
+	canReceive: boolean;
+}) {
+	const [status, setStatus] = useState<string>(ALL_STATUSES);
+	const { data: ordersResponse, isLoading } = useQuery({
+		queryKey: createQueryKey(queryKeys.purchaseOrders, [status]),
+		queryFn: () =>
+			getPurchaseOrders(
+				status === ALL_STATUSES ? undefined : (status as PurchaseOrderStatus),
+			),
+	});
+	const { data: warehousesResponse } = useQuery({
+		queryKey: queryKeys.warehouses,
+		queryFn: getAllWarehouses,
+	});
+	const generateOrders = useGeneratePurchaseOrders();
+	const sendOrder = useSendPurchaseOrder();
+	const closeOrder = useClosePurchaseOrder();
+	const deleteOrder = useDeletePurchaseOrder();
+
+	const [selectedCedisId, setSelectedCedisId] = useState("");
+	const [expandedId, setExpandedId] = useState<string | null>(null);
+	const [unassigned, setUnassigned] = useState<UnassignedItem[]>([]);
+
+	const orders = ordersResponse?.success ? (ordersResponse.data ?? []) : [];
+	const cedisWarehouses = warehousesResponse?.success
+		? warehousesResponse.data.filter((warehouse) => warehouse.isCedis)
+		: [];
+	const cedisWarehouseId = selectedCedisId || cedisWarehouses[0]?.id || "";
+
+	const handleGenerate = () => {
+		generateOrders.mutate(
+			{ json: { cedisWarehouseId } },
+			{ onSuccess: (result) => setUnassigned(result.data.unassigned) },
+		);
+	};
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader className="flex flex-row items-start justify-between gap-4">
+				<div className="space-y-1.5">
+					<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+						<ClipboardList className="h-5 w-5 text-[#0a7ea4]" />
+						Órdenes de compra
+					</CardTitle>
+					<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+						Agrupa los faltantes de los pedidos enviados al CEDIS en una orden
+						por proveedor. Al recibir, las unidades entran al CEDIS ligadas a
+						los pedidos que las originaron.
+					</CardDescription>
+				</div>
+				<Select onValueChange={setStatus} value={status}>
+					<SelectTrigger className="w-48">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL_STATUSES}>Todos los estados</SelectItem>
+						{Object.entries(statusLabel).map(([value, label]) => (
+							<SelectItem key={value} value={value}>
+								{label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{canManage ? (
+					<div className="flex flex-wrap items-end gap-4">
+						<Select onValueChange={setSelectedCedisId} value={cedisWarehouseId}>
+							<SelectTrigger className="w-64">
+								<SelectValue placeholder="Selecciona un CEDIS" />
+							</SelectTrigger>
+							<SelectContent>
+								{cedisWarehouses.map((warehouse) => (
+									<SelectItem key={warehouse.id} value={warehouse.id}>
+										{warehouse.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							className="bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+							disabled={generateOrders.isPending || cedisWarehouseId === ""}
+							onClick={handleGenerate}
+						>
+							Generar órdenes de compra
+						</Button>
+					</div>
+				) : null}
+
+				{unassigned.length > 0 ? (
+					<div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-900/20">
+						<div className="flex items-center justify-between">
+							<p className="font-medium text-[#11181C] text-sm dark:text-[#ECEDEE]">
+								Faltantes sin proveedor asignado
+							</p>
+							<Button
+								onClick={() => setUnassigned([])}
+								size="icon"
+								variant="ghost"
+							>
+								<X className="h-4 w-4" />
+							</Button>
+						</div>
+						<p className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+							Asigna estos códigos a un proveedor y vuelve a generar.
+						</p>
+						<ul className="text-sm">
+							{unassigned.map((item) => (
+								<li key={item.detailId}>
+									<span className="font-mono">{item.barcode}</span> ·{" "}
+									{item.quantity} unidades · {item.replenishmentOrderNumber}
+								</li>
+							))}
+						</ul>
+					</div>
+				) : null}
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Orden</TableHead>
+							<TableHead>Proveedor</TableHead>
+							<TableHead>Fecha</TableHead>
+							<TableHead>Estado</TableHead>
+							<TableHead>Recibido</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{orders.map((order) => {
+							const isOpen =
+								order.status === "sent" ||
+								order.status === "partially_received";
+							return (
+								<Fragment key={order.id}>
+									<TableRow
+										className="cursor-pointer"
+										onClick={() =>
+											setExpandedId((current) =>
+												current === order.id ? null : order.id,
+											)
+										}
+									>
+										<TableCell className="font-medium">
+											{order.orderNumber}
+										</TableCell>
+										<TableCell>{order.supplierName}</TableCell>
+										<TableCell className="whitespace-nowrap text-sm">
+											{format(new Date(order.createdAt), "dd/MM/yyyy HH:mm")}
+										</TableCell>
+										<TableCell>
+											<Badge
+												className={cn(
+													"border-transparent",
+													statusClassName[order.status],
+												)}
+											>
+												{statusLabel[order.status]}
+											</Badge>
+										</TableCell>
+										<TableCell>
+											{order.totalReceived}/{order.totalQuantity}
+										</TableCell>
+										<TableCell
+											className="text-right"
+											onClick={(event) => event.stopPropagation()}
+										>
+											{canManage && order.status === "draft" ? (
+												<>
+													<Button
+														disabled={sendOrder.isPending}
+														onClick={() => sendOrder.mutate(order.id)}
+														size="sm"
+														variant="outline"
+													>
+														<Send className="mr-1 h-4 w-4" />
+														Enviar
+													</Button>
+													<Button
+														disabled={deleteOrder.isPending}
+														onClick={() => deleteOrder.mutate(order.id)}
+														size="icon"
+														variant="ghost"
+													>
+														<Trash2 className="h-4 w-4" />
+													</Button>
+												</>
+											) : null}
+											{canManage && isOpen ? (
+												<Button
+													disabled={closeOrder.isPending}
+													onClick={() => closeOrder.mutate(order.id)}
+													size="sm"
+													variant="outline"
+												>
+													Cerrar
+												</Button>
+											) : null}
+										</TableCell>
+									</TableRow>
+									{expandedId === order.id ? (
+										<TableRow>
+											<TableCell colSpan={6}>
+												<PurchaseOrderItems
+													canReceive={canReceive}
+													orderId={order.id}
+												/>
+											</TableCell>
+										</TableRow>
+									) : null}
+								</Fragment>
+							);
+						})}
+						{!isLoading && orders.length === 0 ? (
+							<TableRow>
+								<TableCell
+									className="text-center text-[#687076] dark:text-[#9BA1A6]"
+									colSpan={6}
+								>
+									No hay órdenes de compra
+								</TableCell>
+							</TableRow>
+						) : null}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Package, Trash2, Truck } from "lucide-react";
+import { Fragment, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { getSuppliers } from "@/lib/fetch-functions/purchase-orders";
+import {
+	useCreateSupplier,
+	useDeleteSupplier,
+	useSetSupplierProducts,
+	useUpdateSupplier,
+} from "@/lib/mutations/purchase-orders";
+import { queryKeys } from "@/lib/query-keys";
+
+/**
+ * Parses barcodes separated by commas, spaces or new lines, ignoring anything else.
+ */
+const parseBarcodes = (value: string) =>
+	value
+		.split(/[\s,]+/)
+		.map((item) => Number.parseInt(item, 10))
+		.filter((barcode) => Number.isInteger(barcode) && barcode > 0);
+
+/**
+ * Suppliers for the Compras tab: contact data, activation and the barcodes each supplier
+ * provides by default, which decide how unfulfilled items are grouped into purchase orders.
+ */
+export function Suppliers({ canManage }: { canManage: boolean }) {
+	const { data: suppliersResponse, isLoading } = useQuery({
+		queryKey: queryKeys.suppliers,
+		queryFn: getSuppliers,
+	});
+	const createSupplier = useCreateSupplier();
+	const updateSupplier = useUpdateSupplier();
+	const setSupplierProducts = useSetSupplierProducts();
+	const deleteSupplier = useDeleteSupplier();
+
+	const [name, setName] = useState("");
+	const [contactName, setContactName] = useState("");
+	const [email, setEmail] = useState("");
+	const [phone, setPhone] = useState("");
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [barcodesDraft, setBarcodesDraft] = useState("");
+
+	const suppliers = suppliersResponse?.success
+		? (suppliersResponse.data ?? [])
+		: [];
+
+	const handleCreate = () => {
+		createSupplier.mutate(
+			{
+				json: {
+					name: name.trim(),
+					...(contactName.trim() && { contactName: contactName.trim() }),
+					...(email.trim() && { email: email.trim() }),
+					...(phone.trim() && { phone: phone.trim() }),
+				},
+			},
+			{
+				onSuccess: () => {
+					setName("");
+					setContactName("");
+					setEmail("");
+					setPhone("");
+				},
+			},
+		);
+	};
+
+	const startEditing = (id: string, barcodes: number[]) => {
+		setEditingId(id);
+		setBarcodesDraft(barcodes.join("\n"));
+	};
+
+	const handleSaveBarcodes = (id: string) => {
+		setSupplierProducts.mutate(
+			{ param: { id }, json: { barcodes: parseBarcodes(barcodesDraft) } },
+			{ onSuccess: () => setEditingId(null) },
+		);
+	};
+
+	return (
+		<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+					<Truck className="h-5 w-5 text-[#0a7ea4]" />
+					Proveedores
+				</CardTitle>
+				<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+					Cada código de barras tiene un proveedor predeterminado. Al generar
+					órdenes de compra, los faltantes se agrupan por ese proveedor.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{canManage ? (
+					<div className="grid gap-4 md:grid-cols-5">
+						<div className="space-y-2">
+							<Label htmlFor="supplier-name">Nombre</Label>
+							<Input
+								id="supplier-name"
+								onChange={(event) => setName(event.target.value)}
+								placeholder="Distribuidora Norte"
+								value={name}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="supplier-contact">Contacto</Label>
+							<Input
+								id="supplier-contact"
+								onChange={(event) => setContactName(event.target.value)}
+								value={contactName}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="supplier-email">Correo</Label>
+							<Input
+								id="supplier-email"
+								onChange={(event) => setEmail(event.target.value)}
+								type="email"
+								value={email}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="supplier-phone">Teléfono</Label>
+							<Input
+								id="supplier-phone"
+								onChange={(event) => setPhone(event.target.value)}
+								value={phone}
+							/>
+						</div>
+						<div className="flex items-end">
+							<Button
+								className="w-full bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+								disabled={createSupplier.isPending || name.trim() === ""}
+								onClick={handleCreate}
+							>
+								Agregar proveedor
+							</Button>
+						</div>
+					</div>
+				) : null}
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Nombre</TableHead>
+							<TableHead>Contacto</TableHead>
+							<TableHead>Productos</TableHead>
+							<TableHead>Activo</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{suppliers.map((supplier) => (
+							<Fragment key={supplier.id}>
+								<TableRow>
+									<TableCell className="font-medium">{supplier.name}</TableCell>
+									<TableCell className="text-sm">
+										{[supplier.contactName, supplier.email, supplier.phone]
+											.filter(Boolean)
+											.join(" · ") || "—"}
+									</TableCell>
+									<TableCell>
+										<Badge variant="secondary">
+											{supplier.barcodes.length} códigos
+										</Badge>
+									</TableCell>
+									<TableCell>
+										<Checkbox
+											checked={supplier.isActive}
+											disabled={!canManage || updateSupplier.isPending}
+											onCheckedChange={(checked) =>
+												updateSupplier.mutate({
+													param: { id: supplier.id },
+													json: { isActive: checked === true },
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell className="text-right">
+										{canManage ? (
+											<>
+												<Button
+													onClick={() =>
+														startEditing(supplier.id, supplier.barcodes)
+													}
+													size="icon"
+													title="Editar productos"
+													variant="ghost"
+												>
+													<Package className="h-4 w-4" />
+												</Button>
+												<Button
+													disabled={deleteSupplier.isPending}
+													onClick={() => deleteSupplier.mutate(supplier.id)}
+													size="icon"
+													variant="ghost"
+												>
+													<Trash2 className="h-4 w-4" />
+												</Button>
+											</>
+										) : null}
+									</TableCell>
+								</TableRow>
+								{editingId === supplier.id ? (
+									<TableRow>
+										<TableCell colSpan={5}>
+											<div className="space-y-2">
+												<Label htmlFor={`supplier-barcodes-${supplier.id}`}>
+													Códigos de barras (uno por línea o separados por
+													coma). Un código asignado a otro proveedor pasa a
+													este.
+												</Label>
+												<Textarea
+													id={`supplier-barcodes-${supplier.id}`}
+													onChange={(event) =>
+														setBarcodesDraft(event.target.value)
+													}
+													rows={5}
+													value={barcodesDraft}
+												/>
+												<div className="flex justify-end gap-2">
+													<Button
+														onClick={() => setEditingId(null)}
+														size="sm"
+														variant="ghost"
+													>
+														Cancelar
+													</Button>
+													<Button
+														className="bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+														disabled={setSupplierProducts.isPending}
+														onClick={() => handleSaveBarcodes(supplier.id)}
+														size="sm"
+													>
+														Guardar productos
+													</Button>
+												</div>
+											</div>
+										</TableCell>
+									</TableRow>
+								) : null}
+							</Fragment>
+						))}
+						{!isLoading && suppliers.length === 0 ? (
+							<TableRow>
+								<TableCell
+									className="text-center text-[#687076] dark:text-[#9BA1A6]"
+									colSpan={5}
+								>
+									No hay proveedores registrados
+								</TableCell>
+							</TableRow>
+						) : null}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
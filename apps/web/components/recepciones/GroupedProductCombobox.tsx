@@ -13,13 +13,15 @@ import {
 	CommandList,
 } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { cn } from "@/lib/utils";
+import { cn, formatExpiryDate } from "@/lib/utils";
 
 type ProductItemOption = {
 	productStockId: string;
 	productName: string;
 	barcode: number;
 	description: string;
+	lotNumber: string | null;
+	expiresAt: string | null;
 };
 
 type ProductGroupOption = {
@@ -190,6 +192,14 @@ export function GroupedProductCombobox({
 								{group.items.map((item) => {
 									const isDisabled = draftedIds?.has(item.productStockId);
 									const isSelected = selectedId === item.productStockId;
+									// Items come sorted FEFO, so the first available dated unit is the suggestion
+									const isSuggested =
+										Boolean(item.expiresAt) &&
+										item ===
+											group.items.find(
+												(candidate) =>
+													!draftedIds?.has(candidate.productStockId),
+											);
 									return (
 										<CommandItem
 											className="cursor-pointer text-[#11181C] hover:bg-[#F9FAFB] dark:text-[#ECEDEE] dark:hover:bg-[#2D3033]"
@@ -206,9 +216,25 @@ export function GroupedProductCombobox({
 											value={item.productStockId}
 										>
 											<div className="flex w-full items-center justify-between gap-2">
-												<span className="font-mono text-sm">
-													{item.productStockId}
-												</span>
+												<div className="min-w-0">
+													<span className="block truncate font-mono text-sm">
+														{item.productStockId}
+													</span>
+													{item.expiresAt ? (
+														<span
+															className={cn(
+																"text-xs",
+																isSuggested
+																	? "font-medium text-[#0a7ea4]"
+																	: "text-[#687076] dark:text-[#9BA1A6]",
+															)}
+														>
+															{isSuggested ? "Caduca primero · " : ""}
+															Cad. {formatExpiryDate(item.expiresAt)}
+															{item.lotNumber ? ` · Lote ${item.lotNumber}` : ""}
+														</span>
+													) : null}
+												</div>
 												{isDisabled ? (
 													<span className="text-[#9BA1A6] text-xs dark:text-[#71767B]">
 														En traspaso
@@ -0,0 +1,52 @@
+import type { TransferStatus } from "@/types";
+
+/**
+ * Label and colors of each transfer state, shared by the Recepciones list and
+ * the reception detail header.
+ */
+export const transferStatusBadges: Record<
+	TransferStatus,
+	{ label: string; className: string }
+> = {
+	draft: {
+		label: "Borrador",
+		className:
+			"theme-transition bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-900/20 dark:text-gray-400",
+	},
+	picked: {
+		label: "Surtido",
+		className:
+			"theme-transition bg-sky-100 text-sky-800 hover:bg-sky-200 dark:bg-sky-900/20 dark:text-sky-400",
+	},
+	dispatched: {
+		label: "Despachado",
+		className:
+			"theme-transition bg-indigo-100 text-indigo-800 hover:bg-indigo-200 dark:bg-indigo-900/20 dark:text-indigo-400",
+	},
+	in_transit: {
+		label: "En tránsito",
+		className:
+			"theme-transition bg-orange-100 text-orange-800 hover:bg-orange-200 dark:bg-orange-900/20 dark:text-orange-400",
+	},
+	received: {
+		label: "Recibido",
+		className:
+			"theme-transition bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/20 dark:text-green-400",
+	},
+	closed: {
+		label: "Cerrado",
+		className:
+			"theme-transition bg-emerald-100 text-emerald-800 hover:bg-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400",
+	},
+	cancelled: {
+		label: "Cancelado",
+		className:
+			"theme-transition bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/20 dark:text-red-400",
+	},
+};
+
+/**
+ * Narrows the `status` string sent by the API to a known transfer state.
+ */
+export const isTransferStatus = (value: unknown): value is TransferStatus =>
+	typeof value === "string" && value in transferStatusBadges;
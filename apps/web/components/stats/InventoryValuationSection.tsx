@@ -0,0 +1,156 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { getInventoryValuation } from "@/lib/fetch-functions/inventory";
+import { createQueryKey } from "@/lib/helpers";
+import { queryKeys } from "@/lib/query-keys";
+import { formatCurrency } from "@/lib/utils";
+import type { InventoryValuationResponse } from "@/types";
+
+type InventoryValuationSectionProps = {
+	canViewGlobalScope: boolean;
+	scope: "global" | "warehouse";
+	warehouseId: string | null;
+	resolvedWarehouseId: string | null;
+};
+
+/** Products listed per warehouse, by value */
+const TOP_ITEMS_LIMIT = 5;
+
+export function InventoryValuationSection({
+	canViewGlobalScope,
+	scope,
+	warehouseId,
+	resolvedWarehouseId,
+}: InventoryValuationSectionProps) {
+	const valuationScope = canViewGlobalScope ? scope : "warehouse";
+	const valuationWarehouseId =
+		valuationScope === "warehouse"
+			? (resolvedWarehouseId ?? warehouseId ?? null)
+			: null;
+
+	const { data: valuationResponse } = useSuspenseQuery<
+		InventoryValuationResponse | null,
+		Error,
+		InventoryValuationResponse | null
+	>({
+		queryKey: createQueryKey(queryKeys.inventoryValuation, [
+			valuationScope,
+			valuationWarehouseId ?? "all",
+		]),
+		queryFn: () => getInventoryValuation(valuationWarehouseId ?? undefined),
+	});
+
+	const warehouses = valuationResponse?.success
+		? (valuationResponse.data ?? [])
+		: [];
+	const totalValue = warehouses.reduce(
+		(total, valuation) => total + valuation.totalValue,
+		0,
+	);
+	const totalUnits = warehouses.reduce(
+		(total, valuation) => total + valuation.units,
+		0,
+	);
+	const uncostedUnits = warehouses.reduce(
+		(total, valuation) => total + valuation.uncostedUnits,
+		0,
+	);
+
+	return (
+		<Card className="card-transition">
+			<CardHeader>
+				<CardTitle className="text-base font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+					Valor del inventario
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="grid gap-4">
+				<div className="grid gap-3 md:grid-cols-3">
+					<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<p className="text-xs uppercase text-[#9BA1A6]">Valor total</p>
+						<p className="text-2xl font-semibold text-[#0a7ea4]">
+							{formatCurrency(totalValue)}
+						</p>
+					</div>
+					<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<p className="text-xs uppercase text-[#9BA1A6]">Unidades</p>
+						<p className="text-2xl font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+							{totalUnits}
+						</p>
+					</div>
+					<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<p className="text-xs uppercase text-[#9BA1A6]">Sin costo</p>
+						<p className="text-2xl font-semibold text-[#E85D04]">
+							{uncostedUnits}
+						</p>
+					</div>
+				</div>
+
+				{warehouses.length === 0 ? (
+					<p className="text-center text-sm text-[#687076] dark:text-[#9BA1A6]">
+						Sin inventario para valorar.
+					</p>
+				) : (
+					warehouses.map((valuation) => (
+						<div
+							className="rounded-lg border border-[#E5E7EB] p-4 dark:border-[#2D3033]"
+							key={valuation.warehouseId}
+						>
+							<div className="mb-3 flex items-center justify-between">
+								<p className="font-medium text-[#11181C] dark:text-[#ECEDEE]">
+									{valuation.warehouseName}
+								</p>
+								<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+									{valuation.units} unidades ·{" "}
+									{formatCurrency(valuation.totalValue)}
+								</p>
+							</div>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Barcode</TableHead>
+										<TableHead>Descripción</TableHead>
+										<TableHead className="text-right">Unidades</TableHead>
+										<TableHead className="text-right">Costo promedio</TableHead>
+										<TableHead className="text-right">Valor</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{[...valuation.items]
+										.sort((left, right) => right.totalValue - left.totalValue)
+										.slice(0, TOP_ITEMS_LIMIT)
+										.map((item) => (
+											<TableRow key={`${valuation.warehouseId}-${item.barcode}`}>
+												<TableCell>{item.barcode}</TableCell>
+												<TableCell>
+													{item.description ?? "Sin descripción"}
+												</TableCell>
+												<TableCell className="text-right">{item.units}</TableCell>
+												<TableCell className="text-right">
+													{item.averageUnitCost === null
+														? "—"
+														: formatCurrency(item.averageUnitCost)}
+												</TableCell>
+												<TableCell className="text-right font-medium">
+													{formatCurrency(item.totalValue)}
+												</TableCell>
+											</TableRow>
+										))}
+								</TableBody>
+							</Table>
+						</div>
+					))
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -37,15 +37,18 @@ import {
 	type MermaReason,
 	type MermaScope,
 	type MermaSource,
+	type MermaWriteoffsMonthlyResponse,
 	type MermaWriteoffsSummaryResponse,
 	exportMermaEventsCsv,
 	getMermaMissingTransfersSummary,
 	getMermaWriteoffEvents,
+	getMermaWriteoffsMonthly,
 	getMermaWriteoffsSummary,
 } from "@/lib/fetch-functions/merma";
 import { createQueryKey } from "@/lib/helpers";
 import { queryKeys } from "@/lib/query-keys";
 import type { DateRange } from "@/lib/stats/estadisticas";
+import { formatCurrency } from "@/lib/utils";
 
 type ScopeOption = "global" | "warehouse";
 type EventFilters = {
@@ -66,12 +69,17 @@ type MermaSectionProps = {
 const reasonLabel: Record<MermaReason, string> = {
 	consumido: "Consumido",
 	dañado: "Dañado",
+	caducado: "Caducado",
 	otro: "Otro",
 };
 
 const sourceLabel: Record<MermaSource, string> = {
 	manual: "Baja operativa",
 	transfer_missing: "Faltante transferencia",
+	sync_adjustment: "Ajuste por sincronización",
+	cycle_count: "Conteo cíclico",
+	usage_limit: "Límite de usos",
+	transfer_discrepancy: "Discrepancia transferencia",
 };
 
 function formatIsoDate(value: string): string {
@@ -82,18 +90,42 @@ function formatIsoDate(value: string): string {
 	return format(date, "dd/MM/yyyy HH:mm", { locale: es });
 }
 
+function formatMonth(value: string): string {
+	const [year, month] = value.split("-").map(Number);
+	if (!(year && month)) {
+		return value;
+	}
+	return format(new Date(year, month - 1, 1), "MMMM yyyy", { locale: es });
+}
+
 function getWriteoffTotals(
 	response: MermaWriteoffsSummaryResponse | null,
-): { total: number; consumido: number; dañado: number; otro: number } {
+): {
+	total: number;
+	totalValue: number;
+	consumido: number;
+	dañado: number;
+	caducado: number;
+	otro: number;
+} {
 	if (!response?.success) {
-		return { total: 0, consumido: 0, dañado: 0, otro: 0 };
+		return {
+			total: 0,
+			totalValue: 0,
+			consumido: 0,
+			dañado: 0,
+			caducado: 0,
+			otro: 0,
+		};
 	}
 	const data = response.data;
 	if (data.scope === "global") {
 		return {
 			total: data.totals.total,
+			totalValue: data.totals.totalValue,
 			consumido: data.totals.consumido,
 			dañado: data.totals.dañado,
+			caducado: data.totals.caducado,
 			otro: data.totals.otro,
 		};
 	}
@@ -104,11 +136,16 @@ function getWriteoffTotals(
 	const damaged = data.reasonSummary.find(
 		(item) => item.reason === "dañado",
 	)?.total;
+	const expired = data.reasonSummary.find(
+		(item) => item.reason === "caducado",
+	)?.total;
 	const other = data.reasonSummary.find((item) => item.reason === "otro")?.total;
 	return {
 		total: data.total,
+		totalValue: data.totalValue,
 		consumido: consumed ?? 0,
 		dañado: damaged ?? 0,
+		caducado: expired ?? 0,
 		otro: other ?? 0,
 	};
 }
@@ -180,6 +217,26 @@ export function MermaSection({
 			}),
 	});
 
+	const { data: monthlyResponse } = useSuspenseQuery<
+		MermaWriteoffsMonthlyResponse | null,
+		Error,
+		MermaWriteoffsMonthlyResponse | null
+	>({
+		queryKey: createQueryKey(queryKeys.mermaWriteoffsMonthly, [
+			mermaScope,
+			mermaWarehouseId ?? "all",
+			startIso,
+			endIso,
+		]),
+		queryFn: () =>
+			getMermaWriteoffsMonthly({
+				start: startIso,
+				end: endIso,
+				scope: mermaScope,
+				...(mermaWarehouseId ? { warehouseId: mermaWarehouseId } : {}),
+			}),
+	});
+
 	const writeoffTotals = useMemo(
 		() => getWriteoffTotals(writeoffsSummaryResponse),
 		[writeoffsSummaryResponse],
@@ -265,6 +322,7 @@ export function MermaSection({
 		writeoffsSummaryResponse?.success ? writeoffsSummaryResponse.data : null;
 	const missingSummaryData =
 		missingSummaryResponse?.success ? missingSummaryResponse.data : null;
+	const monthlyData = monthlyResponse?.success ? monthlyResponse.data : null;
 
 	return (
 		<section className="grid gap-4">
@@ -296,12 +354,15 @@ export function MermaSection({
 					</div>
 				</CardHeader>
 				<CardContent className="grid gap-4">
-					<div className="grid gap-3 md:grid-cols-4">
+					<div className="grid gap-3 md:grid-cols-5">
 						<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
 							<p className="text-xs uppercase text-[#9BA1A6]">Total</p>
 							<p className="text-2xl font-semibold text-[#11181C] dark:text-[#ECEDEE]">
 								{writeoffTotals.total}
 							</p>
+							<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+								{formatCurrency(writeoffTotals.totalValue)}
+							</p>
 						</div>
 						<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
 							<p className="text-xs uppercase text-[#9BA1A6]">Consumido</p>
@@ -315,6 +376,12 @@ export function MermaSection({
 								{writeoffTotals.dañado}
 							</p>
 						</div>
+						<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
+							<p className="text-xs uppercase text-[#9BA1A6]">Caducado</p>
+							<p className="text-2xl font-semibold text-[#7C3AED]">
+								{writeoffTotals.caducado}
+							</p>
+						</div>
 						<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
 							<p className="text-xs uppercase text-[#9BA1A6]">Otro</p>
 							<p className="text-2xl font-semibold text-[#0a7ea4]">
@@ -330,8 +397,10 @@ export function MermaSection({
 									<TableHead>Almacén</TableHead>
 									<TableHead className="text-right">Consumido</TableHead>
 									<TableHead className="text-right">Dañado</TableHead>
+									<TableHead className="text-right">Caducado</TableHead>
 									<TableHead className="text-right">Otro</TableHead>
 									<TableHead className="text-right">Total</TableHead>
+									<TableHead className="text-right">Valor</TableHead>
 								</TableRow>
 							</TableHeader>
 							<TableBody>
@@ -340,10 +409,16 @@ export function MermaSection({
 										<TableCell>{row.warehouseName}</TableCell>
 										<TableCell className="text-right">{row.consumido}</TableCell>
 										<TableCell className="text-right">{row.dañado}</TableCell>
+										<TableCell className="text-right">
+											{row.caducado}
+										</TableCell>
 										<TableCell className="text-right">{row.otro}</TableCell>
 										<TableCell className="text-right font-medium">
 											{row.total}
 										</TableCell>
+										<TableCell className="text-right font-medium">
+											{formatCurrency(row.totalValue)}
+										</TableCell>
 									</TableRow>
 								))}
 							</TableBody>
@@ -362,7 +437,8 @@ export function MermaSection({
 											{reasonLabel[reason.reason]}
 										</p>
 										<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
-											{reason.total} ({reason.percentage}%)
+											{reason.total} ({reason.percentage}%) ·{" "}
+											{formatCurrency(reason.value)}
 										</p>
 									</div>
 									<Table>
@@ -371,6 +447,7 @@ export function MermaSection({
 												<TableHead>Barcode</TableHead>
 												<TableHead>Descripción</TableHead>
 												<TableHead className="text-right">Total</TableHead>
+												<TableHead className="text-right">Valor</TableHead>
 											</TableRow>
 										</TableHeader>
 										<TableBody>
@@ -386,13 +463,16 @@ export function MermaSection({
 														<TableCell className="text-right">
 															{product.total}
 														</TableCell>
+														<TableCell className="text-right">
+															{formatCurrency(product.value)}
+														</TableCell>
 													</TableRow>
 												))
 											) : (
 												<TableRow>
 													<TableCell
 														className="text-center text-[#687076] dark:text-[#9BA1A6]"
-														colSpan={3}
+														colSpan={4}
 													>
 														Sin productos para este motivo.
 													</TableCell>
@@ -407,6 +487,64 @@ export function MermaSection({
 				</CardContent>
 			</Card>
 
+			<Card className="card-transition">
+				<CardHeader>
+					<CardTitle className="text-base font-semibold text-[#11181C] dark:text-[#ECEDEE]">
+						Merma - Impacto por mes
+					</CardTitle>
+				</CardHeader>
+				<CardContent className="grid gap-4">
+					<div className="rounded-lg border border-[#E5E7EB] bg-[#F9FAFB] p-4 dark:border-[#2D3033] dark:bg-[#1E1F20]">
+						<p className="text-xs uppercase text-[#9BA1A6]">Valor total</p>
+						<p className="text-2xl font-semibold text-[#C1121F]">
+							{formatCurrency(monthlyData?.totals.value ?? 0)}
+						</p>
+						<p className="text-sm text-[#687076] dark:text-[#9BA1A6]">
+							{monthlyData?.totals.quantity ?? 0} unidades, todas las fuentes
+						</p>
+					</div>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Mes</TableHead>
+								<TableHead>Almacén</TableHead>
+								<TableHead className="text-right">Unidades</TableHead>
+								<TableHead className="text-right">Sin costo</TableHead>
+								<TableHead className="text-right">Valor</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{monthlyData && monthlyData.rows.length > 0 ? (
+								monthlyData.rows.map((row) => (
+									<TableRow key={`${row.month}-${row.warehouseId}`}>
+										<TableCell className="capitalize">
+											{formatMonth(row.month)}
+										</TableCell>
+										<TableCell>{row.warehouseName}</TableCell>
+										<TableCell className="text-right">{row.quantity}</TableCell>
+										<TableCell className="text-right">
+											{row.uncostedQuantity}
+										</TableCell>
+										<TableCell className="text-right font-medium">
+											{formatCurrency(row.value)}
+										</TableCell>
+									</TableRow>
+								))
+							) : (
+								<TableRow>
+									<TableCell
+										className="text-center text-[#687076] dark:text-[#9BA1A6]"
+										colSpan={5}
+									>
+										Sin merma en el periodo.
+									</TableCell>
+								</TableRow>
+							)}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+
 			<Card className="card-transition">
 				<CardHeader className="flex flex-row items-center justify-between">
 					<CardTitle className="text-base font-semibold text-[#11181C] dark:text-[#ECEDEE]">
@@ -511,6 +649,14 @@ export function MermaSection({
 									<SelectItem value="transfer_missing">
 										Faltante transferencia
 									</SelectItem>
+									<SelectItem value="sync_adjustment">
+										Ajuste por sincronización
+									</SelectItem>
+									<SelectItem value="cycle_count">Conteo cíclico</SelectItem>
+									<SelectItem value="usage_limit">Límite de usos</SelectItem>
+									<SelectItem value="transfer_discrepancy">
+										Discrepancia transferencia
+									</SelectItem>
 								</SelectContent>
 							</Select>
 						</div>
@@ -533,6 +679,7 @@ export function MermaSection({
 									<SelectItem value="all">Todos</SelectItem>
 									<SelectItem value="consumido">Consumido</SelectItem>
 									<SelectItem value="dañado">Dañado</SelectItem>
+									<SelectItem value="caducado">Caducado</SelectItem>
 									<SelectItem value="otro">Otro</SelectItem>
 								</SelectContent>
 							</Select>
@@ -577,6 +724,7 @@ export function MermaSection({
 								<TableHead>Almacén</TableHead>
 								<TableHead>Barcode</TableHead>
 								<TableHead className="text-right">Cantidad</TableHead>
+								<TableHead className="text-right">Costo unitario</TableHead>
 								<TableHead>Notas</TableHead>
 							</TableRow>
 						</TableHeader>
@@ -585,7 +733,7 @@ export function MermaSection({
 								<TableRow>
 									<TableCell
 										className="text-center text-[#687076] dark:text-[#9BA1A6]"
-										colSpan={7}
+										colSpan={8}
 									>
 										{eventsLoading
 											? "Cargando eventos..."
@@ -601,6 +749,11 @@ export function MermaSection({
 										<TableCell>{item.warehouseName}</TableCell>
 										<TableCell>{item.productBarcode}</TableCell>
 										<TableCell className="text-right">{item.quantity}</TableCell>
+										<TableCell className="text-right">
+											{item.unitCost === null
+												? "—"
+												: formatCurrency(item.unitCost)}
+										</TableCell>
 										<TableCell>{item.notes ?? "—"}</TableCell>
 									</TableRow>
 								))
@@ -0,0 +1,457 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, KeyRound, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	getWebhookDeliveries,
+	getWebhookSubscriptions,
+} from "@/lib/fetch-functions/webhooks";
+import {
+	useCreateWebhookSubscription,
+	useDeleteWebhookSubscription,
+	useReplayWebhookDelivery,
+	useUpdateWebhookSubscription,
+} from "@/lib/mutations/webhooks";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+import type { WebhookDeliveryStatus, WebhookEventType } from "@/types";
+
+const ALL_SUBSCRIPTIONS = "all";
+
+// The worker sends queued deliveries every few seconds, so the log is polled while open
+const DELIVERIES_REFETCH_INTERVAL_MS = 15_000;
+
+const eventTypeLabel: Record<WebhookEventType, string> = {
+	"transfer.completed": "Traspaso completado",
+	"shrinkage.recorded": "Merma registrada",
+	"replenishment_order.sent": "Pedido enviado a CEDIS",
+};
+
+const deliveryStatusLabel: Record<WebhookDeliveryStatus, string> = {
+	pending: "Pendiente",
+	processing: "Enviando",
+	succeeded: "Entregado",
+	failed: "Fallido",
+};
+
+const deliveryStatusClassName: Record<WebhookDeliveryStatus, string> = {
+	pending:
+		"bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+	processing: "bg-[#0a7ea4]/10 text-[#0a7ea4]",
+	succeeded:
+		"bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+	failed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+};
+
+/**
+ * Outbound webhooks for the Ajustes page: subscriptions with their events and signing secret,
+ * and the delivery log with the option to send a finished delivery again.
+ */
+export function WebhookSubscriptions() {
+	const { data: subscriptionsResponse, isLoading } = useQuery({
+		queryKey: queryKeys.webhookSubscriptions,
+		queryFn: getWebhookSubscriptions,
+	});
+	const [logSubscriptionId, setLogSubscriptionId] =
+		useState<string>(ALL_SUBSCRIPTIONS);
+	const { data: deliveriesResponse } = useQuery({
+		queryKey: [...queryKeys.webhookDeliveries, logSubscriptionId],
+		queryFn: () =>
+			getWebhookDeliveries(
+				logSubscriptionId === ALL_SUBSCRIPTIONS ? undefined : logSubscriptionId,
+			),
+		refetchInterval: DELIVERIES_REFETCH_INTERVAL_MS,
+	});
+	const createSubscription = useCreateWebhookSubscription();
+	const updateSubscription = useUpdateWebhookSubscription();
+	const deleteSubscription = useDeleteWebhookSubscription();
+	const replayDelivery = useReplayWebhookDelivery();
+
+	const [name, setName] = useState("");
+	const [url, setUrl] = useState("");
+	const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+	// Secrets are only returned on create or rotation, so the last one is kept until dismissed
+	const [revealedSecret, setRevealedSecret] = useState<{
+		name: string;
+		secret: string;
+	} | null>(null);
+
+	const subscriptions = subscriptionsResponse?.success
+		? (subscriptionsResponse.data ?? [])
+		: [];
+	const deliveries = deliveriesResponse?.success
+		? (deliveriesResponse.data ?? [])
+		: [];
+	const subscriptionName = (id: string) =>
+		subscriptions.find((subscription) => subscription.id === id)?.name ?? "—";
+
+	const canCreate =
+		name.trim() !== "" &&
+		/^https?:\/\//.test(url.trim()) &&
+		eventTypes.length > 0;
+
+	const toggleEventType = (type: WebhookEventType, checked: boolean) => {
+		setEventTypes((current) =>
+			checked ? [...current, type] : current.filter((item) => item !== type),
+		);
+	};
+
+	const handleCreate = () => {
+		createSubscription.mutate(
+			{ json: { name: name.trim(), url: url.trim(), eventTypes } },
+			{
+				onSuccess: (result) => {
+					setRevealedSecret({
+						name: result.data.name,
+						secret: result.data.secret,
+					});
+					setName("");
+					setUrl("");
+					setEventTypes([]);
+				},
+			},
+		);
+	};
+
+	const handleRotate = (id: string) => {
+		updateSubscription.mutate(
+			{ param: { id }, json: { rotateSecret: true } },
+			{
+				onSuccess: (result) => {
+					if ("secret" in result.data) {
+						setRevealedSecret({
+							name: result.data.name,
+							secret: result.data.secret,
+						});
+					}
+				},
+			},
+		);
+	};
+
+	const copySecret = async (secret: string) => {
+		await navigator.clipboard.writeText(secret);
+		toast.success("Secreto copiado", { id: "copy-webhook-secret" });
+	};
+
+	return (
+		<div className="space-y-6">
+			<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2 text-[#11181C] dark:text-[#ECEDEE]">
+						<Webhook className="h-5 w-5 text-[#0a7ea4]" />
+						Webhooks
+					</CardTitle>
+					<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+						Envía los eventos de inventario a sistemas externos. Cada envío va
+						firmado con HMAC-SHA256 en el encabezado X-ALR-Signature y se
+						reintenta automáticamente si el receptor falla.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-6">
+					<div className="grid gap-4 md:grid-cols-3">
+						<div className="space-y-2">
+							<Label htmlFor="webhook-name">Nombre</Label>
+							<Input
+								id="webhook-name"
+								onChange={(event) => setName(event.target.value)}
+								placeholder="ERP contabilidad"
+								value={name}
+							/>
+						</div>
+						<div className="space-y-2 md:col-span-2">
+							<Label htmlFor="webhook-url">URL</Label>
+							<Input
+								id="webhook-url"
+								onChange={(event) => setUrl(event.target.value)}
+								placeholder="https://erp.example.com/webhooks/alr"
+								type="url"
+								value={url}
+							/>
+						</div>
+						<div className="space-y-2 md:col-span-2">
+							<Label>Eventos</Label>
+							<div className="flex flex-wrap gap-4">
+								{Object.entries(eventTypeLabel).map(([value, label]) => (
+									<div className="flex items-center gap-2" key={value}>
+										<Checkbox
+											checked={eventTypes.includes(value as WebhookEventType)}
+											id={`webhook-event-${value}`}
+											onCheckedChange={(checked) =>
+												toggleEventType(
+													value as WebhookEventType,
+													checked === true,
+												)
+											}
+										/>
+										<Label htmlFor={`webhook-event-${value}`}>{label}</Label>
+									</div>
+								))}
+							</div>
+						</div>
+						<div className="flex items-end">
+							<Button
+								className="w-full bg-[#0a7ea4] text-white hover:bg-[#0a7ea4]/90"
+								disabled={createSubscription.isPending || !canCreate}
+								onClick={handleCreate}
+							>
+								Agregar webhook
+							</Button>
+						</div>
+					</div>
+
+					{revealedSecret ? (
+						<div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-900/20">
+							<p className="font-medium text-[#11181C] text-sm dark:text-[#ECEDEE]">
+								Secreto de «{revealedSecret.name}»
+							</p>
+							<p className="text-[#687076] text-xs dark:text-[#9BA1A6]">
+								Guárdalo ahora: no se volverá a mostrar. Si lo pierdes, genera
+								uno nuevo.
+							</p>
+							<div className="flex items-center gap-2">
+								<code className="flex-1 break-all rounded bg-white px-2 py-1 text-xs dark:bg-[#1E1F20]">
+									{revealedSecret.secret}
+								</code>
+								<Button
+									onClick={() => copySecret(revealedSecret.secret)}
+									size="icon"
+									variant="outline"
+								>
+									<Copy className="h-4 w-4" />
+								</Button>
+								<Button
+									onClick={() => setRevealedSecret(null)}
+									size="sm"
+									variant="ghost"
+								>
+									Listo
+								</Button>
+							</div>
+						</div>
+					) : null}
+
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Nombre</TableHead>
+								<TableHead>URL</TableHead>
+								<TableHead>Eventos</TableHead>
+								<TableHead>Secreto</TableHead>
+								<TableHead>Activo</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{subscriptions.map((subscription) => (
+								<TableRow key={subscription.id}>
+									<TableCell className="font-medium">
+										{subscription.name}
+									</TableCell>
+									<TableCell className="max-w-64 truncate font-mono text-xs">
+										{subscription.url}
+									</TableCell>
+									<TableCell>
+										<div className="flex flex-wrap gap-1">
+											{subscription.eventTypes.map((type) => (
+												<Badge key={type} variant="secondary">
+													{eventTypeLabel[type]}
+												</Badge>
+											))}
+										</div>
+									</TableCell>
+									<TableCell className="font-mono text-xs">
+										{subscription.secretHint}
+									</TableCell>
+									<TableCell>
+										<Checkbox
+											checked={subscription.isActive}
+											disabled={updateSubscription.isPending}
+											onCheckedChange={(checked) =>
+												updateSubscription.mutate({
+													param: { id: subscription.id },
+													json: { isActive: checked === true },
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell className="text-right">
+										<Button
+											disabled={updateSubscription.isPending}
+											onClick={() => handleRotate(subscription.id)}
+											size="icon"
+											title="Generar nuevo secreto"
+											variant="ghost"
+										>
+											<KeyRound className="h-4 w-4" />
+										</Button>
+										<Button
+											disabled={deleteSubscription.isPending}
+											onClick={() => deleteSubscription.mutate(subscription.id)}
+											size="icon"
+											variant="ghost"
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</TableCell>
+								</TableRow>
+							))}
+							{!isLoading && subscriptions.length === 0 ? (
+								<TableRow>
+									<TableCell
+										className="text-center text-[#687076] dark:text-[#9BA1A6]"
+										colSpan={6}
+									>
+										No hay webhooks configurados
+									</TableCell>
+								</TableRow>
+							) : null}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+
+			<Card className="card-transition border-[#E5E7EB] bg-white dark:border-[#2D3033] dark:bg-[#1E1F20]">
+				<CardHeader className="flex flex-row items-start justify-between gap-4">
+					<div className="space-y-1.5">
+						<CardTitle className="text-[#11181C] dark:text-[#ECEDEE]">
+							Registro de entregas
+						</CardTitle>
+						<CardDescription className="text-[#687076] dark:text-[#9BA1A6]">
+							Últimos envíos con su resultado. Un reenvío crea una entrega nueva
+							con el mismo ID de evento.
+						</CardDescription>
+					</div>
+					<Select
+						onValueChange={setLogSubscriptionId}
+						value={logSubscriptionId}
+					>
+						<SelectTrigger className="w-56">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={ALL_SUBSCRIPTIONS}>
+								Todos los webhooks
+							</SelectItem>
+							{subscriptions.map((subscription) => (
+								<SelectItem key={subscription.id} value={subscription.id}>
+									{subscription.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</CardHeader>
+				<CardContent>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Fecha</TableHead>
+								<TableHead>Webhook</TableHead>
+								<TableHead>Evento</TableHead>
+								<TableHead>Estado</TableHead>
+								<TableHead>Intentos</TableHead>
+								<TableHead>Respuesta</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{deliveries.map((delivery) => (
+								<TableRow key={delivery.id}>
+									<TableCell className="whitespace-nowrap text-sm">
+										{format(new Date(delivery.createdAt), "dd/MM/yyyy HH:mm")}
+									</TableCell>
+									<TableCell>
+										{subscriptionName(delivery.subscriptionId)}
+									</TableCell>
+									<TableCell>
+										{eventTypeLabel[delivery.eventType]}
+										{delivery.replayOfDeliveryId ? (
+											<span className="ml-1 text-[#687076] text-xs dark:text-[#9BA1A6]">
+												(reenvío)
+											</span>
+										) : null}
+									</TableCell>
+									<TableCell>
+										<Badge
+											className={cn(
+												"border-transparent",
+												deliveryStatusClassName[delivery.status],
+											)}
+										>
+											{deliveryStatusLabel[delivery.status]}
+										</Badge>
+									</TableCell>
+									<TableCell>
+										{delivery.attempts}/{delivery.maxAttempts}
+									</TableCell>
+									<TableCell
+										className="max-w-64 truncate text-xs"
+										title={delivery.lastError ?? delivery.lastResponseBody ?? ""}
+									>
+										{delivery.lastStatusCode ?? "—"}
+										{delivery.lastError ? ` · ${delivery.lastError}` : ""}
+									</TableCell>
+									<TableCell className="text-right">
+										<Button
+											disabled={
+												replayDelivery.isPending ||
+												delivery.status === "pending" ||
+												delivery.status === "processing"
+											}
+											onClick={() => replayDelivery.mutate(delivery.id)}
+											size="sm"
+											variant="outline"
+										>
+											<RotateCcw className="mr-1 h-4 w-4" />
+											Reenviar
+										</Button>
+									</TableCell>
+								</TableRow>
+							))}
+							{deliveries.length === 0 ? (
+								<TableRow>
+									<TableCell
+										className="text-center text-[#687076] dark:text-[#9BA1A6]"
+										colSpan={7}
+									>
+										Sin entregas registradas
+									</TableCell>
+								</TableRow>
+							) : null}
+						</TableBody>
+					</Table>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryKeys } from "@/lib/query-keys";
+
+const DOMAIN_EVENTS_STREAM_PATH = "/api/auth/events/stream";
+
+type DomainEventType =
+	| "stock.changed"
+	| "transfer.created"
+	| "transfer.status_changed"
+	| "transfer.items_updated"
+	| "kit.updated";
+
+const transferQueryKeys = [
+	queryKeys.receptions,
+	queryKeys.recepcionDetail,
+	queryKeys.transferDiscrepancies,
+	queryKeys.approvalQueue,
+];
+
+/**
+ * Query caches made stale by each domain event type. Keys are prefixes, so a key such as
+ * `queryKeys.inventory` also covers the per-warehouse inventory queries.
+ */
+const invalidatedQueryKeys: Record<DomainEventType, string[][]> = {
+	"stock.changed": [
+		queryKeys.inventory,
+		queryKeys.deletedAndEmptyProductStock,
+		queryKeys.kits,
+		queryKeys.stockLimits,
+		queryKeys.usageLimitAlerts,
+		queryKeys.expiringProductStock,
+		queryKeys.inventoryValuation,
+		queryKeys.unfulfilledProducts,
+		queryKeys.mermaWriteoffsSummary,
+		queryKeys.mermaWriteoffsMonthly,
+		queryKeys.mermaWriteoffsEvents,
+		queryKeys.mermaMissingTransfersSummary,
+	],
+	"transfer.created": transferQueryKeys,
+	"transfer.status_changed": [...transferQueryKeys, queryKeys.mermaMissingTransfersSummary],
+	"transfer.items_updated": [...transferQueryKeys, queryKeys.mermaMissingTransfersSummary],
+	"kit.updated": [queryKeys.kits],
+};
+
+/**
+ * Subscribes to the API domain events stream and invalidates the affected query caches, so
+ * screens refresh when another user or device changes stock, transfers or kits.
+ * The browser reconnects the EventSource on its own after network errors.
+ *
+ * Mount once, inside the dashboard layout.
+ */
+export function useDomainEvents() {
+	const queryClient = useQueryClient();
+
+	useEffect(() => {
+		const eventSource = new EventSource(DOMAIN_EVENTS_STREAM_PATH, {
+			withCredentials: true,
+		});
+
+		const listeners = Object.entries(invalidatedQueryKeys).map(([type, keys]) => {
+			const listener = () => {
+				for (const queryKey of keys) {
+					queryClient.invalidateQueries({ queryKey });
+				}
+			};
+			eventSource.addEventListener(type, listener);
+			return { type, listener };
+		});
+
+		return () => {
+			for (const { type, listener } of listeners) {
+				eventSource.removeEventListener(type, listener);
+			}
+			eventSource.close();
+		};
+	}, [queryClient]);
+}
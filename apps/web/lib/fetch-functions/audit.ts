@@ -0,0 +1,57 @@
+/** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
+
+"use client";
+
+import { client } from "../client";
+
+export type AuditEntityType =
+	| "warehouse"
+	| "stock_limit"
+	| "user"
+	| "kit"
+	| "kit_item"
+	| "warehouse_transfer"
+	| "warehouse_transfer_detail"
+	| "replenishment_order"
+	| "role_permissions";
+
+export type AuditAction = "create" | "update" | "delete" | "status_change";
+
+export type AuditLogFilters = {
+	entityType?: AuditEntityType;
+	entityId?: string;
+	actorUserId?: string;
+	action?: AuditAction;
+	start?: string;
+	end?: string;
+};
+
+/**
+ * Fetches one page of the audit log, newest first (requires `audit.view`).
+ *
+ * @param filters - Optional entity, actor, action and date filters.
+ * @param cursor - Optional cursor returned by the previous page.
+ * @returns A promise that resolves to the API response with entries and nextCursor, or null if the request fails.
+ */
+export const getAuditLogs = async (
+	filters: AuditLogFilters = {},
+	cursor?: string,
+) => {
+	try {
+		const response = await client.api.auth.audit.$get({
+			query: {
+				...(filters.entityType ? { entityType: filters.entityType } : {}),
+				...(filters.entityId ? { entityId: filters.entityId } : {}),
+				...(filters.actorUserId ? { actorUserId: filters.actorUserId } : {}),
+				...(filters.action ? { action: filters.action } : {}),
+				...(filters.start ? { start: filters.start } : {}),
+				...(filters.end ? { end: filters.end } : {}),
+				...(cursor ? { cursor } : {}),
+			},
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
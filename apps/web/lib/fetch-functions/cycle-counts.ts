@@ -0,0 +1,73 @@
+/** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
+
+"use client";
+
+import { client } from "../client";
+
+export type CycleCountStatus = "open" | "closed" | "cancelled";
+
+/**
+ * Fetches cycle counts, newest first. Non-admin users only receive counts of their warehouse.
+ *
+ * @param params - Optional warehouse and status filters.
+ * @returns A promise that resolves to the API response, or null if the request fails.
+ */
+export const getCycleCounts = async (params?: {
+	warehouseId?: string;
+	status?: CycleCountStatus;
+}) => {
+	try {
+		const response = await client.api.auth["cycle-counts"].all.$get({
+			query: {
+				...(params?.warehouseId ? { warehouseId: params.warehouseId } : {}),
+				...(params?.status ? { status: params.status } : {}),
+			},
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Fetches a cycle count with its items and live variance.
+ *
+ * @param id - Cycle count identifier.
+ * @returns A promise that resolves to the API response, or null if the request fails.
+ */
+export const getCycleCountById = async (id: string) => {
+	try {
+		const response = await client.api.auth["cycle-counts"][":id"].$get({
+			param: { id },
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Downloads the variance report of a cycle count as CSV text.
+ *
+ * @param id - Cycle count identifier.
+ * @returns The CSV payload, or null if the request fails.
+ */
+export const exportCycleCountReportCsv = async (
+	id: string,
+): Promise<string | null> => {
+	try {
+		const response = await client.api.auth["cycle-counts"][":id"].report.$get({
+			param: { id },
+			query: { format: "csv" },
+		});
+		if (!response.ok) {
+			return null;
+		}
+		return await response.text();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
@@ -2,6 +2,10 @@
 // Client-side fetch functions for inventory, use tRPC as much as possible
 
 "use client";
+import type {
+	ExpiringUnitsResponse,
+	InventoryValuationResponse,
+} from "@/types";
 import { client } from "../client";
 
 export const getInventory = async () => {
@@ -17,7 +21,33 @@ export const getInventory = async () => {
 
 export const getAllProductStock = async () => {
 	try {
-		const response = await client.api.auth["product-stock"].all.$get();
+		const response = await client.api.auth["product-stock"].all.$get({
+			query: {},
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Pagination, sort and filter params of the product stock lists (`limit`, `cursor`, `sort`,
+ * `barcode`, `q`, `isEmpty`, `cabinetId`, `start`, `end`).
+ */
+export type ProductStockListQuery = Parameters<
+	(typeof client.api.auth)["product-stock"]["all"]["$get"]
+>[0]["query"];
+
+/**
+ * Fetches one page of product stock across the user's warehouse scope.
+ * The cursor of the next page is returned in `meta[0].nextCursor`.
+ */
+export const getProductStockPage = async (query: ProductStockListQuery) => {
+	try {
+		const response = await client.api.auth["product-stock"].all.$get({
+			query,
+		});
 		return response.json();
 	} catch (error) {
 		console.error(error);
@@ -39,9 +69,30 @@ export const getInventoryByWarehouse = async (warehouseId: string) => {
 	}
 };
 
+/**
+ * Fetches one page of product stock of a warehouse and its cabinet.
+ * The cursor of the next page is returned in `meta[0].nextCursor`.
+ */
+export const getInventoryPageByWarehouse = async (
+	warehouseId: string,
+	query: ProductStockListQuery,
+) => {
+	try {
+		const response = await client.api.auth["product-stock"][
+			"by-warehouse"
+		].$get({
+			query: { ...query, warehouseId },
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
 export const getAllProducts = async () => {
 	try {
-		const response = await client.api.auth.products.all.$get();
+		const response = await client.api.auth.products.all.$get({ query: {} });
 		return response.json();
 	} catch (error) {
 		console.error(error);
@@ -94,3 +145,79 @@ export const getDeletedAndEmptyProductStock = async () => {
 		return null;
 	}
 };
+
+/**
+ * Fetches the persisted inventory sync runs (manual and scheduled), newest first.
+ *
+ * @param cursor - Optional cursor returned by the previous page.
+ * @returns A promise that resolves to the API response with runs and nextCursor, or null if the request fails.
+ */
+export const getInventorySyncRuns = async (cursor?: string) => {
+	try {
+		const response = await client.api.auth.inventory["sync-runs"].$get({
+			query: cursor ? { cursor } : {},
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Fetches a single inventory sync run with its per-warehouse summaries and the previous run.
+ *
+ * @param id - Sync run identifier.
+ * @returns A promise that resolves to the API response, or null if the request fails.
+ */
+export const getInventorySyncRunDetail = async (id: string) => {
+	try {
+		const response = await client.api.auth.inventory["sync-runs"][":id"].$get({
+			param: { id },
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Fetches the expired units and the units expiring in the next 30 days.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to list every warehouse in scope.
+ * @returns A promise that resolves to the API response, or null if the request fails.
+ */
+export const getExpiringProductStock = async (
+	warehouseId?: string,
+): Promise<ExpiringUnitsResponse | null> => {
+	try {
+		const response = await client.api.auth["product-stock"].expiring.$get({
+			query: warehouseId ? { warehouseId } : {},
+		});
+		return response.json() as Promise<ExpiringUnitsResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Fetches the value of the units on hand per warehouse.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to value every warehouse in scope.
+ * @returns A promise that resolves to the API response, or null if the request fails.
+ */
+export const getInventoryValuation = async (
+	warehouseId?: string,
+): Promise<InventoryValuationResponse | null> => {
+	try {
+		const response = await client.api.auth["product-stock"].valuation.$get({
+			query: warehouseId ? { warehouseId } : {},
+		});
+		return response.json() as Promise<InventoryValuationResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
@@ -8,7 +8,31 @@ import { client } from "@/lib/client";
  */
 export const getAllKits = async () => {
 	try {
-		const response = await client.api.auth.kits.all.$get();
+		const response = await client.api.auth.kits.all.$get({ query: {} });
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Pagination, sort and filter params of the kit list (`limit`, `cursor`, `sort`,
+ * `employeeId`, `isComplete`, `start`, `end`).
+ */
+export type KitListQuery = Parameters<
+	typeof client.api.auth.kits.all.$get
+>[0]["query"];
+
+/**
+ * Fetches one page of kits
+ *
+ * @param {KitListQuery} query - Pagination, sort and filter params
+ * @returns Promise resolving to the page, with the next cursor in `meta[0].nextCursor`, or null if the request fails
+ */
+export const getKitsPage = async (query: KitListQuery) => {
+	try {
+		const response = await client.api.auth.kits.all.$get({ query });
 		return response.json();
 	} catch (error) {
 		console.error(error);
@@ -3,8 +3,14 @@
 import { client } from "../client";
 
 export type MermaScope = "global" | "warehouse";
-export type MermaReason = "consumido" | "dañado" | "otro";
-export type MermaSource = "manual" | "transfer_missing";
+export type MermaReason = "consumido" | "dañado" | "caducado" | "otro";
+export type MermaSource =
+	| "manual"
+	| "transfer_missing"
+	| "sync_adjustment"
+	| "cycle_count"
+	| "usage_limit"
+	| "transfer_discrepancy";
 
 type ApiEnvelope<TData> = {
 	success: boolean;
@@ -17,8 +23,10 @@ export type MermaWriteoffsGlobalRow = {
 	warehouseName: string;
 	consumido: number;
 	dañado: number;
+	caducado: number;
 	otro: number;
 	total: number;
+	totalValue: number;
 	percentageOfGlobal: number;
 };
 
@@ -28,10 +36,13 @@ export type MermaWriteoffsGlobalSummary = {
 	totals: {
 		consumido: number;
 		dañado: number;
+		caducado: number;
 		otro: number;
 		total: number;
+		totalValue: number;
 		consumidoPct: number;
 		dañadoPct: number;
+		caducadoPct: number;
 		otroPct: number;
 	};
 };
@@ -39,11 +50,13 @@ export type MermaWriteoffsGlobalSummary = {
 export type MermaWriteoffsReasonSummary = {
 	reason: MermaReason;
 	total: number;
+	value: number;
 	percentage: number;
 	topProducts: Array<{
 		barcode: number;
 		description: string | null;
 		total: number;
+		value: number;
 	}>;
 };
 
@@ -52,6 +65,7 @@ export type MermaWriteoffsWarehouseSummary = {
 	warehouseId: string | null;
 	warehouseName: string | null;
 	total: number;
+	totalValue: number;
 	reasonSummary: MermaWriteoffsReasonSummary[];
 };
 
@@ -65,6 +79,7 @@ export type MermaEventsRow = {
 	source: MermaSource;
 	reason: MermaReason;
 	quantity: number;
+	unitCost: number | null;
 	notes: string | null;
 	warehouseId: string;
 	warehouseName: string;
@@ -81,6 +96,28 @@ export type MermaEventsResponse = ApiEnvelope<{
 	nextCursor: string | null;
 }>;
 
+/**
+ * Peso value of merma per warehouse and month (in the warehouse time zone), all sources.
+ */
+export type MermaMonthlyRow = {
+	month: string;
+	warehouseId: string;
+	warehouseName: string;
+	quantity: number;
+	value: number;
+	uncostedQuantity: number;
+};
+
+export type MermaWriteoffsMonthlyResponse = ApiEnvelope<{
+	scope: MermaScope;
+	warehouseId: string | null;
+	rows: MermaMonthlyRow[];
+	totals: {
+		quantity: number;
+		value: number;
+	};
+}>;
+
 export type MermaMissingGlobalSummary = {
 	scope: "global";
 	rows: Array<{
@@ -138,6 +175,25 @@ export const getMermaWriteoffsSummary = async (
 	}
 };
 
+export const getMermaWriteoffsMonthly = async (
+	params: BaseMermaQuery,
+): Promise<MermaWriteoffsMonthlyResponse | null> => {
+	try {
+		const response = await client.api.auth.merma.writeoffs.monthly.$get({
+			query: {
+				start: params.start,
+				end: params.end,
+				scope: params.scope,
+				...(params.warehouseId ? { warehouseId: params.warehouseId } : {}),
+			},
+		});
+		return (await response.json()) as MermaWriteoffsMonthlyResponse;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
 export const getMermaMissingTransfersSummary = async (
 	params: BaseMermaQuery,
 ): Promise<MermaMissingTransfersSummaryResponse | null> => {
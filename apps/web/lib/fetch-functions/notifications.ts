@@ -0,0 +1,32 @@
+/** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
+"use client";
+
+import type {
+	NotificationInboxResponse,
+	NotificationRulesResponse,
+} from "@/types";
+import { client } from "../client";
+
+export const getNotifications =
+	async (): Promise<NotificationInboxResponse | null> => {
+		try {
+			const response = await client.api.auth.notifications.$get({
+				query: {},
+			});
+			return response.json() as Promise<NotificationInboxResponse>;
+		} catch (error) {
+			console.error(error);
+			return null;
+		}
+	};
+
+export const getNotificationRules =
+	async (): Promise<NotificationRulesResponse | null> => {
+		try {
+			const response = await client.api.auth.notifications.rules.$get();
+			return response.json() as Promise<NotificationRulesResponse>;
+		} catch (error) {
+			console.error(error);
+			return null;
+		}
+	};
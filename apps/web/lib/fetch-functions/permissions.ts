@@ -0,0 +1,35 @@
+/** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
+
+"use client";
+
+import { client } from "../client";
+
+/**
+ * Fetches the permission keys granted to the current user's role.
+ *
+ * @returns A promise that resolves to the API response with the role and its permissions, or null if the request fails.
+ */
+export const getMyPermissions = async () => {
+	try {
+		const response = await client.api.auth.permissions.me.$get();
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Fetches the permission catalog and the grants of every configurable role (requires `permissions.manage`).
+ *
+ * @returns A promise that resolves to the API response with the matrix, or null if the request fails.
+ */
+export const getPermissionMatrix = async () => {
+	try {
+		const response = await client.api.auth.permissions.matrix.$get();
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
@@ -4,7 +4,7 @@ import { client } from '@/lib/client';
 
 export const getAllProducts = async () => {
 	try {
-		const response = await client.api.auth.products.all.$get();
+		const response = await client.api.auth.products.all.$get({ query: {} });
 		return response.json();
 	} catch {
 		return null;
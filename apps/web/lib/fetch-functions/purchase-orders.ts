@@ -0,0 +1,48 @@
+/** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
+"use client";
+
+import type {
+	PurchaseOrderResponse,
+	PurchaseOrdersResponse,
+	PurchaseOrderStatus,
+	SuppliersResponse,
+} from "@/types";
+import { client } from "../client";
+
+export const getSuppliers = async (): Promise<SuppliersResponse | null> => {
+	try {
+		const response = await client.api.auth["purchase-orders"].suppliers.$get();
+		return response.json() as Promise<SuppliersResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+export const getPurchaseOrders = async (
+	status?: PurchaseOrderStatus,
+): Promise<PurchaseOrdersResponse | null> => {
+	try {
+		const response = await client.api.auth["purchase-orders"].$get({
+			query: status ? { status } : {},
+		});
+		return response.json() as Promise<PurchaseOrdersResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+export const getPurchaseOrder = async (
+	id: string,
+): Promise<PurchaseOrderResponse | null> => {
+	try {
+		const response = await client.api.auth["purchase-orders"][":id"].$get({
+			param: { id },
+		});
+		return response.json() as Promise<PurchaseOrderResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
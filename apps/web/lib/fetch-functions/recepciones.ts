@@ -1,3 +1,4 @@
+import type { TransferDiscrepancyResponse } from "@/types";
 import { client } from "../client";
 
 export const getWarehouseTransferById = async (warehouseId: string) => {
@@ -16,7 +17,31 @@ export const getWarehouseTransferById = async (warehouseId: string) => {
 
 export const getWarehouseTransferAll = async () => {
 	try {
-		const response = await client.api.auth["warehouse-transfers"].all.$get();
+		const response = await client.api.auth["warehouse-transfers"].all.$get({
+			query: {},
+		});
+		return response.json();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Pagination, sort and filter params of the transfer list (`limit`, `cursor`, `sort`,
+ * `transferType`, `status`, `q`, `start`, `end`).
+ */
+export type WarehouseTransferListQuery = Parameters<
+	(typeof client.api.auth)["warehouse-transfers"]["all"]["$get"]
+>[0]["query"];
+
+export const getWarehouseTransferPage = async (
+	query: WarehouseTransferListQuery,
+) => {
+	try {
+		const response = await client.api.auth["warehouse-transfers"].all.$get({
+			query,
+		});
 		return response.json();
 	} catch (error) {
 		console.error(error);
@@ -52,3 +77,44 @@ export const getTransferDetailsById = async (transferId: string) => {
 		return null;
 	}
 };
+
+/**
+ * Missing and damaged items of an external transfer with their chosen outcome.
+ */
+export const getTransferDiscrepancies = async (
+	transferId: string,
+): Promise<TransferDiscrepancyResponse | null> => {
+	try {
+		const response = await client.api.auth[
+			"warehouse-transfers"
+		].discrepancies.$get({
+			query: { transferId },
+		});
+		return response.json() as Promise<TransferDiscrepancyResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
+/**
+ * Printable PDF manifest of a transfer, with the QR that opens its reception.
+ */
+export const getTransferManifestPdf = async (
+	transferId: string,
+): Promise<Blob | null> => {
+	try {
+		const response = await client.api.auth[
+			"warehouse-transfers"
+		].manifest.$get({
+			query: { transferId },
+		});
+		if (!response.ok) {
+			return null;
+		}
+		return await response.blob();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
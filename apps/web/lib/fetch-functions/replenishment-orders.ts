@@ -4,7 +4,12 @@
 
 import { client } from "../client";
 
-type ReplenishmentOrderStatus = "sent" | "received" | "open";
+type ReplenishmentOrderStatus =
+	| "draft"
+	| "sent"
+	| "received"
+	| "open"
+	| "awaiting_approval";
 
 export const getReplenishmentOrders = async (
 	params?: { status?: ReplenishmentOrderStatus },
@@ -46,6 +51,28 @@ export const getReplenishmentOrderById = async (id: string) => {
 	}
 };
 
+/**
+ * CEDIS picking sheet PDF of an order, with the suggested units in FEFO order.
+ */
+export const getReplenishmentOrderPickingSheetPdf = async (
+	id: string,
+): Promise<Blob | null> => {
+	try {
+		const response = await client.api.auth["replenishment-orders"][":id"][
+			"picking-sheet"
+		].$get({
+			param: { id },
+		});
+		if (!response.ok) {
+			return null;
+		}
+		return await response.blob();
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
+
 /**
  * Fetches unfulfilled products from replenishment orders endpoint.
  * This endpoint returns products that need to be ordered for replenishment orders.
@@ -1,7 +1,10 @@
 /** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
 "use client";
 
-import type { StockLimitListResponse } from "@/types";
+import type {
+	StockLimitListResponse,
+	UsageLimitAlertsResponse,
+} from "@/types";
 import { client } from "../client";
 
 export const getAllStockLimits =
@@ -30,3 +33,19 @@ export const getStockLimitsByWarehouse = async (
 		return null;
 	}
 };
+
+export const getUsageLimitAlerts = async (
+	warehouseId?: string,
+): Promise<UsageLimitAlertsResponse | null> => {
+	try {
+		const response = await client.api.auth["stock-limits"]["usage-alerts"].$get(
+			{
+				query: warehouseId ? { warehouseId } : {},
+			},
+		);
+		return response.json() as Promise<UsageLimitAlertsResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
@@ -0,0 +1,33 @@
+/** biome-ignore-all lint/suspicious/noConsole: Needed for debugging */
+"use client";
+
+import type {
+	WebhookDeliveriesResponse,
+	WebhookSubscriptionsResponse,
+} from "@/types";
+import { client } from "../client";
+
+export const getWebhookSubscriptions =
+	async (): Promise<WebhookSubscriptionsResponse | null> => {
+		try {
+			const response = await client.api.auth.webhooks.subscriptions.$get();
+			return response.json() as Promise<WebhookSubscriptionsResponse>;
+		} catch (error) {
+			console.error(error);
+			return null;
+		}
+	};
+
+export const getWebhookDeliveries = async (
+	subscriptionId?: string,
+): Promise<WebhookDeliveriesResponse | null> => {
+	try {
+		const response = await client.api.auth.webhooks.deliveries.$get({
+			query: subscriptionId ? { subscriptionId } : {},
+		});
+		return response.json() as Promise<WebhookDeliveriesResponse>;
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+};
@@ -0,0 +1,57 @@
+/**
+ * Idempotency-Key helpers for mutating requests.
+ * The API stores the first response for a key and replays it for repeats,
+ * so a double submit of the same payload does not create duplicate records.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/** Identical submissions within this window reuse the same key (double clicks, retries) */
+const DOUBLE_SUBMIT_WINDOW_MS = 10_000;
+
+const recentKeys = new Map<string, { key: string; expiresAt: number }>();
+
+function generateKey(): string {
+	// crypto.randomUUID is only available in secure contexts (HTTPS or localhost)
+	if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+		return crypto.randomUUID();
+	}
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Returns the idempotency key for a submission.
+ * The same scope and payload within a few seconds get the same key; anything else gets a new one.
+ * @param scope - Mutation identifier, e.g. "create-kit"
+ * @param payload - Request body being submitted
+ */
+export function getIdempotencyKey(scope: string, payload: unknown): string {
+	const now = Date.now();
+	for (const [fingerprint, entry] of recentKeys) {
+		if (entry.expiresAt <= now) {
+			recentKeys.delete(fingerprint);
+		}
+	}
+
+	const fingerprint = `${scope}:${JSON.stringify(payload)}`;
+	const existing = recentKeys.get(fingerprint);
+	if (existing) {
+		return existing.key;
+	}
+
+	const key = generateKey();
+	recentKeys.set(fingerprint, { key, expiresAt: now + DOUBLE_SUBMIT_WINDOW_MS });
+	return key;
+}
+
+/**
+ * Request headers carrying the idempotency key, for the Hono client's second argument
+ * @param scope - Mutation identifier, e.g. "create-kit"
+ * @param payload - Request body being submitted
+ */
+export function idempotencyHeaders(
+	scope: string,
+	payload: unknown,
+): Record<string, string> {
+	return { [IDEMPOTENCY_KEY_HEADER]: getIdempotencyKey(scope, payload) };
+}
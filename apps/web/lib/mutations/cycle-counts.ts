@@ -0,0 +1,155 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getQueryClient } from "@/app/get-query-client";
+import { client } from "@/lib/client";
+import { createQueryKey } from "@/lib/helpers";
+import { queryKeys } from "@/lib/query-keys";
+
+type CycleCountsApi = (typeof client.api.auth)["cycle-counts"];
+
+export type OpenCycleCountPayload = Parameters<
+	CycleCountsApi["open"]["$post"]
+>[0]["json"];
+
+export type ScanCycleCountPayload = Parameters<
+	CycleCountsApi[":id"]["scan"]["$post"]
+>[0];
+
+export type CloseCycleCountPayload = Parameters<
+	CycleCountsApi[":id"]["close"]["$post"]
+>[0];
+
+const invalidateCycleCountQueries = (cycleCountId?: string | null) => {
+	const queryClient = getQueryClient();
+	queryClient.invalidateQueries({ queryKey: queryKeys.cycleCounts });
+	if (cycleCountId) {
+		queryClient.invalidateQueries({
+			queryKey: createQueryKey(queryKeys.cycleCountDetail, [cycleCountId]),
+		});
+	}
+};
+
+/**
+ * Hook for opening a cycle count on a warehouse or cabinet.
+ */
+export const useOpenCycleCount = () =>
+	useMutation({
+		mutationKey: ["open-cycle-count"],
+		mutationFn: async (json: OpenCycleCountPayload) => {
+			const response = await client.api.auth["cycle-counts"].open.$post({
+				json,
+			});
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo abrir el conteo");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Abriendo conteo...", { id: "open-cycle-count" });
+		},
+		onSuccess: (result) => {
+			toast.success("Conteo abierto", { id: "open-cycle-count" });
+			invalidateCycleCountQueries(result.data.id);
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al abrir el conteo", {
+				id: "open-cycle-count",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for recording a scan in an open cycle count.
+ * Scans are frequent, so only failures show a toast; the caller reports the result.
+ */
+export const useScanCycleCount = () =>
+	useMutation({
+		mutationKey: ["scan-cycle-count"],
+		mutationFn: async (options: ScanCycleCountPayload) => {
+			const response =
+				await client.api.auth["cycle-counts"][":id"].scan.$post(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo registrar el escaneo");
+			}
+			return result;
+		},
+		onSuccess: (_, variables) => {
+			invalidateCycleCountQueries(variables.param.id);
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al registrar el escaneo", {
+				id: "scan-cycle-count",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for closing a cycle count and posting its adjustments.
+ */
+export const useCloseCycleCount = () =>
+	useMutation({
+		mutationKey: ["close-cycle-count"],
+		mutationFn: async (options: CloseCycleCountPayload) => {
+			const response =
+				await client.api.auth["cycle-counts"][":id"].close.$post(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo cerrar el conteo");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Cerrando conteo...", { id: "close-cycle-count" });
+		},
+		onSuccess: (_, variables) => {
+			toast.success("Conteo cerrado y ajustes registrados", {
+				id: "close-cycle-count",
+			});
+			invalidateCycleCountQueries(variables.param.id);
+			const queryClient = getQueryClient();
+			queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+			queryClient.invalidateQueries({ queryKey: queryKeys.mermaWriteoffsSummary });
+			queryClient.invalidateQueries({ queryKey: queryKeys.mermaWriteoffsEvents });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al cerrar el conteo", {
+				id: "close-cycle-count",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for cancelling an open cycle count without adjustments.
+ */
+export const useCancelCycleCount = () =>
+	useMutation({
+		mutationKey: ["cancel-cycle-count"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth["cycle-counts"][":id"].cancel.$post({
+				param: { id },
+			});
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo cancelar el conteo");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Cancelando conteo...", { id: "cancel-cycle-count" });
+		},
+		onSuccess: (_, id) => {
+			toast.success("Conteo cancelado", { id: "cancel-cycle-count" });
+			invalidateCycleCountQueries(id);
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al cancelar el conteo", {
+				id: "cancel-cycle-count",
+			});
+			console.error(error);
+		},
+	});
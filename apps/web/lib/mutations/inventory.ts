@@ -3,6 +3,7 @@ import { toast } from "sonner";
 import { getQueryClient } from "@/app/get-query-client";
 import { client } from "../client";
 import { createQueryKey } from "../helpers";
+import { idempotencyHeaders } from "../idempotency";
 import { queryKeys } from "../query-keys";
 
 type CreateProductStockPostOptions = Parameters<
@@ -75,9 +76,12 @@ export const useCreateInventoryItem = () =>
 	useMutation({
 		mutationKey: ["create-inventory-item"],
 		mutationFn: async (data: CreateProductStockPayload) => {
-			const response = await client.api.auth["product-stock"].create.$post({
-				json: data,
-			});
+			const response = await client.api.auth["product-stock"].create.$post(
+				{
+					json: data,
+				},
+				{ headers: idempotencyHeaders("create-inventory-item", data) },
+			);
 			const result = await response.json();
 			if (!result?.success) {
 				throw new Error(
@@ -237,6 +241,9 @@ export const useSyncInventory = () =>
 			queryClient.invalidateQueries({
 				queryKey: createQueryKey(queryKeys.inventory, ["all"]),
 			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.inventorySyncRuns,
+			});
 		},
 		onError: (error) => {
 			toast.error("Error al sincronizar inventario", {
@@ -360,3 +367,51 @@ export const useUpdateInventoryIsEmpty = () =>
 			});			console.error(error);
 		},
 	});
+
+/**
+ * Hook for writing expired units off into merma with the `caducado` reason.
+ */
+export const useWriteOffExpiredUnits = () =>
+	useMutation({
+		mutationKey: ["write-off-expired-units"],
+		mutationFn: async (productIds: string[]) => {
+			const response = await client.api.auth.merma.writeoffs.$post({
+				json: { productIds, reason: "caducado" },
+			});
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo dar de baja");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Dando de baja unidades caducadas...", {
+				id: "write-off-expired-units",
+			});
+		},
+		onSuccess: (_data, productIds) => {
+			toast.success(
+				productIds.length === 1
+					? "Unidad caducada dada de baja"
+					: `${productIds.length} unidades caducadas dadas de baja`,
+				{ id: "write-off-expired-units" },
+			);
+			const queryClient = getQueryClient();
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.expiringProductStock,
+			});
+			queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.mermaWriteoffsSummary,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al dar de baja las unidades", {
+				id: "write-off-expired-units",
+			});
+			console.error(error);
+		},
+	});
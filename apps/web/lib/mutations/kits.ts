@@ -5,6 +5,7 @@ import { client } from "@/lib/client";
 import { queryKeys } from "@/lib/query-keys";
 import type { KitDetails } from "@/types";
 import { createQueryKey } from "../helpers";
+import { idempotencyHeaders } from "../idempotency";
 
 /**
  * Standard API response structure
@@ -158,7 +159,10 @@ export const useCreateKit = () =>
 		mutationFn: async (
 			data: CreateKitPayload,
 		): Promise<ApiResponse<KitDetails>> => {
-			const response = await client.api.auth.kits.create.$post({ json: data });
+			const response = await client.api.auth.kits.create.$post(
+				{ json: data },
+				{ headers: idempotencyHeaders("create-kit", data) },
+			);
 			const result = (await response.json()) as ApiResponse<KitDetails>;
 			if (
 				result &&
@@ -215,7 +219,10 @@ export const useUpdateProductStockUsage = () =>
 		mutationFn: async (data: UpdateProductStockUsagePayload) => {
 			const response = await client.api.auth["product-stock"][
 				"update-usage"
-			].$post({ json: data });
+			].$post(
+				{ json: data },
+				{ headers: idempotencyHeaders("update-product-stock-usage", data) },
+			);
 			if (!response.ok) {
 				throw new Error(
 					`Failed to update product stock usage: ${response.statusText}`,
@@ -289,8 +296,19 @@ export const useCreateEmployee = () =>
 		onMutate: () => {
 			toast.loading("Creando empleado...", { id: "create-employee" });
 		},
-		onSuccess: () => {
-			toast.success("Empleado creado exitosamente", { id: "create-employee" });
+		onSuccess: (result) => {
+			const initialPasscode = (
+				result as { data?: { initialPasscode?: unknown } } | null
+			)?.data?.initialPasscode;
+			toast.success("Empleado creado exitosamente", {
+				id: "create-employee",
+				...(typeof initialPasscode === "string"
+					? {
+							description: `Código de acceso: ${initialPasscode}`,
+							duration: 15_000,
+						}
+					: {}),
+			});
 			const qc = getQueryClient();
 			qc.invalidateQueries({ queryKey: ["employees"] });
 		},
@@ -298,3 +316,58 @@ export const useCreateEmployee = () =>
 			toast.error("Error al crear empleado", { id: "create-employee" });			console.error(error);
 		},
 	});
+
+// Reset employee passcode mutation
+export type ResetEmployeePasscodePayload = {
+	employeeId: string;
+	/** New 4-digit passcode; the API generates one when omitted */
+	passcode?: string;
+};
+
+export type ResetEmployeePasscodeResult = {
+	employee: { id: string; name: string; surname: string };
+	/** Plain passcode, only returned once by the API */
+	passcode: string;
+};
+
+export const useResetEmployeePasscode = () =>
+	useMutation<
+		ResetEmployeePasscodeResult,
+		Error,
+		ResetEmployeePasscodePayload
+	>({
+		mutationKey: ["reset-employee-passcode"],
+		mutationFn: async ({ employeeId, passcode }) => {
+			const response = await client.api.auth.employee[":id"][
+				"reset-passcode"
+			].$post({
+				param: { id: employeeId },
+				json: passcode ? { passcode } : {},
+			});
+			const result = (await response.json()) as ApiResponse<ResetEmployeePasscodeResult>;
+			if (!(response.ok && result.success && result.data)) {
+				throw new Error(
+					result.message || "No se pudo restablecer el código de acceso",
+				);
+			}
+			return result.data;
+		},
+		onMutate: () => {
+			toast.loading("Restableciendo código...", {
+				id: "reset-employee-passcode",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Código de acceso restablecido", {
+				id: "reset-employee-passcode",
+			});
+			const qc = getQueryClient();
+			qc.invalidateQueries({ queryKey: ["employees"] });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al restablecer el código", {
+				id: "reset-employee-passcode",
+			});
+			console.error(error);
+		},
+	});
@@ -0,0 +1,196 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getQueryClient } from "@/app/get-query-client";
+import { client } from "@/lib/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export type CreateNotificationRulePayload = Parameters<
+	typeof client.api.auth.notifications.rules.$post
+>[0];
+
+export type UpdateNotificationRulePayload = Parameters<
+	(typeof client.api.auth.notifications.rules)[":id"]["$put"]
+>[0];
+
+/**
+ * Hook for marking one inbox notification as read. Silent: the inbox updates in place.
+ */
+export const useMarkNotificationRead = () =>
+	useMutation({
+		mutationKey: ["mark-notification-read"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth.notifications[":id"].read.$post({
+				param: { id },
+			});
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message || "No se pudo marcar la notificación",
+				);
+			}
+			return result;
+		},
+		onSuccess: () => {
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.notifications });
+		},
+		onError: (error) => {
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for marking every inbox notification of the session user as read.
+ */
+export const useMarkAllNotificationsRead = () =>
+	useMutation({
+		mutationKey: ["mark-all-notifications-read"],
+		mutationFn: async () => {
+			const response = await client.api.auth.notifications["read-all"].$post();
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message || "No se pudieron marcar las notificaciones",
+				);
+			}
+			return result;
+		},
+		onSuccess: () => {
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.notifications });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al marcar las notificaciones", {
+				id: "mark-all-notifications-read",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for creating a notification rule.
+ */
+export const useCreateNotificationRule = () =>
+	useMutation({
+		mutationKey: ["create-notification-rule"],
+		mutationFn: async (options: CreateNotificationRulePayload) => {
+			const response = await client.api.auth.notifications.rules.$post(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo crear la regla");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Creando regla...", { id: "create-notification-rule" });
+		},
+		onSuccess: () => {
+			toast.success("Regla creada", { id: "create-notification-rule" });
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.notificationRules,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al crear la regla", {
+				id: "create-notification-rule",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for updating a notification rule (activation, email and delivery mode).
+ */
+export const useUpdateNotificationRule = () =>
+	useMutation({
+		mutationKey: ["update-notification-rule"],
+		mutationFn: async (options: UpdateNotificationRulePayload) => {
+			const response =
+				await client.api.auth.notifications.rules[":id"].$put(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo actualizar la regla");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Guardando regla...", { id: "update-notification-rule" });
+		},
+		onSuccess: () => {
+			toast.success("Regla actualizada", { id: "update-notification-rule" });
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.notificationRules,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al actualizar la regla", {
+				id: "update-notification-rule",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for deleting a notification rule. Notifications it raised stay in the inboxes.
+ */
+export const useDeleteNotificationRule = () =>
+	useMutation({
+		mutationKey: ["delete-notification-rule"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth.notifications.rules[":id"].$delete(
+				{ param: { id } },
+			);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo eliminar la regla");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Eliminando regla...", { id: "delete-notification-rule" });
+		},
+		onSuccess: () => {
+			toast.success("Regla eliminada", { id: "delete-notification-rule" });
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.notificationRules,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al eliminar la regla", {
+				id: "delete-notification-rule",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for evaluating the notification rules now instead of waiting for the scheduler.
+ */
+export const useEvaluateNotificationRules = () =>
+	useMutation({
+		mutationKey: ["evaluate-notification-rules"],
+		mutationFn: async () => {
+			const response = await client.api.auth.notifications.evaluate.$post();
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudieron evaluar las reglas");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Evaluando reglas...", {
+				id: "evaluate-notification-rules",
+			});
+		},
+		onSuccess: (result) => {
+			toast.success(
+				`${result.data.notificationsCreated} notificación(es) nuevas`,
+				{ id: "evaluate-notification-rules" },
+			);
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.notifications });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al evaluar las reglas", {
+				id: "evaluate-notification-rules",
+			});
+			console.error(error);
+		},
+	});
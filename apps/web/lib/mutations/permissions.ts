@@ -0,0 +1,48 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getQueryClient } from "@/app/get-query-client";
+import { client } from "@/lib/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export type UpdateRolePermissionsPayload = Parameters<
+	(typeof client.api.auth.permissions.matrix)[":role"]["$put"]
+>[0];
+
+/**
+ * Hook for replacing the permissions granted to a role in the permission matrix.
+ */
+export const useUpdateRolePermissions = () =>
+	useMutation({
+		mutationKey: ["update-role-permissions"],
+		mutationFn: async (options: UpdateRolePermissionsPayload) => {
+			const response =
+				await client.api.auth.permissions.matrix[":role"].$put(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message || "No se pudieron actualizar los permisos",
+				);
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Guardando permisos...", {
+				id: "update-role-permissions",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Permisos actualizados", {
+				id: "update-role-permissions",
+			});
+			const queryClient = getQueryClient();
+			queryClient.invalidateQueries({ queryKey: queryKeys.permissionMatrix });
+			queryClient.invalidateQueries({ queryKey: queryKeys.myPermissions });
+			queryClient.invalidateQueries({ queryKey: queryKeys.auditLogs });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al actualizar los permisos", {
+				id: "update-role-permissions",
+			});
+			console.error(error);
+		},
+	});
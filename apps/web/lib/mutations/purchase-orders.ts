@@ -0,0 +1,375 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getQueryClient } from "@/app/get-query-client";
+import { client } from "@/lib/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export type CreateSupplierPayload = Parameters<
+	(typeof client.api.auth)["purchase-orders"]["suppliers"]["$post"]
+>[0];
+
+export type UpdateSupplierPayload = Parameters<
+	(typeof client.api.auth)["purchase-orders"]["suppliers"][":id"]["$put"]
+>[0];
+
+export type SetSupplierProductsPayload = Parameters<
+	(typeof client.api.auth)["purchase-orders"]["suppliers"][":id"]["products"]["$put"]
+>[0];
+
+export type GeneratePurchaseOrdersPayload = Parameters<
+	(typeof client.api.auth)["purchase-orders"]["generate"]["$post"]
+>[0];
+
+export type ReceivePurchaseOrderPayload = Parameters<
+	(typeof client.api.auth)["purchase-orders"][":id"]["receive"]["$post"]
+>[0];
+
+const invalidatePurchaseOrderQueries = () => {
+	const queryClient = getQueryClient();
+	queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders });
+	queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrderDetail });
+};
+
+/**
+ * Hook for creating a supplier.
+ */
+export const useCreateSupplier = () =>
+	useMutation({
+		mutationKey: ["create-supplier"],
+		mutationFn: async (options: CreateSupplierPayload) => {
+			const response =
+				await client.api.auth["purchase-orders"].suppliers.$post(options);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo crear el proveedor");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Creando proveedor...", { id: "create-supplier" });
+		},
+		onSuccess: () => {
+			toast.success("Proveedor creado", { id: "create-supplier" });
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.suppliers });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al crear el proveedor", {
+				id: "create-supplier",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for updating a supplier's contact data or activation.
+ */
+export const useUpdateSupplier = () =>
+	useMutation({
+		mutationKey: ["update-supplier"],
+		mutationFn: async (options: UpdateSupplierPayload) => {
+			const response =
+				await client.api.auth["purchase-orders"].suppliers[":id"].$put(
+					options,
+				);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message || "No se pudo actualizar el proveedor",
+				);
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Guardando proveedor...", { id: "update-supplier" });
+		},
+		onSuccess: () => {
+			toast.success("Proveedor actualizado", { id: "update-supplier" });
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.suppliers });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al actualizar el proveedor", {
+				id: "update-supplier",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for replacing the barcodes a supplier provides by default.
+ */
+export const useSetSupplierProducts = () =>
+	useMutation({
+		mutationKey: ["set-supplier-products"],
+		mutationFn: async (options: SetSupplierProductsPayload) => {
+			const response = await client.api.auth["purchase-orders"].suppliers[
+				":id"
+			].products.$put(options);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message || "No se pudieron guardar los productos",
+				);
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Guardando productos...", { id: "set-supplier-products" });
+		},
+		onSuccess: () => {
+			toast.success("Productos del proveedor guardados", {
+				id: "set-supplier-products",
+			});
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.suppliers });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al guardar los productos", {
+				id: "set-supplier-products",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for deleting a supplier without purchase orders.
+ */
+export const useDeleteSupplier = () =>
+	useMutation({
+		mutationKey: ["delete-supplier"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth["purchase-orders"].suppliers[
+				":id"
+			].$delete({ param: { id } });
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo eliminar el proveedor");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Eliminando proveedor...", { id: "delete-supplier" });
+		},
+		onSuccess: () => {
+			toast.success("Proveedor eliminado", { id: "delete-supplier" });
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.suppliers });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al eliminar el proveedor", {
+				id: "delete-supplier",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for grouping the CEDIS unfulfilled replenishment items into draft purchase orders.
+ */
+export const useGeneratePurchaseOrders = () =>
+	useMutation({
+		mutationKey: ["generate-purchase-orders"],
+		mutationFn: async (options: GeneratePurchaseOrdersPayload) => {
+			const response =
+				await client.api.auth["purchase-orders"].generate.$post(options);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message || "No se pudieron generar las órdenes de compra",
+				);
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Generando órdenes de compra...", {
+				id: "generate-purchase-orders",
+			});
+		},
+		onSuccess: (result) => {
+			const { purchaseOrders, unassigned } = result.data;
+			const unassignedNote =
+				unassigned.length > 0
+					? ` (${unassigned.length} sin proveedor asignado)`
+					: "";
+			toast.success(
+				`${purchaseOrders.length} órdenes de compra generadas${unassignedNote}`,
+				{ id: "generate-purchase-orders" },
+			);
+			invalidatePurchaseOrderQueries();
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.unfulfilledProducts,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al generar las órdenes de compra", {
+				id: "generate-purchase-orders",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for marking a draft purchase order as sent to its supplier.
+ */
+export const useSendPurchaseOrder = () =>
+	useMutation({
+		mutationKey: ["send-purchase-order"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth["purchase-orders"][
+				":id"
+			].send.$post({ param: { id } });
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo enviar la orden");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Enviando orden de compra...", {
+				id: "send-purchase-order",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Orden de compra enviada", { id: "send-purchase-order" });
+			invalidatePurchaseOrderQueries();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al enviar la orden de compra", {
+				id: "send-purchase-order",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for receiving units of a purchase order into the CEDIS.
+ */
+export const useReceivePurchaseOrder = () =>
+	useMutation({
+		mutationKey: ["receive-purchase-order"],
+		mutationFn: async (options: ReceivePurchaseOrderPayload) => {
+			const response =
+				await client.api.auth["purchase-orders"][":id"].receive.$post(
+					options,
+				);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo recibir la orden");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Recibiendo orden de compra...", {
+				id: "receive-purchase-order",
+			});
+		},
+		onSuccess: (result) => {
+			toast.success(
+				`${result.data.productStock.length} unidades recibidas en el CEDIS`,
+				{ id: "receive-purchase-order" },
+			);
+			invalidatePurchaseOrderQueries();
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.inventory });
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al recibir la orden de compra", {
+				id: "receive-purchase-order",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for closing a purchase order without waiting for its pending units.
+ */
+export const useClosePurchaseOrder = () =>
+	useMutation({
+		mutationKey: ["close-purchase-order"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth["purchase-orders"][
+				":id"
+			].close.$post({ param: { id } });
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo cerrar la orden");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Cerrando orden de compra...", {
+				id: "close-purchase-order",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Orden de compra cerrada", { id: "close-purchase-order" });
+			invalidatePurchaseOrderQueries();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al cerrar la orden de compra", {
+				id: "close-purchase-order",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for deleting a draft purchase order; its items return to the unfulfilled list.
+ */
+export const useDeletePurchaseOrder = () =>
+	useMutation({
+		mutationKey: ["delete-purchase-order"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth["purchase-orders"][
+				":id"
+			].$delete({ param: { id } });
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo eliminar la orden");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Eliminando orden de compra...", {
+				id: "delete-purchase-order",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Orden de compra eliminada", {
+				id: "delete-purchase-order",
+			});
+			invalidatePurchaseOrderQueries();
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.unfulfilledProducts,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al eliminar la orden de compra", {
+				id: "delete-purchase-order",
+			});
+			console.error(error);
+		},
+	});
@@ -260,3 +260,189 @@ export const useMarkBuyOrderGenerated = () =>
 			});			console.error(error);
 		},
 	});
+
+type RunReplenishmentPlannerPostOptions = Parameters<
+	(typeof client.api.auth)["replenishment-orders"]["plan"]["$post"]
+>[0];
+
+export type RunReplenishmentPlannerPayload =
+	RunReplenishmentPlannerPostOptions extends { json: infer J } ? J : never;
+
+/**
+ * Hook for running the replenishment planner on demand.
+ * Writes one draft per warehouse below its stock limits; drafts wait for an encargado review.
+ *
+ * @returns Mutation hook for generating planner drafts
+ */
+export const useRunReplenishmentPlanner = () =>
+	useMutation({
+		mutationKey: ["run-replenishment-planner"],
+		mutationFn: async (data: RunReplenishmentPlannerPayload) => {
+			const response = await client.api.auth["replenishment-orders"].plan.$post(
+				{ json: data },
+			);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message ||
+						"La API devolvió éxito=false al generar los borradores de reabastecimiento",
+				);
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Calculando reabastecimiento...", {
+				id: "run-replenishment-planner",
+			});
+		},
+		onSuccess: (data) => {
+			const drafts = data.data.filter((plan) => plan.draft !== null).length;
+			toast.success(
+				drafts > 0
+					? `${drafts} borrador(es) listo(s) para revisión`
+					: "Ninguna bodega está por debajo de sus límites",
+				{ id: "run-replenishment-planner" },
+			);
+			invalidateReplenishmentQueries();
+		},
+		onError: (error) => {
+			toast.error("Error al generar borradores", {
+				id: "run-replenishment-planner",
+			});
+			console.error(error);
+		},
+	});
+
+type ReviewReplenishmentOrderPostOptions = Parameters<
+	(typeof client.api.auth)["replenishment-orders"][":id"]["review"]["$post"]
+>[0];
+
+export type ReviewReplenishmentOrderPayload = ReviewReplenishmentOrderPostOptions;
+
+/**
+ * Hook for reviewing a planner draft and sending it to the CEDIS.
+ *
+ * @returns Mutation hook for reviewing drafts
+ */
+export const useReviewReplenishmentOrder = () =>
+	useMutation({
+		mutationKey: ["review-replenishment-order"],
+		mutationFn: async (options: ReviewReplenishmentOrderPayload) => {
+			const response =
+				await client.api.auth["replenishment-orders"][":id"].review.$post(
+					options,
+				);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(
+					result?.message ||
+						"La API devolvió éxito=false al revisar el borrador",
+				);
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Enviando pedido...", {
+				id: "review-replenishment-order",
+			});
+		},
+		onSuccess: (_, variables) => {
+			toast.success("Borrador revisado y enviado al CEDIS", {
+				id: "review-replenishment-order",
+			});
+			invalidateReplenishmentQueries(variables.param.id);
+		},
+		onError: (error) => {
+			toast.error("Error al revisar el borrador", {
+				id: "review-replenishment-order",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for discarding a planner draft.
+ *
+ * @returns Mutation hook for discarding drafts
+ */
+export const useDiscardReplenishmentDraft = () =>
+	useMutation({
+		mutationKey: ["discard-replenishment-draft"],
+		mutationFn: async (orderId: string) => {
+			const response = await client.api.auth["replenishment-orders"][
+				":id"
+			].draft.$delete({ param: { id: orderId } });
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			return response.json();
+		},
+		onMutate: () => {
+			toast.loading("Descartando borrador...", {
+				id: "discard-replenishment-draft",
+			});
+		},
+		onSuccess: (_, orderId) => {
+			toast.success("Borrador descartado", {
+				id: "discard-replenishment-draft",
+			});
+			invalidateReplenishmentQueries(orderId);
+		},
+		onError: (error) => {
+			toast.error("Error al descartar el borrador", {
+				id: "discard-replenishment-draft",
+			});
+			console.error(error);
+		},
+	});
+
+type DecideReplenishmentOrderApprovalPostOptions = Parameters<
+	(typeof client.api.auth)["replenishment-orders"][":id"]["approval"]["$post"]
+>[0];
+
+export type DecideReplenishmentOrderApprovalPayload =
+	DecideReplenishmentOrderApprovalPostOptions;
+
+/**
+ * Hook for approving or rejecting an order from a warehouse that requires approval.
+ *
+ * @returns Mutation hook for approval decisions
+ */
+export const useDecideReplenishmentOrderApproval = () =>
+	useMutation({
+		mutationKey: ["decide-replenishment-order-approval"],
+		mutationFn: async (options: DecideReplenishmentOrderApprovalPayload) => {
+			const response =
+				await client.api.auth["replenishment-orders"][":id"].approval.$post(
+					options,
+				);
+			if (!response.ok) {
+				throw new Error(await response.text());
+			}
+			return response.json();
+		},
+		onMutate: () => {
+			toast.loading("Registrando decisión...", {
+				id: "decide-replenishment-order-approval",
+			});
+		},
+		onSuccess: (_, variables) => {
+			toast.success(
+				variables.json.decision === "approve"
+					? "Pedido aprobado"
+					: "Pedido rechazado",
+				{ id: "decide-replenishment-order-approval" },
+			);
+			invalidateReplenishmentQueries(variables.param.id);
+			getQueryClient().invalidateQueries({ queryKey: queryKeys.approvalQueue });
+		},
+		onError: (error) => {
+			toast.error("Error al registrar la decisión", {
+				id: "decide-replenishment-order-approval",
+			});
+			console.error(error);
+		},
+	});
@@ -4,6 +4,7 @@ import { getQueryClient } from "@/app/get-query-client";
 import type { TransferOrderType } from "@/types";
 import { client } from "../client";
 import { createQueryKey } from "../helpers";
+import { idempotencyHeaders } from "../idempotency";
 import { queryKeys } from "../query-keys";
 
 export const useCreateTransferOrder = () =>
@@ -12,9 +13,12 @@ export const useCreateTransferOrder = () =>
 		mutationFn: async (data: TransferOrderType) => {
 			const response = await client.api.auth[
 				"warehouse-transfers"
-			].create.$post({
-				json: data,
-			});
+			].create.$post(
+				{
+					json: data,
+				},
+				{ headers: idempotencyHeaders("create-transfer-order", data) },
+			);
 			const result = await response.json();
 			if (!result?.success) {
 				throw new Error(
@@ -86,9 +90,12 @@ export const useUpdateTransferStatus = () =>
 		mutationFn: async (data: UpdateTransferStatusPayload) => {
 			const response = await client.api.auth["warehouse-transfers"][
 				"update-status"
-			].$post({
-				json: data,
-			});
+			].$post(
+				{
+					json: data,
+				},
+				{ headers: idempotencyHeaders("update-transfer-status", data) },
+			);
 			const result: unknown = await response.json();
 			// If API follows { success, message } pattern, attempt soft-check
 			if (
@@ -182,3 +189,180 @@ export const useUpdateTransferItemStatus = () =>
 			console.error(error);
 		},
 	});
+
+// =====================================
+// Resolve transfer item discrepancies
+// =====================================
+
+type ResolveTransferDiscrepanciesPostOptions = Parameters<
+	(typeof client.api.auth)["warehouse-transfers"]["resolve-discrepancies"]["$post"]
+>[0];
+export type ResolveTransferDiscrepanciesPayload =
+	ResolveTransferDiscrepanciesPostOptions extends {
+		json: infer J;
+	}
+		? J
+		: never;
+
+export const useResolveTransferDiscrepancies = () =>
+	useMutation<unknown, Error, ResolveTransferDiscrepanciesPayload>({
+		mutationKey: ["resolve-transfer-discrepancies"],
+		mutationFn: async (data: ResolveTransferDiscrepanciesPayload) => {
+			const response = await client.api.auth["warehouse-transfers"][
+				"resolve-discrepancies"
+			].$post(
+				{
+					json: data,
+				},
+				{
+					headers: idempotencyHeaders("resolve-transfer-discrepancies", data),
+				},
+			);
+			if (!response.ok) {
+				const message = await response.text().catch(() => "");
+				throw new Error(
+					message || "No se pudieron resolver las discrepancias del traspaso",
+				);
+			}
+			return response.json();
+		},
+		onMutate: () => {
+			toast.loading("Registrando discrepancias...", {
+				id: "resolve-transfer-discrepancies",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Discrepancias registradas", {
+				id: "resolve-transfer-discrepancies",
+			});
+			const queryClient = getQueryClient();
+			queryClient.invalidateQueries({ queryKey: queryKeys.recepcionDetail });
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transferDiscrepancies,
+			});
+			queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+		},
+		onError: (error) => {
+			toast.error("Error al registrar discrepancias", {
+				id: "resolve-transfer-discrepancies",
+			});
+			console.error(error);
+		},
+	});
+
+// =====================================
+// Approve or reject a transfer
+// =====================================
+
+type DecideTransferApprovalPostOptions = Parameters<
+	(typeof client.api.auth)["warehouse-transfers"]["approval"]["$post"]
+>[0];
+export type DecideTransferApprovalPayload =
+	DecideTransferApprovalPostOptions extends {
+		json: infer J;
+	}
+		? J
+		: never;
+
+export const useDecideTransferApproval = () =>
+	useMutation<unknown, Error, DecideTransferApprovalPayload>({
+		mutationKey: ["decide-transfer-approval"],
+		mutationFn: async (data: DecideTransferApprovalPayload) => {
+			const response = await client.api.auth[
+				"warehouse-transfers"
+			].approval.$post({
+				json: data,
+			});
+			if (!response.ok) {
+				const message = await response.text().catch(() => "");
+				throw new Error(message || "No se pudo registrar la aprobación");
+			}
+			return response.json();
+		},
+		onMutate: () => {
+			toast.loading("Registrando decisión...", {
+				id: "decide-transfer-approval",
+			});
+		},
+		onSuccess: (_, variables) => {
+			toast.success(
+				variables.decision === "approve"
+					? "Traspaso aprobado"
+					: "Traspaso rechazado",
+				{ id: "decide-transfer-approval" },
+			);
+			const queryClient = getQueryClient();
+			queryClient.invalidateQueries({ queryKey: queryKeys.receptions });
+			queryClient.invalidateQueries({ queryKey: queryKeys.recepcionDetail });
+			queryClient.invalidateQueries({ queryKey: queryKeys.approvalQueue });
+		},
+		onError: (error) => {
+			toast.error("Error al registrar la decisión", {
+				id: "decide-transfer-approval",
+			});
+			console.error(error);
+		},
+	});
+
+// =====================================
+// Move a transfer through the dispatch flow
+// =====================================
+
+type TransitionTransferPostOptions = Parameters<
+	(typeof client.api.auth)["warehouse-transfers"]["transition"]["$post"]
+>[0];
+export type TransitionTransferPayload = TransitionTransferPostOptions extends {
+	json: infer J;
+}
+	? J
+	: never;
+
+const transitionSuccessMessage: Record<
+	TransitionTransferPayload["status"],
+	string
+> = {
+	picked: "Traspaso surtido",
+	dispatched: "Traspaso despachado",
+	in_transit: "Traspaso en tránsito",
+	closed: "Traspaso cerrado",
+	cancelled: "Traspaso cancelado",
+};
+
+export const useTransitionTransfer = () =>
+	useMutation<unknown, Error, TransitionTransferPayload>({
+		mutationKey: ["transition-transfer"],
+		mutationFn: async (data: TransitionTransferPayload) => {
+			const response = await client.api.auth[
+				"warehouse-transfers"
+			].transition.$post({
+				json: data,
+			});
+			if (!response.ok) {
+				const message = await response.text().catch(() => "");
+				throw new Error(message || "No se pudo actualizar el traspaso");
+			}
+			return response.json();
+		},
+		onMutate: () => {
+			toast.loading("Actualizando traspaso...", {
+				id: "transition-transfer",
+			});
+		},
+		onSuccess: (_, variables) => {
+			toast.success(transitionSuccessMessage[variables.status], {
+				id: "transition-transfer",
+			});
+			const queryClient = getQueryClient();
+			queryClient.invalidateQueries({ queryKey: queryKeys.receptions });
+			queryClient.invalidateQueries({ queryKey: queryKeys.recepcionDetail });
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transferDiscrepancies,
+			});
+		},
+		onError: (error) => {
+			toast.error("Error al actualizar el traspaso", {
+				id: "transition-transfer",
+			});
+			console.error(error);
+		},
+	});
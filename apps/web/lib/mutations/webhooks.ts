@@ -0,0 +1,158 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getQueryClient } from "@/app/get-query-client";
+import { client } from "@/lib/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export type CreateWebhookSubscriptionPayload = Parameters<
+	typeof client.api.auth.webhooks.subscriptions.$post
+>[0];
+
+export type UpdateWebhookSubscriptionPayload = Parameters<
+	(typeof client.api.auth.webhooks.subscriptions)[":id"]["$put"]
+>[0];
+
+/**
+ * Hook for creating a webhook subscription. The result carries the secret, shown only once.
+ */
+export const useCreateWebhookSubscription = () =>
+	useMutation({
+		mutationKey: ["create-webhook-subscription"],
+		mutationFn: async (options: CreateWebhookSubscriptionPayload) => {
+			const response =
+				await client.api.auth.webhooks.subscriptions.$post(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo crear el webhook");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Creando webhook...", { id: "create-webhook-subscription" });
+		},
+		onSuccess: () => {
+			toast.success("Webhook creado", { id: "create-webhook-subscription" });
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.webhookSubscriptions,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al crear el webhook", {
+				id: "create-webhook-subscription",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for updating a webhook subscription (activation, events or secret rotation).
+ */
+export const useUpdateWebhookSubscription = () =>
+	useMutation({
+		mutationKey: ["update-webhook-subscription"],
+		mutationFn: async (options: UpdateWebhookSubscriptionPayload) => {
+			const response =
+				await client.api.auth.webhooks.subscriptions[":id"].$put(options);
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo actualizar el webhook");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Guardando webhook...", {
+				id: "update-webhook-subscription",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Webhook actualizado", {
+				id: "update-webhook-subscription",
+			});
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.webhookSubscriptions,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al actualizar el webhook", {
+				id: "update-webhook-subscription",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for deleting a webhook subscription together with its delivery log.
+ */
+export const useDeleteWebhookSubscription = () =>
+	useMutation({
+		mutationKey: ["delete-webhook-subscription"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth.webhooks.subscriptions[
+				":id"
+			].$delete({ param: { id } });
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo eliminar el webhook");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Eliminando webhook...", {
+				id: "delete-webhook-subscription",
+			});
+		},
+		onSuccess: () => {
+			toast.success("Webhook eliminado", { id: "delete-webhook-subscription" });
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.webhookSubscriptions,
+			});
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.webhookDeliveries,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al eliminar el webhook", {
+				id: "delete-webhook-subscription",
+			});
+			console.error(error);
+		},
+	});
+
+/**
+ * Hook for sending a finished delivery again. The replay is a new entry in the log.
+ */
+export const useReplayWebhookDelivery = () =>
+	useMutation({
+		mutationKey: ["replay-webhook-delivery"],
+		mutationFn: async (id: string) => {
+			const response = await client.api.auth.webhooks.deliveries[
+				":id"
+			].replay.$post({ param: { id } });
+			const result = await response.json();
+			if (!result?.success) {
+				throw new Error(result?.message || "No se pudo reenviar el evento");
+			}
+			return result;
+		},
+		onMutate: () => {
+			toast.loading("Reenviando evento...", { id: "replay-webhook-delivery" });
+		},
+		onSuccess: (result) => {
+			if (result.data.status === "succeeded") {
+				toast.success("Evento reenviado", { id: "replay-webhook-delivery" });
+			} else {
+				toast.error("El receptor rechazó el reenvío", {
+					id: "replay-webhook-delivery",
+				});
+			}
+			getQueryClient().invalidateQueries({
+				queryKey: queryKeys.webhookDeliveries,
+			});
+		},
+		onError: (error) => {
+			toast.error(error.message || "Error al reenviar el evento", {
+				id: "replay-webhook-delivery",
+			});
+			console.error(error);
+		},
+	});
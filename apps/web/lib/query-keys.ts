@@ -3,6 +3,8 @@ export const queryKeys = {
 	productCatalog: ["productCatalog"],
 	receptions: ["receptions"],
 	recepcionDetail: ["recepcionDetail"],
+	transferDiscrepancies: ["transferDiscrepancies"],
+	approvalQueue: ["approvalQueue"],
 	kits: ["kits"],
 	cabinetWarehouse: ["cabinetWarehouse"],
 	warehouses: ["warehouses"],
@@ -11,8 +13,26 @@ export const queryKeys = {
 	replenishmentOrderDetail: ["replenishmentOrderDetail"],
 	unfulfilledProducts: ["unfulfilledProducts"],
 	stockLimits: ["stockLimits"],
+	usageLimitAlerts: ["usageLimitAlerts"],
+	expiringProductStock: ["expiringProductStock"],
+	inventoryValuation: ["inventoryValuation"],
 	deletedAndEmptyProductStock: ["deletedAndEmptyProductStock"],
 	mermaWriteoffsSummary: ["mermaWriteoffsSummary"],
+	mermaWriteoffsMonthly: ["mermaWriteoffsMonthly"],
 	mermaWriteoffsEvents: ["mermaWriteoffsEvents"],
 	mermaMissingTransfersSummary: ["mermaMissingTransfersSummary"],
+	inventorySyncRuns: ["inventorySyncRuns"],
+	inventorySyncRunDetail: ["inventorySyncRunDetail"],
+	cycleCounts: ["cycleCounts"],
+	cycleCountDetail: ["cycleCountDetail"],
+	auditLogs: ["auditLogs"],
+	myPermissions: ["myPermissions"],
+	permissionMatrix: ["permissionMatrix"],
+	notifications: ["notifications"],
+	notificationRules: ["notificationRules"],
+	webhookSubscriptions: ["webhookSubscriptions"],
+	webhookDeliveries: ["webhookDeliveries"],
+	suppliers: ["suppliers"],
+	purchaseOrders: ["purchaseOrders"],
+	purchaseOrderDetail: ["purchaseOrderDetail"],
 };
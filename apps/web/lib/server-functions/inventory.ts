@@ -1,4 +1,8 @@
 import "server-only";
+import type {
+	ExpiringUnitsResponse,
+	InventoryValuationResponse,
+} from "@/types";
 import {
 	buildCookieHeader,
 	resolveTrustedOrigin,
@@ -180,3 +184,69 @@ export const fetchDeletedAndEmptyProductStockServer = async () => {
 
 	return res.json();
 };
+
+/**
+ * Fetch the expired units and the units expiring soon on the server.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to list every warehouse in scope
+ * @returns Promise resolving to the expiring units
+ * @throws Error if the fetch fails
+ */
+export const fetchExpiringProductStockServer = async (
+	warehouseId?: string,
+): Promise<ExpiringUnitsResponse> => {
+	const origin = resolveTrustedOrigin();
+	const url = new URL("/api/auth/product-stock/expiring", origin);
+	if (warehouseId) {
+		url.searchParams.set("warehouseId", warehouseId);
+	}
+
+	const headers = await buildCookieHeader(origin);
+
+	const res = await fetch(url.toString(), {
+		headers,
+		cache: "no-store",
+	});
+
+	if (!res.ok) {
+		const text = await res.text().catch(() => "");
+		throw new Error(
+			`Expiring product stock fetch failed: ${res.status} ${res.statusText} ${text}`,
+		);
+	}
+
+	return res.json();
+};
+
+/**
+ * Fetch the value of the units on hand per warehouse on the server.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to value every warehouse in scope
+ * @returns Promise resolving to the valuation per warehouse
+ * @throws Error if the fetch fails
+ */
+export const fetchInventoryValuationServer = async (
+	warehouseId?: string,
+): Promise<InventoryValuationResponse> => {
+	const origin = resolveTrustedOrigin();
+	const url = new URL("/api/auth/product-stock/valuation", origin);
+	if (warehouseId) {
+		url.searchParams.set("warehouseId", warehouseId);
+	}
+
+	const headers = await buildCookieHeader(origin);
+
+	const res = await fetch(url.toString(), {
+		headers,
+		cache: "no-store",
+	});
+
+	if (!res.ok) {
+		const text = await res.text().catch(() => "");
+		throw new Error(
+			`Inventory valuation fetch failed: ${res.status} ${res.statusText} ${text}`,
+		);
+	}
+
+	return res.json();
+};
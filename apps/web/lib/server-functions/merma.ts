@@ -3,6 +3,7 @@ import type {
 	MermaEventsQuery,
 	MermaEventsResponse,
 	MermaMissingTransfersSummaryResponse,
+	MermaWriteoffsMonthlyResponse,
 	MermaWriteoffsSummaryResponse,
 } from "@/lib/fetch-functions/merma";
 import type { MermaExportQuery } from "../fetch-functions/merma";
@@ -55,6 +56,32 @@ export const fetchMermaWriteoffsSummaryServer = async (
 	return (await res.json()) as MermaWriteoffsSummaryResponse;
 };
 
+export const fetchMermaWriteoffsMonthlyServer = async (
+	params: MermaSummaryQuery,
+): Promise<MermaWriteoffsMonthlyResponse> => {
+	const origin = resolveTrustedOrigin();
+	const url = new URL("/api/auth/merma/writeoffs/monthly", origin);
+	url.searchParams.set("start", params.start);
+	url.searchParams.set("end", params.end);
+	url.searchParams.set("scope", params.scope);
+	appendOptionalParam(url, "warehouseId", params.warehouseId);
+	const headers = await buildCookieHeader(origin);
+
+	const res = await fetch(url.toString(), {
+		headers,
+		cache: "no-store",
+	});
+
+	if (!res.ok) {
+		const text = await res.text().catch(() => "");
+		throw new Error(
+			`Merma monthly value fetch failed: ${res.status} ${res.statusText} ${text}`,
+		);
+	}
+
+	return (await res.json()) as MermaWriteoffsMonthlyResponse;
+};
+
 export const fetchMermaMissingTransfersSummaryServer = async (
 	params: MermaSummaryQuery,
 ): Promise<MermaMissingTransfersSummaryResponse> => {
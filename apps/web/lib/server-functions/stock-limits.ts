@@ -1,5 +1,8 @@
 import "server-only";
-import type { StockLimitListResponse } from "@/types";
+import type {
+	StockLimitListResponse,
+	UsageLimitAlertsResponse,
+} from "@/types";
 import {
 	buildCookieHeader,
 	resolveTrustedOrigin,
@@ -64,3 +67,36 @@ export const fetchStockLimitsByWarehouseServer = async (
 
 	return res.json();
 };
+
+/**
+ * Fetch the units close to their usage limit ("por agotarse") on the server.
+ *
+ * @param warehouseId - Optional warehouse filter; omit it to list every warehouse in scope
+ * @returns Promise resolving to the usage limit alerts
+ * @throws Error if the fetch fails
+ */
+export const fetchUsageLimitAlertsServer = async (
+	warehouseId?: string,
+): Promise<UsageLimitAlertsResponse> => {
+	const origin = resolveTrustedOrigin();
+	const url = new URL("/api/auth/stock-limits/usage-alerts", origin);
+	if (warehouseId) {
+		url.searchParams.set("warehouseId", warehouseId);
+	}
+
+	const headers = await buildCookieHeader(origin);
+
+	const res = await fetch(url.toString(), {
+		headers,
+		cache: "no-store",
+	});
+
+	if (!res.ok) {
+		const text = await res.text().catch(() => "");
+		throw new Error(
+			`Usage limit alerts fetch failed: ${res.status} ${res.statusText} ${text}`,
+		);
+	}
+
+	return res.json();
+};
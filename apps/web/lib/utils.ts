@@ -35,6 +35,100 @@ export const toStringIfString = (value: unknown): string | undefined =>
 
 export const toRecord = (value: unknown): UnknownRecord | undefined =>
 	isRecord(value) ? (value as UnknownRecord) : undefined;
+
+/**
+ * Compares units first-expired-first-out (FEFO): earliest `expiresAt` first and units
+ * without expiration last, like the API. Returns 0 for equal dates so callers can add
+ * their own tiebreaker.
+ *
+ * @param left - Unit with an optional `YYYY-MM-DD` expiration date
+ * @param right - Unit with an optional `YYYY-MM-DD` expiration date
+ * @returns A negative number when `left` should be picked first, positive when `right` should
+ */
+export const compareFefo = (
+	left: { expiresAt?: string | null | undefined },
+	right: { expiresAt?: string | null | undefined },
+): number => {
+	if (left.expiresAt === right.expiresAt) {
+		return 0;
+	}
+	if (!left.expiresAt) {
+		return 1;
+	}
+	if (!right.expiresAt) {
+		return -1;
+	}
+	return left.expiresAt < right.expiresAt ? -1 : 1;
+};
+
+/**
+ * Formats a `YYYY-MM-DD` expiration date as `dd/MM/yyyy` without shifting it by time zone.
+ */
+export const formatExpiryDate = (expiresAt: string): string => {
+	const [year, month, day] = expiresAt.split("-");
+	return year && month && day ? `${day}/${month}/${year}` : expiresAt;
+};
+
+/**
+ * Opens a PDF returned by the API in a new tab to print it. Falls back to a
+ * download when the browser blocks the tab.
+ */
+export const openPdf = (pdf: Blob, filename: string) => {
+	const url = URL.createObjectURL(pdf);
+	const tab = window.open(url, "_blank");
+	if (!tab) {
+		const anchor = document.createElement("a");
+		anchor.href = url;
+		anchor.download = filename;
+		anchor.click();
+	}
+	// The new tab loads the PDF after this returns
+	setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+/** A scanned unit QR (`{barcode, uuid}`) or plain barcode */
+export type ParsedScan = { barcode: number; uuid?: string };
+
+/**
+ * Parses a scanned code, from a keyboard-wedge scanner or the camera: either a unit QR
+ * (`{"barcode":..,"uuid":..}`) or a plain numeric barcode.
+ *
+ * @param value - Raw scanner input.
+ * @returns The parsed scan, or null when the input is not a valid code.
+ */
+export function parseScanValue(value: string): ParsedScan | null {
+	const trimmed = value.trim();
+	if (trimmed.startsWith("{")) {
+		try {
+			const parsed = JSON.parse(trimmed) as { barcode?: unknown; uuid?: unknown };
+			const barcode = Number(parsed.barcode);
+			if (!Number.isInteger(barcode) || barcode < 0) {
+				return null;
+			}
+			return typeof parsed.uuid === "string" && parsed.uuid
+				? { barcode, uuid: parsed.uuid }
+				: { barcode };
+		} catch {
+			return null;
+		}
+	}
+	if (!/^\d+$/.test(trimmed)) {
+		return null;
+	}
+	return { barcode: Number(trimmed) };
+}
+
+const currencyFormatter = new Intl.NumberFormat("es-MX", {
+	style: "currency",
+	currency: "MXN",
+});
+
+/**
+ * Formats a peso amount as `$1,234.50`.
+ */
+export const formatCurrency = (value: number): string =>
+	currencyFormatter.format(value);
+
 /**
  * Determines whether the given value is a successful warehouse-map response.
  *
@@ -2,7 +2,7 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { ProductStockItem } from '@/lib/schemas';
 
-export type DisposalReason = 'consumido' | 'dañado' | 'otro';
+export type DisposalReason = 'consumido' | 'dañado' | 'caducado' | 'otro';
 
 interface DisposalState {
 	current?: ProductStockItem;
@@ -152,6 +152,341 @@ export type StockLimitListResponse = {
 	data?: StockLimit[];
 };
 
+/**
+ * Unit close to the maxUsage of its usage limit ("por agotarse")
+ */
+export type UsageLimitAlert = {
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	warehouseId: string;
+	warehouseName: string;
+	numberOfUses: number;
+	minUsage: number | null;
+	maxUsage: number;
+	remainingUses: number;
+	isBeingUsed: boolean;
+	status: "approaching" | "limit_reached";
+};
+
+export type UsageLimitAlertsResponse = {
+	success: boolean;
+	message?: string;
+	data?: UsageLimitAlert[];
+};
+
+/**
+ * Unit that expired or expires soon; `daysUntilExpiry` is negative once expired
+ */
+export type ExpiringUnit = {
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	lotNumber: string | null;
+	expiresAt: string;
+	daysUntilExpiry: number;
+	warehouseId: string;
+	warehouseName: string;
+	isBeingUsed: boolean;
+};
+
+export type ExpiringUnitsResponse = {
+	success: boolean;
+	message?: string;
+	data?: {
+		expired: ExpiringUnit[];
+		expiringSoon: ExpiringUnit[];
+	};
+};
+
+/**
+ * Units on hand of one barcode in a warehouse, valued at their weighted-average cost
+ */
+export type InventoryValuationItem = {
+	barcode: number;
+	description: string | null;
+	units: number;
+	costedUnits: number;
+	averageUnitCost: number | null;
+	totalValue: number;
+};
+
+export type WarehouseValuation = {
+	warehouseId: string;
+	warehouseName: string;
+	units: number;
+	uncostedUnits: number;
+	totalValue: number;
+	items: InventoryValuationItem[];
+};
+
+export type InventoryValuationResponse = {
+	success: boolean;
+	message?: string;
+	data?: WarehouseValuation[];
+};
+
+export type TransferDiscrepancyOutcome =
+	| "return_to_source"
+	| "damaged"
+	| "in_transit"
+	| "found";
+
+/**
+ * Transfer item that was not received (`missing`) or arrived damaged (`damaged`).
+ * `outcome` is null until the receiver resolves it.
+ */
+export type TransferDiscrepancyItem = {
+	transferDetailId: string;
+	productStockId: string;
+	barcode: number;
+	description: string | null;
+	quantity: number;
+	kind: "missing" | "damaged";
+	itemCondition: string;
+	itemNotes: string | null;
+	outcome: TransferDiscrepancyOutcome | null;
+	notes: string | null;
+	resolvedAt: string | null;
+	resolvedByUserId: string | null;
+};
+
+export type TransferDiscrepancyReport = {
+	transferId: string;
+	transferNumber: string;
+	sourceWarehouseId: string;
+	destinationWarehouseId: string;
+	isCompleted: boolean;
+	items: TransferDiscrepancyItem[];
+	summary: {
+		missingItems: number;
+		damagedItems: number;
+		unresolvedItems: number;
+		outcomes: Record<TransferDiscrepancyOutcome, number>;
+	};
+};
+
+export type TransferDiscrepancyResponse = {
+	success: boolean;
+	message?: string;
+	data?: TransferDiscrepancyReport;
+};
+
+/**
+ * Approval state of transfers and replenishment orders; only warehouses with
+ * `requiresApproval` start at `awaiting_approval`.
+ */
+export type ApprovalStatus =
+	| "not_required"
+	| "awaiting_approval"
+	| "approved"
+	| "rejected";
+
+/**
+ * Where an external transfer is in its trip. Internal transfers are created
+ * `closed`; items can only be received while `in_transit`.
+ */
+export type TransferStatus =
+	| "draft"
+	| "picked"
+	| "dispatched"
+	| "in_transit"
+	| "received"
+	| "closed"
+	| "cancelled";
+
+export type NotificationRuleType =
+	| "low_stock"
+	| "transfer_pending"
+	| "withdraw_overdue"
+	| "shrinkage_spike";
+
+export type NotificationDeliveryMode = "immediate" | "digest";
+
+/**
+ * Entry of the in-app inbox. `link` is a dashboard path.
+ */
+export type InboxNotification = {
+	id: string;
+	userId: string;
+	ruleId: string | null;
+	type: NotificationRuleType | "transfer_discrepancy";
+	warehouseId: string | null;
+	title: string;
+	body: string;
+	link: string | null;
+	dedupeKey: string;
+	emailStatus: "none" | "pending" | "digest" | "sent" | "failed";
+	emailedAt: string | null;
+	readAt: string | null;
+	createdAt: string;
+};
+
+export type NotificationInboxResponse = {
+	success: boolean;
+	message?: string;
+	data?: { items: InboxNotification[]; unreadCount: number };
+};
+
+export type NotificationRule = {
+	id: string;
+	type: NotificationRuleType;
+	warehouseId: string | null;
+	role: "admin" | "encargado" | "manager" | "employee" | "viewer";
+	threshold: number | null;
+	sendEmail: boolean;
+	deliveryMode: NotificationDeliveryMode;
+	isActive: boolean;
+	createdByUserId: string | null;
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type NotificationRulesResponse = {
+	success: boolean;
+	message?: string;
+	data?: NotificationRule[];
+};
+
+export type WebhookEventType =
+	| "transfer.completed"
+	| "shrinkage.recorded"
+	| "replenishment_order.sent";
+
+export type WebhookDeliveryStatus =
+	| "pending"
+	| "processing"
+	| "succeeded"
+	| "failed";
+
+/**
+ * Outbound webhook subscription. The secret itself is only returned on create or rotation.
+ */
+export type WebhookSubscription = {
+	id: string;
+	name: string;
+	url: string;
+	eventTypes: WebhookEventType[];
+	isActive: boolean;
+	secretHint: string;
+	createdByUserId: string | null;
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type WebhookSubscriptionsResponse = {
+	success: boolean;
+	message?: string;
+	data?: WebhookSubscription[];
+};
+
+export type WebhookDelivery = {
+	id: string;
+	subscriptionId: string;
+	eventId: string;
+	eventType: WebhookEventType;
+	payload: unknown;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	maxAttempts: number;
+	nextAttemptAt: string;
+	lastAttemptAt: string | null;
+	lastStatusCode: number | null;
+	lastError: string | null;
+	lastResponseBody: string | null;
+	completedAt: string | null;
+	replayOfDeliveryId: string | null;
+	createdAt: string;
+};
+
+export type WebhookDeliveriesResponse = {
+	success: boolean;
+	message?: string;
+	data?: WebhookDelivery[];
+};
+
+export type PurchaseOrderStatus =
+	| "draft"
+	| "sent"
+	| "partially_received"
+	| "closed";
+
+/**
+ * Supplier with the barcodes it provides by default.
+ */
+export type Supplier = {
+	id: string;
+	name: string;
+	contactName: string | null;
+	email: string | null;
+	phone: string | null;
+	notes: string | null;
+	isActive: boolean;
+	barcodes: number[];
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type SuppliersResponse = {
+	success: boolean;
+	message?: string;
+	data?: Supplier[];
+};
+
+export type PurchaseOrderItemSource = {
+	id: string;
+	replenishmentOrderDetailId: string | null;
+	replenishmentOrderId: string | null;
+	replenishmentOrderNumber: string | null;
+	sourceWarehouseId: string | null;
+	quantity: number;
+	receivedQuantity: number;
+};
+
+export type PurchaseOrderItem = {
+	id: string;
+	purchaseOrderId: string;
+	barcode: number;
+	description: string | null;
+	quantity: number;
+	receivedQuantity: number;
+	sources: PurchaseOrderItemSource[];
+};
+
+type PurchaseOrderBase = {
+	id: string;
+	orderNumber: string;
+	supplierId: string;
+	supplierName: string;
+	cedisWarehouseId: string;
+	status: PurchaseOrderStatus;
+	notes: string | null;
+	sentAt: string | null;
+	closedAt: string | null;
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type PurchaseOrderSummary = PurchaseOrderBase & {
+	itemsCount: number;
+	totalQuantity: number;
+	totalReceived: number;
+};
+
+export type PurchaseOrder = PurchaseOrderBase & { items: PurchaseOrderItem[] };
+
+export type PurchaseOrdersResponse = {
+	success: boolean;
+	message?: string;
+	data?: PurchaseOrderSummary[];
+};
+
+export type PurchaseOrderResponse = {
+	success: boolean;
+	message?: string;
+	data?: PurchaseOrder;
+};
+
 /**
  * Type for creating a transfer order (matches API endpoint expectations)
  */
@@ -0,0 +1,31 @@
+'use memo';
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+/**
+ * Skeleton loading UI for the Conteos (cycle counts) page.
+ */
+export function SkeletonConteosPage() {
+	return (
+		<div className="theme-transition flex-1 space-y-6 bg-white p-4 md:p-6 dark:bg-[#151718]">
+			<div className="space-y-2">
+				<h1 className="font-bold text-2xl text-[#11181C] text-transition md:text-3xl dark:text-[#ECEDEE]">
+					Conteos cíclicos
+				</h1>
+				<p className="text-[#687076] text-transition dark:text-[#9BA1A6]">
+					Cuenta físicamente un almacén o gabinete y concilia las diferencias.
+				</p>
+			</div>
+			<Card className="card-transition border-[#E5E7EB] bg-[#F9FAFB] dark:border-[#2D3033] dark:bg-[#1E1F20]">
+				<CardHeader>
+					<Skeleton className="h-6 w-48" />
+				</CardHeader>
+				<CardContent className="space-y-3">
+					<Skeleton className="h-10 w-full" />
+					<Skeleton className="h-10 w-full" />
+					<Skeleton className="h-10 w-full" />
+				</CardContent>
+			</Card>
+		</div>
+	);
+}